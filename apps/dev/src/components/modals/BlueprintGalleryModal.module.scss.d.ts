@@ -0,0 +1,34 @@
+declare const styles: {
+  readonly "modal": string;
+  readonly "modal__overlay": string;
+  readonly "modal__content": string;
+  readonly "modal__header": string;
+  readonly "modal__title": string;
+  readonly "modal__close": string;
+  readonly "modal__body": string;
+  readonly "modal__error": string;
+  readonly "modal__footer": string;
+  readonly "gallery": string;
+  readonly "gallery__filters": string;
+  readonly "gallery__categories": string;
+  readonly "gallery__category": string;
+  readonly "gallery__category--active": string;
+  readonly "gallery__grid": string;
+  readonly "gallery__empty": string;
+  readonly "blueprintCard": string;
+  readonly "blueprintCard__thumbnail": string;
+  readonly "blueprintCard__canvas": string;
+  readonly "blueprintCard__name": string;
+  readonly "blueprintCard__description": string;
+  readonly "wizard": string;
+  readonly "wizard__steps": string;
+  readonly "wizard__step": string;
+  readonly "wizard__step--active": string;
+  readonly "wizard__step--done": string;
+  readonly "wizard__panel": string;
+  readonly "wizard__title": string;
+  readonly "wizard__field": string;
+  readonly "wizard__textarea": string;
+  readonly "wizard__hint": string;
+};
+export = styles;
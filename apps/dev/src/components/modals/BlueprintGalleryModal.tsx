@@ -0,0 +1,470 @@
+/**
+ * Blueprint Gallery Modal
+ *
+ * Gallery of template blueprints with live thumbnails, and a step-by-step
+ * wizard filling the slots of the chosen blueprint before creating the template
+ */
+
+import { type Component, createMemo, createSignal, For, Show } from 'solid-js';
+import type {
+  BlueprintCategory,
+  BlueprintError,
+  BlueprintInstantiationOptions,
+  BlueprintSlot,
+  SlotContent,
+  Template,
+  TemplateBlueprint,
+} from '@email-builder/core';
+import { ComponentRenderer } from '@email-builder/ui-solid/canvas';
+import styles from './BlueprintGalleryModal.module.scss';
+import { Button, Input, Label } from '@email-builder/ui-solid/atoms';
+
+export interface BlueprintGalleryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  blueprints: TemplateBlueprint[];
+  /**
+   * Template of a blueprint with its default content, for thumbnails
+   */
+  onPreview: (blueprintId: string) => Template | undefined;
+  onValidate: (blueprintId: string, slotContent: Record<string, SlotContent>) => BlueprintError[];
+  onCreate: (options: BlueprintInstantiationOptions) => Promise<void>;
+}
+
+/**
+ * Fields of a slot, edited as plain values
+ */
+interface SlotValues {
+  text?: string;
+  src?: string;
+  alt?: string;
+  href?: string;
+}
+
+type WizardStep = { type: 'slot'; slot: BlueprintSlot } | { type: 'name' };
+
+const getSlotComponent = (blueprint: TemplateBlueprint, slotId: string) =>
+  blueprint.structure.flatMap((section) => section.components).find((component) => component.slotId === slotId);
+
+const escapeHTML = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const BlueprintGalleryModal: Component<BlueprintGalleryModalProps> = (props) => {
+  const [category, setCategory] = createSignal<BlueprintCategory | 'all'>('all');
+  const [searchQuery, setSearchQuery] = createSignal('');
+  const [blueprint, setBlueprint] = createSignal<TemplateBlueprint | null>(null);
+  const [stepIndex, setStepIndex] = createSignal(0);
+  const [slotValues, setSlotValues] = createSignal<Record<string, SlotValues>>({});
+  const [templateName, setTemplateName] = createSignal('');
+  const [errors, setErrors] = createSignal<BlueprintError[]>([]);
+  const [creating, setCreating] = createSignal(false);
+
+  const categories = createMemo(() => [...new Set(props.blueprints.map((item) => item.category))]);
+
+  const filteredBlueprints = () => {
+    const query = searchQuery().toLowerCase().trim();
+    return props.blueprints.filter(
+      (item) =>
+        (category() === 'all' || item.category === category()) &&
+        (!query ||
+          item.name.toLowerCase().includes(query) ||
+          item.description?.toLowerCase().includes(query) ||
+          item.metadata.tags?.some((tag) => tag.toLowerCase().includes(query)))
+    );
+  };
+
+  // Thumbnails are rendered once per blueprint, not on each filter change
+  const previews = createMemo(() => {
+    const templates = new Map<string, Template>();
+    if (props.isOpen) {
+      props.blueprints.forEach((item) => {
+        const template = props.onPreview(item.id);
+        if (template) {
+          templates.set(item.id, template);
+        }
+      });
+    }
+    return templates;
+  });
+
+  const steps = (): WizardStep[] => [
+    ...(blueprint()?.slots ?? []).map((slot): WizardStep => ({ type: 'slot', slot })),
+    { type: 'name' },
+  ];
+  const step = () => steps()[stepIndex()];
+
+  const slotComponentType = (slot: BlueprintSlot) =>
+    getSlotComponent(blueprint()!, slot.id)?.type ?? slot.defaultComponent ?? slot.allowedComponents?.[0];
+
+  const isRequired = (slot: BlueprintSlot) => (slot.minComponents ?? 0) > 0;
+
+  /**
+   * Slot content from the wizard values; slots left empty are omitted so they
+   * keep their default content
+   */
+  const getSlotContent = (): Record<string, SlotContent> => {
+    const current = blueprint();
+    if (!current) {
+      return {};
+    }
+
+    return Object.fromEntries(
+      current.slots.flatMap((slot) => {
+        const values = slotValues()[slot.id] ?? {};
+        const defaults = getSlotComponent(current, slot.id)?.componentData.content ?? {};
+        const content: Record<string, unknown> = {};
+
+        switch (slotComponentType(slot)) {
+          case 'text':
+            if (values.text?.trim()) {
+              const tag = String(defaults['type'] ?? 'paragraph').replace(/^heading-(\d)$/, 'h$1').replace('paragraph', 'p');
+              content['html'] = `<${tag}>${escapeHTML(values.text.trim())}</${tag}>`;
+              content['plainText'] = values.text.trim();
+            }
+            break;
+          case 'image':
+            if (values.src?.trim()) {
+              content['src'] = values.src.trim();
+            }
+            if (values.alt?.trim()) {
+              content['alt'] = values.alt.trim();
+            }
+            break;
+          case 'button':
+            if (values.text?.trim()) {
+              content['text'] = values.text.trim();
+            }
+            if (values.href?.trim()) {
+              content['link'] = { ...(defaults['link'] as object | undefined), href: values.href.trim() };
+            }
+            break;
+        }
+
+        return Object.keys(content).length > 0 || isRequired(slot) ? [[slot.id, { content }]] : [];
+      })
+    );
+  };
+
+  const updateSlotValue = (slotId: string, field: keyof SlotValues, value: string) => {
+    setSlotValues({ ...slotValues(), [slotId]: { ...slotValues()[slotId], [field]: value } });
+    setErrors([]);
+  };
+
+  const handleChoose = (item: TemplateBlueprint) => {
+    setBlueprint(item);
+    setStepIndex(0);
+    setSlotValues({});
+    setTemplateName(item.name);
+    setErrors([]);
+  };
+
+  const handleNext = () => {
+    const current = step();
+    if (current?.type === 'slot') {
+      const slotErrors = props
+        .onValidate(blueprint()!.id, getSlotContent())
+        .filter((error) => error.slotId === current.slot.id);
+      if (slotErrors.length > 0) {
+        setErrors(slotErrors);
+        return;
+      }
+    }
+    setErrors([]);
+    setStepIndex(stepIndex() + 1);
+  };
+
+  const handleBack = () => {
+    setErrors([]);
+    if (stepIndex() === 0) {
+      setBlueprint(null);
+      return;
+    }
+    setStepIndex(stepIndex() - 1);
+  };
+
+  const handleCreate = async () => {
+    const current = blueprint();
+    const name = templateName().trim();
+    if (!current || !name) {
+      setErrors([{ type: 'validation-failed', message: 'Please enter a template name' }]);
+      return;
+    }
+
+    // Check every slot again, e.g. after going back and clearing one
+    const slotContent = getSlotContent();
+    const slotErrors = props.onValidate(current.id, slotContent);
+    if (slotErrors.length > 0) {
+      setErrors(slotErrors);
+      return;
+    }
+
+    setCreating(true);
+    try {
+      await props.onCreate({ blueprintId: current.id, name, slotContent });
+      handleClose();
+    } catch (error) {
+      console.error('[BlueprintGalleryModal] Failed to create template:', error);
+      setErrors([{ type: 'validation-failed', message: 'Failed to create the template. Please try again.' }]);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleClose = () => {
+    setBlueprint(null);
+    setSearchQuery('');
+    setCategory('all');
+    setErrors([]);
+    props.onClose();
+  };
+
+  const renderSlotFields = (slot: BlueprintSlot) => {
+    const values = () => slotValues()[slot.id] ?? {};
+    const inputId = `blueprint-slot-${slot.id}`;
+
+    switch (slotComponentType(slot)) {
+      case 'text':
+        return (
+          <div class={styles.wizard__field}>
+            <Label for={inputId}>Text</Label>
+            <textarea
+              id={inputId}
+              class={styles.wizard__textarea}
+              rows={4}
+              placeholder={slot.placeholder ?? ''}
+              value={values().text ?? ''}
+              onInput={(e) => updateSlotValue(slot.id, 'text', e.currentTarget.value)}
+            />
+          </div>
+        );
+      case 'image':
+        return (
+          <>
+            <div class={styles.wizard__field}>
+              <Label for={inputId}>Image URL</Label>
+              <Input
+                id={inputId}
+                type="url"
+                placeholder="https://example.com/image.png"
+                value={values().src ?? ''}
+                onInput={(e: Event & { currentTarget: HTMLInputElement }) =>
+                  updateSlotValue(slot.id, 'src', e.currentTarget.value)
+                }
+              />
+            </div>
+            <div class={styles.wizard__field}>
+              <Label for={`${inputId}-alt`}>Alternative text</Label>
+              <Input
+                id={`${inputId}-alt`}
+                type="text"
+                value={values().alt ?? ''}
+                onInput={(e: Event & { currentTarget: HTMLInputElement }) =>
+                  updateSlotValue(slot.id, 'alt', e.currentTarget.value)
+                }
+              />
+            </div>
+          </>
+        );
+      case 'button':
+        return (
+          <>
+            <div class={styles.wizard__field}>
+              <Label for={inputId}>Button text</Label>
+              <Input
+                id={inputId}
+                type="text"
+                placeholder={slot.placeholder ?? ''}
+                value={values().text ?? ''}
+                onInput={(e: Event & { currentTarget: HTMLInputElement }) =>
+                  updateSlotValue(slot.id, 'text', e.currentTarget.value)
+                }
+              />
+            </div>
+            <div class={styles.wizard__field}>
+              <Label for={`${inputId}-href`}>Link</Label>
+              <Input
+                id={`${inputId}-href`}
+                type="url"
+                placeholder="https://example.com"
+                value={values().href ?? ''}
+                onInput={(e: Event & { currentTarget: HTMLInputElement }) =>
+                  updateSlotValue(slot.id, 'href', e.currentTarget.value)
+                }
+              />
+            </div>
+          </>
+        );
+      default:
+        return <p class={styles.wizard__hint}>This slot keeps its default content; edit it in the builder.</p>;
+    }
+  };
+
+  return (
+    <Show when={props.isOpen}>
+      <div class={styles.modal}>
+        <div class={styles.modal__overlay} onClick={handleClose} />
+        <div class={styles.modal__content}>
+          <div class={styles.modal__header}>
+            <h2 class={styles.modal__title}>
+              {blueprint() ? `New template from "${blueprint()!.name}"` : 'Start from a blueprint'}
+            </h2>
+            <Button
+              class={styles.modal__close}
+              onClick={handleClose}
+              aria-label="Close modal"
+              variant="ghost"
+              icon="close-line"
+            />
+          </div>
+
+          <Show
+            when={blueprint()}
+            fallback={
+              <div class={styles.modal__body}>
+                <div class={styles.gallery__filters}>
+                  <Input
+                    type="text"
+                    placeholder="Search blueprints..."
+                    value={searchQuery()}
+                    onInput={(e: Event & { currentTarget: HTMLInputElement }) => setSearchQuery(e.currentTarget.value)}
+                  />
+                  <div class={styles.gallery__categories}>
+                    <For each={['all' as const, ...categories()]}>
+                      {(item) => (
+                        <button
+                          type="button"
+                          class={styles.gallery__category}
+                          classList={{ [styles['gallery__category--active'] ?? '']: category() === item }}
+                          onClick={() => setCategory(item)}
+                        >
+                          {item === 'all' ? 'All' : item}
+                        </button>
+                      )}
+                    </For>
+                  </div>
+                </div>
+
+                <Show
+                  when={filteredBlueprints().length > 0}
+                  fallback={<p class={styles.gallery__empty}>No blueprints found</p>}
+                >
+                  <div class={styles.gallery__grid}>
+                    <For each={filteredBlueprints()}>
+                      {(item) => (
+                        <button
+                          type="button"
+                          class={styles.blueprintCard}
+                          data-testid={`blueprint-${item.id}`}
+                          onClick={() => handleChoose(item)}
+                        >
+                          <div class={styles.blueprintCard__thumbnail} aria-hidden="true">
+                            <div class={styles.blueprintCard__canvas}>
+                              <For each={previews().get(item.id)?.components ?? []}>
+                                {(component) => <ComponentRenderer component={component} />}
+                              </For>
+                            </div>
+                          </div>
+                          <span class={styles.blueprintCard__name}>{item.name}</span>
+                          <Show when={item.description}>
+                            <span class={styles.blueprintCard__description}>{item.description}</span>
+                          </Show>
+                        </button>
+                      )}
+                    </For>
+                  </div>
+                </Show>
+              </div>
+            }
+          >
+            <div class={styles.modal__body}>
+              <ol class={styles.wizard__steps}>
+                <For each={steps()}>
+                  {(item, index) => (
+                    <li
+                      class={styles.wizard__step}
+                      classList={{
+                        [styles['wizard__step--active'] ?? '']: index() === stepIndex(),
+                        [styles['wizard__step--done'] ?? '']: index() < stepIndex(),
+                      }}
+                    >
+                      {item.type === 'slot' ? item.slot.name : 'Name'}
+                    </li>
+                  )}
+                </For>
+              </ol>
+
+              <Show when={step()?.type === 'slot' && (step() as { slot: BlueprintSlot }).slot} keyed>
+                {(slot) => (
+                  <div class={styles.wizard__panel}>
+                    <h3 class={styles.wizard__title}>
+                      {slot.name}
+                      {isRequired(slot) ? ' *' : ' (optional)'}
+                    </h3>
+                    <Show when={slot.description}>
+                      <p class={styles.wizard__hint}>{slot.description}</p>
+                    </Show>
+                    {renderSlotFields(slot)}
+                    <Show when={!isRequired(slot)}>
+                      <p class={styles.wizard__hint}>Leave empty to keep the blueprint content.</p>
+                    </Show>
+                  </div>
+                )}
+              </Show>
+
+              <Show when={step()?.type === 'name'}>
+                <div class={styles.wizard__panel}>
+                  <div class={styles.wizard__field}>
+                    <Label for="blueprint-template-name">Template Name</Label>
+                    <Input
+                      id="blueprint-template-name"
+                      type="text"
+                      value={templateName()}
+                      onInput={(e: Event & { currentTarget: HTMLInputElement }) => {
+                        setTemplateName(e.currentTarget.value);
+                        setErrors([]);
+                      }}
+                      autofocus
+                    />
+                  </div>
+                </div>
+              </Show>
+
+              <Show when={errors().length > 0}>
+                <ul class={styles.modal__error}>
+                  <For each={errors()}>{(error) => <li>{error.message}</li>}</For>
+                </ul>
+              </Show>
+            </div>
+          </Show>
+
+          <div class={styles.modal__footer}>
+            <Show
+              when={blueprint()}
+              fallback={
+                <Button type="button" variant="secondary" onClick={handleClose}>
+                  Cancel
+                </Button>
+              }
+            >
+              <Button type="button" variant="secondary" onClick={handleBack}>
+                Back
+              </Button>
+              <Show
+                when={step()?.type === 'name'}
+                fallback={
+                  <Button type="button" variant="primary" onClick={handleNext}>
+                    Next
+                  </Button>
+                }
+              >
+                <Button type="button" variant="primary" onClick={handleCreate} disabled={creating()}>
+                  {creating() ? 'Creating...' : 'Create Template'}
+                </Button>
+              </Show>
+            </Show>
+          </div>
+        </div>
+      </div>
+    </Show>
+  );
+};
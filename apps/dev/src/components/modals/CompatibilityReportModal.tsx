@@ -368,7 +368,7 @@ const IssueCard: Component<IssueCardProps> = (props) => {
             icon={props.isFixing ? 'loader-4-line' : 'tools-line'}
             iconPosition="left"
           >
-            {props.isFixing ? 'Fixing...' : 'Fix'}
+            {props.isFixing ? 'Fixing...' : props.issue.fixLabel ?? 'Fix'}
           </Button>
         </Show>
       </div>
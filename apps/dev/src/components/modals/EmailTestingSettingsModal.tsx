@@ -93,15 +93,16 @@ export const EmailTestingSettingsModal: Component<EmailTestingSettingsModalProps
 
   const handleSubmit = (e: Event) => {
     e.preventDefault();
+    const isSandbox = provider() === 'sandbox';
 
-    // Validate required fields
-    if (!apiEndpoint().trim()) {
+    // Validate required fields (the sandbox runs locally)
+    if (!isSandbox && !apiEndpoint().trim()) {
       setError('API endpoint is required');
       return;
     }
 
     // Validate credentials based on auth method
-    const method = authMethod();
+    const method = isSandbox ? undefined : authMethod();
     if (method === 'api-key' && !apiKey().trim()) {
       setError('API key is required');
       return;
@@ -170,113 +171,116 @@ export const EmailTestingSettingsModal: Component<EmailTestingSettingsModalProps
                 <option value="email-on-acid">Email on Acid</option>
                 <option value="testi">Testi@</option>
                 <option value="custom">Custom Service</option>
+                <option value="sandbox">Local Sandbox (offline)</option>
               </select>
             </div>
 
-            {/* API Endpoint */}
-            <div class={styles.modal__field}>
-              <Label for="api-endpoint">
-                API Endpoint
-              </Label>
-              <Input
-                id="api-endpoint"
-                type="url"
-                placeholder="https://api.litmus.com/v1"
-                value={apiEndpoint()}
-                onInput={(e: Event & { currentTarget: HTMLInputElement }) => {
-                  setApiEndpoint(e.currentTarget.value);
-                  setError('');
-                }}
-              />
-            </div>
-
-            {/* Authentication Method */}
-            <div class={styles.modal__field}>
-              <Label for="auth-method">
-                Authentication Method
-              </Label>
-              <select
-                id="auth-method"
-                class={styles.modal__select}
-                value={authMethod()}
-                onChange={(e) => setAuthMethod(e.currentTarget.value as AuthenticationMethod)}
-              >
-                <option value="api-key">API Key</option>
-                <option value="bearer">Bearer Token</option>
-                <option value="basic">Basic Auth</option>
-                <option value="oauth">OAuth</option>
-              </select>
-            </div>
-
-            {/* Conditional Credential Fields */}
-            <Show when={authMethod() === 'api-key' || authMethod() === 'bearer'}>
+            <Show when={provider() !== 'sandbox'}>
+              {/* API Endpoint */}
               <div class={styles.modal__field}>
-                <Label for="api-key">
-                  API Key
+                <Label for="api-endpoint">
+                  API Endpoint
                 </Label>
                 <Input
-                  id="api-key"
-                  type="password"
-                  placeholder="Enter your API key"
-                  value={apiKey()}
+                  id="api-endpoint"
+                  type="url"
+                  placeholder="https://api.litmus.com/v1"
+                  value={apiEndpoint()}
                   onInput={(e: Event & { currentTarget: HTMLInputElement }) => {
-                    setApiKey(e.currentTarget.value);
+                    setApiEndpoint(e.currentTarget.value);
                     setError('');
                   }}
                 />
               </div>
-            </Show>
 
-            <Show when={authMethod() === 'basic'}>
+              {/* Authentication Method */}
               <div class={styles.modal__field}>
-                <Label for="username">
-                  Username
+                <Label for="auth-method">
+                  Authentication Method
                 </Label>
-                <Input
-                  id="username"
-                  type="text"
-                  placeholder="your-email@example.com"
-                  value={username()}
-                  onInput={(e: Event & { currentTarget: HTMLInputElement }) => {
-                    setUsername(e.currentTarget.value);
-                    setError('');
-                  }}
-                />
+                <select
+                  id="auth-method"
+                  class={styles.modal__select}
+                  value={authMethod()}
+                  onChange={(e) => setAuthMethod(e.currentTarget.value as AuthenticationMethod)}
+                >
+                  <option value="api-key">API Key</option>
+                  <option value="bearer">Bearer Token</option>
+                  <option value="basic">Basic Auth</option>
+                  <option value="oauth">OAuth</option>
+                </select>
               </div>
 
-              <div class={styles.modal__field}>
-                <Label for="password">
-                  Password / API Key
-                </Label>
-                <Input
-                  id="password"
-                  type="password"
-                  placeholder="Enter your password or API key"
-                  value={password()}
-                  onInput={(e: Event & { currentTarget: HTMLInputElement }) => {
-                    setPassword(e.currentTarget.value);
-                    setError('');
-                  }}
-                />
-              </div>
-            </Show>
+              {/* Conditional Credential Fields */}
+              <Show when={authMethod() === 'api-key' || authMethod() === 'bearer'}>
+                <div class={styles.modal__field}>
+                  <Label for="api-key">
+                    API Key
+                  </Label>
+                  <Input
+                    id="api-key"
+                    type="password"
+                    placeholder="Enter your API key"
+                    value={apiKey()}
+                    onInput={(e: Event & { currentTarget: HTMLInputElement }) => {
+                      setApiKey(e.currentTarget.value);
+                      setError('');
+                    }}
+                  />
+                </div>
+              </Show>
 
-            <Show when={authMethod() === 'oauth'}>
-              <div class={styles.modal__field}>
-                <Label for="oauth-token">
-                  OAuth Token
-                </Label>
-                <Input
-                  id="oauth-token"
-                  type="password"
-                  placeholder="Enter your OAuth token"
-                  value={oauthToken()}
-                  onInput={(e: Event & { currentTarget: HTMLInputElement }) => {
-                    setOauthToken(e.currentTarget.value);
-                    setError('');
-                  }}
-                />
-              </div>
+              <Show when={authMethod() === 'basic'}>
+                <div class={styles.modal__field}>
+                  <Label for="username">
+                    Username
+                  </Label>
+                  <Input
+                    id="username"
+                    type="text"
+                    placeholder="your-email@example.com"
+                    value={username()}
+                    onInput={(e: Event & { currentTarget: HTMLInputElement }) => {
+                      setUsername(e.currentTarget.value);
+                      setError('');
+                    }}
+                  />
+                </div>
+
+                <div class={styles.modal__field}>
+                  <Label for="password">
+                    Password / API Key
+                  </Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="Enter your password or API key"
+                    value={password()}
+                    onInput={(e: Event & { currentTarget: HTMLInputElement }) => {
+                      setPassword(e.currentTarget.value);
+                      setError('');
+                    }}
+                  />
+                </div>
+              </Show>
+
+              <Show when={authMethod() === 'oauth'}>
+                <div class={styles.modal__field}>
+                  <Label for="oauth-token">
+                    OAuth Token
+                  </Label>
+                  <Input
+                    id="oauth-token"
+                    type="password"
+                    placeholder="Enter your OAuth token"
+                    value={oauthToken()}
+                    onInput={(e: Event & { currentTarget: HTMLInputElement }) => {
+                      setOauthToken(e.currentTarget.value);
+                      setError('');
+                    }}
+                  />
+                </div>
+              </Show>
             </Show>
 
             {/* Test Connection Section */}
@@ -19,6 +19,7 @@ declare const styles: {
   readonly "modal__button--primary": string;
   readonly "modal__button--secondary": string;
   readonly "modalRadioLabel": string;
+  readonly "browseButton": string;
 };
 export = styles;
 
@@ -4,7 +4,7 @@
  * Modal for creating a new email/web template
  */
 
-import { type Component, createSignal } from 'solid-js';
+import { type Component, createSignal, Show } from 'solid-js';
 import styles from './NewTemplateModal.module.scss';
 import { Button, Input, Label } from '@email-builder/ui-solid/atoms';
 import { Modal, RadioButtonGroup } from '@email-builder/ui-solid/molecules';
@@ -13,6 +13,10 @@ export interface NewTemplateModalProps {
   isOpen: boolean;
   onClose: () => void;
   onCreateTemplate: (name: string, type: 'email' | 'web') => void;
+  /**
+   * Opens the blueprint gallery instead, when set
+   */
+  onBrowseBlueprints?: () => void;
 }
 
 export const NewTemplateModal: Component<NewTemplateModalProps> = (props) => {
@@ -40,6 +44,11 @@ export const NewTemplateModal: Component<NewTemplateModalProps> = (props) => {
     props.onClose();
   };
 
+  const handleBrowseBlueprints = () => {
+    handleClose();
+    props.onBrowseBlueprints?.();
+  };
+
   return (
     <Modal isOpen={props.isOpen} onClose={handleClose}>
       <div class={styles.content}>
@@ -96,6 +105,11 @@ export const NewTemplateModal: Component<NewTemplateModalProps> = (props) => {
           </div>
 
           <div class={styles.actions}>
+            <Show when={props.onBrowseBlueprints}>
+              <Button type="button" variant="ghost" class={styles.browseButton} onClick={handleBrowseBlueprints}>
+                Start from a blueprint
+              </Button>
+            </Show>
             <Button type="button" variant="secondary" onClick={handleClose}>
               Cancel
             </Button>
@@ -5,16 +5,36 @@ declare const styles: {
   readonly "modal__header": string;
   readonly "modal__title": string;
   readonly "modal__subtitle": string;
-  readonly "modal__close": string;
   readonly "modal__modes": string;
   readonly "modal__modeButton": string;
   readonly "modal__modeButton--active": string;
+  readonly "modal__close": string;
+  readonly "modal__deviceSelector": string;
+  readonly "modal__deviceLabel": string;
+  readonly "modal__deviceButtons": string;
+  readonly "modal__deviceButton": string;
+  readonly "modal__deviceButton--active": string;
   readonly "modal__body": string;
   readonly "modal__viewport": string;
   readonly "modal__viewportLabel": string;
+  readonly "modal__viewportText": string;
+  readonly "modal__activeDevice": string;
   readonly "modal__preview": string;
   readonly "modal__template": string;
   readonly "modal__component": string;
+  readonly "modal__clientSelect": string;
+  readonly "modal__clientOption": string;
+  readonly "modal__clientPreview": string;
+  readonly "modal__clientPanes": string;
+  readonly "modal__clientPane": string;
+  readonly "modal__clientFrame": string;
+  readonly "modal__differences": string;
+  readonly "modal__differencesTitle": string;
+  readonly "modal__differenceList": string;
+  readonly "modal__difference": string;
+  readonly "modal__differenceChange": string;
+  readonly "modal__differenceCount": string;
+  readonly "modal__differenceReason": string;
   readonly "modal__emptyState": string;
 };
 export = styles;
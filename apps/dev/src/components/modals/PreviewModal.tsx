@@ -2,12 +2,21 @@
  * Preview Modal
  *
  * Modal for previewing templates in different modes and devices
- * Supports responsive device simulation (mobile, tablet, desktop) and email preview
+ * Supports responsive device simulation (mobile, tablet, desktop), email preview,
+ * and simulated email client rendering of the exported HTML
  */
 
-import { type Component, createSignal, createMemo, Show, For } from 'solid-js';
+import { type Component, createSignal, createMemo, createResource, Show, For } from 'solid-js';
 import { ComponentRenderer } from '@email-builder/ui-solid/canvas';
-import { DeviceType, BreakpointManager, isVisibleOnDevice } from '@email-builder/core';
+import {
+  DeviceType,
+  BreakpointManager,
+  isVisibleOnDevice,
+  ClientRenderingSimulator,
+  CLIENT_RENDERING_PROFILES,
+  EMAIL_CLIENT_LABELS,
+  type EmailClientId,
+} from '@email-builder/core';
 import type { PreviewModalProps, PreviewMode, ViewportDimensions } from './PreviewModal.types';
 import { EMAIL_VIEWPORT } from './PreviewModal.types';
 import styles from './PreviewModal.module.scss';
@@ -25,6 +34,23 @@ export const PreviewModal: Component<PreviewModalProps> = (props) => {
     props.initialDevice ?? DeviceType.DESKTOP
   );
 
+  // Simulated client for client mode
+  const simulator = new ClientRenderingSimulator();
+  const [activeClient, setActiveClient] = createSignal<EmailClientId>('outlook-2019-win');
+  const [nonGmailAccount, setNonGmailAccount] = createSignal(false);
+
+  const [emailHTML] = createResource(
+    () => (props.isOpen && previewMode() === 'client' && props.exportHTML ? props.template : null),
+    () => props.exportHTML!()
+  );
+
+  const clientRendering = createMemo(() => {
+    const html = emailHTML();
+    return html === undefined
+      ? undefined
+      : simulator.simulate(html, activeClient(), { nonGmailAccount: nonGmailAccount() });
+  });
+
   const handleClose = () => {
     props.onClose();
   };
@@ -153,6 +179,19 @@ export const PreviewModal: Component<PreviewModalProps> = (props) => {
               >
                 Email
               </Button>
+              <Show when={props.exportHTML}>
+                <Button
+                  class={styles.modal__modeButton}
+                  classList={{ [styles['modal__modeButton--active']]: previewMode() === 'client' }}
+                  onClick={() => handleModeChange('client')}
+                  title="Simulated Email Client Rendering"
+                  variant="secondary"
+                  icon="contrast-2-line"
+                  iconPosition="left"
+                >
+                  Clients
+                </Button>
+              </Show>
             </div>
 
             <Button
@@ -209,50 +248,164 @@ export const PreviewModal: Component<PreviewModalProps> = (props) => {
             </div>
           </Show>
 
+          {/* Client Switcher (only in client mode) */}
+          <Show when={previewMode() === 'client'}>
+            <div class={styles.modal__deviceSelector}>
+              <label class={styles.modal__deviceLabel} for="preview-client">Client:</label>
+              <select
+                id="preview-client"
+                class={styles.modal__clientSelect}
+                value={activeClient()}
+                onChange={(e) => setActiveClient(e.currentTarget.value as EmailClientId)}
+              >
+                <For each={Object.entries(EMAIL_CLIENT_LABELS)}>
+                  {([client, label]) => <option value={client}>{label}</option>}
+                </For>
+              </select>
+              <Show when={CLIENT_RENDERING_PROFILES[activeClient()]?.removesStyleBlocks === 'non-gmail-account'}>
+                <label class={styles.modal__clientOption}>
+                  <input
+                    type="checkbox"
+                    checked={nonGmailAccount()}
+                    onChange={(e) => setNonGmailAccount(e.currentTarget.checked)}
+                  />
+                  Non-Gmail account
+                </label>
+              </Show>
+            </div>
+          </Show>
+
           <div class={styles.modal__body}>
-            <div class={styles.modal__viewport}>
-              {/* Viewport Label with Active Device Indicator */}
-              <div class={styles.modal__viewportLabel}>
-                <span class={styles.modal__viewportText}>{getCurrentViewport().label}</span>
-                <Show when={previewMode() === 'responsive'}>
-                  <span class={styles.modal__activeDevice}>
-                    <i class="ri-information-line" />
-                    Showing {visibleComponents().length} of {props.template?.components.length || 0} components
-                  </span>
+            <Show when={previewMode() === 'client'}>
+              <div class={styles.modal__clientPreview}>
+                <Show when={emailHTML.error}>
+                  <div class={styles.modal__emptyState}>
+                    <i class="ri-error-warning-line" />
+                    <p>Failed to export the template</p>
+                  </div>
+                </Show>
+                <Show when={clientRendering()}>
+                  {(rendering) => (
+                    <>
+                      <div class={styles.modal__clientPanes}>
+                        <div class={styles.modal__clientPane}>
+                          <div class={styles.modal__viewportLabel}>
+                            <span class={styles.modal__viewportText}>Ideal</span>
+                          </div>
+                          <iframe
+                            class={styles.modal__clientFrame}
+                            title="Ideal rendering"
+                            sandbox=""
+                            srcdoc={emailHTML()}
+                          />
+                        </div>
+                        <div class={styles.modal__clientPane}>
+                          <div class={styles.modal__viewportLabel}>
+                            <span class={styles.modal__viewportText}>{EMAIL_CLIENT_LABELS[rendering().client]}</span>
+                            <span class={styles.modal__activeDevice}>
+                              <i class="ri-information-line" />
+                              Simulated
+                            </span>
+                          </div>
+                          <iframe
+                            class={styles.modal__clientFrame}
+                            title={`${EMAIL_CLIENT_LABELS[rendering().client]} rendering`}
+                            sandbox=""
+                            srcdoc={rendering().html}
+                          />
+                        </div>
+                      </div>
+
+                      <div class={styles.modal__differences}>
+                        <h3 class={styles.modal__differencesTitle}>
+                          Differences ({rendering().differences.length})
+                        </h3>
+                        <Show
+                          when={rendering().differences.length > 0}
+                          fallback={<p class={styles.modal__differenceReason}>No differences with the ideal rendering.</p>}
+                        >
+                          <ul class={styles.modal__differenceList}>
+                            <For each={rendering().differences}>
+                              {(difference) => (
+                                <li class={styles.modal__difference}>
+                                  <div class={styles.modal__differenceChange}>
+                                    <Show
+                                      when={difference.change !== 'removed-style-block'}
+                                      fallback={<span>&lt;style&gt; block removed</span>}
+                                    >
+                                      <code>{difference.original}</code>
+                                      <span>{difference.replacement ? '→' : 'removed'}</span>
+                                      <Show when={difference.replacement}>
+                                        <code>{difference.replacement}</code>
+                                      </Show>
+                                    </Show>
+                                    <Show when={difference.count > 1}>
+                                      <span class={styles.modal__differenceCount}>×{difference.count}</span>
+                                    </Show>
+                                  </div>
+                                  <div class={styles.modal__differenceReason}>
+                                    {difference.reason}
+                                    <Show when={difference.workaround}>
+                                      {' '}— {difference.workaround}
+                                    </Show>
+                                  </div>
+                                </li>
+                              )}
+                            </For>
+                          </ul>
+                        </Show>
+                      </div>
+                    </>
+                  )}
                 </Show>
               </div>
+            </Show>
 
-              {/* Preview Container */}
-              <div
-                class={styles.modal__preview}
-                style={getPreviewContainerStyles()}
-              >
-                <div
-                  class={styles.modal__template}
-                  style={getTemplateStyles()}
-                >
-                  <Show when={visibleComponents().length > 0}>
-                    <For each={visibleComponents()}>
-                      {(component) => (
-                        <div class={styles.modal__component}>
-                          <ComponentRenderer component={component} />
-                        </div>
-                      )}
-                    </For>
-                  </Show>
-                  <Show when={visibleComponents().length === 0}>
-                    <div class={styles.modal__emptyState}>
+            <Show when={previewMode() !== 'client'}>
+              <div class={styles.modal__viewport}>
+                {/* Viewport Label with Active Device Indicator */}
+                <div class={styles.modal__viewportLabel}>
+                  <span class={styles.modal__viewportText}>{getCurrentViewport().label}</span>
+                  <Show when={previewMode() === 'responsive'}>
+                    <span class={styles.modal__activeDevice}>
                       <i class="ri-information-line" />
-                      <p>
-                        {props.template?.components && props.template.components.length > 0
-                          ? `No components visible on ${activeDevice()}`
-                          : 'No components in this template'}
-                      </p>
-                    </div>
+                      Showing {visibleComponents().length} of {props.template?.components.length || 0} components
+                    </span>
                   </Show>
                 </div>
+
+                {/* Preview Container */}
+                <div
+                  class={styles.modal__preview}
+                  style={getPreviewContainerStyles()}
+                >
+                  <div
+                    class={styles.modal__template}
+                    style={getTemplateStyles()}
+                  >
+                    <Show when={visibleComponents().length > 0}>
+                      <For each={visibleComponents()}>
+                        {(component) => (
+                          <div class={styles.modal__component}>
+                            <ComponentRenderer component={component} />
+                          </div>
+                        )}
+                      </For>
+                    </Show>
+                    <Show when={visibleComponents().length === 0}>
+                      <div class={styles.modal__emptyState}>
+                        <i class="ri-information-line" />
+                        <p>
+                          {props.template?.components && props.template.components.length > 0
+                            ? `No components visible on ${activeDevice()}`
+                            : 'No components in this template'}
+                        </p>
+                      </div>
+                    </Show>
+                  </div>
+                </div>
               </div>
-            </div>
+            </Show>
           </div>
         </div>
       </div>
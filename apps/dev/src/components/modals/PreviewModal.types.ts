@@ -8,8 +8,9 @@ import type { Template, DeviceType } from '@email-builder/core';
  * Preview mode type
  * - 'responsive': Shows template with responsive device simulation
  * - 'email': Shows email client preview
+ * - 'client': Shows the exported HTML as a given email client would render it
  */
-export type PreviewMode = 'responsive' | 'email';
+export type PreviewMode = 'responsive' | 'email' | 'client';
 
 /**
  * Preview modal props
@@ -41,6 +42,12 @@ export interface PreviewModalProps {
    * @default DeviceType.DESKTOP
    */
   initialDevice?: DeviceType;
+
+  /**
+   * Exports the email HTML simulated in client mode; client mode is not
+   * offered without it
+   */
+  exportHTML?: () => Promise<string>;
 }
 
 /**
@@ -0,0 +1,215 @@
+/**
+ * Save As Blueprint Modal
+ *
+ * Modal for saving the current template as a blueprint, marking which of its
+ * components are slots to fill when starting a new template from it
+ */
+
+import { type Component, createSignal, For, Show } from 'solid-js';
+import type { BlueprintCategory, BlueprintFromTemplateOptions, Template, TemplateSlotMarker } from '@email-builder/core';
+import styles from './SaveAsBlueprintModal.module.scss';
+import { Button, Input, Label } from '@email-builder/ui-solid/atoms';
+import { Modal } from '@email-builder/ui-solid/molecules';
+
+export interface SaveAsBlueprintModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  template: Template | null;
+  onSave: (options: BlueprintFromTemplateOptions) => Promise<void>;
+}
+
+const CATEGORIES: BlueprintCategory[] = [
+  'custom',
+  'welcome',
+  'promotional',
+  'transactional',
+  'newsletter',
+  'announcement',
+  'event',
+  'survey',
+  'drip',
+  'abandoned-cart',
+  'onboarding',
+  'digest',
+  'notification',
+];
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+export const SaveAsBlueprintModal: Component<SaveAsBlueprintModalProps> = (props) => {
+  const [name, setName] = createSignal('');
+  const [description, setDescription] = createSignal('');
+  const [category, setCategory] = createSignal<BlueprintCategory>('custom');
+  const [slots, setSlots] = createSignal<Record<string, TemplateSlotMarker>>({});
+  const [error, setError] = createSignal('');
+  const [saving, setSaving] = createSignal(false);
+
+  const toggleSlot = (componentId: string, componentType: string) => {
+    const { [componentId]: current, ...rest } = slots();
+    setSlots(current ? rest : { ...rest, [componentId]: { name: capitalize(componentType), required: true } });
+  };
+
+  const updateSlot = (componentId: string, changes: Partial<TemplateSlotMarker>) => {
+    const current = slots()[componentId];
+    if (current) {
+      setSlots({ ...slots(), [componentId]: { ...current, ...changes } });
+    }
+  };
+
+  const handleSubmit = async (e: Event) => {
+    e.preventDefault();
+
+    const blueprintName = name().trim();
+    if (!blueprintName) {
+      setError('Please enter a blueprint name');
+      return;
+    }
+    if (Object.values(slots()).some((slot) => !slot.name.trim())) {
+      setError('Please name every slot');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await props.onSave({
+        name: blueprintName,
+        ...(description().trim() && { description: description().trim() }),
+        category: category(),
+        slots: slots(),
+      });
+      handleClose();
+    } catch (err) {
+      console.error('[SaveAsBlueprintModal] Failed to save blueprint:', err);
+      setError('Failed to save the blueprint. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClose = () => {
+    setName('');
+    setDescription('');
+    setCategory('custom');
+    setSlots({});
+    setError('');
+    props.onClose();
+  };
+
+  return (
+    <Modal isOpen={props.isOpen} onClose={handleClose}>
+      <div class={styles.content}>
+        <div class={styles.header}>
+          <h2 class={styles.title}>Save as Blueprint</h2>
+          <Button
+            class={styles.closeButton}
+            onClick={handleClose}
+            aria-label="Close modal"
+            variant="ghost"
+            icon="close-line"
+          />
+        </div>
+
+        <form onSubmit={handleSubmit} class={styles.form}>
+          <div class={styles.field}>
+            <Label for="blueprint-name">Blueprint Name</Label>
+            <Input
+              id="blueprint-name"
+              type="text"
+              placeholder="My Blueprint"
+              value={name()}
+              onInput={(e: Event & { currentTarget: HTMLInputElement }) => {
+                setName(e.currentTarget.value);
+                setError('');
+              }}
+              autofocus
+            />
+          </div>
+
+          <div class={styles.field}>
+            <Label for="blueprint-description">Description</Label>
+            <Input
+              id="blueprint-description"
+              type="text"
+              value={description()}
+              onInput={(e: Event & { currentTarget: HTMLInputElement }) => setDescription(e.currentTarget.value)}
+            />
+          </div>
+
+          <div class={styles.field}>
+            <Label for="blueprint-category">Category</Label>
+            <select
+              id="blueprint-category"
+              class={styles.select}
+              value={category()}
+              onChange={(e) => setCategory(e.currentTarget.value as BlueprintCategory)}
+            >
+              <For each={CATEGORIES}>{(item) => <option value={item}>{item}</option>}</For>
+            </select>
+          </div>
+
+          <div class={styles.field}>
+            <Label>Slots</Label>
+            <p class={styles.hint}>Mark the components to fill in when starting a new template from this blueprint.</p>
+            <Show
+              when={(props.template?.components.length ?? 0) > 0}
+              fallback={<p class={styles.hint}>The template has no components.</p>}
+            >
+              <ul class={styles.components}>
+                <For each={props.template?.components ?? []}>
+                  {(component) => (
+                    <li class={styles.component}>
+                      <label class={styles.componentToggle}>
+                        <input
+                          type="checkbox"
+                          checked={Boolean(slots()[component.id])}
+                          onChange={() => toggleSlot(component.id, component.type)}
+                        />
+                        <span class={styles.componentType}>{component.type}</span>
+                      </label>
+                      <Show when={slots()[component.id]}>
+                        {(slot) => (
+                          <div class={styles.slotFields}>
+                            <Input
+                              type="text"
+                              aria-label="Slot name"
+                              placeholder="Slot name"
+                              value={slot().name}
+                              onInput={(e: Event & { currentTarget: HTMLInputElement }) =>
+                                updateSlot(component.id, { name: e.currentTarget.value })
+                              }
+                            />
+                            <label class={styles.componentToggle}>
+                              <input
+                                type="checkbox"
+                                checked={slot().required ?? false}
+                                onChange={(e) => updateSlot(component.id, { required: e.currentTarget.checked })}
+                              />
+                              Required
+                            </label>
+                          </div>
+                        )}
+                      </Show>
+                    </li>
+                  )}
+                </For>
+              </ul>
+            </Show>
+          </div>
+
+          <Show when={error()}>
+            <p class={styles.error}>{error()}</p>
+          </Show>
+
+          <div class={styles.actions}>
+            <Button type="button" variant="secondary" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" disabled={saving() || !props.template}>
+              {saving() ? 'Saving...' : 'Save Blueprint'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </Modal>
+  );
+};
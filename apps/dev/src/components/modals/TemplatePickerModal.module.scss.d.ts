@@ -17,6 +17,7 @@ declare const styles: {
   readonly "modal__list": string;
   readonly "modal__footer": string;
   readonly "modal__actions": string;
+  readonly "modal__browse": string;
   readonly "modal__button": string;
   readonly "modal__button--secondary": string;
   readonly "templateCard": string;
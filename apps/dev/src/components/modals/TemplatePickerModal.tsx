@@ -15,6 +15,10 @@ export interface TemplatePickerModalProps {
   onLoadTemplate: (id: string) => void;
   onDeleteTemplate: (id: string) => void;
   onListTemplates: () => Promise<TemplateListItem[]>;
+  /**
+   * Opens the blueprint gallery instead, when set
+   */
+  onBrowseBlueprints?: () => void;
 }
 
 export const TemplatePickerModal: Component<TemplatePickerModalProps> = (props) => {
@@ -87,6 +91,11 @@ export const TemplatePickerModal: Component<TemplatePickerModalProps> = (props)
     props.onClose();
   };
 
+  const handleBrowseBlueprints = () => {
+    handleClose();
+    props.onBrowseBlueprints?.();
+  };
+
   const formatDate = (timestamp: number) => {
     const date = new Date(timestamp);
     return date.toLocaleDateString('en-US', {
@@ -203,6 +212,11 @@ export const TemplatePickerModal: Component<TemplatePickerModalProps> = (props)
           </div>
 
           <div class={styles.modal__footer}>
+            <Show when={props.onBrowseBlueprints}>
+              <Button type="button" variant="ghost" class={styles.modal__browse} onClick={handleBrowseBlueprints}>
+                Start from a blueprint
+              </Button>
+            </Show>
             <Button
               type="button"
               variant="secondary"
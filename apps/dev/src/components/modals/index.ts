@@ -28,3 +28,9 @@ export type { SupportMatrixModalProps } from './SupportMatrixModal';
 
 export { DataSourceConfigModal } from './DataSourceConfigModal';
 export type { DataSourceConfigModalProps } from './DataSourceConfigModal';
+
+export { BlueprintGalleryModal } from './BlueprintGalleryModal';
+export type { BlueprintGalleryModalProps } from './BlueprintGalleryModal';
+
+export { SaveAsBlueprintModal } from './SaveAsBlueprintModal';
+export type { SaveAsBlueprintModalProps } from './SaveAsBlueprintModal';
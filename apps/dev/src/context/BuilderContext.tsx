@@ -17,32 +17,78 @@ import {
   onCleanup,
   untrack,
 } from 'solid-js';
-import { createStore } from 'solid-js/store';
+import { createStore, unwrap } from 'solid-js/store';
 import {
   Builder,
   type Template,
   type BaseComponent,
   type ComponentDefinition,
   type TemplateListItem,
-  type ComponentType,
+  ComponentType,
   type ComponentPreset,
+  type RowLayoutPreset,
+  type GlobalBlock,
+  type GlobalBlockResolver,
+  GlobalBlockManagerEvent,
+  type DataSourceConfig,
+  findComponent,
   getAllComponentDefinitions,
   TemplateAddComponentCommand,
   TemplateUpdateComponentCommand,
   TemplateRemoveComponentCommand,
   TemplateReorderComponentCommand,
   TemplateDuplicateComponentCommand,
+  FixCompatibilityIssuesCommand,
+  TemplateSetRowLayoutCommand,
+  TemplateLinkGlobalBlockCommand,
+  TemplateDetachGlobalBlockCommand,
+  TemplateSetLocalizedTextCommand,
+  TemplateSetLocalesCommand,
+  TemplateSetStyleTokenCommand,
+  TemplateSetThemeCommand,
+  TemplateApplyVariantCommand,
+  TemplateApplyRecipeCommand,
+  TemplateBulkComponentCommand,
+  TemplatePasteComponentsCommand,
+  type TemplateBulkComponentOperation,
+  findParentComponent,
+  getSelectionRoots,
+  serializeComponents,
+  parseClipboardComponents,
+  type BaseStyles,
+  type ComponentVariant,
+  type StyleRecipe,
+  type TemplateBlueprint,
+  type BlueprintError,
+  type BlueprintFromTemplateOptions,
+  type BlueprintInstantiationOptions,
+  type SlotContent,
+  type Theme,
+  type ThemeResolver,
+  type MissingTranslationReport,
+  getLocalizationKey,
+  getMissingTranslations,
+  getSourceLocale,
+  isLocalizablePath,
+  prefillTranslations,
+  exportXLIFF,
+  exportTranslationJSON,
+  importTranslationFile,
+  type TranslationFileFormat,
+  type TranslationImportResult,
   ApplyPresetCommand,
   CreatePresetCommand,
   UpdatePresetCommand,
   DeletePresetCommand,
   type EmailTestingConfig,
   type EmailTestRequest,
+  type EmailClientTestResult,
   createEmailTestingService,
   EmailExportService,
   TIPS_DATABASE,
   type Tip,
   type CompatibilityReport,
+  type CompatibilityIssue,
   // Visual feedback imports
   VisualFeedbackManager,
   createVisualFeedbackManager,
@@ -56,11 +102,17 @@ import {
   // Mobile imports
   DeviceMode,
   type LayoutComponentItem,
+  // Auto-save imports
+  BuilderEvent,
+  type AutoSaveState,
+  type AutoSaveStatus,
 } from '@email-builder/core';
 
 export interface BuilderState {
   template: Template | null;
   selectedComponentId: string | null;
+  // Components selected together, the last one being selectedComponentId
+  selectedComponentIds: string[];
   draggedComponent: BaseComponent | null;
   canUndo: boolean;
   canRedo: boolean;
@@ -71,6 +123,21 @@ export interface BuilderState {
   // Mobile development mode
   deviceMode: DeviceMode;
   isSwitchingMode: boolean;
+  // Auto-save
+  saveState: AutoSaveState;
+  lastSavedAt: number | null;
+  // Global blocks shared across templates
+  globalBlocks: GlobalBlock[];
+  // Themes templates can be styled with, and recipes components can be styled with
+  themes: Theme[];
+  recipes: StyleRecipe[];
+  // Blueprints new templates can be started from
+  blueprints: TemplateBlueprint[];
+  // Locale the template content is edited in, null for the source locale
+  contentLocale: string | null;
+  // Active data source and its sample data (display rule preview)
+  activeDataSource: DataSourceConfig | null;
+  sampleData: Record<string, unknown>;
 }
 
 export interface BuilderContextValue {
@@ -78,26 +145,61 @@ export interface BuilderContextValue {
   state: BuilderState;
   componentDefinitions: ComponentDefinition[];
   translationManager: TranslationManager | undefined;
+  resolveGlobalBlock: GlobalBlockResolver;
+  resolveTheme: ThemeResolver;
+  getVariants: (componentType: string) => ComponentVariant[];
+  previewBlueprint: (blueprintId: string) => Template | undefined;
+  validateBlueprintSlots: (blueprintId: string, slotContent: Record<string, SlotContent>) => BlueprintError[];
   actions: {
     setTemplate: (template: Template | null) => void;
     selectComponent: (id: string | null) => void;
+    setSelection: (ids: string[]) => void;
+    deleteSelection: () => Promise<void>;
+    duplicateSelection: () => Promise<void>;
+    moveSelection: (direction: -1 | 1) => Promise<void>;
+    moveComponents: (componentIds: string[], index: number) => Promise<void>;
+    restyleSelection: (propertyPath: string, value: unknown) => Promise<void>;
+    copySelection: (clipboard: DataTransfer) => boolean;
+    cutSelection: (clipboard: DataTransfer) => Promise<boolean>;
+    pasteComponents: (clipboard: DataTransfer) => Promise<boolean>;
     setDraggedComponent: (component: BaseComponent | null) => void;
-    addComponent: (component: BaseComponent) => Promise<void>;
+    addComponent: (component: BaseComponent, parentId?: string) => Promise<void>;
     updateComponentProperty: (componentId: string, propertyPath: string, value: any) => Promise<void>;
     updateCanvasSetting: (settingPath: string, value: any) => void;
     deleteComponent: (componentId: string) => Promise<void>;
     duplicateComponent: (componentId: string) => Promise<void>;
     reorderComponent: (componentId: string, newIndex: number) => Promise<void>;
+    setRowLayout: (componentId: string, layout: RowLayoutPreset) => Promise<void>;
+    createGlobalBlock: (componentId: string, name: string) => Promise<void>;
+    updateGlobalBlockFromComponent: (blockId: string, componentId: string) => Promise<void>;
+    detachGlobalBlock: (componentId: string) => Promise<void>;
+    deleteGlobalBlock: (blockId: string) => Promise<void>;
+    saveDataSource: (config: DataSourceConfig) => void;
+    setContentLocale: (locale: string | null) => void;
+    setContentLocales: (locales: string[]) => Promise<void>;
+    setLocalizedTexts: (locale: string, texts: Record<string, string>, draft?: boolean) => Promise<void>;
+    setStyleToken: (componentId: string, property: string, token: string | undefined) => Promise<void>;
+    setTemplateTheme: (themeId: string | undefined) => Promise<void>;
+    applyVariants: (componentId: string, variantIds: string[]) => Promise<void>;
+    applyRecipe: (componentId: string, recipeId: string, variant?: string) => Promise<void>;
+    prefillContentLocale: (locale: string) => Promise<void>;
+    getMissingTranslations: () => MissingTranslationReport | null;
+    exportLocalizedTemplates: () => Promise<void>;
+    exportTranslationFile: (format: TranslationFileFormat, locale?: string) => void;
+    importTranslationFile: (file: File) => Promise<TranslationImportResult | null>;
     undo: () => Promise<void>;
     redo: () => Promise<void>;
     updateUndoRedoState: () => void;
     createTemplate: (name: string, type?: 'email' | 'web') => Promise<void>;
+    createTemplateFromBlueprint: (options: BlueprintInstantiationOptions) => Promise<void>;
+    saveAsBlueprint: (options: BlueprintFromTemplateOptions) => Promise<void>;
     saveTemplate: () => Promise<void>;
     loadTemplate: (id: string) => Promise<void>;
     listTemplates: () => Promise<TemplateListItem[]>;
     deleteTemplate: (id: string) => Promise<void>;
     exportTemplate: (format: 'html' | 'json') => Promise<void>;
     checkCompatibility: () => CompatibilityReport | null;
+    fixCompatibilityIssues: (issues: CompatibilityIssue[]) => Promise<void>;
     applyPreset: (componentId: string, presetId: string) => Promise<void>;
     createPreset: (componentId: string, name: string, description?: string) => Promise<ComponentPreset | undefined>;
     updatePreset: (componentType: ComponentType, presetId: string, updates: { name?: string; description?: string; styles?: any }) => Promise<void>;
@@ -108,7 +210,8 @@ export interface BuilderContextValue {
     importPresets: (file: File) => Promise<void>;
     loadEmailTestingConfig: () => EmailTestingConfig | null;
     saveEmailTestingConfig: (config: EmailTestingConfig) => void;
-    testTemplate: (testRequest: Omit<EmailTestRequest, 'htmlContent'>) => Promise<{ success: boolean; testId?: string; url?: string; error?: string }>;
+    exportEmailHTML: () => Promise<string>;
+    testTemplate: (testRequest: Omit<EmailTestRequest, 'htmlContent'>) => Promise<{ success: boolean; testId?: string; url?: string; clientResults?: EmailClientTestResult[]; error?: string }>;
     showTip: (tipId: string) => void;
     dismissTip: (tipId: string) => void;
     // Visual feedback actions
@@ -145,6 +248,9 @@ export const BuilderProvider: ParentComponent = (props) => {
     storage: {
       method: 'local',
     },
+    features: {
+      autoSave: true,
+    },
     callbacks: {
       onSaveTemplate: (_template: Template) => {
         // Template saved successfully
@@ -196,6 +302,7 @@ export const BuilderProvider: ParentComponent = (props) => {
   const [state, setState] = createStore<BuilderState>({
     template: null,
     selectedComponentId: null,
+    selectedComponentIds: [],
     draggedComponent: null,
     canUndo: false,
     canRedo: false,
@@ -206,6 +313,62 @@ export const BuilderProvider: ParentComponent = (props) => {
     // Mobile development mode
     deviceMode: DeviceMode.DESKTOP,
     isSwitchingMode: false,
+    // Auto-save
+    saveState: 'idle',
+    lastSavedAt: null,
+    globalBlocks: [],
+    themes: [],
+    recipes: [],
+    blueprints: [],
+    contentLocale: null,
+    activeDataSource: null,
+    sampleData: {},
+  });
+
+  // Keep the global blocks in the store, so canvases re-render when a block changes
+  const globalBlockManager = builder.getGlobalBlockManager();
+  const refreshGlobalBlocks = () => setState('globalBlocks', globalBlockManager.getAll());
+  globalBlockManager.on(GlobalBlockManagerEvent.BLOCK_CREATED, refreshGlobalBlocks);
+  globalBlockManager.on(GlobalBlockManagerEvent.BLOCK_UPDATED, refreshGlobalBlocks);
+  globalBlockManager.on(GlobalBlockManagerEvent.BLOCK_DELETED, refreshGlobalBlocks);
+
+  const resolveGlobalBlock: GlobalBlockResolver = (blockId) =>
+    state.globalBlocks.find((block) => block.id === blockId);
+
+  // Keep the themes, recipes and blueprints in the store, so the pickers list the stored ones once loaded
+  const customization = builder.getCustomizationManager();
+  const refreshCustomizations = () => {
+    setState('themes', customization.themes.getAll());
+    setState('recipes', customization.recipes.getAll());
+    setState('blueprints', customization.blueprints.getAll());
+  };
+  [
+    'theme:registered',
+    'theme:updated',
+    'theme:deleted',
+    'recipe:registered',
+    'recipe:updated',
+    'recipe:deleted',
+    'blueprint:registered',
+    'blueprint:updated',
+    'blueprint:deleted',
+  ].forEach((event) => customization.on(event, refreshCustomizations));
+
+  const resolveTheme: ThemeResolver = (themeId) => customization.themes.get(themeId);
+
+  const getTemplateTheme = (): Theme | undefined => {
+    const themeId = state.template?.generalStyles?.themeId;
+    return themeId ? resolveTheme(themeId) : undefined;
+  };
+
+  // Auto-save the template being edited (it lives in the store, not in the TemplateManager)
+  builder.getAutoSaveManager()?.setTemplateSource(() =>
+    state.template ? unwrap(state.template) : null
+  );
+
+  builder.on<AutoSaveStatus>(BuilderEvent.SAVE_STATE_CHANGED, (status) => {
+    setState('saveState', status.state);
+    setState('lastSavedAt', status.lastSavedAt ?? null);
   });
 
   // Visual feedback state
@@ -219,6 +382,8 @@ export const BuilderProvider: ParentComponent = (props) => {
   createEffect(async () => {
     try {
       await builder.initialize();
+      refreshGlobalBlocks();
+      refreshCustomizations();
       setState('isInitialized', true);
 
       // Try to load the last template if it exists
@@ -319,21 +484,208 @@ export const BuilderProvider: ParentComponent = (props) => {
     }
   });
 
+  // Downloads generated content as a file
+  const downloadFile = (content: string, filename: string, mimeType: string) => {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  // Replaces a component with a reference to a global block
+  const linkGlobalBlock = async (componentId: string, blockId: string) => {
+    const command = new TemplateLinkGlobalBlockCommand(
+      { componentId, blockId },
+      () => state.template,
+      (template) => setState('template', template)
+    );
+
+    const result = await builder.executeCommand(command);
+    if (result.success) {
+      actions.updateUndoRedoState();
+      actions.selectComponent(null);
+    } else {
+      console.error('[BuilderContext] Failed to link global block:', result.error);
+    }
+  };
+
+  /**
+   * Runs an operation on several components as one undoable command
+   *
+   * @returns Components to select afterwards, or undefined when it failed
+   */
+  const executeBulkOperation = async (
+    componentIds: string[],
+    operation: TemplateBulkComponentOperation
+  ): Promise<string[] | undefined> => {
+    if (!state.template || componentIds.length === 0) {
+      return undefined;
+    }
+
+    const command = new TemplateBulkComponentCommand(
+      { componentIds, operation },
+      () => state.template,
+      (template) => setState('template', template)
+    );
+
+    const result = await builder.executeCommand(command);
+    if (!result.success) {
+      console.error(`[BuilderContext] Failed to ${operation.type} components:`, result.error);
+      return undefined;
+    }
+
+    actions.updateUndoRedoState();
+    return command.getResultComponentIds();
+  };
+
   // Actions
   const actions = {
     setTemplate: (template: Template | null) => {
       setState('template', template);
+      setState('contentLocale', null);
     },
 
     selectComponent: (id: string | null) => {
       setState('selectedComponentId', id);
+      setState('selectedComponentIds', id ? [id] : []);
+    },
+
+    setSelection: (ids: string[]) => {
+      setState('selectedComponentIds', ids);
+      setState('selectedComponentId', ids[ids.length - 1] ?? null);
+    },
+
+    deleteSelection: async () => {
+      if (await executeBulkOperation(state.selectedComponentIds, { type: 'delete' })) {
+        actions.setSelection([]);
+      }
+    },
+
+    duplicateSelection: async () => {
+      const duplicates = await executeBulkOperation(state.selectedComponentIds, { type: 'duplicate' });
+      if (duplicates) {
+        actions.setSelection(duplicates);
+      }
+    },
+
+    moveSelection: async (direction: -1 | 1) => {
+      if (!state.template) {
+        return;
+      }
+
+      // Moved among the siblings of the first selected component
+      const roots = getSelectionRoots(state.template.components, state.selectedComponentIds);
+      const parent = roots[0] && findParentComponent(state.template.components, roots[0].id);
+      const siblings = parent ? parent.children ?? [] : state.template.components;
+      const indexes = roots.map((root) => siblings.findIndex((sibling) => sibling.id === root.id));
+      if (indexes.length === 0 || indexes.includes(-1)) {
+        console.warn('[BuilderContext] Cannot move components of different containers together');
+        return;
+      }
+
+      const index = direction < 0 ? Math.min(...indexes) - 1 : Math.max(...indexes) + 2;
+      if (index < 0 || index > siblings.length) {
+        return;
+      }
+
+      await executeBulkOperation(state.selectedComponentIds, {
+        type: 'move',
+        index,
+        ...(parent && { parentId: parent.id }),
+      });
+    },
+
+    moveComponents: async (componentIds: string[], index: number) => {
+      await executeBulkOperation(componentIds, { type: 'move', index });
+    },
+
+    restyleSelection: async (propertyPath: string, value: unknown) => {
+      const component = state.template && findComponent(state.template.components, state.selectedComponentId ?? '');
+      const [property, ...path] = propertyPath.replace(/^styles\./, '').split('.');
+      if (!component || !property) {
+        return;
+      }
+
+      // Nested properties, e.g. padding.top, take the rest of the edited component's value
+      const styles = JSON.parse(JSON.stringify(component.styles ?? {})) as Record<string, unknown>;
+      const keys = [property, ...path];
+      const last = keys.pop()!;
+      const target = keys.reduce<Record<string, unknown>>((object, key) => {
+        if (typeof object[key] !== 'object' || object[key] === null) {
+          object[key] = {};
+        }
+        return object[key] as Record<string, unknown>;
+      }, styles);
+      target[last] = value;
+
+      await executeBulkOperation(state.selectedComponentIds, {
+        type: 'restyle',
+        styles: { [property]: styles[property] } as Partial<BaseStyles>,
+      });
+    },
+
+    copySelection: (clipboard: DataTransfer) => {
+      if (!state.template || state.selectedComponentIds.length === 0) {
+        return false;
+      }
+
+      const components = getSelectionRoots(unwrap(state.template).components, state.selectedComponentIds);
+      const { json, html } = serializeComponents(components, { sourceTemplateId: state.template.metadata.id });
+      clipboard.setData('text/plain', json);
+      clipboard.setData('text/html', html);
+      return components.length > 0;
+    },
+
+    cutSelection: async (clipboard: DataTransfer) => {
+      if (!actions.copySelection(clipboard)) {
+        return false;
+      }
+      await actions.deleteSelection();
+      return true;
+    },
+
+    pasteComponents: async (clipboard: DataTransfer) => {
+      if (!state.template) {
+        return false;
+      }
+
+      const components = parseClipboardComponents({
+        json: clipboard.getData('text/plain'),
+        html: clipboard.getData('text/html'),
+      });
+      if (components.length === 0) {
+        return false;
+      }
+
+      // Pasted after the selection, or at the end of the template
+      const roots = getSelectionRoots(state.template.components, state.selectedComponentIds);
+      const command = new TemplatePasteComponentsCommand(
+        { components, afterComponentId: roots[roots.length - 1]?.id },
+        () => state.template,
+        (template) => setState('template', template)
+      );
+
+      const result = await builder.executeCommand(command);
+      if (!result.success) {
+        console.error('[BuilderContext] Failed to paste components:', result.error);
+        return false;
+      }
+
+      actions.updateUndoRedoState();
+      actions.setSelection(command.getPastedComponentIds());
+      return true;
     },
 
     setDraggedComponent: (component: BaseComponent | null) => {
       setState('draggedComponent', component);
     },
 
-    addComponent: async (component: BaseComponent) => {
+    addComponent: async (component: BaseComponent, parentId?: string) => {
       if (!state.template) {
         console.error('[BuilderContext] Cannot add component: no template loaded');
         return;
@@ -341,7 +693,7 @@ export const BuilderProvider: ParentComponent = (props) => {
 
       // Create and execute command
       const command = new TemplateAddComponentCommand(
-        { component },
+        { component, ...(parentId && { parentId }) },
         () => state.template,
         (template) => setState('template', template)
       );
@@ -360,6 +712,20 @@ export const BuilderProvider: ParentComponent = (props) => {
         return;
       }
 
+      // In another locale, texts are edited as translations and the rest stays shared
+      const locale = state.contentLocale;
+      if (locale && locale !== getSourceLocale(state.template)) {
+        const component = findComponent(state.template.components, componentId);
+        if (component && isLocalizablePath(component.type, propertyPath)) {
+          await actions.setLocalizedTexts(locale, { [getLocalizationKey(componentId, propertyPath)]: value ?? '' });
+          return;
+        }
+        // Derived from the translated HTML, the source copies stay untouched
+        if (propertyPath.endsWith('.plainText') || propertyPath.endsWith('.editorState')) {
+          return;
+        }
+      }
+
       // Create and execute command
       const command = new TemplateUpdateComponentCommand(
         { componentId, propertyPath, value },
@@ -415,8 +781,8 @@ export const BuilderProvider: ParentComponent = (props) => {
         actions.updateUndoRedoState();
 
         // Clear selection if the deleted component was selected
-        if (state.selectedComponentId === componentId) {
-          setState('selectedComponentId', null);
+        if (state.selectedComponentIds.includes(componentId)) {
+          actions.setSelection(state.selectedComponentIds.filter((id) => id !== componentId));
         }
       } else {
         console.error('[BuilderContext] Failed to delete component:', result.error);
@@ -443,7 +809,7 @@ export const BuilderProvider: ParentComponent = (props) => {
         // Select the newly duplicated component
         const newComponentId = command.getNewComponentId();
         if (newComponentId) {
-          setState('selectedComponentId', newComponentId);
+          actions.selectComponent(newComponentId);
         }
       } else {
         console.error('[BuilderContext] Failed to duplicate component:', result.error);
@@ -513,6 +879,7 @@ export const BuilderProvider: ParentComponent = (props) => {
         });
 
         setState('template', template);
+        setState('contentLocale', null);
         actions.updateUndoRedoState();
 
         // Save as last template
@@ -523,6 +890,35 @@ export const BuilderProvider: ParentComponent = (props) => {
       }
     },
 
+    createTemplateFromBlueprint: async (options: BlueprintInstantiationOptions) => {
+      try {
+        const template = await builder.createTemplateFromBlueprint(options);
+
+        setState('template', template);
+        setState('contentLocale', null);
+        actions.updateUndoRedoState();
+
+        // Save as last template
+        localStorage.setItem(LAST_TEMPLATE_ID_KEY, template.metadata.id);
+      } catch (error) {
+        console.error('[BuilderContext] Failed to create template from blueprint:', error);
+        throw error;
+      }
+    },
+
+    saveAsBlueprint: async (options: BlueprintFromTemplateOptions) => {
+      if (!state.template) {
+        throw new Error('No template to save as a blueprint');
+      }
+
+      try {
+        customization.blueprints.createFromTemplate(unwrap(state.template), options);
+      } catch (error) {
+        console.error('[BuilderContext] Failed to save blueprint:', error);
+        throw error;
+      }
+    },
+
     saveTemplate: async () => {
       try {
         if (!state.template) {
@@ -542,6 +938,7 @@ export const BuilderProvider: ParentComponent = (props) => {
       try {
         const template = await builder.loadTemplate(id);
         setState('template', template);
+        setState('contentLocale', null);
         actions.updateUndoRedoState();
 
         // Save as last template
@@ -571,7 +968,7 @@ export const BuilderProvider: ParentComponent = (props) => {
         // If the deleted template is currently loaded, clear it
         if (state.template?.metadata?.id === id) {
           setState('template', null);
-          setState('selectedComponentId', null);
+          actions.selectComponent(null);
         }
 
         // If the deleted template was the last template, clear it from localStorage
@@ -592,6 +989,8 @@ export const BuilderProvider: ParentComponent = (props) => {
         }
         const { TemplateExporter } = await import('@email-builder/core');
         const exporter = new TemplateExporter();
+        exporter.setGlobalBlockResolver(resolveGlobalBlock);
+        exporter.setThemeResolver(resolveTheme);
         let content: string;
         let filename: string;
         let mimeType: string;
@@ -635,13 +1034,354 @@ export const BuilderProvider: ParentComponent = (props) => {
 
     checkCompatibility: () => {
       try {
-        return builder.checkCompatibility();
+        return builder.checkCompatibility(state.template ? unwrap(state.template) : undefined);
       } catch (error) {
         console.error('[BuilderContext] Failed to check compatibility:', error);
         return null;
       }
     },
 
+    setRowLayout: async (componentId: string, layout: RowLayoutPreset) => {
+      if (!state.template) {
+        console.error('[BuilderContext] Cannot change row layout: no template loaded');
+        return;
+      }
+
+      const command = new TemplateSetRowLayoutCommand(
+        { componentId, layout },
+        () => state.template,
+        (template) => setState('template', template)
+      );
+
+      const result = await builder.executeCommand(command);
+      if (result.success) {
+        actions.updateUndoRedoState();
+      } else {
+        console.error('[BuilderContext] Failed to change row layout:', result.error);
+      }
+    },
+
+    createGlobalBlock: async (componentId: string, name: string) => {
+      const component = state.template && findComponent(state.template.components, componentId);
+      if (!component) {
+        console.error('[BuilderContext] Cannot create global block: component not found');
+        return;
+      }
+
+      try {
+        const block = await globalBlockManager.create({ name, components: [unwrap(component)] });
+        await linkGlobalBlock(componentId, block.id);
+      } catch (error) {
+        console.error('[BuilderContext] Failed to create global block:', error);
+      }
+    },
+
+    updateGlobalBlockFromComponent: async (blockId: string, componentId: string) => {
+      const component = state.template && findComponent(state.template.components, componentId);
+      if (!component) {
+        console.error('[BuilderContext] Cannot update global block: component not found');
+        return;
+      }
+
+      try {
+        // Every template referencing the block picks up the new components
+        await globalBlockManager.update(blockId, { components: [unwrap(component)] });
+        await linkGlobalBlock(componentId, blockId);
+      } catch (error) {
+        console.error('[BuilderContext] Failed to update global block:', error);
+      }
+    },
+
+    detachGlobalBlock: async (componentId: string) => {
+      if (!state.template) {
+        console.error('[BuilderContext] Cannot detach global block: no template loaded');
+        return;
+      }
+
+      const command = new TemplateDetachGlobalBlockCommand(
+        { componentId },
+        () => state.template,
+        (template) => setState('template', template),
+        resolveGlobalBlock
+      );
+
+      const result = await builder.executeCommand(command);
+      if (result.success) {
+        actions.updateUndoRedoState();
+        actions.selectComponent(null);
+      } else {
+        console.error('[BuilderContext] Failed to detach global block:', result.error);
+      }
+    },
+
+    deleteGlobalBlock: async (blockId: string) => {
+      try {
+        await globalBlockManager.delete(blockId);
+      } catch (error) {
+        console.error('[BuilderContext] Failed to delete global block:', error);
+      }
+    },
+
+    saveDataSource: (config: DataSourceConfig) => {
+      const dataSourceManager = builder.getDataSourceManager();
+      if (dataSourceManager.getDataSource(config.id)) {
+        dataSourceManager.updateDataSource(config.id, config);
+      } else {
+        dataSourceManager.addDataSource(config);
+      }
+      // The edited source is the one previewed
+      dataSourceManager.setActiveDataSource(config.id);
+
+      setState('activeDataSource', dataSourceManager.getActiveDataSource());
+      setState('sampleData', dataSourceManager.getSampleData());
+    },
+
+    setContentLocale: (locale: string | null) => {
+      setState('contentLocale', locale && state.template && locale !== getSourceLocale(state.template) ? locale : null);
+    },
+
+    setContentLocales: async (locales: string[]) => {
+      if (!state.template) {
+        console.error('[BuilderContext] Cannot set content locales: no template loaded');
+        return;
+      }
+
+      const command = new TemplateSetLocalesCommand(
+        { locales },
+        () => state.template,
+        (template) => setState('template', template)
+      );
+
+      const result = await builder.executeCommand(command);
+      if (result.success) {
+        actions.updateUndoRedoState();
+        if (state.contentLocale && !locales.includes(state.contentLocale)) {
+          setState('contentLocale', null);
+        }
+      } else {
+        console.error('[BuilderContext] Failed to set content locales:', result.error);
+      }
+    },
+
+    setStyleToken: async (componentId: string, property: string, token: string | undefined) => {
+      if (!state.template) {
+        console.error('[BuilderContext] Cannot set style token: no template loaded');
+        return;
+      }
+
+      const command = new TemplateSetStyleTokenCommand(
+        { componentId, property, token, theme: getTemplateTheme() },
+        () => state.template,
+        (template) => setState('template', template)
+      );
+
+      const result = await builder.executeCommand(command);
+      if (result.success) {
+        actions.updateUndoRedoState();
+      } else {
+        console.error('[BuilderContext] Failed to set style token:', result.error);
+      }
+    },
+
+    setTemplateTheme: async (themeId: string | undefined) => {
+      if (!state.template) {
+        console.error('[BuilderContext] Cannot set theme: no template loaded');
+        return;
+      }
+
+      const theme = themeId ? resolveTheme(themeId) : undefined;
+      if (themeId && !theme) {
+        console.error(`[BuilderContext] Cannot set theme: unknown theme "${themeId}"`);
+        return;
+      }
+
+      const command = new TemplateSetThemeCommand(
+        { theme },
+        () => state.template,
+        (template) => setState('template', template)
+      );
+
+      const result = await builder.executeCommand(command);
+      if (result.success) {
+        actions.updateUndoRedoState();
+      } else {
+        console.error('[BuilderContext] Failed to set theme:', result.error);
+      }
+    },
+
+    applyVariants: async (componentId: string, variantIds: string[]) => {
+      if (!state.template) {
+        console.error('[BuilderContext] Cannot apply variants: no template loaded');
+        return;
+      }
+
+      const command = new TemplateApplyVariantCommand(
+        { componentId, variantIds },
+        () => state.template,
+        (template) => setState('template', template),
+        customization.variants
+      );
+
+      const result = await builder.executeCommand(command);
+      if (result.success) {
+        actions.updateUndoRedoState();
+      } else {
+        console.error('[BuilderContext] Failed to apply variants:', result.error);
+      }
+    },
+
+    applyRecipe: async (componentId: string, recipeId: string, variant?: string) => {
+      if (!state.template) {
+        console.error('[BuilderContext] Cannot apply recipe: no template loaded');
+        return;
+      }
+
+      const command = new TemplateApplyRecipeCommand(
+        { componentId, recipeId, variant },
+        () => state.template,
+        (template) => setState('template', template),
+        customization.recipes
+      );
+
+      const result = await builder.executeCommand(command);
+      if (result.success) {
+        actions.updateUndoRedoState();
+      } else {
+        console.error('[BuilderContext] Failed to apply recipe:', result.error);
+      }
+    },
+
+    setLocalizedTexts: async (locale: string, texts: Record<string, string>, draft?: boolean) => {
+      if (!state.template) {
+        console.error('[BuilderContext] Cannot set translations: no template loaded');
+        return;
+      }
+
+      const command = new TemplateSetLocalizedTextCommand(
+        { locale, texts, ...(draft && { draft }) },
+        () => state.template,
+        (template) => setState('template', template)
+      );
+
+      const result = await builder.executeCommand(command);
+      if (result.success) {
+        actions.updateUndoRedoState();
+      } else {
+        console.error('[BuilderContext] Failed to set translations:', result.error);
+      }
+    },
+
+    prefillContentLocale: async (locale: string) => {
+      const plugin = builder.getTranslationManager()?.getAutoTranslationPlugin();
+      if (!state.template || !plugin) {
+        console.error('[BuilderContext] Cannot pre-fill translations: no template or auto-translation plugin');
+        return;
+      }
+
+      try {
+        const texts = await prefillTranslations(unwrap(state.template), locale, plugin);
+        if (Object.keys(texts).length > 0) {
+          await actions.setLocalizedTexts(locale, texts, true);
+        }
+      } catch (error) {
+        console.error('[BuilderContext] Failed to pre-fill translations:', error);
+      }
+    },
+
+    getMissingTranslations: () => {
+      return state.template ? getMissingTranslations(state.template) : null;
+    },
+
+    exportLocalizedTemplates: async () => {
+      try {
+        if (!state.template) {
+          throw new Error('No template to export');
+        }
+        const { TemplateExporter } = await import('@email-builder/core');
+        const exporter = new TemplateExporter();
+        exporter.setGlobalBlockResolver(resolveGlobalBlock);
+        exporter.setThemeResolver(resolveTheme);
+
+        const results = exporter.exportLocales(unwrap(state.template), {
+          format: 'html',
+          inlineStyles: false,
+          minify: false,
+          prettyPrint: true,
+          includeComments: true,
+        });
+
+        // One download per locale
+        Object.entries(results).forEach(([locale, result]) => {
+          downloadFile(result.html!, `${state.template?.metadata.name || 'template'}.${locale}.html`, 'text/html');
+        });
+      } catch (error) {
+        console.error('[BuilderContext] Failed to export localized templates:', error);
+        throw error;
+      }
+    },
+
+    exportTranslationFile: (format: TranslationFileFormat, locale?: string) => {
+      if (!state.template) {
+        console.error('[BuilderContext] Cannot export translations: no template loaded');
+        return;
+      }
+
+      const template = unwrap(state.template);
+      const name = template.metadata.name || 'template';
+      if (format === 'xliff' && locale) {
+        downloadFile(exportXLIFF(template, locale), `${name}.${locale}.xlf`, 'application/xliff+xml');
+      } else {
+        downloadFile(exportTranslationJSON(template), `${name}.json`, 'application/json');
+      }
+    },
+
+    importTranslationFile: async (file: File) => {
+      if (!state.template) {
+        console.error('[BuilderContext] Cannot import translations: no template loaded');
+        return null;
+      }
+
+      try {
+        // JSON files have no locale: they go to the locale being edited
+        const isJSON = file.name.toLowerCase().endsWith('.json');
+        const result = importTranslationFile(unwrap(state.template), await file.text(), {
+          format: isJSON ? 'json' : 'xliff',
+          ...(isJSON && state.contentLocale && { locale: state.contentLocale }),
+        });
+        if (result.issues.length > 0) {
+          console.warn('[BuilderContext] Skipped translations:', result.issues);
+        }
+        if (Object.keys(result.texts).length > 0) {
+          await actions.setLocalizedTexts(result.locale, result.texts);
+        }
+        return result;
+      } catch (error) {
+        console.error('[BuilderContext] Failed to import translations:', error);
+        throw error;
+      }
+    },
+
+    fixCompatibilityIssues: async (issues: CompatibilityIssue[]) => {
+      if (!state.template) {
+        console.error('[BuilderContext] Cannot fix compatibility issues: no template loaded');
+        return;
+      }
+
+      const command = new FixCompatibilityIssuesCommand(
+        { issues },
+        () => state.template,
+        (template) => setState('template', template),
+        builder.getCompatibilityFixers()
+      );
+
+      const result = await builder.executeCommand(command);
+      if (result.success) {
+        actions.updateUndoRedoState();
+      } else {
+        console.error('[BuilderContext] Failed to fix compatibility issues:', result.error);
+      }
+    },
+
     applyPreset: async (componentId: string, presetId: string) => {
       if (!state.template) {
         console.error('[BuilderContext] Cannot apply preset: no template loaded');
@@ -871,6 +1611,36 @@ export const BuilderProvider: ParentComponent = (props) => {
       }
     },
 
+    exportEmailHTML: async () => {
+      if (!state.template) {
+        throw new Error('No template to export');
+      }
+
+      // Export template as HTML
+      const { TemplateExporter } = await import('@email-builder/core');
+      const exporter = new TemplateExporter();
+      exporter.setGlobalBlockResolver(resolveGlobalBlock);
+      exporter.setThemeResolver(resolveTheme);
+      const result = exporter.export(state.template, {
+        format: 'html',
+        inlineStyles: false,
+        minify: false,
+        prettyPrint: false,
+        includeComments: false,
+      });
+
+      // Transform HTML for email compatibility
+      const emailExportService = new EmailExportService({
+        inlineCSS: true,
+        useTableLayout: true,
+        addOutlookFixes: true,
+        removeIncompatibleCSS: true,
+        optimizeStructure: true,
+      });
+
+      return emailExportService.export(result.html!).html;
+    },
+
     testTemplate: async (testRequest: Omit<EmailTestRequest, 'htmlContent'>) => {
       try {
         // Validate template exists
@@ -883,28 +1653,7 @@ export const BuilderProvider: ParentComponent = (props) => {
           throw new Error('Email testing service not configured. Please configure it in Settings.');
         }
 
-        // Export template as HTML
-        const { TemplateExporter } = await import('@email-builder/core');
-        const exporter = new TemplateExporter();
-        const result = exporter.export(state.template, {
-          format: 'html',
-          inlineStyles: false,
-          minify: false,
-          prettyPrint: false,
-          includeComments: false,
-        });
-        const htmlContent = result.html!;
-
-        // Transform HTML for email compatibility
-        const emailExportService = new EmailExportService({
-          inlineCSS: true,
-          useTableLayout: true,
-          addOutlookFixes: true,
-          removeIncompatibleCSS: true,
-          optimizeStructure: true,
-        });
-
-        const exportResult = emailExportService.export(htmlContent);
+        const htmlContent = await actions.exportEmailHTML();
 
         // Create email testing service
         const testingService = createEmailTestingService(state.emailTestingConfig);
@@ -918,21 +1667,30 @@ export const BuilderProvider: ParentComponent = (props) => {
         // Submit test
         const fullTestRequest: EmailTestRequest = {
           ...testRequest,
-          htmlContent: exportResult.html,
+          htmlContent,
+          template: unwrap(state.template),
         };
 
-        const testResult = await testingService.submitTest(fullTestRequest);
+        let testResult = await testingService.sendTest(fullTestRequest);
 
-        if (testResult.success) {
-          console.log('[BuilderContext] Test submitted successfully:', testResult.testId);
-          return {
-            success: true,
-            testId: testResult.testId,
-            url: testResult.url,
-          };
-        } else {
+        if (state.emailTestingConfig.provider === 'sandbox') {
+          // Sandbox tests run locally, so their results are read right away
+          while (testResult.status === 'pending' || testResult.status === 'processing') {
+            testResult = await testingService.getTestResults(testResult.testId);
+          }
+        }
+
+        if (testResult.status === 'failed') {
           throw new Error(testResult.error || 'Failed to submit test');
         }
+
+        console.log('[BuilderContext] Test submitted successfully:', testResult.testId);
+        return {
+          success: true,
+          testId: testResult.testId,
+          ...(testResult.resultsUrl?.startsWith('http') && { url: testResult.resultsUrl }),
+          ...(testResult.clientResults && { clientResults: testResult.clientResults }),
+        };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Failed to test template';
         console.error('[BuilderContext] Failed to test template:', error);
@@ -1151,8 +1909,19 @@ export const BuilderProvider: ParentComponent = (props) => {
   const contextValue: BuilderContextValue = {
     builder,
     state,
-    componentDefinitions: getAllComponentDefinitions(),
+    // Global block references are added from the global block panel, not the palette
+    componentDefinitions: getAllComponentDefinitions().filter(
+      (definition) => definition.type !== ComponentType.GLOBAL_BLOCK
+    ),
     translationManager: builder.getTranslationManager(),
+    resolveGlobalBlock,
+    resolveTheme,
+    getVariants: (componentType) => customization.variants.getByComponentType(componentType),
+    // Blueprint content without filled slots, for the gallery thumbnails
+    previewBlueprint: (blueprintId) =>
+      customization.blueprints.instantiate({ blueprintId, name: 'Preview' }).template,
+    validateBlueprintSlots: (blueprintId, slotContent) =>
+      customization.blueprints.validateSlots(blueprintId, slotContent),
     actions,
   };
 
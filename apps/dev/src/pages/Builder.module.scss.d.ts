@@ -8,6 +8,7 @@ declare const styles: {
   readonly "headerRight": string;
   readonly "leftSidebar": string;
   readonly "rightSidebar": string;
+  readonly "sampleDataSource": string;
   readonly "tipsContainer": string;
   readonly "toolbar": string;
 };
@@ -8,7 +8,7 @@ import { type Component, Show, For, createSignal, createMemo, onMount, onCleanup
 import { BuilderProvider, useBuilder } from '../context/BuilderContext';
 import { TranslationProvider } from '@email-builder/ui-solid/i18n';
 import { TemplateCanvas } from '@email-builder/ui-solid/canvas';
-import { ComponentPalette, PropertyPanel } from '@email-builder/ui-solid/sidebar';
+import { ComponentPalette, GlobalBlockPanel, LocalizationPanel, PropertyPanel } from '@email-builder/ui-solid/sidebar';
 import { TemplateToolbar } from '@email-builder/ui-solid/toolbar';
 import { TipBanner } from '@email-builder/ui-solid/tips';
 import { LanguageSwitcher } from '../components/LanguageSwitcher';
@@ -19,14 +19,39 @@ import { EmailTestingSettingsModal } from '../components/modals/EmailTestingSett
 import { TestConfigModal } from '../components/modals/TestConfigModal';
 import { CompatibilityReportModal } from '../components/modals/CompatibilityReportModal';
 import { SupportMatrixModal } from '../components/modals/SupportMatrixModal';
+import { DataSourceConfigModal } from '../components/modals/DataSourceConfigModal';
+import { BlueprintGalleryModal } from '../components/modals/BlueprintGalleryModal';
+import { SaveAsBlueprintModal } from '../components/modals/SaveAsBlueprintModal';
+import { Button } from '@email-builder/ui-solid/atoms';
 import { AccessibilityAnnouncer } from '@email-builder/ui-solid/visual-feedback';
 import { ModeSwitcher, MobileLayoutManager } from '@email-builder/ui-solid/mobile';
-import type { ComponentDefinition, EmailTestingConfig, EmailTestRequest, CompatibilityReport } from '@email-builder/core';
-import { getTipsByTrigger, TipTrigger, DeviceMode } from '@email-builder/core';
+import type { ComponentDefinition, EmailTestingConfig, EmailTestRequest, CompatibilityReport, CompatibilityIssue, RowLayoutPreset } from '@email-builder/core';
+import { createGlobalBlockReference } from '@email-builder/core/components';
+import {
+  getTipsByTrigger,
+  TipTrigger,
+  DeviceMode,
+  ComponentType,
+  findComponent,
+  getSourceLocale,
+  getTemplateLocales,
+  localizeTemplate,
+  COMMON_EMAIL_CLIENTS,
+} from '@email-builder/core';
 import styles from './Builder.module.scss';
 
 const BuilderContent: Component = () => {
-  const { state, actions, componentDefinitions, translationManager } = useBuilder();
+  const {
+    state,
+    actions,
+    componentDefinitions,
+    translationManager,
+    resolveGlobalBlock,
+    resolveTheme,
+    getVariants,
+    previewBlueprint,
+    validateBlueprintSlots,
+  } = useBuilder();
   const [isNewTemplateModalOpen, setIsNewTemplateModalOpen] = createSignal(false);
   const [isTemplatePickerModalOpen, setIsTemplatePickerModalOpen] = createSignal(false);
   const [isPreviewModalOpen, setIsPreviewModalOpen] = createSignal(false);
@@ -36,16 +61,67 @@ const BuilderContent: Component = () => {
   const [isSupportMatrixModalOpen, setIsSupportMatrixModalOpen] = createSignal(false);
   const [compatibilityReport, setCompatibilityReport] = createSignal<CompatibilityReport | null>(null);
   const [pendingAction, setPendingAction] = createSignal<'export' | 'test' | null>(null);
+  const [darkPreview, setDarkPreview] = createSignal(false);
+  const [dataPreview, setDataPreview] = createSignal(false);
+  const [isDataSourceModalOpen, setIsDataSourceModalOpen] = createSignal(false);
+  const [isBlueprintGalleryModalOpen, setIsBlueprintGalleryModalOpen] = createSignal(false);
+  const [isSaveAsBlueprintModalOpen, setIsSaveAsBlueprintModalOpen] = createSignal(false);
 
   // Handle canvas element ref for visual feedback
   const handleCanvasRef = (element: HTMLElement | null) => {
     actions.setCanvasElement(element);
   };
 
-  // Get the selected component from the template
+  // Template in the content locale being edited
+  const localizedTemplate = createMemo(() =>
+    state.template && state.contentLocale ? localizeTemplate(state.template, state.contentLocale) : state.template
+  );
+
+  const contentLocale = () => state.contentLocale ?? (state.template ? getSourceLocale(state.template) : '');
+
+  const translationReport = createMemo(() => actions.getMissingTranslations());
+
+  const handleToggleDataPreview = () => {
+    // Display rules and repeated components are previewed with sample data, ask for some first
+    if (!dataPreview() && !state.activeDataSource) {
+      setIsDataSourceModalOpen(true);
+    }
+    setDataPreview(!dataPreview());
+  };
+
+  const handleAddContentLocale = (locale: string) => {
+    actions.setContentLocales([...(state.template?.localization?.locales ?? []), locale]);
+  };
+
+  const handleRemoveContentLocale = (locale: string) => {
+    actions.setContentLocales((state.template?.localization?.locales ?? []).filter((item) => item !== locale));
+  };
+
+  const handleImportTranslations = async (file: File) => {
+    try {
+      const result = await actions.importTranslationFile(file);
+      if (result?.issues.length) {
+        alert(
+          `Imported ${Object.keys(result.texts).length} translations for ${result.locale}. ` +
+            `Skipped ${result.issues.length}:\n${result.issues.map((issue) => `${issue.key}: ${issue.message}`).join('\n')}`
+        );
+      }
+    } catch (error) {
+      alert(`Failed to import translations: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  // Get the selected component from the template, as seen in the content locale
   const selectedComponent = createMemo(() => {
-    if (!state.template || !state.selectedComponentId) return null;
-    return state.template.components.find(c => c.id === state.selectedComponentId) || null;
+    const template = localizedTemplate();
+    if (!template || !state.selectedComponentId) return null;
+    return findComponent(template.components, state.selectedComponentId) || null;
+  });
+
+  // Theme the style tokens of the template are resolved with
+  const templateTheme = createMemo(() => {
+    const themeId = state.template?.generalStyles?.themeId;
+    return themeId ? resolveTheme(themeId) : undefined;
   });
 
   // Get mobile layout items when in mobile mode
@@ -64,6 +140,23 @@ const BuilderContent: Component = () => {
   };
 
   const handlePropertyChange = (componentId: string, propertyPath: string, value: any) => {
+    // Changing the columns of a row resizes, adds or merges its columns
+    const component = state.template && findComponent(state.template.components, componentId);
+    if (component?.type === ComponentType.ROW && propertyPath === 'content.layout') {
+      actions.setRowLayout(componentId, value as RowLayoutPreset);
+      return;
+    }
+
+    // With several components selected, a style edit restyles all of them
+    if (
+      propertyPath.startsWith('styles.') &&
+      state.selectedComponentIds.length > 1 &&
+      state.selectedComponentIds.includes(componentId)
+    ) {
+      actions.restyleSelection(propertyPath, value);
+      return;
+    }
+
     actions.updateComponentProperty(componentId, propertyPath, value);
   };
 
@@ -75,11 +168,17 @@ const BuilderContent: Component = () => {
     actions.updateCanvasSetting(path, value);
   };
 
+  const isInputFieldTarget = (target: EventTarget | null) => {
+    const element = target as HTMLElement | null;
+    return !!element && (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.isContentEditable);
+  };
+
+  const hasMultipleSelection = () => state.selectedComponentIds.length > 1;
+
   // Keyboard shortcut handler
   const handleKeyDown = (event: KeyboardEvent) => {
     // Don't handle keyboard shortcuts if user is typing in an input field
-    const target = event.target as HTMLElement;
-    const isInputField = target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable;
+    const isInputField = isInputFieldTarget(event.target);
 
     // Undo: Ctrl+Z or Cmd+Z
     if ((event.ctrlKey || event.metaKey) && event.key === 'z' && !event.shiftKey && !isInputField) {
@@ -104,7 +203,11 @@ const BuilderContent: Component = () => {
     if ((event.ctrlKey || event.metaKey) && event.key === 'd' && state.selectedComponentId) {
       if (!isInputField) {
         event.preventDefault();
-        actions.duplicateComponent(state.selectedComponentId);
+        if (hasMultipleSelection()) {
+          actions.duplicateSelection();
+        } else {
+          actions.duplicateComponent(state.selectedComponentId);
+        }
       }
       return;
     }
@@ -126,17 +229,50 @@ const BuilderContent: Component = () => {
       }
 
       event.preventDefault();
-      handleDelete(state.selectedComponentId);
+      if (hasMultipleSelection()) {
+        actions.deleteSelection();
+      } else {
+        handleDelete(state.selectedComponentId);
+      }
+    }
+  };
+
+  // Copy, cut and paste components through the system clipboard, unless text is being copied
+  const isCopyingText = (event: ClipboardEvent) =>
+    isInputFieldTarget(event.target) || !(window.getSelection()?.isCollapsed ?? true);
+
+  const handleCopy = (event: ClipboardEvent) => {
+    if (!event.clipboardData || isCopyingText(event)) return;
+    if (actions.copySelection(event.clipboardData)) {
+      event.preventDefault();
     }
   };
 
+  const handleCut = (event: ClipboardEvent) => {
+    if (!event.clipboardData || isCopyingText(event) || state.selectedComponentIds.length === 0) return;
+    event.preventDefault();
+    actions.cutSelection(event.clipboardData);
+  };
+
+  const handlePaste = (event: ClipboardEvent) => {
+    if (!event.clipboardData || isInputFieldTarget(event.target) || !state.template) return;
+    event.preventDefault();
+    actions.pasteComponents(event.clipboardData);
+  };
+
   // Set up keyboard event listener
   onMount(() => {
     window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('copy', handleCopy);
+    window.addEventListener('cut', handleCut);
+    window.addEventListener('paste', handlePaste);
   });
 
   onCleanup(() => {
     window.removeEventListener('keydown', handleKeyDown);
+    window.removeEventListener('copy', handleCopy);
+    window.removeEventListener('cut', handleCut);
+    window.removeEventListener('paste', handlePaste);
   });
 
   // Show tips based on email mode
@@ -159,7 +295,7 @@ const BuilderContent: Component = () => {
     // Component drag started
   };
 
-  const handleDrop = (event: DragEvent) => {
+  const handleDrop = (event: DragEvent, parentId?: string) => {
     event.preventDefault();
 
     try {
@@ -170,7 +306,15 @@ const BuilderContent: Component = () => {
         return;
       }
 
-      const { type } = JSON.parse(data);
+      const { type, blockId } = JSON.parse(data);
+
+      // Global blocks dropped from the global block panel are added by reference
+      if (type === 'global-block' && blockId) {
+        const reference = createGlobalBlockReference(blockId);
+        actions.addComponent(reference, parentId);
+        actions.selectComponent(reference.id);
+        return;
+      }
 
       // Find the component definition
       const definition = componentDefinitions.find(def => def.type === type);
@@ -182,8 +326,8 @@ const BuilderContent: Component = () => {
       // Create a new component instance using the definition's create method
       const newComponent = definition.create();
 
-      // Add the component to the template
-      actions.addComponent(newComponent);
+      // Add the component to the template, or to the column it was dropped into
+      actions.addComponent(newComponent, parentId);
 
       // Select the newly added component
       actions.selectComponent(newComponent.id);
@@ -193,6 +337,12 @@ const BuilderContent: Component = () => {
   };
 
   const handleComponentReorder = (componentId: string, newIndex: number) => {
+    // Dragging one of several selected components moves them together
+    if (hasMultipleSelection() && state.selectedComponentIds.includes(componentId)) {
+      actions.moveComponents(state.selectedComponentIds, newIndex);
+      return;
+    }
+
     actions.reorderComponent(componentId, newIndex);
   };
 
@@ -330,7 +480,16 @@ const BuilderContent: Component = () => {
 
     if (result.success) {
       setIsTestConfigModalOpen(false);
-      if (result.url) {
+      if (result.clientResults) {
+        const summary = result.clientResults.map((clientResult) => {
+          const name = COMMON_EMAIL_CLIENTS.find((client) => client.id === clientResult.clientId)?.name ?? clientResult.clientId;
+          const stripped = clientResult.strippedProperties?.length
+            ? `, strips ${clientResult.strippedProperties.join(', ')}`
+            : '';
+          return `${name}: ${clientResult.score ?? 100}/100, ${clientResult.issues.length} issue(s)${stripped}`;
+        });
+        alert(`Test completed!\n\n${summary.join('\n')}`);
+      } else if (result.url) {
         const openInNewTab = confirm(
           `Test submitted successfully!\n\nTest ID: ${result.testId}\n\nWould you like to view the results in a new tab?`
         );
@@ -370,6 +529,36 @@ const BuilderContent: Component = () => {
     setCompatibilityReport(null);
   };
 
+  const fixCompatibilityIssues = async (issues: CompatibilityIssue[]) => {
+    await actions.fixCompatibilityIssues(issues);
+
+    const report = actions.checkCompatibility();
+    if (report && report.totalIssues > 0) {
+      setCompatibilityReport(report);
+    } else {
+      handleCompatibilityReportClose();
+    }
+  };
+
+  const handleFixIssue = async (issueId: string) => {
+    const report = compatibilityReport();
+    if (!report) return;
+
+    const { critical, warnings, suggestions } = report.issues;
+    const issue = [...critical, ...warnings, ...suggestions].find((i) => i.id === issueId);
+    if (issue) {
+      await fixCompatibilityIssues([issue]);
+    }
+  };
+
+  const handleFixAll = async () => {
+    const report = compatibilityReport();
+    if (!report) return;
+
+    const { critical, warnings, suggestions } = report.issues;
+    await fixCompatibilityIssues([...critical, ...warnings, ...suggestions].filter((i) => i.autoFixAvailable));
+  };
+
   const handleExportAnyway = async () => {
     setIsCompatibilityReportModalOpen(false);
     const action = pendingAction();
@@ -410,6 +599,8 @@ const BuilderContent: Component = () => {
               canUndo={state.canUndo}
               canRedo={state.canRedo}
               templateName={state.template?.metadata.name}
+              saveState={state.saveState}
+              lastSavedAt={state.lastSavedAt}
               onNewTemplate={handleNewTemplate}
               onSaveTemplate={handleSaveTemplate}
               onLoadTemplate={handleLoadTemplate}
@@ -417,6 +608,10 @@ const BuilderContent: Component = () => {
               onRedo={actions.redo}
               onExport={handleExport}
               onPreview={handlePreview}
+              darkPreview={darkPreview()}
+              onToggleDarkPreview={() => setDarkPreview(!darkPreview())}
+              dataPreview={dataPreview()}
+              onToggleDataPreview={handleToggleDataPreview}
               onCheckCompatibility={handleCheckCompatibility}
               onTestEmailClients={handleTestEmailClients}
               onEmailTestingSettings={handleEmailTestingSettings}
@@ -458,6 +653,42 @@ const BuilderContent: Component = () => {
               components={componentDefinitions}
               onComponentDragStart={handleComponentDragStart}
             />
+            <h2>Global Blocks</h2>
+            <GlobalBlockPanel
+              blocks={state.globalBlocks}
+              selectedComponent={selectedComponent()}
+              onCreateFromSelection={actions.createGlobalBlock}
+              onUpdateFromSelection={actions.updateGlobalBlockFromComponent}
+              onDetach={actions.detachGlobalBlock}
+              onDelete={actions.deleteGlobalBlock}
+            />
+            <Show when={state.template}>
+              <h2>Content Languages</h2>
+              <LocalizationPanel
+                report={translationReport()}
+                currentLocale={contentLocale()}
+                onSelectLocale={actions.setContentLocale}
+                onAddLocale={handleAddContentLocale}
+                onRemoveLocale={handleRemoveContentLocale}
+                {...(translationManager?.getAutoTranslationPlugin() && { onPrefill: actions.prefillContentLocale })}
+                onSelectEntry={(entry) => entry.componentId && actions.selectComponent(entry.componentId)}
+                onExport={actions.exportLocalizedTemplates}
+                onExportXLIFF={(locale) => actions.exportTranslationFile('xliff', locale)}
+                onExportJSON={() => actions.exportTranslationFile('json')}
+                onImportFile={handleImportTranslations}
+              />
+              <h2>Sample Data</h2>
+              <p class={styles.sampleDataSource}>
+                {state.activeDataSource?.name ?? 'No sample data yet. Display rules are previewed with it.'}
+              </p>
+              <Button variant="secondary" size="small" onClick={() => setIsDataSourceModalOpen(true)}>
+                Edit sample data
+              </Button>
+              <h2>Blueprint</h2>
+              <Button variant="secondary" size="small" onClick={() => setIsSaveAsBlueprintModalOpen(true)}>
+                Save as blueprint
+              </Button>
+            </Show>
           </aside>
 
           <main class={styles.canvas}>
@@ -465,9 +696,22 @@ const BuilderContent: Component = () => {
               <TemplateCanvas
                 template={state.template}
                 selectedComponentId={state.selectedComponentId}
+                selectedComponentIds={state.selectedComponentIds}
                 deviceMode={state.deviceMode}
+                darkPreview={darkPreview()}
+                previewData={dataPreview() ? state.sampleData : undefined}
+                theme={templateTheme()}
+                locales={state.template ? getTemplateLocales(state.template) : []}
+                locale={contentLocale()}
+                onLocaleChange={actions.setContentLocale}
                 onComponentSelect={handleComponentSelect}
+                onSelectionChange={actions.setSelection}
+                onDuplicateSelection={actions.duplicateSelection}
+                onDeleteSelection={actions.deleteSelection}
+                onMoveSelection={actions.moveSelection}
                 onDrop={handleDrop}
+                onComponentDropInto={handleDrop}
+                resolveGlobalBlock={resolveGlobalBlock}
                 onComponentReorder={handleComponentReorder}
                 onCanvasRef={handleCanvasRef}
               />
@@ -496,6 +740,17 @@ const BuilderContent: Component = () => {
                 deviceMode={state.deviceMode}
                 onClearMobileOverride={actions.clearMobileOverride}
                 onSetVisibility={actions.setMobileVisibility}
+                sampleData={state.sampleData}
+                theme={templateTheme()}
+                themes={state.themes}
+                onStyleTokenChange={actions.setStyleToken}
+                onThemeChange={actions.setTemplateTheme}
+                customizationActions={{
+                  getVariants,
+                  recipes: state.recipes,
+                  applyVariants: actions.applyVariants,
+                  applyRecipe: actions.applyRecipe,
+                }}
                 presetActions={{
                   applyPreset: actions.applyPreset,
                   createPreset: actions.createPreset,
@@ -519,6 +774,7 @@ const BuilderContent: Component = () => {
         isOpen={isNewTemplateModalOpen()}
         onClose={() => setIsNewTemplateModalOpen(false)}
         onCreateTemplate={handleCreateTemplate}
+        onBrowseBlueprints={() => setIsBlueprintGalleryModalOpen(true)}
       />
 
       <TemplatePickerModal
@@ -527,12 +783,30 @@ const BuilderContent: Component = () => {
         onLoadTemplate={handleTemplateLoad}
         onDeleteTemplate={handleTemplateDelete}
         onListTemplates={handleListTemplates}
+        onBrowseBlueprints={() => setIsBlueprintGalleryModalOpen(true)}
+      />
+
+      <BlueprintGalleryModal
+        isOpen={isBlueprintGalleryModalOpen()}
+        onClose={() => setIsBlueprintGalleryModalOpen(false)}
+        blueprints={state.blueprints}
+        onPreview={previewBlueprint}
+        onValidate={validateBlueprintSlots}
+        onCreate={actions.createTemplateFromBlueprint}
+      />
+
+      <SaveAsBlueprintModal
+        isOpen={isSaveAsBlueprintModalOpen()}
+        onClose={() => setIsSaveAsBlueprintModalOpen(false)}
+        template={state.template}
+        onSave={actions.saveAsBlueprint}
       />
 
       <PreviewModal
         isOpen={isPreviewModalOpen()}
         template={state.template}
         onClose={() => setIsPreviewModalOpen(false)}
+        exportHTML={actions.exportEmailHTML}
       />
 
       <EmailTestingSettingsModal
@@ -555,6 +829,8 @@ const BuilderContent: Component = () => {
           report={compatibilityReport()!}
           onExportAnyway={handleExportAnyway}
           onViewSupportMatrix={handleOpenSupportMatrix}
+          onFixIssue={handleFixIssue}
+          onFixAll={handleFixAll}
         />
       </Show>
 
@@ -562,6 +838,18 @@ const BuilderContent: Component = () => {
         isOpen={isSupportMatrixModalOpen()}
         onClose={() => setIsSupportMatrixModalOpen(false)}
       />
+
+      <Show when={isDataSourceModalOpen()}>
+        <DataSourceConfigModal
+          isOpen={true}
+          onClose={() => setIsDataSourceModalOpen(false)}
+          onSave={(config) => {
+            actions.saveDataSource(config);
+            setIsDataSourceModalOpen(false);
+          }}
+          {...(state.activeDataSource && { initialConfig: state.activeDataSource })}
+        />
+      </Show>
     </>
   );
 };
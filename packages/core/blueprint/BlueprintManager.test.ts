@@ -0,0 +1,147 @@
+/**
+ * Blueprint Manager Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BlueprintManager } from './BlueprintManager';
+import { defaultBlueprints } from './default-blueprints';
+import { createEmptyEmailTemplate } from '../template/TemplateComposer';
+import { createButton, createImage, createRow, createText } from '../components/factories';
+import { CustomizationError } from '../errors';
+
+const createManager = () => {
+  const manager = new BlueprintManager();
+  defaultBlueprints.forEach((blueprint) => manager.register(blueprint));
+  return manager;
+};
+
+describe('BlueprintManager', () => {
+  it('should define every built-in blueprint with the content of its slots', () => {
+    const manager = createManager();
+
+    expect(manager.getAll().length).toBeGreaterThanOrEqual(25);
+    defaultBlueprints.forEach((blueprint) => {
+      expect(manager.validateSlots(blueprint.id, {})).toEqual(
+        blueprint.slots.filter((slot) => slot.minComponents).map((slot) => expect.objectContaining({ slotId: slot.id }))
+      );
+      expect(manager.instantiate({ blueprintId: blueprint.id, name: blueprint.name }).success).toBe(true);
+    });
+  });
+
+  describe('validateSlots()', () => {
+    it('should require the required slots to be filled', () => {
+      const manager = createManager();
+
+      const errors = manager.validateSlots('order-confirmation', {
+        headline: { content: { html: '<h1> </h1>' } },
+        body: { content: { html: '<p>We received your order.</p>' } },
+      });
+
+      expect(errors.map((error) => [error.type, error.slotId])).toEqual([
+        ['missing-slot', 'headline'],
+        ['missing-slot', 'cta'],
+      ]);
+    });
+
+    it('should reject components a slot does not allow, and unknown slots', () => {
+      const manager = createManager();
+
+      const errors = manager.validateSlots('welcome-simple', {
+        logo: { componentType: 'button' },
+        sidebar: { content: {} },
+      });
+
+      expect(errors).toContainEqual(expect.objectContaining({ type: 'invalid-component', slotId: 'logo' }));
+      expect(errors).toContainEqual(expect.objectContaining({ type: 'validation-failed', slotId: 'sidebar' }));
+    });
+  });
+
+  describe('instantiate()', () => {
+    it('should merge the slot content over the default content', () => {
+      const manager = createManager();
+
+      const result = manager.instantiate({
+        blueprintId: 'welcome-simple',
+        name: 'Welcome',
+        slotContent: {
+          headline: { content: { html: '<h1>Hello Ada</h1>', plainText: 'Hello Ada' } },
+          body: { content: { html: '<p>Glad you are here.</p>' } },
+          cta: { content: { text: 'Open the app' } },
+        },
+      });
+
+      const components = result.template!.components;
+      expect(components.map((component) => component.type)).toEqual([
+        'image',
+        'text',
+        'text',
+        'button',
+        'spacer',
+        'separator',
+        'text',
+      ]);
+      expect(components[1]!.content).toMatchObject({ type: 'heading-1', html: '<h1>Hello Ada</h1>' });
+      expect(components[3]!.content).toMatchObject({
+        text: 'Open the app',
+        link: { href: 'https://example.com/start' },
+      });
+      expect(new Set(components.map((component) => component.id)).size).toBe(components.length);
+    });
+
+    it('should fail when a required slot is not filled', () => {
+      const manager = createManager();
+
+      const result = manager.instantiate({ blueprintId: 'receipt', name: 'Receipt', slotContent: {} });
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.map((error) => error.slotId)).toEqual(['headline', 'body', 'cta']);
+    });
+  });
+
+  describe('createFromTemplate()', () => {
+    it('should save a template as a blueprint with its marked slots', () => {
+      const manager = new BlueprintManager();
+      const template = createEmptyEmailTemplate();
+      const title = createText({ id: 'title' });
+      const row = createRow({ id: 'row' });
+      template.components = [createImage({ id: 'logo' }), title, row, createButton({ id: 'cta' })];
+      template.generalStyles = { ...template.generalStyles, themeId: 'bold' };
+
+      const blueprint = manager.createFromTemplate(template, {
+        name: 'Brand announcement',
+        slots: {
+          title: { name: 'Title', required: true },
+          cta: { name: 'Title' },
+        },
+      });
+
+      expect(manager.get(blueprint.id)).toBe(blueprint);
+      expect(blueprint.slots).toEqual([
+        expect.objectContaining({ id: 'title', type: 'text', allowedComponents: ['text'], minComponents: 1 }),
+        expect.objectContaining({ id: 'title-2', type: 'cta-button', allowedComponents: ['button'] }),
+      ]);
+      expect(blueprint.defaults.themeId).toBe('bold');
+
+      const result = manager.instantiate({
+        blueprintId: blueprint.id,
+        name: 'Launch',
+        slotContent: { title: { content: { html: '<p>We launched</p>' } } },
+      });
+      const [, instantiatedTitle, instantiatedRow] = result.template!.components;
+      expect(instantiatedTitle!.content.html).toBe('<p>We launched</p>');
+      expect(instantiatedRow!.children![0]!.id).not.toBe(row.children![0]!.id);
+      expect(instantiatedRow!.children![0]!.parentId).toBe(instantiatedRow!.id);
+      expect(result.template!.generalStyles.themeId).toBe('bold');
+    });
+
+    it('should reject marked components that are not top-level components', () => {
+      const manager = new BlueprintManager();
+      const template = createEmptyEmailTemplate();
+      template.components = [createRow()];
+
+      expect(() =>
+        manager.createFromTemplate(template, { name: 'Nested', slots: { nested: { name: 'Nested' } } })
+      ).toThrow(CustomizationError);
+    });
+  });
+});
@@ -6,22 +6,67 @@
 import type {
   TemplateBlueprint,
   BlueprintCategory,
+  BlueprintComponent,
+  BlueprintFromTemplateOptions,
   BlueprintInstantiationOptions,
   BlueprintInstantiationResult,
   BlueprintError,
+  BlueprintSlot,
+  SlotContent,
+  SlotType,
 } from '../types/blueprint.types';
-import type { Template } from '../types/template.types';
 import type { BaseComponent } from '../types/component.types';
+import type { Template } from '../types/template.types';
+import { TemplateComposer } from '../template/TemplateComposer';
 import { EventEmitter } from '../services/EventEmitter';
 import { StorageAdapter } from '../types/config.types';
+import { CustomizationError } from '../errors';
+
+/**
+ * Content field a slot must fill, by component type
+ */
+const SLOT_CONTENT_FIELDS: Partial<Record<string, string>> = {
+  text: 'html',
+  image: 'src',
+  button: 'text',
+};
+
+/**
+ * Slot type of a component marked as a slot, by component type
+ */
+const SLOT_TYPES: Partial<Record<string, SlotType>> = {
+  text: 'text',
+  image: 'image',
+  button: 'cta-button',
+  header: 'navigation',
+  footer: 'legal-text',
+  list: 'product-grid',
+};
+
+/**
+ * Whether slot content fills nothing, e.g. a text with an empty paragraph
+ */
+function isEmptySlotContent(componentType: string, content: Record<string, unknown> | undefined): boolean {
+  if (!content) {
+    return true;
+  }
+
+  const field = SLOT_CONTENT_FIELDS[componentType];
+  if (!field) {
+    return Object.keys(content).length === 0;
+  }
+
+  const value = content[field];
+  return typeof value !== 'string' || value.replace(/<[^>]*>/g, '').trim() === '';
+}
 
 export interface BlueprintManagerConfig {
-  storage?: StorageAdapter;
+  storage?: StorageAdapter | undefined;
 }
 
 export class BlueprintManager extends EventEmitter {
   private blueprints: Map<string, TemplateBlueprint> = new Map();
-  private storage?: StorageAdapter;
+  private storage: StorageAdapter | undefined;
 
   constructor(config: BlueprintManagerConfig = {}) {
     super();
@@ -118,8 +163,64 @@ export class BlueprintManager extends EventEmitter {
   // BLUEPRINT INSTANTIATION
   // ============================================================================
 
+  /**
+   * Validate the content of the slots of a blueprint
+   *
+   * Required slots (`minComponents` above 0) must be filled, e.g. a text
+   * slot with some text once merged over its default content, and slot
+   * content must use an allowed component.
+   *
+   * @param blueprintId - Blueprint ID
+   * @param slotContent - Slot content, by slot ID
+   * @returns Errors, empty when the content is valid
+   */
+  validateSlots(blueprintId: string, slotContent: Record<string, SlotContent> = {}): BlueprintError[] {
+    const blueprint = this.blueprints.get(blueprintId);
+    if (!blueprint) {
+      return [{ type: 'validation-failed', message: `Blueprint not found: ${blueprintId}` }];
+    }
+
+    const errors: BlueprintError[] = [];
+
+    blueprint.slots.forEach((slot) => {
+      const content = slotContent[slot.id];
+      const slotted = this.getSlotComponent(blueprint, slot);
+      const componentType =
+        content?.componentType ?? slotted?.type ?? slot.defaultComponent ?? slot.allowedComponents?.[0] ?? 'custom';
+
+      if (content?.componentType && slot.allowedComponents && !slot.allowedComponents.includes(content.componentType)) {
+        errors.push({
+          type: 'invalid-component',
+          message: `Component "${content.componentType}" is not allowed in slot: ${slot.name}`,
+          slotId: slot.id,
+        });
+      } else if (
+        (slot.minComponents ?? 0) > 0 &&
+        (!content || isEmptySlotContent(componentType, { ...slotted?.componentData.content, ...content.content }))
+      ) {
+        errors.push({
+          type: 'missing-slot',
+          message: `Required slot not provided: ${slot.name}`,
+          slotId: slot.id,
+        });
+      }
+    });
+
+    Object.keys(slotContent)
+      .filter((slotId) => !blueprint.slots.some((slot) => slot.id === slotId))
+      .forEach((slotId) => {
+        errors.push({ type: 'validation-failed', message: `Unknown slot: ${slotId}`, slotId });
+      });
+
+    return errors;
+  }
+
   /**
    * Create a template from a blueprint
+   *
+   * Without slot content, the template gets the default content of every
+   * slot. With slot content, required slots must be filled, and optional
+   * slots left out keep their default content.
    */
   instantiate(options: BlueprintInstantiationOptions): BlueprintInstantiationResult {
     const blueprint = this.blueprints.get(options.blueprintId);
@@ -135,91 +236,40 @@ export class BlueprintManager extends EventEmitter {
       };
     }
 
-    const errors: BlueprintError[] = [];
-    const components: BaseComponent[] = [];
-
-    try {
-      // Build components from blueprint sections
-      for (const section of blueprint.structure) {
-        for (const blueprintComponent of section.components) {
-          // Check if this component has a slot
-          if (blueprintComponent.slotId && options.slotContent) {
-            const slotContent = options.slotContent[blueprintComponent.slotId];
-            if (slotContent) {
-              // Use slot content
-              const component: BaseComponent = {
-                ...(blueprintComponent.componentData as BaseComponent),
-                id: this.generateComponentId(),
-                type: slotContent.componentType || blueprintComponent.type,
-                content: slotContent.content || blueprintComponent.componentData.content || {},
-                styles: slotContent.styles || blueprintComponent.componentData.styles || {},
-                metadata: {
-                  name: blueprintComponent.componentData.metadata?.name || 'Component',
-                  description: blueprintComponent.componentData.metadata?.description,
-                },
-                createdAt: Date.now(),
-                updatedAt: Date.now(),
-                version: '1.0.0',
-              };
-              components.push(component);
-            } else {
-              // Check if slot is required
-              const slot = blueprint.slots.find((s) => s.id === blueprintComponent.slotId);
-              if (slot && slot.minComponents && slot.minComponents > 0) {
-                errors.push({
-                  type: 'missing-slot',
-                  message: `Required slot not provided: ${slot.name}`,
-                  slotId: slot.id,
-                });
-              }
-            }
-          } else {
-            // Use default component from blueprint
-            const component: BaseComponent = {
-              ...(blueprintComponent.componentData as BaseComponent),
-              id: this.generateComponentId(),
-              createdAt: Date.now(),
-              updatedAt: Date.now(),
-              version: '1.0.0',
-            };
-            components.push(component);
-          }
-        }
-      }
-
+    if (options.slotContent) {
+      const errors = this.validateSlots(blueprint.id, options.slotContent);
       if (errors.length > 0) {
         return { success: false, errors };
       }
+    }
+
+    try {
+      // Build components from blueprint sections, in order
+      const components = [...blueprint.structure]
+        .sort((a, b) => a.order - b.order)
+        .flatMap((section) => [...section.components].sort((a, b) => a.order - b.order))
+        .map((blueprintComponent) => {
+          const slotContent = blueprintComponent.slotId && options.slotContent?.[blueprintComponent.slotId];
+          return this.createComponent(blueprintComponent, slotContent || undefined);
+        });
 
       // Create the template
-      const template: Template = {
-        metadata: {
-          id: this.generateTemplateId(),
-          name: options.name,
-          description: `Created from blueprint: ${blueprint.name}`,
-          category: blueprint.category,
-          version: '1.0.0',
-          createdAt: Date.now(),
-          updatedAt: Date.now(),
-        },
-        settings: {
-          target: 'email',
-          canvasDimensions: {
-            width: blueprint.defaults.canvasWidth || 600,
-            maxWidth: blueprint.defaults.canvasWidth || 600,
-          },
-          responsive: true,
-          locale: 'en-US',
-        },
-        generalStyles: {
-          fontFamily: 'Arial, sans-serif',
-          fontSize: { value: 16, unit: 'px' },
-          color: '#000000',
-          backgroundColor: '#ffffff',
-        },
-        components,
-        version: '1.0.0',
-      };
+      const template = new TemplateComposer({
+        target: 'email',
+        name: options.name,
+        description: `Created from blueprint: ${blueprint.name}`,
+        category: blueprint.category,
+        width: blueprint.defaults.canvasWidth || 600,
+        responsive: true,
+      })
+        .setBackgroundColor('#ffffff')
+        .addComponents(components)
+        .build();
+
+      const themeId = options.themeId ?? blueprint.defaults.themeId;
+      if (themeId) {
+        template.generalStyles = { ...template.generalStyles, themeId };
+      }
 
       this.emit('blueprint:instantiated', { blueprint, template, options });
 
@@ -240,6 +290,87 @@ export class BlueprintManager extends EventEmitter {
     }
   }
 
+  /**
+   * Save a template as a blueprint
+   *
+   * Its top-level components become the components of the blueprint, and
+   * the marked ones its slots.
+   *
+   * @param template - Template
+   * @param options - Name of the blueprint, and slots by component ID
+   * @returns Registered blueprint
+   * @throws {CustomizationError} If a marked component is not a top-level
+   * component of the template
+   */
+  createFromTemplate(template: Template, options: BlueprintFromTemplateOptions): TemplateBlueprint {
+    const markers = options.slots ?? {};
+    const unknown = Object.keys(markers).find(
+      (componentId) => !template.components.some((component) => component.id === componentId)
+    );
+    if (unknown !== undefined) {
+      throw new CustomizationError(`Component is not a top-level component of the template: ${unknown}`, {
+        componentId: unknown,
+      });
+    }
+
+    const slots: BlueprintSlot[] = [];
+    const components = template.components.map((component, order): BlueprintComponent => {
+      const marker = markers[component.id];
+      const { id: _id, ...componentData } = JSON.parse(JSON.stringify(component)) as BaseComponent;
+      if (!marker) {
+        return { id: `component-${order}`, type: component.type, componentData, order };
+      }
+
+      const slotId = this.getUniqueSlotId(marker.name, slots);
+      slots.push({
+        id: slotId,
+        name: marker.name,
+        ...(marker.description && { description: marker.description }),
+        type: marker.type ?? SLOT_TYPES[component.type] ?? 'custom',
+        allowedComponents: [component.type],
+        defaultComponent: component.type,
+        ...(marker.required && { minComponents: 1 }),
+        maxComponents: 1,
+      });
+      return { id: `component-${order}`, type: component.type, slotId, componentData, order };
+    });
+
+    const now = Date.now();
+    const themeId = template.generalStyles?.themeId;
+    const blueprint: TemplateBlueprint = {
+      id: this.generateBlueprintId(),
+      name: options.name,
+      ...(options.description && { description: options.description }),
+      category: options.category ?? 'custom',
+      structure: [
+        {
+          id: 'content',
+          name: 'Content',
+          type: 'content',
+          layout: { type: 'single' },
+          components,
+          required: true,
+          repeatable: false,
+          ...(slots.length > 0 && { slots: slots.map((slot) => slot.id) }),
+          order: 0,
+        },
+      ],
+      slots,
+      defaults: {
+        canvasWidth: template.settings.canvasDimensions.width,
+        ...(themeId && { themeId }),
+      },
+      metadata: {
+        ...(options.tags && { tags: options.tags }),
+        createdAt: now,
+        updatedAt: now,
+      },
+    };
+
+    this.register(blueprint);
+    return blueprint;
+  }
+
   // ============================================================================
   // UTILITIES
   // ============================================================================
@@ -292,10 +423,56 @@ export class BlueprintManager extends EventEmitter {
   }
 
   /**
-   * Generate template ID
+   * Create a template component, with the content of its slot if any
+   *
+   * Slot content is merged over the default content, and children get new
+   * IDs too.
+   */
+  private createComponent(blueprintComponent: BlueprintComponent, slotContent?: SlotContent): BaseComponent {
+    const defaults = JSON.parse(JSON.stringify(blueprintComponent.componentData)) as BaseComponent;
+    const now = Date.now();
+    const component: BaseComponent = {
+      ...defaults,
+      id: this.generateComponentId(),
+      type: slotContent?.componentType ?? blueprintComponent.type,
+      content: { ...defaults.content, ...slotContent?.content },
+      styles: { ...defaults.styles, ...slotContent?.styles },
+      createdAt: now,
+      updatedAt: now,
+      version: '1.0.0',
+    };
+
+    const reassignIds = (parent: BaseComponent): void => {
+      parent.children?.forEach((child) => {
+        child.id = this.generateComponentId();
+        child.parentId = parent.id;
+        reassignIds(child);
+      });
+    };
+    reassignIds(component);
+
+    return component;
+  }
+
+  /**
+   * Blueprint component a slot is filled into
    */
-  private generateTemplateId(): string {
-    return `template-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  private getSlotComponent(blueprint: TemplateBlueprint, slot: BlueprintSlot): BlueprintComponent | undefined {
+    return blueprint.structure
+      .flatMap((section) => section.components)
+      .find((component) => component.slotId === slot.id);
+  }
+
+  /**
+   * Slot ID from its name, e.g. `hero-title`
+   */
+  private getUniqueSlotId(name: string, slots: BlueprintSlot[]): string {
+    const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'slot';
+    let slotId = base;
+    for (let index = 2; slots.some((slot) => slot.id === slotId); index++) {
+      slotId = `${base}-${index}`;
+    }
+    return slotId;
   }
 
   /**
@@ -0,0 +1,659 @@
+/**
+ * Default Template Blueprints
+ * Pre-built layouts for common emails, with slots for their key content
+ */
+
+import type {
+  BlueprintCategory,
+  BlueprintComponent,
+  BlueprintSection,
+  BlueprintSlot,
+  BuiltInBlueprint,
+  SectionType,
+  TemplateBlueprint,
+} from '../types/blueprint.types';
+import type { BaseComponent, BaseStyles } from '../types/component.types';
+import type { ImageStyles, TextContentType, TextStyles } from '../types/base-components.types';
+import {
+  createButton,
+  createCTA,
+  createFooter,
+  createImage,
+  createList,
+  createSeparator,
+  createSpacer,
+  createText,
+  createCSSValue,
+  createUniformSpacing,
+} from '../components/factories';
+
+/**
+ * Outline of a built-in blueprint; every blueprint has a logo, a headline,
+ * a body and legal text, and optionally a hero image and a call to action
+ */
+interface BlueprintOutline {
+  id: BuiltInBlueprint;
+  name: string;
+  description: string;
+  category: BlueprintCategory;
+  tags: string[];
+  headline: string;
+  body: string;
+  heroImage?: boolean;
+  cta?: { text: string; href: string };
+  /**
+   * Fixed content after the body, e.g. a product grid
+   */
+  extras?: () => BaseComponent[];
+}
+
+/**
+ * Component data of a blueprint, without the ID each template gets
+ */
+const data = ({ id: _id, ...component }: BaseComponent): Partial<BaseComponent> => component;
+
+const component = (
+  section: string,
+  order: number,
+  componentData: BaseComponent,
+  slotId?: string
+): BlueprintComponent => ({
+  id: `${section}-${order}`,
+  type: componentData.type,
+  ...(slotId && { slotId }),
+  componentData: data(componentData),
+  order,
+});
+
+const section = (
+  id: string,
+  name: string,
+  type: SectionType,
+  order: number,
+  components: BlueprintComponent[],
+  required = true
+): BlueprintSection => {
+  const slots = components.flatMap((item) => (item.slotId ? [item.slotId] : []));
+  return {
+    id,
+    name,
+    type,
+    layout: { type: 'single', alignment: 'center' },
+    components,
+    required,
+    repeatable: false,
+    ...(slots.length > 0 && { slots }),
+    order,
+  };
+};
+
+const text = (type: TextContentType, html: string, plainText: string, styles: Partial<TextStyles & BaseStyles>) => {
+  const component = createText({ content: { type, html, plainText } });
+  Object.assign(component.styles, { textAlign: 'center', padding: createUniformSpacing(16) }, styles);
+  return component;
+};
+
+const image = (src: string, alt: string, styles: Partial<ImageStyles & BaseStyles> = {}) => {
+  const component = createImage({ content: { src, alt, title: alt } });
+  Object.assign(component.styles, styles);
+  return component;
+};
+
+const heading = (value: string) =>
+  text('heading-1', `<h1>${value}</h1>`, value, {
+    fontSize: createCSSValue(32),
+    fontWeight: 700,
+    color: '#111827',
+  });
+
+const paragraph = (value: string, fontSize = 16, color = '#374151') =>
+  text('paragraph', `<p>${value}</p>`, value.replace(/<[^>]+>/g, ''), { fontSize: createCSSValue(fontSize), color });
+
+function createBlueprint(outline: BlueprintOutline): TemplateBlueprint {
+  const slots: BlueprintSlot[] = [
+    {
+      id: 'logo',
+      name: 'Logo',
+      description: 'Brand logo shown at the top of the email',
+      type: 'logo',
+      allowedComponents: ['image'],
+      defaultComponent: 'image',
+      maxComponents: 1,
+    },
+    ...(outline.heroImage
+      ? [
+          {
+            id: 'hero-image',
+            name: 'Hero image',
+            description: 'Large image below the logo',
+            type: 'hero-image',
+            allowedComponents: ['image'],
+            defaultComponent: 'image',
+            maxComponents: 1,
+          } satisfies BlueprintSlot,
+        ]
+      : []),
+    {
+      id: 'headline',
+      name: 'Headline',
+      description: 'Main message of the email',
+      type: 'headline',
+      allowedComponents: ['text'],
+      defaultComponent: 'text',
+      minComponents: 1,
+      maxComponents: 1,
+      placeholder: outline.headline,
+    },
+    {
+      id: 'body',
+      name: 'Body',
+      description: 'Supporting text below the headline',
+      type: 'body-content',
+      allowedComponents: ['text'],
+      defaultComponent: 'text',
+      minComponents: 1,
+      maxComponents: 1,
+      placeholder: outline.body,
+    },
+    ...(outline.cta
+      ? [
+          {
+            id: 'cta',
+            name: 'Call to action',
+            description: 'Button the email leads to',
+            type: 'cta-button',
+            allowedComponents: ['button'],
+            defaultComponent: 'button',
+            minComponents: 1,
+            maxComponents: 1,
+            placeholder: outline.cta.text,
+          } satisfies BlueprintSlot,
+        ]
+      : []),
+    {
+      id: 'legal',
+      name: 'Legal text',
+      description: 'Why the recipient gets the email, and how to unsubscribe',
+      type: 'legal-text',
+      allowedComponents: ['text'],
+      defaultComponent: 'text',
+      maxComponents: 1,
+    },
+  ];
+
+  const header = section('header', 'Header', 'header', 0, [
+    component(
+      'header',
+      0,
+      image('https://placehold.co/200x60', 'Company logo', {
+        width: createCSSValue(200),
+        padding: createUniformSpacing(24),
+      }),
+      'logo'
+    ),
+  ]);
+
+  const hero = section('hero', 'Hero', 'hero', 1, [
+    ...(outline.heroImage
+      ? [
+          component(
+            'hero',
+            0,
+            image('https://placehold.co/600x300', outline.headline),
+            'hero-image'
+          ),
+        ]
+      : []),
+    component('hero', 1, heading(outline.headline), 'headline'),
+  ]);
+
+  const content = section('content', 'Content', 'content', 2, [
+    component('content', 0, paragraph(outline.body), 'body'),
+    ...(outline.extras?.() ?? []).map((extra, index) => component('content', index + 1, extra)),
+  ]);
+
+  const cta = outline.cta
+    ? [
+        section('cta', 'Call to action', 'cta', 3, [
+          component(
+            'cta',
+            0,
+            createButton({ content: { text: outline.cta.text, link: { href: outline.cta.href, target: '_blank' } } }),
+            'cta'
+          ),
+          component('cta', 1, createSpacer()),
+        ]),
+      ]
+    : [];
+
+  const footer = section('footer', 'Footer', 'footer', 4, [
+    component('footer', 0, createSeparator()),
+    component(
+      'footer',
+      1,
+      paragraph(
+        'You are receiving this email because you have an account with us. <a href="#unsubscribe">Unsubscribe</a>',
+        12,
+        '#6b7280'
+      ),
+      'legal'
+    ),
+  ]);
+
+  return {
+    id: outline.id,
+    name: outline.name,
+    description: outline.description,
+    category: outline.category,
+    structure: [header, hero, content, ...cta, footer],
+    slots,
+    defaults: { canvasWidth: 600, colorScheme: 'light', spacing: 'normal' },
+    metadata: {
+      tags: outline.tags,
+      author: 'Email Builder',
+      difficulty: 'beginner',
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    },
+  };
+}
+
+const productGrid = () => [createList()];
+
+const socialFooter = () => [createFooter()];
+
+const ctaBanner = (title: string) => () => {
+  const banner = createCTA();
+  banner.content.heading = { html: `<h2>${title}</h2>`, plainText: title };
+  return [banner];
+};
+
+// ============================================================================
+// WELCOME & ONBOARDING
+// ============================================================================
+
+export const welcomeSimpleBlueprint = createBlueprint({
+  id: 'welcome-simple',
+  name: 'Simple Welcome',
+  description: 'Short welcome message with a single call to action',
+  category: 'welcome',
+  tags: ['welcome', 'signup'],
+  headline: 'Welcome aboard!',
+  body: 'Thanks for signing up. We are glad to have you with us.',
+  cta: { text: 'Get started', href: 'https://example.com/start' },
+});
+
+export const welcomeFeaturedBlueprint = createBlueprint({
+  id: 'welcome-featured',
+  name: 'Featured Welcome',
+  description: 'Welcome email with a hero image and the highlights of the product',
+  category: 'welcome',
+  tags: ['welcome', 'signup', 'features'],
+  headline: 'Welcome to the family',
+  body: 'Here is everything you need to make the most of your account.',
+  heroImage: true,
+  cta: { text: 'Explore features', href: 'https://example.com/features' },
+  extras: productGrid,
+});
+
+export const onboardingStepBlueprint = createBlueprint({
+  id: 'onboarding-step',
+  name: 'Onboarding Step',
+  description: 'One step of an onboarding sequence',
+  category: 'onboarding',
+  tags: ['onboarding', 'sequence', 'tutorial'],
+  headline: 'Step 1: Set up your profile',
+  body: 'A complete profile helps your team find and recognize you.',
+  cta: { text: 'Complete your profile', href: 'https://example.com/profile' },
+});
+
+export const activationEmailBlueprint = createBlueprint({
+  id: 'activation-email',
+  name: 'Account Activation',
+  description: 'Asks new users to confirm their email address',
+  category: 'onboarding',
+  tags: ['activation', 'verification', 'signup'],
+  headline: 'Confirm your email address',
+  body: 'Please confirm your email address to activate your account.',
+  cta: { text: 'Activate account', href: 'https://example.com/activate' },
+});
+
+// ============================================================================
+// PROMOTIONAL
+// ============================================================================
+
+export const promoHeroBlueprint = createBlueprint({
+  id: 'promo-hero',
+  name: 'Promo Hero',
+  description: 'Promotion centered on a large hero image',
+  category: 'promotional',
+  tags: ['promotion', 'sale', 'hero'],
+  headline: 'Our biggest sale of the year',
+  body: 'Save up to 50% on everything, this week only.',
+  heroImage: true,
+  cta: { text: 'Shop now', href: 'https://example.com/sale' },
+});
+
+export const promoGridBlueprint = createBlueprint({
+  id: 'promo-grid',
+  name: 'Promo Grid',
+  description: 'Promotion with a grid of featured products',
+  category: 'promotional',
+  tags: ['promotion', 'products', 'grid'],
+  headline: 'Picked for you',
+  body: 'Discover this week’s favorites, at special prices.',
+  cta: { text: 'See all deals', href: 'https://example.com/deals' },
+  extras: productGrid,
+});
+
+export const seasonalSaleBlueprint = createBlueprint({
+  id: 'seasonal-sale',
+  name: 'Seasonal Sale',
+  description: 'Seasonal campaign with a countdown-style banner',
+  category: 'promotional',
+  tags: ['promotion', 'seasonal', 'holiday'],
+  headline: 'The summer sale is here',
+  body: 'Fresh deals on the season’s essentials, while stocks last.',
+  heroImage: true,
+  cta: { text: 'Shop the sale', href: 'https://example.com/summer' },
+  extras: ctaBanner('Ends Sunday at midnight'),
+});
+
+export const productLaunchBlueprint = createBlueprint({
+  id: 'product-launch',
+  name: 'Product Launch',
+  description: 'Announces a new product with its key features',
+  category: 'announcement',
+  tags: ['launch', 'product', 'announcement'],
+  headline: 'Meet our newest product',
+  body: 'Designed from the ground up around what you asked for.',
+  heroImage: true,
+  cta: { text: 'Discover it', href: 'https://example.com/new' },
+  extras: productGrid,
+});
+
+// ============================================================================
+// TRANSACTIONAL
+// ============================================================================
+
+export const orderConfirmationBlueprint = createBlueprint({
+  id: 'order-confirmation',
+  name: 'Order Confirmation',
+  description: 'Confirms an order and lists what was purchased',
+  category: 'transactional',
+  tags: ['order', 'confirmation', 'ecommerce'],
+  headline: 'Thanks for your order!',
+  body: 'We have received your order and will let you know when it ships.',
+  cta: { text: 'View your order', href: 'https://example.com/orders' },
+  extras: productGrid,
+});
+
+export const shippingNotificationBlueprint = createBlueprint({
+  id: 'shipping-notification',
+  name: 'Shipping Notification',
+  description: 'Tells the customer their order is on its way',
+  category: 'transactional',
+  tags: ['shipping', 'order', 'tracking'],
+  headline: 'Your order is on its way',
+  body: 'Your package has shipped and should arrive in 3 to 5 business days.',
+  cta: { text: 'Track your package', href: 'https://example.com/tracking' },
+});
+
+export const receiptBlueprint = createBlueprint({
+  id: 'receipt',
+  name: 'Receipt',
+  description: 'Payment receipt',
+  category: 'transactional',
+  tags: ['receipt', 'payment', 'invoice'],
+  headline: 'Your receipt',
+  body: 'Thank you for your payment. Keep this email for your records.',
+  cta: { text: 'Download invoice', href: 'https://example.com/invoice' },
+});
+
+export const passwordResetBlueprint = createBlueprint({
+  id: 'password-reset',
+  name: 'Password Reset',
+  description: 'Password reset link, for security notifications',
+  category: 'notification',
+  tags: ['password', 'security', 'account'],
+  headline: 'Reset your password',
+  body: 'We received a request to reset your password. The link expires in one hour.',
+  cta: { text: 'Reset password', href: 'https://example.com/reset' },
+});
+
+// ============================================================================
+// NEWSLETTER
+// ============================================================================
+
+export const newsletterSimpleBlueprint = createBlueprint({
+  id: 'newsletter-simple',
+  name: 'Simple Newsletter',
+  description: 'Text-first newsletter',
+  category: 'newsletter',
+  tags: ['newsletter', 'updates'],
+  headline: 'This month at our company',
+  body: 'A quick look at what we have been working on, and what is coming next.',
+  extras: socialFooter,
+});
+
+export const newsletterFeaturedBlueprint = createBlueprint({
+  id: 'newsletter-featured',
+  name: 'Featured Newsletter',
+  description: 'Newsletter led by a featured story',
+  category: 'newsletter',
+  tags: ['newsletter', 'featured', 'story'],
+  headline: 'The story of the month',
+  body: 'How one small change made a big difference for our customers.',
+  heroImage: true,
+  cta: { text: 'Read the story', href: 'https://example.com/blog' },
+  extras: socialFooter,
+});
+
+export const newsletterDigestBlueprint = createBlueprint({
+  id: 'newsletter-digest',
+  name: 'Newsletter Digest',
+  description: 'Digest of several articles',
+  category: 'digest',
+  tags: ['newsletter', 'digest', 'articles'],
+  headline: 'Your weekly digest',
+  body: 'The most read articles of the week, in one place.',
+  extras: productGrid,
+});
+
+export const blogUpdateBlueprint = createBlueprint({
+  id: 'blog-update',
+  name: 'Blog Update',
+  description: 'Announces a new blog post',
+  category: 'newsletter',
+  tags: ['blog', 'article', 'content'],
+  headline: 'New on the blog',
+  body: 'Our latest article is out: tips and insights from our team.',
+  heroImage: true,
+  cta: { text: 'Read more', href: 'https://example.com/blog' },
+});
+
+// ============================================================================
+// EVENT
+// ============================================================================
+
+export const eventInvitationBlueprint = createBlueprint({
+  id: 'event-invitation',
+  name: 'Event Invitation',
+  description: 'Invitation with the date and place of an event',
+  category: 'event',
+  tags: ['event', 'invitation', 'rsvp'],
+  headline: 'You are invited',
+  body: 'Join us on June 12 at 6 PM for an evening of talks and networking.',
+  heroImage: true,
+  cta: { text: 'RSVP', href: 'https://example.com/rsvp' },
+});
+
+export const webinarRegistrationBlueprint = createBlueprint({
+  id: 'webinar-registration',
+  name: 'Webinar Registration',
+  description: 'Invites to register for a webinar',
+  category: 'event',
+  tags: ['webinar', 'registration', 'online'],
+  headline: 'Live webinar: getting more from your data',
+  body: 'Learn from our experts in a 45 minute session, with a live Q&A.',
+  cta: { text: 'Save my seat', href: 'https://example.com/webinar' },
+});
+
+export const eventReminderBlueprint = createBlueprint({
+  id: 'event-reminder',
+  name: 'Event Reminder',
+  description: 'Reminds registered attendees of an upcoming event',
+  category: 'event',
+  tags: ['event', 'reminder'],
+  headline: 'See you tomorrow!',
+  body: 'A friendly reminder that the event starts tomorrow at 6 PM.',
+  cta: { text: 'Add to calendar', href: 'https://example.com/calendar' },
+});
+
+// ============================================================================
+// E-COMMERCE
+// ============================================================================
+
+export const abandonedCartBlueprint = createBlueprint({
+  id: 'abandoned-cart',
+  name: 'Abandoned Cart',
+  description: 'Reminds customers of the items left in their cart',
+  category: 'abandoned-cart',
+  tags: ['cart', 'ecommerce', 'recovery'],
+  headline: 'You left something behind',
+  body: 'The items in your cart are waiting for you. Complete your order before they sell out.',
+  cta: { text: 'Return to cart', href: 'https://example.com/cart' },
+  extras: productGrid,
+});
+
+export const productRecommendationBlueprint = createBlueprint({
+  id: 'product-recommendation',
+  name: 'Product Recommendations',
+  description: 'Products recommended from past purchases',
+  category: 'promotional',
+  tags: ['recommendations', 'products', 'ecommerce'],
+  headline: 'We think you will love these',
+  body: 'Hand-picked products based on your recent purchases.',
+  cta: { text: 'Shop recommendations', href: 'https://example.com/recommended' },
+  extras: productGrid,
+});
+
+export const backInStockBlueprint = createBlueprint({
+  id: 'back-in-stock',
+  name: 'Back in Stock',
+  description: 'Tells subscribers a product is available again',
+  category: 'notification',
+  tags: ['stock', 'product', 'ecommerce'],
+  headline: 'It is back in stock',
+  body: 'The product you were waiting for is available again. Get it while it lasts.',
+  heroImage: true,
+  cta: { text: 'Buy now', href: 'https://example.com/product' },
+});
+
+export const reviewRequestBlueprint = createBlueprint({
+  id: 'review-request',
+  name: 'Review Request',
+  description: 'Asks customers to review a recent purchase',
+  category: 'survey',
+  tags: ['review', 'feedback', 'ecommerce'],
+  headline: 'How did we do?',
+  body: 'Tell us what you think of your recent purchase. It only takes a minute.',
+  cta: { text: 'Write a review', href: 'https://example.com/review' },
+});
+
+// ============================================================================
+// ENGAGEMENT
+// ============================================================================
+
+export const surveyFeedbackBlueprint = createBlueprint({
+  id: 'survey-feedback',
+  name: 'Feedback Survey',
+  description: 'Invites to answer a short survey',
+  category: 'survey',
+  tags: ['survey', 'feedback'],
+  headline: 'We would love your feedback',
+  body: 'Help us improve by answering five quick questions.',
+  cta: { text: 'Take the survey', href: 'https://example.com/survey' },
+});
+
+export const milestoneCelebrationBlueprint = createBlueprint({
+  id: 'milestone-celebration',
+  name: 'Milestone Celebration',
+  description: 'Celebrates an anniversary or achievement of the recipient',
+  category: 'drip',
+  tags: ['milestone', 'anniversary', 'celebration'],
+  headline: 'Happy anniversary!',
+  body: 'One year ago today you joined us. Thank you for being part of our story.',
+  heroImage: true,
+  cta: { text: 'Claim your gift', href: 'https://example.com/gift' },
+});
+
+export const referralProgramBlueprint = createBlueprint({
+  id: 'referral-program',
+  name: 'Referral Program',
+  description: 'Invites customers to refer their friends',
+  category: 'promotional',
+  tags: ['referral', 'rewards'],
+  headline: 'Give $10, get $10',
+  body: 'Invite your friends: they get $10 off their first order, and you get $10 too.',
+  cta: { text: 'Invite friends', href: 'https://example.com/refer' },
+});
+
+export const reEngagementBlueprint = createBlueprint({
+  id: 're-engagement',
+  name: 'Re-engagement',
+  description: 'Wins back inactive subscribers',
+  category: 'drip',
+  tags: ['re-engagement', 'win-back', 'inactive'],
+  headline: 'We miss you',
+  body: 'It has been a while. Here is what is new since your last visit.',
+  cta: { text: 'Come back', href: 'https://example.com/welcome-back' },
+  extras: productGrid,
+});
+
+// ============================================================================
+// EXPORT ALL DEFAULT BLUEPRINTS
+// ============================================================================
+
+export const defaultBlueprints: TemplateBlueprint[] = [
+  // Welcome & Onboarding
+  welcomeSimpleBlueprint,
+  welcomeFeaturedBlueprint,
+  onboardingStepBlueprint,
+  activationEmailBlueprint,
+  // Promotional
+  promoHeroBlueprint,
+  promoGridBlueprint,
+  seasonalSaleBlueprint,
+  productLaunchBlueprint,
+  // Transactional
+  orderConfirmationBlueprint,
+  shippingNotificationBlueprint,
+  receiptBlueprint,
+  passwordResetBlueprint,
+  // Newsletter
+  newsletterSimpleBlueprint,
+  newsletterFeaturedBlueprint,
+  newsletterDigestBlueprint,
+  blogUpdateBlueprint,
+  // Event
+  eventInvitationBlueprint,
+  webinarRegistrationBlueprint,
+  eventReminderBlueprint,
+  // E-commerce
+  abandonedCartBlueprint,
+  productRecommendationBlueprint,
+  backInStockBlueprint,
+  reviewRequestBlueprint,
+  // Engagement
+  surveyFeedbackBlueprint,
+  milestoneCelebrationBlueprint,
+  referralProgramBlueprint,
+  reEngagementBlueprint,
+];
+
+export function getDefaultBlueprint(id: BuiltInBlueprint): TemplateBlueprint | undefined {
+  return defaultBlueprints.find((blueprint) => blueprint.id === id);
+}
+
+export default defaultBlueprints;
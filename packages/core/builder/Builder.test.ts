@@ -6,6 +6,10 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { Builder } from './Builder';
 import { BuilderEvent, CommandType } from '../types';
 import type { BuilderConfig, UndoableCommand } from '../types';
+import { DataSourceType } from '../data-injection';
+import { TestSender } from '../test-sender';
+import type { TestDelivery, TestEmail } from '../test-sender';
+import { CustomizationError } from '../errors';
 
 const waitForEmit = () => new Promise(resolve => setTimeout(resolve, 10));
 
@@ -312,6 +316,295 @@ describe('Builder', () => {
     });
   });
 
+  describe('autoSave', () => {
+    const createTemplateOptions = {
+      name: 'Auto-saved',
+      settings: {
+        target: 'email' as const,
+        canvasDimensions: { width: 600 },
+        breakpoints: { mobile: 480, tablet: 768, desktop: 1024 },
+        responsive: true,
+        locale: 'en-US',
+      },
+    };
+
+    it('should not create an auto-save manager by default', () => {
+      const builder = new Builder(config);
+      expect(builder.getAutoSaveManager()).toBeNull();
+    });
+
+    it('should mark the template dirty when commands execute', async () => {
+      const builder = new Builder({ ...config, features: { autoSave: true } });
+      await builder.initialize();
+      const listener = vi.fn();
+      builder.on(BuilderEvent.SAVE_STATE_CHANGED, listener);
+
+      await builder.executeCommand(new MockCommand());
+      await waitForEmit();
+      await waitForEmit();
+
+      expect(builder.getAutoSaveManager()?.isDirty()).toBe(true);
+      expect(listener).toHaveBeenCalledWith({ state: 'dirty' });
+
+      await builder.destroy();
+    });
+
+    it('should save a pending change when destroyed', async () => {
+      const onSaveTemplate = vi.fn();
+      const builder = new Builder({
+        ...config,
+        features: { autoSave: true },
+        callbacks: { onSaveTemplate },
+      });
+      await builder.initialize();
+      const template = await builder.createTemplate(createTemplateOptions);
+
+      await builder.executeCommand(new MockCommand());
+      await waitForEmit();
+      expect(builder.getAutoSaveManager()?.isDirty()).toBe(true);
+
+      builder.destroy();
+      await waitForEmit();
+
+      expect(builder.isInitialized()).toBe(false);
+      expect(onSaveTemplate).toHaveBeenCalledWith(
+        expect.objectContaining({ metadata: expect.objectContaining({ id: template.metadata.id }) })
+      );
+    });
+
+    it('should flush unsaved changes on dispose', async () => {
+      const onSaveTemplate = vi.fn();
+      const builder = new Builder({
+        ...config,
+        features: { autoSave: true },
+        callbacks: { onSaveTemplate },
+      });
+      await builder.initialize();
+      const template = await builder.createTemplate(createTemplateOptions);
+
+      await builder.executeCommand(new MockCommand());
+      await waitForEmit();
+      await builder.dispose();
+
+      expect(builder.isInitialized()).toBe(false);
+      expect(onSaveTemplate).toHaveBeenCalledWith(
+        expect.objectContaining({ metadata: expect.objectContaining({ id: template.metadata.id }) })
+      );
+    });
+
+    it('should record auto-saves as tagged revisions', async () => {
+      const builder = new Builder({
+        ...config,
+        storage: { method: 'local', keyPrefix: 'auto-save-versioning-test' },
+        features: { autoSave: true, templateVersioning: true },
+      });
+      await builder.initialize();
+      const template = await builder.createTemplate(createTemplateOptions);
+
+      await builder.executeCommand(new MockCommand());
+      await waitForEmit();
+      await builder.getAutoSaveManager()?.flush();
+
+      const revisions = await builder.getTemplateManager().listRevisions(template.metadata.id);
+      expect(revisions).toHaveLength(2);
+      expect(revisions[0]?.autoSave).toBe(true);
+      expect(revisions[1]?.autoSave).toBeUndefined();
+
+      await builder.deleteTemplate(template.metadata.id);
+      await builder.destroy();
+    });
+
+    it('should mark changes saved after a manual save', async () => {
+      const builder = new Builder({ ...config, features: { autoSave: true } });
+      await builder.initialize();
+      const template = await builder.createTemplate(createTemplateOptions);
+
+      await builder.executeCommand(new MockCommand());
+      await waitForEmit();
+      await builder.saveTemplate(template);
+
+      expect(builder.getAutoSaveManager()?.isDirty()).toBe(false);
+      expect(builder.getAutoSaveManager()?.getStatus().state).toBe('saved');
+
+      await builder.destroy();
+    });
+  });
+
+  describe('templateVersioning', () => {
+    const createTemplateOptions = {
+      name: 'Versioned',
+      settings: {
+        target: 'email' as const,
+        canvasDimensions: { width: 600 },
+        breakpoints: { mobile: 480, tablet: 768, desktop: 1024 },
+        responsive: true,
+        locale: 'en-US',
+      },
+    };
+
+    it('should not record revisions by default', async () => {
+      const builder = new Builder(config);
+      await builder.initialize();
+      const template = await builder.createTemplate(createTemplateOptions);
+
+      expect(builder.getTemplateManager().hasRevisions()).toBe(false);
+      await expect(
+        builder.getTemplateManager().listRevisions(template.metadata.id)
+      ).rejects.toThrow('Template versioning is not enabled');
+    });
+
+    it('should record, compare and restore revisions', async () => {
+      const builder = new Builder({
+        ...config,
+        storage: { method: 'local', keyPrefix: 'versioning-test' },
+        features: { templateVersioning: true },
+      });
+      await builder.initialize();
+      const manager = builder.getTemplateManager();
+      const template = await builder.createTemplate(createTemplateOptions);
+      const id = template.metadata.id;
+
+      await builder.saveTemplate(
+        { ...template, metadata: { ...template.metadata, name: 'Renamed' } },
+        { author: 'jane', message: 'Rename' }
+      );
+
+      const revisions = await manager.listRevisions(id);
+      expect(revisions.map((summary) => summary.revision)).toEqual([2, 1]);
+      expect(revisions[0]).toMatchObject({ author: 'jane', message: 'Rename' });
+
+      const diff = await manager.diffRevisions(id, 1, 2);
+      expect(diff.changes).toContainEqual({
+        path: 'metadata.name',
+        type: 'changed',
+        before: 'Versioned',
+        after: 'Renamed',
+      });
+
+      const restored = await manager.restoreRevision(id, 1);
+      expect(restored.metadata.name).toBe('Versioned');
+      expect((await manager.load(id)).metadata.name).toBe('Versioned');
+      expect((await manager.listRevisions(id))[0]).toMatchObject({
+        revision: 3,
+        message: 'Restored revision 1',
+      });
+
+      await builder.deleteTemplate(id);
+      await builder.destroy();
+    });
+  });
+
+  describe('getCustomizationManager()', () => {
+    it('should persist customizations with the configured storage', async () => {
+      config.storage.keyPrefix = 'customization-test';
+      const builder = new Builder(config);
+      await builder.initialize();
+      const recipe = builder.getCustomizationManager().recipes.create({
+        name: 'Brand card',
+        category: 'surface',
+        styles: { backgroundColor: '#fef3c7' },
+      });
+      await waitForEmit();
+
+      const reloaded = new Builder(config);
+      await reloaded.initialize();
+
+      expect(reloaded.getCustomizationManager().recipes.get(recipe.id)?.name).toBe('Brand card');
+      expect(reloaded.getCustomizationManager().themes.get('modern')).toBeDefined();
+
+      await builder.destroy();
+      await reloaded.destroy();
+    });
+  });
+
+  describe('createTemplateFromBlueprint()', () => {
+    it('should create and store a template from a built-in blueprint', async () => {
+      const builder = new Builder(config);
+      await builder.initialize();
+
+      const template = await builder.createTemplateFromBlueprint({
+        blueprintId: 'seasonal-sale',
+        name: 'Summer sale',
+        slotContent: {
+          headline: { content: { html: '<h1>Summer sale</h1>' } },
+          body: { content: { html: '<p>Everything at half price.</p>' } },
+          cta: { content: { text: 'Shop now' } },
+        },
+      });
+
+      expect(template.metadata.name).toBe('Summer sale');
+      expect(template.components.map((component) => component.type)).toContain('cta');
+      expect((await builder.loadTemplate(template.metadata.id)).components).toHaveLength(template.components.length);
+
+      await builder.destroy();
+    });
+
+    it('should throw a CustomizationError when a required slot is empty', async () => {
+      const builder = new Builder(config);
+      await builder.initialize();
+
+      await expect(
+        builder.createTemplateFromBlueprint({ blueprintId: 'receipt', name: 'Receipt', slotContent: {} })
+      ).rejects.toThrow(CustomizationError);
+
+      await builder.destroy();
+    });
+  });
+
+  describe('sendTestEmail()', () => {
+    class RecordingSender extends TestSender {
+      public emails: TestEmail[] = [];
+
+      protected async deliver(email: TestEmail): Promise<TestDelivery> {
+        this.emails.push(email);
+        return { accepted: email.recipients, rejected: [] };
+      }
+    }
+
+    it('should send the current template with the sample data of the active data source', async () => {
+      const builder = new Builder(config);
+      await builder.initialize();
+      await builder.createTemplate({
+        name: 'Welcome {{firstName}}',
+        settings: {
+          target: 'email',
+          canvasDimensions: { width: 600 },
+          breakpoints: { mobile: 480, tablet: 768, desktop: 1024 },
+          responsive: true,
+          locale: 'en-US',
+        },
+      });
+      builder.getDataSourceManager().addDataSource({
+        id: 'customers',
+        name: 'Customers',
+        type: DataSourceType.JSON,
+        config: { data: {} },
+        sampleData: { firstName: 'Ada' },
+      });
+      const sender = new RecordingSender();
+
+      const record = await builder.sendTestEmail(sender, {
+        recipients: ['qa@example.com'],
+        from: 'builder@example.com',
+      });
+
+      expect(sender.emails[0]?.subject).toBe('Welcome Ada');
+      expect(record.status).toBe('sent');
+      expect(sender.getHistory()).toHaveLength(1);
+
+      await builder.destroy();
+    });
+
+    it('should throw without a current template', async () => {
+      const builder = new Builder(config);
+      await builder.initialize();
+
+      await expect(
+        builder.sendTestEmail(new RecordingSender(), { recipients: ['qa@example.com'] })
+      ).rejects.toThrow('No template loaded');
+    });
+  });
+
   describe('destroy()', () => {
     it('should cleanup resources', async () => {
       const builder = new Builder(config);
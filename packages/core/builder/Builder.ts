@@ -24,6 +24,7 @@ import type {
   EventSubscription,
   Command,
   CommandResult,
+  UndoableCommand,
   StorageConfig,
   FeatureFlags,
   BuilderCallbacks,
@@ -32,24 +33,38 @@ import type {
 import type {
   Template,
   TemplateListItem,
+  RevisionInfo,
 } from '../types/template.types';
+import type { BlueprintInstantiationOptions } from '../types/blueprint.types';
 import { EventEmitter } from '../services/EventEmitter';
 import { CommandManager } from '../commands/CommandManager';
 import { BuilderEvent } from '../types';
 import { LocalStorageAdapter } from '../services/LocalStorageAdapter';
+import { ApiStorageAdapter } from '../services/ApiStorageAdapter';
 import { TemplateStorage } from '../template/TemplateStorage';
+import { TemplateRevisionStore } from '../template/TemplateRevisionStore';
 import { TemplateManager, type CreateTemplateOptions } from '../template/TemplateManager';
+import { AutoSaveManager } from '../template/AutoSaveManager';
+import { GlobalBlockManager } from '../template/GlobalBlockManager';
 import { ComponentRegistry } from '../components/ComponentRegistry';
 import { createDefaultRegistry } from '../components/definitions/registry-init';
 import { PresetStorage } from '../preset/PresetStorage';
 import { PresetManager } from '../preset/PresetManager';
-import { CompatibilityService, CompatibilityChecker } from '../compatibility';
-import type { CompatibilityReport } from '../compatibility';
+import { CustomizationManager } from '../customization/CustomizationManager';
+import { CustomizationError } from '../errors';
+import {
+  CompatibilityService,
+  CompatibilityChecker,
+  createDefaultFixerRegistry,
+} from '../compatibility';
+import type { CompatibilityFixerRegistry, CompatibilityReport } from '../compatibility';
 import { TestMode } from '../config/TestModeManager';
 import { initializeTestAPI } from '../config/TestAPI';
 import { BreakpointManager } from '../responsive';
 import { DataSourceManager, DataProcessingService } from '../data-injection';
 import { TranslationManager } from '../i18n/TranslationManager';
+import type { TestSender } from '../test-sender/TestSender';
+import type { TestSendRecord, TestTemplateSendOptions } from '../test-sender/test-sender.types';
 import {
   ModeManager,
   PropertyOverrideManager,
@@ -71,8 +86,12 @@ export class Builder {
   private commandManager: CommandManager;
   private componentRegistry: ComponentRegistry;
   private templateManager: TemplateManager;
+  private autoSaveManager: AutoSaveManager | null = null;
   private presetManager: PresetManager;
+  private customizationManager: CustomizationManager;
+  private globalBlockManager: GlobalBlockManager;
   private compatibilityService: CompatibilityService;
+  private compatibilityFixers: CompatibilityFixerRegistry;
   private compatibilityChecker: CompatibilityChecker;
   private breakpointManager: BreakpointManager;
   private dataSourceManager: DataSourceManager;
@@ -100,10 +119,30 @@ export class Builder {
     // Initialize template manager
     const templateStorage = new TemplateStorage(
       this.storageAdapter,
-      this.config.storage.keyPrefix
+      this.config.storage.keyPrefix,
+      this.config.features.templateVersioning
+        ? new TemplateRevisionStore(
+            this.storageAdapter,
+            this.config.storage.keyPrefix,
+            this.config.storage.revisionRetention
+          )
+        : null
     );
     this.templateManager = new TemplateManager(templateStorage, this.componentRegistry);
 
+    // Initialize global block manager, sharing the template storage
+    this.globalBlockManager = new GlobalBlockManager(templateStorage);
+
+    // Initialize auto-save if enabled
+    if (this.config.features.autoSave) {
+      this.autoSaveManager = new AutoSaveManager({
+        eventEmitter: this.eventEmitter,
+        getTemplate: () => this.templateManager.getCurrentTemplate(),
+        save: (template) => this.persistTemplate(template, { autoSave: true }),
+        onError: (error) => this.handleError(error),
+      });
+    }
+
     // Initialize preset manager
     const presetStorage = new PresetStorage(
       this.storageAdapter,
@@ -111,11 +150,18 @@ export class Builder {
     );
     this.presetManager = new PresetManager(presetStorage, this.componentRegistry);
 
+    // Initialize customization manager (themes, variants, recipes, profiles, blueprints)
+    this.customizationManager = new CustomizationManager({
+      storage: this.storageAdapter,
+      keyPrefix: this.config.storage.keyPrefix,
+    });
+
     // Initialize compatibility service
     this.compatibilityService = new CompatibilityService();
 
-    // Initialize compatibility checker
-    this.compatibilityChecker = new CompatibilityChecker(this.compatibilityService);
+    // Initialize compatibility checker with the auto-fixers
+    this.compatibilityFixers = createDefaultFixerRegistry();
+    this.compatibilityChecker = new CompatibilityChecker(this.compatibilityService, this.compatibilityFixers);
 
     // Initialize breakpoint manager
     this.breakpointManager = new BreakpointManager();
@@ -155,6 +201,12 @@ export class Builder {
       // Load presets from storage into registry
       await this.presetManager.loadAllFromStorage();
 
+      // Load global blocks so templates can resolve their references
+      await this.globalBlockManager.loadAllFromStorage();
+
+      // Load the themes, variants, recipes, profiles and blueprints created in the editor
+      await this.customizationManager.loadFromStorage();
+
       // Initialize mobile development mode
       // Create separate command manager for mobile mode (separate undo/redo history)
       this.mobileCommandManager = new CommandManager(this.eventEmitter);
@@ -199,6 +251,45 @@ export class Builder {
     return this.commandManager.execute<TPayload, TResult>(command);
   }
 
+  /**
+   * Executes commands as a single undo step
+   *
+   * @param commands - Commands to execute, in order; applied steps are undone when one fails
+   * @param label - Label of the step, passed with the history events
+   */
+  public async executeBatch<TResult = unknown>(
+    commands: UndoableCommand[],
+    label: string
+  ): Promise<CommandResult<TResult>> {
+    this.ensureInitialized();
+    return this.commandManager.executeBatch<TResult>(commands, label);
+  }
+
+  /**
+   * Groups the commands executed next into a single undo step, until
+   * `commitTransaction()` or `rollbackTransaction()`
+   *
+   * @param label - Label of the step, passed with the history events
+   */
+  public beginTransaction(label: string): void {
+    this.ensureInitialized();
+    this.commandManager.beginTransaction(label);
+  }
+
+  /**
+   * Records the commands of the transaction as a single undo step
+   */
+  public async commitTransaction<TResult = unknown>(): Promise<CommandResult<TResult>> {
+    return this.commandManager.commit<TResult>();
+  }
+
+  /**
+   * Undoes the commands of the transaction
+   */
+  public async rollbackTransaction(): Promise<void> {
+    return this.commandManager.rollback();
+  }
+
   /**
    * Undoes the last command
    */
@@ -278,6 +369,15 @@ export class Builder {
     return this.templateManager;
   }
 
+  /**
+   * Gets the auto-save manager
+   *
+   * @returns AutoSaveManager or null when the autoSave feature is disabled
+   */
+  public getAutoSaveManager(): AutoSaveManager | null {
+    return this.autoSaveManager;
+  }
+
   /**
    * Gets the preset manager
    */
@@ -285,6 +385,28 @@ export class Builder {
     return this.presetManager;
   }
 
+  /**
+   * Gets the customization manager
+   *
+   * Themes, variants, recipes, profiles and blueprints, with the defaults
+   * built in; the ones created or imported are persisted with the configured
+   * storage adapter. Apply variants and recipes to components with
+   * {@link TemplateApplyVariantCommand} and {@link TemplateApplyRecipeCommand}.
+   */
+  public getCustomizationManager(): CustomizationManager {
+    return this.customizationManager;
+  }
+
+  /**
+   * Gets the global block manager
+   *
+   * Global blocks are groups of components shared by reference across
+   * templates; use {@link GlobalBlockManager.getResolver} to render them.
+   */
+  public getGlobalBlockManager(): GlobalBlockManager {
+    return this.globalBlockManager;
+  }
+
   /**
    * Gets the compatibility service
    *
@@ -302,6 +424,31 @@ export class Builder {
     return this.compatibilityService;
   }
 
+  /**
+   * Gets the compatibility fixer registry
+   *
+   * Fixers decide which compatibility issues are auto-fixable and apply the
+   * fixes through {@link FixCompatibilityIssuesCommand}.
+   *
+   * @example
+   * ```ts
+   * const report = builder.checkCompatibility();
+   * const fixable = report.issues.warnings.filter(issue => issue.autoFixAvailable);
+   *
+   * await builder.executeCommand(
+   *   new FixCompatibilityIssuesCommand(
+   *     { issues: fixable },
+   *     () => template,
+   *     (updated) => { template = updated; },
+   *     builder.getCompatibilityFixers()
+   *   )
+   * );
+   * ```
+   */
+  public getCompatibilityFixers(): CompatibilityFixerRegistry {
+    return this.compatibilityFixers;
+  }
+
   /**
    * Gets the breakpoint manager
    *
@@ -473,6 +620,7 @@ export class Builder {
    * Validates the current template for CSS properties, HTML structure,
    * and content that may not be compatible with email clients.
    *
+   * @param template - Template to check (defaults to the builder's current template)
    * @returns Detailed compatibility report with issues grouped by severity
    *
    * @example
@@ -487,11 +635,11 @@ export class Builder {
    * }
    * ```
    */
-  public checkCompatibility(): CompatibilityReport {
+  public checkCompatibility(
+    template: Template | undefined = this.state['template'] as Template | undefined
+  ): CompatibilityReport {
     this.ensureInitialized();
 
-    // Get current template
-    const template = this.state['template'] as Template | undefined;
     if (!template || !template.components) {
       // Return empty report if no template
       return {
@@ -517,7 +665,38 @@ export class Builder {
    */
   public async createTemplate(options: CreateTemplateOptions): Promise<Template> {
     this.ensureInitialized();
-    return this.templateManager.create(options);
+    const template = await this.templateManager.create(options);
+    this.autoSaveManager?.reset();
+    return template;
+  }
+
+  /**
+   * Creates a new template from a blueprint of the customization manager
+   *
+   * @param options - Blueprint, template name and slot content
+   * @throws {CustomizationError} If the blueprint is unknown or its slot
+   * content is invalid, e.g. a required slot is empty
+   */
+  public async createTemplateFromBlueprint(options: BlueprintInstantiationOptions): Promise<Template> {
+    this.ensureInitialized();
+    const result = this.customizationManager.blueprints.instantiate(options);
+    if (!result.success || !result.template) {
+      const errors = result.errors ?? [];
+      throw new CustomizationError(
+        `Cannot create a template from blueprint "${options.blueprintId}": ${errors.map((error) => error.message).join(', ')}`,
+        { blueprintId: options.blueprintId, errors }
+      );
+    }
+
+    const { metadata, settings, generalStyles, components } = result.template;
+    return this.createTemplate({
+      name: metadata.name,
+      ...(metadata.description !== undefined && { description: metadata.description }),
+      ...(metadata.category !== undefined && { category: metadata.category }),
+      settings,
+      generalStyles,
+      components,
+    });
   }
 
   /**
@@ -525,33 +704,21 @@ export class Builder {
    */
   public async loadTemplate(templateId: string): Promise<Template> {
     this.ensureInitialized();
-    return this.templateManager.load(templateId);
+    const template = await this.templateManager.load(templateId);
+    this.autoSaveManager?.reset();
+    return template;
   }
 
   /**
    * Saves the current template
+   *
+   * @param template - Template to save
+   * @param revision - Author and message recorded when template versioning is enabled
    */
-  public async saveTemplate(template: Template): Promise<void> {
+  public async saveTemplate(template: Template, revision?: RevisionInfo): Promise<void> {
     this.ensureInitialized();
-    await this.templateManager.update(template.metadata.id, {
-      metadata: {
-        name: template.metadata.name,
-        ...(template.metadata.description !== undefined && { description: template.metadata.description }),
-        ...(template.metadata.author !== undefined && { author: template.metadata.author }),
-        ...(template.metadata.category !== undefined && { category: template.metadata.category }),
-        ...(template.metadata.tags !== undefined && { tags: template.metadata.tags }),
-        ...(template.metadata.thumbnail !== undefined && { thumbnail: template.metadata.thumbnail }),
-        version: template.metadata.version,
-        updatedAt: Date.now(),
-      },
-      settings: template.settings,
-      generalStyles: template.generalStyles,
-      components: template.components,
-    });
-
-    if (this.config.callbacks?.onSaveTemplate) {
-      this.config.callbacks.onSaveTemplate(template);
-    }
+    await this.persistTemplate(template, revision);
+    this.autoSaveManager?.markSaved();
   }
 
   /**
@@ -577,11 +744,77 @@ export class Builder {
     return this.templateManager.getCurrentTemplate();
   }
 
+  /**
+   * Sends the current template as a test email
+   *
+   * Variables are filled with the sample data of the active data source, and
+   * global blocks are resolved from the global block manager; `options` can
+   * override both.
+   *
+   * @param sender - Test sender, e.g. an {@link SMTPTestSender}
+   * @param options - Recipients and header overrides
+   * @returns Send record, also kept in the sender history
+   * @throws Error if no template is loaded
+   * @throws {TestSendError} If the send fails
+   *
+   * @example
+   * ```ts
+   * const sender = new SMTPTestSender({ host: 'localhost', port: 1025, startTLS: false });
+   * await builder.sendTestEmail(sender, { recipients: ['qa@example.com'] });
+   * ```
+   */
+  public async sendTestEmail(sender: TestSender, options: TestTemplateSendOptions): Promise<TestSendRecord> {
+    this.ensureInitialized();
+
+    const template = this.getCurrentTemplate();
+    if (!template) {
+      throw new Error('No template loaded. Load or create a template first.');
+    }
+
+    return sender.sendTemplate(template, {
+      data: this.dataSourceManager.getSampleData(),
+      dataProcessing: this.dataProcessingService,
+      resolveGlobalBlock: this.globalBlockManager.getResolver(),
+      ...options,
+    });
+  }
+
   /**
    * Destroys the builder and cleans up resources
+   *
+   * With auto-save enabled, unsaved changes are still saved; a failed save
+   * is reported through the `onError` callback.
    */
   public destroy(): void {
+    void this.teardown();
+  }
+
+  /**
+   * Destroys the builder, like {@link destroy}, and waits for unsaved
+   * changes to be saved
+   *
+   * @returns Promise resolving once pending auto-saves have settled
+   */
+  public dispose(): Promise<void> {
+    return this.teardown();
+  }
+
+  /**
+   * Starts saving unsaved changes, then cleans up resources
+   *
+   * The save runs with the template already read, so it completes after the
+   * listeners are removed.
+   *
+   * @returns Promise of the save, which never rejects
+   */
+  private teardown(): Promise<void> {
+    const pendingSave = (this.autoSaveManager?.flush() ?? Promise.resolve()).catch((error: unknown) => {
+      this.handleError(error instanceof Error ? error : new Error(String(error)));
+    });
+    this.autoSaveManager?.destroy();
+
     this.eventEmitter.off();
+    this.customizationManager.off();
     this.commandManager.clearHistory();
     this.initialized = false;
     this.state = {};
@@ -589,6 +822,8 @@ export class Builder {
     if (this.config.debug) {
       console.log('[Builder] Destroyed');
     }
+
+    return pendingSave;
   }
 
   /**
@@ -603,6 +838,31 @@ export class Builder {
     }
   }
 
+  /**
+   * Writes a template through the template manager and notifies onSaveTemplate
+   */
+  private async persistTemplate(template: Template, revision?: RevisionInfo): Promise<void> {
+    await this.templateManager.update(template.metadata.id, {
+      metadata: {
+        name: template.metadata.name,
+        ...(template.metadata.description !== undefined && { description: template.metadata.description }),
+        ...(template.metadata.author !== undefined && { author: template.metadata.author }),
+        ...(template.metadata.category !== undefined && { category: template.metadata.category }),
+        ...(template.metadata.tags !== undefined && { tags: template.metadata.tags }),
+        ...(template.metadata.thumbnail !== undefined && { thumbnail: template.metadata.thumbnail }),
+        version: template.metadata.version,
+        updatedAt: Date.now(),
+      },
+      settings: template.settings,
+      generalStyles: template.generalStyles,
+      components: template.components,
+    }, revision);
+
+    if (this.config.callbacks?.onSaveTemplate) {
+      this.config.callbacks.onSaveTemplate(template);
+    }
+  }
+
   /**
    * Handles errors
    */
@@ -631,7 +891,7 @@ export class Builder {
    * Creates storage adapter based on configuration
    */
   private createStorageAdapter(): StorageAdapter {
-    const { method, adapter } = this.config.storage;
+    const { method, adapter, apiEndpoint, api } = this.config.storage;
 
     if (method === 'custom') {
       if (!adapter) {
@@ -645,10 +905,14 @@ export class Builder {
     }
 
     if (method === 'api') {
-      // API adapter would be implemented here
-      // For now, fall back to localStorage
-      console.warn('API storage not implemented, falling back to localStorage');
-      return new LocalStorageAdapter();
+      if (!apiEndpoint) {
+        throw new Error('API endpoint not provided');
+      }
+      return new ApiStorageAdapter({
+        ...api,
+        endpoint: apiEndpoint,
+        onError: (error) => this.handleError(error),
+      });
     }
 
     throw new Error(`Unsupported storage method: ${method}`);
@@ -672,6 +936,14 @@ export class Builder {
       normalizedStorage.apiEndpoint = config.storage.apiEndpoint;
     }
 
+    if (config.storage.api !== undefined) {
+      normalizedStorage.api = config.storage.api;
+    }
+
+    if (config.storage.revisionRetention !== undefined) {
+      normalizedStorage.revisionRetention = config.storage.revisionRetention;
+    }
+
     const normalized: NormalizedConfig = {
       target: config.target,
       locale: config.locale ?? 'en-US',
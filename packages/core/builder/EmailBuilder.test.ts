@@ -664,7 +664,7 @@ describe('EmailBuilder', () => {
         expect(html).toBeDefined();
         expect(typeof html).toBe('string');
         expect(html).toContain('<!DOCTYPE html>');
-        expect(html).toContain('<html>');
+        expect(html).toContain('<html');
         expect(html).toContain('</html>');
       });
 
@@ -685,6 +685,74 @@ describe('EmailBuilder', () => {
         expect(html).toContain('Paragraph');
         expect(html).toContain('Click Me');
       });
+
+      it('should render hero buttons and footer social links', async () => {
+        await builder.addHero({
+          heading: 'Big news',
+          buttonText: 'Read more',
+          buttonUrl: 'https://example.com/news',
+          secondaryButtonText: 'Later',
+          secondaryButtonUrl: 'https://example.com/later',
+        });
+        await builder.addFooter({
+          companyName: 'Acme Inc.',
+          socialLinks: { twitter: 'https://twitter.com/acme' },
+        });
+
+        const html = await builder.toHTML();
+
+        expect(html).toContain('href="https://example.com/news"');
+        expect(html).toContain('Later');
+        expect(html).toContain('href="https://twitter.com/acme"');
+        expect(html).not.toContain('hero component');
+      });
+
+      it('should use the same renderers as the template exporter', async () => {
+        await builder.addImage({ src: 'https://example.com/photo.jpg', alt: 'Photo' });
+
+        const html = await builder.toHTML();
+
+        expect(html).toContain('src="https://example.com/photo.jpg"');
+        expect(html).toContain('data-component-id=');
+      });
+    });
+
+    describe('toText', () => {
+      it('should export the plain-text alternative', async () => {
+        await builder.addHero({
+          heading: 'Big news',
+          buttonText: 'Read more',
+          buttonUrl: 'https://example.com/news',
+        });
+        await builder.addFooter({
+          companyName: 'Acme Inc.',
+          socialLinks: { twitter: 'https://twitter.com/acme' },
+        });
+
+        const text = await builder.toText();
+
+        expect(text).toContain('Big news\n========');
+        expect(text).toContain('Read more: https://example.com/news');
+        expect(text).toMatch(/Twitter \[1\]/);
+        expect(text).toContain('[1] https://twitter.com/acme');
+      });
+    });
+
+    describe('registerRenderer', () => {
+      it('should override a built-in renderer', async () => {
+        builder.registerRenderer('text', (component) => {
+          return `<p class="custom-text">${component.content['plainText'] ?? ''}</p>`;
+        });
+        await builder.addText({ content: '<p>Hello</p>' });
+
+        const html = await builder.toHTML();
+
+        expect(html).toContain('custom-text');
+      });
+
+      it('should be chainable', () => {
+        expect(builder.registerRenderer('countdown', () => '')).toBe(builder);
+      });
     });
 
     describe('getTemplate', () => {
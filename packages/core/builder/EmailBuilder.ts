@@ -28,11 +28,13 @@
  */
 
 import { Builder } from './Builder';
-import type { BuilderConfig, Template, BaseComponent } from '../types';
 import type {
-  ButtonComponent,
-  TextComponent,
-  ImageComponent,
+  BuilderConfig,
+  Template,
+  BaseComponent,
+  ButtonContent,
+  ComponentType,
+  ListItem,
 } from '../types';
 import {
   createHeader,
@@ -48,6 +50,11 @@ import {
 } from '../components/factories';
 import { EmailExportService } from '../services/EmailExportService';
 import type { EmailExportOptions } from '../services/email-export.types';
+import { TemplateExporter } from '../template/TemplateExporter';
+import { createDefaultRendererRegistry } from '../renderer/default-renderers';
+import type { ComponentRendererRegistry } from '../renderer/ComponentRendererRegistry';
+import type { ComponentRenderer } from '../renderer/renderer.types';
+import type { PlainTextOptions } from '../renderer/plain-text';
 
 /**
  * Configuration options for EmailBuilder
@@ -446,6 +453,7 @@ export interface AddSeparatorOptions {
  */
 export class EmailBuilder {
   private builder: Builder;
+  private renderers: ComponentRendererRegistry = createDefaultRendererRegistry();
   private template: Template | null = null;
   private initialized: boolean = false;
   private templateName: string = 'Untitled Template';
@@ -789,7 +797,7 @@ export class EmailBuilder {
     }
 
     if (options.buttonText && options.buttonUrl) {
-      hero.content['buttons'] = [
+      const buttons: ButtonContent[] = [
         {
           id: 'hero-button-1',
           text: options.buttonText,
@@ -800,7 +808,7 @@ export class EmailBuilder {
       ];
 
       if (options.secondaryButtonText && options.secondaryButtonUrl) {
-        (hero.content['buttons'] as any[]).push({
+        buttons.push({
           id: 'hero-button-2',
           text: options.secondaryButtonText,
           link: { href: options.secondaryButtonUrl, target: '_blank' },
@@ -808,6 +816,13 @@ export class EmailBuilder {
           order: 1,
         });
       }
+
+      // The hero type holds a single button; extra buttons live under `buttons`
+      hero.content.button = buttons[0]!;
+      hero.content.showButton = true;
+      hero.content['buttons'] = buttons;
+    } else {
+      hero.content.showButton = false;
     }
 
     if (options.backgroundColor) {
@@ -843,26 +858,36 @@ export class EmailBuilder {
       };
     }
 
-    cta.content['buttons'] = [
-      {
-        id: 'cta-button-1',
-        text: options.buttonText,
-        link: { href: options.buttonUrl, target: '_blank' },
-        variant: 'filled',
-        order: 0,
-      },
-    ];
+    cta.content.showDescription = !!options.description;
+
+    const primaryButton: ButtonContent = {
+      id: 'cta-button-1',
+      text: options.buttonText,
+      link: { href: options.buttonUrl, target: '_blank' },
+      variant: 'filled',
+      order: 0,
+    };
+    const buttons: ButtonContent[] = [primaryButton];
+
+    cta.content.primaryButton = primaryButton;
+    cta.content.showSecondaryButton = false;
+    delete cta.content.secondaryButton;
 
     if (options.secondaryButtonText && options.secondaryButtonUrl) {
-      (cta.content['buttons'] as any[]).push({
+      const secondaryButton: ButtonContent = {
         id: 'cta-button-2',
         text: options.secondaryButtonText,
         link: { href: options.secondaryButtonUrl, target: '_blank' },
         variant: 'outlined',
         order: 1,
-      });
+      };
+      buttons.push(secondaryButton);
+      cta.content.secondaryButton = secondaryButton;
+      cta.content.showSecondaryButton = true;
     }
 
+    cta.content['buttons'] = buttons;
+
     if (options.backgroundColor) {
       cta.styles.backgroundColor = options.backgroundColor;
     }
@@ -916,6 +941,15 @@ export class EmailBuilder {
     const image = createImage();
 
     // Apply options
+    image.content.src = options.src;
+    // Without alt text the factory placeholder alt is kept, as validation requires one
+    if (options.alt) {
+      image.content.alt = options.alt;
+    }
+    if (options.title || options.alt) {
+      image.content.title = options.title || options.alt || '';
+    }
+    // Nested copy kept for consumers of the original headless format
     image.content['image'] = {
       src: options.src,
       alt: options.alt || '',
@@ -990,7 +1024,7 @@ export class EmailBuilder {
 
     // Apply options
     list.content.items = options.items.map((item, index) => {
-      const listItem: any = {
+      const listItem: ListItem = {
         id: `list-item-${index}`,
         title: {
           html: item.title,
@@ -1036,6 +1070,7 @@ export class EmailBuilder {
     const spacer = createSpacer();
 
     if (options.height) {
+      spacer.content.height = { value: options.height, unit: 'px' };
       spacer.styles.height = { value: options.height, unit: 'px' };
     }
 
@@ -1052,10 +1087,12 @@ export class EmailBuilder {
     const separator = createSeparator();
 
     if (options.color) {
+      separator.content.color = options.color;
       separator.styles.backgroundColor = options.color;
     }
 
     if (options.height) {
+      separator.content.thickness = { value: options.height, unit: 'px' };
       separator.styles.height = { value: options.height, unit: 'px' };
     }
 
@@ -1096,152 +1133,65 @@ export class EmailBuilder {
     return this.template;
   }
 
+  /**
+   * Registers a renderer for a component type
+   *
+   * Use this to export custom component types, or to override a built-in renderer.
+   *
+   * @param type - Component type
+   * @param renderer - Renderer function
+   */
+  registerRenderer<TComponent extends BaseComponent>(
+    type: ComponentType | string,
+    renderer: ComponentRenderer<TComponent>
+  ): this {
+    this.renderers.register(type, renderer);
+    return this;
+  }
+
   /**
    * Exports the template to HTML
+   *
+   * Components are rendered by the same renderers `TemplateExporter` uses,
+   * then made email-safe by `EmailExportService`.
    */
-  async toHTML(_options: Partial<EmailExportOptions> = {}): Promise<string> {
+  async toHTML(options: Partial<EmailExportOptions> = {}): Promise<string> {
     this.ensureInitialized();
 
     if (!this.template) {
       throw new Error('No template to export');
     }
 
-    const exportService = new EmailExportService();
-
-    // TODO: We need to render the template to HTML first
-    // For now, we'll create a basic HTML structure
-    // In the future, we should use a proper renderer
+    const exporter = new TemplateExporter(this.renderers);
+    const componentsHTML = exporter.renderComponents(this.template, { inlineStyles: true });
 
-    const html = this.renderTemplateToHTML(this.template);
+    const canvasBackground = this.template.generalStyles.canvasBackgroundColor;
+    const body = canvasBackground
+      ? `<table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%" bgcolor="${canvasBackground}" style="background-color: ${canvasBackground};"><tr><td>\n${componentsHTML}</td></tr></table>`
+      : componentsHTML;
 
-    // Note: EmailExportService.export() doesn't currently accept options
-    // The service applies default export behavior
-    const result = exportService.export(html);
-
-    return result.html;
-  }
+    const exportService = new EmailExportService({
+      doctype: '<!DOCTYPE html>',
+      maxWidth: this.template.settings.canvasDimensions.width || 600,
+      ...options,
+    });
 
-  /**
-   * Basic HTML renderer for templates
-   * TODO: This should be replaced with a proper rendering engine
-   */
-  private renderTemplateToHTML(template: Template): string {
-    const components = template.components || [];
-    const componentsHTML = components.map((component) => this.renderComponentToHTML(component)).join('\n');
-
-    return `
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <meta charset="utf-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>${template.metadata.name}</title>
-        </head>
-        <body style="margin: 0; padding: 0; background-color: ${template.generalStyles.canvasBackgroundColor || '#f5f5f5'};">
-          <table role="presentation" cellpadding="0" cellspacing="0" width="100%" style="background-color: ${template.generalStyles.canvasBackgroundColor || '#f5f5f5'};">
-            <tr>
-              <td align="center">
-                <table role="presentation" cellpadding="0" cellspacing="0" width="${template.settings.canvasDimensions.width || 600}" style="max-width: ${template.settings.canvasDimensions.maxWidth || 600}px;">
-                  ${componentsHTML}
-                </table>
-              </td>
-            </tr>
-          </table>
-        </body>
-      </html>
-    `;
+    return exportService.export(body).html;
   }
 
   /**
-   * Basic component renderer
-   * TODO: This should be replaced with proper component renderers
-   */
-  private renderComponentToHTML(component: BaseComponent): string {
-    // This is a very basic renderer
-    // In production, each component type should have its own renderer
-
-    const bgColor = component.styles.backgroundColor || 'transparent';
-    const padding = component.styles.padding
-      ? `${component.styles.padding.top.value}${component.styles.padding.top.unit} ${component.styles.padding.right.value}${component.styles.padding.right.unit} ${component.styles.padding.bottom.value}${component.styles.padding.bottom.unit} ${component.styles.padding.left.value}${component.styles.padding.left.unit}`
-      : '0';
-
-    return `
-      <tr>
-        <td style="background-color: ${bgColor}; padding: ${padding};">
-          <!-- ${component.type} component -->
-          <div data-component-id="${component.id}" data-component-type="${component.type}">
-            ${this.renderComponentContent(component)}
-          </div>
-        </td>
-      </tr>
-    `;
-  }
+   * Exports the template as plain text, the text/plain alternative of `toHTML`
+   *
+   * @param options - Plain-text options (e.g. `wrapWidth`)
+   */
+  async toText(options: PlainTextOptions = {}): Promise<string> {
+    this.ensureInitialized();
 
-  /**
-   * Renders component content based on type
-   * TODO: This should be replaced with proper component content renderers
-   */
-  private renderComponentContent(component: BaseComponent): string {
-    switch (component.type) {
-      case 'text':
-        return (component as TextComponent).content.html || '';
-
-      case 'button':
-        const button = component as ButtonComponent;
-        return `<a href="${button.content.link?.href || '#'}" style="display: inline-block; padding: 12px 24px; background-color: ${component.styles.backgroundColor}; color: ${component.styles.color}; text-decoration: none; border-radius: 4px;">${button.content.text}</a>`;
-
-      case 'image':
-        const image = component as ImageComponent;
-        const imageData = image.content['image'] as any;
-        return `<img src="${imageData.src}" alt="${imageData.alt}" style="max-width: 100%; height: auto;" />`;
-
-      case 'separator':
-        return `<hr style="border: none; border-top: 1px solid ${component.styles.backgroundColor || '#ddd'}; margin: 20px 0;" />`;
-
-      case 'spacer':
-        const height = component.styles.height?.value || 20;
-        return `<div style="height: ${height}px;"></div>`;
-
-      case 'header':
-        const header = component as any;
-        return `<div style="text-align: center;">
-          ${header.content.image?.src ? `<img src="${header.content.image.src}" alt="${header.content.image.alt}" style="max-width: 200px;" />` : ''}
-        </div>`;
-
-      case 'footer':
-        const footer = component as any;
-        return `<div style="text-align: center; color: #666;">
-          ${footer.content.textSections?.map((section: any) => section.html).join('') || ''}
-        </div>`;
-
-      case 'hero':
-        const hero = component as any;
-        return `<div style="text-align: ${component.styles.textAlign || 'center'};">
-          ${hero.content.heading?.html ? `<h1>${hero.content.heading.html}</h1>` : ''}
-          ${hero.content.description?.html ? `<p>${hero.content.description.html}</p>` : ''}
-          ${hero.content.image?.src ? `<img src="${hero.content.image.src}" alt="${hero.content.image.alt}" style="max-width: 100%;" />` : ''}
-        </div>`;
-
-      case 'cta':
-        const cta = component as any;
-        return `<div style="text-align: ${component.styles.textAlign || 'center'};">
-          ${cta.content.heading?.html ? `<h2>${cta.content.heading.html}</h2>` : ''}
-          ${cta.content.description?.html ? `<p>${cta.content.description.html}</p>` : ''}
-        </div>`;
-
-      case 'list':
-        const list = component as any;
-        const items = list.content.items?.map((item: any) => `
-          <div style="margin: 10px 0;">
-            <strong>${item.title?.html || ''}</strong>
-            ${item.description?.html ? `<p>${item.description.html}</p>` : ''}
-          </div>
-        `).join('') || '';
-        return items;
-
-      default:
-        return `<!-- ${component.type} component -->`;
+    if (!this.template) {
+      throw new Error('No template to export');
     }
+
+    return new TemplateExporter(this.renderers).renderText(this.template, options);
   }
 
   /**
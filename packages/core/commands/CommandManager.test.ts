@@ -4,6 +4,7 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { CommandManager } from './CommandManager';
+import { CompositeCommand } from './CompositeCommand';
 import { EventEmitter } from '../services/EventEmitter';
 import { BuilderEvent, CommandType } from '../types';
 import type { UndoableCommand } from '../types';
@@ -21,6 +22,29 @@ class MockCommand implements UndoableCommand {
   canUndo = vi.fn(() => true);
 }
 
+/**
+ * Appends a value to a shared state, removed again on undo
+ */
+class StepCommand implements UndoableCommand {
+  type = CommandType.ADD_COMPONENT;
+  timestamp = Date.now();
+  id = 'step-command';
+  payload = {};
+
+  constructor(private state: string[], private value: string, private fails = false) {}
+
+  execute = vi.fn(() => {
+    if (this.fails) {
+      throw new Error(`Step failed: ${this.value}`);
+    }
+    this.state.push(this.value);
+  });
+  undo = vi.fn(() => {
+    this.state.splice(this.state.lastIndexOf(this.value), 1);
+  });
+  canUndo = vi.fn(() => true);
+}
+
 describe('CommandManager', () => {
   let eventEmitter: EventEmitter;
   let commandManager: CommandManager;
@@ -301,4 +325,152 @@ describe('CommandManager', () => {
       expect(history[1]?.command).toBe(command3);
     });
   });
+
+  describe('executeBatch()', () => {
+    it('should record the commands as one labelled history entry', async () => {
+      const state: string[] = [];
+
+      const result = await commandManager.executeBatch(
+        [new StepCommand(state, 'a'), new StepCommand(state, 'b')],
+        'Apply blueprint'
+      );
+
+      expect(result.success).toBe(true);
+      expect(state).toEqual(['a', 'b']);
+      expect(commandManager.getHistory()).toHaveLength(1);
+      expect(commandManager.getHistory()[0]?.label).toBe('Apply blueprint');
+      expect(commandManager.getHistory()[0]?.command).toBeInstanceOf(CompositeCommand);
+    });
+
+    it('should undo and redo the batch as one step, with its label', async () => {
+      const state: string[] = [];
+      const undoListener = vi.fn();
+      const redoListener = vi.fn();
+      eventEmitter.on(BuilderEvent.UNDO, undoListener);
+      eventEmitter.on(BuilderEvent.REDO, redoListener);
+      await commandManager.executeBatch([new StepCommand(state, 'a'), new StepCommand(state, 'b')], 'Auto-fix');
+
+      await commandManager.undo();
+      expect(state).toEqual([]);
+      expect(commandManager.canUndo()).toBe(false);
+
+      await commandManager.redo();
+      expect(state).toEqual(['a', 'b']);
+
+      await waitForEmit();
+      expect(undoListener).toHaveBeenCalledWith(expect.objectContaining({ label: 'Auto-fix' }));
+      expect(redoListener).toHaveBeenCalledWith(expect.objectContaining({ label: 'Auto-fix' }));
+    });
+
+    it('should undo the applied commands when one fails', async () => {
+      const state: string[] = [];
+      const errorListener = vi.fn();
+      eventEmitter.on(BuilderEvent.ERROR, errorListener);
+
+      const result = await commandManager.executeBatch(
+        [new StepCommand(state, 'a'), new StepCommand(state, 'b'), new StepCommand(state, 'c', true)],
+        'Apply blueprint'
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('Step failed: c');
+      expect(state).toEqual([]);
+      expect(commandManager.getHistory()).toHaveLength(0);
+
+      await waitForEmit();
+      expect(errorListener).toHaveBeenCalled();
+    });
+  });
+
+  describe('transactions', () => {
+    it('should apply commands as they are executed and record them on commit', async () => {
+      const state: string[] = [];
+      const listener = vi.fn();
+      eventEmitter.on(BuilderEvent.COMMAND_EXECUTED, listener);
+
+      commandManager.beginTransaction('Apply blueprint');
+      await commandManager.execute(new StepCommand(state, 'a'));
+      await commandManager.execute(new StepCommand(state, 'b'));
+
+      expect(state).toEqual(['a', 'b']);
+      expect(commandManager.isInTransaction()).toBe(true);
+      expect(commandManager.getHistory()).toHaveLength(0);
+
+      const result = await commandManager.commit();
+
+      expect(result.success).toBe(true);
+      expect(commandManager.isInTransaction()).toBe(false);
+      expect(commandManager.getHistory()).toHaveLength(1);
+
+      await waitForEmit();
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ label: 'Apply blueprint' }));
+
+      await commandManager.undo();
+      expect(state).toEqual([]);
+    });
+
+    it('should undo the commands on rollback', async () => {
+      const state: string[] = ['existing'];
+
+      commandManager.beginTransaction('Auto-fix');
+      await commandManager.execute(new StepCommand(state, 'a'));
+      await commandManager.execute(new StepCommand(state, 'b'));
+      await commandManager.rollback();
+
+      expect(state).toEqual(['existing']);
+      expect(commandManager.isInTransaction()).toBe(false);
+      expect(commandManager.getHistory()).toHaveLength(0);
+    });
+
+    it('should roll back when a command fails, and fail the commit', async () => {
+      const state: string[] = [];
+      const later = new StepCommand(state, 'c');
+
+      commandManager.beginTransaction('Auto-fix');
+      await commandManager.execute(new StepCommand(state, 'a'));
+      const failed = await commandManager.execute(new StepCommand(state, 'b', true));
+      const skipped = await commandManager.execute(later);
+
+      expect(failed.success).toBe(false);
+      expect(skipped.success).toBe(false);
+      expect(later.execute).not.toHaveBeenCalled();
+      expect(state).toEqual([]);
+
+      const result = await commandManager.commit();
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('Step failed: b');
+      expect(commandManager.getHistory()).toHaveLength(0);
+    });
+
+    it('should not record an empty transaction', async () => {
+      commandManager.beginTransaction('Nothing');
+
+      const result = await commandManager.commit();
+
+      expect(result.success).toBe(true);
+      expect(commandManager.getHistory()).toHaveLength(0);
+    });
+
+    it('should not undo or redo while a transaction is open', async () => {
+      const state: string[] = [];
+      await commandManager.execute(new StepCommand(state, 'a'));
+
+      commandManager.beginTransaction('Auto-fix');
+
+      expect(await commandManager.undo()).toBe(false);
+      expect(state).toEqual(['a']);
+    });
+
+    it('should throw when transactions are nested or none is open', async () => {
+      commandManager.beginTransaction('Outer');
+
+      expect(() => commandManager.beginTransaction('Inner')).toThrow('Transaction already in progress: Outer');
+
+      await commandManager.commit();
+      await expect(commandManager.commit()).rejects.toThrow('No transaction in progress');
+      await expect(commandManager.rollback()).rejects.toThrow('No transaction in progress');
+    });
+  });
 });
@@ -13,12 +13,27 @@ import type {
 } from '../types';
 import { EventEmitter } from '../services/EventEmitter';
 import { BuilderEvent } from '../types';
+import { CompositeCommand } from './CompositeCommand';
+import type { CompositeCommandPayload } from './CompositeCommand';
+
+/**
+ * Commands executed since `beginTransaction()`
+ */
+interface CommandTransaction {
+  label: string;
+  commands: UndoableCommand[];
+  /**
+   * Error of the command that failed, after which the transaction was rolled back
+   */
+  error?: Error;
+}
 
 export class CommandManager {
   private history: CommandHistoryEntry[] = [];
   private currentIndex: number = -1;
   private maxHistorySize: number;
   private eventEmitter: EventEmitter;
+  private transaction: CommandTransaction | null = null;
 
   constructor(eventEmitter: EventEmitter, maxHistorySize: number = COMMAND_DEFAULTS.MAX_HISTORY_SIZE) {
     this.eventEmitter = eventEmitter;
@@ -27,10 +42,22 @@ export class CommandManager {
 
   /**
    * Executes a command
+   *
+   * Inside a transaction, the command is applied but only recorded in history
+   * on `commit()`; when it fails, the transaction is rolled back.
    */
   public async execute<TPayload = unknown, TResult = unknown>(
     command: Command<TPayload>
   ): Promise<CommandResult<TResult>> {
+    const transaction = this.transaction;
+    if (transaction?.error) {
+      return {
+        success: false,
+        error: new Error(`Transaction "${transaction.label}" was rolled back`),
+        command,
+      };
+    }
+
     try {
       const result: CommandResult<TResult> = {
         success: true,
@@ -39,15 +66,27 @@ export class CommandManager {
 
       if (this.isUndoableCommand(command)) {
         await command.execute();
-        this.addToHistory({
-          command,
-          timestamp: Date.now(),
-        });
+
+        if (transaction) {
+          transaction.commands.push(command);
+        } else {
+          this.record(command);
+        }
       }
 
       return result;
     } catch (error) {
       this.eventEmitter.emit(BuilderEvent.ERROR, error);
+
+      if (transaction) {
+        transaction.error = error as Error;
+        try {
+          await this.undoTransaction(transaction);
+        } catch (rollbackError) {
+          this.eventEmitter.emit(BuilderEvent.ERROR, rollbackError);
+        }
+      }
+
       return {
         success: false,
         error: error as Error,
@@ -56,11 +95,86 @@ export class CommandManager {
     }
   }
 
+  /**
+   * Executes commands as a single history entry, undone and redone as one
+   * step; when a command fails, the commands already applied are undone
+   *
+   * @param commands - Commands to execute, in order
+   * @param label - Label of the group, passed with the history events
+   */
+  public async executeBatch<TResult = unknown>(
+    commands: UndoableCommand[],
+    label: string
+  ): Promise<CommandResult<TResult>> {
+    return this.execute<CompositeCommandPayload, TResult>(new CompositeCommand({ label, commands }));
+  }
+
+  /**
+   * Starts grouping the commands executed next into a single history entry
+   *
+   * Commands are applied as they are executed. Transactions don't nest:
+   * starting one while another is open throws.
+   *
+   * @param label - Label of the group, passed with the history events
+   */
+  public beginTransaction(label: string): void {
+    if (this.transaction) {
+      throw new Error(`Transaction already in progress: ${this.transaction.label}`);
+    }
+
+    this.transaction = { label, commands: [] };
+  }
+
+  /**
+   * Records the commands of the transaction as a single history entry
+   *
+   * Fails with the error of the failed command when the transaction was
+   * rolled back; a transaction without commands records nothing.
+   */
+  public async commit<TResult = unknown>(): Promise<CommandResult<TResult>> {
+    const transaction = this.endTransaction();
+    const command = new CompositeCommand({ label: transaction.label, commands: transaction.commands });
+
+    if (transaction.error) {
+      return {
+        success: false,
+        error: transaction.error,
+        command,
+      };
+    }
+
+    if (transaction.commands.length > 0) {
+      this.record(command);
+    }
+
+    return {
+      success: true,
+      command,
+    };
+  }
+
+  /**
+   * Undoes the commands of the transaction and discards them
+   */
+  public async rollback(): Promise<void> {
+    const transaction = this.endTransaction();
+    if (!transaction.error) {
+      await this.undoTransaction(transaction);
+    }
+  }
+
+  /**
+   * Checks if a transaction is open
+   */
+  public isInTransaction(): boolean {
+    return this.transaction !== null;
+  }
+
   /**
    * Undoes the last command
    */
   public async undo(): Promise<boolean> {
-    if (!this.canUndo()) {
+    if (!this.canUndo() || this.transaction) {
       return false;
     }
 
@@ -75,7 +189,7 @@ export class CommandManager {
       try {
         await command.undo();
         this.currentIndex--;
-        this.eventEmitter.emit(BuilderEvent.UNDO, { command });
+        this.eventEmitter.emit(BuilderEvent.UNDO, this.eventData(entry));
         return true;
       } catch (error) {
         this.eventEmitter.emit(BuilderEvent.ERROR, error);
@@ -90,7 +204,7 @@ export class CommandManager {
    * Redoes the next command
    */
   public async redo(): Promise<boolean> {
-    if (!this.canRedo()) {
+    if (!this.canRedo() || this.transaction) {
       return false;
     }
 
@@ -105,7 +219,7 @@ export class CommandManager {
       try {
         await command.execute();
         this.currentIndex++;
-        this.eventEmitter.emit(BuilderEvent.REDO, { command });
+        this.eventEmitter.emit(BuilderEvent.REDO, this.eventData(entry));
         return true;
       } catch (error) {
         this.eventEmitter.emit(BuilderEvent.ERROR, error);
@@ -152,6 +266,46 @@ export class CommandManager {
     return this.currentIndex;
   }
 
+  /**
+   * Adds an executed command to history and notifies listeners
+   */
+  private record(command: UndoableCommand): void {
+    const entry: CommandHistoryEntry = {
+      command,
+      ...(command instanceof CompositeCommand && { label: command.label }),
+      timestamp: Date.now(),
+    };
+
+    this.addToHistory(entry);
+    this.eventEmitter.emit(BuilderEvent.COMMAND_EXECUTED, this.eventData(entry));
+  }
+
+  /**
+   * Data of the history events, with the label of a group
+   */
+  private eventData(entry: CommandHistoryEntry): { command: Command; label?: string } {
+    return {
+      command: entry.command,
+      ...(entry.label !== undefined && { label: entry.label }),
+    };
+  }
+
+  private endTransaction(): CommandTransaction {
+    const transaction = this.transaction;
+    if (!transaction) {
+      throw new Error('No transaction in progress');
+    }
+
+    this.transaction = null;
+    return transaction;
+  }
+
+  private async undoTransaction(transaction: CommandTransaction): Promise<void> {
+    const commands = transaction.commands;
+    transaction.commands = [];
+    await new CompositeCommand({ label: transaction.label, commands }).undo();
+  }
+
   /**
    * Adds a command to history
    */
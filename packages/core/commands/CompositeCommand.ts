@@ -0,0 +1,64 @@
+/**
+ * Composite Command
+ *
+ * Groups commands under a label, so a multi-step operation is executed,
+ * undone and redone as a single step
+ */
+
+import type { UndoableCommand } from '../types';
+import { CommandType } from '../types';
+
+export interface CompositeCommandPayload {
+  /**
+   * Label of the group, e.g. shown as "Undo Apply blueprint"
+   */
+  label: string;
+  commands: UndoableCommand[];
+}
+
+export class CompositeCommand implements UndoableCommand<CompositeCommandPayload> {
+  public readonly type = CommandType.BATCH;
+  public readonly timestamp: number;
+  public readonly id: string;
+  public readonly payload: CompositeCommandPayload;
+
+  constructor(payload: CompositeCommandPayload) {
+    this.payload = payload;
+    this.timestamp = Date.now();
+    this.id = `composite-${this.timestamp}`;
+  }
+
+  public get label(): string {
+    return this.payload.label;
+  }
+
+  /**
+   * Executes the commands in order; when one fails, the commands already
+   * applied are undone before the error is rethrown
+   */
+  public async execute(): Promise<void> {
+    const applied: UndoableCommand[] = [];
+
+    try {
+      for (const command of this.payload.commands) {
+        await command.execute();
+        applied.push(command);
+      }
+    } catch (error) {
+      for (const command of applied.reverse()) {
+        await command.undo();
+      }
+      throw error;
+    }
+  }
+
+  public async undo(): Promise<void> {
+    for (const command of [...this.payload.commands].reverse()) {
+      await command.undo();
+    }
+  }
+
+  public canUndo(): boolean {
+    return this.payload.commands.every((command) => command.canUndo());
+  }
+}
@@ -1,7 +1,7 @@
 /**
  * Export Template Command
  *
- * Exports template to HTML or JSON format
+ * Exports template to HTML, JSON or MIME (.eml) format
  */
 
 import type { Command } from '../types/command.types';
@@ -10,6 +10,8 @@ import type {
   Template,
   TemplateExportOptions,
 } from '../types/template.types';
+import type { GlobalBlockResolver } from '../types/global-block.types';
+import type { ThemeResolver } from '../types/theme.types';
 import type { ExportResult } from '../template/TemplateExporter';
 import { TemplateExporter } from '../template/TemplateExporter';
 
@@ -26,12 +28,22 @@ export interface ExportTemplatePayload {
    * Export options
    */
   options: TemplateExportOptions;
+
+  /**
+   * Looks up the global blocks referenced by the template
+   */
+  resolveGlobalBlock?: GlobalBlockResolver;
+
+  /**
+   * Looks up the theme the style tokens of the template are resolved with
+   */
+  resolveTheme?: ThemeResolver;
 }
 
 /**
  * Export Template Command
  *
- * Exports template to various formats (HTML, JSON)
+ * Exports template to various formats (HTML, JSON, EML)
  * This is a non-undoable command as it's a read operation
  */
 export class ExportTemplateCommand implements Command<ExportTemplatePayload> {
@@ -48,6 +60,8 @@ export class ExportTemplateCommand implements Command<ExportTemplatePayload> {
     this.timestamp = Date.now();
     this.id = `export-template-${this.timestamp}`;
     this.exporter = new TemplateExporter();
+    this.exporter.setGlobalBlockResolver(payload.resolveGlobalBlock);
+    this.exporter.setThemeResolver(payload.resolveTheme);
   }
 
   /**
@@ -57,8 +71,11 @@ export class ExportTemplateCommand implements Command<ExportTemplatePayload> {
     try {
       const { template, options } = this.payload;
 
-      // Export template
-      this.exportResult = this.exporter.export(template, options);
+      // Export template (messages may need to load images first)
+      this.exportResult =
+        options.format === 'eml'
+          ? await this.exporter.exportMIME(template, options)
+          : this.exporter.export(template, options);
     } catch (error) {
       throw new Error(
         `Failed to export template: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -86,4 +103,11 @@ export class ExportTemplateCommand implements Command<ExportTemplatePayload> {
   public getJSON(): string | undefined {
     return this.exportResult?.json;
   }
+
+  /**
+   * Get exported MIME message (if format was eml)
+   */
+  public getEML(): string | undefined {
+    return this.exportResult?.eml;
+  }
 }
@@ -0,0 +1,80 @@
+/**
+ * Fix Compatibility Issues Command
+ *
+ * Applies the automatic fixes of compatibility issues to a template
+ */
+
+import type { UndoableCommand } from '../types';
+import { CommandType } from '../types';
+import type { BaseComponent, Template } from '../types';
+import type { CompatibilityIssue } from '../compatibility/CompatibilityChecker';
+import { createDefaultFixerRegistry } from '../compatibility/CompatibilityFixer';
+import type { CompatibilityFixerRegistry } from '../compatibility/CompatibilityFixer';
+
+export interface FixCompatibilityIssuesPayload {
+  issues: CompatibilityIssue[];
+}
+
+export class FixCompatibilityIssuesCommand implements UndoableCommand<FixCompatibilityIssuesPayload> {
+  public readonly type = CommandType.FIX_COMPATIBILITY_ISSUES;
+  public readonly timestamp: number;
+  public readonly id: string;
+  public readonly payload: FixCompatibilityIssuesPayload;
+
+  private previousTemplate?: Template;
+
+  constructor(
+    payload: FixCompatibilityIssuesPayload,
+    private getTemplate: () => Template | null,
+    private setTemplate: (template: Template) => void,
+    private fixers: CompatibilityFixerRegistry = createDefaultFixerRegistry()
+  ) {
+    this.payload = payload;
+    this.timestamp = Date.now();
+    this.id = `template-fix-compatibility-${this.timestamp}`;
+  }
+
+  public async execute(): Promise<void> {
+    const currentTemplate = this.getTemplate();
+    if (!currentTemplate) {
+      throw new Error('No template loaded');
+    }
+
+    // Store previous state for undo
+    this.previousTemplate = JSON.parse(JSON.stringify(currentTemplate));
+
+    // Fix components (and nested children) issue by issue
+    const fixComponents = (components: BaseComponent[]): BaseComponent[] =>
+      components.map((component) => {
+        let fixed = this.payload.issues
+          .filter((issue) => issue.componentId === component.id)
+          .reduce((current, issue) => this.fixers.fix(current, issue, { template: currentTemplate }), component);
+
+        if (fixed.children && fixed.children.length > 0) {
+          fixed = { ...fixed, children: fixComponents(fixed.children) };
+        }
+        return fixed;
+      });
+
+    const updatedTemplate: Template = {
+      ...currentTemplate,
+      components: fixComponents(currentTemplate.components),
+      metadata: {
+        ...currentTemplate.metadata,
+        updatedAt: Date.now(),
+      },
+    };
+
+    this.setTemplate(updatedTemplate);
+  }
+
+  public async undo(): Promise<void> {
+    if (this.previousTemplate) {
+      this.setTemplate(this.previousTemplate);
+    }
+  }
+
+  public canUndo(): boolean {
+    return this.previousTemplate !== undefined;
+  }
+}
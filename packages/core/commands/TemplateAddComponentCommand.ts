@@ -1,16 +1,22 @@
 /**
  * Template Add Component Command
  *
- * Adds a component to a template's components array
+ * Adds a component to a template's components array, or to the children of
+ * one of its components
  */
 
 import type { UndoableCommand } from '../types';
 import { CommandType } from '../types';
 import type { Template, BaseComponent } from '../types';
+import { findComponent, insertComponentIntoTree } from '../template/component-tree';
 
 export interface TemplateAddComponentPayload {
   component: BaseComponent;
   position?: number;
+  /**
+   * ID of the component (e.g. a column) receiving the component as a child
+   */
+  parentId?: string;
 }
 
 export class TemplateAddComponentCommand implements UndoableCommand<TemplateAddComponentPayload> {
@@ -37,13 +43,20 @@ export class TemplateAddComponentCommand implements UndoableCommand<TemplateAddC
       throw new Error('No template loaded');
     }
 
+    const { parentId } = this.payload;
+    if (parentId !== undefined && !findComponent(currentTemplate.components, parentId)) {
+      throw new Error(`Component not found: ${parentId}`);
+    }
+
     // Store previous state for undo
     this.previousTemplate = JSON.parse(JSON.stringify(currentTemplate));
 
     // Create new template with added component
     const updatedTemplate: Template = {
       ...currentTemplate,
-      components: this.payload.position !== undefined
+      components: parentId !== undefined
+        ? insertComponentIntoTree(currentTemplate.components, parentId, this.payload.component, this.payload.position)
+        : this.payload.position !== undefined
         ? [
             ...currentTemplate.components.slice(0, this.payload.position),
             this.payload.component,
@@ -0,0 +1,74 @@
+/**
+ * Template Apply Recipe Command
+ *
+ * Applies the styles of a style recipe, e.g. a card surface, to a component
+ */
+
+import type { UndoableCommand } from '../types';
+import { CommandType } from '../types';
+import type { Template } from '../types';
+import type { RecipeManager } from '../recipe/RecipeManager';
+import { CustomizationError } from '../errors';
+import { updateComponentInTree } from '../template/component-tree';
+import { applyComponentStyles } from '../customization/component-styles';
+
+export interface TemplateApplyRecipePayload {
+  componentId: string;
+  recipeId: string;
+  /**
+   * Variant of the recipe, e.g. `compact`
+   */
+  variant?: string | undefined;
+}
+
+export class TemplateApplyRecipeCommand implements UndoableCommand<TemplateApplyRecipePayload> {
+  public readonly type = CommandType.APPLY_RECIPE;
+  public readonly timestamp: number;
+  public readonly id: string;
+  public readonly payload: TemplateApplyRecipePayload;
+
+  private previousTemplate?: Template;
+
+  constructor(
+    payload: TemplateApplyRecipePayload,
+    private getTemplate: () => Template | null,
+    private setTemplate: (template: Template) => void,
+    private recipes: RecipeManager
+  ) {
+    this.payload = payload;
+    this.timestamp = Date.now();
+    this.id = `template-apply-recipe-${this.timestamp}`;
+  }
+
+  public async execute(): Promise<void> {
+    const currentTemplate = this.getTemplate();
+    if (!currentTemplate) {
+      throw new Error('No template loaded');
+    }
+
+    const { componentId, recipeId, variant } = this.payload;
+    if (!this.recipes.get(recipeId)) {
+      throw new CustomizationError(`Recipe not found: ${recipeId}`, { recipeId });
+    }
+
+    const styles = this.recipes.apply(recipeId, variant);
+    const components = updateComponentInTree(currentTemplate.components, componentId, (component) =>
+      applyComponentStyles(component, styles)
+    );
+
+    // Store previous state for undo
+    this.previousTemplate = JSON.parse(JSON.stringify(currentTemplate));
+
+    this.setTemplate({ ...currentTemplate, components });
+  }
+
+  public async undo(): Promise<void> {
+    if (this.previousTemplate) {
+      this.setTemplate(this.previousTemplate);
+    }
+  }
+
+  public canUndo(): boolean {
+    return this.previousTemplate !== undefined;
+  }
+}
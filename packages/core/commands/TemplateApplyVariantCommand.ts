@@ -0,0 +1,75 @@
+/**
+ * Template Apply Variant Command
+ *
+ * Applies the styles of component variants, e.g. a secondary large button,
+ * to a component
+ */
+
+import type { UndoableCommand } from '../types';
+import { CommandType } from '../types';
+import type { Template } from '../types';
+import type { VariantManager } from '../variant/VariantManager';
+import { CustomizationError } from '../errors';
+import { updateComponentInTree } from '../template/component-tree';
+import { applyComponentStyles } from '../customization/component-styles';
+
+export interface TemplateApplyVariantPayload {
+  componentId: string;
+  /**
+   * Variants to apply, later ones over earlier ones
+   */
+  variantIds: string[];
+}
+
+export class TemplateApplyVariantCommand implements UndoableCommand<TemplateApplyVariantPayload> {
+  public readonly type = CommandType.APPLY_VARIANT;
+  public readonly timestamp: number;
+  public readonly id: string;
+  public readonly payload: TemplateApplyVariantPayload;
+
+  private previousTemplate?: Template;
+
+  constructor(
+    payload: TemplateApplyVariantPayload,
+    private getTemplate: () => Template | null,
+    private setTemplate: (template: Template) => void,
+    private variants: VariantManager
+  ) {
+    this.payload = payload;
+    this.timestamp = Date.now();
+    this.id = `template-apply-variant-${this.timestamp}`;
+  }
+
+  public async execute(): Promise<void> {
+    const currentTemplate = this.getTemplate();
+    if (!currentTemplate) {
+      throw new Error('No template loaded');
+    }
+
+    const { componentId, variantIds } = this.payload;
+    const missing = variantIds.find((variantId) => !this.variants.get(variantId));
+    if (missing !== undefined) {
+      throw new CustomizationError(`Variant not found: ${missing}`, { variantId: missing });
+    }
+
+    const styles = this.variants.applyVariants(variantIds);
+    const components = updateComponentInTree(currentTemplate.components, componentId, (component) =>
+      applyComponentStyles(component, styles)
+    );
+
+    // Store previous state for undo
+    this.previousTemplate = JSON.parse(JSON.stringify(currentTemplate));
+
+    this.setTemplate({ ...currentTemplate, components });
+  }
+
+  public async undo(): Promise<void> {
+    if (this.previousTemplate) {
+      this.setTemplate(this.previousTemplate);
+    }
+  }
+
+  public canUndo(): boolean {
+    return this.previousTemplate !== undefined;
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Template Bulk Component Command
+ *
+ * Deletes, duplicates, moves or restyles several components at once, undone
+ * as a single step
+ */
+
+import type { UndoableCommand } from '../types';
+import { CommandType } from '../types';
+import type { Template, BaseComponent, BaseStyles } from '../types';
+import {
+  findComponent,
+  findParentComponent,
+  getSelectionRoots,
+  removeComponentFromTree,
+  updateComponentInTree,
+} from '../template/component-tree';
+import { cloneComponentsWithNewIds } from '../template/component-clipboard';
+import { applyComponentStyles } from '../customization/component-styles';
+
+export type TemplateBulkComponentOperation =
+  | { type: 'delete' }
+  /**
+   * Inserts a copy of each component right after it
+   */
+  | { type: 'duplicate' }
+  /**
+   * Moves the components, in document order, before the sibling at `index`
+   * of the parent (top-level when omitted); `index` counts the moved
+   * components, like a drop position
+   */
+  | { type: 'move'; index: number; parentId?: string | undefined }
+  /**
+   * Merges the styles over the styles of each component
+   */
+  | { type: 'restyle'; styles: Partial<BaseStyles> };
+
+export interface TemplateBulkComponentPayload {
+  componentIds: string[];
+  operation: TemplateBulkComponentOperation;
+}
+
+const withParent = (component: BaseComponent, parentId: string | undefined): BaseComponent => {
+  const { parentId: _previousParentId, ...rest } = component;
+  return parentId ? { ...rest, parentId } : rest;
+};
+
+export class TemplateBulkComponentCommand implements UndoableCommand<TemplateBulkComponentPayload> {
+  public readonly type = CommandType.BULK_UPDATE_COMPONENTS;
+  public readonly timestamp: number;
+  public readonly id: string;
+  public readonly payload: TemplateBulkComponentPayload;
+
+  private previousTemplate?: Template;
+  private resultComponentIds: string[] = [];
+  /**
+   * Duplicates by original component ID, made on the first execution and
+   * inserted again on redo, so later history entries still find them
+   */
+  private copies = new Map<string, BaseComponent>();
+
+  constructor(
+    payload: TemplateBulkComponentPayload,
+    private getTemplate: () => Template | null,
+    private setTemplate: (template: Template) => void
+  ) {
+    this.payload = payload;
+    this.timestamp = Date.now();
+    this.id = `template-bulk-component-${this.timestamp}`;
+  }
+
+  public async execute(): Promise<void> {
+    const currentTemplate = this.getTemplate();
+    if (!currentTemplate) {
+      throw new Error('No template loaded');
+    }
+
+    const { componentIds, operation } = this.payload;
+    const roots = getSelectionRoots(currentTemplate.components, componentIds);
+    if (roots.length === 0) {
+      throw new Error(`Components not found: ${componentIds.join(', ')}`);
+    }
+
+    let components: BaseComponent[];
+    switch (operation.type) {
+      case 'delete':
+        components = roots.reduce((current, root) => removeComponentFromTree(current, root.id), currentTemplate.components);
+        this.resultComponentIds = [];
+        break;
+      case 'duplicate':
+        components = this.duplicate(currentTemplate.components, roots);
+        break;
+      case 'move':
+        components = this.move(currentTemplate.components, roots, operation.index, operation.parentId);
+        this.resultComponentIds = roots.map((root) => root.id);
+        break;
+      case 'restyle': {
+        // Nested selected components are restyled too
+        const ids = componentIds.filter((id) => findComponent(currentTemplate.components, id));
+        components = ids.reduce(
+          (current, id) => updateComponentInTree(current, id, (component) => applyComponentStyles(component, operation.styles)),
+          currentTemplate.components
+        );
+        this.resultComponentIds = ids;
+        break;
+      }
+    }
+
+    // Store previous state for undo
+    this.previousTemplate = JSON.parse(JSON.stringify(currentTemplate));
+
+    this.setTemplate({
+      ...currentTemplate,
+      components,
+      metadata: {
+        ...currentTemplate.metadata,
+        updatedAt: Date.now(),
+      },
+    });
+  }
+
+  public async undo(): Promise<void> {
+    if (this.previousTemplate) {
+      this.setTemplate(this.previousTemplate);
+    }
+  }
+
+  public canUndo(): boolean {
+    return this.previousTemplate !== undefined;
+  }
+
+  /**
+   * Components selected after the operation: the copies of a duplicate, the
+   * moved or restyled components, none after a delete
+   */
+  public getResultComponentIds(): string[] {
+    return this.resultComponentIds;
+  }
+
+  private duplicate(components: BaseComponent[], roots: BaseComponent[]): BaseComponent[] {
+    this.resultComponentIds = [];
+
+    return roots.reduce((current, root) => {
+      const copy = this.copies.get(root.id) ?? cloneComponentsWithNewIds([root])[0]!;
+      this.copies.set(root.id, copy);
+      const duplicated = withParent(copy, root.parentId);
+      this.resultComponentIds.push(duplicated.id);
+
+      const insertAfterRoot = (siblings: BaseComponent[]): BaseComponent[] => {
+        const updated = [...siblings];
+        updated.splice(siblings.findIndex((sibling) => sibling.id === root.id) + 1, 0, duplicated);
+        return updated;
+      };
+      const parent = findParentComponent(current, root.id);
+      return parent
+        ? updateComponentInTree(current, parent.id, (component) => ({
+            ...component,
+            children: insertAfterRoot(component.children ?? []),
+          }))
+        : insertAfterRoot(current);
+    }, components);
+  }
+
+  private move(
+    components: BaseComponent[],
+    roots: BaseComponent[],
+    index: number,
+    parentId: string | undefined
+  ): BaseComponent[] {
+    if (parentId) {
+      const parent = findComponent(components, parentId);
+      if (!parent) {
+        throw new Error(`Component not found: ${parentId}`);
+      }
+      if (roots.some((root) => root.id === parentId || findComponent(root.children ?? [], parentId))) {
+        throw new Error('Cannot move components into themselves');
+      }
+    }
+
+    // Positions count the moved components, which leave their place first
+    const siblings = parentId ? findComponent(components, parentId)!.children ?? [] : components;
+    const movedBefore = siblings.slice(0, index).filter((sibling) => roots.some((root) => root.id === sibling.id)).length;
+    const position = Math.max(0, index - movedBefore);
+
+    const remaining = roots.reduce((current, root) => removeComponentFromTree(current, root.id), components);
+    const moved = roots.map((root) => withParent(root, parentId));
+    const insert = (children: BaseComponent[]): BaseComponent[] => {
+      const updated = [...children];
+      updated.splice(Math.min(position, children.length), 0, ...moved);
+      return updated;
+    };
+
+    return parentId
+      ? updateComponentInTree(remaining, parentId, (parent) => ({ ...parent, children: insert(parent.children ?? []) }))
+      : insert(remaining);
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Template Detach Global Block Command
+ *
+ * Replaces a global block reference with a local copy of the block components,
+ * which later edits of the block no longer change
+ */
+
+import type { UndoableCommand } from '../types';
+import { CommandType, ComponentType } from '../types';
+import type { BaseComponent, GlobalBlockResolver, Template } from '../types';
+import { findComponent, findParentComponent, updateComponentInTree } from '../template/component-tree';
+import { instantiateGlobalBlock } from '../template/global-blocks';
+
+export interface TemplateDetachGlobalBlockPayload {
+  componentId: string;
+}
+
+export class TemplateDetachGlobalBlockCommand implements UndoableCommand<TemplateDetachGlobalBlockPayload> {
+  public readonly type = CommandType.DETACH_GLOBAL_BLOCK;
+  public readonly timestamp: number;
+  public readonly id: string;
+  public readonly payload: TemplateDetachGlobalBlockPayload;
+
+  private previousTemplate?: Template;
+
+  constructor(
+    payload: TemplateDetachGlobalBlockPayload,
+    private getTemplate: () => Template | null,
+    private setTemplate: (template: Template) => void,
+    private resolveBlock: GlobalBlockResolver
+  ) {
+    this.payload = payload;
+    this.timestamp = Date.now();
+    this.id = `template-detach-global-block-${this.timestamp}`;
+  }
+
+  public async execute(): Promise<void> {
+    const currentTemplate = this.getTemplate();
+    if (!currentTemplate) {
+      throw new Error('No template loaded');
+    }
+
+    const reference = findComponent(currentTemplate.components, this.payload.componentId);
+    if (!reference || reference.type !== ComponentType.GLOBAL_BLOCK) {
+      throw new Error(`Global block reference not found: ${this.payload.componentId}`);
+    }
+
+    const blockId = String(reference.content['blockId']);
+    const block = this.resolveBlock(blockId);
+    if (!block) {
+      throw new Error(`Global block not found: ${blockId}`);
+    }
+
+    // Store previous state for undo
+    this.previousTemplate = JSON.parse(JSON.stringify(currentTemplate));
+
+    const replace = (components: BaseComponent[]) =>
+      components.flatMap((component) => (component.id === reference.id ? instantiateGlobalBlock(block) : [component]));
+    const parent = findParentComponent(currentTemplate.components, reference.id);
+
+    this.setTemplate({
+      ...currentTemplate,
+      components: parent
+        ? updateComponentInTree(currentTemplate.components, parent.id, (component) => ({
+            ...component,
+            children: replace(component.children ?? []),
+          }))
+        : replace(currentTemplate.components),
+    });
+  }
+
+  public async undo(): Promise<void> {
+    if (this.previousTemplate) {
+      this.setTemplate(this.previousTemplate);
+    }
+  }
+
+  public canUndo(): boolean {
+    return this.previousTemplate !== undefined;
+  }
+}
@@ -7,6 +7,7 @@
 import type { UndoableCommand } from '../types';
 import { CommandType } from '../types';
 import type { Template, BaseComponent } from '../types';
+import { findComponent, findParentComponent, updateComponentInTree } from '../template/component-tree';
 
 export interface TemplateDuplicateComponentPayload {
   componentId: string;
@@ -39,29 +40,39 @@ export class TemplateDuplicateComponentCommand implements UndoableCommand<Templa
     // Store previous state for undo
     this.previousState = JSON.parse(JSON.stringify(template));
 
-    // Find the component to duplicate
-    const componentIndex = template.components.findIndex(
-      (c) => c.id === this.payload.componentId
-    );
+    // Find the component to duplicate, at any depth
+    const originalComponent = findComponent(template.components, this.payload.componentId);
 
-    if (componentIndex === -1) {
+    if (!originalComponent) {
       throw new Error(`Component not found: ${this.payload.componentId}`);
     }
 
-    const originalComponent = template.components[componentIndex];
-
     // Create a deep copy of the component
     const duplicatedComponent: BaseComponent = JSON.parse(
       JSON.stringify(originalComponent)
     );
 
-    // Generate a new ID for the duplicated component
-    this.newComponentId = crypto.randomUUID();
-    duplicatedComponent.id = this.newComponentId;
+    // Generate new IDs for the duplicated component and its nested children
+    const reassignIds = (component: BaseComponent): void => {
+      component.id = crypto.randomUUID();
+      component.children?.forEach(reassignIds);
+    };
+    reassignIds(duplicatedComponent);
+    this.newComponentId = duplicatedComponent.id;
 
     // Insert the duplicated component right after the original
-    const updatedComponents = [...template.components];
-    updatedComponents.splice(componentIndex + 1, 0, duplicatedComponent);
+    const insertAfterOriginal = (siblings: BaseComponent[]): BaseComponent[] => {
+      const updated = [...siblings];
+      updated.splice(siblings.indexOf(originalComponent) + 1, 0, duplicatedComponent);
+      return updated;
+    };
+    const parent = findParentComponent(template.components, originalComponent.id);
+    const updatedComponents = parent
+      ? updateComponentInTree(template.components, parent.id, (component) => ({
+          ...component,
+          children: insertAfterOriginal(component.children ?? []),
+        }))
+      : insertAfterOriginal(template.components);
 
     // Update the template
     const updatedTemplate: Template = {
@@ -0,0 +1,67 @@
+/**
+ * Template Link Global Block Command
+ *
+ * Replaces a component with a reference to a global block, e.g. after saving
+ * the component as a new block
+ */
+
+import type { UndoableCommand } from '../types';
+import { CommandType } from '../types';
+import type { Template } from '../types';
+import { createGlobalBlockReference } from '../components/factories/global-block.factories';
+import { findComponent, updateComponentInTree } from '../template/component-tree';
+
+export interface TemplateLinkGlobalBlockPayload {
+  componentId: string;
+  blockId: string;
+}
+
+export class TemplateLinkGlobalBlockCommand implements UndoableCommand<TemplateLinkGlobalBlockPayload> {
+  public readonly type = CommandType.LINK_GLOBAL_BLOCK;
+  public readonly timestamp: number;
+  public readonly id: string;
+  public readonly payload: TemplateLinkGlobalBlockPayload;
+
+  private previousTemplate?: Template;
+
+  constructor(
+    payload: TemplateLinkGlobalBlockPayload,
+    private getTemplate: () => Template | null,
+    private setTemplate: (template: Template) => void
+  ) {
+    this.payload = payload;
+    this.timestamp = Date.now();
+    this.id = `template-link-global-block-${this.timestamp}`;
+  }
+
+  public async execute(): Promise<void> {
+    const currentTemplate = this.getTemplate();
+    if (!currentTemplate) {
+      throw new Error('No template loaded');
+    }
+
+    if (!findComponent(currentTemplate.components, this.payload.componentId)) {
+      throw new Error(`Component not found: ${this.payload.componentId}`);
+    }
+
+    // Store previous state for undo
+    this.previousTemplate = JSON.parse(JSON.stringify(currentTemplate));
+
+    this.setTemplate({
+      ...currentTemplate,
+      components: updateComponentInTree(currentTemplate.components, this.payload.componentId, () =>
+        createGlobalBlockReference(this.payload.blockId)
+      ),
+    });
+  }
+
+  public async undo(): Promise<void> {
+    if (this.previousTemplate) {
+      this.setTemplate(this.previousTemplate);
+    }
+  }
+
+  public canUndo(): boolean {
+    return this.previousTemplate !== undefined;
+  }
+}
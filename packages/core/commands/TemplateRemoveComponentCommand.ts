@@ -1,12 +1,14 @@
 /**
  * Template Remove Component Command
  *
- * Removes a component from a template's components array
+ * Removes a component from a template's components array or from the
+ * children of one of its components
  */
 
 import type { UndoableCommand } from '../types';
 import { CommandType } from '../types';
 import type { Template } from '../types';
+import { removeComponentFromTree } from '../template/component-tree';
 
 export interface TemplateRemoveComponentPayload {
   componentId: string;
@@ -39,10 +41,8 @@ export class TemplateRemoveComponentCommand implements UndoableCommand<TemplateR
     // Store previous state for undo
     this.previousTemplate = JSON.parse(JSON.stringify(currentTemplate));
 
-    // Filter out the component with matching ID
-    const updatedComponents = currentTemplate.components.filter(
-      (comp) => comp.id !== this.payload.componentId
-    );
+    // Filter out the component with matching ID (at any depth)
+    const updatedComponents = removeComponentFromTree(currentTemplate.components, this.payload.componentId);
 
     // Create updated template
     const updatedTemplate: Template = {
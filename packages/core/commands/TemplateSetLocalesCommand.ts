@@ -0,0 +1,65 @@
+/**
+ * Template Set Locales Command
+ *
+ * Sets the locales a template is translated to; translations of removed
+ * locales are dropped
+ */
+
+import type { UndoableCommand } from '../types';
+import { CommandType } from '../types';
+import type { Template } from '../types';
+import { addTemplateLocale, removeTemplateLocale } from '../i18n/content-localization';
+
+export interface TemplateSetLocalesPayload {
+  /**
+   * Target locales, without the source locale
+   */
+  locales: string[];
+}
+
+export class TemplateSetLocalesCommand implements UndoableCommand<TemplateSetLocalesPayload> {
+  public readonly type = CommandType.SET_TEMPLATE_LOCALES;
+  public readonly timestamp: number;
+  public readonly id: string;
+  public readonly payload: TemplateSetLocalesPayload;
+
+  private previousTemplate?: Template;
+
+  constructor(
+    payload: TemplateSetLocalesPayload,
+    private getTemplate: () => Template | null,
+    private setTemplate: (template: Template) => void
+  ) {
+    this.payload = payload;
+    this.timestamp = Date.now();
+    this.id = `template-set-locales-${this.timestamp}`;
+  }
+
+  public async execute(): Promise<void> {
+    const currentTemplate = this.getTemplate();
+    if (!currentTemplate) {
+      throw new Error('No template loaded');
+    }
+
+    const removed = (currentTemplate.localization?.locales ?? []).filter(
+      (locale) => !this.payload.locales.includes(locale)
+    );
+    const withoutRemoved = removed.reduce(removeTemplateLocale, currentTemplate);
+    const updated = this.payload.locales.reduce(addTemplateLocale, withoutRemoved);
+
+    // Store previous state for undo
+    this.previousTemplate = JSON.parse(JSON.stringify(currentTemplate));
+
+    this.setTemplate(updated);
+  }
+
+  public async undo(): Promise<void> {
+    if (this.previousTemplate) {
+      this.setTemplate(this.previousTemplate);
+    }
+  }
+
+  public canUndo(): boolean {
+    return this.previousTemplate !== undefined;
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Template Set Localized Text Command
+ *
+ * Sets translations of the content of a template for one locale
+ */
+
+import type { UndoableCommand } from '../types';
+import { CommandType } from '../types';
+import type { Template } from '../types';
+import { setLocalizedTexts } from '../i18n/content-localization';
+
+export interface TemplateSetLocalizedTextPayload {
+  locale: string;
+  /**
+   * Translations by key (e.g. `text-1:content.html`); empty values remove the translation
+   */
+  texts: Record<string, string>;
+  /**
+   * Marks the translations as drafts needing a review
+   */
+  draft?: boolean;
+}
+
+export class TemplateSetLocalizedTextCommand implements UndoableCommand<TemplateSetLocalizedTextPayload> {
+  public readonly type = CommandType.SET_LOCALIZED_TEXT;
+  public readonly timestamp: number;
+  public readonly id: string;
+  public readonly payload: TemplateSetLocalizedTextPayload;
+
+  private previousTemplate?: Template;
+
+  constructor(
+    payload: TemplateSetLocalizedTextPayload,
+    private getTemplate: () => Template | null,
+    private setTemplate: (template: Template) => void
+  ) {
+    this.payload = payload;
+    this.timestamp = Date.now();
+    this.id = `template-set-localized-text-${this.timestamp}`;
+  }
+
+  public async execute(): Promise<void> {
+    const currentTemplate = this.getTemplate();
+    if (!currentTemplate) {
+      throw new Error('No template loaded');
+    }
+
+    const updated = setLocalizedTexts(currentTemplate, this.payload.locale, this.payload.texts, {
+      ...(this.payload.draft && { draft: true }),
+    });
+
+    // Store previous state for undo
+    this.previousTemplate = JSON.parse(JSON.stringify(currentTemplate));
+
+    this.setTemplate(updated);
+  }
+
+  public async undo(): Promise<void> {
+    if (this.previousTemplate) {
+      this.setTemplate(this.previousTemplate);
+    }
+  }
+
+  public canUndo(): boolean {
+    return this.previousTemplate !== undefined;
+  }
+}
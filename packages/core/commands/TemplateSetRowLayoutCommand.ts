@@ -0,0 +1,67 @@
+/**
+ * Template Set Row Layout Command
+ *
+ * Changes the column layout of a row, keeping the components of its columns
+ */
+
+import type { UndoableCommand } from '../types';
+import { CommandType, ComponentType } from '../types';
+import type { Template, RowComponent, RowLayoutPreset } from '../types';
+import { applyRowLayout } from '../components/factories/layout-components.factories';
+import { findComponent, updateComponentInTree } from '../template/component-tree';
+
+export interface TemplateSetRowLayoutPayload {
+  componentId: string;
+  layout: RowLayoutPreset;
+}
+
+export class TemplateSetRowLayoutCommand implements UndoableCommand<TemplateSetRowLayoutPayload> {
+  public readonly type = CommandType.SET_ROW_LAYOUT;
+  public readonly timestamp: number;
+  public readonly id: string;
+  public readonly payload: TemplateSetRowLayoutPayload;
+
+  private previousTemplate?: Template;
+
+  constructor(
+    payload: TemplateSetRowLayoutPayload,
+    private getTemplate: () => Template | null,
+    private setTemplate: (template: Template) => void
+  ) {
+    this.payload = payload;
+    this.timestamp = Date.now();
+    this.id = `template-set-row-layout-${this.timestamp}`;
+  }
+
+  public async execute(): Promise<void> {
+    const currentTemplate = this.getTemplate();
+    if (!currentTemplate) {
+      throw new Error('No template loaded');
+    }
+
+    const row = findComponent(currentTemplate.components, this.payload.componentId);
+    if (!row || row.type !== ComponentType.ROW) {
+      throw new Error(`Row not found: ${this.payload.componentId}`);
+    }
+
+    // Store previous state for undo
+    this.previousTemplate = JSON.parse(JSON.stringify(currentTemplate));
+
+    this.setTemplate({
+      ...currentTemplate,
+      components: updateComponentInTree(currentTemplate.components, row.id, (component) =>
+        applyRowLayout(component as RowComponent, this.payload.layout)
+      ),
+    });
+  }
+
+  public async undo(): Promise<void> {
+    if (this.previousTemplate) {
+      this.setTemplate(this.previousTemplate);
+    }
+  }
+
+  public canUndo(): boolean {
+    return this.previousTemplate !== undefined;
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Template Set Theme Command
+ *
+ * Sets the theme of a template, restyling every component bound to its tokens
+ */
+
+import type { UndoableCommand } from '../types';
+import { CommandType } from '../types';
+import type { Template, Theme } from '../types';
+import { applyThemeTokens } from '../theme/theme-tokens';
+
+export interface TemplateSetThemePayload {
+  /**
+   * New theme; undefined detaches the template from its theme, keeping the
+   * current styles
+   */
+  theme: Theme | undefined;
+}
+
+export class TemplateSetThemeCommand implements UndoableCommand<TemplateSetThemePayload> {
+  public readonly type = CommandType.SET_TEMPLATE_THEME;
+  public readonly timestamp: number;
+  public readonly id: string;
+  public readonly payload: TemplateSetThemePayload;
+
+  private previousTemplate?: Template;
+
+  constructor(
+    payload: TemplateSetThemePayload,
+    private getTemplate: () => Template | null,
+    private setTemplate: (template: Template) => void
+  ) {
+    this.payload = payload;
+    this.timestamp = Date.now();
+    this.id = `template-set-theme-${this.timestamp}`;
+  }
+
+  public async execute(): Promise<void> {
+    const currentTemplate = this.getTemplate();
+    if (!currentTemplate) {
+      throw new Error('No template loaded');
+    }
+
+    const { theme } = this.payload;
+    const { themeId: _themeId, ...generalStyles } = currentTemplate.generalStyles ?? {};
+    const restyled = theme ? applyThemeTokens(currentTemplate, theme) : currentTemplate;
+
+    // Store previous state for undo
+    this.previousTemplate = JSON.parse(JSON.stringify(currentTemplate));
+
+    this.setTemplate({
+      ...restyled,
+      generalStyles: theme ? { ...generalStyles, themeId: theme.id } : generalStyles,
+    });
+  }
+
+  public async undo(): Promise<void> {
+    if (this.previousTemplate) {
+      this.setTemplate(this.previousTemplate);
+    }
+  }
+
+  public canUndo(): boolean {
+    return this.previousTemplate !== undefined;
+  }
+}
@@ -7,6 +7,7 @@
 import type { UndoableCommand } from '../types';
 import { CommandType } from '../types';
 import type { Template } from '../types';
+import { updateComponentInTree } from '../template/component-tree';
 
 export interface TemplateUpdateComponentPayload {
   componentId: string;
@@ -52,14 +53,11 @@ export class TemplateUpdateComponentCommand implements UndoableCommand<TemplateU
       target[lastKey] = value;
     };
 
-    // Find and update the component
-    const updatedComponents = currentTemplate.components.map((comp) => {
-      if (comp.id === this.payload.componentId) {
-        const updatedComp = JSON.parse(JSON.stringify(comp)); // Deep clone
-        setNestedValue(updatedComp, this.payload.propertyPath, this.payload.value);
-        return updatedComp;
-      }
-      return comp;
+    // Find and update the component (at any depth)
+    const updatedComponents = updateComponentInTree(currentTemplate.components, this.payload.componentId, (comp) => {
+      const updatedComp = JSON.parse(JSON.stringify(comp)); // Deep clone
+      setNestedValue(updatedComp, this.payload.propertyPath, this.payload.value);
+      return updatedComp;
     });
 
     // Create updated template
@@ -8,8 +8,30 @@ import {
   RemoveComponentCommand,
   UpdateComponentContentCommand,
   UpdateComponentStyleCommand,
+  FixCompatibilityIssuesCommand,
+  TemplateAddComponentCommand,
+  TemplateRemoveComponentCommand,
+  TemplateSetRowLayoutCommand,
+  TemplateDuplicateComponentCommand,
+  TemplateLinkGlobalBlockCommand,
+  TemplateDetachGlobalBlockCommand,
+  TemplateSetLocalizedTextCommand,
+  TemplateSetLocalesCommand,
+  TemplateSetStyleTokenCommand,
+  TemplateSetThemeCommand,
+  TemplateApplyVariantCommand,
+  TemplateApplyRecipeCommand,
+  TemplateBulkComponentCommand,
+  TemplatePasteComponentsCommand,
 } from './index';
 import type { ComponentData } from './AddComponentCommand';
+import { CompatibilityChecker, CompatibilityService } from '../compatibility';
+import { createEmptyEmailTemplate } from '../template/TemplateComposer';
+import { createButton, createGlobalBlockReference, createImage, createRow, createText } from '../components/factories';
+import { boldTheme, modernTheme } from '../theme/default-themes';
+import { CustomizationManager } from '../customization';
+import { CustomizationError } from '../errors';
+import type { GlobalBlock, Template } from '../types';
 
 describe('Command Implementations', () => {
   let state: Map<string, ComponentData>;
@@ -412,3 +434,505 @@ describe('Command Implementations', () => {
     });
   });
 });
+
+describe('FixCompatibilityIssuesCommand', () => {
+  it('should fix nested components and undo the fixes', async () => {
+    let template: Template | null = createEmptyEmailTemplate('Fixes');
+    const image = createImage({ content: { src: 'https://cdn.example.com/team-photo.jpg', alt: '' } });
+    const button = createButton();
+    template.components = [{ ...button, children: [image] }];
+    template.metadata.updatedAt = 0;
+    const original = JSON.parse(JSON.stringify(template));
+    const report = new CompatibilityChecker(new CompatibilityService()).checkTemplate(template.components);
+    const issues = report.issues.warnings.filter((issue) => issue.autoFixAvailable);
+
+    const command = new FixCompatibilityIssuesCommand(
+      { issues },
+      () => template,
+      (updated) => {
+        template = updated;
+      }
+    );
+    await command.execute();
+
+    expect(template.components[0]?.styles).toMatchObject({ vmlFallback: true });
+    expect(template.components[0]?.children?.[0]?.content['alt']).toBe('Team photo');
+    expect(template.metadata.updatedAt).toBeGreaterThan(0);
+    expect(command.canUndo()).toBe(true);
+
+    await command.undo();
+
+    expect(template).toEqual(original);
+  });
+
+  it('should throw without a template', async () => {
+    const command = new FixCompatibilityIssuesCommand({ issues: [] }, () => null, vi.fn());
+
+    await expect(command.execute()).rejects.toThrow('No template loaded');
+  });
+});
+
+describe('Row layout commands', () => {
+  let template: Template | null;
+  const getTemplate = () => template;
+  const setTemplate = (updated: Template) => {
+    template = updated;
+  };
+
+  beforeEach(() => {
+    template = createEmptyEmailTemplate('Rows');
+    template.components = [createRow({ id: 'row-1' }, '1-1-1')];
+  });
+
+  const columns = () => template?.components[0]?.children ?? [];
+
+  it('should add and remove components inside a column', async () => {
+    const columnId = columns()[1]!.id;
+    const text = createText({ id: 'text-1' });
+
+    await new TemplateAddComponentCommand({ component: text, parentId: columnId }, getTemplate, setTemplate).execute();
+
+    expect(columns()[1]?.children?.map((child) => child.id)).toEqual(['text-1']);
+    expect(template?.components).toHaveLength(1);
+
+    await new TemplateRemoveComponentCommand({ componentId: 'text-1' }, getTemplate, setTemplate).execute();
+
+    expect(columns()[1]?.children).toEqual([]);
+  });
+
+  it('should reject unknown parents', async () => {
+    const command = new TemplateAddComponentCommand(
+      { component: createText(), parentId: 'missing' },
+      getTemplate,
+      setTemplate
+    );
+
+    await expect(command.execute()).rejects.toThrow('Component not found: missing');
+  });
+
+  it('should duplicate rows with new IDs for their columns', async () => {
+    await new TemplateDuplicateComponentCommand({ componentId: 'row-1' }, getTemplate, setTemplate).execute();
+
+    const [original, copy] = template!.components;
+    const columnIds = (row: typeof original) => row?.children?.map((column) => column.id) ?? [];
+
+    expect(template?.components).toHaveLength(2);
+    expect(copy?.id).not.toBe('row-1');
+    expect(columnIds(copy)).toHaveLength(3);
+    expect(columnIds(copy).some((id) => columnIds(original).includes(id))).toBe(false);
+  });
+
+  it('should change the layout, keep column components and undo', async () => {
+    columns()[0]!.children = [createText({ id: 'first' })];
+    columns()[2]!.children = [createText({ id: 'third' })];
+    const original = JSON.parse(JSON.stringify(template));
+    const command = new TemplateSetRowLayoutCommand({ componentId: 'row-1', layout: '2-1' }, getTemplate, setTemplate);
+
+    await command.execute();
+
+    expect(template?.components[0]?.content['layout']).toBe('2-1');
+    expect(columns().map((column) => column.content['width'])).toEqual([
+      { value: 66.67, unit: '%' },
+      { value: 33.33, unit: '%' },
+    ]);
+    expect(columns()[0]?.children?.map((child) => child.id)).toEqual(['first']);
+    expect(columns()[1]?.children?.map((child) => child.id)).toEqual(['third']);
+
+    await command.undo();
+
+    expect(template).toEqual(original);
+  });
+
+  it('should only change rows', async () => {
+    template!.components.push(createText({ id: 'text-1' }));
+    const command = new TemplateSetRowLayoutCommand({ componentId: 'text-1', layout: '1' }, getTemplate, setTemplate);
+
+    await expect(command.execute()).rejects.toThrow('Row not found: text-1');
+  });
+});
+
+describe('Global block commands', () => {
+  let template: Template | null;
+  const getTemplate = () => template;
+  const setTemplate = (updated: Template) => {
+    template = updated;
+  };
+  const header: GlobalBlock = {
+    id: 'header',
+    name: 'Brand header',
+    components: [createImage({ id: 'logo' }), createText({ id: 'tagline' })],
+    version: 1,
+    createdAt: 0,
+    updatedAt: 0,
+  };
+  const resolve = (id: string) => (id === 'header' ? header : undefined);
+
+  beforeEach(() => {
+    const row = createRow({ id: 'row-1' }, '1');
+    row.children![0]!.children = [createGlobalBlockReference('header', { id: 'nested-ref' })];
+    template = createEmptyEmailTemplate('Global blocks');
+    template.components = [createGlobalBlockReference('header', { id: 'ref-1' }), createText({ id: 'body' }), row];
+  });
+
+  it('should detach a reference into a local copy of the block', async () => {
+    const command = new TemplateDetachGlobalBlockCommand({ componentId: 'ref-1' }, getTemplate, setTemplate, resolve);
+
+    await command.execute();
+
+    expect(template?.components.map((component) => component.type)).toEqual(['image', 'text', 'text', 'row']);
+    expect(template?.components[0]?.id).not.toBe('logo');
+
+    await command.undo();
+
+    expect(template?.components[0]?.id).toBe('ref-1');
+  });
+
+  it('should replace a component with a reference to a block', async () => {
+    const command = new TemplateLinkGlobalBlockCommand({ componentId: 'body', blockId: 'header' }, getTemplate, setTemplate);
+
+    await command.execute();
+
+    expect(template?.components[1]).toMatchObject({ type: 'global-block', content: { blockId: 'header' } });
+
+    await command.undo();
+
+    expect(template?.components[1]?.id).toBe('body');
+  });
+
+  it('should detach nested references', async () => {
+    await new TemplateDetachGlobalBlockCommand({ componentId: 'nested-ref' }, getTemplate, setTemplate, resolve).execute();
+
+    expect(template?.components[2]?.children?.[0]?.children?.map((child) => child.type)).toEqual(['image', 'text']);
+  });
+
+  it('should reject components that are not references and unknown blocks', async () => {
+    template!.components.push(createGlobalBlockReference('missing', { id: 'lost' }));
+
+    await expect(
+      new TemplateDetachGlobalBlockCommand({ componentId: 'body' }, getTemplate, setTemplate, resolve).execute()
+    ).rejects.toThrow('Global block reference not found: body');
+    await expect(
+      new TemplateDetachGlobalBlockCommand({ componentId: 'lost' }, getTemplate, setTemplate, resolve).execute()
+    ).rejects.toThrow('Global block not found: missing');
+  });
+});
+
+describe('Localization commands', () => {
+  let template: Template | null;
+  const getTemplate = () => template;
+  const setTemplate = (updated: Template) => {
+    template = updated;
+  };
+
+  beforeEach(() => {
+    template = createEmptyEmailTemplate('Localized');
+    template.components = [createText({ id: 'body', content: { type: 'paragraph', html: '<p>Hello</p>' } })];
+  });
+
+  it('should set and undo localized texts', async () => {
+    const command = new TemplateSetLocalizedTextCommand(
+      { locale: 'fr-FR', texts: { 'body:content.html': '<p>Bonjour</p>' }, draft: true },
+      getTemplate,
+      setTemplate
+    );
+
+    await command.execute();
+
+    expect(template?.localization?.locales).toEqual(['fr-FR']);
+    expect(template?.localization?.translations['fr-FR']?.['body:content.html']).toEqual({
+      value: '<p>Bonjour</p>',
+      source: '<p>Hello</p>',
+      draft: true,
+    });
+
+    await command.undo();
+
+    expect(template?.localization).toBeUndefined();
+  });
+
+  it('should replace the template locales', async () => {
+    await new TemplateSetLocalizedTextCommand(
+      { locale: 'fr-FR', texts: { 'body:content.html': '<p>Bonjour</p>' } },
+      getTemplate,
+      setTemplate
+    ).execute();
+
+    await new TemplateSetLocalesCommand({ locales: ['de-DE', 'es-ES'] }, getTemplate, setTemplate).execute();
+
+    expect(template?.localization?.locales).toEqual(['de-DE', 'es-ES']);
+    expect(template?.localization?.translations['fr-FR']).toBeUndefined();
+  });
+});
+
+describe('Theme commands', () => {
+  let template: Template | null;
+  const getTemplate = () => template;
+  const setTemplate = (updated: Template) => {
+    template = updated;
+  };
+
+  beforeEach(() => {
+    template = createEmptyEmailTemplate('Themed');
+    template.generalStyles.themeId = 'modern';
+    template.components = [createButton({ id: 'cta', styles: { backgroundColor: '#000000' } })];
+  });
+
+  it('should bind and undo a style token', async () => {
+    const command = new TemplateSetStyleTokenCommand(
+      { componentId: 'cta', property: 'backgroundColor', token: 'colors.primary.500', theme: modernTheme },
+      getTemplate,
+      setTemplate
+    );
+
+    await command.execute();
+
+    expect(template?.components[0]?.styleTokens).toEqual({ backgroundColor: 'colors.primary.500' });
+    expect(template?.components[0]?.styles.backgroundColor).toBe('#3b82f6');
+
+    await command.undo();
+
+    expect(template?.components[0]?.styleTokens).toBeUndefined();
+    expect(template?.components[0]?.styles.backgroundColor).toBe('#000000');
+  });
+
+  it('should restyle bound components when the theme changes', async () => {
+    await new TemplateSetStyleTokenCommand(
+      { componentId: 'cta', property: 'backgroundColor', token: 'colors.primary.500', theme: modernTheme },
+      getTemplate,
+      setTemplate
+    ).execute();
+
+    const command = new TemplateSetThemeCommand({ theme: boldTheme }, getTemplate, setTemplate);
+    await command.execute();
+
+    expect(template?.generalStyles.themeId).toBe('bold');
+    expect(template?.components[0]?.styles.backgroundColor).toBe('#f43f5e');
+
+    await command.undo();
+
+    expect(template?.generalStyles.themeId).toBe('modern');
+    expect(template?.components[0]?.styles.backgroundColor).toBe('#3b82f6');
+  });
+
+  it('should detach the template from its theme', async () => {
+    await new TemplateSetThemeCommand({ theme: undefined }, getTemplate, setTemplate).execute();
+
+    expect(template?.generalStyles).not.toHaveProperty('themeId');
+  });
+});
+
+describe('Customization commands', () => {
+  let template: Template | null;
+  const getTemplate = () => template;
+  const setTemplate = (updated: Template) => {
+    template = updated;
+  };
+  const customization = new CustomizationManager();
+
+  beforeEach(() => {
+    template = createEmptyEmailTemplate('Customized');
+    template.components = [createButton({ id: 'cta', styles: { backgroundColor: '#000000' } })];
+  });
+
+  it('should apply and undo variants', async () => {
+    const command = new TemplateApplyVariantCommand(
+      { componentId: 'cta', variantIds: ['button-primary', 'button-sm'] },
+      getTemplate,
+      setTemplate,
+      customization.variants
+    );
+
+    await command.execute();
+
+    expect(template?.components[0]?.styles.backgroundColor).toBe('#3b82f6');
+    expect(template?.components[0]?.styles.padding?.top).toEqual({ value: 6, unit: 'px' });
+
+    await command.undo();
+
+    expect(template?.components[0]?.styles.backgroundColor).toBe('#000000');
+  });
+
+  it('should unbind the theme tokens of the properties a recipe sets', async () => {
+    template!.components[0]!.styleTokens = { backgroundColor: 'colors.primary.500', color: 'colors.neutral.50' };
+
+    await new TemplateApplyRecipeCommand(
+      { componentId: 'cta', recipeId: 'card' },
+      getTemplate,
+      setTemplate,
+      customization.recipes
+    ).execute();
+
+    expect(template?.components[0]?.styles.border?.color).toBe('#e5e7eb');
+    expect(template?.components[0]?.styleTokens).toEqual({ color: 'colors.neutral.50' });
+  });
+
+  it('should reject unknown variants and recipes', async () => {
+    await expect(
+      new TemplateApplyVariantCommand(
+        { componentId: 'cta', variantIds: ['button-missing'] },
+        getTemplate,
+        setTemplate,
+        customization.variants
+      ).execute()
+    ).rejects.toThrow(CustomizationError);
+    await expect(
+      new TemplateApplyRecipeCommand(
+        { componentId: 'cta', recipeId: 'missing' },
+        getTemplate,
+        setTemplate,
+        customization.recipes
+      ).execute()
+    ).rejects.toThrow('Recipe not found: missing');
+  });
+});
+
+describe('Multi-component commands', () => {
+  let template: Template | null;
+  const getTemplate = () => template;
+  const setTemplate = (updated: Template) => {
+    template = updated;
+  };
+  const ids = () => template!.components.map((component) => component.id);
+
+  beforeEach(() => {
+    template = createEmptyEmailTemplate('Campaign');
+    template.components = [
+      createText({ id: 'a' }),
+      createButton({ id: 'b' }),
+      createText({ id: 'c' }),
+      createImage({ id: 'd' }),
+    ];
+  });
+
+  it('should delete several components and undo it in one step', async () => {
+    const command = new TemplateBulkComponentCommand(
+      { componentIds: ['a', 'c'], operation: { type: 'delete' } },
+      getTemplate,
+      setTemplate
+    );
+
+    await command.execute();
+    expect(ids()).toEqual(['b', 'd']);
+
+    await command.undo();
+    expect(ids()).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('should duplicate each component after itself', async () => {
+    const command = new TemplateBulkComponentCommand(
+      { componentIds: ['c', 'a'], operation: { type: 'duplicate' } },
+      getTemplate,
+      setTemplate
+    );
+
+    await command.execute();
+
+    const [copyA, copyC] = command.getResultComponentIds();
+    expect(ids()).toEqual(['a', copyA, 'b', 'c', copyC, 'd']);
+  });
+
+  it('should keep the IDs of duplicates on redo', async () => {
+    const command = new TemplateBulkComponentCommand(
+      { componentIds: ['a', 'c'], operation: { type: 'duplicate' } },
+      getTemplate,
+      setTemplate
+    );
+
+    await command.execute();
+    const duplicated = ids();
+    await command.undo();
+    await command.execute();
+
+    expect(ids()).toEqual(duplicated);
+  });
+
+  it('should move components together, in document order', async () => {
+    await new TemplateBulkComponentCommand(
+      { componentIds: ['d', 'a'], operation: { type: 'move', index: 2 } },
+      getTemplate,
+      setTemplate
+    ).execute();
+
+    expect(ids()).toEqual(['b', 'a', 'd', 'c']);
+  });
+
+  it('should move components into a column, and not into themselves', async () => {
+    const row = createRow({ id: 'row' });
+    template!.components.push(row);
+    const columnId = row.children![0]!.id;
+
+    await new TemplateBulkComponentCommand(
+      { componentIds: ['a', 'b'], operation: { type: 'move', index: 0, parentId: columnId } },
+      getTemplate,
+      setTemplate
+    ).execute();
+
+    expect(ids()).toEqual(['c', 'd', 'row']);
+    expect(template!.components[2]!.children![0]!.children?.map((child) => child.id)).toEqual(['a', 'b']);
+    await expect(
+      new TemplateBulkComponentCommand(
+        { componentIds: ['row'], operation: { type: 'move', index: 0, parentId: columnId } },
+        getTemplate,
+        setTemplate
+      ).execute()
+    ).rejects.toThrow('Cannot move components into themselves');
+  });
+
+  it('should restyle components and unbind the tokens of the restyled properties', async () => {
+    template!.components[1]!.styleTokens = { backgroundColor: 'colors.primary.500' };
+
+    await new TemplateBulkComponentCommand(
+      { componentIds: ['a', 'b'], operation: { type: 'restyle', styles: { backgroundColor: '#fef3c7' } } },
+      getTemplate,
+      setTemplate
+    ).execute();
+
+    expect(template!.components.slice(0, 2).map((component) => component.styles.backgroundColor)).toEqual([
+      '#fef3c7',
+      '#fef3c7',
+    ]);
+    expect(template!.components[1]!.styleTokens).toBeUndefined();
+    expect(template!.components[2]!.styles.backgroundColor).not.toBe('#fef3c7');
+  });
+
+  it('should reject selections without components', async () => {
+    await expect(
+      new TemplateBulkComponentCommand(
+        { componentIds: ['missing'], operation: { type: 'delete' } },
+        getTemplate,
+        setTemplate
+      ).execute()
+    ).rejects.toThrow('Components not found: missing');
+  });
+
+  it('should paste components with new IDs after a component', async () => {
+    const copied = [createText({ id: 'a' }), createButton({ id: 'b' })];
+    const command = new TemplatePasteComponentsCommand(
+      { components: copied, afterComponentId: 'a' },
+      getTemplate,
+      setTemplate
+    );
+
+    await command.execute();
+
+    const pasted = command.getPastedComponentIds();
+    expect(pasted).toHaveLength(2);
+    expect(pasted).not.toContain('a');
+    expect(ids()).toEqual(['a', ...pasted, 'b', 'c', 'd']);
+
+    await command.undo();
+    expect(ids()).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('should paste the same IDs on redo', async () => {
+    const command = new TemplatePasteComponentsCommand({ components: [createText({ id: 'a' })] }, getTemplate, setTemplate);
+
+    await command.execute();
+    const [pasted] = command.getPastedComponentIds();
+    await command.undo();
+    await command.execute();
+
+    expect(command.getPastedComponentIds()).toEqual([pasted]);
+    expect(ids()).toEqual(['a', 'b', 'c', 'd', pasted]);
+  });
+});
@@ -3,6 +3,7 @@
  */
 
 export { CommandManager } from './CommandManager';
+export { CompositeCommand } from './CompositeCommand';
 export { AddComponentCommand } from './AddComponentCommand';
 export { RemoveComponentCommand } from './RemoveComponentCommand';
 export { UpdateComponentContentCommand } from './UpdateComponentContentCommand';
@@ -17,6 +18,18 @@ export { TemplateUpdateComponentCommand } from './TemplateUpdateComponentCommand
 export { TemplateRemoveComponentCommand } from './TemplateRemoveComponentCommand';
 export { TemplateReorderComponentCommand } from './TemplateReorderComponentCommand';
 export { TemplateDuplicateComponentCommand } from './TemplateDuplicateComponentCommand';
+export { FixCompatibilityIssuesCommand } from './FixCompatibilityIssuesCommand';
+export { TemplateSetRowLayoutCommand } from './TemplateSetRowLayoutCommand';
+export { TemplateLinkGlobalBlockCommand } from './TemplateLinkGlobalBlockCommand';
+export { TemplateDetachGlobalBlockCommand } from './TemplateDetachGlobalBlockCommand';
+export { TemplateSetLocalizedTextCommand } from './TemplateSetLocalizedTextCommand';
+export { TemplateSetLocalesCommand } from './TemplateSetLocalesCommand';
+export { TemplateSetStyleTokenCommand } from './TemplateSetStyleTokenCommand';
+export { TemplateSetThemeCommand } from './TemplateSetThemeCommand';
+export { TemplateApplyVariantCommand } from './TemplateApplyVariantCommand';
+export { TemplateApplyRecipeCommand } from './TemplateApplyRecipeCommand';
+export { TemplateBulkComponentCommand } from './TemplateBulkComponentCommand';
+export { TemplatePasteComponentsCommand } from './TemplatePasteComponentsCommand';
 
 // Preset commands
 export { CreatePresetCommand } from './CreatePresetCommand';
@@ -24,6 +37,7 @@ export { UpdatePresetCommand } from './UpdatePresetCommand';
 export { DeletePresetCommand } from './DeletePresetCommand';
 export { ApplyPresetCommand } from './ApplyPresetCommand';
 
+export type { CompositeCommandPayload } from './CompositeCommand';
 export type { AddComponentPayload, ComponentData } from './AddComponentCommand';
 export type { RemoveComponentPayload } from './RemoveComponentCommand';
 export type { UpdateComponentContentPayload } from './UpdateComponentContentCommand';
@@ -38,6 +52,18 @@ export type { TemplateUpdateComponentPayload } from './TemplateUpdateComponentCo
 export type { TemplateRemoveComponentPayload } from './TemplateRemoveComponentCommand';
 export type { TemplateReorderComponentPayload } from './TemplateReorderComponentCommand';
 export type { TemplateDuplicateComponentPayload } from './TemplateDuplicateComponentCommand';
+export type { FixCompatibilityIssuesPayload } from './FixCompatibilityIssuesCommand';
+export type { TemplateSetRowLayoutPayload } from './TemplateSetRowLayoutCommand';
+export type { TemplateLinkGlobalBlockPayload } from './TemplateLinkGlobalBlockCommand';
+export type { TemplateDetachGlobalBlockPayload } from './TemplateDetachGlobalBlockCommand';
+export type { TemplateSetLocalizedTextPayload } from './TemplateSetLocalizedTextCommand';
+export type { TemplateSetLocalesPayload } from './TemplateSetLocalesCommand';
+export type { TemplateSetStyleTokenPayload } from './TemplateSetStyleTokenCommand';
+export type { TemplateSetThemePayload } from './TemplateSetThemeCommand';
+export type { TemplateApplyVariantPayload } from './TemplateApplyVariantCommand';
+export type { TemplateApplyRecipePayload } from './TemplateApplyRecipeCommand';
+export type { TemplateBulkComponentPayload, TemplateBulkComponentOperation } from './TemplateBulkComponentCommand';
+export type { TemplatePasteComponentsPayload } from './TemplatePasteComponentsCommand';
 
 // Preset command types
 export type { CreatePresetPayload } from './CreatePresetCommand';
@@ -0,0 +1,117 @@
+/**
+ * Client Rendering Simulator Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ClientRenderingSimulator } from './ClientRenderingSimulator';
+
+const html = [
+  '<html><head><style>.card { border-radius: 8px; color: #111; } @media (max-width: 600px) { .card { width: 100%; } }</style></head>',
+  '<body>',
+  '<div class="card" style="border-radius: 8px; background: #f4f4f4 url(hero.png) no-repeat; color: #111">',
+  '<a style="display: flex; border-radius: 8px; padding: 10px">Go</a>',
+  '<div style="max-width: 600px; box-shadow: 0 1px 2px #000">Text</div>',
+  '</div>',
+  '</body></html>',
+].join('');
+
+describe('ClientRenderingSimulator', () => {
+  let simulator: ClientRenderingSimulator;
+
+  beforeEach(() => {
+    simulator = new ClientRenderingSimulator();
+  });
+
+  describe('Outlook for Windows', () => {
+    it('should remove unsupported properties and group repeated differences', () => {
+      const result = simulator.simulate(html, 'outlook-2019-win');
+
+      expect(result.html).not.toContain('border-radius');
+      expect(result.html).not.toContain('box-shadow');
+      expect(result.differences).toContainEqual({
+        change: 'removed-declaration',
+        location: 'inline',
+        property: 'border-radius',
+        original: 'border-radius: 8px',
+        reason: 'Outlook 2019 (Windows) does not support border-radius',
+        workaround: 'Use VML rounded rectangles',
+        count: 2,
+      });
+      expect(result.differences).toContainEqual(
+        expect.objectContaining({ change: 'removed-declaration', location: 'style-block', property: 'border-radius' })
+      );
+    });
+
+    it('should rewrite background shorthands without their images', () => {
+      const result = simulator.simulate(html, 'outlook-2019-win');
+
+      expect(result.html).toContain('background: #f4f4f4 no-repeat');
+      expect(result.differences).toContainEqual(
+        expect.objectContaining({
+          change: 'rewritten-declaration',
+          original: 'background: #f4f4f4 url(hero.png) no-repeat',
+          replacement: 'background: #f4f4f4 no-repeat',
+          reason: 'Outlook 2019 (Windows) does not load CSS background images',
+        })
+      );
+    });
+
+    it('should remove the properties and values of its rendering profile', () => {
+      const result = simulator.simulate(html, 'outlook-2019-win');
+      const originals = result.differences.map((difference) => difference.original);
+
+      expect(originals).toContain('display: flex');
+      expect(originals).toContain('max-width: 600px');
+      expect(result.html).toContain('padding: 10px');
+    });
+
+    it('should count the declarations removed', () => {
+      const result = simulator.simulate(html, 'outlook-2019-win');
+
+      expect(result.declarationCount).toBe(11);
+      expect(result.removedDeclarationCount).toBe(6);
+    });
+  });
+
+  describe('Gmail apps', () => {
+    it('should keep <style> blocks for Gmail accounts', () => {
+      const result = simulator.simulate(html, 'gmail-android');
+
+      expect(result.html).toContain('<style>');
+      expect(result.differences).toEqual([]);
+    });
+
+    it('should remove <style> blocks for non-Gmail accounts', () => {
+      const result = simulator.simulate(html, 'gmail-android', { nonGmailAccount: true });
+
+      expect(result.html).not.toContain('<style>');
+      expect(result.html).toContain('style="border-radius: 8px;');
+      expect(result.removedDeclarationCount).toBe(3);
+      expect(result.differences).toEqual([
+        expect.objectContaining({
+          change: 'removed-style-block',
+          reason: 'Gmail (Android) removes <style> blocks for non-Gmail accounts',
+          count: 1,
+        }),
+      ]);
+    });
+  });
+
+  it('should report partially supported properties it keeps', () => {
+    const result = simulator.simulate(html, 'gmail-webmail');
+
+    expect(result.html).toContain('box-shadow');
+    expect(result.partialProperties).toContain('box-shadow');
+  });
+
+  it('should accept custom rendering profiles', () => {
+    simulator = new ClientRenderingSimulator(undefined, {
+      'apple-mail-macos': { removesStyleBlocks: 'always' },
+    });
+
+    const result = simulator.simulate(html, 'apple-mail-macos');
+
+    expect(result.html).not.toContain('<style>');
+    expect(result.differences[0]?.reason).toBe('Apple Mail (macOS) removes <style> blocks');
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Client Rendering Simulator
+ *
+ * Simulates how email clients alter the CSS of an email, from the
+ * compatibility data
+ *
+ * @module compatibility
+ */
+
+import type {
+  ClientRenderingDifference,
+  ClientRenderingOptions,
+  ClientRenderingProfile,
+  ClientRenderingResult,
+  EmailClientId,
+} from './compatibility.types';
+import { EMAIL_CLIENT_LABELS, SupportLevel } from './compatibility.types';
+import { CLIENT_RENDERING_PROFILES } from './compatibility-data';
+import { CompatibilityService } from './CompatibilityService';
+
+/**
+ * Change a client makes to one declaration
+ */
+interface DeclarationChange {
+  reason: string;
+  workaround?: string | undefined;
+
+  /**
+   * Value the client keeps; the declaration is removed when undefined
+   */
+  replacement?: string;
+}
+
+/**
+ * Email client rendering simulator
+ *
+ * Applies to exported HTML the changes an email client would make: CSS
+ * declarations the client does not support are removed from the inline
+ * styles and `<style>` blocks, and clients with a rendering profile also
+ * drop `<style>` blocks, background images or unsupported values. Each
+ * change is reported as a difference, grouped when repeated.
+ *
+ * This is a preview of the support data, not a rendering engine: layout
+ * quirks of the clients are not reproduced.
+ *
+ * @example
+ * ```ts
+ * const simulator = new ClientRenderingSimulator();
+ * const outlook = simulator.simulate(html, 'outlook-2019-win');
+ *
+ * outlook.differences.forEach((difference) => {
+ *   console.log(`${difference.original} (${difference.count}x): ${difference.reason}`);
+ * });
+ * ```
+ */
+export class ClientRenderingSimulator {
+  private compatibilityService: CompatibilityService;
+  private profiles: Partial<Record<EmailClientId, ClientRenderingProfile>>;
+
+  /**
+   * @param compatibilityService - Client support data
+   * @param profiles - Client-specific rendering
+   */
+  constructor(
+    compatibilityService: CompatibilityService = new CompatibilityService(),
+    profiles: Partial<Record<EmailClientId, ClientRenderingProfile>> = CLIENT_RENDERING_PROFILES
+  ) {
+    this.compatibilityService = compatibilityService;
+    this.profiles = profiles;
+  }
+
+  /**
+   * Simulate an email client
+   *
+   * @param html - Exported HTML
+   * @param client - Email client
+   * @param options - Simulation options
+   * @returns HTML as the client renders it, and the differences
+   */
+  public simulate(
+    html: string,
+    client: EmailClientId,
+    options: ClientRenderingOptions = {}
+  ): ClientRenderingResult {
+    const profile = this.profiles[client] ?? {};
+    const label = EMAIL_CLIENT_LABELS[client];
+    const differences = new Map<string, ClientRenderingDifference>();
+    const partialProperties = new Set<string>();
+    let declarationCount = 0;
+    let removedDeclarationCount = 0;
+
+    const record = (difference: Omit<ClientRenderingDifference, 'count'>): void => {
+      const key = [difference.change, difference.location, difference.original, difference.replacement].join('|');
+      const existing = differences.get(key);
+      if (existing) {
+        existing.count += 1;
+      } else {
+        differences.set(key, { ...difference, count: 1 });
+      }
+    };
+
+    const applyToDeclarations = (css: string, location: ClientRenderingDifference['location']): string =>
+      css
+        .split(';')
+        .flatMap((declaration) => {
+          const separator = declaration.indexOf(':');
+          if (separator === -1) {
+            return [declaration];
+          }
+
+          declarationCount += 1;
+          const property = declaration.slice(0, separator).trim().toLowerCase();
+          const value = declaration.slice(separator + 1).trim();
+          const change = this.getDeclarationChange(client, profile, property, value);
+
+          if (!change) {
+            if (this.compatibilityService.getPropertySupportForClient(property, client)?.level === SupportLevel.PARTIAL) {
+              partialProperties.add(property);
+            }
+            return [declaration];
+          }
+
+          const base = {
+            location,
+            property,
+            original: `${property}: ${value}`,
+            reason: change.reason,
+            ...(change.workaround && { workaround: change.workaround }),
+          };
+          if (change.replacement === undefined) {
+            removedDeclarationCount += 1;
+            record({ ...base, change: 'removed-declaration' });
+            return [];
+          }
+          record({ ...base, change: 'rewritten-declaration', replacement: `${property}: ${change.replacement}` });
+          return [`${declaration.slice(0, separator + 1)} ${change.replacement}`];
+        })
+        .join(';');
+
+    const removesStyleBlocks =
+      profile.removesStyleBlocks === 'always' ||
+      (profile.removesStyleBlocks === 'non-gmail-account' && options.nonGmailAccount === true);
+
+    const renderedHtml = html
+      .replace(/(<style\b[^>]*>)([\s\S]*?)(<\/style>)/gi, (_match, open: string, css: string, close: string) => {
+        if (!removesStyleBlocks) {
+          return open + css.replace(/\{([^{}]*)\}/g, (_block, body: string) => `{${applyToDeclarations(body, 'style-block')}}`) + close;
+        }
+
+        const count = Array.from(css.matchAll(/\{([^{}]*)\}/g)).reduce(
+          (total, block) => total + block[1]!.split(';').filter((declaration) => declaration.includes(':')).length,
+          0
+        );
+        declarationCount += count;
+        removedDeclarationCount += count;
+        record({
+          change: 'removed-style-block',
+          location: 'style-block',
+          original: css.trim(),
+          reason:
+            profile.removesStyleBlocks === 'always'
+              ? `${label} removes <style> blocks`
+              : `${label} removes <style> blocks for non-Gmail accounts`,
+          workaround: 'Inline the CSS the email depends on',
+        });
+        return '';
+      })
+      .replace(
+        /(\sstyle\s*=\s*)(?:"([^"]*)"|'([^']*)')/gi,
+        (_match, attribute: string, doubleQuoted?: string, singleQuoted?: string) =>
+          doubleQuoted !== undefined
+            ? `${attribute}"${applyToDeclarations(doubleQuoted, 'inline')}"`
+            : `${attribute}'${applyToDeclarations(singleQuoted ?? '', 'inline')}'`
+      );
+
+    return {
+      client,
+      html: renderedHtml,
+      differences: Array.from(differences.values()),
+      declarationCount,
+      removedDeclarationCount,
+      partialProperties: Array.from(partialProperties),
+    };
+  }
+
+  /**
+   * Get the change a client makes to a declaration, if any
+   */
+  private getDeclarationChange(
+    client: EmailClientId,
+    profile: ClientRenderingProfile,
+    property: string,
+    value: string
+  ): DeclarationChange | undefined {
+    const label = EMAIL_CLIENT_LABELS[client];
+    const support = this.compatibilityService.getPropertySupportForClient(property, client);
+    const workaround = support?.workarounds?.[0];
+
+    if (support?.level === SupportLevel.NONE) {
+      return { reason: `${label} does not support ${property}`, workaround };
+    }
+    if (profile.removedProperties?.includes(property)) {
+      return { reason: `${label} ignores ${property}`, workaround };
+    }
+
+    if (profile.removesBackgroundImages && (property === 'background-image' || property === 'background')) {
+      const imageWorkaround = this.compatibilityService.getPropertySupportForClient('background-image', client)
+        ?.workarounds?.[0];
+      const reason = `${label} does not load CSS background images`;
+
+      if (property === 'background-image') {
+        return { reason, workaround: imageWorkaround };
+      }
+      if (/url\(/i.test(value)) {
+        const replacement = value.replace(/url\([^)]*\)/gi, '').replace(/\s+/g, ' ').trim();
+        return replacement
+          ? { reason, workaround: imageWorkaround, replacement }
+          : { reason, workaround: imageWorkaround };
+      }
+    }
+
+    const keyword = value.replace(/\s*!important$/i, '').toLowerCase();
+    if (profile.unsupportedValues?.[property]?.includes(keyword)) {
+      return { reason: `${label} does not support ${property}: ${keyword}`, workaround };
+    }
+
+    return undefined;
+  }
+}
@@ -5,6 +5,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { CompatibilityChecker, IssueSeverity, IssueCategory } from './CompatibilityChecker';
 import { CompatibilityService } from './CompatibilityService';
+import { CompatibilityFixerRegistry } from './CompatibilityFixer';
 import type { BaseComponent } from '../types';
 
 describe('CompatibilityChecker', () => {
@@ -557,4 +558,64 @@ describe('CompatibilityChecker', () => {
       expect(report.overallScore).toBeLessThanOrEqual(100);
     });
   });
+
+  describe('auto-fix availability', () => {
+    it('should flag rounded buttons without a VML fallback', () => {
+      const button = {
+        id: 'btn-1',
+        type: 'button',
+        content: { text: 'Buy' },
+        styles: { border: { radius: { topLeft: { value: 6, unit: 'px' }, topRight: { value: 6, unit: 'px' } } } },
+        children: [],
+      } as unknown as BaseComponent;
+
+      const issue = checker.checkTemplate([button]).issues.warnings.find((i) => i.property === 'border-radius');
+
+      expect(issue).toMatchObject({ value: '6px 6px', autoFixAvailable: true, fixLabel: 'Add Outlook VML button' });
+
+      button.styles = { ...button.styles, vmlFallback: true } as BaseComponent['styles'];
+      expect(checker.checkTemplate([button]).totalIssues).toBe(0);
+    });
+
+    it('should report each relative unit once per component', () => {
+      const components = [
+        {
+          id: 'text-1',
+          type: 'text',
+          content: {},
+          styles: {
+            fontSize: { value: 1.5, unit: 'rem' },
+            padding: { top: { value: 1, unit: 'rem' }, left: { value: 10, unit: 'vw' } },
+          },
+          children: [],
+        },
+      ] as unknown as BaseComponent[];
+
+      const report = checker.checkTemplate(components);
+
+      expect(report.issues.warnings.map((i) => [i.property, i.value, i.fixLabel])).toEqual([
+        ['rem', '1.5rem, 1rem', 'Convert to px'],
+        ['vw', '10vw', 'Convert to px'],
+      ]);
+    });
+
+    it('should take auto-fix availability from the fixer registry', () => {
+      const components: BaseComponent[] = [
+        {
+          id: 'img-1',
+          type: 'image',
+          content: { src: 'https://example.com/a.png', width: 100, height: 100 },
+          children: [],
+        },
+      ];
+
+      const defaultIssue = checker.checkTemplate(components).issues.warnings[0];
+      const bareIssue = new CompatibilityChecker(service, new CompatibilityFixerRegistry()).checkTemplate(components)
+        .issues.warnings[0];
+
+      expect(defaultIssue).toMatchObject({ property: 'alt', autoFixAvailable: true });
+      expect(bareIssue).toMatchObject({ property: 'alt', autoFixAvailable: false });
+      expect(bareIssue).not.toHaveProperty('fixLabel');
+    });
+  });
 });
@@ -6,8 +6,10 @@
  * @module compatibility
  */
 
-import type { BaseComponent } from '../types';
+import type { BaseComponent, CSSValue } from '../types';
 import { CompatibilityService } from './CompatibilityService';
+import { RELATIVE_UNITS, createDefaultFixerRegistry, isCSSValue } from './CompatibilityFixer';
+import type { CompatibilityFixerRegistry } from './CompatibilityFixer';
 
 /**
  * Severity level for compatibility issues
@@ -98,6 +100,11 @@ export interface CompatibilityIssue {
    */
   autoFixAvailable: boolean;
 
+  /**
+   * Label of the automatic fix action (when available)
+   */
+  fixLabel?: string;
+
   /**
    * Suggested fix description
    */
@@ -197,10 +204,19 @@ const PROBLEMATIC_CSS_PROPERTIES = [
  */
 export class CompatibilityChecker {
   private compatibilityService: CompatibilityService;
+  private fixers: CompatibilityFixerRegistry;
   private issueCounter = 0;
 
-  constructor(compatibilityService: CompatibilityService) {
+  /**
+   * @param compatibilityService - Client support data
+   * @param fixers - Fixers deciding which issues are auto-fixable
+   */
+  constructor(
+    compatibilityService: CompatibilityService,
+    fixers: CompatibilityFixerRegistry = createDefaultFixerRegistry()
+  ) {
     this.compatibilityService = compatibilityService;
+    this.fixers = fixers;
   }
 
   /**
@@ -259,6 +275,12 @@ export class CompatibilityChecker {
 
     // Check CSS properties
     issues.push(...this.checkCSSProperties(component));
+    issues.push(...this.checkUnits(component));
+
+    // Check buttons
+    if (component.type === 'button') {
+      issues.push(...this.checkButton(component));
+    }
 
     // Check images
     if (component.type === 'image') {
@@ -301,7 +323,6 @@ export class CompatibilityChecker {
           value: String(value),
           message: `CSS property "${property}" has poor email client support (${stats.supportScore}%)`,
           details: `Only ${stats.fullSupport} of ${stats.totalClients} email clients fully support this property. This may cause broken layouts or be completely ignored.`,
-          autoFixAvailable: this.canAutoFixProperty(property),
           suggestedFix: this.getSuggestedFix(property, value),
           affectedClients: stats.totalClients - stats.fullSupport,
           supportScore: stats.supportScore,
@@ -317,7 +338,6 @@ export class CompatibilityChecker {
           value: String(value),
           message: `CSS property "${property}" has limited email client support (${stats.supportScore}%)`,
           details: `${stats.fullSupport} of ${stats.totalClients} email clients fully support this property. Consider using email-safe alternatives.`,
-          autoFixAvailable: this.canAutoFixProperty(property),
           suggestedFix: this.getSuggestedFix(property, value),
           affectedClients: stats.totalClients - stats.fullSupport,
           supportScore: stats.supportScore,
@@ -335,7 +355,6 @@ export class CompatibilityChecker {
           value: String(value),
           message: `CSS "${value}" layout is not supported in email clients`,
           details: `Most email clients do not support modern CSS layout methods like flexbox and grid. Use table-based layouts instead.`,
-          autoFixAvailable: true,
           suggestedFix: 'EmailExportService can automatically convert to table-based layout during export',
           affectedClients: 15,
           supportScore: 20,
@@ -352,7 +371,6 @@ export class CompatibilityChecker {
           value: String(value),
           message: `CSS position "${value}" is not reliably supported in email clients`,
           details: `Positioned elements (absolute, relative, fixed) are not supported in most email clients, especially Outlook.`,
-          autoFixAvailable: false,
           suggestedFix: 'Restructure your layout using tables and nested elements instead of positioning',
           affectedClients: 12,
           supportScore: 35,
@@ -363,6 +381,76 @@ export class CompatibilityChecker {
     return issues;
   }
 
+  /**
+   * Check styles and content for relative units
+   */
+  private checkUnits(component: BaseComponent): CompatibilityIssue[] {
+    const values: CSSValue[] = [];
+    const collect = (source: unknown): void => {
+      if (isCSSValue(source)) {
+        values.push(source);
+      } else if (typeof source === 'object' && source !== null) {
+        Object.values(source).forEach(collect);
+      }
+    };
+    collect(component.styles);
+    collect(component.content);
+
+    return RELATIVE_UNITS.filter((unit) => values.some((value) => value.unit === unit)).map((unit) =>
+      this.createIssue({
+        severity: IssueSeverity.WARNING,
+        category: IssueCategory.CSS,
+        componentId: component.id,
+        componentType: component.type,
+        property: unit,
+        value: values
+          .filter((value) => value.unit === unit)
+          .map((value) => `${value.value}${value.unit}`)
+          .join(', '),
+        message: `CSS unit "${unit}" is not reliably supported in email clients`,
+        details:
+          unit === 'vw'
+            ? 'Viewport units are ignored by most email clients, whose viewport is not the email width.'
+            : 'Outlook for Windows and several webmail clients ignore or miscalculate relative font units.',
+        suggestedFix: 'Use pixel values instead',
+      })
+    );
+  }
+
+  /**
+   * Check button-specific issues
+   */
+  private checkButton(component: BaseComponent): CompatibilityIssue[] {
+    const styles = component.styles || {};
+    const radius = Object.values(styles.border?.radius ?? {}).filter(
+      (corner) => isCSSValue(corner) && typeof corner.value === 'number' && corner.value > 0
+    );
+
+    if (radius.length === 0 || (styles as { vmlFallback?: boolean }).vmlFallback) {
+      return [];
+    }
+
+    const stats = this.compatibilityService.getPropertyStatistics('border-radius');
+
+    return [
+      this.createIssue({
+        severity: IssueSeverity.WARNING,
+        category: IssueCategory.CSS,
+        componentId: component.id,
+        componentType: component.type,
+        property: 'border-radius',
+        value: radius.map((corner) => `${corner.value}${corner.unit}`).join(' '),
+        message: 'Rounded button corners are square in Outlook for Windows',
+        details: 'Outlook for Windows ignores border-radius. A VML round rectangle keeps the button rounded there.',
+        suggestedFix: this.getSuggestedFix('border-radius', undefined),
+        ...(stats && {
+          affectedClients: stats.totalClients - stats.fullSupport,
+          supportScore: stats.supportScore,
+        }),
+      }),
+    ];
+  }
+
   /**
    * Check image-specific issues
    */
@@ -381,7 +469,6 @@ export class CompatibilityChecker {
         property: 'alt',
         message: 'Image is missing alt text',
         details: 'Alt text is important for accessibility and displays when images are blocked by email clients.',
-        autoFixAvailable: true,
         suggestedFix: 'Add descriptive alt text for this image',
       }));
     }
@@ -396,7 +483,6 @@ export class CompatibilityChecker {
         property: 'width',
         message: 'Image is missing explicit width attribute',
         details: 'Setting explicit width helps email clients render images correctly and prevents layout shifts.',
-        autoFixAvailable: false,
         suggestedFix: 'Add width attribute to the image',
       }));
     }
@@ -410,7 +496,6 @@ export class CompatibilityChecker {
         property: 'height',
         message: 'Image is missing explicit height attribute',
         details: 'Setting explicit height helps email clients render images correctly and prevents layout shifts.',
-        autoFixAvailable: false,
         suggestedFix: 'Add height attribute to the image',
       }));
     }
@@ -427,7 +512,6 @@ export class CompatibilityChecker {
         value: src,
         message: 'Image uses relative URL instead of absolute URL',
         details: 'Email clients require absolute URLs (starting with http:// or https://) for images to display correctly.',
-        autoFixAvailable: false,
         suggestedFix: 'Use an absolute URL for the image source',
       }));
     }
@@ -451,7 +535,6 @@ export class CompatibilityChecker {
         componentType: component.type,
         message: `${component.type} is missing accessible text content`,
         details: 'Interactive elements should have descriptive text for screen readers.',
-        autoFixAvailable: false,
         suggestedFix: 'Add descriptive text to the element',
       }));
     }
@@ -477,7 +560,6 @@ export class CompatibilityChecker {
           componentType: component.type,
           message: 'Text content is very long',
           details: 'Long blocks of text can be difficult to read in email. Consider breaking it into smaller sections.',
-          autoFixAvailable: false,
           suggestedFix: 'Break long text into shorter paragraphs or sections',
         }));
       }
@@ -486,15 +568,6 @@ export class CompatibilityChecker {
     return issues;
   }
 
-  /**
-   * Check if a property can be automatically fixed
-   */
-  private canAutoFixProperty(property: string): boolean {
-    // Properties that can be handled by EmailExportService
-    const autoFixable = ['display', 'flex', 'grid', 'flex-direction', 'justify-content', 'align-items'];
-    return autoFixable.includes(property);
-  }
-
   /**
    * Get suggested fix for a property
    */
@@ -516,13 +589,19 @@ export class CompatibilityChecker {
 
   /**
    * Create a new issue with a unique ID
+   *
+   * The issue is auto-fixable when the fixer registry has a fixer for it.
    */
   private createIssue(
-    issue: Omit<CompatibilityIssue, 'id'>
+    issue: Omit<CompatibilityIssue, 'id' | 'autoFixAvailable' | 'fixLabel'>
   ): CompatibilityIssue {
+    const fixer = this.fixers.get(issue);
+
     return {
       ...issue,
       id: `issue-${++this.issueCounter}`,
+      autoFixAvailable: fixer !== undefined,
+      ...(fixer && { fixLabel: fixer.label }),
     };
   }
 
@@ -0,0 +1,174 @@
+/**
+ * Compatibility Fixer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CompatibilityFixerRegistry,
+  altTextFromFilename,
+  createDefaultFixerRegistry,
+  toPixelValue,
+} from './CompatibilityFixer';
+import { CompatibilityChecker, IssueCategory, IssueSeverity } from './CompatibilityChecker';
+import type { CompatibilityIssue } from './CompatibilityChecker';
+import { CompatibilityService } from './CompatibilityService';
+import { createEmptyEmailTemplate } from '../template/TemplateComposer';
+import { createButton, createImage } from '../components/factories';
+import type { BaseComponent } from '../types';
+
+const issueFor = (
+  component: BaseComponent,
+  category: IssueCategory,
+  property: string,
+  value?: string
+): CompatibilityIssue => ({
+  id: 'issue-1',
+  severity: IssueSeverity.WARNING,
+  category,
+  componentId: component.id,
+  componentType: component.type,
+  property,
+  ...(value !== undefined && { value }),
+  message: 'Issue',
+  autoFixAvailable: true,
+});
+
+describe('CompatibilityFixerRegistry', () => {
+  it('should key fixers by issue category and property', () => {
+    const registry = new CompatibilityFixerRegistry();
+    const fixer = { label: 'Strip', fix: (component: BaseComponent) => component };
+
+    registry.register(IssueCategory.CSS, 'opacity', fixer);
+
+    expect(registry.has(IssueCategory.CSS, 'opacity')).toBe(true);
+    expect(registry.has(IssueCategory.HTML, 'opacity')).toBe(false);
+    expect(registry.get({ category: IssueCategory.CSS, property: 'opacity' })).toBe(fixer);
+    expect(registry.get({ category: IssueCategory.CSS })).toBeUndefined();
+    expect(registry.unregister(IssueCategory.CSS, 'opacity')).toBe(true);
+    expect(registry.getKeys()).toEqual([]);
+  });
+
+  it('should leave components unchanged when no fixer applies', () => {
+    const registry = createDefaultFixerRegistry();
+    const component = createImage();
+    const issue = issueFor(component, IssueCategory.CSS, 'display', 'block');
+
+    expect(registry.get(issue)).toBeUndefined();
+    expect(registry.fix(component, issue)).toBe(component);
+  });
+
+  it('should clone without sharing registrations', () => {
+    const registry = createDefaultFixerRegistry();
+    const copy = registry.clone();
+
+    copy.unregister(IssueCategory.ACCESSIBILITY, 'alt');
+
+    expect(registry.has(IssueCategory.ACCESSIBILITY, 'alt')).toBe(true);
+    expect(copy.has(IssueCategory.ACCESSIBILITY, 'alt')).toBe(false);
+  });
+});
+
+describe('default fixers', () => {
+  const fixers = createDefaultFixerRegistry();
+
+  it('should replace flexbox layouts with table alignment', () => {
+    const component = {
+      id: 'row-1',
+      type: 'text',
+      content: {},
+      styles: {
+        display: 'flex',
+        justifyContent: 'space-between',
+        'align-items': 'center',
+        customStyles: { 'flex-wrap': 'wrap', color: 'red' },
+      },
+    } as unknown as BaseComponent;
+
+    const fixed = fixers.fix(component, issueFor(component, IssueCategory.CSS, 'display', 'flex'));
+
+    expect(fixed.styles).toEqual({
+      horizontalAlign: 'justify',
+      verticalAlign: 'middle',
+      customStyles: { color: 'red' },
+    });
+    expect(component.styles).toHaveProperty('display', 'flex');
+  });
+
+  it('should enable the VML fallback of rounded buttons', () => {
+    const button = createButton();
+
+    const fixed = fixers.fix(button, issueFor(button, IssueCategory.CSS, 'border-radius'));
+
+    expect(fixed.styles).toMatchObject({ vmlFallback: true });
+  });
+
+  it('should derive missing alt text from the file name', () => {
+    const image = createImage({ content: { src: 'https://cdn.example.com/img/spring-sale_banner@2x.png', alt: '' } });
+
+    const fixed = fixers.fix(image, issueFor(image, IssueCategory.ACCESSIBILITY, 'alt'));
+
+    expect(fixed.content['alt']).toBe('Spring sale banner');
+  });
+
+  it('should convert relative units to pixels', () => {
+    const template = createEmptyEmailTemplate('Units');
+    template.settings.canvasDimensions.width = 640;
+    const button = createButton();
+    button.styles.fontSize = { value: 1.25, unit: 'rem' };
+    button.styles.width = { value: 50, unit: 'vw' };
+
+    const remFixed = fixers.fix(button, issueFor(button, IssueCategory.CSS, 'rem'), { template });
+    const vwFixed = fixers.fix(remFixed, issueFor(button, IssueCategory.CSS, 'vw'), { template });
+
+    expect(remFixed.styles.width).toEqual({ value: 50, unit: 'vw' });
+    expect(vwFixed.styles.fontSize).toEqual({ value: 20, unit: 'px' });
+    expect(vwFixed.styles.width).toEqual({ value: 320, unit: 'px' });
+    expect(vwFixed.styles.border?.radius?.topLeft).toEqual(button.styles.border?.radius?.topLeft);
+  });
+
+  it('should make every issue the checker reports as fixable go away', () => {
+    const checker = new CompatibilityChecker(new CompatibilityService(), fixers);
+    const template = createEmptyEmailTemplate('Fixable');
+    const button = createButton();
+    button.styles.padding = {
+      top: { value: 0.75, unit: 'em' },
+      right: { value: 1.5, unit: 'em' },
+      bottom: { value: 0.75, unit: 'em' },
+      left: { value: 1.5, unit: 'em' },
+    };
+    const image = createImage({ content: { src: 'https://cdn.example.com/hero.jpg', alt: '' } });
+    template.components = [button, image];
+
+    const fixable = Object.values(checker.checkTemplate(template.components).issues)
+      .flat()
+      .filter((issue) => issue.autoFixAvailable);
+    const fixed = template.components.map((component) =>
+      fixable
+        .filter((issue) => issue.componentId === component.id)
+        .reduce((current, issue) => fixers.fix(current, issue, { template }), component)
+    );
+
+    expect(fixable.map((issue) => issue.property).sort()).toEqual(['alt', 'border-radius', 'em']);
+    expect(
+      Object.values(checker.checkTemplate(fixed).issues)
+        .flat()
+        .filter((issue) => issue.autoFixAvailable)
+    ).toEqual([]);
+  });
+});
+
+describe('altTextFromFilename', () => {
+  it('should fall back to a generic label for meaningless names', () => {
+    expect(altTextFromFilename('https://cdn.example.com/IMG_0042.JPG')).toBe('Image');
+    expect(altTextFromFilename('')).toBe('Image');
+    expect(altTextFromFilename('/assets/companyLogo.svg?v=3')).toBe('Company logo');
+  });
+});
+
+describe('toPixelValue', () => {
+  it('should only convert relative units', () => {
+    expect(toPixelValue({ value: 2, unit: 'em' })).toEqual({ value: 32, unit: 'px' });
+    expect(toPixelValue({ value: 10, unit: 'vw' })).toEqual({ value: 60, unit: 'px' });
+    expect(toPixelValue({ value: 50, unit: '%' })).toEqual({ value: 50, unit: '%' });
+  });
+});
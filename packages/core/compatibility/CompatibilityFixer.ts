@@ -0,0 +1,384 @@
+/**
+ * Compatibility Fixers
+ *
+ * Functions that rewrite a component so a compatibility issue reported by
+ * {@link CompatibilityChecker} goes away
+ *
+ * @module compatibility
+ */
+
+import type { BaseComponent, CSSValue, HorizontalAlign, Template, VerticalAlign } from '../types';
+import { IssueCategory } from './CompatibilityChecker';
+import type { CompatibilityIssue } from './CompatibilityChecker';
+
+/**
+ * Context available to fixers
+ */
+export interface CompatibilityFixContext {
+  /**
+   * Template the component belongs to
+   */
+  template?: Template;
+}
+
+/**
+ * Fix for one kind of compatibility issue
+ */
+export interface CompatibilityFixer {
+  /**
+   * Label of the fix action (e.g. "Convert to px")
+   */
+  label: string;
+
+  /**
+   * Whether the fixer handles a specific issue; fixers without it handle
+   * every issue of their category and property
+   */
+  appliesTo?: (issue: Pick<CompatibilityIssue, 'category' | 'property' | 'value'>) => boolean;
+
+  /**
+   * Returns a fixed copy of the component, without mutating it
+   */
+  fix: (component: BaseComponent, issue: CompatibilityIssue, context: CompatibilityFixContext) => BaseComponent;
+}
+
+/**
+ * Font size relative units are resolved against
+ */
+const BASE_FONT_SIZE = 16;
+
+/**
+ * Viewport width used for `vw` values when the template has no canvas width
+ */
+const DEFAULT_VIEWPORT_WIDTH = 600;
+
+/**
+ * Units converted to pixels by the unit fixer
+ */
+export const RELATIVE_UNITS = ['rem', 'em', 'vw'] as const;
+
+/**
+ * Flexbox and grid properties removed by the layout fixer
+ */
+const LAYOUT_PROPERTIES = [
+  'flex',
+  'flex-direction',
+  'flex-wrap',
+  'justify-content',
+  'align-items',
+  'grid',
+  'grid-template-columns',
+  'grid-gap',
+];
+
+const LAYOUT_DISPLAY_VALUES = ['flex', 'inline-flex', 'grid', 'inline-grid'];
+
+const HORIZONTAL_ALIGN: Record<string, HorizontalAlign> = {
+  'flex-start': 'left',
+  start: 'left',
+  left: 'left',
+  center: 'center',
+  'flex-end': 'right',
+  end: 'right',
+  right: 'right',
+  'space-between': 'justify',
+  'space-around': 'justify',
+  'space-evenly': 'justify',
+};
+
+const VERTICAL_ALIGN: Record<string, VerticalAlign> = {
+  'flex-start': 'top',
+  start: 'top',
+  center: 'middle',
+  'flex-end': 'bottom',
+  end: 'bottom',
+};
+
+/**
+ * Compatibility Fixer Registry
+ *
+ * Holds one fixer per issue category and property. Built-in fixers are
+ * registered by {@link createDefaultFixerRegistry}; applications can add
+ * their own through {@link CompatibilityFixerRegistry.register}.
+ */
+export class CompatibilityFixerRegistry {
+  private fixers: Map<string, CompatibilityFixer> = new Map();
+
+  /**
+   * Registers a fixer for an issue category and property
+   *
+   * Registering a key that already has a fixer replaces it.
+   *
+   * @param category - Issue category
+   * @param property - CSS property or attribute the issue is about
+   * @param fixer - Fixer
+   */
+  public register(category: IssueCategory, property: string, fixer: CompatibilityFixer): void {
+    this.fixers.set(this.key(category, property), fixer);
+  }
+
+  /**
+   * Unregisters the fixer of an issue category and property
+   *
+   * @returns True if a fixer was removed
+   */
+  public unregister(category: IssueCategory, property: string): boolean {
+    return this.fixers.delete(this.key(category, property));
+  }
+
+  /**
+   * Checks if an issue category and property have a fixer
+   */
+  public has(category: IssueCategory, property: string): boolean {
+    return this.fixers.has(this.key(category, property));
+  }
+
+  /**
+   * Gets the fixer able to fix an issue
+   *
+   * @param issue - Issue, or its category, property and value
+   * @returns Fixer or undefined if the issue cannot be fixed automatically
+   */
+  public get(issue: Pick<CompatibilityIssue, 'category' | 'property' | 'value'>): CompatibilityFixer | undefined {
+    if (!issue.property) {
+      return undefined;
+    }
+
+    const fixer = this.fixers.get(this.key(issue.category, issue.property));
+    if (!fixer || (fixer.appliesTo && !fixer.appliesTo(issue))) {
+      return undefined;
+    }
+
+    return fixer;
+  }
+
+  /**
+   * Gets all registered `category:property` keys
+   */
+  public getKeys(): string[] {
+    return Array.from(this.fixers.keys());
+  }
+
+  /**
+   * Fixes an issue on a component
+   *
+   * @param component - Component the issue was reported on
+   * @param issue - Issue to fix
+   * @param context - Fix context
+   * @returns Fixed copy of the component, or the component itself when the
+   * issue has no fixer
+   */
+  public fix(component: BaseComponent, issue: CompatibilityIssue, context: CompatibilityFixContext = {}): BaseComponent {
+    const fixer = this.get(issue);
+    return fixer ? fixer.fix(component, issue, context) : component;
+  }
+
+  /**
+   * Creates a copy of this registry
+   */
+  public clone(): CompatibilityFixerRegistry {
+    const copy = new CompatibilityFixerRegistry();
+    this.fixers.forEach((fixer, key) => copy.fixers.set(key, fixer));
+    return copy;
+  }
+
+  private key(category: IssueCategory, property: string): string {
+    return `${category}:${property}`;
+  }
+}
+
+/**
+ * Derives alt text from the file name of an image URL
+ *
+ * @example
+ * ```ts
+ * altTextFromFilename('https://cdn.example.com/img/spring-sale_banner@2x.png'); // 'Spring sale banner'
+ * ```
+ *
+ * @param src - Image URL
+ * @returns Alt text, or "Image" when the file name says nothing
+ */
+export function altTextFromFilename(src: string): string {
+  const file = src.split(/[?#]/)[0]?.split('/').pop() ?? '';
+  let name = file;
+  try {
+    name = decodeURIComponent(file);
+  } catch {
+    // Keep malformed escapes as they are
+  }
+
+  const words = name
+    .replace(/\.[a-z0-9]+$/i, '')
+    .replace(/@\d+x$/i, '')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/[-_+.\s]+/g, ' ')
+    .trim()
+    .toLowerCase();
+
+  if (!words || /^(img|image|photo|pic|dsc)?\s*\d*$/.test(words)) {
+    return 'Image';
+  }
+
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Converts a relative CSS value to pixels
+ *
+ * @param value - CSS value
+ * @param viewportWidth - Width `vw` values are relative to
+ * @returns Pixel value, or the value itself when it is not relative
+ */
+export function toPixelValue(value: CSSValue, viewportWidth = DEFAULT_VIEWPORT_WIDTH): CSSValue {
+  if (typeof value.value !== 'number') {
+    return value;
+  }
+
+  switch (value.unit) {
+    case 'rem':
+    case 'em':
+      return { value: Math.round(value.value * BASE_FONT_SIZE), unit: 'px' };
+    case 'vw':
+      return { value: Math.round((value.value * viewportWidth) / 100), unit: 'px' };
+    default:
+      return value;
+  }
+}
+
+/**
+ * Checks whether a value is a CSS value object
+ */
+export function isCSSValue(value: unknown): value is CSSValue {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'value' in value &&
+    'unit' in value &&
+    typeof (value as CSSValue).unit === 'string'
+  );
+}
+
+/**
+ * Replaces every CSS value nested in a style or content object
+ */
+function mapCSSValues<T>(source: T, map: (value: CSSValue) => CSSValue): T {
+  if (isCSSValue(source)) {
+    return map(source) as T;
+  }
+  if (Array.isArray(source)) {
+    return source.map((item) => mapCSSValues(item, map)) as T;
+  }
+  if (typeof source === 'object' && source !== null) {
+    return Object.fromEntries(
+      Object.entries(source).map(([key, value]) => [key, mapCSSValues(value, map)])
+    ) as T;
+  }
+  return source;
+}
+
+function camelCase(property: string): string {
+  return property.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Replaces flexbox and grid layouts with the table layout the renderers emit
+ */
+const layoutFixer: CompatibilityFixer = {
+  label: 'Use table layout',
+  appliesTo: (issue) => issue.property !== 'display' || LAYOUT_DISPLAY_VALUES.includes(issue.value ?? ''),
+  fix: (component) => {
+    const styles = { ...component.styles } as Record<string, unknown>;
+    const customStyles = { ...component.styles?.customStyles } as Record<string, unknown>;
+    const read = (property: string) =>
+      styles[property] ?? styles[camelCase(property)] ?? customStyles[property] ?? customStyles[camelCase(property)];
+
+    const horizontalAlign = HORIZONTAL_ALIGN[String(read('justify-content'))];
+    const verticalAlign = VERTICAL_ALIGN[String(read('align-items'))];
+
+    for (const source of [styles, customStyles]) {
+      if (LAYOUT_DISPLAY_VALUES.includes(String(source['display']))) {
+        delete source['display'];
+      }
+      for (const property of LAYOUT_PROPERTIES) {
+        delete source[property];
+        delete source[camelCase(property)];
+      }
+    }
+
+    if (horizontalAlign && !styles['horizontalAlign']) {
+      styles['horizontalAlign'] = horizontalAlign;
+    }
+    if (verticalAlign && !styles['verticalAlign']) {
+      styles['verticalAlign'] = verticalAlign;
+    }
+    if (component.styles?.customStyles) {
+      styles['customStyles'] = customStyles;
+    }
+
+    return { ...component, styles: styles as BaseComponent['styles'] };
+  },
+};
+
+/**
+ * Renders rounded buttons as VML round rectangles in Outlook for Windows
+ */
+const vmlButtonFixer: CompatibilityFixer = {
+  label: 'Add Outlook VML button',
+  fix: (component) => ({ ...component, styles: { ...component.styles, vmlFallback: true } }),
+};
+
+/**
+ * Fills in missing alt text from the image file name
+ */
+const altTextFixer: CompatibilityFixer = {
+  label: 'Use file name as alt text',
+  fix: (component) => {
+    const src = component.content?.['src'];
+    return {
+      ...component,
+      content: { ...component.content, alt: altTextFromFilename(typeof src === 'string' ? src : '') },
+    };
+  },
+};
+
+/**
+ * Converts `rem`, `em` and `vw` values of styles and content to pixels
+ */
+const unitFixer: CompatibilityFixer = {
+  label: 'Convert to px',
+  fix: (component, issue, context) => {
+    const viewportWidth = context.template?.settings?.canvasDimensions?.width ?? DEFAULT_VIEWPORT_WIDTH;
+    const convert = (value: CSSValue) =>
+      value.unit === issue.property ? toPixelValue(value, viewportWidth) : value;
+
+    return {
+      ...component,
+      styles: mapCSSValues(component.styles ?? {}, convert),
+      content: mapCSSValues(component.content ?? {}, convert),
+    };
+  },
+};
+
+/**
+ * Registers the built-in fixers on a registry
+ *
+ * @param registry - Registry to populate
+ */
+export function registerDefaultFixers(registry: CompatibilityFixerRegistry): void {
+  registry.register(IssueCategory.CSS, 'display', layoutFixer);
+  LAYOUT_PROPERTIES.forEach((property) => registry.register(IssueCategory.CSS, property, layoutFixer));
+  registry.register(IssueCategory.CSS, 'border-radius', vmlButtonFixer);
+  RELATIVE_UNITS.forEach((unit) => registry.register(IssueCategory.CSS, unit, unitFixer));
+  registry.register(IssueCategory.ACCESSIBILITY, 'alt', altTextFixer);
+}
+
+/**
+ * Creates a registry with the built-in fixers
+ *
+ * @returns Populated registry
+ */
+export function createDefaultFixerRegistry(): CompatibilityFixerRegistry {
+  const registry = new CompatibilityFixerRegistry();
+  registerDefaultFixers(registry);
+  return registry;
+}
@@ -7,7 +7,9 @@
  */
 
 import type {
+  ClientRenderingProfile,
   CompatibilityInfo,
+  EmailClientId,
   PropertySupport,
 } from './compatibility.types';
 import { PropertyCategory, SupportLevel } from './compatibility.types';
@@ -678,6 +680,37 @@ export const COMPATIBILITY_DATABASE: Record<string, CompatibilityInfo> = {
   },
 };
 
+/**
+ * Rendering of Outlook for Windows, which uses the Word engine
+ */
+const WORD_RENDERING: ClientRenderingProfile = {
+  removedProperties: ['max-width'],
+  unsupportedValues: {
+    display: ['flex', 'inline-flex', 'grid', 'inline-grid'],
+  },
+  removesBackgroundImages: true,
+};
+
+/**
+ * Rendering of the Gmail apps, which drop `<style>` blocks for non-Gmail accounts
+ */
+const GMAIL_APP_RENDERING: ClientRenderingProfile = {
+  removesStyleBlocks: 'non-gmail-account',
+};
+
+/**
+ * Client-specific rendering, for clients that alter the HTML beyond the
+ * per-property support data
+ */
+export const CLIENT_RENDERING_PROFILES: Partial<Record<EmailClientId, ClientRenderingProfile>> = {
+  'outlook-2016-win': WORD_RENDERING,
+  'outlook-2019-win': WORD_RENDERING,
+  'outlook-2021-win': WORD_RENDERING,
+  'outlook-365-win': WORD_RENDERING,
+  'gmail-ios': GMAIL_APP_RENDERING,
+  'gmail-android': GMAIL_APP_RENDERING,
+};
+
 /**
  * Get all CSS properties in the database
  */
@@ -226,6 +226,122 @@ export interface CompatibilityQuery {
   search?: string;
 }
 
+/**
+ * How an email client alters the HTML it receives, beyond the per-property
+ * support data
+ */
+export interface ClientRenderingProfile {
+  /**
+   * Whether the client removes `<style>` blocks, always or only when the
+   * email is read with a non-Gmail account
+   */
+  removesStyleBlocks?: 'always' | 'non-gmail-account';
+
+  /**
+   * Properties the client removes even though they are partially supported
+   */
+  removedProperties?: string[];
+
+  /**
+   * Values the client removes, by property (e.g. `display: flex`)
+   */
+  unsupportedValues?: Record<string, string[]>;
+
+  /**
+   * Whether the client drops CSS background images, including the `url()`
+   * of `background` shorthands
+   */
+  removesBackgroundImages?: boolean;
+}
+
+/**
+ * Kind of change made to the HTML by an email client
+ */
+export type ClientRenderingChange = 'removed-style-block' | 'removed-declaration' | 'rewritten-declaration';
+
+/**
+ * Difference between the ideal HTML and what an email client renders
+ */
+export interface ClientRenderingDifference {
+  change: ClientRenderingChange;
+
+  /**
+   * Where the CSS was
+   */
+  location: 'style-block' | 'inline';
+
+  /**
+   * CSS property involved (for declarations)
+   */
+  property?: string;
+
+  /**
+   * Original CSS
+   */
+  original: string;
+
+  /**
+   * CSS the client keeps (for rewritten declarations)
+   */
+  replacement?: string;
+
+  /**
+   * Why the client changes it
+   */
+  reason: string;
+
+  /**
+   * Suggested workaround (if known)
+   */
+  workaround?: string;
+
+  /**
+   * Number of times the change is made
+   */
+  count: number;
+}
+
+/**
+ * Options for simulating a client
+ */
+export interface ClientRenderingOptions {
+  /**
+   * Whether the email is read with a non-Gmail account (e.g. Outlook.com
+   * in the Gmail apps)
+   * @default false
+   */
+  nonGmailAccount?: boolean;
+}
+
+/**
+ * HTML as rendered by an email client
+ */
+export interface ClientRenderingResult {
+  client: EmailClientId;
+
+  /**
+   * HTML after the changes of the client
+   */
+  html: string;
+
+  differences: ClientRenderingDifference[];
+
+  /**
+   * Number of CSS declarations in the ideal HTML
+   */
+  declarationCount: number;
+
+  /**
+   * Number of CSS declarations the client removes
+   */
+  removedDeclarationCount: number;
+
+  /**
+   * Properties kept but only partially supported by the client
+   */
+  partialProperties: string[];
+}
+
 /**
  * Email client platform grouping
  */
@@ -19,6 +19,16 @@
 // Services
 export { CompatibilityService } from './CompatibilityService';
 export { CompatibilityChecker } from './CompatibilityChecker';
+export { ClientRenderingSimulator } from './ClientRenderingSimulator';
+export {
+  CompatibilityFixerRegistry,
+  RELATIVE_UNITS,
+  altTextFromFilename,
+  createDefaultFixerRegistry,
+  isCSSValue,
+  registerDefaultFixers,
+  toPixelValue,
+} from './CompatibilityFixer';
 
 // Compatibility Checker Types
 export type {
@@ -26,6 +36,11 @@ export type {
   CompatibilityReport,
 } from './CompatibilityChecker';
 
+export type {
+  CompatibilityFixer,
+  CompatibilityFixContext,
+} from './CompatibilityFixer';
+
 export {
   IssueSeverity,
   IssueCategory,
@@ -38,6 +53,11 @@ export type {
   CompatibilityInfo,
   SupportStatistics,
   CompatibilityQuery,
+  ClientRenderingProfile,
+  ClientRenderingChange,
+  ClientRenderingDifference,
+  ClientRenderingOptions,
+  ClientRenderingResult,
 } from './compatibility.types';
 
 export {
@@ -51,6 +71,7 @@ export {
 // Data utilities
 export {
   COMPATIBILITY_DATABASE,
+  CLIENT_RENDERING_PROFILES,
   getAllProperties,
   getPropertyInfo,
   getPropertiesByCategory,
@@ -15,6 +15,7 @@ import type {
   ImageComponent,
   SeparatorComponent,
   SpacerComponent,
+  HTMLComponent,
 } from '../../types';
 import {
   createButton,
@@ -22,6 +23,7 @@ import {
   createImage,
   createSeparator,
   createSpacer,
+  createHTMLBlock,
 } from '../factories';
 
 /**
@@ -615,6 +617,38 @@ export const spacerDefinition: ComponentDefinition = {
   },
 };
 
+/**
+ * HTML block component definition
+ */
+export const htmlDefinition: ComponentDefinition = {
+  type: ComponentType.HTML,
+  metadata: {
+    name: 'HTML',
+    description: 'A block of custom HTML',
+    icon: 'ri-code-s-slash-line',
+    category: ComponentCategory.BASE,
+    tags: ['html', 'code', 'raw'],
+  },
+  defaultContent: {
+    html: '',
+  },
+  defaultStyles: {},
+  create: () => createHTMLBlock(),
+  validate: (component) => {
+    const errors: string[] = [];
+    const block = component as HTMLComponent;
+
+    if (typeof block.content?.html !== 'string') {
+      errors.push('HTML content is required');
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : [],
+    };
+  },
+};
+
 /**
  * All base component definitions
  */
@@ -624,4 +658,5 @@ export const baseComponentDefinitions: ComponentDefinition[] = [
   imageDefinition,
   separatorDefinition,
   spacerDefinition,
+  htmlDefinition,
 ];
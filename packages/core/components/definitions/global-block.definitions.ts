@@ -0,0 +1,51 @@
+/**
+ * Global block definitions
+ *
+ * ComponentDefinition for references to global blocks
+ */
+
+import {
+  ComponentType,
+  ComponentCategory,
+} from '../../types';
+import type { ComponentDefinition } from '../../types';
+import { createGlobalBlockReference } from '../factories';
+
+/**
+ * Global block reference definition
+ *
+ * References are created from a block (see `GlobalBlockManager`), so the
+ * default instance points to no block.
+ */
+export const globalBlockDefinition: ComponentDefinition = {
+  type: ComponentType.GLOBAL_BLOCK,
+  metadata: {
+    name: 'Global Block',
+    description: 'A block shared across templates',
+    icon: 'ri-links-line',
+    category: ComponentCategory.CUSTOM,
+    tags: ['global', 'synced', 'block'],
+  },
+  defaultContent: {
+    blockId: '',
+  },
+  defaultStyles: {},
+  create: () => createGlobalBlockReference(''),
+  validate: (component) => {
+    const errors: string[] = [];
+    const blockId = component.content?.['blockId'];
+
+    if (typeof blockId !== 'string' || !blockId) {
+      errors.push('Global block reference must have a block ID');
+    }
+
+    if (component.children && component.children.length > 0) {
+      errors.push('Global block reference cannot have children');
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : [],
+    };
+  },
+};
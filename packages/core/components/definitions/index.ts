@@ -11,6 +11,7 @@ export {
   imageDefinition,
   separatorDefinition,
   spacerDefinition,
+  htmlDefinition,
   baseComponentDefinitions,
 } from './base-components.definitions';
 
@@ -24,6 +25,15 @@ export {
   emailComponentDefinitions,
 } from './email-components.definitions';
 
+// Layout component definitions
+export {
+  rowDefinition,
+  layoutComponentDefinitions,
+} from './layout-components.definitions';
+
+// Global block definitions
+export { globalBlockDefinition } from './global-block.definitions';
+
 // Registry initialization
 export {
   createDefaultRegistry,
@@ -0,0 +1,75 @@
+/**
+ * Layout component definitions
+ *
+ * ComponentDefinition objects for the layout components
+ */
+
+import {
+  ComponentType,
+  ComponentCategory,
+} from '../../types';
+import type {
+  ComponentDefinition,
+  RowComponent,
+} from '../../types';
+import { createRow } from '../factories';
+import { createCSSValue, createUniformSpacing } from '../factories/utils';
+
+/**
+ * Row component definition
+ *
+ * Columns are created with their row, so they have no definition of their own.
+ */
+export const rowDefinition: ComponentDefinition = {
+  type: ComponentType.ROW,
+  metadata: {
+    name: 'Row',
+    description: 'A row of side-by-side columns',
+    icon: 'ri-layout-column-line',
+    category: ComponentCategory.LAYOUT,
+    tags: ['row', 'columns', 'grid', 'layout'],
+  },
+  defaultContent: {
+    layout: '1-1',
+    mobileStacking: 'stack',
+  },
+  defaultStyles: {
+    padding: createUniformSpacing(10),
+    verticalAlign: 'top',
+    gutter: createCSSValue(20),
+  } as RowComponent['styles'],
+  create: () => createRow(),
+  validate: (component) => {
+    const errors: string[] = [];
+    const row = component as RowComponent;
+    const columns = row.children ?? [];
+
+    if (columns.length < 1 || columns.length > 4) {
+      errors.push('Row must contain between 1 and 4 columns');
+    }
+
+    if (columns.some((column) => column.type !== ComponentType.COLUMN)) {
+      errors.push('Row children must be columns');
+    }
+
+    const totalWidth = columns.reduce((total, column) => {
+      const width = column.content?.width?.value;
+      return total + (typeof width === 'number' ? width : 0);
+    }, 0);
+    if (columns.length > 0 && Math.abs(totalWidth - 100) > 1) {
+      errors.push('Column widths must add up to 100%');
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : [],
+    };
+  },
+};
+
+/**
+ * All layout component definitions
+ */
+export const layoutComponentDefinitions: ComponentDefinition[] = [
+  rowDefinition,
+];
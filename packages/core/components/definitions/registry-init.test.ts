@@ -18,7 +18,7 @@ describe('Registry Initialization', () => {
 
       expect(definitions).toBeDefined();
       expect(definitions.length).toBeGreaterThan(0);
-      expect(definitions.length).toBe(10); // 5 base + 5 email components
+      expect(definitions.length).toBe(13); // 6 base + 5 email + 1 layout components + global block reference
     });
 
     it('should include all base components', () => {
@@ -30,6 +30,7 @@ describe('Registry Initialization', () => {
       expect(types).toContain(ComponentType.IMAGE);
       expect(types).toContain(ComponentType.SEPARATOR);
       expect(types).toContain(ComponentType.SPACER);
+      expect(types).toContain(ComponentType.HTML);
     });
 
     it('should include all email components', () => {
@@ -43,6 +44,13 @@ describe('Registry Initialization', () => {
       expect(types).toContain(ComponentType.CALL_TO_ACTION);
     });
 
+    it('should include the row layout component', () => {
+      const types = getAllComponentDefinitions().map(def => def.type);
+
+      expect(types).toContain(ComponentType.ROW);
+      expect(types).not.toContain(ComponentType.COLUMN);
+    });
+
     it('should have valid component definitions', () => {
       const definitions = getAllComponentDefinitions();
 
@@ -68,7 +76,7 @@ describe('Registry Initialization', () => {
     it('should register all components in the registry', () => {
       registerDefaultComponents(registry);
 
-      expect(registry.count()).toBe(10);
+      expect(registry.count()).toBe(13);
     });
 
     it('should return the same registry instance', () => {
@@ -114,7 +122,7 @@ describe('Registry Initialization', () => {
     it('should have all components registered', () => {
       const registry = createDefaultRegistry();
 
-      expect(registry.count()).toBe(10);
+      expect(registry.count()).toBe(13);
     });
 
     it('should allow immediate component creation', () => {
@@ -187,6 +195,22 @@ describe('Registry Initialization', () => {
 
       expect(result.valid).toBe(true);
     });
+
+    it('should validate Row components', () => {
+      const row = registry.create(ComponentType.ROW);
+
+      expect(registry.validate(row).valid).toBe(true);
+      expect(registry.validate({ ...row, children: [] }).errors).toEqual([
+        'Row must contain between 1 and 4 columns',
+      ]);
+    });
+
+    it('should require a block ID on global block references', () => {
+      const reference = registry.create(ComponentType.GLOBAL_BLOCK);
+
+      expect(registry.validate(reference).errors).toEqual(['Global block reference must have a block ID']);
+      expect(registry.validate({ ...reference, content: { blockId: 'blk_1' } }).valid).toBe(true);
+    });
   });
 
   describe('Component Creation', () => {
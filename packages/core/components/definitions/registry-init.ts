@@ -8,6 +8,8 @@ import { ComponentRegistry } from '../ComponentRegistry';
 import type { ComponentDefinition } from '../../types';
 import { baseComponentDefinitions } from './base-components.definitions';
 import { emailComponentDefinitions } from './email-components.definitions';
+import { layoutComponentDefinitions } from './layout-components.definitions';
+import { globalBlockDefinition } from './global-block.definitions';
 
 /**
  * Gets all default component definitions
@@ -18,6 +20,8 @@ export function getAllComponentDefinitions(): ComponentDefinition[] {
   return [
     ...baseComponentDefinitions,
     ...emailComponentDefinitions,
+    ...layoutComponentDefinitions,
+    globalBlockDefinition,
   ];
 }
 
@@ -14,6 +14,7 @@ import type {
   ImageComponent,
   SeparatorComponent,
   SpacerComponent,
+  HTMLComponent,
 } from '../../types';
 import {
   generateId,
@@ -233,3 +234,36 @@ export function createSpacer(
     ...overrides,
   };
 }
+
+/**
+ * Creates an HTML block component with default values
+ *
+ * @param overrides - Optional property overrides
+ * @returns HTML block component
+ */
+export function createHTMLBlock(
+  overrides?: Partial<HTMLComponent>
+): HTMLComponent {
+  const timestamp = getCurrentTimestamp();
+
+  return {
+    id: generateId('html'),
+    type: ComponentType.HTML,
+    metadata: {
+      name: 'HTML',
+      description: 'A block of custom HTML',
+      icon: 'ri-code-s-slash-line',
+      category: ComponentCategory.BASE,
+      tags: ['html', 'code', 'raw'],
+    },
+    styles: {},
+    content: {
+      html: '',
+    },
+    visibility: createDefaultVisibility(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    version: DEFAULT_VERSION,
+    ...overrides,
+  };
+}
@@ -9,11 +9,15 @@ import {
   createImage,
   createSeparator,
   createSpacer,
+  createHTMLBlock,
   createHeader,
   createFooter,
   createHero,
   createList,
   createCTA,
+  createRow,
+  createColumn,
+  applyRowLayout,
   generateId,
   createCSSValue,
   createDefaultSpacing,
@@ -244,6 +248,17 @@ describe('Base Component Factories', () => {
       expect(spacer.content.height).toEqual({ value: 40, unit: 'px' });
     });
   });
+
+  describe('createHTMLBlock', () => {
+    it('should create HTML block with default values', () => {
+      const block = createHTMLBlock();
+
+      expect(block.id).toMatch(/^html-/);
+      expect(block.type).toBe('html');
+      expect(block.metadata.name).toBe('HTML');
+      expect(block.content.html).toBe('');
+    });
+  });
 });
 
 describe('Email Component Factories', () => {
@@ -415,6 +430,62 @@ describe('Email Component Factories', () => {
   });
 });
 
+describe('Layout Component Factories', () => {
+  describe('createRow', () => {
+    it('should create one column per layout column', () => {
+      const row = createRow({}, '2-1');
+
+      expect(row.id).toMatch(/^row-/);
+      expect(row.type).toBe('row');
+      expect(row.content).toEqual({ layout: '2-1', mobileStacking: 'stack' });
+      expect(row.children.map((column) => column.type)).toEqual(['column', 'column']);
+      expect(row.children.map((column) => column.content.width)).toEqual([
+        { value: 66.67, unit: '%' },
+        { value: 33.33, unit: '%' },
+      ]);
+      expect(row.children[0]?.children).toEqual([]);
+    });
+
+    it('should default to two equal columns', () => {
+      const row = createRow();
+
+      expect(row.content.layout).toBe('1-1');
+      expect(row.styles.gutter).toEqual({ value: 20, unit: 'px' });
+      expect(row.children).toHaveLength(2);
+    });
+  });
+
+  describe('applyRowLayout', () => {
+    it('should add empty columns and keep existing components', () => {
+      const text = createText();
+      const row = createRow({}, '1');
+      row.children[0]!.children = [text];
+
+      const updated = applyRowLayout(row, '1-1-1');
+
+      expect(updated.content.layout).toBe('1-1-1');
+      expect(updated.children).toHaveLength(3);
+      expect(updated.children[0]?.id).toBe(row.children[0]?.id);
+      expect(updated.children[0]?.children).toEqual([text]);
+      expect(updated.children[2]?.content.width).toEqual({ value: 33.34, unit: '%' });
+      expect(row.children).toHaveLength(1);
+    });
+
+    it('should move the components of removed columns to the last column', () => {
+      const [first, second, third] = [createText(), createButton(), createImage()];
+      const row = createRow({}, '1-1-1');
+      row.children[0]!.children = [first];
+      row.children[1]!.children = [second];
+      row.children[2] = createColumn({ content: { width: { value: 33.34, unit: '%' } }, children: [third] });
+
+      const updated = applyRowLayout(row, '1-2');
+
+      expect(updated.children.map((column) => column.children)).toEqual([[first], [second, third]]);
+      expect(updated.children[1]?.content.width).toEqual({ value: 66.67, unit: '%' });
+    });
+  });
+});
+
 describe('Component Common Properties', () => {
   it('should have unique IDs for all components', () => {
     const components = [
@@ -0,0 +1,47 @@
+/**
+ * Global block factories
+ *
+ * Factory functions for global block references
+ */
+
+import { ComponentType, ComponentCategory } from '../../types';
+import type { GlobalBlockReferenceComponent } from '../../types';
+import {
+  generateId,
+  createDefaultVisibility,
+  getCurrentTimestamp,
+  DEFAULT_VERSION,
+} from './utils';
+
+/**
+ * Creates a reference to a global block
+ *
+ * @param blockId - ID of the referenced block
+ * @param overrides - Optional property overrides
+ * @returns Global block reference component
+ */
+export function createGlobalBlockReference(
+  blockId: string,
+  overrides?: Partial<GlobalBlockReferenceComponent>
+): GlobalBlockReferenceComponent {
+  const timestamp = getCurrentTimestamp();
+
+  return {
+    id: generateId('global-block'),
+    type: ComponentType.GLOBAL_BLOCK,
+    metadata: {
+      name: 'Global Block',
+      description: 'A block shared across templates',
+      icon: 'ri-links-line',
+      category: ComponentCategory.CUSTOM,
+      tags: ['global', 'synced', 'block'],
+    },
+    styles: {},
+    content: { blockId },
+    visibility: createDefaultVisibility(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    version: DEFAULT_VERSION,
+    ...overrides,
+  };
+}
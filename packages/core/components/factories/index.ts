@@ -14,6 +14,7 @@ export {
   createImage,
   createSeparator,
   createSpacer,
+  createHTMLBlock,
 } from './base-components.factories';
 
 // Email component factories
@@ -24,3 +25,13 @@ export {
   createList,
   createCTA,
 } from './email-components.factories';
+
+// Layout component factories
+export {
+  createRow,
+  createColumn,
+  applyRowLayout,
+} from './layout-components.factories';
+
+// Global block factories
+export { createGlobalBlockReference } from './global-block.factories';
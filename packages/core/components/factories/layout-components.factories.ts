@@ -0,0 +1,138 @@
+/**
+ * Layout component factories
+ *
+ * Factory functions for creating layout components with default values
+ */
+
+import {
+  ComponentType,
+  ComponentCategory,
+  ROW_LAYOUT_PRESETS,
+} from '../../types';
+import type {
+  BaseComponent,
+  RowComponent,
+  RowLayoutPreset,
+  ColumnComponent,
+} from '../../types';
+import {
+  generateId,
+  createCSSValue,
+  createUniformSpacing,
+  createDefaultVisibility,
+  getCurrentTimestamp,
+  DEFAULT_VERSION,
+} from './utils';
+
+/**
+ * Creates a Column component with default values
+ *
+ * @param overrides - Optional property overrides
+ * @returns Column component
+ */
+export function createColumn(
+  overrides?: Partial<ColumnComponent>
+): ColumnComponent {
+  const timestamp = getCurrentTimestamp();
+
+  return {
+    id: generateId('column'),
+    type: ComponentType.COLUMN,
+    metadata: {
+      name: 'Column',
+      description: 'A column of a row',
+      icon: 'ri-layout-column-line',
+      category: ComponentCategory.LAYOUT,
+      tags: ['column', 'layout'],
+    },
+    styles: {},
+    content: {
+      width: createCSSValue(100, '%'),
+    },
+    children: [],
+    visibility: createDefaultVisibility(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    version: DEFAULT_VERSION,
+    ...overrides,
+  };
+}
+
+/**
+ * Creates a Row component with default values
+ *
+ * @param overrides - Optional property overrides
+ * @param layout - Column layout of the row
+ * @returns Row component with one empty column per layout column
+ */
+export function createRow(
+  overrides?: Partial<RowComponent>,
+  layout: RowLayoutPreset = '1-1'
+): RowComponent {
+  const timestamp = getCurrentTimestamp();
+
+  return {
+    id: generateId('row'),
+    type: ComponentType.ROW,
+    metadata: {
+      name: 'Row',
+      description: 'A row of side-by-side columns',
+      icon: 'ri-layout-column-line',
+      category: ComponentCategory.LAYOUT,
+      tags: ['row', 'columns', 'grid', 'layout'],
+    },
+    styles: {
+      padding: createUniformSpacing(10),
+      gutter: createCSSValue(20),
+      verticalAlign: 'top',
+    },
+    content: {
+      layout,
+      mobileStacking: 'stack',
+    },
+    children: ROW_LAYOUT_PRESETS[layout].map((width) =>
+      createColumn({ content: { width: createCSSValue(width, '%') } })
+    ),
+    visibility: createDefaultVisibility(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    version: DEFAULT_VERSION,
+    ...overrides,
+  };
+}
+
+/**
+ * Changes the column layout of a row
+ *
+ * Existing columns are resized and keep their components. When the new layout
+ * has fewer columns, the components of the removed columns move to the last
+ * remaining one; when it has more, empty columns are added.
+ *
+ * @param row - Row to change
+ * @param layout - New column layout
+ * @returns Copy of the row with the new layout
+ */
+export function applyRowLayout(row: RowComponent, layout: RowLayoutPreset): RowComponent {
+  const widths = ROW_LAYOUT_PRESETS[layout];
+  const columns = row.children ?? [];
+
+  const children = widths.map((width, index): ColumnComponent => {
+    const column = columns[index] ?? createColumn();
+    const overflow: BaseComponent[] =
+      index === widths.length - 1 ? columns.slice(widths.length).flatMap((removed) => removed.children ?? []) : [];
+
+    return {
+      ...column,
+      content: { ...column.content, width: createCSSValue(width, '%') },
+      children: [...(column.children ?? []), ...overflow],
+      updatedAt: getCurrentTimestamp(),
+    };
+  });
+
+  return {
+    ...row,
+    content: { ...row.content, layout },
+    children,
+    updatedAt: getCurrentTimestamp(),
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * Customization Manager Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { CustomizationManager } from './CustomizationManager';
+import { CustomizationError } from '../errors';
+import type { StorageAdapter } from '../types/config.types';
+
+// Mock storage adapter for testing
+class MockStorageAdapter implements StorageAdapter {
+  public storage: Map<string, unknown> = new Map();
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    return (this.storage.get(key) as T) || null;
+  }
+
+  async set<T = unknown>(key: string, value: T): Promise<void> {
+    this.storage.set(key, value);
+  }
+
+  async remove(key: string): Promise<void> {
+    this.storage.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.storage.clear();
+  }
+}
+
+const waitForEmit = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+describe('CustomizationManager', () => {
+  describe('storage', () => {
+    it('should not persist the defaults', async () => {
+      const adapter = new MockStorageAdapter();
+      const manager = new CustomizationManager({ storage: adapter, keyPrefix: 'test' });
+      await waitForEmit();
+
+      expect(manager.getStats().themes).toBeGreaterThan(0);
+      expect(adapter.storage.size).toBe(0);
+    });
+
+    it('should load the persisted customizations back', async () => {
+      const adapter = new MockStorageAdapter();
+      const manager = new CustomizationManager({ storage: adapter, keyPrefix: 'test' });
+      const recipe = manager.recipes.create({
+        name: 'Brand card',
+        category: 'surface',
+        styles: { backgroundColor: '#fef3c7' },
+      });
+      manager.themes.setCurrentTheme('bold');
+      await waitForEmit();
+
+      expect(adapter.storage.has(`test:customization:recipe:${recipe.id}`)).toBe(true);
+
+      const reloaded = new CustomizationManager({ storage: adapter, keyPrefix: 'test' });
+      await reloaded.loadFromStorage();
+
+      expect(reloaded.recipes.get(recipe.id)?.styles).toEqual({ backgroundColor: '#fef3c7' });
+      expect(reloaded.themes.getCurrent()?.id).toBe('bold');
+    });
+
+    it('should forget deleted customizations', async () => {
+      const adapter = new MockStorageAdapter();
+      const manager = new CustomizationManager({ storage: adapter, keyPrefix: 'test' });
+      const recipe = manager.recipes.create({ name: 'Temporary', category: 'surface', styles: {} });
+      await waitForEmit();
+      manager.recipes.delete(recipe.id);
+      await waitForEmit();
+
+      const reloaded = new CustomizationManager({ storage: adapter, keyPrefix: 'test' });
+      await reloaded.loadFromStorage();
+
+      expect(reloaded.recipes.get(recipe.id)).toBeUndefined();
+    });
+
+    it('should throw a CustomizationError when loading fails', async () => {
+      const adapter = new MockStorageAdapter();
+      vi.spyOn(adapter, 'get').mockRejectedValue(new Error('Quota exceeded'));
+      const manager = new CustomizationManager({ storage: adapter });
+
+      await expect(manager.loadFromStorage()).rejects.toThrow(CustomizationError);
+    });
+  });
+
+  it('should recommend the default variants of a component type', () => {
+    const manager = new CustomizationManager();
+
+    expect(manager.getRecommendations('button').variants.map((variant) => variant.id)).toContain('button-primary');
+  });
+
+  it('should forward the events of the sub-managers', async () => {
+    const manager = new CustomizationManager();
+    const listener = vi.fn();
+    manager.on('recipe:registered', listener);
+
+    manager.recipes.create({ name: 'Outline', category: 'surface', styles: {} });
+    await waitForEmit();
+
+    expect(listener).toHaveBeenCalled();
+  });
+});
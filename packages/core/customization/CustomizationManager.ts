@@ -13,8 +13,11 @@ import { VariantManager } from '../variant/VariantManager';
 import { RecipeManager } from '../recipe/RecipeManager';
 import { CustomizationProfileManager } from './CustomizationProfileManager';
 import { BlueprintManager } from '../blueprint/BlueprintManager';
+import { defaultBlueprints } from '../blueprint/default-blueprints';
+import { CustomizationStorage } from './CustomizationStorage';
 import { EventEmitter } from '../services/EventEmitter';
-import { StorageAdapter } from '../types/config.types';
+import { CustomizationError } from '../errors';
+import type { StorageAdapter } from '../types/config.types';
 
 import type { Theme } from '../types/theme.types';
 import type { ComponentVariant } from '../types/variant.types';
@@ -25,11 +28,19 @@ import type { BaseStyles } from '../types/component.types';
 
 // Import default collections
 import { defaultThemes } from '../theme/default-themes';
-import { getAllDefaultVariants } from '../variant/default-variants';
+import { defaultVariants, getAllDefaultVariants } from '../variant/default-variants';
 import { defaultRecipes } from '../recipe/default-recipes';
 
 export interface CustomizationManagerConfig {
-  storage?: StorageAdapter;
+  /**
+   * Storage the created and imported customizations are persisted to; load
+   * them back with {@link CustomizationManager.loadFromStorage}
+   */
+  storage?: StorageAdapter | undefined;
+  /**
+   * Prefix of the storage keys
+   */
+  keyPrefix?: string;
   loadDefaults?: boolean;
 }
 
@@ -44,11 +55,11 @@ export class CustomizationManager extends EventEmitter {
   public readonly profiles: CustomizationProfileManager;
   public readonly blueprints: BlueprintManager;
 
-  private storage?: StorageAdapter;
+  private storage: CustomizationStorage | undefined;
 
   constructor(config: CustomizationManagerConfig = {}) {
     super();
-    this.storage = config.storage;
+    this.storage = config.storage && new CustomizationStorage(config.storage, config.keyPrefix);
 
     // Initialize sub-managers
     this.themes = new ThemeManager({ storage: this.storage });
@@ -60,9 +71,9 @@ export class CustomizationManager extends EventEmitter {
     // Forward events from sub-managers
     this.setupEventForwarding();
 
-    // Load defaults if requested
+    // Load defaults if requested, without persisting the built-in items
     if (config.loadDefaults !== false) {
-      this.loadDefaults();
+      this.withoutPersisting(() => this.loadDefaults());
     }
   }
 
@@ -71,7 +82,7 @@ export class CustomizationManager extends EventEmitter {
   // ============================================================================
 
   /**
-   * Load default themes, variants, and recipes
+   * Load default themes, variants, recipes and blueprints
    */
   private loadDefaults(): void {
     // Load default themes
@@ -89,14 +100,78 @@ export class CustomizationManager extends EventEmitter {
       this.variants.register(variant);
     });
 
+    // Group them by component type, for getRecommendations
+    Object.entries(defaultVariants).forEach(([componentType, variants]) => {
+      this.variants.createCollection(componentType, variants);
+    });
+
     // Load default recipes
     defaultRecipes.forEach((recipe) => {
       this.recipes.register(recipe);
     });
 
+    // Load default blueprints
+    defaultBlueprints.forEach((blueprint) => {
+      this.blueprints.register(blueprint);
+    });
+
     this.emit('defaults:loaded');
   }
 
+  /**
+   * Load the customizations persisted to storage
+   *
+   * Stored items replace the defaults with the same ID, and the stored
+   * current theme is restored.
+   *
+   * @throws {CustomizationError} If the stored customizations cannot be loaded
+   */
+  async loadFromStorage(): Promise<void> {
+    const storage = this.storage;
+    if (!storage) {
+      return;
+    }
+
+    try {
+      const entries = await storage.loadAll();
+
+      this.withoutPersisting(() => {
+        entries.forEach((value, key) => {
+          switch (key.slice(0, key.indexOf(':'))) {
+            case 'theme':
+              this.themes.register(value as Theme);
+              break;
+            case 'variant':
+              this.variants.register(value as ComponentVariant);
+              break;
+            case 'recipe':
+              this.recipes.register(value as StyleRecipe);
+              break;
+            case 'customization-profile':
+              this.profiles.register(value as CustomizationProfile);
+              break;
+            case 'blueprint':
+              this.blueprints.register(value as TemplateBlueprint);
+              break;
+          }
+        });
+
+        const currentThemeId = entries.get('current-theme-id');
+        if (typeof currentThemeId === 'string' && this.themes.get(currentThemeId)) {
+          this.themes.setCurrentTheme(currentThemeId);
+        }
+      });
+
+      this.emit('storage:loaded', { count: entries.size });
+    } catch (error) {
+      throw new CustomizationError(
+        `Failed to load customizations: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        undefined,
+        { cause: error }
+      );
+    }
+  }
+
   /**
    * Initialize with custom defaults
    */
@@ -178,7 +253,7 @@ export class CustomizationManager extends EventEmitter {
 
     return this.profiles.create({
       name,
-      description,
+      ...(description !== undefined && { description }),
       theme: currentTheme,
       variants: this.variants.getAll(),
       recipes: this.recipes.getAll(),
@@ -360,33 +435,27 @@ export class CustomizationManager extends EventEmitter {
     return { ...base, ...override };
   }
 
+  /**
+   * Runs a function without persisting what it registers
+   */
+  private withoutPersisting(fn: () => void): void {
+    if (this.storage) {
+      this.storage.withoutPersisting(fn);
+    } else {
+      fn();
+    }
+  }
+
   /**
    * Setup event forwarding from sub-managers
    */
   private setupEventForwarding(): void {
-    // Forward theme events
-    this.themes.on('*', (event: string, data: any) => {
-      this.emit(event, data);
-    });
-
-    // Forward variant events
-    this.variants.on('*', (event: string, data: any) => {
-      this.emit(event, data);
-    });
-
-    // Forward recipe events
-    this.recipes.on('*', (event: string, data: any) => {
-      this.emit(event, data);
-    });
-
-    // Forward profile events
-    this.profiles.on('*', (event: string, data: any) => {
-      this.emit(event, data);
-    });
-
-    // Forward blueprint events
-    this.blueprints.on('*', (event: string, data: any) => {
-      this.emit(event, data);
+    [this.themes, this.variants, this.recipes, this.profiles, this.blueprints].forEach((manager) => {
+      const emit = manager.emit.bind(manager);
+      manager.emit = <TData = unknown>(event: string, data?: TData): void => {
+        emit(event, data);
+        this.emit(event, data);
+      };
     });
   }
 
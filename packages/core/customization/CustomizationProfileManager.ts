@@ -19,12 +19,12 @@ import { EventEmitter } from '../services/EventEmitter';
 import { StorageAdapter } from '../types/config.types';
 
 export interface CustomizationProfileManagerConfig {
-  storage?: StorageAdapter;
+  storage?: StorageAdapter | undefined;
 }
 
 export class CustomizationProfileManager extends EventEmitter {
   private profiles: Map<string, CustomizationProfile> = new Map();
-  private storage?: StorageAdapter;
+  private storage: StorageAdapter | undefined;
   private currentProfile: CustomizationProfile | null = null;
 
   constructor(config: CustomizationProfileManagerConfig = {}) {
@@ -52,15 +52,15 @@ export class CustomizationProfileManager extends EventEmitter {
     const profile: CustomizationProfile = {
       id: this.generateProfileId(),
       name: options.name,
-      description: options.description,
-      author: options.author,
+      ...(options.description !== undefined && { description: options.description }),
+      ...(options.author !== undefined && { author: options.author }),
       version: '1.0.0',
       theme: options.theme,
       variants: options.variants || [],
       recipes: options.recipes || [],
       presets: options.presets || [],
       metadata: {
-        category: options.category,
+        ...(options.category && { category: options.category }),
         tags: [],
         createdAt: Date.now(),
         updatedAt: Date.now(),
@@ -0,0 +1,105 @@
+/**
+ * Customization Storage
+ *
+ * Persists the themes, variants, recipes, profiles and blueprints of a
+ * CustomizationManager through a storage adapter
+ */
+
+import type { StorageAdapter } from '../types/config.types';
+
+/**
+ * Storage adapter scoping the keys of the customization managers, e.g.
+ * `theme:modern`, under `<key prefix>:customization:`
+ *
+ * Stored keys are indexed so they can be loaded back, as storage adapters
+ * cannot list their keys.
+ */
+export class CustomizationStorage implements StorageAdapter {
+  private adapter: StorageAdapter;
+  private keyPrefix: string;
+  private keys: Promise<Set<string>> | null = null;
+  private paused = false;
+
+  constructor(adapter: StorageAdapter, keyPrefix = 'email-builder') {
+    this.adapter = adapter;
+    this.keyPrefix = `${keyPrefix}:customization`;
+  }
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    return this.adapter.get<T>(this.getKey(key));
+  }
+
+  async set<T = unknown>(key: string, value: T): Promise<void> {
+    if (this.paused) {
+      return;
+    }
+
+    await this.adapter.set(this.getKey(key), value);
+    await this.updateIndex((keys) => keys.add(key));
+  }
+
+  async remove(key: string): Promise<void> {
+    if (this.paused) {
+      return;
+    }
+
+    await this.adapter.remove(this.getKey(key));
+    await this.updateIndex((keys) => keys.delete(key));
+  }
+
+  /**
+   * Removes the stored customizations only, not the rest of the adapter data
+   */
+  async clear(): Promise<void> {
+    const keys = await this.getKeys();
+    await Promise.all([...keys].map((key) => this.adapter.remove(this.getKey(key))));
+    keys.clear();
+    await this.adapter.remove(this.getIndexKey());
+  }
+
+  /**
+   * Loads every stored entry
+   *
+   * @returns Values by key, e.g. `theme:modern`
+   */
+  async loadAll(): Promise<Map<string, unknown>> {
+    const keys = [...(await this.getKeys())];
+    const values = await Promise.all(keys.map((key) => this.get(key)));
+
+    return new Map(
+      keys.flatMap((key, index) => (values[index] !== null ? [[key, values[index]] as [string, unknown]] : []))
+    );
+  }
+
+  /**
+   * Runs a function without persisting the changes it makes, e.g. to
+   * register built-in or already stored items
+   */
+  withoutPersisting(fn: () => void): void {
+    this.paused = true;
+    try {
+      fn();
+    } finally {
+      this.paused = false;
+    }
+  }
+
+  private getKeys(): Promise<Set<string>> {
+    this.keys ??= this.adapter.get<string[]>(this.getIndexKey()).then((keys) => new Set(keys ?? []));
+    return this.keys;
+  }
+
+  private async updateIndex(update: (keys: Set<string>) => void): Promise<void> {
+    const keys = await this.getKeys();
+    update(keys);
+    await this.adapter.set(this.getIndexKey(), [...keys]);
+  }
+
+  private getKey(key: string): string {
+    return `${this.keyPrefix}:${key}`;
+  }
+
+  private getIndexKey(): string {
+    return `${this.keyPrefix}-index`;
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Component Styles
+ *
+ * Application of variant and recipe styles to components
+ */
+
+import type { BaseComponent, BaseStyles } from '../types/component.types';
+
+/**
+ * Copies a component with styles applied over its own, e.g. the styles of a
+ * variant or recipe
+ *
+ * Applied properties replace the current ones, nested values included (e.g.
+ * the whole `padding`), and are unbound from theme tokens so the theme does
+ * not restyle them.
+ *
+ * @param component - Component
+ * @param styles - Styles to apply
+ * @returns Restyled copy of the component
+ */
+export function applyComponentStyles(component: BaseComponent, styles: Partial<BaseStyles>): BaseComponent {
+  const copy = JSON.parse(JSON.stringify(component)) as BaseComponent;
+  const applied = JSON.parse(JSON.stringify(styles)) as Partial<BaseStyles>;
+  copy.styles = { ...copy.styles, ...applied };
+
+  if (copy.styleTokens) {
+    const properties = Object.keys(applied);
+    const tokens = Object.fromEntries(
+      Object.entries(copy.styleTokens).filter(([property]) => !properties.includes(property.split('.')[0]!))
+    );
+    if (Object.keys(tokens).length > 0) {
+      copy.styleTokens = tokens;
+    } else {
+      delete copy.styleTokens;
+    }
+  }
+
+  return copy;
+}
@@ -12,6 +12,8 @@
 // Main Manager
 export { CustomizationManager } from './CustomizationManager';
 export { CustomizationProfileManager } from './CustomizationProfileManager';
+export { CustomizationStorage } from './CustomizationStorage';
+export { applyComponentStyles } from './component-styles';
 
 // Theme System
 export { ThemeManager } from '../theme/ThemeManager';
@@ -27,6 +29,7 @@ export { defaultRecipes, getDefaultRecipe } from '../recipe/default-recipes';
 
 // Blueprint System
 export { BlueprintManager } from '../blueprint/BlueprintManager';
+export { defaultBlueprints, getDefaultBlueprint } from '../blueprint/default-blueprints';
 
 // Type Exports
 export type {
@@ -85,6 +88,11 @@ export type {
   BlueprintSlot,
   BlueprintInstantiationOptions,
   BlueprintInstantiationResult,
+  BlueprintError,
+  BlueprintFromTemplateOptions,
+  TemplateSlotMarker,
+  SlotContent,
+  SlotType,
   BuiltInBlueprint,
 } from '../types/blueprint.types';
 
@@ -346,6 +346,15 @@ export class DataProcessingService {
       return '';
     }
 
+    // The else block renders when there is nothing to repeat
+    if (items.length === 0) {
+      if (!token.elseContent) {
+        return '';
+      }
+      const elseTokens = this.parser.parse(token.elseContent, options);
+      return this.processTokens(token.elseContent, elseTokens, context, helpers, options, tracking);
+    }
+
     if (!token.content) {
       return '';
     }
@@ -72,6 +72,8 @@ export class TemplateVariableParser {
             token.elseContent = blockResult.elseContent;
           }
           token.children = blockResult.children;
+          // The token spans the whole block, up to its close tag
+          token.end = blockResult.endPosition;
           position = blockResult.endPosition;
         } else {
           position = closeIndex + delimiters.close.length;
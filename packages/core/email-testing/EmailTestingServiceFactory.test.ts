@@ -12,6 +12,7 @@ import { LitmusTestingService } from './LitmusTestingService';
 import { EmailOnAcidTestingService } from './EmailOnAcidTestingService';
 import { TestiTestingService } from './TestiTestingService';
 import { CustomTestingService } from './CustomTestingService';
+import { SandboxTestingService } from './SandboxTestingService';
 import type { EmailTestingConfig } from './email-testing.types';
 
 describe('EmailTestingServiceFactory', () => {
@@ -73,6 +74,19 @@ describe('EmailTestingServiceFactory', () => {
       expect(service.getConfig().provider).toBe('custom');
     });
 
+    it('should create Sandbox service instance', () => {
+      const config: EmailTestingConfig = {
+        provider: 'sandbox',
+        apiEndpoint: '',
+        authMethod: 'api-key',
+      };
+
+      const service = createEmailTestingService(config);
+
+      expect(service).toBeInstanceOf(SandboxTestingService);
+      expect(service.getConfig().provider).toBe('sandbox');
+    });
+
     it('should throw error for unknown provider', () => {
       const config = {
         provider: 'unknown',
@@ -10,6 +10,7 @@ import { LitmusTestingService } from './LitmusTestingService';
 import { EmailOnAcidTestingService } from './EmailOnAcidTestingService';
 import { TestiTestingService } from './TestiTestingService';
 import { CustomTestingService } from './CustomTestingService';
+import { SandboxTestingService } from './SandboxTestingService';
 
 /**
  * Create an email testing service instance
@@ -61,6 +62,9 @@ export function createEmailTestingService(
     case 'custom':
       return new CustomTestingService(config);
 
+    case 'sandbox':
+      return new SandboxTestingService(config);
+
     default:
       throw new Error(`Unknown email testing provider: ${config.provider}`);
   }
@@ -88,6 +92,9 @@ export function getDefaultApiEndpoint(
     case 'custom':
       return '';
 
+    case 'sandbox':
+      return '';
+
     default:
       return '';
   }
@@ -115,6 +122,9 @@ export function getRecommendedAuthMethod(
     case 'custom':
       return 'bearer';
 
+    case 'sandbox':
+      return 'api-key';
+
     default:
       return 'api-key';
   }
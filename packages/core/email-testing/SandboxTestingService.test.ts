@@ -0,0 +1,214 @@
+/**
+ * Sandbox Testing Service Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SandboxTestingService } from './SandboxTestingService';
+import type { EmailTestingConfig, EmailTestRequest } from './email-testing.types';
+import type { CompatibilityChecker } from '../compatibility/CompatibilityChecker';
+import { IssueCategory, IssueSeverity } from '../compatibility/CompatibilityChecker';
+import type { Template } from '../types';
+
+const html =
+  '<html><head><style>.btn { border-radius: 4px; color: #fff; }</style></head>' +
+  '<body><a class="btn" style="border-radius: 4px; box-shadow: 0 1px 2px #000; color: #fff">Go</a></body></html>';
+
+describe('SandboxTestingService', () => {
+  let service: SandboxTestingService;
+  let config: EmailTestingConfig;
+  let request: EmailTestRequest;
+
+  beforeEach(async () => {
+    config = {
+      provider: 'sandbox',
+      apiEndpoint: '',
+      authMethod: 'api-key',
+    };
+    request = {
+      name: 'Sandbox Test',
+      subject: 'Hello',
+      htmlContent: html,
+      clients: ['ol2019', 'gmail', 'applemail', 'thunderbird'],
+    };
+
+    service = new SandboxTestingService(config);
+    await service.connect();
+  });
+
+  describe('connection', () => {
+    it('should connect without credentials', async () => {
+      const disconnected = new SandboxTestingService(config);
+      const result = await disconnected.testConnection();
+
+      expect(result.success).toBe(true);
+      expect(result.serviceInfo?.name).toBe('Sandbox');
+      expect(disconnected.getStatus()).toBe('connected');
+    });
+
+    it('should throw when sending a test while disconnected', async () => {
+      await service.disconnect();
+
+      await expect(service.sendTest(request)).rejects.toThrow(
+        'Not connected to sandbox. Call connect() first.'
+      );
+    });
+
+    it('should list the common email clients', async () => {
+      const clients = await service.getAvailableClients();
+
+      expect(clients.map((client) => client.id)).toContain('ol2019');
+    });
+  });
+
+  describe('sendTest and getTestResults', () => {
+    it('should move a test from pending to processing to completed', async () => {
+      const test = await service.sendTest(request);
+
+      expect(test.status).toBe('pending');
+      expect(test.resultsUrl).toBe(`sandbox://tests/${test.testId}`);
+      expect(test.clientResults?.every((result) => result.status === 'pending')).toBe(true);
+
+      const processing = await service.getTestResults(test.testId);
+      expect(processing.status).toBe('processing');
+      expect(processing.clientResults?.map((result) => result.status)).toEqual([
+        'completed',
+        'completed',
+        'processing',
+        'processing',
+      ]);
+      expect(Object.keys(processing.previewUrls ?? {})).toEqual(['ol2019', 'gmail']);
+
+      const completed = await service.getTestResults(test.testId);
+      expect(completed.status).toBe('completed');
+      expect(completed.clientResults?.every((result) => result.status === 'completed')).toBe(true);
+      expect((await service.getTestResults(test.testId)).status).toBe('completed');
+    });
+
+    it('should strip the CSS each client does not support', async () => {
+      const test = await service.sendTest(request);
+      await service.getTestResults(test.testId);
+      const results = await service.getTestResults(test.testId);
+      const outlook = results.clientResults?.find((result) => result.clientId === 'ol2019');
+      const preview = decodeURIComponent(results.previewUrls?.['ol2019'] ?? '');
+
+      expect(outlook?.strippedProperties).toEqual(['border-radius', 'box-shadow']);
+      expect(outlook?.score).toBe(40);
+      expect(outlook?.issues).toContainEqual({
+        severity: 'warning',
+        message: 'Outlook 2019 (Windows) does not support border-radius',
+        property: 'border-radius',
+      });
+      expect(preview).not.toContain('border-radius');
+      expect(preview).toContain('color: #fff');
+    });
+
+    it('should report partial support as suggestions', async () => {
+      const test = await service.sendTest({ ...request, clients: ['gmail'] });
+      await service.getTestResults(test.testId);
+      const results = await service.getTestResults(test.testId);
+      const gmail = results.clientResults?.[0];
+
+      expect(gmail?.strippedProperties).toEqual([]);
+      expect(gmail?.score).toBe(100);
+      expect(gmail?.issues).toEqual([
+        expect.objectContaining({ severity: 'suggestion', property: 'box-shadow' }),
+      ]);
+    });
+
+    it('should keep all the CSS in clients without compatibility data', async () => {
+      const test = await service.sendTest({ ...request, clients: ['thunderbird'] });
+      const results = await service.getTestResults(test.testId).then(() => service.getTestResults(test.testId));
+
+      expect(results.clientResults?.[0]).toEqual({
+        clientId: 'thunderbird',
+        status: 'completed',
+        issues: [],
+        strippedProperties: [],
+        score: 100,
+      });
+    });
+
+    it('should report the checker issues affecting each client', async () => {
+      const checker = {
+        checkTemplate: vi.fn().mockReturnValue({
+          issues: {
+            critical: [],
+            warnings: [
+              {
+                id: 'issue-1',
+                severity: IssueSeverity.WARNING,
+                category: IssueCategory.CSS,
+                componentId: 'button-1',
+                componentType: 'button',
+                property: 'border-radius',
+                message: 'Rounded button corners are square in Outlook for Windows',
+                autoFixAvailable: true,
+              },
+            ],
+            suggestions: [
+              {
+                id: 'issue-2',
+                severity: IssueSeverity.SUGGESTION,
+                category: IssueCategory.ACCESSIBILITY,
+                componentId: 'image-1',
+                componentType: 'image',
+                property: 'alt',
+                message: 'Image is missing alt text',
+                autoFixAvailable: false,
+              },
+            ],
+          },
+        }),
+      } as unknown as CompatibilityChecker;
+      const template = { components: [] } as unknown as Template;
+      service = new SandboxTestingService(config, { checker, pollsToComplete: 1 });
+      await service.connect();
+
+      const test = await service.sendTest({ ...request, clients: ['ol2019', 'gmail'], template });
+      const results = await service.getTestResults(test.testId);
+      const [outlook, gmail] = results.clientResults ?? [];
+
+      expect(checker.checkTemplate).toHaveBeenCalledWith(template.components);
+      expect(outlook?.issues.filter((issue) => issue.property === 'border-radius')).toEqual([
+        {
+          severity: 'warning',
+          message: 'Rounded button corners are square in Outlook for Windows',
+          property: 'border-radius',
+          componentId: 'button-1',
+        },
+      ]);
+      expect(gmail?.issues.map((issue) => issue.property)).toEqual(['alt', 'box-shadow']);
+    });
+
+    it('should throw for unknown tests', async () => {
+      await expect(service.getTestResults('missing')).rejects.toThrow('Sandbox test not found: missing');
+    });
+  });
+
+  describe('cancelTest', () => {
+    it('should cancel running tests', async () => {
+      const test = await service.sendTest(request);
+      await service.getTestResults(test.testId);
+
+      expect(await service.cancelTest(test.testId)).toBe(true);
+
+      const results = await service.getTestResults(test.testId);
+      expect(results.status).toBe('cancelled');
+      expect(results.clientResults?.map((result) => result.status)).toEqual([
+        'completed',
+        'completed',
+        'cancelled',
+        'cancelled',
+      ]);
+    });
+
+    it('should not cancel completed tests', async () => {
+      const test = await service.sendTest(request);
+      await service.getTestResults(test.testId);
+      await service.getTestResults(test.testId);
+
+      expect(await service.cancelTest(test.testId)).toBe(false);
+      expect(await service.cancelTest('missing')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * Sandbox Email Testing Service
+ *
+ * Fully local testing service that simulates email client rendering with the
+ * compatibility data, for previewing the testing workflow offline.
+ */
+
+import { EmailTestingService } from './EmailTestingService';
+import { COMMON_EMAIL_CLIENTS } from './email-testing.types';
+import type {
+  ConnectionTestResult,
+  EmailClient,
+  EmailClientIssue,
+  EmailClientTestResult,
+  EmailTestingConfig,
+  EmailTestRequest,
+  EmailTestResponse,
+} from './email-testing.types';
+import { CompatibilityService } from '../compatibility/CompatibilityService';
+import { CompatibilityChecker } from '../compatibility/CompatibilityChecker';
+import type { CompatibilityIssue } from '../compatibility/CompatibilityChecker';
+import { ClientRenderingSimulator } from '../compatibility/ClientRenderingSimulator';
+import { EMAIL_CLIENT_LABELS, SupportLevel } from '../compatibility/compatibility.types';
+import type { EmailClientId } from '../compatibility/compatibility.types';
+import type { BaseComponent } from '../types';
+
+/**
+ * Compatibility data client for each of the common email clients
+ */
+const CLIENT_COMPATIBILITY_IDS: Record<string, EmailClientId> = {
+  ol2016: 'outlook-2016-win',
+  ol2019: 'outlook-2019-win',
+  ol2021: 'outlook-2021-win',
+  ol365: 'outlook-365-win',
+  olweb: 'outlook-web',
+  gmail: 'gmail-webmail',
+  'gmail-ios': 'gmail-ios',
+  'gmail-android': 'gmail-android',
+  applemail: 'apple-mail-macos',
+  'applemail-ios': 'apple-mail-ios',
+  yahoo: 'yahoo-webmail',
+  aol: 'aol-webmail',
+};
+
+/**
+ * Sandbox service options
+ */
+export interface SandboxTestingOptions {
+  /**
+   * Number of result polls before a test completes
+   * @default 2
+   */
+  pollsToComplete?: number;
+
+  /**
+   * Client support data
+   */
+  compatibilityService?: CompatibilityService;
+
+  /**
+   * Checker run on the template of the request
+   */
+  checker?: CompatibilityChecker;
+}
+
+interface SandboxTest {
+  response: EmailTestResponse;
+  results: EmailClientTestResult[];
+  previews: Record<string, string>;
+  polls: number;
+}
+
+/**
+ * Sandbox testing service implementation
+ *
+ * Tests run locally: each client is simulated with the
+ * {@link ClientRenderingSimulator}, and the issues of the compatibility
+ * checker that affect the client are reported. Tests move from `pending` to
+ * `processing` to `completed` as their results are polled, like a remote
+ * service; clients without compatibility data (e.g. Thunderbird) keep all
+ * the CSS.
+ *
+ * @example
+ * ```ts
+ * const sandbox = new SandboxTestingService({
+ *   provider: 'sandbox',
+ *   apiEndpoint: '',
+ *   authMethod: 'api-key',
+ * });
+ *
+ * await sandbox.connect();
+ * const test = await sandbox.sendTest({
+ *   name: 'My Template Test',
+ *   subject: 'Test Email',
+ *   htmlContent: html,
+ *   clients: ['ol2019', 'gmail', 'applemail'],
+ *   template,
+ * });
+ * const results = await sandbox.getTestResults(test.testId);
+ * ```
+ */
+export class SandboxTestingService extends EmailTestingService {
+  private compatibilityService: CompatibilityService;
+  private checker: CompatibilityChecker;
+  private simulator: ClientRenderingSimulator;
+  private pollsToComplete: number;
+  private tests = new Map<string, SandboxTest>();
+
+  constructor(config: EmailTestingConfig, options: SandboxTestingOptions = {}) {
+    super(config);
+    this.compatibilityService = options.compatibilityService ?? new CompatibilityService();
+    this.checker = options.checker ?? new CompatibilityChecker(this.compatibilityService);
+    this.simulator = new ClientRenderingSimulator(this.compatibilityService);
+    this.pollsToComplete = Math.max(1, options.pollsToComplete ?? 2);
+  }
+
+  /**
+   * Test connection to the sandbox
+   */
+  public async testConnection(): Promise<ConnectionTestResult> {
+    this.status = 'connected';
+    return {
+      success: true,
+      serviceInfo: {
+        name: 'Sandbox',
+        version: 'local',
+        availableClients: [...COMMON_EMAIL_CLIENTS],
+      },
+    };
+  }
+
+  /**
+   * Connect to the sandbox
+   */
+  public async connect(): Promise<void> {
+    this.status = 'connected';
+  }
+
+  /**
+   * Disconnect from the sandbox
+   */
+  public async disconnect(): Promise<void> {
+    this.status = 'disconnected';
+  }
+
+  /**
+   * Get available email clients
+   */
+  public async getAvailableClients(): Promise<EmailClient[]> {
+    return [...COMMON_EMAIL_CLIENTS];
+  }
+
+  /**
+   * Run a test in the sandbox
+   *
+   * Results are computed right away, and revealed as the test is polled with
+   * {@link getTestResults}.
+   */
+  public async sendTest(request: EmailTestRequest): Promise<EmailTestResponse> {
+    if (this.status !== 'connected') {
+      throw new Error('Not connected to sandbox. Call connect() first.');
+    }
+
+    const testId = `sandbox_${Date.now()}_${crypto.randomUUID().slice(0, 8)}`;
+    const checkerIssues = request.template
+      ? this.getCheckerIssues(request.template.components)
+      : [];
+    const previews: Record<string, string> = {};
+    const results = request.clients.map((clientId) => {
+      const { html, result } = this.testClient(clientId, request.htmlContent, checkerIssues);
+      previews[clientId] = `data:text/html;charset=utf-8,${encodeURIComponent(html)}`;
+      return result;
+    });
+
+    const test: SandboxTest = {
+      response: {
+        testId,
+        status: 'pending',
+        resultsUrl: `sandbox://tests/${testId}`,
+        clientResults: results.map((result) => ({
+          clientId: result.clientId,
+          status: 'pending',
+          issues: [],
+        })),
+        createdAt: new Date(),
+      },
+      results,
+      previews,
+      polls: 0,
+    };
+    this.tests.set(testId, test);
+
+    return { ...test.response };
+  }
+
+  /**
+   * Get test results
+   *
+   * Each call advances a running test: clients complete in the order they
+   * were requested, and the test completes on the last poll.
+   */
+  public async getTestResults(testId: string): Promise<EmailTestResponse> {
+    const test = this.tests.get(testId);
+    if (!test) {
+      throw new Error(`Sandbox test not found: ${testId}`);
+    }
+
+    if (test.response.status === 'pending' || test.response.status === 'processing') {
+      test.polls += 1;
+      const completedCount = Math.ceil((test.results.length * test.polls) / this.pollsToComplete);
+      const completed = test.results.slice(0, completedCount);
+      const running = test.results.slice(completedCount).map(
+        (result): EmailClientTestResult => ({ clientId: result.clientId, status: 'processing', issues: [] })
+      );
+
+      test.response = {
+        ...test.response,
+        status: test.polls >= this.pollsToComplete ? 'completed' : 'processing',
+        previewUrls: Object.fromEntries(completed.map((result) => [result.clientId, test.previews[result.clientId]!])),
+        clientResults: [...completed, ...running],
+      };
+    }
+
+    return { ...test.response };
+  }
+
+  /**
+   * Cancel a running test
+   */
+  public async cancelTest(testId: string): Promise<boolean> {
+    const test = this.tests.get(testId);
+    if (!test || test.response.status === 'completed' || test.response.status === 'cancelled') {
+      return false;
+    }
+
+    test.response = {
+      ...test.response,
+      status: 'cancelled',
+      clientResults: test.response.clientResults?.map((result) =>
+        result.status === 'completed' ? result : { ...result, status: 'cancelled' }
+      ) ?? [],
+    };
+    return true;
+  }
+
+  /**
+   * The sandbox needs no credentials
+   */
+  protected async validateCredentials(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * The sandbox makes no requests
+   */
+  protected buildAuthHeaders(): Record<string, string> {
+    return {};
+  }
+
+  private getCheckerIssues(components: BaseComponent[]): CompatibilityIssue[] {
+    const report = this.checker.checkTemplate(components);
+    return [...report.issues.critical, ...report.issues.warnings, ...report.issues.suggestions];
+  }
+
+  private testClient(
+    clientId: string,
+    html: string,
+    checkerIssues: CompatibilityIssue[]
+  ): { html: string; result: EmailClientTestResult } {
+    const client = this.toCompatibilityClient(clientId);
+    const rendering = client ? this.simulator.simulate(html, client) : undefined;
+
+    const issues: EmailClientIssue[] = checkerIssues
+      .filter((issue) => !client || !issue.property || this.affectsClient(issue.property, client))
+      .map((issue) => ({
+        severity: issue.severity,
+        message: issue.message,
+        ...(issue.property && { property: issue.property }),
+        componentId: issue.componentId,
+      }));
+    const reported = new Set(issues.map((issue) => issue.property));
+
+    rendering?.differences.forEach((difference) => {
+      const key = difference.property ?? difference.change;
+      if (!reported.has(key)) {
+        reported.add(key);
+        issues.push({
+          severity: 'warning',
+          message: difference.reason,
+          ...(difference.property && { property: difference.property }),
+        });
+      }
+    });
+    rendering?.partialProperties.forEach((property) => {
+      if (!reported.has(property)) {
+        const notes = this.compatibilityService.getPropertySupportForClient(property, client!)?.notes;
+        issues.push({
+          severity: 'suggestion',
+          message: `${EMAIL_CLIENT_LABELS[client!]} partially supports ${property}${notes?.length ? `: ${notes.join(' ')}` : ''}`,
+          property,
+        });
+      }
+    });
+
+    const removed = rendering?.differences.filter((difference) => difference.change === 'removed-declaration') ?? [];
+    return {
+      html: rendering?.html ?? html,
+      result: {
+        clientId,
+        status: 'completed',
+        issues,
+        strippedProperties: Array.from(new Set(removed.map((difference) => difference.property!))),
+        score: rendering && rendering.declarationCount > 0
+          ? Math.round(((rendering.declarationCount - rendering.removedDeclarationCount) / rendering.declarationCount) * 100)
+          : 100,
+      },
+    };
+  }
+
+  private affectsClient(property: string, client: EmailClientId): boolean {
+    const level = this.compatibilityService.getPropertySupportForClient(property, client)?.level;
+    return level === undefined || level !== SupportLevel.FULL;
+  }
+
+  private toCompatibilityClient(clientId: string): EmailClientId | undefined {
+    if (clientId in CLIENT_COMPATIBILITY_IDS) {
+      return CLIENT_COMPATIBILITY_IDS[clientId];
+    }
+    return clientId in EMAIL_CLIENT_LABELS ? (clientId as EmailClientId) : undefined;
+  }
+}
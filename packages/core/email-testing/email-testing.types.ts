@@ -2,9 +2,12 @@
  * Email Testing Service Types
  *
  * Type definitions for external email testing service integration.
- * Supports services like Litmus, Email on Acid, Testi@, and custom services.
+ * Supports services like Litmus, Email on Acid, Testi@, and custom services,
+ * and a local sandbox.
  */
 
+import type { Template } from '../types/template.types';
+
 /**
  * Available email testing service providers
  */
@@ -12,7 +15,8 @@ export type EmailTestingProvider =
   | 'litmus'
   | 'email-on-acid'
   | 'testi'
-  | 'custom';
+  | 'custom'
+  | 'sandbox';
 
 /**
  * Authentication method for API access
@@ -189,6 +193,12 @@ export interface EmailTestRequest {
    * Custom metadata
    */
   metadata?: Record<string, unknown>;
+
+  /**
+   * Template the HTML was exported from, for services analyzing the template
+   * itself (the sandbox runs the compatibility checker on it)
+   */
+  template?: Template;
 }
 
 /**
@@ -196,6 +206,51 @@ export interface EmailTestRequest {
  */
 export type TestStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
 
+/**
+ * Problem found in one email client
+ */
+export interface EmailClientIssue {
+  severity: 'critical' | 'warning' | 'suggestion';
+  message: string;
+
+  /**
+   * CSS property involved (if applicable)
+   */
+  property?: string;
+
+  /**
+   * Component involved (if known)
+   */
+  componentId?: string;
+}
+
+/**
+ * Results of a test in one email client
+ */
+export interface EmailClientTestResult {
+  /**
+   * Client identifier, as requested
+   */
+  clientId: string;
+
+  status: TestStatus;
+
+  /**
+   * Problems found in this client
+   */
+  issues: EmailClientIssue[];
+
+  /**
+   * CSS properties the client strips from the HTML
+   */
+  strippedProperties?: string[];
+
+  /**
+   * Compatibility score in this client (0-100)
+   */
+  score?: number;
+}
+
 /**
  * Email test response from service
  */
@@ -220,6 +275,11 @@ export interface EmailTestResponse {
    */
   previewUrls?: Record<string, string>;
 
+  /**
+   * Results per email client (for services that report them)
+   */
+  clientResults?: EmailClientTestResult[];
+
   /**
    * Estimated completion time (if processing)
    */
@@ -2,7 +2,8 @@
  * Email Testing Integration
  *
  * Services for integrating with external email testing platforms.
- * Supports Litmus, Email on Acid, Testi@, and custom services.
+ * Supports Litmus, Email on Acid, Testi@, and custom services, and a local
+ * sandbox for offline testing.
  *
  * @packageDocumentation
  */
@@ -18,6 +19,8 @@ export type {
   EmailTestRequest,
   TestStatus,
   EmailTestResponse,
+  EmailClientIssue,
+  EmailClientTestResult,
   ConnectionTestResult,
   EmailTestHistoryItem,
 } from './email-testing.types';
@@ -32,6 +35,8 @@ export { LitmusTestingService } from './LitmusTestingService';
 export { EmailOnAcidTestingService } from './EmailOnAcidTestingService';
 export { TestiTestingService } from './TestiTestingService';
 export { CustomTestingService } from './CustomTestingService';
+export { SandboxTestingService } from './SandboxTestingService';
+export type { SandboxTestingOptions } from './SandboxTestingService';
 
 // Export factory
 export {
@@ -12,8 +12,13 @@ export class BuilderError extends Error {
   public readonly code: string;
   public readonly context?: Record<string, unknown>;
 
-  constructor(message: string, code: string, context?: Record<string, unknown>) {
-    super(message);
+  constructor(
+    message: string,
+    code: string,
+    context?: Record<string, unknown>,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
     this.name = 'BuilderError';
     this.code = code;
     if (context !== undefined) {
@@ -63,17 +68,81 @@ export class StorageError extends BuilderError {
   }
 }
 
+/**
+ * API Storage Error
+ * Thrown when a request to a remote storage API fails
+ */
+export class ApiStorageError extends StorageError {
+  public readonly key?: string;
+  public readonly status?: number;
+
+  constructor(
+    message: string,
+    operation: 'read' | 'write' | 'delete' | 'clear',
+    key?: string,
+    status?: number,
+    context?: Record<string, unknown>
+  ) {
+    super(message, operation, context);
+    this.name = 'ApiStorageError';
+    if (key !== undefined) {
+      this.key = key;
+    }
+    if (status !== undefined) {
+      this.status = status;
+    }
+  }
+}
+
+/**
+ * Storage Conflict Error
+ * Thrown when a write is rejected because the stored value changed since it was read
+ */
+export class StorageConflictError extends ApiStorageError {
+  constructor(
+    key: string,
+    operation: 'write' | 'delete',
+    context?: Record<string, unknown>
+  ) {
+    super(`Storage conflict: ${key} was modified by another client`, operation, key, 412, context);
+    this.name = 'StorageConflictError';
+  }
+}
+
 /**
  * Template Manager Error
  * Thrown when template manager operations fail
  */
 export class TemplateManagerError extends BuilderError {
-  constructor(message: string, context?: Record<string, unknown>) {
-    super(message, 'TEMPLATE_MANAGER_ERROR', context);
+  constructor(message: string, context?: Record<string, unknown>, options?: ErrorOptions) {
+    super(message, 'TEMPLATE_MANAGER_ERROR', context, options);
     this.name = 'TemplateManagerError';
   }
 }
 
+/**
+ * Global Block Error
+ * Thrown when a global block operation fails
+ */
+export class GlobalBlockError extends BuilderError {
+  constructor(message: string, context?: Record<string, unknown>, options?: ErrorOptions) {
+    super(message, 'GLOBAL_BLOCK_ERROR', context, options);
+    this.name = 'GlobalBlockError';
+  }
+}
+
+/**
+ * Localization Error
+ * Thrown when the localized content of a template cannot be changed, or a
+ * translation file cannot be read
+ */
+export class LocalizationError extends BuilderError {
+  constructor(message: string, context?: Record<string, unknown>, options?: ErrorOptions) {
+    super(message, 'LOCALIZATION_ERROR', context, options);
+    this.name = 'LocalizationError';
+  }
+}
+
 /**
  * Template Not Found Error
  * Thrown when a template cannot be found
@@ -173,6 +242,77 @@ export class ExportError extends BuilderError {
   }
 }
 
+/**
+ * Import Error
+ * Thrown when a document cannot be imported as a template
+ */
+export class ImportError extends BuilderError {
+  public readonly format: string;
+
+  constructor(message: string, format: string, context?: Record<string, unknown>) {
+    super(message, 'IMPORT_ERROR', context);
+    this.name = 'ImportError';
+    this.format = format;
+  }
+}
+
+/**
+ * Display Rule Error
+ * Thrown when a display rule is invalid, or cannot be written in the
+ * conditional syntax of an ESP
+ */
+export class DisplayRuleError extends BuilderError {
+  constructor(message: string, context?: Record<string, unknown>, options?: ErrorOptions) {
+    super(message, 'DISPLAY_RULE_ERROR', context, options);
+    this.name = 'DisplayRuleError';
+  }
+}
+
+/**
+ * Repeat Binding Error
+ * Thrown when a repeated component cannot be exported
+ */
+export class RepeatBindingError extends BuilderError {
+  constructor(message: string, context?: Record<string, unknown>, options?: ErrorOptions) {
+    super(message, 'REPEAT_BINDING_ERROR', context, options);
+    this.name = 'RepeatBindingError';
+  }
+}
+
+/**
+ * Theme Token Error
+ * Thrown when a theme token does not exist or cannot style a property
+ */
+export class ThemeTokenError extends BuilderError {
+  constructor(message: string, context?: Record<string, unknown>, options?: ErrorOptions) {
+    super(message, 'THEME_TOKEN_ERROR', context, options);
+    this.name = 'ThemeTokenError';
+  }
+}
+
+/**
+ * Customization Error
+ * Thrown when stored customizations cannot be loaded, or a variant or recipe
+ * cannot be applied
+ */
+export class CustomizationError extends BuilderError {
+  constructor(message: string, context?: Record<string, unknown>, options?: ErrorOptions) {
+    super(message, 'CUSTOMIZATION_ERROR', context, options);
+    this.name = 'CustomizationError';
+  }
+}
+
+/**
+ * Test Send Error
+ * Thrown when a test email cannot be sent
+ */
+export class TestSendError extends BuilderError {
+  constructor(message: string, context?: Record<string, unknown>, options?: ErrorOptions) {
+    super(message, 'TEST_SEND_ERROR', context, options);
+    this.name = 'TestSendError';
+  }
+}
+
 /**
  * Constraint Violation Error
  * Thrown when a template constraint is violated
@@ -235,6 +375,13 @@ export function isStorageError(error: unknown): error is StorageError {
   return error instanceof StorageError;
 }
 
+/**
+ * Type guard to check if an error is a StorageConflictError
+ */
+export function isStorageConflictError(error: unknown): error is StorageConflictError {
+  return error instanceof StorageConflictError;
+}
+
 /**
  * Type guard to check if an error is a TemplateNotFoundError
  */
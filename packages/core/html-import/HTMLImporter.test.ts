@@ -0,0 +1,188 @@
+/**
+ * HTML Importer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { HTMLImporter } from './HTMLImporter';
+import { TemplateExporter } from '../template/TemplateExporter';
+import { createEmptyEmailTemplate } from '../template/TemplateComposer';
+import {
+  createButton,
+  createText,
+  createImage,
+  createSeparator,
+  createSpacer,
+} from '../components/factories';
+import { ImportError } from '../errors';
+import type {
+  ButtonComponent,
+  TextComponent,
+  ImageComponent,
+  SeparatorComponent,
+  SpacerComponent,
+  HTMLComponent,
+} from '../types';
+
+const NEWSLETTER = `
+<!DOCTYPE html>
+<html>
+<head>
+  <title>Spring   sale</title>
+  <style>
+    body { font-family: Georgia, serif; }
+    .lead { font-size: 18px; color: #222222; }
+    a:hover { color: red; }
+  </style>
+</head>
+<body bgcolor="#f4f4f4">
+  <div style="display: none; mso-hide: all">Up to 50% off&zwnj;&nbsp;</div>
+  <table width="100%" cellpadding="0" cellspacing="0">
+    <tr><td align="center">
+      <!--[if mso]><table width="600"><tr><td><![endif]-->
+      <table width="600" cellpadding="0" cellspacing="0" bgcolor="#ffffff">
+        <tr><td align="center" style="padding: 20px"><a href="https://acme.test"><img src="https://acme.test/logo.png" alt="Acme" width="120"></a></td></tr>
+        <tr><td class="lead" style="padding: 10px 20px; text-align: left"><h1>Spring sale</h1></td></tr>
+        <tr><td class="lead" style="padding: 0 20px">Everything must go. <a href="https://acme.test/shop">Browse</a> the shop.</td></tr>
+        <tr><td align="center">
+          <table cellpadding="0" cellspacing="0"><tr>
+            <td bgcolor="#e91e63" style="border-radius: 6px; padding: 12px 30px">
+              <a href="https://acme.test/sale" target="_blank" style="color: #ffffff; font-weight: bold; text-decoration: none">Shop now</a>
+            </td>
+          </tr></table>
+        </td></tr>
+        <tr><td height="30" style="font-size: 0; line-height: 0">&nbsp;</td></tr>
+        <tr><td style="padding: 0 20px"><hr style="border: 0; border-top: 2px dashed #dddddd"></td></tr>
+        <tr>
+          <td width="50%">Left column</td>
+          <td width="50%">Right column</td>
+        </tr>
+        <tr><td><form action="https://acme.test/subscribe"><input name="email"></form></td></tr>
+      </table>
+      <!--[if mso]></td></tr></table><![endif]-->
+    </td></tr>
+  </table>
+  <script>track()</script>
+</body>
+</html>`;
+
+describe('HTMLImporter', () => {
+  const importer = new HTMLImporter();
+
+  it('should recognize images, text, buttons, spacers and separators', () => {
+    const { template } = importer.import(NEWSLETTER);
+
+    expect(template.components.map((component) => component.type)).toEqual([
+      'image',
+      'text',
+      'text',
+      'button',
+      'spacer',
+      'separator',
+      'html',
+      'html',
+    ]);
+    expect(template.metadata).toMatchObject({ name: 'Spring sale', subject: 'Spring sale', preheader: 'Up to 50% off' });
+    expect(template.settings.canvasDimensions.width).toBe(600);
+    expect(template.generalStyles.canvasBackgroundColor).toBe('#f4f4f4');
+  });
+
+  it('should lift styles from attributes, style rules and inline styles', () => {
+    const { template } = importer.import(NEWSLETTER);
+    const [image, heading, paragraph] = template.components as [ImageComponent, TextComponent, TextComponent];
+
+    expect(image.content).toEqual({
+      src: 'https://acme.test/logo.png',
+      alt: 'Acme',
+      link: { href: 'https://acme.test' },
+    });
+    expect(image.styles).toMatchObject({ width: { value: 120, unit: 'px' }, horizontalAlign: 'center' });
+    expect(image.styles.padding?.top).toEqual({ value: 20, unit: 'px' });
+
+    expect(heading.content).toEqual({ type: 'heading-1', html: '<h1>Spring sale</h1>', plainText: 'Spring sale' });
+    expect(heading.styles).toMatchObject({
+      fontFamily: 'Georgia, serif',
+      fontSize: { value: 18, unit: 'px' },
+      color: '#222222',
+      textAlign: 'left',
+      padding: { top: { value: 10, unit: 'px' }, left: { value: 20, unit: 'px' } },
+    });
+    expect(paragraph.content.type).toBe('paragraph');
+    expect(paragraph.content.html).toBe('Everything must go. <a href="https://acme.test/shop">Browse</a> the shop.');
+  });
+
+  it('should import bulletproof buttons', () => {
+    const { template } = importer.import(NEWSLETTER);
+    const button = template.components[3] as ButtonComponent;
+
+    expect(button.content).toEqual({
+      text: 'Shop now',
+      link: { href: 'https://acme.test/sale', target: '_blank' },
+    });
+    expect(button.styles).toMatchObject({
+      variant: 'filled',
+      backgroundColor: '#e91e63',
+      color: '#ffffff',
+      fontWeight: 'bold',
+      horizontalAlign: 'center',
+      padding: { top: { value: 12, unit: 'px' }, right: { value: 30, unit: 'px' } },
+    });
+    expect(button.styles.border?.radius?.topLeft).toEqual({ value: 6, unit: 'px' });
+  });
+
+  it('should import spacer cells and rules', () => {
+    const { template } = importer.import(NEWSLETTER);
+    const spacer = template.components[4] as SpacerComponent;
+    const separator = template.components[5] as SeparatorComponent;
+
+    expect(spacer.content.height).toEqual({ value: 30, unit: 'px' });
+    expect(separator.content).toMatchObject({
+      thickness: { value: 2, unit: 'px' },
+      style: 'dashed',
+      color: '#dddddd',
+    });
+    expect(separator.styles.padding?.left).toEqual({ value: 20, unit: 'px' });
+  });
+
+  it('should keep unknown regions as HTML blocks and report them', () => {
+    const { template, warnings, fidelity } = importer.import(NEWSLETTER);
+    const [columns, form] = template.components.slice(6) as [HTMLComponent, HTMLComponent];
+
+    expect(columns.content.html).toMatch(/^<table role="presentation"[^>]*><tr>\s*<td width="50%">Left column<\/td>/);
+    expect(form.content.html).toBe('<form action="https://acme.test/subscribe"><input name="email"></form>');
+    expect(warnings.map((warning) => warning.type)).toEqual([
+      'unsupported-style',
+      'layout-conversion',
+      'raw-html',
+      'unsupported-element',
+    ]);
+    expect(warnings[2]?.context).toBe('body > table[1] > tr[0] > td[0] > table[0] > tr[7] > td[0] > form[0]');
+    expect(fidelity).toBeGreaterThan(0.5);
+    expect(fidelity).toBeLessThan(1);
+  });
+
+  it('should import the HTML export of a template', () => {
+    const source = createEmptyEmailTemplate('Round trip');
+    const heading = createText();
+    heading.content = { type: 'heading-2', html: '<h2>Hello</h2>', plainText: 'Hello' };
+    source.components = [heading, createImage(), createButton(), createSeparator(), createSpacer()];
+    const html = new TemplateExporter().export(source, { format: 'html', inlineStyles: true }).html ?? '';
+
+    const { template, warnings, fidelity } = importer.import(html);
+
+    expect(template.components.map((component) => component.type)).toEqual([
+      'text',
+      'image',
+      'button',
+      'separator',
+      'spacer',
+    ]);
+    expect((template.components[0] as TextComponent).content.type).toBe('heading-2');
+    expect((template.components[2] as ButtonComponent).styles.border?.radius?.topLeft).toEqual({ value: 4, unit: 'px' });
+    expect(warnings).toEqual([]);
+    expect(fidelity).toBe(1);
+  });
+
+  it('should reject input without markup', () => {
+    expect(() => importer.import('Just some text')).toThrow(ImportError);
+  });
+});
@@ -0,0 +1,907 @@
+/**
+ * HTML Importer
+ *
+ * Converts hand-coded, table-based email HTML to templates
+ */
+
+import type { BaseComponent, BaseStyles, Border, BorderStyle, CSSValue, Spacing } from '../types/component.types';
+import type {
+  ButtonComponent,
+  ButtonStyles,
+  ImageComponent,
+  LinkConfig,
+  SeparatorContent,
+  TextContentType,
+  TextStyles,
+} from '../types';
+import {
+  createButton,
+  createText,
+  createImage,
+  createSeparator,
+  createSpacer,
+  createHTMLBlock,
+} from '../components/factories';
+import { TemplateComposer } from '../template/TemplateComposer';
+import { EmailExportService } from '../services/EmailExportService';
+import { parseCSSValue, parseSpacing } from '../renderer/utils';
+import { parseHTML, elementChildren, findElement, textContent } from './html-parser';
+import type {
+  HTMLNode,
+  HTMLImportWarning,
+  HTMLImportWarningType,
+  HTMLImportOptions,
+  HTMLImportResult,
+} from './html-import.types';
+
+/**
+ * CSS declarations keyed by property name
+ */
+type Declarations = Record<string, string>;
+
+/**
+ * Box styles lifted from cells and links
+ */
+type BoxStyles = Pick<BaseStyles, 'backgroundColor' | 'backgroundImage' | 'padding' | 'border'>;
+
+/**
+ * Style rule with a single selector the importer can match
+ */
+interface SimpleRule {
+  tagName?: string;
+  ids: string[];
+  classes: string[];
+  properties: Declarations;
+  specificity: number;
+}
+
+/**
+ * Elements that only position their content
+ */
+const LAYOUT_TAGS = new Set([
+  'body',
+  'table',
+  'tbody',
+  'thead',
+  'tfoot',
+  'tr',
+  'td',
+  'th',
+  'div',
+  'center',
+  'section',
+  'article',
+  'header',
+  'footer',
+  'main',
+]);
+
+/**
+ * Elements allowed inside a text block
+ */
+const TEXT_TAGS = new Set([
+  'a',
+  'abbr',
+  'b',
+  'big',
+  'blockquote',
+  'br',
+  'center',
+  'cite',
+  'code',
+  'del',
+  'div',
+  'em',
+  'font',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'i',
+  'ins',
+  'li',
+  'mark',
+  'ol',
+  'p',
+  'pre',
+  'q',
+  's',
+  'small',
+  'span',
+  'strike',
+  'strong',
+  'sub',
+  'sup',
+  'u',
+  'ul',
+]);
+
+/**
+ * Elements that are content even without text
+ */
+const MEDIA_TAGS = new Set([
+  'img',
+  'hr',
+  'video',
+  'audio',
+  'iframe',
+  'svg',
+  'canvas',
+  'object',
+  'embed',
+  'picture',
+  'form',
+  'input',
+  'button',
+  'select',
+  'textarea',
+]);
+
+/**
+ * Elements that are not part of the email content
+ */
+const SKIPPED_TAGS = new Set(['head', 'style', 'script', 'meta', 'link', 'title', 'base', 'noscript']);
+
+/**
+ * Properties inherited by nested elements
+ */
+const INHERITED_PROPERTIES = [
+  'color',
+  'font-family',
+  'font-size',
+  'font-style',
+  'font-weight',
+  'letter-spacing',
+  'line-height',
+  'text-align',
+  'text-transform',
+];
+
+const BORDER_STYLES: BorderStyle[] = [
+  'none',
+  'solid',
+  'dashed',
+  'dotted',
+  'double',
+  'groove',
+  'ridge',
+  'inset',
+  'outset',
+];
+
+const BORDER_WIDTHS: Record<string, CSSValue> = {
+  thin: { value: 1, unit: 'px' },
+  medium: { value: 3, unit: 'px' },
+  thick: { value: 5, unit: 'px' },
+};
+
+const TABLE_OPEN = '<table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%">';
+
+function isBlank(node: HTMLNode): boolean {
+  return node.tagName === '#text' && !(node.text ?? '').trim();
+}
+
+/**
+ * Gets the children that carry something (non-blank text or elements)
+ */
+function meaningfulChildren(node: HTMLNode): HTMLNode[] {
+  return node.children.filter((child) => !isBlank(child) && !SKIPPED_TAGS.has(child.tagName));
+}
+
+function hasText(node: HTMLNode): boolean {
+  return textContent(node) !== '';
+}
+
+/**
+ * Counts the content units (text runs, images, rules, media) of a node
+ */
+function contentWeight(node: HTMLNode): number {
+  if (node.tagName === '#text') {
+    return isBlank(node) ? 0 : 1;
+  }
+  if (SKIPPED_TAGS.has(node.tagName)) {
+    return 0;
+  }
+  const own = MEDIA_TAGS.has(node.tagName) ? 1 : 0;
+  return node.children.reduce((weight, child) => weight + contentWeight(child), own);
+}
+
+function hasContent(node: HTMLNode): boolean {
+  return contentWeight(node) > 0;
+}
+
+/**
+ * Checks whether every descendant is a text-level element
+ */
+function onlyTextTags(node: HTMLNode): boolean {
+  return node.children.every(
+    (child) =>
+      child.tagName === '#text' ||
+      SKIPPED_TAGS.has(child.tagName) ||
+      (TEXT_TAGS.has(child.tagName) && onlyTextTags(child))
+  );
+}
+
+/**
+ * Parses a length, reading unitless HTML attribute values as pixels
+ */
+function parseLength(value: string | undefined): CSSValue | undefined {
+  const length = parseCSSValue(value);
+  return length && length.unit !== 'auto' ? length : undefined;
+}
+
+/**
+ * Parses a border radius, using the top-left corner of a shorthand
+ */
+function parseRadius(value: string | undefined): CSSValue | undefined {
+  return parseLength(value?.trim().split(/\s+/)[0]);
+}
+
+/**
+ * Parses a line height, skipping unitless multipliers
+ */
+function parseLineHeight(value: string | undefined): CSSValue | undefined {
+  return value && /[a-z%]\s*$/i.test(value) ? parseLength(value) : undefined;
+}
+
+function parseFontWeight(value: string | undefined): TextStyles['fontWeight'] {
+  if (value === 'bold' || value === 'normal') {
+    return value;
+  }
+  return value && /^[1-9]00$/.test(value) ? (Number(value) as TextStyles['fontWeight']) : undefined;
+}
+
+/**
+ * Parses a border shorthand such as `1px solid #cccccc`
+ */
+function parseBorder(value: string | undefined): Border | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  let width: CSSValue | undefined;
+  let style: BorderStyle | undefined;
+  let color: string | undefined;
+
+  value.trim().split(/\s+(?![^(]*\))/).forEach((part) => {
+    const lower = part.toLowerCase();
+    if (BORDER_STYLES.includes(lower as BorderStyle)) {
+      style = lower as BorderStyle;
+    } else if (BORDER_WIDTHS[lower] || parseLength(part)) {
+      width = BORDER_WIDTHS[lower] ?? parseLength(part);
+    } else {
+      color = part;
+    }
+  });
+
+  if (!style || style === 'none' || width?.value === 0) {
+    return undefined;
+  }
+
+  return { width: width ?? { value: 3, unit: 'px' }, style, color: color ?? '#000000' };
+}
+
+/**
+ * Gets the background color of a `background` shorthand or attribute
+ */
+function backgroundColor(declarations: Declarations): string | undefined {
+  const background = declarations['background'];
+  const fromShorthand = background
+    ?.split(/\s+(?![^(]*\))/)
+    .find((part) => /^(#[0-9a-f]{3,8}|rgba?\(.*\)|hsla?\(.*\)|[a-z]+)$/i.test(part) && !/^(none|no-repeat|repeat|center|top|left|right|bottom)$/i.test(part));
+
+  const color = declarations['background-color'] ?? fromShorthand;
+  return color && color !== 'transparent' ? color : undefined;
+}
+
+function backgroundImage(declarations: Declarations): string | undefined {
+  const match = /url\(\s*['"]?([^'")]+)['"]?\s*\)/.exec(
+    declarations['background-image'] ?? declarations['background'] ?? ''
+  );
+  return match?.[1];
+}
+
+function horizontalAlign(value: string | undefined): BaseStyles['horizontalAlign'] {
+  return value === 'left' || value === 'center' || value === 'right' || value === 'justify' ? value : undefined;
+}
+
+/**
+ * Drops undefined values, for optional properties
+ */
+function stripUndefined<T extends object>(values: { [K in keyof T]: T[K] | undefined }): T {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as T;
+}
+
+/**
+ * Reads the typography of resolved declarations
+ */
+function liftTextStyles(declarations: Declarations): TextStyles {
+  return stripUndefined<TextStyles>({
+    fontFamily: declarations['font-family'],
+    fontSize: parseLength(declarations['font-size']),
+    fontWeight: parseFontWeight(declarations['font-weight']),
+    fontStyle: declarations['font-style'] as TextStyles['fontStyle'],
+    color: declarations['color'],
+    lineHeight: parseLineHeight(declarations['line-height']),
+    letterSpacing: parseLength(declarations['letter-spacing']),
+    textDecoration: declarations['text-decoration'] as TextStyles['textDecoration'],
+    textTransform: declarations['text-transform'] as TextStyles['textTransform'],
+    textAlign: horizontalAlign(declarations['text-align']) as TextStyles['textAlign'],
+  });
+}
+
+/**
+ * Reads the box (background, padding, border) of resolved declarations
+ */
+function liftBoxStyles(declarations: Declarations): BoxStyles {
+  const padding = parseSpacing(declarations['padding'] ?? '0');
+  const sides = ['top', 'right', 'bottom', 'left'] as const;
+  let hasPadding = declarations['padding'] !== undefined;
+
+  sides.forEach((side) => {
+    const value = parseLength(declarations[`padding-${side}`]);
+    if (padding && value) {
+      padding[side] = value;
+      hasPadding = true;
+    }
+  });
+
+  const border = parseBorder(declarations['border']);
+  const radius = parseRadius(declarations['border-radius']);
+
+  return stripUndefined<BoxStyles>({
+    backgroundColor: backgroundColor(declarations),
+    backgroundImage: backgroundImage(declarations),
+    padding: hasPadding ? padding : undefined,
+    border:
+      border && radius
+        ? { ...border, radius: { topLeft: radius, topRight: radius, bottomRight: radius, bottomLeft: radius } }
+        : border,
+  });
+}
+
+/**
+ * Keeps the inherited properties of resolved declarations
+ */
+function inheritedDeclarations(declarations: Declarations): Declarations {
+  return Object.fromEntries(
+    INHERITED_PROPERTIES.filter((property) => declarations[property] !== undefined).map((property) => [
+      property,
+      declarations[property] as string,
+    ])
+  );
+}
+
+/**
+ * Checks whether link declarations draw a button
+ */
+function isStyledLink(declarations: Declarations): boolean {
+  const box = liftBoxStyles(declarations);
+  return (
+    box.backgroundColor !== undefined ||
+    box.border !== undefined ||
+    (declarations['display'] === 'inline-block' && box.padding !== undefined)
+  );
+}
+
+function linkConfig(anchor: HTMLNode): LinkConfig {
+  const target = anchor.attributes['target'];
+  return {
+    href: anchor.attributes['href'] ?? '#',
+    ...((target === '_blank' || target === '_self' || target === '_parent' || target === '_top') && { target }),
+    ...(anchor.attributes['title'] && { title: anchor.attributes['title'] }),
+    ...(anchor.attributes['rel'] && { rel: anchor.attributes['rel'] }),
+  };
+}
+
+/**
+ * HTML Importer
+ *
+ * Rebuilds a template from hand-coded email HTML. Layout tables, rows, cells
+ * and wrapper `<div>`s are walked through; what they hold becomes typed
+ * components:
+ *
+ * - `<img>`, optionally linked, becomes an image
+ * - a link styled as a button, or alone in a colored cell of its own table
+ *   (the "bulletproof" button), becomes a button
+ * - cells and blocks holding only text markup become text components, with
+ *   their heading level when they hold a single heading
+ * - `<hr>` and empty cells with a top or bottom border become separators
+ * - empty cells with a height become spacers
+ *
+ * Styles from `style` attributes, presentational attributes (`bgcolor`,
+ * `align`, `width`, ...) and simple `<style>` rules are lifted into the
+ * component styles, using the CSS parsing of {@link EmailExportService}.
+ *
+ * Everything else, including rows with several columns, is kept as HTML
+ * blocks with its original markup and reported as a warning. The fidelity
+ * score tells how much of the content was imported as typed components.
+ *
+ * @example
+ * ```ts
+ * const { template, warnings, fidelity } = new HTMLImporter().import(html);
+ * ```
+ */
+export class HTMLImporter {
+  private css: EmailExportService;
+  private warnings: HTMLImportWarning[] = [];
+  private rules: SimpleRule[] = [];
+  private source = '';
+  private preheader: string | undefined;
+  private weights = { typed: 0, raw: 0 };
+
+  /**
+   * @param css - Service whose CSS parsing reads `<style>` and `style` attributes
+   */
+  constructor(css: EmailExportService = new EmailExportService()) {
+    this.css = css;
+  }
+
+  /**
+   * Import an HTML email
+   *
+   * @param html - HTML document or fragment
+   * @param options - Import options
+   * @returns Template, conversion warnings and fidelity score
+   * @throws {ImportError} When the markup contains no elements
+   */
+  import(html: string, options: HTMLImportOptions = {}): HTMLImportResult {
+    this.warnings = [];
+    this.source = html;
+    this.preheader = undefined;
+    this.weights = { typed: 0, raw: 0 };
+
+    const document = parseHTML(html);
+    this.rules = this.readRules(html);
+
+    const body = findElement(document, 'body') ?? document;
+    const title = findElement(document, 'title')?.text?.replace(/\s+/g, ' ').trim() ?? '';
+    const bodyStyles = this.resolve(body);
+    const components = this.importChildren(body, 'body', inheritedDeclarations(bodyStyles));
+
+    const composer = new TemplateComposer({
+      target: 'email',
+      name: options.name ?? (title || 'Imported HTML template'),
+      width: this.contentWidth(body) ?? 600,
+      responsive: true,
+    });
+    composer.setBackgroundColor(this.canvasBackground(body, bodyStyles) ?? '#ffffff');
+    composer.addComponents(components);
+
+    const template = composer.build();
+    if (title && !options.name) {
+      template.metadata.subject = title;
+    }
+    if (this.preheader) {
+      template.metadata.preheader = this.preheader;
+    }
+
+    const total = this.weights.typed + this.weights.raw;
+    return {
+      template,
+      warnings: this.warnings,
+      fidelity: total === 0 ? 1 : Math.round((this.weights.typed / total) * 100) / 100,
+    };
+  }
+
+  /**
+   * Reads the `<style>` rules with selectors that can be matched
+   */
+  private readRules(html: string): SimpleRule[] {
+    const rules: SimpleRule[] = [];
+    let ignored = 0;
+
+    this.css.extractCSS(html).forEach((rule) => {
+      rule.selector.split(',').forEach((selector) => {
+        const match = /^([a-z][\w-]*)?((?:[.#][\w-]+)*)$/i.exec(selector.trim());
+        if (!match || (!match[1] && !match[2])) {
+          ignored++;
+          return;
+        }
+
+        const parts = match[2]?.match(/[.#][\w-]+/g) ?? [];
+        const ids = parts.filter((part) => part.startsWith('#')).map((part) => part.slice(1));
+        const classes = parts.filter((part) => part.startsWith('.')).map((part) => part.slice(1));
+        rules.push({
+          ...(match[1] && { tagName: match[1].toLowerCase() }),
+          ids,
+          classes,
+          properties: rule.properties,
+          specificity: ids.length * 100 + classes.length * 10 + (match[1] ? 1 : 0),
+        });
+      });
+    });
+
+    if (ignored > 0) {
+      this.warn('unsupported-style', `${ignored} style rule(s) with complex selectors were not applied`, 'head > style');
+    }
+
+    return rules.sort((a, b) => a.specificity - b.specificity);
+  }
+
+  /**
+   * Resolves the declarations of an element: presentational attributes, then
+   * matching style rules, then the `style` attribute
+   */
+  private resolve(node: HTMLNode): Declarations {
+    const { attributes } = node;
+    const declarations: Declarations = {};
+    const classes = (attributes['class'] ?? '').split(/\s+/).filter(Boolean);
+    const length = (value: string | undefined) => (value && /^\d+$/.test(value) ? `${value}px` : value);
+
+    const presentational: Record<string, string | undefined> = {
+      'background-color': attributes['bgcolor'],
+      'background-image': attributes['background'] ? `url(${attributes['background']})` : undefined,
+      'text-align': node.tagName === 'table' || node.tagName === 'img' ? undefined : attributes['align'],
+      'vertical-align': attributes['valign'],
+      width: length(attributes['width']),
+      height: length(attributes['height']),
+      color: node.tagName === 'font' ? attributes['color'] : undefined,
+      'font-family': node.tagName === 'font' ? attributes['face'] : undefined,
+    };
+    Object.entries(presentational).forEach(([property, value]) => {
+      if (value) {
+        declarations[property] = value;
+      }
+    });
+    if (node.tagName === 'center') {
+      declarations['text-align'] = 'center';
+    }
+
+    this.rules
+      .filter(
+        (rule) =>
+          (!rule.tagName || rule.tagName === node.tagName) &&
+          rule.ids.every((id) => attributes['id'] === id) &&
+          rule.classes.every((name) => classes.includes(name))
+      )
+      .forEach((rule) => Object.assign(declarations, rule.properties));
+
+    return Object.assign(declarations, this.css.parseInlineStyle(attributes['style'] ?? ''));
+  }
+
+  /**
+   * Imports the children of a layout element
+   */
+  private importChildren(node: HTMLNode, path: string, inherited: Declarations): BaseComponent[] {
+    return elementChildren(node).flatMap((child, index) =>
+      this.importNode(child, `${path} > ${child.tagName}[${index}]`, inherited)
+    );
+  }
+
+  private importNode(node: HTMLNode, path: string, inherited: Declarations): BaseComponent[] {
+    if (SKIPPED_TAGS.has(node.tagName)) {
+      if (node.tagName === 'script') {
+        this.warn('unsupported-element', 'Scripts are not supported in emails and were removed', path);
+      }
+      return [];
+    }
+
+    const declarations = this.resolve(node);
+    const context = { ...inherited, ...inheritedDeclarations(declarations) };
+
+    if (declarations['display'] === 'none' || declarations['mso-hide'] === 'all') {
+      // Hidden text at the top of an email is its preheader
+      if (!this.preheader && hasText(node)) {
+        this.preheader = textContent(node).replace(/[\u200b-\u200d\u034f\ufeff]/g, '').replace(/\s+/g, ' ').trim();
+      }
+      return [];
+    }
+
+    if (!hasContent(node)) {
+      const divider = this.importEmpty(node);
+      if (divider) {
+        this.weights.typed++;
+        return [divider];
+      }
+      if (elementChildren(node).length > 1) {
+        return this.importChildren(node, path, context);
+      }
+      return [];
+    }
+
+    const chain = this.soleChain(node);
+    const leaf = chain[chain.length - 1] as HTMLNode;
+    const typed =
+      (leaf.tagName === 'img' && this.importImage(chain, inherited)) ||
+      (leaf.tagName === 'hr' && this.importRule(chain)) ||
+      (leaf.tagName === 'a' && this.importButton(chain, inherited)) ||
+      (hasText(node) &&
+        (LAYOUT_TAGS.has(node.tagName) || TEXT_TAGS.has(node.tagName)) &&
+        onlyTextTags(node) &&
+        !this.containsStyledLink(node) &&
+        this.importText(node, declarations, context));
+
+    if (typed) {
+      this.weights.typed += contentWeight(node);
+      return [typed];
+    }
+
+    if (!LAYOUT_TAGS.has(node.tagName) || meaningfulChildren(node).some((child) => child.tagName === '#text')) {
+      return this.importRaw(node, path, `<${node.tagName}> has no matching component and was kept as an HTML block`);
+    }
+
+    if (node.tagName === 'tr' && elementChildren(node).filter(hasContent).length > 1) {
+      return this.importRaw(node, path, 'Row with several columns was kept as an HTML block', 'layout-conversion');
+    }
+
+    const components = this.importChildren(node, path, context);
+    if (components.length === 1 && (node.tagName === 'td' || node.tagName === 'th' || node.tagName === 'div')) {
+      this.liftContainer(components[0] as BaseComponent, declarations);
+    }
+    return components;
+  }
+
+  /**
+   * Follows single-child wrappers down to the element they hold
+   */
+  private soleChain(node: HTMLNode): HTMLNode[] {
+    const chain = [node];
+    let current = node;
+
+    for (;;) {
+      const children = meaningfulChildren(current);
+      const [child] = children;
+      if (children.length !== 1 || !child || child.tagName === '#text') {
+        return chain;
+      }
+      chain.push(child);
+      current = child;
+    }
+  }
+
+  /**
+   * Merges the inherited declarations along a chain of wrappers
+   */
+  private chainContext(chain: HTMLNode[], inherited: Declarations): Declarations[] {
+    const contexts: Declarations[] = [];
+    chain.reduce((context, node) => {
+      const next = { ...context, ...inheritedDeclarations(this.resolve(node)) };
+      contexts.push(next);
+      return next;
+    }, inherited);
+    return contexts;
+  }
+
+  private importImage(chain: HTMLNode[], inherited: Declarations): BaseComponent | null {
+    const img = chain[chain.length - 1] as HTMLNode;
+    const anchor = chain.find((node) => node.tagName === 'a');
+    const declarations = this.resolve(img);
+    const contexts = this.chainContext(chain.slice(0, -1), inherited);
+    const image = createImage();
+    const width = parseLength(declarations['width']);
+    const height = parseLength(declarations['height']);
+
+    image.content = {
+      src: img.attributes['src'] ?? '',
+      alt: img.attributes['alt'] ?? '',
+      ...(img.attributes['title'] && { title: img.attributes['title'] }),
+      ...(anchor && { link: linkConfig(anchor) }),
+    };
+    image.styles = stripUndefined<ImageComponent['styles']>({
+      width: width ?? { value: 100, unit: '%' },
+      height,
+      display: 'block',
+      horizontalAlign: horizontalAlign(contexts[contexts.length - 1]?.['text-align']),
+      padding: this.cellPadding(chain),
+    });
+
+    return image;
+  }
+
+  private importRule(chain: HTMLNode[]): BaseComponent {
+    const declarations = this.resolve(chain[chain.length - 1] as HTMLNode);
+    const border =
+      parseBorder(declarations['border-top']) ??
+      parseBorder(declarations['border-bottom']) ??
+      parseBorder(declarations['border']);
+    const color = backgroundColor(declarations);
+    const height = parseLength(declarations['height']);
+    const padding = this.cellPadding(chain);
+    const separator = createSeparator();
+
+    if (border) {
+      Object.assign(separator.content, this.separatorContent(border));
+    } else {
+      Object.assign(separator.content, color && { color }, height && { thickness: height });
+    }
+    if (padding) {
+      separator.styles.padding = padding;
+    }
+    return separator;
+  }
+
+  /**
+   * Gets the padding of the innermost cell of a chain of wrappers
+   */
+  private cellPadding(chain: HTMLNode[]): Spacing | undefined {
+    const cell = [...chain].reverse().find((node) => node.tagName === 'td' || node.tagName === 'th');
+    return cell ? liftBoxStyles(this.resolve(cell)).padding : undefined;
+  }
+
+  /**
+   * Imports a link styled as a button, or alone in a colored cell of a
+   * table of its own
+   */
+  private importButton(chain: HTMLNode[], inherited: Declarations): BaseComponent | null {
+    const anchor = chain[chain.length - 1] as HTMLNode;
+    const parent = chain[chain.length - 2];
+    const table = [...chain].reverse().find((node) => node.tagName === 'table');
+    const own = this.resolve(anchor);
+    const cell = parent && (parent.tagName === 'td' || parent.tagName === 'th') ? this.resolve(parent) : {};
+    const linkBox = liftBoxStyles(own);
+    const cellBox = liftBoxStyles(cell);
+    const styledLink = isStyledLink(own);
+    const bulletproofCell =
+      cellBox.backgroundColor !== undefined &&
+      table !== undefined &&
+      chain.indexOf(table) < chain.indexOf(parent as HTMLNode) &&
+      this.resolve(table)['width'] !== '100%';
+
+    if (!hasText(anchor) || (!styledLink && !bulletproofCell)) {
+      return null;
+    }
+
+    const contexts = this.chainContext(chain.slice(0, -1), inherited);
+    const outer = contexts[chain.indexOf(table ?? anchor) - 1] ?? inherited;
+    const fill = linkBox.backgroundColor ?? cellBox.backgroundColor;
+    const border = linkBox.border ?? cellBox.border;
+    const radius = parseRadius(own['border-radius'] ?? cell['border-radius']) ?? { value: 0, unit: 'px' };
+    const button: ButtonComponent = createButton();
+
+    button.content = { text: textContent(anchor), link: linkConfig(anchor) };
+    button.styles = {
+      ...liftTextStyles({ ...(contexts[contexts.length - 1] ?? {}), ...inheritedDeclarations(own) }),
+      ...stripUndefined<ButtonStyles & BaseStyles>({
+        variant: fill ? 'filled' : border ? 'outlined' : 'text',
+        backgroundColor: fill ?? border?.color,
+        padding: linkBox.padding ?? cellBox.padding,
+        horizontalAlign: horizontalAlign(outer['text-align']) ?? 'left',
+      }),
+      border: {
+        ...(border ?? { width: { value: 0, unit: 'px' }, style: 'none', color: fill ?? '#000000' }),
+        radius: { topLeft: radius, topRight: radius, bottomRight: radius, bottomLeft: radius },
+      },
+    };
+
+    return button;
+  }
+
+  /**
+   * Checks whether a text region holds a link styled as a button
+   */
+  private containsStyledLink(node: HTMLNode): boolean {
+    return elementChildren(node).some(
+      (child) => (child.tagName === 'a' && isStyledLink(this.resolve(child))) || this.containsStyledLink(child)
+    );
+  }
+
+  private importText(node: HTMLNode, declarations: Declarations, context: Declarations): BaseComponent {
+    const blocks = meaningfulChildren(node);
+    const heading = blocks.length === 1 ? /^h([1-6])$/.exec(blocks[0]?.tagName ?? '') : null;
+    const html = LAYOUT_TAGS.has(node.tagName)
+      ? this.source.slice(node.contentStart, node.contentEnd)
+      : this.source.slice(node.start, node.end);
+    const text = createText();
+
+    text.content = {
+      type: (heading ? `heading-${heading[1]}` : 'paragraph') as TextContentType,
+      html: html.trim(),
+      plainText: textContent(node),
+    };
+    text.styles = { ...liftTextStyles(context), ...liftBoxStyles(declarations) };
+
+    return text;
+  }
+
+  /**
+   * Imports an element without content as a separator or spacer
+   */
+  private importEmpty(node: HTMLNode): BaseComponent | null {
+    const chain = this.soleChain(node);
+
+    for (const element of [...chain].reverse()) {
+      const declarations = this.resolve(element);
+      const border = parseBorder(declarations['border-top']) ?? parseBorder(declarations['border-bottom']);
+      const height = parseLength(declarations['height']);
+      const color = backgroundColor(declarations);
+
+      if (border) {
+        const separator = createSeparator();
+        separator.content = { ...separator.content, ...this.separatorContent(border) };
+        const padding = liftBoxStyles(declarations).padding;
+        if (padding) {
+          separator.styles.padding = padding;
+        }
+        return separator;
+      }
+      if (height && color && height.unit === 'px' && Number(height.value) <= 4) {
+        const separator = createSeparator();
+        separator.content = { ...separator.content, thickness: height, color };
+        return separator;
+      }
+      if (height && element.tagName !== 'table') {
+        const spacer = createSpacer();
+        spacer.content.height = height;
+        return spacer;
+      }
+    }
+
+    return null;
+  }
+
+  private separatorContent(border: Border): Partial<SeparatorContent> {
+    const style = ['solid', 'dashed', 'dotted', 'double'].includes(border.style)
+      ? (border.style as SeparatorContent['style'])
+      : 'solid';
+    return { thickness: border.width, color: border.color, style };
+  }
+
+  /**
+   * Keeps an element as an HTML block with its original markup
+   */
+  private importRaw(
+    node: HTMLNode,
+    path: string,
+    message: string,
+    type: HTMLImportWarningType = 'raw-html'
+  ): BaseComponent[] {
+    let html = this.source.slice(node.start, node.end).trim();
+    if (node.tagName === 'tr') {
+      html = `${TABLE_OPEN}${html}</table>`;
+    } else if (node.tagName === 'td' || node.tagName === 'th') {
+      html = `${TABLE_OPEN}<tr>${html}</tr></table>`;
+    }
+
+    this.warn(type, message, path);
+    this.weights.raw += Math.max(contentWeight(node), 1);
+    return [createHTMLBlock({ content: { html } })];
+  }
+
+  /**
+   * Moves the padding and background of a cell onto the only component it holds
+   */
+  private liftContainer(component: BaseComponent, declarations: Declarations): void {
+    const box = liftBoxStyles(declarations);
+    const styles: BaseStyles = component.styles;
+
+    if (box.padding && !styles.padding && component.type !== 'button') {
+      styles.padding = box.padding;
+    }
+    if (box.backgroundColor && !styles.backgroundColor && component.type !== 'button') {
+      styles.backgroundColor = box.backgroundColor;
+    }
+  }
+
+  /**
+   * Finds the width of the content column, e.g. the 600px table
+   */
+  private contentWidth(node: HTMLNode): number | undefined {
+    for (const child of elementChildren(node)) {
+      const declarations = this.resolve(child);
+      const width = parseLength(declarations['max-width']) ?? parseLength(declarations['width']);
+      if (width?.unit === 'px' && Number(width.value) >= 320 && Number(width.value) <= 1200) {
+        return Number(width.value);
+      }
+      const nested = this.contentWidth(child);
+      if (nested) {
+        return nested;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Gets the background of the body, or of the full-width wrapper around the content
+   */
+  private canvasBackground(body: HTMLNode, bodyStyles: Declarations): string | undefined {
+    const wrapper = elementChildren(body).find((child) => !SKIPPED_TAGS.has(child.tagName));
+    return backgroundColor(bodyStyles) ?? (wrapper ? backgroundColor(this.resolve(wrapper)) : undefined);
+  }
+
+  private warn(type: HTMLImportWarningType, message: string, context: string): void {
+    this.warnings.push({ type, message, context });
+  }
+}
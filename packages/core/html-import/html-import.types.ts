@@ -0,0 +1,106 @@
+/**
+ * HTML import type definitions
+ */
+
+import type { Template } from '../types/template.types';
+
+/**
+ * Node of a parsed HTML document
+ */
+export interface HTMLNode {
+  /**
+   * Lowercase tag name, `#text` for text and `#document` for the root
+   */
+  tagName: string;
+
+  /**
+   * Attributes, with entities decoded
+   */
+  attributes: Record<string, string>;
+
+  /**
+   * Child nodes
+   */
+  children: HTMLNode[];
+
+  /**
+   * Decoded text of `#text` nodes, and content of `<style>`, `<script>` and `<title>`
+   */
+  text?: string;
+
+  /**
+   * Source offset where the node starts
+   */
+  start: number;
+
+  /**
+   * Source offset where the node ends, after its closing tag
+   */
+  end: number;
+
+  /**
+   * Source range of the content, between the opening and closing tags
+   */
+  contentStart: number;
+  contentEnd: number;
+}
+
+/**
+ * Warning types for HTML import
+ */
+export type HTMLImportWarningType =
+  | 'raw-html'
+  | 'unsupported-element'
+  | 'unsupported-style'
+  | 'layout-conversion';
+
+/**
+ * Something that could not be imported as a typed component
+ */
+export interface HTMLImportWarning {
+  /**
+   * Warning type
+   */
+  type: HTMLImportWarningType;
+
+  /**
+   * Warning message
+   */
+  message: string;
+
+  /**
+   * Element path that caused the warning, e.g. `body > table[0] > tr[1]`
+   */
+  context?: string;
+}
+
+/**
+ * HTML import options
+ */
+export interface HTMLImportOptions {
+  /**
+   * Template name (defaults to the `<title>`)
+   */
+  name?: string;
+}
+
+/**
+ * HTML import result
+ */
+export interface HTMLImportResult {
+  /**
+   * Imported template
+   */
+  template: Template;
+
+  /**
+   * Conversion warnings
+   */
+  warnings: HTMLImportWarning[];
+
+  /**
+   * Share of the content (text runs, images and rules) that was imported as
+   * typed components rather than HTML blocks, from 0 to 1
+   */
+  fidelity: number;
+}
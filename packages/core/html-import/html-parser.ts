@@ -0,0 +1,244 @@
+/**
+ * HTML Parser
+ *
+ * Lenient parser for email markup, keeping the source range of every node so
+ * regions can be copied back verbatim
+ */
+
+import { ImportError } from '../errors';
+import { decodeEntities } from '../renderer/plain-text';
+import type { HTMLNode } from './html-import.types';
+
+/**
+ * Elements without content or closing tag
+ */
+const VOID_TAGS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'param',
+  'source',
+  'track',
+  'wbr',
+]);
+
+/**
+ * Elements whose content is text rather than markup
+ */
+const RAW_TEXT_TAGS = new Set(['style', 'script', 'title', 'textarea']);
+
+/**
+ * Open elements that an opening tag closes implicitly
+ */
+const IMPLIED_END_TAGS: Record<string, string[]> = {
+  tr: ['tr', 'td', 'th', 'p'],
+  td: ['td', 'th', 'p'],
+  th: ['td', 'th', 'p'],
+  li: ['li', 'p'],
+  p: ['p'],
+  div: ['p'],
+  table: ['p'],
+  ul: ['p'],
+  ol: ['p'],
+  h1: ['p'],
+  h2: ['p'],
+  h3: ['p'],
+  h4: ['p'],
+  h5: ['p'],
+  h6: ['p'],
+};
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(raw)) !== null) {
+    const name = (match[1] ?? '').toLowerCase();
+    if (!(name in attributes)) {
+      attributes[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+  }
+
+  return attributes;
+}
+
+function textNode(text: string, start: number, end: number): HTMLNode {
+  return {
+    tagName: '#text',
+    attributes: {},
+    children: [],
+    text: decodeEntities(text),
+    start,
+    end,
+    contentStart: start,
+    contentEnd: end,
+  };
+}
+
+/**
+ * Parses an HTML document
+ *
+ * Comments, including Outlook conditional comments and the markup they hide,
+ * are skipped, as are whitespace-only text runs. Missing end tags are closed
+ * the way browsers close table cells, rows and paragraphs.
+ *
+ * @param html - HTML markup
+ * @returns Document node
+ * @throws {ImportError} When the markup contains no elements
+ */
+export function parseHTML(html: string): HTMLNode {
+  const root: HTMLNode = {
+    tagName: '#document',
+    attributes: {},
+    children: [],
+    start: 0,
+    end: html.length,
+    contentStart: 0,
+    contentEnd: html.length,
+  };
+  const stack: HTMLNode[] = [root];
+  const tokenPattern = /<!--[\s\S]*?-->|<![^>]*>|<\?[\s\S]*?\?>|<(\/?)([a-zA-Z][\w:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/g;
+  const lowerCase = html.toLowerCase();
+  let elementCount = 0;
+  let textStart = 0;
+  let match: RegExpExecArray | null;
+
+  const current = () => stack[stack.length - 1] as HTMLNode;
+
+  const flushText = (end: number) => {
+    const text = html.slice(textStart, end);
+    if (text.trim()) {
+      current().children.push(textNode(text, textStart, end));
+    }
+  };
+
+  const close = (index: number, contentEnd: number, end: number) => {
+    while (stack.length > index) {
+      const node = stack.pop() as HTMLNode;
+      node.contentEnd = contentEnd;
+      // Elements left open end where the enclosing one is closed
+      node.end = stack.length === index ? end : contentEnd;
+    }
+  };
+
+  while ((match = tokenPattern.exec(html)) !== null) {
+    const [token, closing, rawTag, rawAttributes = ''] = match;
+    flushText(match.index);
+    textStart = match.index + token.length;
+
+    if (!rawTag) {
+      continue;
+    }
+
+    const tagName = rawTag.toLowerCase();
+
+    if (closing) {
+      const index = stack.map((node) => node.tagName).lastIndexOf(tagName);
+      if (index > 0) {
+        close(index, match.index, match.index + token.length);
+      }
+      continue;
+    }
+
+    const implied = IMPLIED_END_TAGS[tagName];
+    while (implied?.includes(current().tagName)) {
+      close(stack.length - 1, match.index, match.index);
+    }
+
+    const selfClosing = rawAttributes.trimEnd().endsWith('/');
+    const contentStart = match.index + token.length;
+    const node: HTMLNode = {
+      tagName,
+      attributes: parseAttributes(selfClosing ? rawAttributes.trimEnd().slice(0, -1) : rawAttributes),
+      children: [],
+      start: match.index,
+      end: contentStart,
+      contentStart,
+      contentEnd: contentStart,
+    };
+    current().children.push(node);
+    elementCount++;
+
+    if (selfClosing || VOID_TAGS.has(tagName)) {
+      continue;
+    }
+
+    if (RAW_TEXT_TAGS.has(tagName)) {
+      // Everything up to the closing tag is text
+      const end = lowerCase.indexOf(`</${tagName}`, contentStart);
+      const contentEnd = end === -1 ? html.length : end;
+      const closeEnd = end === -1 ? html.length : html.indexOf('>', end) + 1 || html.length;
+      const text = html.slice(contentStart, contentEnd);
+      node.text = tagName === 'title' ? decodeEntities(text) : text;
+      node.contentEnd = contentEnd;
+      node.end = closeEnd;
+      tokenPattern.lastIndex = closeEnd;
+      textStart = closeEnd;
+      continue;
+    }
+
+    node.contentEnd = html.length;
+    node.end = html.length;
+    stack.push(node);
+  }
+
+  flushText(html.length);
+  close(1, html.length, html.length);
+
+  if (elementCount === 0) {
+    throw new ImportError('Invalid HTML: no elements found', 'html');
+  }
+
+  return root;
+}
+
+/**
+ * Gets the element children of a node
+ */
+export function elementChildren(node: HTMLNode): HTMLNode[] {
+  return node.children.filter((child) => child.tagName !== '#text');
+}
+
+/**
+ * Finds the first descendant element with a tag name
+ */
+export function findElement(node: HTMLNode, tagName: string): HTMLNode | undefined {
+  for (const child of node.children) {
+    if (child.tagName === tagName) {
+      return child;
+    }
+    const found = findElement(child, tagName);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Gets the text of a node on a single line
+ */
+export function textContent(node: HTMLNode): string {
+  const collect = (current: HTMLNode): string => {
+    if (current.tagName === '#text') {
+      return current.text ?? '';
+    }
+    if (current.tagName === 'br') {
+      return ' ';
+    }
+    if (RAW_TEXT_TAGS.has(current.tagName)) {
+      return '';
+    }
+    return current.children.map(collect).join('');
+  };
+
+  return collect(node).replace(/\s+/g, ' ').trim();
+}
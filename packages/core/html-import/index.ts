@@ -0,0 +1,15 @@
+/**
+ * HTML Import Module
+ *
+ * Converts hand-coded HTML emails to templates
+ */
+
+export { HTMLImporter } from './HTMLImporter';
+export { parseHTML } from './html-parser';
+export type {
+  HTMLNode,
+  HTMLImportWarning,
+  HTMLImportWarningType,
+  HTMLImportOptions,
+  HTMLImportResult,
+} from './html-import.types';
@@ -97,6 +97,13 @@ export class TranslationManager {
     return Array.from(locales);
   }
 
+  /**
+   * Get the auto-translation plugin, e.g. to pre-fill content translations
+   */
+  getAutoTranslationPlugin(): AutoTranslationPlugin | undefined {
+    return this.autoTranslationPlugin;
+  }
+
   /**
    * Add a translation provider
    */
@@ -0,0 +1,150 @@
+/**
+ * Content Localization Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  extractLocalizableContent,
+  setLocalizedTexts,
+  localizeTemplate,
+  getMissingTranslations,
+  prefillTranslations,
+  addTemplateLocale,
+  removeTemplateLocale,
+  getTemplateLocales,
+  isLocalizablePath,
+} from './content-localization';
+import type { AutoTranslationPlugin } from './types';
+import { createEmptyEmailTemplate } from '../template/TemplateComposer';
+import { createButton, createHeader, createImage, createRow, createText } from '../components/factories';
+import { LocalizationError } from '../errors';
+import type { Template } from '../types';
+
+const createTestTemplate = (): Template => {
+  const template = createEmptyEmailTemplate('Newsletter');
+  const row = createRow({ id: 'row-1' }, '1');
+  row.children![0]!.children = [createButton({ id: 'button-1', content: { text: 'Shop now', link: { href: '#' } } })];
+  template.metadata.subject = 'October news';
+  template.components = [
+    createText({ id: 'text-1', content: { type: 'paragraph', html: '<p>Hello</p>', plainText: 'Hello' } }),
+    createImage({ id: 'image-1', content: { src: 'https://cdn.example.com/a.png', alt: 'Autumn sale' } }),
+    row,
+  ];
+  return template;
+};
+
+describe('extractLocalizableContent', () => {
+  it('should list the text fields of components at any depth and the metadata', () => {
+    const keys = extractLocalizableContent(createTestTemplate()).map((entry) => entry.key);
+
+    expect(keys).toEqual([
+      'metadata:subject',
+      'text-1:content.html',
+      'image-1:content.alt',
+      'button-1:content.text',
+    ]);
+  });
+
+  it('should expand array fields', () => {
+    const template = createEmptyEmailTemplate('Header');
+    const header = createHeader({ id: 'header-1' });
+    template.components = [header];
+
+    const paths = extractLocalizableContent(template).map((entry) => entry.path);
+
+    expect(paths).toContain('content.navigationLinks.0.text');
+  });
+});
+
+describe('isLocalizablePath', () => {
+  it('should match translatable fields, array items included', () => {
+    expect(isLocalizablePath('header', 'content.navigationLinks.2.text')).toBe(true);
+    expect(isLocalizablePath('header', 'content.navigationLinks.2.href')).toBe(false);
+    expect(isLocalizablePath('text', 'content.plainText')).toBe(false);
+    expect(isLocalizablePath('spacer', 'content.height')).toBe(false);
+  });
+});
+
+describe('localizeTemplate', () => {
+  it('should apply translations and fall back to the source content', () => {
+    const template = setLocalizedTexts(createTestTemplate(), 'es-ES', {
+      'metadata:subject': 'Novedades de octubre',
+      'text-1:content.html': '<p>Hola</p>',
+      'button-1:content.text': 'Comprar',
+    });
+
+    const spanish = localizeTemplate(template, 'es-ES');
+
+    expect(spanish.metadata.subject).toBe('Novedades de octubre');
+    expect(spanish.settings.locale).toBe('es-ES');
+    expect(spanish.components[0]!.content).toMatchObject({ html: '<p>Hola</p>', plainText: undefined });
+    expect(spanish.components[1]!.content['alt']).toBe('Autumn sale');
+    expect(spanish.components[2]!.children![0]!.children![0]!.content['text']).toBe('Comprar');
+    expect(spanish.localization).toBeUndefined();
+    expect(template.components[0]!.content['html']).toBe('<p>Hello</p>');
+  });
+});
+
+describe('locales', () => {
+  it('should add and remove locales, dropping their translations', () => {
+    let template = addTemplateLocale(createTestTemplate(), 'fr-FR');
+    template = setLocalizedTexts(template, 'de-DE', { 'text-1:content.html': '<p>Hallo</p>' });
+
+    expect(getTemplateLocales(template)).toEqual(['en-US', 'fr-FR', 'de-DE']);
+
+    template = removeTemplateLocale(template, 'de-DE');
+
+    expect(getTemplateLocales(template)).toEqual(['en-US', 'fr-FR']);
+    expect(template.localization?.translations['de-DE']).toBeUndefined();
+  });
+
+  it('should not translate the source locale', () => {
+    expect(() => setLocalizedTexts(createTestTemplate(), 'en-US', {})).toThrow(LocalizationError);
+  });
+});
+
+describe('getMissingTranslations', () => {
+  it('should report missing, draft and outdated translations', () => {
+    let template = setLocalizedTexts(createTestTemplate(), 'es-ES', { 'text-1:content.html': '<p>Hola</p>' });
+    template = setLocalizedTexts(template, 'es-ES', { 'button-1:content.text': 'Comprar' }, { draft: true });
+    template.components[0]!.content['html'] = '<p>Hello there</p>';
+
+    const [status] = getMissingTranslations(template).locales;
+
+    expect(status!.missing.map((entry) => entry.key)).toEqual(['metadata:subject', 'image-1:content.alt']);
+    expect(status!.drafts.map((entry) => entry.key)).toEqual(['button-1:content.text']);
+    expect(status!.outdated.map((entry) => entry.key)).toEqual(['text-1:content.html']);
+    expect(status!.coverage).toBe(0.5);
+  });
+});
+
+describe('prefillTranslations', () => {
+  const createPlugin = (supported = true): AutoTranslationPlugin => ({
+    name: 'test-translate',
+    translate: vi.fn(),
+    translateBatch: vi.fn(async (items: Array<{ key: string; text: string }>) =>
+      new Map(items.map((item) => [item.key, `[es] ${item.text}`]))
+    ),
+    supportsLocale: () => supported,
+  });
+
+  it('should translate the missing texts from the source locale', async () => {
+    const plugin = createPlugin();
+    const template = setLocalizedTexts(createTestTemplate(), 'es-ES', { 'text-1:content.html': '<p>Hola</p>' });
+
+    const texts = await prefillTranslations(template, 'es-ES', plugin);
+
+    expect(plugin.translateBatch).toHaveBeenCalledWith(expect.any(Array), 'en-US', 'es-ES');
+    expect(texts).toEqual({
+      'metadata:subject': '[es] October news',
+      'image-1:content.alt': '[es] Autumn sale',
+      'button-1:content.text': '[es] Shop now',
+    });
+  });
+
+  it('should reject locales the plugin does not support', async () => {
+    await expect(prefillTranslations(createTestTemplate(), 'xx-XX', createPlugin(false))).rejects.toThrow(
+      'test-translate does not support xx-XX'
+    );
+  });
+});
@@ -0,0 +1,416 @@
+/**
+ * Content Localization
+ *
+ * Per-locale variants of the text of a template: which fields can be
+ * translated, how translations are stored in `Template.localization`, and how
+ * a template is rendered in one of its locales
+ */
+
+import type { AutoTranslationPlugin } from './types';
+import type {
+  BaseComponent,
+  LocalizableEntry,
+  LocalizedText,
+  MissingTranslationReport,
+  Template,
+  TemplateLocalization,
+} from '../types';
+import { LocalizationError } from '../errors';
+import { flattenComponents } from '../template/component-tree';
+
+/**
+ * Translatable field paths per component type
+ *
+ * A `*` segment matches every item of an array (e.g. every navigation link).
+ */
+export type LocalizableFieldMap = Record<string, string[]>;
+
+/**
+ * Translatable fields of the built-in components
+ */
+export const LOCALIZABLE_FIELDS: LocalizableFieldMap = {
+  text: ['content.html'],
+  button: ['content.text', 'content.link.title'],
+  image: ['content.alt', 'content.title', 'content.link.title'],
+  html: ['content.html'],
+  header: ['content.image.alt', 'content.navigationLinks.*.text', 'content.navigationLinks.*.link.title'],
+  footer: ['content.textSections.*.html', 'content.copyrightText'],
+  hero: [
+    'content.image.alt',
+    'content.heading.html',
+    'content.description.html',
+    'content.button.text',
+    'content.button.link.title',
+  ],
+  list: [
+    'content.items.*.image.alt',
+    'content.items.*.title.html',
+    'content.items.*.description.html',
+    'content.items.*.button.text',
+    'content.items.*.button.link.title',
+  ],
+  'call-to-action': [
+    'content.heading.html',
+    'content.description.html',
+    'content.primaryButton.text',
+    'content.primaryButton.link.title',
+    'content.secondaryButton.text',
+    'content.secondaryButton.link.title',
+  ],
+};
+
+/**
+ * Translatable metadata fields
+ */
+export const LOCALIZABLE_METADATA_FIELDS = ['subject', 'preheader'] as const;
+
+/**
+ * Locale of templates that do not define one
+ */
+const DEFAULT_SOURCE_LOCALE = 'en-US';
+
+const METADATA_KEY_PREFIX = 'metadata';
+
+/**
+ * Builds the translation key of a field
+ *
+ * @param owner - Component ID, or `metadata` for metadata fields
+ * @param path - Field path
+ */
+export function getLocalizationKey(owner: string, path: string): string {
+  return `${owner}:${path}`;
+}
+
+function getAt(source: unknown, segments: string[]): unknown {
+  return segments.reduce<unknown>(
+    (value, segment) =>
+      typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[segment] : undefined,
+    source
+  );
+}
+
+/**
+ * Returns a copy of an object with a value set at a path, copying the objects
+ * and arrays along the way
+ */
+function setAt<T>(source: T, segments: string[], value: unknown): T {
+  const [segment, ...rest] = segments;
+  if (segment === undefined) {
+    return value as T;
+  }
+
+  const current = typeof source === 'object' && source !== null ? source : {};
+  const next = setAt((current as Record<string, unknown>)[segment], rest, value);
+
+  if (Array.isArray(current)) {
+    const copy = [...current];
+    copy[Number(segment)] = next;
+    return copy as T;
+  }
+  return { ...current, [segment]: next } as T;
+}
+
+/**
+ * Expands the `*` segments of a field path into the paths of the strings it matches
+ */
+function expandPath(source: unknown, path: string): Array<{ path: string; text: string }> {
+  const expand = (value: unknown, segments: string[], prefix: string[]): Array<{ path: string; text: string }> => {
+    const [segment, ...rest] = segments;
+    if (segment === undefined) {
+      return typeof value === 'string' && value.trim() ? [{ path: prefix.join('.'), text: value }] : [];
+    }
+    if (segment === '*') {
+      return Array.isArray(value)
+        ? value.flatMap((item, index) => expand(item, rest, [...prefix, String(index)]))
+        : [];
+    }
+    return expand(getAt(value, [segment]), rest, [...prefix, segment]);
+  };
+
+  return expand(source, path.split('.'), []);
+}
+
+/**
+ * Checks whether a field of a component type is translatable
+ *
+ * @param componentType - Component type
+ * @param path - Field path, with array indices (e.g. `content.navigationLinks.0.text`)
+ * @param fields - Translatable fields per component type
+ */
+export function isLocalizablePath(
+  componentType: string,
+  path: string,
+  fields: LocalizableFieldMap = LOCALIZABLE_FIELDS
+): boolean {
+  const segments = path.split('.');
+
+  return (fields[componentType] ?? []).some((pattern) => {
+    const patternSegments = pattern.split('.');
+    return (
+      patternSegments.length === segments.length &&
+      patternSegments.every((segment, index) =>
+        segment === '*' ? /^\d+$/.test(segments[index]!) : segment === segments[index]
+      )
+    );
+  });
+}
+
+/**
+ * Gets the locale of the template content itself
+ */
+export function getSourceLocale(template: Template): string {
+  return template.localization?.sourceLocale ?? template.settings.locale ?? DEFAULT_SOURCE_LOCALE;
+}
+
+/**
+ * Gets the locales of a template, source locale first
+ */
+export function getTemplateLocales(template: Template): string[] {
+  return [getSourceLocale(template), ...(template.localization?.locales ?? [])];
+}
+
+/**
+ * Lists the translatable texts of a template, including nested components
+ *
+ * @param template - Template
+ * @param fields - Translatable fields per component type
+ * @returns Translatable texts, metadata first
+ */
+export function extractLocalizableContent(
+  template: Template,
+  fields: LocalizableFieldMap = LOCALIZABLE_FIELDS
+): LocalizableEntry[] {
+  const metadata = LOCALIZABLE_METADATA_FIELDS.flatMap((path) =>
+    expandPath(template.metadata, path).map(
+      (entry): LocalizableEntry => ({ key: getLocalizationKey(METADATA_KEY_PREFIX, entry.path), ...entry })
+    )
+  );
+
+  const components = flattenComponents(template.components).flatMap((component) =>
+    (fields[component.type] ?? []).flatMap((path) =>
+      expandPath(component, path).map(
+        (entry): LocalizableEntry => ({
+          key: getLocalizationKey(component.id, entry.path),
+          componentId: component.id,
+          ...entry,
+        })
+      )
+    )
+  );
+
+  return [...metadata, ...components];
+}
+
+function getLocalization(template: Template): TemplateLocalization {
+  return template.localization ?? { sourceLocale: getSourceLocale(template), locales: [], translations: {} };
+}
+
+/**
+ * Adds a locale to a template
+ *
+ * @returns Updated copy of the template
+ * @throws {LocalizationError} If the locale is the source locale
+ */
+export function addTemplateLocale(template: Template, locale: string): Template {
+  const localization = getLocalization(template);
+  if (locale === localization.sourceLocale) {
+    throw new LocalizationError(`${locale} is the source locale of the template`, { locale });
+  }
+  if (localization.locales.includes(locale)) {
+    return template;
+  }
+
+  return { ...template, localization: { ...localization, locales: [...localization.locales, locale] } };
+}
+
+/**
+ * Removes a locale and its translations from a template
+ *
+ * @returns Updated copy of the template
+ */
+export function removeTemplateLocale(template: Template, locale: string): Template {
+  const localization = getLocalization(template);
+  const { [locale]: _removed, ...translations } = localization.translations;
+
+  return {
+    ...template,
+    localization: {
+      ...localization,
+      locales: localization.locales.filter((item) => item !== locale),
+      translations,
+    },
+  };
+}
+
+/**
+ * Sets translations of a locale
+ *
+ * The current source text of each key is stored with its translation, so the
+ * report can flag translations whose source changed afterwards. Empty values
+ * remove the translation.
+ *
+ * @param template - Template
+ * @param locale - Target locale, added to the template if needed
+ * @param texts - Translations by key
+ * @param options - `draft` marks the translations as needing a review
+ * @returns Updated copy of the template
+ * @throws {LocalizationError} If the locale is the source locale
+ */
+export function setLocalizedTexts(
+  template: Template,
+  locale: string,
+  texts: Record<string, string>,
+  options: { draft?: boolean } = {}
+): Template {
+  const withLocale = addTemplateLocale(template, locale);
+  const localization = getLocalization(withLocale);
+  const sources = new Map(extractLocalizableContent(template).map((entry) => [entry.key, entry.text]));
+  const translations = { ...localization.translations[locale] };
+
+  Object.entries(texts).forEach(([key, value]) => {
+    if (!value) {
+      delete translations[key];
+      return;
+    }
+    const source = sources.get(key);
+    translations[key] = {
+      value,
+      ...(source !== undefined && { source }),
+      ...(options.draft && { draft: true }),
+    };
+  });
+
+  return {
+    ...withLocale,
+    localization: { ...localization, translations: { ...localization.translations, [locale]: translations } },
+  };
+}
+
+/**
+ * Renders a template in one of its locales
+ *
+ * Translated fields replace the source content; the others keep it. Rich text
+ * fields drop their `plainText` and `editorState` copies, which would still be
+ * in the source language.
+ *
+ * @param template - Template
+ * @param locale - Locale to render
+ * @returns Copy of the template in the locale, without its other translations
+ */
+export function localizeTemplate(template: Template, locale: string): Template {
+  const { localization, ...rest } = template;
+  const translations: Record<string, LocalizedText> = localization?.translations[locale] ?? {};
+  const apply = <T extends object>(target: T, owner: string): T =>
+    Object.entries(translations).reduce<T>((result, [key, text]) => {
+      const [keyOwner, path] = splitKey(key);
+      if (keyOwner !== owner || !path) {
+        return result;
+      }
+      const segments = path.split('.');
+      const localized = setAt(result, segments, text.value);
+      return segments[segments.length - 1] === 'html'
+        ? ['plainText', 'editorState'].reduce(
+            (withoutDerived, derived) => setAt(withoutDerived, [...segments.slice(0, -1), derived], undefined),
+            localized
+          )
+        : localized;
+    }, target);
+
+  const localizeComponent = (component: BaseComponent): BaseComponent => {
+    const localized = apply(component, component.id);
+    return localized.children ? { ...localized, children: localized.children.map(localizeComponent) } : localized;
+  };
+
+  return {
+    ...rest,
+    metadata: apply(template.metadata, METADATA_KEY_PREFIX),
+    settings: { ...template.settings, locale },
+    components: template.components.map(localizeComponent),
+  };
+}
+
+function splitKey(key: string): [string, string | undefined] {
+  const index = key.indexOf(':');
+  return index === -1 ? [key, undefined] : [key.slice(0, index), key.slice(index + 1)];
+}
+
+/**
+ * Reports the missing, draft and outdated translations of every locale
+ *
+ * @param template - Template
+ * @param fields - Translatable fields per component type
+ * @returns Missing-translation report
+ */
+export function getMissingTranslations(
+  template: Template,
+  fields: LocalizableFieldMap = LOCALIZABLE_FIELDS
+): MissingTranslationReport {
+  const entries = extractLocalizableContent(template, fields);
+  const localization = getLocalization(template);
+
+  return {
+    sourceLocale: localization.sourceLocale,
+    total: entries.length,
+    locales: localization.locales.map((locale) => {
+      const translations = localization.translations[locale] ?? {};
+      const missing = entries.filter((entry) => !translations[entry.key]);
+
+      return {
+        locale,
+        missing,
+        drafts: entries.filter((entry) => translations[entry.key]?.draft),
+        outdated: entries.filter((entry) => {
+          const source = translations[entry.key]?.source;
+          return source !== undefined && source !== entry.text;
+        }),
+        coverage: entries.length === 0 ? 1 : (entries.length - missing.length) / entries.length,
+      };
+    }),
+  };
+}
+
+/**
+ * Translates the missing texts of a locale with an auto-translation plugin
+ *
+ * The result is meant to be stored as drafts:
+ *
+ * @example
+ * ```ts
+ * const texts = await prefillTranslations(template, 'es-ES', new GoogleTranslatePlugin({ apiKey }));
+ * template = setLocalizedTexts(template, 'es-ES', texts, { draft: true });
+ * ```
+ *
+ * @param template - Template
+ * @param locale - Target locale
+ * @param plugin - Auto-translation plugin
+ * @param options - `includeOutdated` also translates texts whose source changed
+ * @returns Translations by key
+ * @throws {LocalizationError} If the plugin does not support the locale
+ */
+export async function prefillTranslations(
+  template: Template,
+  locale: string,
+  plugin: AutoTranslationPlugin,
+  options: { includeOutdated?: boolean } = {}
+): Promise<Record<string, string>> {
+  if (!plugin.supportsLocale(locale)) {
+    throw new LocalizationError(`${plugin.name} does not support ${locale}`, { locale, plugin: plugin.name });
+  }
+
+  const status = getMissingTranslations(template).locales.find((item) => item.locale === locale);
+  const entries = [
+    ...(status?.missing ?? extractLocalizableContent(template)),
+    ...(options.includeOutdated ? status?.outdated ?? [] : []),
+  ];
+  if (entries.length === 0) {
+    return {};
+  }
+
+  const translated = await plugin.translateBatch(
+    entries.map((entry) => ({ key: entry.key, text: entry.text })),
+    getSourceLocale(template),
+    locale
+  );
+
+  return Object.fromEntries(translated);
+}
@@ -46,6 +46,34 @@ export { TranslationManager } from './TranslationManager';
 export { StaticTranslationProvider, AsyncTranslationProviderImpl } from './providers';
 export type { TranslationLoader } from './providers';
 
+// Content localization
+export {
+  LOCALIZABLE_FIELDS,
+  LOCALIZABLE_METADATA_FIELDS,
+  getLocalizationKey,
+  isLocalizablePath,
+  getSourceLocale,
+  getTemplateLocales,
+  extractLocalizableContent,
+  addTemplateLocale,
+  removeTemplateLocale,
+  setLocalizedTexts,
+  localizeTemplate,
+  getMissingTranslations,
+  prefillTranslations,
+  type LocalizableFieldMap,
+} from './content-localization';
+export {
+  exportXLIFF,
+  exportTranslationJSON,
+  parseXLIFF,
+  validateTranslation,
+  importTranslationFile,
+  type XLIFFUnit,
+  type XLIFFDocument,
+  type TranslationImportOptions,
+} from './translation-files';
+
 // Plugins
 export { GoogleTranslatePlugin } from './plugins';
 export type { GoogleTranslateConfig } from './plugins';
@@ -0,0 +1,155 @@
+/**
+ * Translation Files Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  exportXLIFF,
+  exportTranslationJSON,
+  parseXLIFF,
+  validateTranslation,
+  importTranslationFile,
+} from './translation-files';
+import { setLocalizedTexts } from './content-localization';
+import { createEmptyEmailTemplate } from '../template/TemplateComposer';
+import { createButton, createText } from '../components/factories';
+import { LocalizationError } from '../errors';
+import type { Template } from '../types';
+
+const createTestTemplate = (): Template => {
+  const template = createEmptyEmailTemplate('Welcome & hello');
+  template.metadata.subject = 'Welcome, {{firstName}}';
+  template.components = [
+    createText({
+      id: 'text-1',
+      content: { type: 'paragraph', html: '<p>Hello <strong>{{firstName}}</strong></p>' },
+    }),
+    createButton({ id: 'button-1', content: { text: 'Shop now', link: { href: '#', title: 'Open the shop' } } }),
+  ];
+  return template;
+};
+
+describe('exportXLIFF', () => {
+  it('should export one unit per text, keyed by translation key', () => {
+    const xliff = exportXLIFF(createTestTemplate(), 'fr-FR');
+
+    expect(xliff).toContain('<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="en-US" trgLang="fr-FR">');
+    expect(xliff).toContain('original="Welcome &amp; hello"');
+    expect(xliff).toContain('<unit id="metadata:subject">');
+    expect(xliff).toContain('<source>&lt;p&gt;Hello &lt;strong&gt;{{firstName}}&lt;/strong&gt;&lt;/p&gt;</source>');
+    expect(xliff).toContain('<unit id="button-1:content.link.title">');
+    expect(xliff).not.toContain('<target>');
+  });
+
+  it('should export existing translations as targets', () => {
+    const template = setLocalizedTexts(createTestTemplate(), 'fr-FR', { 'button-1:content.text': 'Acheter' });
+
+    const { units } = parseXLIFF(exportXLIFF(template, 'fr-FR'));
+
+    expect(units.find((unit) => unit.id === 'button-1:content.text')).toEqual({
+      id: 'button-1:content.text',
+      source: 'Shop now',
+      target: 'Acheter',
+    });
+  });
+});
+
+describe('parseXLIFF', () => {
+  it('should join segments and decode text', () => {
+    const document = parseXLIFF(`<?xml version="1.0"?>
+      <xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="en-US" trgLang="de-DE">
+        <file id="f1">
+          <unit id="text-1:content.html">
+            <segment><source>&lt;p&gt;Hello. </source><target>&lt;p&gt;Hallo. </target></segment>
+            <segment><source>Bye&lt;/p&gt;</source><target>Tschüss&lt;/p&gt;</target></segment>
+          </unit>
+        </file>
+      </xliff>`);
+
+    expect(document).toEqual({
+      sourceLocale: 'en-US',
+      targetLocale: 'de-DE',
+      units: [{ id: 'text-1:content.html', source: '<p>Hello. Bye</p>', target: '<p>Hallo. Tschüss</p>' }],
+    });
+  });
+
+  it('should reject other documents', () => {
+    expect(() => parseXLIFF('<xliff version="1.2"></xliff>')).toThrow(LocalizationError);
+    expect(() => parseXLIFF('{}')).toThrow('Translation file is not an XLIFF 2 document');
+  });
+});
+
+describe('validateTranslation', () => {
+  it('should accept translations keeping placeholders and markup in any order', () => {
+    expect(validateTranslation('k', '<p>Hi <b>{{name}}</b>, see {{link}}</p>', '<p>{{link}} <b>{{name}}</b></p>')).toEqual([]);
+  });
+
+  it('should report lost or added placeholders and markup', () => {
+    const issues = validateTranslation('k', '<p>Hi <b>{{name}}</b></p>', '<p>Salut {{nom}}</p>');
+
+    expect(issues.map((issue) => issue.type)).toEqual(['missing-placeholder', 'extra-placeholder', 'markup-mismatch']);
+    expect(issues[2]!.message).toBe('Markup differs from the source: <b>, </b>');
+  });
+});
+
+describe('importTranslationFile', () => {
+  it('should round-trip an XLIFF file', () => {
+    const template = createTestTemplate();
+    const translated = exportXLIFF(template, 'fr-FR')
+      .replace('<source>Shop now</source>', '<source>Shop now</source>\n        <target>Acheter</target>')
+      .replace(
+        '<source>Welcome, {{firstName}}</source>',
+        '<source>Welcome, {{firstName}}</source>\n        <target>Bienvenue, {{firstName}}</target>'
+      );
+
+    const result = importTranslationFile(template, translated);
+
+    expect(result).toEqual({
+      locale: 'fr-FR',
+      texts: { 'metadata:subject': 'Bienvenue, {{firstName}}', 'button-1:content.text': 'Acheter' },
+      issues: [],
+    });
+  });
+
+  it('should leave out invalid translations and unknown keys', () => {
+    const json = JSON.stringify({
+      'text-1:content.html': '<p>Hola {{nombre}}</p>',
+      'button-1:content.text': 'Comprar',
+      'removed-1:content.text': 'Adiós',
+      'button-1:content.link.title': '',
+    });
+
+    const result = importTranslationFile(createTestTemplate(), json, { locale: 'es-ES' });
+
+    expect(result.texts).toEqual({ 'button-1:content.text': 'Comprar' });
+    expect(result.issues.map((issue) => [issue.key, issue.type])).toEqual([
+      ['text-1:content.html', 'missing-placeholder'],
+      ['text-1:content.html', 'extra-placeholder'],
+      ['text-1:content.html', 'markup-mismatch'],
+      ['removed-1:content.text', 'unknown-key'],
+    ]);
+  });
+
+  it('should import the source texts exported as JSON', () => {
+    const template = createTestTemplate();
+
+    const result = importTranslationFile(template, exportTranslationJSON(template), { locale: 'es-ES' });
+
+    expect(Object.keys(result.texts)).toEqual([
+      'metadata:subject',
+      'text-1:content.html',
+      'button-1:content.text',
+      'button-1:content.link.title',
+    ]);
+  });
+
+  it('should require a locale and the source language of the template', () => {
+    const template = createTestTemplate();
+
+    expect(() => importTranslationFile(template, '{}')).toThrow('Translation file has no target locale');
+    expect(() => importTranslationFile(template, exportXLIFF(template, 'fr-FR').replace('srcLang="en-US"', 'srcLang="de-DE"'))).toThrow(
+      'Translation file is from de-DE, the template source locale is en-US'
+    );
+    expect(() => importTranslationFile(template, 'not json', { locale: 'fr-FR' })).toThrow('Translation file is not valid JSON');
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Translation Files
+ *
+ * Exchanges the texts of a template with translators as XLIFF 2.0 or flat
+ * JSON files, and reads translated files back into per-locale content
+ */
+
+import type {
+  Template,
+  TranslationFileFormat,
+  TranslationImportResult,
+  TranslationIssue,
+} from '../types';
+import { LocalizationError } from '../errors';
+import { TemplateVariableParser } from '../data-injection/TemplateVariableParser';
+import { escapeHTML } from '../renderer/utils';
+import { decodeEntities } from '../renderer/plain-text';
+import { extractLocalizableContent, getSourceLocale } from './content-localization';
+
+const XLIFF_NAMESPACE = 'urn:oasis:names:tc:xliff:document:2.0';
+
+/**
+ * Unit of an XLIFF document
+ */
+export interface XLIFFUnit {
+  id: string;
+  source: string;
+  target?: string;
+}
+
+/**
+ * Content of an XLIFF document
+ */
+export interface XLIFFDocument {
+  sourceLocale: string;
+  targetLocale?: string;
+  units: XLIFFUnit[];
+}
+
+/**
+ * Exports the texts of a template as an XLIFF 2.0 document
+ *
+ * Each text is a unit whose ID is its translation key (e.g.
+ * `text-1:content.html`). Rich text is exported as escaped HTML, so its markup
+ * can be checked when the file comes back. Existing translations of the
+ * target locale are exported as targets.
+ *
+ * @param template - Template
+ * @param targetLocale - Locale to translate to
+ * @returns XLIFF document
+ */
+export function exportXLIFF(template: Template, targetLocale: string): string {
+  const translations = template.localization?.translations[targetLocale] ?? {};
+  const units = extractLocalizableContent(template).map((entry) => {
+    const target = translations[entry.key]?.value;
+    return [
+      `    <unit id="${escapeHTML(entry.key)}">`,
+      '      <segment>',
+      `        <source>${escapeHTML(entry.text)}</source>`,
+      ...(target !== undefined ? [`        <target>${escapeHTML(target)}</target>`] : []),
+      '      </segment>',
+      '    </unit>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xliff xmlns="${XLIFF_NAMESPACE}" version="2.0" srcLang="${escapeHTML(getSourceLocale(template))}" trgLang="${escapeHTML(targetLocale)}">`,
+    `  <file id="${escapeHTML(template.metadata.id)}" original="${escapeHTML(template.metadata.name)}">`,
+    ...units,
+    '  </file>',
+    '</xliff>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Exports the source texts of a template as a flat JSON object, by translation key
+ *
+ * @param template - Template
+ * @returns JSON document
+ */
+export function exportTranslationJSON(template: Template): string {
+  const texts = Object.fromEntries(extractLocalizableContent(template).map((entry) => [entry.key, entry.text]));
+  return JSON.stringify(texts, null, 2);
+}
+
+function readAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of raw.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]!] = decodeEntities(match[2] ?? match[3] ?? '');
+  }
+  return attributes;
+}
+
+function readElements(content: string, tagName: string): string[] {
+  const pattern = new RegExp(`<${tagName}\\b[^>]*?(?:/>|>([\\s\\S]*?)</${tagName}>)`, 'g');
+  return Array.from(content.matchAll(pattern), (match) => decodeEntities(match[1] ?? ''));
+}
+
+/**
+ * Reads an XLIFF 2.0 document
+ *
+ * Units split into several segments are joined back together.
+ *
+ * @param content - XLIFF document
+ * @returns Locales and units of the document
+ * @throws {LocalizationError} If the content is not an XLIFF 2 document
+ */
+export function parseXLIFF(content: string): XLIFFDocument {
+  const root = /<xliff\b([^>]*)>/.exec(content);
+  const attributes = readAttributes(root?.[1] ?? '');
+
+  if (!root || !attributes['version']?.startsWith('2.')) {
+    throw new LocalizationError('Translation file is not an XLIFF 2 document');
+  }
+  if (!attributes['srcLang']) {
+    throw new LocalizationError('XLIFF document has no source language');
+  }
+
+  const units = Array.from(content.matchAll(/<unit\b([^>]*)>([\s\S]*?)<\/unit>/g), (match): XLIFFUnit => {
+    const targets = readElements(match[2]!, 'target');
+    return {
+      id: readAttributes(match[1]!)['id'] ?? '',
+      source: readElements(match[2]!, 'source').join(''),
+      ...(targets.length > 0 && { target: targets.join('') }),
+    };
+  });
+
+  return {
+    sourceLocale: attributes['srcLang'],
+    ...(attributes['trgLang'] && { targetLocale: attributes['trgLang'] }),
+    units,
+  };
+}
+
+function parseTranslationJSON(content: string): Record<string, string> {
+  let texts: unknown;
+  try {
+    texts = JSON.parse(content);
+  } catch (error) {
+    throw new LocalizationError('Translation file is not valid JSON', undefined, { cause: error });
+  }
+
+  if (typeof texts !== 'object' || texts === null || Array.isArray(texts)) {
+    throw new LocalizationError('Translation JSON must be an object of texts by key');
+  }
+  return Object.fromEntries(
+    Object.entries(texts).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  );
+}
+
+function countTags(html: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const match of html.matchAll(/<(\/?[a-z][a-z0-9]*)\b[^>]*>/gi)) {
+    const tag = match[1]!.toLowerCase();
+    counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return counts;
+}
+
+const variableParser = new TemplateVariableParser();
+
+/**
+ * Checks that a translation keeps the placeholders and markup of its source
+ *
+ * `{{variables}}` must be the same as in the source, and HTML tags must be
+ * the same in any order, since translations may move them around.
+ *
+ * @param key - Translation key
+ * @param source - Source text
+ * @param translation - Translated text
+ * @returns Problems found, empty if the translation is valid
+ */
+export function validateTranslation(key: string, source: string, translation: string): TranslationIssue[] {
+  const issues: TranslationIssue[] = [];
+  const sourceVariables = variableParser.getVariablePaths(source);
+  const translationVariables = variableParser.getVariablePaths(translation);
+
+  sourceVariables
+    .filter((variable) => !translationVariables.includes(variable))
+    .forEach((variable) =>
+      issues.push({ key, type: 'missing-placeholder', message: `Placeholder {{${variable}}} is missing` })
+    );
+  translationVariables
+    .filter((variable) => !sourceVariables.includes(variable))
+    .forEach((variable) =>
+      issues.push({ key, type: 'extra-placeholder', message: `Placeholder {{${variable}}} is not in the source` })
+    );
+
+  const sourceTags = countTags(source);
+  const translationTags = countTags(translation);
+  const tags = new Set([...sourceTags.keys(), ...translationTags.keys()]);
+  const changed = Array.from(tags).filter((tag) => sourceTags.get(tag) !== translationTags.get(tag));
+  if (changed.length > 0) {
+    issues.push({
+      key,
+      type: 'markup-mismatch',
+      message: `Markup differs from the source: ${changed.map((tag) => `<${tag}>`).join(', ')}`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Options for importing a translation file
+ */
+export interface TranslationImportOptions {
+  /**
+   * File format, detected from the content by default
+   */
+  format?: TranslationFileFormat;
+
+  /**
+   * Locale of the translations; required for JSON files, and overrides the
+   * target language of XLIFF files
+   */
+  locale?: string;
+}
+
+/**
+ * Reads the translations of a translated XLIFF or JSON file
+ *
+ * Each translation is checked against the current source text of its key
+ * with {@link validateTranslation}. Translations with issues, and keys the
+ * template no longer has, are left out of the result and reported instead.
+ * Empty translations are skipped.
+ *
+ * @param template - Template the file was exported from
+ * @param content - File content
+ * @param options - Import options
+ * @returns Valid translations and issues
+ * @throws {LocalizationError} If the file cannot be read, has no locale, or
+ * was made from another source language
+ */
+export function importTranslationFile(
+  template: Template,
+  content: string,
+  options: TranslationImportOptions = {}
+): TranslationImportResult {
+  const format = options.format ?? (content.trimStart().startsWith('<') ? 'xliff' : 'json');
+  const sourceLocale = getSourceLocale(template);
+  let locale = options.locale;
+  let translations: Record<string, string>;
+
+  if (format === 'xliff') {
+    const document = parseXLIFF(content);
+    if (document.sourceLocale !== sourceLocale) {
+      throw new LocalizationError(
+        `Translation file is from ${document.sourceLocale}, the template source locale is ${sourceLocale}`,
+        { sourceLocale: document.sourceLocale }
+      );
+    }
+    locale = locale ?? document.targetLocale;
+    translations = Object.fromEntries(
+      document.units
+        .filter((unit): unit is XLIFFUnit & { target: string } => unit.target !== undefined)
+        .map((unit) => [unit.id, unit.target])
+    );
+  } else {
+    translations = parseTranslationJSON(content);
+  }
+
+  if (!locale) {
+    throw new LocalizationError('Translation file has no target locale');
+  }
+
+  const sources = new Map(extractLocalizableContent(template).map((entry) => [entry.key, entry.text]));
+  const texts: Record<string, string> = {};
+  const issues: TranslationIssue[] = [];
+
+  Object.entries(translations)
+    .filter(([, translation]) => translation.trim())
+    .forEach(([key, translation]) => {
+      const source = sources.get(key);
+      const keyIssues =
+        source === undefined
+          ? [{ key, type: 'unknown-key' as const, message: 'The template has no text with this key' }]
+          : validateTranslation(key, source, translation);
+
+      if (keyIssues.length > 0) {
+        issues.push(...keyIssues);
+      } else {
+        texts[key] = translation;
+      }
+    });
+
+  return { locale, texts, issues };
+}
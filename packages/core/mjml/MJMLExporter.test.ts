@@ -0,0 +1,176 @@
+/**
+ * MJML Exporter Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MJMLExporter } from './MJMLExporter';
+import { parseMJML } from './mjml-parser';
+import { createDefaultRendererRegistry } from '../renderer/default-renderers';
+import { createEmptyEmailTemplate } from '../template/TemplateComposer';
+import {
+  createButton,
+  createText,
+  createImage,
+  createHTMLBlock,
+  createHeader,
+  createFooter,
+  createHero,
+  createList,
+  createCTA,
+  createRow,
+} from '../components/factories';
+import type { Template } from '../types/template.types';
+import type { BaseComponent } from '../types/component.types';
+import type { MJMLNode } from './mjml.types';
+
+const createTemplate = (components: BaseComponent[]): Template => {
+  const template = createEmptyEmailTemplate('Newsletter');
+  template.components = components;
+  return template;
+};
+
+const sections = (mjml: string): MJMLNode[] =>
+  parseMJML(mjml).children.find((node) => node.tagName === 'mj-body')?.children ?? [];
+
+describe('MJMLExporter', () => {
+  const exporter = new MJMLExporter();
+
+  it('should write the head and body settings', () => {
+    const template = createTemplate([]);
+    template.metadata.subject = 'Weekly news';
+    template.metadata.preheader = 'What happened this week';
+
+    const { mjml } = exporter.export(template);
+
+    expect(mjml).toContain('<mj-title>Weekly news</mj-title>');
+    expect(mjml).toContain('<mj-preview>What happened this week</mj-preview>');
+    expect(mjml).toContain('<mj-body width="600px" background-color="#ffffff"');
+  });
+
+  it('should group base components into a shared section', () => {
+    const { mjml, warnings } = exporter.export(
+      createTemplate([
+        createText({ content: { type: 'heading-1', html: 'Hello' } }),
+        createButton({ content: { text: 'Go', link: { href: 'https://example.com' } } }),
+        createImage({ content: { src: 'https://example.com/a.png', alt: 'A' } }),
+      ])
+    );
+    const [section] = sections(mjml);
+    const column = section?.children[0];
+
+    expect(sections(mjml)).toHaveLength(1);
+    expect(column?.children.map((node) => node.tagName)).toEqual(['mj-text', 'mj-button', 'mj-image']);
+    expect(column?.children[0]?.content).toBe('<h1>Hello</h1>');
+    expect(column?.children[1]?.attributes).toMatchObject({
+      href: 'https://example.com',
+      'background-color': '#007bff',
+      color: '#ffffff',
+      'border-radius': '4px 4px 4px 4px',
+    });
+    expect(warnings).toEqual([]);
+  });
+
+  it('should map composite components to marked sections', () => {
+    const { mjml } = exporter.export(
+      createTemplate([createHeader(), createHero(), createCTA(), createList(), createFooter()])
+    );
+
+    expect(sections(mjml).map((node) => node.attributes['css-class'])).toEqual([
+      'eb-header eb-layout-image-left',
+      'eb-hero eb-layout-image-top',
+      'eb-cta eb-layout-centered',
+      'eb-list',
+      'eb-footer',
+    ]);
+    expect(mjml).toContain('<mj-navbar-link href="#home"');
+    expect(mjml).toContain('<mj-social-element name="facebook" href="https://facebook.com"');
+  });
+
+  it('should split list rows into sections of a wrapper', () => {
+    const list = createList();
+    list.content.columns = 2;
+
+    const [wrapper] = sections(exporter.export(createTemplate([list])).mjml);
+
+    expect(wrapper?.tagName).toBe('mj-wrapper');
+    expect(wrapper?.children.map((row) => row.children.length)).toEqual([2, 1]);
+  });
+
+  it('should export rows as sections with one column per row column', () => {
+    const row = createRow({}, '2-1');
+    row.content.mobileStacking = 'reverse';
+    row.children[0]!.children = [createText(), createHero()];
+    const { mjml, warnings } = exporter.export(createTemplate([row]));
+
+    const [section] = sections(mjml);
+
+    expect(section?.attributes).toMatchObject({ 'css-class': 'eb-row eb-layout-2-1', direction: 'rtl' });
+    expect(section?.children.map((column) => column.attributes['width'])).toEqual(['66.67%', '33.33%']);
+    expect(section?.children[0]?.attributes).toMatchObject({ 'padding-left': '0px', 'padding-right': '10px' });
+    expect(section?.children[0]?.children.map((node) => node.tagName)).toEqual(['mj-text', 'mj-raw']);
+    expect(warnings).toEqual([expect.objectContaining({ type: 'unsupported-component', context: row.children[0]!.children![1]!.id })]);
+  });
+
+  it('should group the columns of rows that do not stack', () => {
+    const row = createRow({}, '1-1');
+    row.content.mobileStacking = 'none';
+
+    const [section] = sections(exporter.export(createTemplate([row])).mjml);
+
+    expect(section?.children.map((node) => node.tagName)).toEqual(['mj-group']);
+    expect(section?.children[0]?.children).toHaveLength(2);
+  });
+
+  it('should export custom components as raw HTML with a warning', () => {
+    const custom = { id: 'custom-1', type: 'countdown', content: {}, styles: {} } as unknown as BaseComponent;
+    const renderers = createDefaultRendererRegistry();
+    renderers.register('countdown', () => '<p>3 days left</p>');
+    const withRenderer = new MJMLExporter(renderers);
+
+    const { mjml, warnings } = withRenderer.export(createTemplate([custom]));
+
+    expect(mjml).toContain('<mj-raw><p>3 days left</p></mj-raw>');
+    expect(warnings).toEqual([
+      expect.objectContaining({ type: 'unsupported-component', context: 'custom-1' }),
+    ]);
+  });
+
+  it('should export HTML blocks as raw HTML', () => {
+    const block = createHTMLBlock({ content: { html: '<p>Hand-written</p>' } });
+
+    const { mjml, warnings } = exporter.export(createTemplate([block]));
+
+    expect(mjml).toContain('<mj-raw><p>Hand-written</p></mj-raw>');
+    expect(warnings).toEqual([]);
+  });
+
+  it('should report components that cannot be exported', () => {
+    const custom = { id: 'custom-1', type: 'countdown', content: {}, styles: {} } as unknown as BaseComponent;
+
+    const { mjml, warnings } = exporter.export(createTemplate([custom]));
+
+    expect(mjml).not.toContain('mj-raw');
+    expect(warnings).toEqual([
+      expect.objectContaining({ type: 'unsupported-component', message: expect.stringContaining('left out') }),
+    ]);
+  });
+
+  it('should report styles without an MJML equivalent', () => {
+    const text = createText();
+    text.visibility = { desktop: true, tablet: true, mobile: false };
+    text.mobileStyles = { fontSize: { value: 12, unit: 'px' } };
+    text.children = [createText({ id: 'child' })];
+
+    const { warnings } = exporter.export(createTemplate([text]));
+
+    expect(warnings).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ type: 'layout-conversion', context: text.id }),
+        expect.objectContaining({
+          type: 'unsupported-style',
+          message: 'Not exported to MJML: mobile styles, device visibility',
+        }),
+      ])
+    );
+  });
+});
@@ -0,0 +1,627 @@
+/**
+ * MJML Exporter
+ *
+ * Converts templates to MJML documents
+ */
+
+import type { Template } from '../types/template.types';
+import type { BaseComponent, BaseStyles } from '../types/component.types';
+import type {
+  ButtonComponent,
+  ButtonContent,
+  TextComponent,
+  ImageComponent,
+  ImageContent,
+  SeparatorComponent,
+  SpacerComponent,
+  HTMLComponent,
+  HeaderComponent,
+  FooterComponent,
+  HeroComponent,
+  ListComponent,
+  CTAComponent,
+  RowComponent,
+} from '../types';
+import type { ComponentRendererRegistry } from '../renderer/ComponentRendererRegistry';
+import { createDefaultRendererRegistry } from '../renderer/default-renderers';
+import {
+  borderRadiusToCSS,
+  cssValue,
+  escapeHTML,
+  pixelValue,
+  spacingToCSS,
+  typographyStyles,
+  type TypographyConfig,
+} from '../renderer/utils';
+import { mjmlNode, serializeMJML } from './mjml-parser';
+import type {
+  MJMLNode,
+  MJMLWarning,
+  MJMLExportOptions,
+  MJMLExportResult,
+} from './mjml.types';
+
+/**
+ * Prefix of the `css-class` marking sections generated from a composite
+ * component, so the importer can rebuild the component
+ */
+export const MJML_SECTION_CLASS_PREFIX = 'eb-';
+
+/**
+ * Component types exported as content elements inside a shared section
+ */
+const CONTENT_TYPES = new Set(['text', 'button', 'image', 'separator', 'spacer']);
+
+/**
+ * Converts typography styles to MJML attributes
+ */
+function textAttributes(config: TypographyConfig | undefined): Record<string, string | undefined> {
+  const { 'text-align': align, ...declarations } = typographyStyles(config);
+  const attributes: Record<string, string | undefined> = { align: align === undefined ? undefined : String(align) };
+
+  Object.entries(declarations).forEach(([name, value]) => {
+    attributes[name] = value === undefined ? undefined : String(value);
+  });
+
+  return attributes;
+}
+
+function sortByOrder<T extends { order: number }>(items: T[] | undefined): T[] {
+  return [...(items ?? [])].sort((a, b) => a.order - b.order);
+}
+
+function richText(field: { html: string; plainText?: string } | undefined): string | undefined {
+  return field?.html || (field?.plainText ? escapeHTML(field.plainText) : undefined);
+}
+
+function imageNode(image: ImageContent | undefined, attributes: Record<string, string | undefined> = {}): MJMLNode | null {
+  if (!image?.src) {
+    return null;
+  }
+
+  return mjmlNode('mj-image', {
+    src: image.src,
+    alt: image.alt,
+    title: image.title,
+    href: image.link?.href,
+    target: image.link?.target,
+    ...attributes,
+  });
+}
+
+function buttonNode(button: ButtonContent | undefined, attributes: Record<string, string | undefined> = {}): MJMLNode | null {
+  if (!button?.text) {
+    return null;
+  }
+
+  return mjmlNode(
+    'mj-button',
+    { href: button.link?.href, target: button.link?.target, rel: button.link?.rel, ...attributes },
+    escapeHTML(button.text)
+  );
+}
+
+function compact(nodes: Array<MJMLNode | null>): MJMLNode[] {
+  return nodes.filter((node): node is MJMLNode => node !== null);
+}
+
+/**
+ * MJML Exporter
+ *
+ * Maps template components onto MJML:
+ *
+ * - text, button, image, separator and spacer components become `mj-text`,
+ *   `mj-button`, `mj-image`, `mj-divider` and `mj-spacer` elements; runs of
+ *   them share an `mj-section`
+ * - header, footer, hero, call-to-action and list components become their own
+ *   `mj-section`, marked with an `eb-<type>` CSS class so they can be imported
+ *   back; footers use `mj-social` and headers `mj-navbar`
+ * - HTML blocks become `mj-raw` elements
+ *
+ * Everything that has no MJML equivalent (responsive and mobile overrides,
+ * visibility rules, margins, nesting, custom components) is reported as a
+ * warning. Custom components are exported as `mj-raw` blocks with the HTML of
+ * their renderer.
+ *
+ * @example
+ * ```ts
+ * const { mjml, warnings } = new MJMLExporter().export(template);
+ * ```
+ */
+export class MJMLExporter {
+  private renderers: ComponentRendererRegistry;
+  private warnings: MJMLWarning[] = [];
+
+  /**
+   * @param renderers - HTML renderers used for `mj-raw` fallbacks
+   */
+  constructor(renderers: ComponentRendererRegistry = createDefaultRendererRegistry()) {
+    this.renderers = renderers;
+  }
+
+  /**
+   * Export a template as MJML
+   *
+   * @param template - Template to export
+   * @param options - Export options
+   * @returns MJML document and conversion warnings
+   */
+  export(template: Template, options: MJMLExportOptions = {}): MJMLExportResult {
+    this.warnings = [];
+
+    const { metadata, settings, generalStyles } = template;
+    const head = compact([
+      mjmlNode('mj-title', {}, escapeHTML(metadata.subject ?? metadata.name)),
+      metadata.preheader ? mjmlNode('mj-preview', {}, escapeHTML(metadata.preheader)) : null,
+      generalStyles?.typography?.body?.styles.fontFamily
+        ? mjmlNode('mj-attributes', {}, [
+            mjmlNode('mj-all', { 'font-family': generalStyles.typography.body.styles.fontFamily }),
+          ])
+        : null,
+    ]);
+
+    const body = mjmlNode(
+      'mj-body',
+      {
+        width: settings.canvasDimensions?.width ? `${settings.canvasDimensions.width}px` : undefined,
+        'background-color': generalStyles?.canvasBackgroundColor,
+      },
+      this.convertComponents(template, this.flatten(template.components), options)
+    );
+
+    return {
+      mjml: serializeMJML(mjmlNode('mjml', {}, [mjmlNode('mj-head', {}, head), body])),
+      warnings: this.warnings,
+    };
+  }
+
+  /**
+   * Flattens nested components, which MJML sections cannot hold
+   */
+  private flatten(components: BaseComponent[]): BaseComponent[] {
+    return components.flatMap((component) => {
+      // Rows map to sections with one column per row column
+      if (!component.children?.length || component.type === 'row') {
+        return [component];
+      }
+
+      this.warn(
+        'layout-conversion',
+        `Children of ${component.type} component were moved after it; MJML sections cannot be nested`,
+        component.id
+      );
+      return [component, ...this.flatten(component.children)];
+    });
+  }
+
+  /**
+   * Converts components to sections, grouping runs of content elements
+   */
+  private convertComponents(
+    template: Template,
+    components: BaseComponent[],
+    options: MJMLExportOptions
+  ): MJMLNode[] {
+    const sections: MJMLNode[] = [];
+    let elements: MJMLNode[] = [];
+
+    const closeSection = () => {
+      if (elements.length > 0) {
+        sections.push(mjmlNode('mj-section', {}, [mjmlNode('mj-column', {}, elements)]));
+        elements = [];
+      }
+    };
+
+    components.forEach((component) => {
+      const styles: BaseStyles = component.styles ?? {};
+      this.checkStyles(component, styles);
+
+      if (CONTENT_TYPES.has(component.type)) {
+        elements.push(this.convertContent(component, styles));
+        return;
+      }
+
+      closeSection();
+      const section = this.convertSection(template, component, styles, options);
+      if (section) {
+        sections.push(section);
+      }
+    });
+
+    closeSection();
+    return sections;
+  }
+
+  /**
+   * Converts a base component to a content element
+   */
+  private convertContent(component: BaseComponent, styles: BaseStyles): MJMLNode {
+    const common = {
+      padding: spacingToCSS(styles.padding),
+      'css-class': styles.customClasses?.join(' '),
+      'container-background-color': component.type === 'button' ? undefined : styles.backgroundColor,
+    };
+
+    switch (component.type) {
+      case 'button': {
+        const { content } = component as ButtonComponent;
+        const buttonStyles = (component as ButtonComponent).styles;
+        const outlined = buttonStyles.variant === 'outlined' || buttonStyles.variant === 'text';
+        return mjmlNode(
+          'mj-button',
+          {
+            ...textAttributes(buttonStyles),
+            align: buttonStyles.horizontalAlign === 'justify' ? 'center' : buttonStyles.horizontalAlign,
+            href: content.link?.href,
+            target: content.link?.target,
+            rel: content.link?.rel,
+            'background-color': outlined ? 'transparent' : buttonStyles.backgroundColor,
+            border:
+              buttonStyles.border && buttonStyles.border.style !== 'none'
+                ? `${cssValue(buttonStyles.border.width) ?? '1px'} ${buttonStyles.border.style} ${buttonStyles.border.color}`
+                : undefined,
+            'border-radius': borderRadiusToCSS(buttonStyles.border?.radius),
+            'css-class': common['css-class'],
+            'inner-padding': spacingToCSS(styles.padding),
+          },
+          escapeHTML(content.text ?? '')
+        );
+      }
+
+      case 'text': {
+        const { content } = component as TextComponent;
+        const heading = /^heading-([1-6])$/.exec(content.type ?? '');
+        let html = richText(content) ?? '';
+        if (heading && !/^\s*<h[1-6]\b/i.test(html)) {
+          html = `<h${heading[1]}>${html}</h${heading[1]}>`;
+        }
+        return mjmlNode('mj-text', { ...textAttributes(styles), ...common }, html);
+      }
+
+      case 'image': {
+        const { content } = component as ImageComponent;
+        return (
+          imageNode(content, {
+            ...common,
+            width: cssValue(styles.width)?.endsWith('px') ? cssValue(styles.width) : undefined,
+            height: cssValue(styles.height)?.endsWith('px') ? cssValue(styles.height) : undefined,
+            align: styles.horizontalAlign === 'justify' ? undefined : styles.horizontalAlign,
+          }) ?? mjmlNode('mj-image', common)
+        );
+      }
+
+      case 'separator': {
+        const { content } = component as SeparatorComponent;
+        if (content.orientation === 'vertical') {
+          this.warn('unsupported-style', 'Vertical separators are exported as horizontal dividers', component.id);
+        }
+        return mjmlNode('mj-divider', {
+          ...common,
+          'border-color': content.color,
+          'border-width': cssValue(content.thickness),
+          'border-style': content.style,
+        });
+      }
+
+      default: {
+        const { content } = component as SpacerComponent;
+        return mjmlNode('mj-spacer', { ...common, height: cssValue(content.height) });
+      }
+    }
+  }
+
+  /**
+   * Converts a composite or custom component to a section
+   */
+  private convertSection(
+    template: Template,
+    component: BaseComponent,
+    styles: BaseStyles,
+    options: MJMLExportOptions
+  ): MJMLNode | null {
+    // The layout is recorded as a class because several layouts share a structure
+    const layout = component.type === 'list' ? undefined : (component.content as { layout?: string })['layout'];
+    const classes = [
+      `${MJML_SECTION_CLASS_PREFIX}${component.type}`,
+      ...(layout ? [`${MJML_SECTION_CLASS_PREFIX}layout-${layout}`] : []),
+      ...(styles.customClasses ?? []),
+    ];
+    const section = (columns: MJMLNode[], attributes: Record<string, string | undefined> = {}) =>
+      mjmlNode(
+        'mj-section',
+        {
+          'css-class': classes.join(' '),
+          'background-color': styles.backgroundColor,
+          padding: spacingToCSS(styles.padding),
+          ...attributes,
+        },
+        columns
+      );
+
+    switch (component.type) {
+      case 'header':
+        return section(this.convertHeader(component as HeaderComponent));
+      case 'footer':
+        return section([mjmlNode('mj-column', {}, this.convertFooter(component as FooterComponent))]);
+      case 'hero': {
+        const hero = component as HeroComponent;
+        const background = hero.content.layout === 'image-background' ? hero.content.image?.src : undefined;
+        return section(this.convertHero(hero), {
+          'background-url': background,
+          'background-size': background ? 'cover' : undefined,
+        });
+      }
+      case 'cta':
+        return section([mjmlNode('mj-column', {}, this.convertCTA(component as CTAComponent))]);
+      case 'list':
+        return this.convertList(component as ListComponent, section);
+      case 'row':
+        return this.convertRow(template, component as RowComponent, section);
+      case 'html':
+        return mjmlNode('mj-raw', {}, (component as HTMLComponent).content.html ?? '');
+      default:
+        return this.convertRaw(template, component, options);
+    }
+  }
+
+  private convertHeader(component: HeaderComponent): MJMLNode[] {
+    const { content, styles } = component;
+    const logo = imageNode(content.image, {
+      width: cssValue(styles.imageMaxWidth),
+      align: content.layout === 'image-right' ? 'right' : content.layout === 'image-left' ? 'left' : 'center',
+    });
+    const navigation = content.showNavigation
+      ? mjmlNode(
+          'mj-navbar',
+          { align: content.layout === 'image-right' ? 'left' : 'right' },
+          sortByOrder(content.navigationLinks).map((link) =>
+            mjmlNode(
+              'mj-navbar-link',
+              {
+                href: link.link?.href,
+                target: link.link?.target,
+                color: styles.linkStyles?.color,
+                'font-family': styles.linkStyles?.fontFamily,
+                'font-size': cssValue(styles.linkStyles?.fontSize),
+              },
+              escapeHTML(link.text)
+            )
+          )
+        )
+      : null;
+
+    if (content.layout === 'image-top' || content.layout === 'logo-center') {
+      return [mjmlNode('mj-column', {}, compact([logo, navigation]))];
+    }
+
+    const columns = [
+      logo ? mjmlNode('mj-column', {}, [logo]) : null,
+      navigation ? mjmlNode('mj-column', { 'vertical-align': 'middle' }, [navigation]) : null,
+    ];
+    return compact(content.layout === 'image-right' ? columns.reverse() : columns);
+  }
+
+  private convertFooter(component: FooterComponent): MJMLNode[] {
+    const { content, styles } = component;
+    const text = textAttributes(styles.textStyles);
+    const elements: MJMLNode[] = [];
+
+    if (content.showSocialLinks && content.socialLinks?.length > 0) {
+      elements.push(
+        mjmlNode(
+          'mj-social',
+          { mode: 'horizontal', 'icon-size': cssValue(styles.socialIconSize) },
+          sortByOrder(content.socialLinks).map((social) =>
+            mjmlNode(
+              'mj-social-element',
+              {
+                name: social.platform === 'custom' ? undefined : social.platform,
+                href: social.url,
+              },
+              escapeHTML(social.label ?? '')
+            )
+          )
+        )
+      );
+    }
+
+    sortByOrder(content.textSections).forEach((section) => {
+      const html = richText(section);
+      if (html) {
+        elements.push(mjmlNode('mj-text', text, html));
+      }
+    });
+
+    if (content.copyrightText) {
+      elements.push(
+        mjmlNode('mj-text', { ...text, 'css-class': 'eb-copyright' }, escapeHTML(content.copyrightText))
+      );
+    }
+
+    return elements;
+  }
+
+  private convertHero(component: HeroComponent): MJMLNode[] {
+    const { content, styles } = component;
+    const align = styles.contentAlign;
+    const copy = compact([
+      richText(content.heading)
+        ? mjmlNode('mj-text', { ...textAttributes(styles.headingStyles), align, 'css-class': 'eb-heading' }, richText(content.heading) ?? '')
+        : null,
+      richText(content.description)
+        ? mjmlNode('mj-text', { ...textAttributes(styles.descriptionStyles), align, 'css-class': 'eb-description' }, richText(content.description) ?? '')
+        : null,
+      content.showButton ? buttonNode(content.button, { align }) : null,
+    ]);
+    const image = content.layout === 'image-background' ? null : imageNode(content.image);
+
+    if (!image) {
+      return [mjmlNode('mj-column', {}, copy)];
+    }
+    if (content.layout === 'image-top') {
+      return [mjmlNode('mj-column', {}, [image, ...copy])];
+    }
+
+    const columns = [mjmlNode('mj-column', {}, [image]), mjmlNode('mj-column', { 'vertical-align': 'middle' }, copy)];
+    return content.layout === 'image-right' ? columns.reverse() : columns;
+  }
+
+  private convertCTA(component: CTAComponent): MJMLNode[] {
+    const { content, styles } = component;
+    const align =
+      content.layout === 'left-aligned' ? 'left' : content.layout === 'right-aligned' ? 'right' : 'center';
+
+    if (content.layout === 'two-column') {
+      this.warn('layout-conversion', 'Two-column call to action exported as a single column', component.id);
+    }
+
+    return compact([
+      richText(content.heading)
+        ? mjmlNode('mj-text', { ...textAttributes(styles.headingStyles), align, 'css-class': 'eb-heading' }, richText(content.heading) ?? '')
+        : null,
+      content.showDescription !== false && richText(content.description)
+        ? mjmlNode('mj-text', { ...textAttributes(styles.descriptionStyles), align, 'css-class': 'eb-description' }, richText(content.description) ?? '')
+        : null,
+      buttonNode(content.primaryButton, { align }),
+      content.showSecondaryButton ? buttonNode(content.secondaryButton, { align, 'css-class': 'eb-secondary' }) : null,
+    ]);
+  }
+
+  /**
+   * Converts a list to one section per row of items
+   */
+  private convertRow(
+    template: Template,
+    component: RowComponent,
+    section: (columns: MJMLNode[], attributes?: Record<string, string | undefined>) => MJMLNode
+  ): MJMLNode {
+    const { content, styles } = component;
+    const columnCount = component.children?.length ?? 0;
+    const halfGutter = (pixelValue(styles.gutter) ?? 0) / 2;
+
+    const columns = (component.children ?? []).map((column, index) => {
+      const columnStyles: BaseStyles = column.styles ?? {};
+      const padding = columnStyles.padding;
+      const width = column.content?.width;
+
+      return mjmlNode(
+        'mj-column',
+        {
+          width: width ? cssValue(width) : `${100 / columnCount}%`,
+          'vertical-align': columnStyles.verticalAlign ?? styles.verticalAlign,
+          'background-color': columnStyles.backgroundColor,
+          'padding-top': cssValue(padding?.top),
+          'padding-bottom': cssValue(padding?.bottom),
+          'padding-left': `${(pixelValue(padding?.left) ?? 0) + (index > 0 ? halfGutter : 0)}px`,
+          'padding-right': `${(pixelValue(padding?.right) ?? 0) + (index < columnCount - 1 ? halfGutter : 0)}px`,
+        },
+        (column.children ?? []).map((child) => {
+          const childStyles: BaseStyles = child.styles ?? {};
+          this.checkStyles(child, childStyles);
+
+          if (CONTENT_TYPES.has(child.type)) {
+            return this.convertContent(child, childStyles);
+          }
+
+          this.warn(
+            'unsupported-component',
+            `${child.type} component inside a column was exported as raw HTML`,
+            child.id
+          );
+          return mjmlNode('mj-raw', {}, this.renderers.render(child, { template }));
+        })
+      );
+    });
+
+    // Grouped columns never stack; right-to-left sections stack in reverse order
+    return section(content.mobileStacking === 'none' ? [mjmlNode('mj-group', {}, columns)] : columns, {
+      direction: content.mobileStacking === 'reverse' ? 'rtl' : undefined,
+    });
+  }
+
+  private convertList(
+    component: ListComponent,
+    section: (columns: MJMLNode[], attributes?: Record<string, string | undefined>) => MJMLNode
+  ): MJMLNode | null {
+    const { content, styles } = component;
+    const perRow = content.orientation === 'vertical' ? 1 : Math.max(1, content.columns ?? 1);
+    const items = sortByOrder(content.items);
+
+    if (content.itemLayout !== 'image-top') {
+      this.warn('layout-conversion', `List item layout "${content.itemLayout}" exported as image-top`, component.id);
+    }
+
+    const columns = items.map((item) =>
+      mjmlNode(
+        'mj-column',
+        { 'background-color': styles.itemBackgroundColor, padding: cssValue(styles.itemPadding) },
+        compact([
+          item.showImage ? imageNode(item.image) : null,
+          richText(item.title)
+            ? mjmlNode('mj-text', { ...textAttributes(styles.titleStyles), 'css-class': 'eb-title' }, richText(item.title) ?? '')
+            : null,
+          richText(item.description)
+            ? mjmlNode('mj-text', { ...textAttributes(styles.descriptionStyles), 'css-class': 'eb-description' }, richText(item.description) ?? '')
+            : null,
+          item.showButton ? buttonNode(item.button) : null,
+        ])
+      )
+    );
+
+    if (columns.length <= perRow) {
+      return section(columns);
+    }
+
+    // One section per row, wrapped so the rows import back as a single list
+    const rows: MJMLNode[] = [];
+    for (let i = 0; i < columns.length; i += perRow) {
+      rows.push(mjmlNode('mj-section', { padding: '0' }, columns.slice(i, i + perRow)));
+    }
+    return mjmlNode('mj-wrapper', { ...section([]).attributes }, rows);
+  }
+
+  /**
+   * Exports a component without MJML mapping as raw HTML
+   */
+  private convertRaw(
+    template: Template,
+    component: BaseComponent,
+    options: MJMLExportOptions
+  ): MJMLNode | null {
+    if (options.rawFallback !== false && this.renderers.has(component.type)) {
+      this.warn(
+        'unsupported-component',
+        `No MJML mapping for ${component.type} component; exported as raw HTML`,
+        component.id
+      );
+      return mjmlNode('mj-raw', {}, this.renderers.render(component, { template }));
+    }
+
+    this.warn('unsupported-component', `No MJML mapping for ${component.type} component; left out`, component.id);
+    return null;
+  }
+
+  /**
+   * Reports styles MJML has no attribute for
+   */
+  private checkStyles(component: BaseComponent, styles: BaseStyles): void {
+    const lost: string[] = [];
+
+    if (component.responsive?.enabled) lost.push('responsive styles');
+    if (component.mobileStyles) lost.push('mobile styles');
+    if (component.visibility && Object.values(component.visibility).some((visible) => visible === false)) {
+      lost.push('device visibility');
+    }
+    if (spacingToCSS(styles.margin)?.split(' ').some((side) => parseFloat(side) !== 0)) lost.push('margin');
+    if (styles.customStyles && Object.keys(styles.customStyles).length > 0) lost.push('custom styles');
+    if (styles.backgroundImage && component.type !== 'hero') lost.push('background image');
+
+    if (lost.length > 0) {
+      this.warn('unsupported-style', `Not exported to MJML: ${lost.join(', ')}`, component.id);
+    }
+  }
+
+  private warn(type: MJMLWarning['type'], message: string, context?: string): void {
+    this.warnings.push({ type, message, ...(context !== undefined && { context }) });
+  }
+}
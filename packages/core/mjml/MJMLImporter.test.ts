@@ -0,0 +1,225 @@
+/**
+ * MJML Importer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MJMLImporter } from './MJMLImporter';
+import { MJMLExporter } from './MJMLExporter';
+import { ImportError } from '../errors';
+import { createEmptyEmailTemplate } from '../template/TemplateComposer';
+import {
+  createText,
+  createButton,
+  createHeader,
+  createFooter,
+  createHero,
+  createList,
+  createCTA,
+} from '../components/factories';
+import type {
+  ButtonComponent,
+  TextComponent,
+  ImageComponent,
+  HeaderComponent,
+  FooterComponent,
+  HeroComponent,
+  ListComponent,
+  CTAComponent,
+} from '../types';
+
+describe('MJMLImporter', () => {
+  const importer = new MJMLImporter();
+
+  it('should reject documents without an mjml root', () => {
+    expect(() => importer.import('<html></html>')).toThrow(ImportError);
+  });
+
+  it('should read the head and body settings', () => {
+    const { template } = importer.import(`
+      <mjml>
+        <mj-head>
+          <mj-title>Spring sale</mj-title>
+          <mj-preview>Up to 50% off</mj-preview>
+          <mj-attributes><mj-all font-family="Georgia, serif" /></mj-attributes>
+        </mj-head>
+        <mj-body width="640px" background-color="#f4f4f4"></mj-body>
+      </mjml>
+    `);
+
+    expect(template.metadata).toMatchObject({ name: 'Spring sale', subject: 'Spring sale', preheader: 'Up to 50% off' });
+    expect(template.settings.canvasDimensions.width).toBe(640);
+    expect(template.generalStyles.canvasBackgroundColor).toBe('#f4f4f4');
+    expect(template.generalStyles.typography?.body?.styles.fontFamily).toBe('Georgia, serif');
+  });
+
+  it('should convert content elements with the component factories', () => {
+    const { template, warnings } = importer.import(`
+      <mjml><mj-body><mj-section><mj-column>
+        <mj-text font-size="20px" color="#111111" align="center" padding="10px 25px"><h2>Title</h2></mj-text>
+        <mj-button href="https://example.com" background-color="#ff6600" border-radius="8px">Buy <b>now</b></mj-button>
+        <mj-image src="https://example.com/a.png" alt="A" width="300px" href="https://example.com" />
+        <mj-divider border-color="#cccccc" border-width="2px" />
+        <mj-spacer height="30px" />
+      </mj-column></mj-section></mj-body></mjml>
+    `);
+    const [text, button, image, separator, spacer] = template.components;
+
+    expect(warnings).toEqual([]);
+    expect(template.components.map((component) => component.type)).toEqual([
+      'text',
+      'button',
+      'image',
+      'separator',
+      'spacer',
+    ]);
+    expect((text as TextComponent).content).toEqual({ type: 'heading-2', html: '<h2>Title</h2>', plainText: 'Title' });
+    expect(text?.styles).toMatchObject({
+      fontSize: { value: 20, unit: 'px' },
+      color: '#111111',
+      textAlign: 'center',
+      padding: { top: { value: 10, unit: 'px' }, right: { value: 25, unit: 'px' } },
+    });
+    expect((button as ButtonComponent).content).toEqual({ text: 'Buy now', link: { href: 'https://example.com' } });
+    expect(button?.styles.backgroundColor).toBe('#ff6600');
+    expect(button?.styles.border?.radius?.topLeft).toEqual({ value: 8, unit: 'px' });
+    expect((image as ImageComponent).content).toMatchObject({ src: 'https://example.com/a.png', link: { href: 'https://example.com' } });
+    expect(separator?.content).toMatchObject({ color: '#cccccc', thickness: { value: 2, unit: 'px' } });
+    expect(spacer?.content).toEqual({ height: { value: 30, unit: 'px' } });
+  });
+
+  it('should warn about what cannot be mapped', () => {
+    const { template, warnings } = importer.import(`
+      <mjml>
+        <mj-head><mj-style>.x { color: red; }</mj-style></mj-head>
+        <mj-body>
+          <mj-section background-color="#eeeeee">
+            <mj-column><mj-text>Left</mj-text></mj-column>
+            <mj-column><mj-carousel><mj-carousel-image src="a.png" /></mj-carousel></mj-column>
+          </mj-section>
+          <mj-raw><div>Custom</div></mj-raw>
+        </mj-body>
+      </mjml>
+    `);
+
+    expect(template.components.map((component) => component.type)).toEqual(['text', 'html']);
+    expect(warnings.map((warning) => warning.type)).toEqual([
+      'unsupported-element',
+      'unsupported-attribute',
+      'layout-conversion',
+      'unsupported-element',
+    ]);
+    expect(warnings[1]?.message).toBe('Ignored attributes on <mj-section>: background-color');
+    expect(warnings[3]?.context).toBe('mj-body > mj-section[0] > mj-column[1] > mj-carousel[0]');
+  });
+
+  it('should import social and navigation elements as footer and header', () => {
+    const { template } = importer.import(`
+      <mjml><mj-body><mj-section><mj-column>
+        <mj-navbar><mj-navbar-link href="/shop">Shop</mj-navbar-link></mj-navbar>
+        <mj-social><mj-social-element name="twitter" href="https://twitter.com/acme">Twitter</mj-social-element></mj-social>
+      </mj-column></mj-section></mj-body></mjml>
+    `);
+    const [header, footer] = template.components as [HeaderComponent, FooterComponent];
+
+    expect(header.content.navigationLinks).toEqual([
+      expect.objectContaining({ text: 'Shop', link: { href: '/shop' }, order: 0 }),
+    ]);
+    expect(footer.content.socialLinks).toEqual([
+      expect.objectContaining({ platform: 'twitter', url: 'https://twitter.com/acme', label: 'Twitter' }),
+    ]);
+  });
+
+  it('should import mj-hero as a hero component', () => {
+    const { template } = importer.import(`
+      <mjml><mj-body>
+        <mj-hero background-url="https://example.com/bg.jpg" mode="fluid-height">
+          <mj-text><h1>Big news</h1></mj-text>
+          <mj-text>Details</mj-text>
+          <mj-button href="/go">Go</mj-button>
+        </mj-hero>
+      </mj-body></mjml>
+    `);
+    const hero = template.components[0] as HeroComponent;
+
+    expect(hero.content).toMatchObject({
+      layout: 'image-background',
+      image: { src: 'https://example.com/bg.jpg' },
+      heading: { plainText: 'Big news' },
+      description: { plainText: 'Details' },
+      button: { text: 'Go', link: { href: '/go' } },
+      showButton: true,
+    });
+  });
+
+  describe('round trip', () => {
+    it('should keep components and their content', () => {
+      const template = createEmptyEmailTemplate('Campaign');
+      template.metadata.preheader = 'Preview';
+      const list = createList();
+      list.content.columns = 2;
+      template.components = [
+        createHeader(),
+        createHero(),
+        createText(),
+        createButton(),
+        createCTA(),
+        list,
+        createFooter(),
+      ];
+
+      const exported = new MJMLExporter().export(template);
+      const { template: imported, warnings } = importer.import(exported.mjml);
+
+      expect(exported.warnings).toEqual([]);
+      expect(warnings).toEqual([]);
+      expect(imported.metadata.preheader).toBe('Preview');
+      expect(imported.components.map((component) => component.type)).toEqual([
+        'header',
+        'hero',
+        'text',
+        'button',
+        'cta',
+        'list',
+        'footer',
+      ]);
+
+      const strip = <T extends { id: string }>(items: T[]) => items.map(({ id: _id, ...rest }) => rest);
+      const [header, hero, text, button, cta, importedList, footer] = imported.components as [
+        HeaderComponent,
+        HeroComponent,
+        TextComponent,
+        ButtonComponent,
+        CTAComponent,
+        ListComponent,
+        FooterComponent,
+      ];
+      const original = template.components as typeof imported.components;
+      const [oHeader, oHero, oText, oButton, oCTA, oList, oFooter] = original as [
+        HeaderComponent,
+        HeroComponent,
+        TextComponent,
+        ButtonComponent,
+        CTAComponent,
+        ListComponent,
+        FooterComponent,
+      ];
+
+      expect(header.content.layout).toBe(oHeader.content.layout);
+      expect(strip(header.content.navigationLinks)).toEqual(strip(oHeader.content.navigationLinks));
+      expect(hero.content).toMatchObject({
+        layout: oHero.content.layout,
+        heading: oHero.content.heading,
+        description: oHero.content.description,
+        button: oHero.content.button,
+      });
+      expect(text.content).toEqual(oText.content);
+      expect(button.content).toEqual(oButton.content);
+      expect(cta.content).toEqual(oCTA.content);
+      expect(importedList.content.columns).toBe(2);
+      expect(strip(importedList.content.items)).toEqual(strip(oList.content.items));
+      expect(strip(footer.content.socialLinks)).toEqual(strip(oFooter.content.socialLinks));
+      expect(strip(footer.content.textSections)).toEqual(strip(oFooter.content.textSections));
+      expect(footer.content.copyrightText).toBe(oFooter.content.copyrightText);
+    });
+  });
+});
@@ -0,0 +1,700 @@
+/**
+ * MJML Importer
+ *
+ * Converts MJML documents to templates
+ */
+
+import type { BaseComponent, BaseStyles, CSSValue, BorderStyle } from '../types/component.types';
+import type {
+  ButtonContent,
+  TextStyles,
+  TextContentType,
+  ImageContent,
+  NavigationLink,
+  SocialLink,
+  SocialPlatform,
+  ListItem,
+  HeaderLayout,
+  HeroLayout,
+  CTALayout,
+} from '../types';
+import {
+  createButton,
+  createText,
+  createImage,
+  createSeparator,
+  createSpacer,
+  createHTMLBlock,
+  createHeader,
+  createFooter,
+  createHero,
+  createList,
+  createCTA,
+  generateId,
+} from '../components/factories';
+import { TemplateComposer } from '../template/TemplateComposer';
+import { decodeEntities } from '../renderer/plain-text';
+import { parseCSSValue, parseSpacing } from '../renderer/utils';
+import { parseMJML } from './mjml-parser';
+import { MJML_SECTION_CLASS_PREFIX } from './MJMLExporter';
+import type { MJMLNode, MJMLWarning, MJMLImportOptions, MJMLImportResult } from './mjml.types';
+
+const SOCIAL_PLATFORMS: SocialPlatform[] = [
+  'facebook',
+  'twitter',
+  'instagram',
+  'linkedin',
+  'youtube',
+  'tiktok',
+  'pinterest',
+];
+
+const BORDER_STYLES: BorderStyle[] = [
+  'none',
+  'solid',
+  'dashed',
+  'dotted',
+  'double',
+  'groove',
+  'ridge',
+  'inset',
+  'outset',
+];
+
+function classList(node: MJMLNode): string[] {
+  return (node.attributes['css-class'] ?? '').split(/\s+/).filter(Boolean);
+}
+
+function hasClass(node: MJMLNode, name: string): boolean {
+  return classList(node).includes(`${MJML_SECTION_CLASS_PREFIX}${name}`);
+}
+
+/**
+ * Gets the layout recorded in an `eb-layout-<layout>` class
+ */
+function layoutClass(node: MJMLNode): string | undefined {
+  const prefix = `${MJML_SECTION_CLASS_PREFIX}layout-`;
+  return classList(node).find((name) => name.startsWith(prefix))?.slice(prefix.length);
+}
+
+/**
+ * Custom classes, without the markers written by the exporter
+ */
+function customClasses(node: MJMLNode): string[] | undefined {
+  const classes = classList(node).filter((name) => !name.startsWith(MJML_SECTION_CLASS_PREFIX));
+  return classes.length > 0 ? classes : undefined;
+}
+
+/**
+ * Gets the text of an HTML fragment on a single line
+ */
+function plainText(html: string): string {
+  return decodeEntities(html.replace(/<!--[\s\S]*?-->/g, '').replace(/<[^>]*>/g, ' '))
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([.,;:!?])/g, '$1')
+    .trim();
+}
+
+function richText(html: string | undefined): { html: string; plainText: string } | undefined {
+  return html ? { html, plainText: plainText(html) } : undefined;
+}
+
+/**
+ * Drops undefined values, for optional properties
+ */
+function defined<T extends object>(values: T): { [K in keyof T]?: Exclude<T[K], undefined> } {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as {
+    [K in keyof T]?: Exclude<T[K], undefined>;
+  };
+}
+
+/**
+ * Typography of the heading, description, title and link style groups
+ */
+interface GroupTextStyles {
+  fontFamily?: string;
+  fontSize?: CSSValue;
+  fontWeight?: Extract<TextStyles['fontWeight'], number>;
+  color?: string;
+  lineHeight?: CSSValue;
+}
+
+/**
+ * Reads typography attributes
+ */
+function textStyles(attributes: Record<string, string>): TextStyles {
+  const weight = attributes['font-weight'];
+  const align = attributes['align'];
+
+  return defined({
+    fontFamily: attributes['font-family'],
+    fontSize: parseCSSValue(attributes['font-size']),
+    fontWeight: weight ? ((/^\d+$/.test(weight) ? Number(weight) : weight) as TextStyles['fontWeight']) : undefined,
+    fontStyle: attributes['font-style'] as TextStyles['fontStyle'],
+    color: attributes['color'],
+    lineHeight: parseCSSValue(attributes['line-height']),
+    letterSpacing: parseCSSValue(attributes['letter-spacing']),
+    textDecoration: attributes['text-decoration'] as TextStyles['textDecoration'],
+    textTransform: attributes['text-transform'] as TextStyles['textTransform'],
+    textAlign: align as TextStyles['textAlign'],
+  }) as TextStyles;
+}
+
+const TEXT_STYLE_ATTRIBUTES = [
+  'font-family',
+  'font-size',
+  'font-weight',
+  'font-style',
+  'color',
+  'line-height',
+  'letter-spacing',
+  'text-decoration',
+  'text-transform',
+  'align',
+];
+
+function linkConfig(attributes: Record<string, string>): ButtonContent['link'] {
+  return {
+    href: attributes['href'] ?? '#',
+    ...defined({
+      target: attributes['target'] as NonNullable<ButtonContent['link']['target']> | undefined,
+      rel: attributes['rel'],
+    }),
+  };
+}
+
+/**
+ * Typography of a heading or description group (no alignment)
+ */
+function groupTextStyles(attributes: Record<string, string> | undefined): GroupTextStyles {
+  const { fontWeight, ...styles } = textStyles(attributes ?? {});
+  return defined({
+    fontFamily: styles.fontFamily,
+    fontSize: styles.fontSize,
+    fontWeight: typeof fontWeight === 'number' ? fontWeight : undefined,
+    color: styles.color,
+    lineHeight: styles.lineHeight,
+  });
+}
+
+function imageContent(node: MJMLNode): ImageContent {
+  const { attributes } = node;
+  return {
+    src: attributes['src'] ?? '',
+    alt: attributes['alt'] ?? '',
+    ...defined({ title: attributes['title'] }),
+    ...(attributes['href'] && { link: linkConfig(attributes) }),
+  };
+}
+
+function buttonContent(node: MJMLNode): ButtonContent {
+  return { text: plainText(node.content ?? ''), link: linkConfig(node.attributes) };
+}
+
+/**
+ * MJML Importer
+ *
+ * Turns MJML back into components created with the component factories:
+ *
+ * - `mj-text`, `mj-button`, `mj-image`, `mj-divider` and `mj-spacer` become
+ *   text, button, image, separator and spacer components
+ * - `mj-social` becomes a footer and `mj-navbar` a header
+ * - `mj-hero`, and sections marked by {@link MJMLExporter}, become hero,
+ *   header, footer, call-to-action and list components
+ * - `mj-raw` becomes an HTML block
+ *
+ * Whatever has no equivalent is reported as a warning: multi-column layouts
+ * are stacked, `mj-table` becomes a text component with its HTML, and
+ * unsupported elements and attributes are left out.
+ *
+ * @example
+ * ```ts
+ * const { template, warnings } = new MJMLImporter().import(mjml);
+ * ```
+ */
+export class MJMLImporter {
+  private warnings: MJMLWarning[] = [];
+
+  /**
+   * Import an MJML document
+   *
+   * @param mjml - MJML markup
+   * @param options - Import options
+   * @returns Template and conversion warnings
+   * @throws {ImportError} When the document has no `mjml` root element
+   */
+  import(mjml: string, options: MJMLImportOptions = {}): MJMLImportResult {
+    this.warnings = [];
+
+    const root = parseMJML(mjml);
+    const head = root.children.find((node) => node.tagName === 'mj-head');
+    const body = root.children.find((node) => node.tagName === 'mj-body');
+
+    root.children
+      .filter((node) => node !== head && node !== body)
+      .forEach((node) => this.unsupported(node, `mjml > ${node.tagName}`));
+
+    const { title, preheader, fontFamily } = this.readHead(head);
+    const name = options.name ?? (title ? plainText(title) : 'Imported MJML template');
+    const width = parseCSSValue(body?.attributes['width']);
+    const composer = new TemplateComposer({
+      target: 'email',
+      name,
+      width: typeof width?.value === 'number' ? width.value : 600,
+      responsive: true,
+    });
+
+    if (body) {
+      this.checkAttributes(body, 'mj-body', ['width', 'background-color']);
+      composer.setBackgroundColor(body.attributes['background-color'] ?? '#ffffff');
+      composer.addComponents(this.importBody(body));
+    }
+
+    const template = composer.build();
+    if (title && !options.name) {
+      template.metadata.subject = plainText(title);
+    }
+    if (preheader) {
+      template.metadata.preheader = plainText(preheader);
+    }
+    if (fontFamily) {
+      template.generalStyles.typography = { body: { name: 'Body', styles: { fontFamily } } };
+    }
+
+    return { template, warnings: this.warnings };
+  }
+
+  private readHead(head: MJMLNode | undefined): { title?: string; preheader?: string; fontFamily?: string } {
+    const result: { title?: string; preheader?: string; fontFamily?: string } = {};
+
+    head?.children.forEach((node) => {
+      const path = `mj-head > ${node.tagName}`;
+
+      switch (node.tagName) {
+        case 'mj-title':
+          result.title = node.content ?? '';
+          break;
+        case 'mj-preview':
+          result.preheader = node.content ?? '';
+          break;
+        case 'mj-attributes':
+          node.children.forEach((child) => {
+            if (child.tagName === 'mj-all' && child.attributes['font-family']) {
+              result.fontFamily = child.attributes['font-family'];
+              this.checkAttributes(child, `${path} > mj-all`, ['font-family']);
+            } else {
+              this.warn('unsupported-element', `Default attributes in <${child.tagName}> were not applied`, `${path} > ${child.tagName}`);
+            }
+          });
+          break;
+        default:
+          this.unsupported(node, path);
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Imports the sections of the body
+   */
+  private importBody(body: MJMLNode): BaseComponent[] {
+    return body.children.flatMap((node, index) => {
+      const path = `mj-body > ${node.tagName}[${index}]`;
+
+      switch (node.tagName) {
+        case 'mj-section':
+          return this.importSection(node, path);
+        case 'mj-wrapper':
+          if (hasClass(node, 'list')) {
+            return [this.importList(node, node.children.flatMap((section) => this.columns(section)), this.columns(node.children[0]).length)];
+          }
+          this.checkAttributes(node, path, ['css-class']);
+          return node.children.flatMap((section, sectionIndex) =>
+            section.tagName === 'mj-section'
+              ? this.importSection(section, `${path} > mj-section[${sectionIndex}]`)
+              : this.unsupported(section, `${path} > ${section.tagName}[${sectionIndex}]`)
+          );
+        case 'mj-hero':
+          return [this.importHero(node, node.children, path)];
+        case 'mj-raw':
+          return this.importRaw(node, path);
+        default:
+          return this.unsupported(node, path);
+      }
+    });
+  }
+
+  private importSection(section: MJMLNode, path: string): BaseComponent[] {
+    const columns = this.columns(section);
+    const elements = columns.flatMap((column) => column.children);
+
+    if (hasClass(section, 'header')) return [this.importHeader(section, elements)];
+    if (hasClass(section, 'footer')) return [this.importFooter(section, elements)];
+    if (hasClass(section, 'hero')) return [this.importHero(section, elements, path)];
+    if (hasClass(section, 'cta')) return [this.importCTA(section, elements)];
+    if (hasClass(section, 'list')) return [this.importList(section, columns, columns.length)];
+
+    this.checkAttributes(section, path, []);
+    if (columns.length > 1) {
+      this.warn('layout-conversion', `${columns.length} columns were stacked into a single column`, path);
+    }
+
+    return columns.flatMap((column, columnIndex) => {
+      const columnPath = `${path} > mj-column[${columnIndex}]`;
+      this.checkAttributes(column, columnPath, []);
+      return column.children.flatMap((element, elementIndex) =>
+        this.importElement(element, `${columnPath} > ${element.tagName}[${elementIndex}]`)
+      );
+    });
+  }
+
+  /**
+   * Columns of a section, including the ones inside groups
+   */
+  private columns(section: MJMLNode | undefined): MJMLNode[] {
+    return (section?.children ?? []).flatMap((child) =>
+      child.tagName === 'mj-group' ? child.children : child.tagName === 'mj-column' ? [child] : []
+    );
+  }
+
+  /**
+   * Imports a content element
+   */
+  private importElement(node: MJMLNode, path: string): BaseComponent[] {
+    const { attributes } = node;
+    const box: Partial<BaseStyles> = defined({
+      padding: parseSpacing(attributes['padding']),
+      backgroundColor: attributes['container-background-color'],
+      customClasses: customClasses(node),
+    });
+    const common = ['padding', 'container-background-color', 'css-class'];
+
+    switch (node.tagName) {
+      case 'mj-text': {
+        const html = node.content ?? '';
+        const heading = /^\s*<h([1-6])\b[^>]*>[\s\S]*<\/h\1>\s*$/i.exec(html);
+        const text = createText();
+        text.content = {
+          type: (heading ? `heading-${heading[1]}` : 'paragraph') as TextContentType,
+          html,
+          plainText: plainText(html),
+        };
+        Object.assign(text.styles, box, textStyles(attributes));
+        this.checkAttributes(node, path, [...common, ...TEXT_STYLE_ATTRIBUTES]);
+        return [text];
+      }
+
+      case 'mj-button': {
+        const button = createButton();
+        const border = /^\s*(\S+)\s+(\S+)\s+(.+)$/.exec(attributes['border'] ?? '');
+        const radius = parseCSSValue(attributes['border-radius']);
+        const padding = parseSpacing(attributes['inner-padding']);
+        const background = attributes['background-color'];
+
+        button.content = buttonContent(node);
+        Object.assign(button.styles, defined({ customClasses: box.customClasses }), textStyles(attributes), defined({
+          backgroundColor: background === 'transparent' ? undefined : background,
+          variant: background === 'transparent' ? 'outlined' : undefined,
+          horizontalAlign: attributes['align'] as BaseStyles['horizontalAlign'],
+          padding,
+        }));
+        if (border && BORDER_STYLES.includes(border[2] as BorderStyle)) {
+          button.styles.border = {
+            width: parseCSSValue(border[1]) ?? { value: 1, unit: 'px' },
+            style: border[2] as BorderStyle,
+            color: border[3] ?? 'currentColor',
+            ...(button.styles.border?.radius && { radius: button.styles.border.radius }),
+          };
+        }
+        if (radius && button.styles.border) {
+          button.styles.border.radius = { topLeft: radius, topRight: radius, bottomRight: radius, bottomLeft: radius };
+        }
+        this.checkAttributes(node, path, [
+          'css-class', 'href', 'target', 'rel', 'background-color', 'border', 'border-radius', 'inner-padding',
+          ...TEXT_STYLE_ATTRIBUTES,
+        ]);
+        return [button];
+      }
+
+      case 'mj-image': {
+        const image = createImage();
+        image.content = imageContent(node);
+        Object.assign(image.styles, box, defined({
+          width: parseCSSValue(attributes['width']),
+          height: parseCSSValue(attributes['height']),
+          horizontalAlign: attributes['align'] as BaseStyles['horizontalAlign'],
+        }));
+        this.checkAttributes(node, path, [...common, 'src', 'alt', 'title', 'href', 'target', 'rel', 'width', 'height', 'align']);
+        return [image];
+      }
+
+      case 'mj-divider': {
+        const separator = createSeparator();
+        const style = attributes['border-style'] as BorderStyle | undefined;
+        Object.assign(separator.content, defined({
+          color: attributes['border-color'],
+          thickness: parseCSSValue(attributes['border-width']),
+          style: style && style !== 'none' ? style : undefined,
+        }));
+        Object.assign(separator.styles, box);
+        this.checkAttributes(node, path, [...common, 'border-color', 'border-width', 'border-style']);
+        return [separator];
+      }
+
+      case 'mj-spacer': {
+        const spacer = createSpacer();
+        const height = parseCSSValue(attributes['height']);
+        if (height) {
+          spacer.content.height = height;
+        }
+        Object.assign(spacer.styles, box);
+        this.checkAttributes(node, path, [...common, 'height']);
+        return [spacer];
+      }
+
+      case 'mj-social':
+        return [this.importFooter(node, [node])];
+
+      case 'mj-navbar':
+        return [this.importHeader(node, [node])];
+
+      case 'mj-raw':
+      case 'mj-table':
+        return this.importRaw(node, path);
+
+      default:
+        return this.unsupported(node, path);
+    }
+  }
+
+  /**
+   * Imports `mj-raw` as an HTML block and other raw HTML as a text component
+   */
+  private importRaw(node: MJMLNode, path: string): BaseComponent[] {
+    const html = node.content ?? '';
+    if (!html.trim()) {
+      return [];
+    }
+
+    if (node.tagName === 'mj-raw') {
+      return [createHTMLBlock({ content: { html } })];
+    }
+
+    this.warn('unsupported-element', `<${node.tagName}> was imported as a text component with its HTML`, path);
+    const text = createText();
+    text.content = { type: 'paragraph', html, plainText: plainText(html) };
+    return [text];
+  }
+
+  private importHeader(section: MJMLNode, elements: MJMLNode[]): BaseComponent {
+    const image = elements.find((node) => node.tagName === 'mj-image');
+    const navbar = elements.find((node) => node.tagName === 'mj-navbar');
+    const links = navbar?.children.filter((node) => node.tagName === 'mj-navbar-link') ?? [];
+    const header = createHeader();
+
+    header.content = {
+      layout: (layoutClass(section) as HeaderLayout | undefined) ?? 'image-left',
+      image: image ? imageContent(image) : { src: '', alt: '' },
+      navigationLinks: links.map(
+        (link, order): NavigationLink => ({
+          id: generateId('nav-link'),
+          text: plainText(link.content ?? ''),
+          link: linkConfig(link.attributes),
+          order,
+        })
+      ),
+      showNavigation: links.length > 0,
+    };
+    Object.assign(header.styles, this.sectionStyles(section), defined({
+      imageMaxWidth: parseCSSValue(image?.attributes['width']),
+    }));
+    header.styles.linkStyles = { ...header.styles.linkStyles, ...groupTextStyles(links[0]?.attributes) };
+
+    this.ignoreOthers(elements, ['mj-image', 'mj-navbar'], header.id);
+    return header;
+  }
+
+  private importFooter(section: MJMLNode, elements: MJMLNode[]): BaseComponent {
+    const social = elements.find((node) => node.tagName === 'mj-social');
+    const texts = elements.filter((node) => node.tagName === 'mj-text');
+    const copyright = texts.find((node) => hasClass(node, 'copyright'));
+    const footer = createFooter();
+
+    footer.content = {
+      textSections: texts
+        .filter((node) => node !== copyright)
+        .map((node, order) => ({ id: generateId('footer-section'), ...(richText(node.content) ?? { html: '' }), order })),
+      socialLinks: (social?.children ?? [])
+        .filter((node) => node.tagName === 'mj-social-element')
+        .map((node, order): SocialLink => {
+          const name = (node.attributes['name'] ?? '').replace(/-noshare$/, '') as SocialPlatform;
+          const platform = SOCIAL_PLATFORMS.includes(name) ? name : 'custom';
+          return {
+            id: generateId('social-link'),
+            platform,
+            url: node.attributes['href'] ?? '#',
+            icon: platform === 'custom' ? '' : `ri-${platform}-fill`,
+            label: plainText(node.content ?? '') || name,
+            order,
+          };
+        }),
+      showSocialLinks: Boolean(social),
+      ...(copyright && { copyrightText: plainText(copyright.content ?? '') }),
+    };
+    Object.assign(footer.styles, this.sectionStyles(section), defined({
+      socialIconSize: parseCSSValue(social?.attributes['icon-size']),
+    }));
+    if (texts[0]) {
+      footer.styles.textStyles = { ...footer.styles.textStyles, ...groupTextStyles(texts[0].attributes) };
+    }
+
+    this.ignoreOthers(elements, ['mj-social', 'mj-text'], footer.id);
+    return footer;
+  }
+
+  private importHero(section: MJMLNode, elements: MJMLNode[], path: string): BaseComponent {
+    const image = elements.find((node) => node.tagName === 'mj-image');
+    const { heading, description } = this.headingAndDescription(elements);
+    const button = elements.find((node) => node.tagName === 'mj-button');
+    const background = section.attributes['background-url'];
+    const hero = createHero();
+
+    if (section.tagName === 'mj-hero') {
+      this.checkAttributes(section, path, ['background-url', 'background-color', 'padding', 'css-class', 'mode', 'background-height', 'background-width']);
+    }
+
+    hero.content = {
+      layout: background ? 'image-background' : ((layoutClass(section) as HeroLayout | undefined) ?? 'image-top'),
+      image: background ? { src: background, alt: '' } : image ? imageContent(image) : { src: '', alt: '' },
+      heading: richText(heading?.content) ?? { html: '' },
+      ...(description && { description: richText(description.content) ?? { html: '' } }),
+      ...(button && { button: buttonContent(button) }),
+      showButton: Boolean(button),
+    };
+    Object.assign(hero.styles, this.sectionStyles(section), defined({
+      contentAlign: (heading?.attributes['align'] ?? button?.attributes['align']) as 'left' | 'center' | 'right' | undefined,
+    }));
+    if (heading) hero.styles.headingStyles = { ...hero.styles.headingStyles, ...groupTextStyles(heading.attributes) };
+    if (description) hero.styles.descriptionStyles = { ...hero.styles.descriptionStyles, ...groupTextStyles(description.attributes) };
+
+    this.ignoreOthers(elements, ['mj-image', 'mj-text', 'mj-button'], hero.id);
+    return hero;
+  }
+
+  private importCTA(section: MJMLNode, elements: MJMLNode[]): BaseComponent {
+    const { heading, description } = this.headingAndDescription(elements);
+    const buttons = elements.filter((node) => node.tagName === 'mj-button');
+    const secondary = buttons.find((node) => hasClass(node, 'secondary')) ?? buttons[1];
+    const primary = buttons.find((node) => node !== secondary);
+    const align = heading?.attributes['align'] ?? primary?.attributes['align'];
+    const cta = createCTA();
+
+    cta.content = {
+      layout:
+        (layoutClass(section) as CTALayout | undefined) ??
+        (align === 'left' ? 'left-aligned' : align === 'right' ? 'right-aligned' : 'centered'),
+      heading: richText(heading?.content) ?? { html: '' },
+      ...(description && { description: richText(description.content) ?? { html: '' } }),
+      primaryButton: primary ? buttonContent(primary) : { text: '', link: { href: '#' } },
+      ...(secondary && { secondaryButton: buttonContent(secondary) }),
+      showSecondaryButton: Boolean(secondary),
+      showDescription: Boolean(description),
+    };
+    Object.assign(cta.styles, this.sectionStyles(section));
+    if (heading) cta.styles.headingStyles = { ...cta.styles.headingStyles, ...groupTextStyles(heading.attributes) };
+    if (description) cta.styles.descriptionStyles = { ...cta.styles.descriptionStyles, ...groupTextStyles(description.attributes) };
+
+    this.ignoreOthers(elements, ['mj-text', 'mj-button'], cta.id);
+    return cta;
+  }
+
+  private importList(section: MJMLNode, columns: MJMLNode[], perRow: number): BaseComponent {
+    const list = createList();
+    const first = columns[0];
+    const titleNode = first?.children.find((node) => hasClass(node, 'title'));
+    const descriptionNode = first?.children.find((node) => hasClass(node, 'description'));
+
+    list.content = {
+      orientation: perRow === 1 && columns.length > 1 ? 'vertical' : 'horizontal',
+      itemLayout: 'image-top',
+      columns: Math.max(1, perRow),
+      items: columns.map((column, order): ListItem => {
+        const texts = column.children.filter((node) => node.tagName === 'mj-text');
+        const title = texts.find((node) => hasClass(node, 'title')) ?? texts[0];
+        const description = texts.find((node) => hasClass(node, 'description')) ?? texts.find((node) => node !== title);
+        const image = column.children.find((node) => node.tagName === 'mj-image');
+        const button = column.children.find((node) => node.tagName === 'mj-button');
+
+        this.ignoreOthers(column.children, ['mj-image', 'mj-text', 'mj-button'], list.id);
+        return {
+          id: generateId('list-item'),
+          ...(image && { image: imageContent(image) }),
+          title: richText(title?.content) ?? { html: '' },
+          ...(description && { description: richText(description.content) ?? { html: '' } }),
+          ...(button && { button: buttonContent(button) }),
+          showImage: Boolean(image),
+          showButton: Boolean(button),
+          order,
+        };
+      }),
+    };
+    Object.assign(list.styles, this.sectionStyles(section), defined({
+      itemBackgroundColor: first?.attributes['background-color'],
+      itemPadding: parseCSSValue(first?.attributes['padding']),
+    }));
+    if (titleNode) list.styles.titleStyles = { ...list.styles.titleStyles, ...groupTextStyles(titleNode.attributes) };
+    if (descriptionNode) {
+      list.styles.descriptionStyles = { ...list.styles.descriptionStyles, ...groupTextStyles(descriptionNode.attributes) };
+    }
+
+    return list;
+  }
+
+  /**
+   * Finds the heading and description texts of a composite section
+   */
+  private headingAndDescription(elements: MJMLNode[]): { heading?: MJMLNode; description?: MJMLNode } {
+    const texts = elements.filter((node) => node.tagName === 'mj-text');
+    const heading = texts.find((node) => hasClass(node, 'heading')) ?? texts[0];
+    const description = texts.find((node) => hasClass(node, 'description')) ?? texts.find((node) => node !== heading);
+
+    return { ...(heading && { heading }), ...(description && { description }) };
+  }
+
+  private sectionStyles(section: MJMLNode): Partial<BaseStyles> {
+    return defined({
+      backgroundColor: section.attributes['background-color'],
+      padding: parseSpacing(section.attributes['padding']),
+      customClasses: customClasses(section),
+    });
+  }
+
+  /**
+   * Reports elements of a composite section that the component cannot hold
+   */
+  private ignoreOthers(elements: MJMLNode[], expected: string[], componentId: string): void {
+    elements
+      .filter((node) => !expected.includes(node.tagName))
+      .forEach((node) => this.warn('unsupported-element', `<${node.tagName}> was left out`, componentId));
+  }
+
+  /**
+   * Reports attributes that were not mapped
+   */
+  private checkAttributes(node: MJMLNode, path: string, mapped: string[]): void {
+    const ignored = Object.keys(node.attributes).filter((name) => !mapped.includes(name));
+    if (ignored.length > 0) {
+      this.warn('unsupported-attribute', `Ignored attributes on <${node.tagName}>: ${ignored.join(', ')}`, path);
+    }
+  }
+
+  private unsupported(node: MJMLNode, path: string): BaseComponent[] {
+    this.warn('unsupported-element', `<${node.tagName}> is not supported and was left out`, path);
+    return [];
+  }
+
+  private warn(type: MJMLWarning['type'], message: string, context?: string): void {
+    this.warnings.push({ type, message, ...(context !== undefined && { context }) });
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * MJML Module
+ *
+ * Converts templates to and from MJML
+ */
+
+export { MJMLExporter, MJML_SECTION_CLASS_PREFIX } from './MJMLExporter';
+export { MJMLImporter } from './MJMLImporter';
+export { parseMJML, serializeMJML, mjmlNode } from './mjml-parser';
+export type {
+  MJMLNode,
+  MJMLWarning,
+  MJMLWarningType,
+  MJMLExportOptions,
+  MJMLExportResult,
+  MJMLImportOptions,
+  MJMLImportResult,
+} from './mjml.types';
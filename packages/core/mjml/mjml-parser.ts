@@ -0,0 +1,157 @@
+/**
+ * MJML Parser
+ *
+ * Parses MJML markup into an element tree and serializes it back
+ */
+
+import { ImportError } from '../errors';
+import { decodeEntities } from '../renderer/plain-text';
+import type { MJMLNode } from './mjml.types';
+
+/**
+ * Elements whose content is HTML (or text) rather than MJML elements
+ */
+export const ENDING_TAGS = new Set([
+  'mj-text',
+  'mj-button',
+  'mj-table',
+  'mj-raw',
+  'mj-navbar-link',
+  'mj-social-element',
+  'mj-accordion-title',
+  'mj-accordion-text',
+  'mj-title',
+  'mj-preview',
+  'mj-style',
+]);
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(raw)) !== null) {
+    const name = (match[1] ?? '').toLowerCase();
+    attributes[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+
+  return attributes;
+}
+
+/**
+ * Parses an MJML document
+ *
+ * Comments are skipped. The content of ending tags is kept as raw markup.
+ *
+ * @param mjml - MJML markup
+ * @returns Root `mjml` element
+ * @throws {ImportError} When the document has no `mjml` root element
+ */
+export function parseMJML(mjml: string): MJMLNode {
+  const root: MJMLNode = { tagName: '#root', attributes: {}, children: [] };
+  const stack: MJMLNode[] = [root];
+  const tokenPattern = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<(\/?)([a-zA-Z][\w:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/g;
+  const lowerCase = mjml.toLowerCase();
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(mjml)) !== null) {
+    const [token, closing, rawTag, rawAttributes = ''] = match;
+    if (!rawTag) {
+      continue;
+    }
+
+    const tagName = rawTag.toLowerCase();
+    const current = stack[stack.length - 1] as MJMLNode;
+
+    if (closing) {
+      const index = stack.map((node) => node.tagName).lastIndexOf(tagName);
+      if (index > 0) {
+        stack.length = index;
+      }
+      continue;
+    }
+
+    const selfClosing = rawAttributes.trimEnd().endsWith('/');
+    const node: MJMLNode = {
+      tagName,
+      attributes: parseAttributes(selfClosing ? rawAttributes.trimEnd().slice(0, -1) : rawAttributes),
+      children: [],
+    };
+    current.children.push(node);
+
+    if (selfClosing) {
+      continue;
+    }
+
+    if (ENDING_TAGS.has(tagName)) {
+      // Everything up to the closing tag is content
+      const start = match.index + token.length;
+      const end = lowerCase.indexOf(`</${tagName}`, start);
+      const close = end === -1 ? mjml.length : mjml.indexOf('>', end) + 1;
+      node.content = mjml.slice(start, end === -1 ? mjml.length : end).trim();
+      tokenPattern.lastIndex = close || mjml.length;
+      continue;
+    }
+
+    stack.push(node);
+  }
+
+  const document = root.children.find((node) => node.tagName === 'mjml');
+  if (!document) {
+    throw new ImportError('Invalid MJML: missing <mjml> root element', 'mjml');
+  }
+
+  return document;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+/**
+ * Serializes an element tree as MJML
+ *
+ * @param node - Element to serialize
+ * @param depth - Indentation depth
+ * @returns MJML markup
+ */
+export function serializeMJML(node: MJMLNode, depth = 0): string {
+  const indent = '  '.repeat(depth);
+  const attributes = Object.entries(node.attributes)
+    .filter(([, value]) => value !== '')
+    .map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`)
+    .join('');
+  const open = `${indent}<${node.tagName}${attributes}`;
+
+  if (node.content !== undefined) {
+    return `${open}>${node.content}</${node.tagName}>`;
+  }
+  if (node.children.length === 0) {
+    return `${open} />`;
+  }
+
+  const children = node.children.map((child) => serializeMJML(child, depth + 1)).join('\n');
+  return `${open}>\n${children}\n${indent}</${node.tagName}>`;
+}
+
+/**
+ * Creates an MJML element
+ *
+ * Attributes with undefined values are left out.
+ */
+export function mjmlNode(
+  tagName: string,
+  attributes: Record<string, string | number | undefined> = {},
+  children: MJMLNode[] | string = []
+): MJMLNode {
+  const defined: Record<string, string> = {};
+  Object.entries(attributes).forEach(([name, value]) => {
+    if (value !== undefined && value !== '') {
+      defined[name] = String(value);
+    }
+  });
+
+  return typeof children === 'string'
+    ? { tagName, attributes: defined, children: [], content: children }
+    : { tagName, attributes: defined, children };
+}
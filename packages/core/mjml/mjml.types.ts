@@ -0,0 +1,113 @@
+/**
+ * MJML type definitions
+ */
+
+import type { Template } from '../types/template.types';
+
+/**
+ * MJML element
+ */
+export interface MJMLNode {
+  /**
+   * Tag name, e.g. `mj-section`
+   */
+  tagName: string;
+
+  /**
+   * Attributes
+   */
+  attributes: Record<string, string>;
+
+  /**
+   * Child elements
+   */
+  children: MJMLNode[];
+
+  /**
+   * Raw content of ending tags (`mj-text`, `mj-button`, `mj-raw`, ...)
+   */
+  content?: string;
+}
+
+/**
+ * Warning types for MJML conversion
+ */
+export type MJMLWarningType =
+  | 'unsupported-component'
+  | 'unsupported-element'
+  | 'unsupported-attribute'
+  | 'unsupported-style'
+  | 'layout-conversion';
+
+/**
+ * Something that could not be converted exactly
+ */
+export interface MJMLWarning {
+  /**
+   * Warning type
+   */
+  type: MJMLWarningType;
+
+  /**
+   * Warning message
+   */
+  message: string;
+
+  /**
+   * Component ID (export) or element path (import) that caused the warning
+   */
+  context?: string;
+}
+
+/**
+ * MJML export options
+ */
+export interface MJMLExportOptions {
+  /**
+   * Export components without an MJML mapping as `mj-raw` blocks with their
+   * rendered HTML, instead of leaving them out
+   *
+   * @default true
+   */
+  rawFallback?: boolean;
+}
+
+/**
+ * MJML export result
+ */
+export interface MJMLExportResult {
+  /**
+   * MJML document
+   */
+  mjml: string;
+
+  /**
+   * Conversion warnings
+   */
+  warnings: MJMLWarning[];
+}
+
+/**
+ * MJML import options
+ */
+export interface MJMLImportOptions {
+  /**
+   * Template name (defaults to the `mj-title`)
+   */
+  name?: string;
+}
+
+/**
+ * MJML import result
+ */
+export interface MJMLImportResult {
+  /**
+   * Imported template
+   */
+  template: Template;
+
+  /**
+   * Conversion warnings
+   */
+  warnings: MJMLWarning[];
+}
@@ -6,8 +6,6 @@
 import type {
   StyleRecipe,
   RecipeComposition,
-  RecipeReference,
-  MergeStrategy,
   RecipeCategory,
   RecipeToken,
   DynamicRecipe,
@@ -18,15 +16,15 @@ import { EventEmitter } from '../services/EventEmitter';
 import { StorageAdapter } from '../types/config.types';
 
 export interface RecipeManagerConfig {
-  storage?: StorageAdapter;
-  themeTokens?: ThemeTokens;
+  storage?: StorageAdapter | undefined;
+  themeTokens?: ThemeTokens | undefined;
 }
 
 export class RecipeManager extends EventEmitter {
   private recipes: Map<string, StyleRecipe> = new Map();
   private compositions: Map<string, RecipeComposition> = new Map();
-  private storage?: StorageAdapter;
-  private themeTokens?: ThemeTokens;
+  private storage: StorageAdapter | undefined;
+  private themeTokens: ThemeTokens | undefined;
 
   constructor(config: RecipeManagerConfig = {}) {
     super();
@@ -130,10 +128,10 @@ export class RecipeManager extends EventEmitter {
     const recipe: StyleRecipe = {
       id: this.generateRecipeId(),
       name: options.name,
-      description: options.description,
+      ...(options.description !== undefined && { description: options.description }),
       category: options.category,
       styles: options.styles,
-      extends: options.extends,
+      ...(options.extends && { extends: options.extends }),
       metadata: {
         isBuiltIn: false,
         createdAt: Date.now(),
@@ -328,20 +326,20 @@ export class RecipeManager extends EventEmitter {
       throw new Error('Theme tokens not set. Cannot resolve dynamic recipe.');
     }
 
-    const resolvedStyles: Partial<BaseStyles> = {};
+    const resolvedStyles: Record<string, unknown> = {};
 
     for (const [key, value] of Object.entries(recipe.styles)) {
       if (this.isRecipeToken(value)) {
         const token = value as RecipeToken;
-        resolvedStyles[key as keyof BaseStyles] = this.resolveToken(token) as any;
+        resolvedStyles[key] = this.resolveToken(token);
       } else {
-        resolvedStyles[key as keyof BaseStyles] = value as any;
+        resolvedStyles[key] = value;
       }
     }
 
     return {
       ...recipe,
-      styles: resolvedStyles,
+      styles: resolvedStyles as Partial<BaseStyles>,
     };
   }
 
@@ -400,22 +398,22 @@ export class RecipeManager extends EventEmitter {
    * Deep merge multiple style objects
    */
   private deepMergeStyles(styleArray: Partial<BaseStyles>[]): Partial<BaseStyles> {
-    return styleArray.reduce((acc, styles) => {
-      const merged = { ...acc };
+    return styleArray.reduce<Partial<BaseStyles>>((acc, styles) => {
+      const merged: Record<string, unknown> = { ...acc };
 
       for (const key in styles) {
         const value = styles[key as keyof BaseStyles];
         if (value && typeof value === 'object' && !Array.isArray(value)) {
-          merged[key as keyof BaseStyles] = {
+          merged[key] = {
             ...(acc[key as keyof BaseStyles] as any),
             ...(value as any),
           };
         } else {
-          merged[key as keyof BaseStyles] = value as any;
+          merged[key] = value;
         }
       }
 
-      return merged;
+      return merged as Partial<BaseStyles>;
     }, {});
   }
 
@@ -4,6 +4,15 @@
  */
 
 import type { StyleRecipe } from '../types/recipe.types';
+import type { BorderRadius, CSSUnit } from '../types/component.types';
+
+/**
+ * Same radius on every corner
+ */
+const radius = (value: number, unit: CSSUnit): BorderRadius => {
+  const corner = { value, unit };
+  return { topLeft: corner, topRight: corner, bottomRight: corner, bottomLeft: corner };
+};
 
 // ============================================================================
 // SURFACE RECIPES
@@ -20,7 +29,7 @@ export const cardRecipe: StyleRecipe = {
       width: { value: 1, unit: 'px' },
       style: 'solid',
       color: '#e5e7eb',
-      radius: { value: 0.5, unit: 'rem' },
+      radius: radius(0.5, 'rem'),
     },
     padding: {
       top: { value: 24, unit: 'px' },
@@ -48,7 +57,7 @@ export const panelRecipe: StyleRecipe = {
       width: { value: 0, unit: 'px' },
       style: 'solid',
       color: 'transparent',
-      radius: { value: 0.375, unit: 'rem' },
+      radius: radius(0.375, 'rem'),
     },
     padding: {
       top: { value: 20, unit: 'px' },
@@ -76,7 +85,7 @@ export const wellRecipe: StyleRecipe = {
       width: { value: 1, unit: 'px' },
       style: 'solid',
       color: '#e5e7eb',
-      radius: { value: 0.25, unit: 'rem' },
+      radius: radius(0.25, 'rem'),
     },
     padding: {
       top: { value: 16, unit: 'px' },
@@ -104,7 +113,7 @@ export const elevatedRecipe: StyleRecipe = {
       width: { value: 0, unit: 'px' },
       style: 'solid',
       color: 'transparent',
-      radius: { value: 0.75, unit: 'rem' },
+      radius: radius(0.75, 'rem'),
     },
     padding: {
       top: { value: 32, unit: 'px' },
@@ -220,7 +229,7 @@ export const roundedRecipe: StyleRecipe = {
       width: { value: 0, unit: 'px' },
       style: 'solid',
       color: 'transparent',
-      radius: { value: 0.5, unit: 'rem' },
+      radius: radius(0.5, 'rem'),
     },
   },
   metadata: {
@@ -241,7 +250,7 @@ export const roundedFullRecipe: StyleRecipe = {
       width: { value: 0, unit: 'px' },
       style: 'solid',
       color: 'transparent',
-      radius: { value: 9999, unit: 'px' },
+      radius: radius(9999, 'px'),
     },
   },
   metadata: {
@@ -262,7 +271,7 @@ export const borderedRecipe: StyleRecipe = {
       width: { value: 1, unit: 'px' },
       style: 'solid',
       color: '#e5e7eb',
-      radius: { value: 0, unit: 'px' },
+      radius: radius(0, 'px'),
     },
   },
   metadata: {
@@ -283,7 +292,7 @@ export const outlinedRecipe: StyleRecipe = {
       width: { value: 2, unit: 'px' },
       style: 'solid',
       color: '#3b82f6',
-      radius: { value: 0.375, unit: 'rem' },
+      radius: radius(0.375, 'rem'),
     },
   },
   metadata: {
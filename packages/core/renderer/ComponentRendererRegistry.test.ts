@@ -0,0 +1,158 @@
+/**
+ * Component Renderer Registry Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ComponentRendererRegistry } from './ComponentRendererRegistry';
+import { createDefaultRendererRegistry } from './default-renderers';
+import { ComponentCategory, ComponentType } from '../types/component.types';
+import type { BaseComponent } from '../types/component.types';
+import { createButton, createRow, createText } from '../components/factories';
+
+describe('ComponentRendererRegistry', () => {
+  let registry: ComponentRendererRegistry;
+
+  beforeEach(() => {
+    registry = new ComponentRendererRegistry();
+  });
+
+  const createCustomComponent = (): BaseComponent => ({
+    id: 'custom-1',
+    type: 'countdown',
+    metadata: { name: 'Countdown', category: ComponentCategory.CUSTOM },
+    styles: {},
+    content: { endsAt: '2030-01-01' },
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    version: '1.0.0',
+  });
+
+  describe('register', () => {
+    it('should register a renderer', () => {
+      registry.register('countdown', () => '<p>Soon</p>');
+
+      expect(registry.has('countdown')).toBe(true);
+      expect(registry.getTypes()).toEqual(['countdown']);
+    });
+
+    it('should replace an existing renderer', () => {
+      registry.register('countdown', () => '<p>First</p>');
+      registry.register('countdown', () => '<p>Second</p>');
+
+      expect(registry.render(createCustomComponent())).toBe('<p>Second</p>');
+    });
+
+    it('should unregister a renderer', () => {
+      registry.register('countdown', () => '<p>Soon</p>');
+
+      expect(registry.unregister('countdown')).toBe(true);
+      expect(registry.has('countdown')).toBe(false);
+      expect(registry.unregister('countdown')).toBe(false);
+    });
+  });
+
+  describe('render', () => {
+    it('should pass the component and context to the renderer', () => {
+      registry.register<BaseComponent>('countdown', (component, context) => {
+        return `<p>${component.content['endsAt']} ${context.template ? 'in template' : 'standalone'}</p>`;
+      });
+
+      expect(registry.render(createCustomComponent())).toBe('<p>2030-01-01 standalone</p>');
+    });
+
+    it('should render unknown types as a comment', () => {
+      expect(registry.render(createCustomComponent())).toBe('<!-- countdown component -->');
+    });
+
+    it('should tolerate components without styles', () => {
+      const registryWithDefaults = createDefaultRendererRegistry();
+      const component = { ...createText(), styles: undefined } as unknown as BaseComponent;
+
+      expect(() => registryWithDefaults.render(component)).not.toThrow();
+    });
+  });
+
+  describe('clone', () => {
+    it('should copy renderers without sharing registrations', () => {
+      registry.register('countdown', () => '<p>Soon</p>');
+      const copy = registry.clone();
+      copy.register('rating', () => '<p>5 stars</p>');
+
+      expect(copy.has('countdown')).toBe(true);
+      expect(registry.has('rating')).toBe(false);
+    });
+  });
+
+  describe('createDefaultRendererRegistry', () => {
+    it('should register every built-in component type', () => {
+      const defaults = createDefaultRendererRegistry();
+
+      Object.values(ComponentType)
+        .filter((type) => type !== ComponentType.CUSTOM)
+        .forEach((type) => {
+          expect(defaults.has(type)).toBe(true);
+        });
+    });
+
+    it('should render buttons as bulletproof table buttons', () => {
+      const defaults = createDefaultRendererRegistry();
+      const button = createButton({
+        content: { text: 'Buy now', link: { href: 'https://example.com/buy' } },
+      });
+
+      const html = defaults.render(button);
+
+      expect(html).toContain('role="presentation"');
+      expect(html).toContain('href="https://example.com/buy"');
+      expect(html).toContain('Buy now');
+    });
+
+    it('should add a VML round rectangle for Outlook when requested', () => {
+      const defaults = createDefaultRendererRegistry();
+      const button = createButton({
+        content: { text: 'Buy now', link: { href: 'https://example.com/buy' } },
+      });
+      button.styles.vmlFallback = true;
+
+      const html = defaults.render(button);
+
+      expect(html).toMatch(/<!--\[if mso\]><v:roundrect [^>]*href="https:\/\/example.com\/buy"/);
+      expect(html).toContain('arcsize="');
+      expect(html).toContain('fillcolor="#007bff"');
+      expect(html).toContain('<center style="');
+      expect(html).toContain('<!--[if !mso]><!--><table');
+      expect(html.endsWith('<!--<![endif]--></td></tr></table>')).toBe(true);
+      expect(defaults.render(createButton())).not.toContain('v:roundrect');
+    });
+
+    it('should render rows as hybrid columns with an Outlook ghost table', () => {
+      const defaults = createDefaultRendererRegistry();
+      const row = createRow({}, '2-1');
+      row.children[0]!.children = [createText({ content: { type: 'paragraph', html: '<p>Left</p>', plainText: 'Left' } })];
+
+      const html = defaults.render(row);
+
+      expect(html).toContain('<!--[if mso]><table role="presentation"');
+      expect(html).toContain('<!--[if mso]><td width="386" valign="top"><![endif]-->');
+      expect(html).toContain('<!--[if mso]><td width="193" valign="top"><![endif]-->');
+      expect(html).toContain('max-width: 386px');
+      expect(html).toContain('padding: 0 10px 0 0px');
+      expect(html).toContain('<p>Left</p>');
+      expect(html.indexOf('<p>Left</p>')).toBeLessThan(html.indexOf('width="193"'));
+    });
+
+    it('should reverse the column order in a right-to-left cell for reverse stacking', () => {
+      const defaults = createDefaultRendererRegistry();
+      const row = createRow({}, '1-1');
+      row.content.mobileStacking = 'reverse';
+      row.children[0]!.children = [createText({ content: { type: 'paragraph', html: '<p>First</p>', plainText: 'First' } })];
+      row.children[1]!.children = [createText({ content: { type: 'paragraph', html: '<p>Second</p>', plainText: 'Second' } })];
+
+      const html = defaults.render(row);
+
+      expect(html).toContain('<td dir="rtl"');
+      expect(html).toContain('direction: ltr');
+      expect(html.indexOf('<p>Second</p>')).toBeLessThan(html.indexOf('<p>First</p>'));
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Component Renderer Registry
+ *
+ * Maps component types to the functions that render them as email-safe HTML
+ */
+
+import type { BaseComponent, ComponentType } from '../types/component.types';
+import type { ComponentRenderer, ComponentRenderContext } from './renderer.types';
+import { escapeHTML } from './utils';
+
+/**
+ * Component Renderer Registry
+ *
+ * Holds one renderer per component type. Built-in renderers are registered by
+ * {@link createDefaultRendererRegistry}; custom component types can plug in
+ * their own through {@link ComponentRendererRegistry.register}.
+ */
+export class ComponentRendererRegistry {
+  private renderers: Map<string, ComponentRenderer> = new Map();
+
+  /**
+   * Registers a renderer for a component type
+   *
+   * Registering a type that already has a renderer replaces it, which allows
+   * overriding the built-in output.
+   *
+   * @param type - Component type
+   * @param renderer - Renderer function
+   */
+  public register<TComponent extends BaseComponent>(
+    type: ComponentType | string,
+    renderer: ComponentRenderer<TComponent>
+  ): void {
+    this.renderers.set(type, renderer as unknown as ComponentRenderer);
+  }
+
+  /**
+   * Unregisters the renderer of a component type
+   *
+   * @param type - Component type
+   * @returns True if a renderer was removed
+   */
+  public unregister(type: ComponentType | string): boolean {
+    return this.renderers.delete(type);
+  }
+
+  /**
+   * Checks if a component type has a renderer
+   *
+   * @param type - Component type
+   * @returns True if registered
+   */
+  public has(type: ComponentType | string): boolean {
+    return this.renderers.has(type);
+  }
+
+  /**
+   * Gets the renderer of a component type
+   *
+   * @param type - Component type
+   * @returns Renderer or undefined if not registered
+   */
+  public get(type: ComponentType | string): ComponentRenderer | undefined {
+    return this.renderers.get(type);
+  }
+
+  /**
+   * Gets all component types with a registered renderer
+   *
+   * @returns Array of component types
+   */
+  public getTypes(): string[] {
+    return Array.from(this.renderers.keys());
+  }
+
+  /**
+   * Renders a component
+   *
+   * Unknown component types render as an HTML comment so the rest of the
+   * template still exports.
+   *
+   * @param component - Component to render
+   * @param context - Render context
+   * @returns Component HTML
+   */
+  public render(component: BaseComponent, context: ComponentRenderContext = {}): string {
+    const renderer = this.renderers.get(component.type);
+
+    if (!renderer) {
+      return `<!-- ${escapeHTML(String(component.type))} component -->`;
+    }
+
+    // Loosely typed (imported or hand-written) components may omit styles or content
+    return renderer(
+      { ...component, content: component.content ?? {}, styles: component.styles ?? {} },
+      { renderChild: (child) => this.render(child, context), ...context }
+    );
+  }
+
+  /**
+   * Creates a copy of this registry
+   *
+   * @returns New registry with the same renderers
+   */
+  public clone(): ComponentRendererRegistry {
+    const copy = new ComponentRendererRegistry();
+    this.renderers.forEach((renderer, type) => copy.register(type, renderer));
+    return copy;
+  }
+}
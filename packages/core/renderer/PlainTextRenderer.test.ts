@@ -0,0 +1,178 @@
+/**
+ * Plain-Text Renderer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PlainTextRenderer } from './PlainTextRenderer';
+import { htmlToPlainText } from './plain-text';
+import { ComponentRendererRegistry } from './ComponentRendererRegistry';
+import type { BaseComponent } from '../types/component.types';
+import type { ComponentTreeNode } from '../types/template.types';
+
+const node = (component: Partial<BaseComponent>, children: ComponentTreeNode[] = []): ComponentTreeNode =>
+  ({
+    component: { id: component.type, styles: {}, content: {}, ...component },
+    children,
+    depth: 0,
+    order: 0,
+  }) as unknown as ComponentTreeNode;
+
+describe('htmlToPlainText', () => {
+  it('should underline headings', () => {
+    expect(htmlToPlainText('<h1>Welcome</h1><h2>News</h2>')).toBe('Welcome\n=======\n\nNews\n----');
+  });
+
+  it('should separate paragraphs and keep line breaks', () => {
+    expect(htmlToPlainText('<p>One<br>Two</p><p>Three &amp; four</p>')).toBe('One\nTwo\n\nThree & four');
+  });
+
+  it('should write list items as bullets', () => {
+    expect(htmlToPlainText('<ul><li>First</li><li>Second<ol><li>Nested</li></ol></li></ul>')).toBe(
+      '* First\n\n* Second\n\n  1. Nested'
+    );
+  });
+
+  it('should write button links as label and URL', () => {
+    const html =
+      '<p>Read <a href="https://example.com/blog">our blog</a>.</p>' +
+      '<a href="https://example.com/buy" style="display: inline-block; padding: 12px 24px">Buy now</a>';
+
+    expect(htmlToPlainText(html)).toBe(
+      'Read our blog (https://example.com/blog).\n\nBuy now: https://example.com/buy'
+    );
+  });
+
+  it('should write footer links reference-style', () => {
+    const html =
+      '<footer><p><a href="https://example.com/unsubscribe">Unsubscribe</a> or ' +
+      '<a href="https://example.com/prefs">manage preferences</a></p></footer>';
+
+    expect(htmlToPlainText(html)).toBe(
+      'Unsubscribe [1] or manage preferences [2]\n\n' +
+        '[1] https://example.com/unsubscribe\n[2] https://example.com/prefs'
+    );
+  });
+
+  it('should wrap long lines at the configured width', () => {
+    const text = htmlToPlainText('<p>The quick brown fox jumps over the lazy dog</p>', { wrapWidth: 20 });
+
+    expect(text).toBe('The quick brown fox\njumps over the lazy\ndog');
+  });
+
+  it('should not wrap when the width is 0', () => {
+    const words = 'word '.repeat(40).trim();
+
+    expect(htmlToPlainText(`<p>${words}</p>`, { wrapWidth: 0 })).toBe(words);
+  });
+
+  it('should skip head, styles and comments', () => {
+    const html =
+      '<html><head><title>Title</title><style>p { color: red; }</style></head>' +
+      '<body><!-- comment --><p>Body</p></body></html>';
+
+    expect(htmlToPlainText(html)).toBe('Body');
+  });
+});
+
+describe('PlainTextRenderer', () => {
+  const renderer = new PlainTextRenderer();
+
+  it('should render text headings and paragraphs', () => {
+    const text = renderer.render([
+      node({ type: 'text', content: { type: 'heading-1', html: '<p>Summer sale</p>' } }),
+      node({ type: 'text', content: { type: 'paragraph', html: '<p>Everything must go.</p>' } }),
+    ]);
+
+    expect(text).toBe('Summer sale\n===========\n\nEverything must go.');
+  });
+
+  it('should render buttons and calls to action as label and URL', () => {
+    const text = renderer.render([
+      node({ type: 'button', content: { text: 'Shop', link: { href: 'https://shop.example.com' } } }),
+      node({
+        type: 'cta',
+        content: {
+          heading: { html: 'Join us' },
+          primaryButton: { text: 'Sign up', link: { href: 'https://example.com/signup' } },
+          secondaryButton: { text: 'Learn more', link: { href: 'https://example.com/about' } },
+          showSecondaryButton: true,
+        },
+      }),
+    ]);
+
+    expect(text).toBe(
+      'Shop: https://shop.example.com\n\n' +
+        'Join us\n-------\n\n' +
+        'Sign up: https://example.com/signup\n\n' +
+        'Learn more: https://example.com/about'
+    );
+  });
+
+  it('should render list items as bullets', () => {
+    const text = renderer.render([
+      node({
+        type: 'list',
+        content: {
+          items: [
+            { id: '2', order: 2, title: { html: 'Second' } },
+            { id: '1', order: 1, title: { html: '<b>First</b>' }, description: { html: 'Details' } },
+          ],
+        },
+      }),
+    ]);
+
+    expect(text).toBe('* First - Details\n\n* Second');
+  });
+
+  it('should collect footer links into a reference list', () => {
+    const text = renderer.render([
+      node({
+        type: 'footer',
+        content: {
+          showSocialLinks: true,
+          socialLinks: [
+            { id: 'tw', platform: 'twitter', url: 'https://twitter.com/acme', icon: '', order: 2 },
+            { id: 'fb', platform: 'facebook', url: 'https://facebook.com/acme', icon: '', order: 1 },
+          ],
+          textSections: [
+            { id: 's1', order: 1, html: '<a href="https://acme.com/unsubscribe">Unsubscribe</a>' },
+          ],
+          copyrightText: '© Acme',
+        },
+      }),
+    ]);
+
+    expect(text).toBe(
+      'Facebook [1] | Twitter [2]\n\nUnsubscribe [3]\n\n© Acme\n\n' +
+        '[1] https://facebook.com/acme\n[2] https://twitter.com/acme\n[3] https://acme.com/unsubscribe'
+    );
+  });
+
+  it('should render children after their parent', () => {
+    const text = renderer.render([
+      node({ type: 'hero', content: { heading: { html: 'Hello' } } }, [
+        node({ type: 'text', content: { type: 'paragraph', html: 'Child' } }),
+      ]),
+    ]);
+
+    expect(text).toBe('Hello\n=====\n\nChild');
+  });
+
+  it('should fall back to the HTML renderer for custom components', () => {
+    const registry = new ComponentRendererRegistry();
+    registry.register('quote', (component) => `<blockquote>${String(component.content['text'])}</blockquote>`);
+
+    const text = new PlainTextRenderer(registry).render([
+      node({ type: 'quote', content: { text: 'Less is more' } }),
+    ]);
+
+    expect(text).toBe('Less is more');
+  });
+
+  it('should use registered plain-text renderers', () => {
+    const custom = new PlainTextRenderer();
+    custom.register('quote', (component, writer) => writer.paragraph(`"${String(component.content['text'])}"`));
+
+    expect(custom.render([node({ type: 'quote', content: { text: 'Hi' } })])).toBe('"Hi"');
+  });
+});
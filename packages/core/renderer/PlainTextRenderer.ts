@@ -0,0 +1,329 @@
+/**
+ * Plain-Text Renderer
+ *
+ * Renders the component tree as the text/plain alternative of an email
+ */
+
+import type {
+  ButtonComponent,
+  TextComponent,
+  ImageComponent,
+  HeaderComponent,
+  FooterComponent,
+  HeroComponent,
+  ListComponent,
+  CTAComponent,
+  ButtonContent,
+} from '../types';
+import type { BaseComponent, ComponentType } from '../types/component.types';
+import type { ComponentTreeNode } from '../types/template.types';
+import type { ComponentRenderContext } from './renderer.types';
+import type { ComponentRendererRegistry } from './ComponentRendererRegistry';
+import { PlainTextWriter, writeHTML, type PlainTextOptions } from './plain-text';
+import { renderDisplayRuleTags } from '../template/display-rules';
+import {
+  bindRepeatPlaceholders,
+  createRepeatEmptyState,
+  renderRepeatLoopTags,
+} from '../template/repeat-bindings';
+
+/**
+ * Plain-text component renderer
+ *
+ * Writes the text of a component to the writer. Children are rendered by the
+ * caller after the component.
+ *
+ * @template TComponent - Component type handled by the renderer
+ */
+export type PlainTextComponentRenderer<TComponent extends BaseComponent = BaseComponent> = (
+  component: TComponent,
+  writer: PlainTextWriter,
+  context: ComponentRenderContext
+) => void;
+
+type RichText = { html: string; plainText?: string } | undefined;
+
+/**
+ * Writes a rich-text field, converting its HTML
+ */
+function writeRichText(writer: PlainTextWriter, field: RichText): void {
+  if (field?.html) {
+    writeHTML(writer, field.html);
+  } else if (field?.plainText) {
+    writer.paragraph(field.plainText);
+  }
+}
+
+/**
+ * Writes a rich-text field as a heading
+ */
+function writeRichHeading(writer: PlainTextWriter, field: RichText, level: number): void {
+  const text = field?.plainText || (field?.html ? htmlText(field.html) : '');
+  writer.heading(text, level);
+}
+
+/**
+ * Gets the text of an HTML fragment on a single line
+ */
+function htmlText(html: string): string {
+  const writer = new PlainTextWriter({ wrapWidth: 0 });
+  writeHTML(writer, html);
+  return writer.toString().replace(/\s+/g, ' ').trim();
+}
+
+function writeButton(writer: PlainTextWriter, button: ButtonContent | undefined): void {
+  if (button?.text) {
+    writer.link(button.text, button.link?.href);
+  }
+}
+
+const renderButtonText: PlainTextComponentRenderer<ButtonComponent> = (component, writer) => {
+  writeButton(writer, component.content);
+};
+
+const renderTextText: PlainTextComponentRenderer<TextComponent> = (component, writer) => {
+  const { content } = component;
+  const heading = /^heading-([1-6])$/.exec(content.type ?? '');
+
+  if (heading) {
+    writeRichHeading(writer, content, Number(heading[1]));
+  } else {
+    writeRichText(writer, content);
+  }
+};
+
+const renderImageText: PlainTextComponentRenderer<ImageComponent> = (component, writer) => {
+  const { content } = component;
+
+  // Only linked images carry information worth keeping
+  if (content.link?.href && content.alt) {
+    writer.link(content.alt, content.link.href);
+  }
+};
+
+const renderHeaderText: PlainTextComponentRenderer<HeaderComponent> = (component, writer) => {
+  const { content } = component;
+
+  if (content.showNavigation) {
+    [...(content.navigationLinks ?? [])]
+      .sort((a, b) => a.order - b.order)
+      .forEach((link) => writer.link(link.text, link.link?.href));
+  }
+};
+
+const renderFooterText: PlainTextComponentRenderer<FooterComponent> = (component, writer) => {
+  const { content } = component;
+
+  if (content.showSocialLinks && content.socialLinks?.length > 0) {
+    writer.paragraph(
+      [...content.socialLinks]
+        .sort((a, b) => a.order - b.order)
+        .map((social) => writer.reference(social.label || capitalize(social.platform), social.url))
+        .join(' | ')
+    );
+  }
+
+  [...(content.textSections ?? [])]
+    .sort((a, b) => a.order - b.order)
+    .forEach((section) => {
+      if (section.html) {
+        writeHTML(writer, section.html, { footer: true });
+      } else if (section.plainText) {
+        writer.paragraph(section.plainText);
+      }
+    });
+
+  if (content.copyrightText) {
+    writer.paragraph(content.copyrightText);
+  }
+};
+
+const renderHeroText: PlainTextComponentRenderer<HeroComponent> = (component, writer) => {
+  const { content } = component;
+  const extraButtons = content['buttons'];
+
+  writeRichHeading(writer, content.heading, 1);
+  writeRichText(writer, content.description);
+
+  if (Array.isArray(extraButtons)) {
+    extraButtons.forEach((button) => writeButton(writer, button as ButtonContent));
+  } else if (content.showButton) {
+    writeButton(writer, content.button);
+  }
+};
+
+const renderListText: PlainTextComponentRenderer<ListComponent> = (component, writer) => {
+  [...(component.content.items ?? [])]
+    .sort((a, b) => a.order - b.order)
+    .forEach((item) => {
+      const title = item.title?.plainText || (item.title?.html ? htmlText(item.title.html) : '');
+      const description =
+        item.description?.plainText || (item.description?.html ? htmlText(item.description.html) : '');
+
+      writer.bullet([title, description].filter(Boolean).join(' - '));
+
+      if (item.showButton && item.button?.text) {
+        writer.link(item.button.text, item.button.link?.href);
+      }
+    });
+};
+
+const renderCTAText: PlainTextComponentRenderer<CTAComponent> = (component, writer) => {
+  const { content } = component;
+
+  writeRichHeading(writer, content.heading, 2);
+  if (content.showDescription !== false) {
+    writeRichText(writer, content.description);
+  }
+  writeButton(writer, content.primaryButton);
+  if (content.showSecondaryButton) {
+    writeButton(writer, content.secondaryButton);
+  }
+};
+
+const renderSeparatorText: PlainTextComponentRenderer = (_component, writer) => {
+  writer.rule();
+};
+
+const renderNothing: PlainTextComponentRenderer = () => undefined;
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Plain-Text Renderer
+ *
+ * Walks the component tree and writes each component with its plain-text
+ * renderer:
+ *
+ * - headings become underlined lines
+ * - buttons, calls to action and navigation links become `Label: URL`
+ * - list items become bullets
+ * - footer links are collected into a reference-style list at the end
+ *
+ * Component types without a plain-text renderer fall back to converting the
+ * HTML of their {@link ComponentRendererRegistry} renderer, so custom
+ * components get a text part without extra work.
+ *
+ * @example
+ * ```ts
+ * const text = new PlainTextRenderer(renderers).render(tree, { template }, { wrapWidth: 72 });
+ * ```
+ */
+export class PlainTextRenderer {
+  private renderers: Map<string, PlainTextComponentRenderer> = new Map();
+  private htmlRenderers: ComponentRendererRegistry | undefined;
+
+  /**
+   * @param htmlRenderers - HTML renderers used for types without a plain-text renderer
+   */
+  constructor(htmlRenderers?: ComponentRendererRegistry) {
+    this.htmlRenderers = htmlRenderers;
+
+    this.register('button', renderButtonText);
+    this.register('text', renderTextText);
+    this.register('image', renderImageText);
+    this.register('separator', renderSeparatorText);
+    this.register('spacer', renderNothing);
+    this.register('header', renderHeaderText);
+    this.register('footer', renderFooterText);
+    this.register('hero', renderHeroText);
+    this.register('list', renderListText);
+    this.register('cta', renderCTAText);
+    this.register('row', renderNothing);
+    this.register('column', renderNothing);
+    this.register('global-block', renderNothing);
+  }
+
+  /**
+   * Registers a plain-text renderer for a component type
+   *
+   * @param type - Component type
+   * @param renderer - Renderer function
+   */
+  register<TComponent extends BaseComponent>(
+    type: ComponentType | string,
+    renderer: PlainTextComponentRenderer<TComponent>
+  ): void {
+    this.renderers.set(type, renderer as unknown as PlainTextComponentRenderer);
+  }
+
+  /**
+   * Renders a component tree as plain text
+   *
+   * @param tree - Component tree
+   * @param context - Render context
+   * @param options - Plain-text options
+   * @returns Plain text
+   */
+  render(
+    tree: ComponentTreeNode[],
+    context: ComponentRenderContext = {},
+    options: PlainTextOptions = {}
+  ): string {
+    const writer = new PlainTextWriter(options);
+    const { displayRuleSyntax, repeatLoops } = options;
+    const writeComponent = (component: BaseComponent, visitTreeChildren?: () => void) => {
+      this.renderComponent(component, writer, context);
+      component.children?.forEach((child) => visitComponent(child));
+      visitTreeChildren?.();
+    };
+    // Containers such as rows hold their children on the component itself
+    const visitComponent = (component: BaseComponent, visitTreeChildren?: () => void) => {
+      const tags =
+        displayRuleSyntax && component.displayRule
+          ? renderDisplayRuleTags(component.displayRule, displayRuleSyntax)
+          : undefined;
+
+      if (tags) {
+        writer.raw(tags.open);
+      }
+      if (repeatLoops && component.repeat) {
+        const loop = renderRepeatLoopTags(component.repeat);
+        const empty = createRepeatEmptyState(component);
+        writer.raw(loop.open);
+        writeComponent(bindRepeatPlaceholders(component), visitTreeChildren);
+        if (empty) {
+          writer.raw(loop.else);
+          writeComponent(empty);
+        }
+        writer.raw(loop.close);
+      } else {
+        writeComponent(component, visitTreeChildren);
+      }
+      if (tags) {
+        writer.raw(tags.close);
+      }
+    };
+    const visit = (node: ComponentTreeNode) => {
+      visitComponent(node.component, () => node.children.forEach(visit));
+    };
+
+    tree.forEach(visit);
+
+    return writer.toString();
+  }
+
+  /**
+   * Writes a single component, without its children
+   */
+  private renderComponent(
+    component: BaseComponent,
+    writer: PlainTextWriter,
+    context: ComponentRenderContext
+  ): void {
+    const normalized: BaseComponent = {
+      ...component,
+      content: component.content ?? {},
+      styles: component.styles ?? {},
+    };
+    const renderer = this.renderers.get(component.type);
+
+    if (renderer) {
+      renderer(normalized, writer, context);
+    } else if (this.htmlRenderers?.has(component.type)) {
+      writeHTML(writer, this.htmlRenderers.render(normalized, context));
+    }
+  }
+}
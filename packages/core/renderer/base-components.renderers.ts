@@ -0,0 +1,144 @@
+/**
+ * Base component renderers
+ *
+ * Email-safe HTML renderers for the base components
+ * (Button, Text, Image, Separator, Spacer, HTML)
+ */
+
+import type {
+  ButtonComponent,
+  TextComponent,
+  ImageComponent,
+  SeparatorComponent,
+  SpacerComponent,
+  HTMLComponent,
+} from '../types';
+import type { ComponentRenderer } from './renderer.types';
+import {
+  DEFAULT_FONT_FAMILY,
+  borderRadiusToCSS,
+  borderToCSS,
+  boxStyles,
+  closeTable,
+  cssValue,
+  escapeHTML,
+  openTable,
+  pixelValue,
+  renderButton,
+  renderImage,
+  spacingToCSS,
+  styleAttribute,
+  typographyStyles,
+} from './utils';
+
+/**
+ * Renders a Button component
+ */
+export const renderButtonComponent: ComponentRenderer<ButtonComponent> = (component) => {
+  const { content, styles } = component;
+  const align = styles.horizontalAlign === 'justify' ? 'center' : styles.horizontalAlign ?? 'center';
+
+  const button = renderButton(content, {
+    variant: styles.variant ?? 'filled',
+    accentColor: styles.backgroundColor ?? '#007bff',
+    color: styles.color,
+    borderRadius: borderRadiusToCSS(styles.border?.radius) ?? '4px',
+    padding: hasPadding(styles.padding) ? spacingToCSS(styles.padding) : '12px 24px',
+    border: styles.variant === 'outlined' ? undefined : borderToCSS(styles.border),
+    typography: typographyStyles(styles, {
+      'font-family': DEFAULT_FONT_FAMILY,
+      'font-size': '16px',
+      'font-weight': 500,
+    }),
+    vmlFallback: styles.vmlFallback,
+  });
+
+  return `${openTable({}, align)}${button}${closeTable()}`;
+};
+
+/**
+ * Renders a Text component
+ */
+export const renderTextComponent: ComponentRenderer<TextComponent> = (component) => {
+  const { content, styles } = component;
+  const html = content.html || escapeHTML(content.plainText ?? '');
+
+  return `${openTable({
+    ...boxStyles(styles),
+    ...typographyStyles(styles, {
+      'font-family': DEFAULT_FONT_FAMILY,
+      color: '#333333',
+      'line-height': '1.5',
+      'text-align': 'left',
+    }),
+  })}${html}${closeTable()}`;
+};
+
+/**
+ * Renders an Image component
+ */
+export const renderImageComponent: ComponentRenderer<ImageComponent> = (component) => {
+  const { content, styles } = component;
+  const align = styles.horizontalAlign === 'justify' ? 'center' : styles.horizontalAlign;
+
+  const image = renderImage(
+    content,
+    {
+      width: cssValue(styles.width) ?? '100%',
+      height: cssValue(styles.height) ?? 'auto',
+      'object-fit': styles.objectFit,
+      display: styles.display ?? 'block',
+      margin: align === 'center' ? '0 auto' : undefined,
+    },
+    pixelValue(styles.width)
+  );
+
+  return `${openTable(boxStyles(styles), align)}${image}${closeTable()}`;
+};
+
+/**
+ * Renders a Separator component
+ *
+ * The line is drawn from the separator content (thickness, style, color)
+ */
+export const renderSeparatorComponent: ComponentRenderer<SeparatorComponent> = (component) => {
+  const { content } = component;
+  const line = `${cssValue(content.thickness) ?? '1px'} ${content.style || 'solid'} ${content.color || '#e0e0e0'}`;
+
+  if (content.orientation === 'vertical') {
+    return `${openTable({}, 'center')}<div${styleAttribute({ 'border-left': line, height: '50px', width: '0' })}></div>${closeTable()}`;
+  }
+
+  return `${openTable({ 'border-top': line, 'font-size': '0', 'line-height': '0' })}&nbsp;${closeTable()}`;
+};
+
+/**
+ * Renders a Spacer component
+ */
+export const renderSpacerComponent: ComponentRenderer<SpacerComponent> = (component) => {
+  const height = cssValue(component.content.height) ?? '20px';
+
+  return `${openTable({ height, 'font-size': '0', 'line-height': height })}&nbsp;${closeTable()}`;
+};
+
+/**
+ * Renders an HTML block
+ *
+ * The markup is written as is inside a cell carrying the box styles
+ */
+export const renderHTMLComponent: ComponentRenderer<HTMLComponent> = (component) => {
+  return `${openTable(boxStyles(component.styles))}${component.content.html ?? ''}${closeTable()}`;
+};
+
+/**
+ * Checks whether a spacing configuration has any non-zero side
+ */
+function hasPadding(padding: ButtonComponent['styles']['padding']): boolean {
+  if (!padding) {
+    return false;
+  }
+
+  return [padding.top, padding.right, padding.bottom, padding.left].some(
+    (side) => side.value !== 0
+  );
+}
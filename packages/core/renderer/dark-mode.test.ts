@@ -0,0 +1,94 @@
+/**
+ * Dark Mode Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createDarkModePalette,
+  hasDarkMode,
+  renderDarkModeCSS,
+  applyDarkModeStyles,
+} from './dark-mode';
+import { createEmptyEmailTemplate } from '../template/TemplateComposer';
+import { createButton, createImage, createSeparator, createText } from '../components/factories';
+import { defaultThemes } from '../theme/default-themes';
+
+describe('createDarkModePalette', () => {
+  it('should derive the palette from the theme neutrals and primary color', () => {
+    const { colors } = defaultThemes[0]!;
+
+    expect(createDarkModePalette(colors)).toEqual({
+      background: colors.neutral[900],
+      surface: colors.neutral[800],
+      text: colors.neutral[100],
+      link: colors.primary[300],
+      border: colors.neutral[700],
+    });
+  });
+});
+
+describe('renderDarkModeCSS', () => {
+  it('should render nothing for templates without dark mode', () => {
+    const template = createEmptyEmailTemplate('Light');
+    template.components = [createText()];
+
+    expect(hasDarkMode(template)).toBe(false);
+    expect(renderDarkModeCSS(template)).toBe('');
+  });
+
+  it('should render palette rules for media queries and Outlook.com', () => {
+    const template = createEmptyEmailTemplate('Dark');
+    template.generalStyles.darkPalette = { surface: '#1f2937', text: '#f3f4f6' };
+
+    expect(renderDarkModeCSS(template)).toBe(
+      [
+        ':root {',
+        '  color-scheme: light dark;',
+        '  supported-color-schemes: light dark;',
+        '}',
+        '@media (prefers-color-scheme: dark) {',
+        '  .email-canvas { background-color: #1f2937 !important; }',
+        '  .component-text *, .component-list * { color: #f3f4f6 !important; }',
+        '}',
+        '[data-ogsb] .email-canvas { background-color: #1f2937 !important; }',
+        '[data-ogsc] .component-text *, [data-ogsc] .component-list * { color: #f3f4f6 !important; }',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should scope component overrides after the palette rules', () => {
+    const template = createEmptyEmailTemplate('Dark');
+    const button = createButton({ id: 'button-1' });
+    button.darkStyles = { backgroundColor: '#90caf9', color: '#0d1117' };
+    template.generalStyles.darkPalette = { text: '#f3f4f6' };
+    template.components = [button];
+
+    const css = renderDarkModeCSS(template, '  ');
+
+    expect(css).toContain(
+      '    [data-component-id="button-1"] [style*="background"], [data-component-id="button-1"] [bgcolor] { background-color: #90caf9 !important; }'
+    );
+    expect(css).toContain('  [data-ogsc] [data-component-id="button-1"] * { color: #0d1117 !important; }');
+    expect(css.indexOf('[data-component-id="button-1"] *')).toBeGreaterThan(css.indexOf('.component-text *'));
+  });
+});
+
+describe('applyDarkModeStyles', () => {
+  it('should apply component overrides and palette fallbacks', () => {
+    const text = createText();
+    const separator = createSeparator();
+    const image = createImage();
+    image.darkStyles = { imageSrc: 'https://cdn.example.com/logo-dark.png', backgroundColor: '#000000' };
+    const palette = { text: '#eeeeee', link: '#90caf9', border: '#444444' };
+
+    expect(applyDarkModeStyles(text, palette).styles).toMatchObject({
+      color: '#eeeeee',
+      linkStyles: { color: '#90caf9' },
+    });
+    expect(applyDarkModeStyles(separator, palette).content.color).toBe('#444444');
+    expect(applyDarkModeStyles(image, palette).content.src).toBe('https://cdn.example.com/logo-dark.png');
+    expect(applyDarkModeStyles(image, palette).styles.backgroundColor).toBe('#000000');
+    expect(image.content.src).not.toBe('https://cdn.example.com/logo-dark.png');
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Dark Mode
+ *
+ * Color scheme meta tags, `prefers-color-scheme` media queries and Outlook.com
+ * `[data-ogsc]`/`[data-ogsb]` rules generated from the dark mode overrides of
+ * a template
+ */
+
+import type { BaseComponent } from '../types/component.types';
+import type { DarkModePalette, Template } from '../types/template.types';
+import type { ColorPalette } from '../types/theme.types';
+import { flattenComponents } from '../template/component-tree';
+
+/**
+ * Meta tags declaring that the email supports light and dark color schemes
+ */
+export const COLOR_SCHEME_META_TAGS = [
+  '<meta name="color-scheme" content="light dark">',
+  '<meta name="supported-color-schemes" content="light dark">',
+];
+
+/**
+ * Component types whose text follows the palette text and link colors
+ */
+const PALETTE_TEXT_TYPES = ['text', 'list'];
+
+/**
+ * CSS rule with the attribute Outlook.com sets on elements it recolors
+ */
+interface DarkModeRule {
+  selectors: string[];
+  declarations: Record<string, string>;
+  outlookAttribute: 'data-ogsc' | 'data-ogsb';
+}
+
+/**
+ * Derives a dark mode palette from theme colors
+ *
+ * @param colors - Theme color palette
+ * @returns Dark mode palette
+ */
+export function createDarkModePalette(colors: ColorPalette): DarkModePalette {
+  return {
+    background: colors.neutral[900],
+    surface: colors.neutral[800],
+    text: colors.neutral[100],
+    link: colors.primary[300],
+    border: colors.neutral[700],
+  };
+}
+
+/**
+ * Checks whether a template has a dark palette or components with dark mode overrides
+ */
+export function hasDarkMode(template: Template): boolean {
+  return !!template.generalStyles?.darkPalette || flattenComponents(template.components).some((component) => component.darkStyles);
+}
+
+/**
+ * Renders the dark mode style sheet of a template
+ *
+ * Dark colors are declared `!important` so they win over the inline styles of
+ * the rendered markup.
+ *
+ * @param template - Template to render
+ * @param indent - Prefix of every line
+ * @returns Style sheet, or an empty string when the template has no dark mode
+ */
+export function renderDarkModeCSS(template: Template, indent = ''): string {
+  if (!hasDarkMode(template)) {
+    return '';
+  }
+
+  const rules = [
+    ...paletteRules(template.generalStyles?.darkPalette ?? {}),
+    ...flattenComponents(template.components).flatMap(componentRules),
+  ];
+
+  const lines = [':root {', '  color-scheme: light dark;', '  supported-color-schemes: light dark;', '}'];
+
+  if (rules.length > 0) {
+    lines.push('@media (prefers-color-scheme: dark) {');
+    rules.forEach((rule) => lines.push(`  ${formatRule(rule.selectors, rule.declarations)}`));
+    lines.push('}');
+    rules.forEach((rule) =>
+      lines.push(
+        formatRule(
+          rule.selectors.map((selector) => `[${rule.outlookAttribute}] ${selector}`),
+          rule.declarations
+        )
+      )
+    );
+  }
+
+  return lines.map((line) => `${indent}${line}\n`).join('');
+}
+
+/**
+ * Wraps the light and dark renderings of an image component so that the
+ * dark one is only displayed in dark mode
+ *
+ * @param light - Markup with the light image
+ * @param dark - Markup with the dark image
+ * @returns Markup with both images
+ */
+export function renderDarkModeImage(light: string, dark: string): string {
+  return (
+    `<div class="light-image">${light}</div>` +
+    `<div class="dark-image" style="display: none; mso-hide: all; max-height: 0; overflow: hidden;">${dark}</div>`
+  );
+}
+
+/**
+ * Applies the dark mode overrides of a component to its styles and content,
+ * to preview it in dark mode
+ *
+ * @param component - Component to preview
+ * @param palette - Template dark palette
+ * @returns Copy of the component with dark colors
+ */
+export function applyDarkModeStyles<T extends BaseComponent>(component: T, palette: DarkModePalette = {}): T {
+  const dark = component.darkStyles ?? {};
+  const isPaletteText = PALETTE_TEXT_TYPES.includes(component.type);
+  const color = dark.color ?? (isPaletteText ? palette.text : undefined);
+  const linkColor = dark.linkColor ?? (isPaletteText ? palette.link : undefined);
+  const borderColor = dark.borderColor ?? (component.type === 'separator' ? palette.border : undefined);
+  const styles = { ...component.styles };
+  const content = { ...(component.content as Record<string, unknown>) };
+
+  if (dark.backgroundColor) {
+    styles.backgroundColor = dark.backgroundColor;
+  }
+  if (color) {
+    styles.color = color;
+  }
+  if (linkColor) {
+    styles.linkStyles = { ...styles.linkStyles, color: linkColor };
+  }
+  if (borderColor && styles.border) {
+    styles.border = { ...styles.border, color: borderColor };
+  }
+  if (borderColor && component.type === 'separator') {
+    content['color'] = borderColor;
+  }
+  if (dark.imageSrc && typeof content['src'] === 'string') {
+    content['src'] = dark.imageSrc;
+  }
+
+  return { ...component, styles, content };
+}
+
+function paletteRules(palette: DarkModePalette): DarkModeRule[] {
+  const rules: DarkModeRule[] = [];
+  const textSelectors = PALETTE_TEXT_TYPES.map((type) => `.component-${type}`);
+
+  if (palette.background) {
+    rules.push(backgroundRule(['body'], palette.background));
+  }
+  if (palette.surface) {
+    rules.push(backgroundRule(['.email-canvas'], palette.surface));
+  }
+  if (palette.text) {
+    rules.push(colorRule(textSelectors.map((selector) => `${selector} *`), palette.text));
+  }
+  if (palette.link) {
+    rules.push(colorRule(textSelectors.map((selector) => `${selector} a`), palette.link));
+  }
+  if (palette.border) {
+    rules.push(borderRule(['.component-separator [style*="border"]'], palette.border));
+  }
+
+  return rules;
+}
+
+function componentRules(component: BaseComponent): DarkModeRule[] {
+  const dark = component.darkStyles;
+  if (!dark) {
+    return [];
+  }
+
+  const scope = `[data-component-id="${component.id}"]`;
+  const rules: DarkModeRule[] = [];
+
+  if (dark.backgroundColor) {
+    rules.push(backgroundRule([`${scope} [style*="background"]`, `${scope} [bgcolor]`], dark.backgroundColor));
+  }
+  if (dark.color) {
+    rules.push(colorRule([`${scope} *`], dark.color));
+  }
+  if (dark.linkColor) {
+    rules.push(colorRule([`${scope} a`], dark.linkColor));
+  }
+  if (dark.borderColor) {
+    rules.push(borderRule([`${scope} [style*="border"]`], dark.borderColor));
+  }
+  if (dark.imageSrc) {
+    rules.push(
+      {
+        selectors: [`${scope} .light-image`],
+        declarations: { display: 'none' },
+        outlookAttribute: 'data-ogsc',
+      },
+      {
+        selectors: [`${scope} .dark-image`],
+        declarations: { display: 'block', 'max-height': 'none', overflow: 'visible' },
+        outlookAttribute: 'data-ogsc',
+      }
+    );
+  }
+
+  return rules;
+}
+
+function backgroundRule(selectors: string[], color: string): DarkModeRule {
+  return { selectors, declarations: { 'background-color': color }, outlookAttribute: 'data-ogsb' };
+}
+
+function colorRule(selectors: string[], color: string): DarkModeRule {
+  return { selectors, declarations: { color }, outlookAttribute: 'data-ogsc' };
+}
+
+function borderRule(selectors: string[], color: string): DarkModeRule {
+  return { selectors, declarations: { 'border-color': color }, outlookAttribute: 'data-ogsc' };
+}
+
+function formatRule(selectors: string[], declarations: Record<string, string>): string {
+  const body = Object.entries(declarations)
+    .map(([property, value]) => `${property}: ${value} !important;`)
+    .join(' ');
+  return `${selectors.join(', ')} { ${body} }`;
+}
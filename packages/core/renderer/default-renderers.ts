@@ -0,0 +1,61 @@
+/**
+ * Default renderers
+ *
+ * Registers one renderer per built-in component type
+ */
+
+import { ComponentType } from '../types/component.types';
+import { ComponentRendererRegistry } from './ComponentRendererRegistry';
+import {
+  renderButtonComponent,
+  renderTextComponent,
+  renderImageComponent,
+  renderSeparatorComponent,
+  renderSpacerComponent,
+  renderHTMLComponent,
+} from './base-components.renderers';
+import {
+  renderHeaderComponent,
+  renderFooterComponent,
+  renderHeroComponent,
+  renderListComponent,
+  renderCTAComponent,
+} from './email-components.renderers';
+import {
+  renderRowComponent,
+  renderColumnComponent,
+} from './layout-components.renderers';
+import { renderGlobalBlockComponent } from './global-block.renderers';
+
+/**
+ * Registers the built-in renderers on a registry
+ *
+ * @param registry - Registry to populate
+ */
+export function registerDefaultRenderers(registry: ComponentRendererRegistry): void {
+  registry.register(ComponentType.BUTTON, renderButtonComponent);
+  registry.register(ComponentType.TEXT, renderTextComponent);
+  registry.register(ComponentType.IMAGE, renderImageComponent);
+  registry.register(ComponentType.SEPARATOR, renderSeparatorComponent);
+  registry.register(ComponentType.SPACER, renderSpacerComponent);
+  registry.register(ComponentType.HTML, renderHTMLComponent);
+  registry.register(ComponentType.HEADER, renderHeaderComponent);
+  registry.register(ComponentType.FOOTER, renderFooterComponent);
+  registry.register(ComponentType.HERO, renderHeroComponent);
+  registry.register(ComponentType.LIST, renderListComponent);
+  registry.register(ComponentType.CALL_TO_ACTION, renderCTAComponent);
+  registry.register(ComponentType.ROW, renderRowComponent);
+  registry.register(ComponentType.COLUMN, renderColumnComponent);
+  registry.register(ComponentType.GLOBAL_BLOCK, renderGlobalBlockComponent);
+}
+
+/**
+ * Creates a renderer registry with all built-in renderers registered
+ *
+ * @returns Populated registry
+ */
+export function createDefaultRendererRegistry(): ComponentRendererRegistry {
+  const registry = new ComponentRendererRegistry();
+  registerDefaultRenderers(registry);
+  return registry;
+}
@@ -0,0 +1,559 @@
+/**
+ * Email component renderers
+ *
+ * Email-safe HTML renderers for the email components
+ * (Header, Footer, Hero, List, CTA)
+ */
+
+import type {
+  HeaderComponent,
+  FooterComponent,
+  HeroComponent,
+  ListComponent,
+  ListItem,
+  CTAComponent,
+  ButtonContent,
+  SocialLink,
+} from '../types';
+import type { ComponentRenderer } from './renderer.types';
+import {
+  DEFAULT_FONT_FAMILY,
+  boxStyles,
+  closeTable,
+  cssValue,
+  escapeHTML,
+  linkAttributes,
+  openTable,
+  pixelValue,
+  renderButton,
+  renderImage,
+  styleAttribute,
+  typographyStyles,
+} from './utils';
+import type { ButtonRenderOptions, StyleDeclarations } from './utils';
+
+/**
+ * Renders a row of cells side by side, separated by a gap
+ *
+ * @param cells - Cell HTML
+ * @param gap - Gap between cells (CSS)
+ * @param align - Table alignment
+ * @returns Table HTML
+ */
+function renderInlineRow(cells: string[], gap: string, align?: string): string {
+  if (cells.length === 0) {
+    return '';
+  }
+
+  const alignAttr = align ? ` align="${align}"` : '';
+  const tds = cells
+    .map((cell, index) => `<td${styleAttribute({ 'padding-left': index > 0 ? gap : undefined })}>${cell}</td>`)
+    .join('');
+
+  return `<table role="presentation" border="0" cellpadding="0" cellspacing="0"${alignAttr}><tr>${tds}</tr></table>`;
+}
+
+/**
+ * Renders two cells side by side, used by the `image-left`/`image-right` layouts
+ *
+ * @param left - Left cell HTML
+ * @param right - Right cell HTML
+ * @param gap - Gap between the cells (CSS)
+ * @param leftWidth - Width of the left cell (percentage)
+ * @returns Table HTML
+ */
+function renderColumns(left: string, right: string, gap: string, leftWidth = 50): string {
+  return (
+    '<table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%"><tr>' +
+    `<td width="${leftWidth}%" valign="middle"${styleAttribute({ 'padding-right': gap })}>${left}</td>` +
+    `<td width="${100 - leftWidth}%" valign="middle">${right}</td>` +
+    '</tr></table>'
+  );
+}
+
+/**
+ * Renders a rich-text field (heading, description, title) inside a styled block
+ */
+function renderRichText(
+  field: { html: string; plainText?: string } | undefined,
+  declarations: StyleDeclarations
+): string {
+  if (!field) {
+    return '';
+  }
+
+  const html = field.html || escapeHTML(field.plainText ?? '');
+  return html ? `<div${styleAttribute(declarations)}>${html}</div>` : '';
+}
+
+/**
+ * Checks if a value looks like a button content object
+ */
+function isButtonContent(value: unknown): value is ButtonContent {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as ButtonContent).text === 'string' &&
+    typeof (value as ButtonContent).link === 'object'
+  );
+}
+
+/**
+ * Sorts items carrying an `order` field
+ */
+function byOrder<T extends { order: number }>(items: T[] | undefined): T[] {
+  return [...(items ?? [])].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Renders the buttons of a section as a single aligned row
+ */
+function renderButtonRow(
+  buttons: Array<{ button: ButtonContent; options: ButtonRenderOptions }>,
+  gap: string,
+  align: string
+): string {
+  return renderInlineRow(
+    buttons.map(({ button, options }) => renderButton(button, options)),
+    gap,
+    align
+  );
+}
+
+// ============================================================================
+// HEADER
+// ============================================================================
+
+/**
+ * Renders a Header component
+ *
+ * Supports the `image-left`, `image-right`, `image-top` and `logo-center` layouts
+ */
+export const renderHeaderComponent: ComponentRenderer<HeaderComponent> = (component) => {
+  const { content, styles } = component;
+  const layout = content.layout ?? 'image-left';
+
+  const logo = content.image?.src
+    ? renderImage(content.image, {
+        'max-width': cssValue(styles.imageMaxWidth) ?? '200px',
+        'max-height': cssValue(styles.imageMaxHeight) ?? '80px',
+        width: 'auto',
+      })
+    : '';
+
+  const linkStyles = typographyStyles(styles.linkStyles, {
+    'font-family': DEFAULT_FONT_FAMILY,
+    'font-size': '14px',
+    'font-weight': 400,
+    color: '#333333',
+  });
+  linkStyles['text-decoration'] = 'none';
+
+  const links = content.showNavigation
+    ? byOrder(content.navigationLinks).map(
+        (navLink) =>
+          `<a${linkAttributes(navLink.link)}${styleAttribute(linkStyles)}>${escapeHTML(navLink.text || 'Link')}</a>`
+      )
+    : [];
+
+  const gap = cssValue(styles.navigationGap) ?? '15px';
+  const container = { 'background-color': '#ffffff', padding: '20px', ...boxStyles(styles) };
+
+  if (layout === 'image-top' || layout === 'logo-center') {
+    const align = layout === 'logo-center' ? 'center' : 'left';
+    const logoRow = logo ? `<tr><td align="${align}">${logo}</td></tr>` : '';
+    const navRow =
+      links.length > 0
+        ? `<tr><td align="${align}" style="padding-top: 20px;">${renderInlineRow(links, gap, align)}</td></tr>`
+        : '';
+
+    return `${openTable(container)}<table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%">${logoRow}${navRow}</table>${closeTable()}`;
+  }
+
+  const logoCell = `<td align="${layout === 'image-right' ? 'right' : 'left'}" valign="middle">${logo}</td>`;
+  const navCell =
+    links.length > 0
+      ? `<td align="${layout === 'image-right' ? 'left' : 'right'}" valign="middle">${renderInlineRow(links, gap, layout === 'image-right' ? 'left' : 'right')}</td>`
+      : '';
+  const cells = layout === 'image-right' ? navCell + logoCell : logoCell + navCell;
+
+  return `${openTable(container)}<table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%"><tr>${cells}</tr></table>${closeTable()}`;
+};
+
+// ============================================================================
+// FOOTER
+// ============================================================================
+
+/**
+ * Checks if a social icon is an image URL (rather than an icon font class)
+ */
+function isImageIcon(icon: string): boolean {
+  return /^(https?:)?\/\//.test(icon) || icon.startsWith('data:image/');
+}
+
+/**
+ * Renders a single social link
+ */
+function renderSocialLink(social: SocialLink, styles: FooterComponent['styles']): string {
+  const size = cssValue(styles.socialIconSize) ?? '24px';
+  const label = social.label || social.platform;
+
+  const inner = social.icon && isImageIcon(social.icon)
+    ? renderImage(
+        { src: social.icon, alt: label },
+        { width: size, height: size },
+        pixelValue(styles.socialIconSize)
+      )
+    : escapeHTML(label);
+
+  return `<a${linkAttributes({ href: social.url || '#', target: '_blank' })} aria-label="${escapeHTML(label)}"${styleAttribute({
+    color: styles.socialIconColor ?? '#333333',
+    'font-family': DEFAULT_FONT_FAMILY,
+    'font-size': '14px',
+    'text-decoration': 'none',
+    display: 'inline-block',
+  })}>${inner}</a>`;
+}
+
+/**
+ * Renders a Footer component
+ *
+ * Renders social links, text sections and the copyright line
+ */
+export const renderFooterComponent: ComponentRenderer<FooterComponent> = (component) => {
+  const { content, styles } = component;
+
+  const textDeclarations = typographyStyles(styles.textStyles, {
+    'font-family': DEFAULT_FONT_FAMILY,
+    'font-size': '14px',
+    color: '#666666',
+    'line-height': '1.5',
+  });
+  const sectionGap = cssValue(styles.sectionGap) ?? '15px';
+
+  const rows: string[] = [];
+
+  if (content.showSocialLinks && content.socialLinks?.length > 0) {
+    const socialRow = renderInlineRow(
+      byOrder(content.socialLinks).map((social) => renderSocialLink(social, styles)),
+      cssValue(styles.socialIconGap) ?? '15px',
+      'center'
+    );
+    rows.push(`<tr><td align="center"${styleAttribute({ 'padding-bottom': sectionGap })}>${socialRow}</td></tr>`);
+  }
+
+  byOrder(content.textSections).forEach((section) => {
+    const html = section.html || escapeHTML(section.plainText ?? '');
+    if (html) {
+      rows.push(`<tr><td align="center"${styleAttribute(textDeclarations)}>${html}</td></tr>`);
+    }
+  });
+
+  if (content.copyrightText) {
+    rows.push(
+      `<tr><td align="center"${styleAttribute({ ...textDeclarations, 'padding-top': sectionGap })}>${escapeHTML(content.copyrightText)}</td></tr>`
+    );
+  }
+
+  const container = {
+    'background-color': '#f5f5f5',
+    padding: '30px 20px',
+    ...boxStyles(styles),
+    'text-align': 'center',
+  };
+
+  return `${openTable(container)}<table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%">${rows.join('')}</table>${closeTable()}`;
+};
+
+// ============================================================================
+// HERO
+// ============================================================================
+
+/**
+ * Collects the buttons of a Hero component
+ *
+ * The headless API stores several buttons under the `buttons` extension field;
+ * the editor uses the single `button` field gated by `showButton`.
+ */
+function getHeroButtons(component: HeroComponent): ButtonContent[] {
+  const extraButtons = component.content['buttons'];
+
+  if (Array.isArray(extraButtons)) {
+    return extraButtons.filter(isButtonContent);
+  }
+
+  if (component.content.showButton && component.content.button) {
+    return [component.content.button];
+  }
+
+  return [];
+}
+
+/**
+ * Renders a Hero component
+ *
+ * Supports the `image-top`, `image-left`, `image-right` and `image-background` layouts
+ */
+export const renderHeroComponent: ComponentRenderer<HeroComponent> = (component) => {
+  const { content, styles } = component;
+  const layout = content.layout ?? 'image-top';
+  const align = styles.contentAlign ?? styles.textAlign ?? 'center';
+  const isBackground = layout === 'image-background';
+
+  const heading = renderRichText(
+    content.heading,
+    typographyStyles(styles.headingStyles, {
+      'font-family': DEFAULT_FONT_FAMILY,
+      'font-size': '36px',
+      'font-weight': 700,
+      color: '#333333',
+      margin: '0 0 15px 0',
+    })
+  );
+
+  const description = renderRichText(
+    content.description,
+    typographyStyles(styles.descriptionStyles, {
+      'font-family': DEFAULT_FONT_FAMILY,
+      'font-size': '18px',
+      'font-weight': 400,
+      color: '#666666',
+      'line-height': '1.6',
+      margin: '0 0 25px 0',
+    })
+  );
+
+  const buttons = getHeroButtons(component).map((button, index) => ({
+    button,
+    options: {
+      variant: (button['variant'] as ButtonRenderOptions['variant']) ?? (index === 0 ? 'filled' : 'outlined'),
+      padding: '14px 28px',
+    },
+  }));
+  const buttonRow = renderButtonRow(buttons, '15px', align);
+
+  const textBlock =
+    `<table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%"${styleAttribute({
+      'max-width': cssValue(styles.contentMaxWidth) ?? '600px',
+    })}><tr><td align="${align}"${styleAttribute({
+      'text-align': align,
+      'background-color': isBackground ? styles.overlayColor : undefined,
+    })}>${heading}${description}${buttonRow}</td></tr></table>`;
+
+  const image =
+    !isBackground && content.image?.src
+      ? renderImage(content.image, { width: '100%' })
+      : '';
+
+  const container: StyleDeclarations = {
+    'background-color': styles.backgroundColor ?? (isBackground ? undefined : '#ffffff'),
+    padding: '60px 20px',
+    ...boxStyles(styles),
+  };
+
+  if (isBackground && content.image?.src) {
+    container['background-image'] = `url(${content.image.src})`;
+    container['background-size'] = 'cover';
+    container['background-position'] = 'center';
+  }
+
+  let body: string;
+  if (layout === 'image-left' && image) {
+    body = renderColumns(image, textBlock, '30px');
+  } else if (layout === 'image-right' && image) {
+    body = renderColumns(textBlock, image, '30px');
+  } else if (image) {
+    body = `${image}<div style="height: 30px; line-height: 30px; font-size: 0;">&nbsp;</div>${textBlock}`;
+  } else {
+    body = textBlock;
+  }
+
+  return `${openTable(container, align)}${body}${closeTable()}`;
+};
+
+// ============================================================================
+// LIST
+// ============================================================================
+
+/**
+ * Renders a single list item
+ */
+function renderListItem(item: ListItem, component: ListComponent, width: number): string {
+  const { content, styles } = component;
+  const layout = content.itemLayout ?? 'image-top';
+
+  const title = renderRichText(
+    item.title,
+    typographyStyles(styles.titleStyles, {
+      'font-family': DEFAULT_FONT_FAMILY,
+      'font-size': '20px',
+      'font-weight': 600,
+      color: '#333333',
+      margin: '0 0 10px 0',
+    })
+  );
+
+  const description = renderRichText(
+    item.description,
+    typographyStyles(styles.descriptionStyles, {
+      'font-family': DEFAULT_FONT_FAMILY,
+      'font-size': '14px',
+      'font-weight': 400,
+      color: '#666666',
+      'line-height': '1.5',
+      margin: '0 0 15px 0',
+    })
+  );
+
+  const button =
+    item.showButton && item.button
+      ? renderButton(item.button, { padding: '10px 20px' })
+      : '';
+
+  const text = `${title}${description}${button}`;
+  const hasImage = item.showImage && !!item.image?.src && layout !== 'image-background';
+  const image = hasImage && item.image
+    ? renderImage(item.image, {
+        'max-width': cssValue(styles.imageMaxWidth) ?? '100%',
+        'max-height': cssValue(styles.imageMaxHeight),
+        width: '100%',
+        'border-radius': '4px',
+      })
+    : '';
+
+  let body: string;
+  if (image && layout === 'image-left') {
+    body = renderColumns(image, text, '15px', 40);
+  } else if (image && layout === 'image-right') {
+    body = renderColumns(text, image, '15px', 60);
+  } else if (image) {
+    body = `<div style="margin-bottom: 15px;">${image}</div>${text}`;
+  } else {
+    body = text;
+  }
+
+  const itemStyles: StyleDeclarations = {
+    'background-color': styles.itemBackgroundColor ?? '#ffffff',
+    border: styles.itemBorder ?? '1px solid #e0e0e0',
+    padding: cssValue(styles.itemPadding) ?? '20px',
+    'border-radius': '8px',
+  };
+
+  if (layout === 'image-background' && item.showImage && item.image?.src) {
+    itemStyles['background-image'] = `url(${item.image.src})`;
+    itemStyles['background-size'] = 'cover';
+    itemStyles['background-position'] = 'center';
+  }
+
+  return `<td width="${width}%" valign="top"${styleAttribute(itemStyles)}>${body}</td>`;
+}
+
+/**
+ * Renders a List component
+ *
+ * Vertical lists render one item per row; horizontal lists render a grid of
+ * `columns` items per row
+ */
+export const renderListComponent: ComponentRenderer<ListComponent> = (component) => {
+  const { content, styles } = component;
+  const items = byOrder(content.items);
+  const gap = cssValue(styles.itemGap) ?? '20px';
+  const columns = content.orientation === 'horizontal' ? Math.max(1, content.columns ?? 3) : 1;
+  const cellWidth = Math.floor(100 / columns);
+
+  const rows: string[] = [];
+  for (let start = 0; start < items.length; start += columns) {
+    const rowItems = items.slice(start, start + columns);
+    const cells = rowItems
+      .map((item) => renderListItem(item, component, cellWidth))
+      .join(`<td${styleAttribute({ width: gap, 'min-width': gap })}>&nbsp;</td>`);
+
+    if (rows.length > 0) {
+      rows.push(`<tr><td colspan="${columns * 2 - 1}"${styleAttribute({ height: gap, 'font-size': '0', 'line-height': gap })}>&nbsp;</td></tr>`);
+    }
+    rows.push(`<tr>${cells}</tr>`);
+  }
+
+  const container = {
+    'background-color': 'transparent',
+    padding: '20px',
+    ...boxStyles(styles),
+  };
+
+  return `${openTable(container)}<table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%">${rows.join('')}</table>${closeTable()}`;
+};
+
+// ============================================================================
+// CALL TO ACTION
+// ============================================================================
+
+/**
+ * Renders a CTA (Call to Action) component
+ *
+ * Supports the `centered`, `left-aligned`, `right-aligned` and `two-column` layouts
+ */
+export const renderCTAComponent: ComponentRenderer<CTAComponent> = (component) => {
+  const { content, styles } = component;
+  const layout = content.layout ?? 'centered';
+  const align = layout === 'centered' ? 'center' : layout === 'right-aligned' ? 'right' : 'left';
+
+  const heading = renderRichText(
+    content.heading,
+    typographyStyles(styles.headingStyles, {
+      'font-family': DEFAULT_FONT_FAMILY,
+      'font-size': '32px',
+      'font-weight': 700,
+      color: '#333333',
+      margin: '0 0 15px 0',
+    })
+  );
+
+  const description =
+    content.showDescription !== false
+      ? renderRichText(
+          content.description,
+          typographyStyles(styles.descriptionStyles, {
+            'font-family': DEFAULT_FONT_FAMILY,
+            'font-size': '18px',
+            'font-weight': 400,
+            color: '#666666',
+            'line-height': '1.6',
+            margin: '0 0 30px 0',
+          })
+        )
+      : '';
+
+  const buttons: Array<{ button: ButtonContent; options: ButtonRenderOptions }> = [];
+  if (content.primaryButton) {
+    buttons.push({ button: content.primaryButton, options: { variant: 'filled', padding: '14px 28px' } });
+  }
+  if (content.showSecondaryButton && content.secondaryButton) {
+    buttons.push({ button: content.secondaryButton, options: { variant: 'outlined', padding: '14px 28px' } });
+  }
+
+  const gap = cssValue(styles.buttonGap) ?? '15px';
+  const container = {
+    'background-color': '#f8f9fa',
+    padding: '60px 20px',
+    ...boxStyles(styles),
+    'text-align': layout === 'two-column' ? 'left' : align,
+  };
+  const maxWidth = cssValue(styles.contentMaxWidth) ?? '700px';
+
+  if (layout === 'two-column') {
+    const body = renderColumns(
+      `${heading}${description}`,
+      renderButtonRow(buttons, gap, 'right'),
+      '30px',
+      60
+    );
+    return `${openTable(container)}${body}${closeTable()}`;
+  }
+
+  const inner =
+    `<table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%" align="${align}"${styleAttribute({
+      'max-width': maxWidth,
+    })}><tr><td align="${align}">${heading}${description}${renderButtonRow(buttons, gap, align)}</td></tr></table>`;
+
+  return `${openTable(container, align)}${inner}${closeTable()}`;
+};
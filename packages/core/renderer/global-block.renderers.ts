@@ -0,0 +1,19 @@
+/**
+ * Global block renderers
+ *
+ * Renderer for global block references left after resolution
+ */
+
+import type { GlobalBlockReferenceComponent } from '../types';
+import type { ComponentRenderer } from './renderer.types';
+
+/**
+ * Renders a global block reference
+ *
+ * {@link TemplateExporter} replaces references with the components of their
+ * blocks before rendering, so only references to blocks that could not be
+ * resolved reach this renderer. They render as an HTML comment, which keeps
+ * the email intact and leaves a trace of the missing block in its source.
+ */
+export const renderGlobalBlockComponent: ComponentRenderer<GlobalBlockReferenceComponent> = (component) =>
+  `<!-- Global block not found: ${String(component.content.blockId).replace(/-->|--/g, '')} -->`;
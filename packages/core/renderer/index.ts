@@ -0,0 +1,60 @@
+/**
+ * Component Renderer Module
+ *
+ * Pluggable, typed HTML renderers for template components
+ */
+
+export { ComponentRendererRegistry } from './ComponentRendererRegistry';
+export { createDefaultRendererRegistry, registerDefaultRenderers } from './default-renderers';
+export {
+  renderButtonComponent,
+  renderTextComponent,
+  renderImageComponent,
+  renderSeparatorComponent,
+  renderSpacerComponent,
+  renderHTMLComponent,
+} from './base-components.renderers';
+export {
+  renderHeaderComponent,
+  renderFooterComponent,
+  renderHeroComponent,
+  renderListComponent,
+  renderCTAComponent,
+} from './email-components.renderers';
+export { renderRowComponent, renderColumnComponent } from './layout-components.renderers';
+export { renderGlobalBlockComponent } from './global-block.renderers';
+export { PlainTextRenderer, type PlainTextComponentRenderer } from './PlainTextRenderer';
+export {
+  PlainTextWriter,
+  htmlToPlainText,
+  writeHTML,
+  DEFAULT_WRAP_WIDTH,
+  type PlainTextOptions,
+} from './plain-text';
+export {
+  createMimeMessage,
+  resolveImages,
+  collectImageSources,
+  injectPreheader,
+  parseDataURI,
+  encodeQuotedPrintable,
+  encodeBase64,
+  encodeHeaderValue,
+  encodeAddress,
+  formatHeader,
+  formatMessageDate,
+  DEFAULT_FROM_PLACEHOLDER,
+  type MimeAttachment,
+  type MimeImageResolver,
+  type MimeMessageOptions,
+  type MimeMessageContent,
+} from './mime';
+export {
+  COLOR_SCHEME_META_TAGS,
+  createDarkModePalette,
+  hasDarkMode,
+  renderDarkModeCSS,
+  renderDarkModeImage,
+  applyDarkModeStyles,
+} from './dark-mode';
+export type { ComponentRenderer, ComponentRenderContext } from './renderer.types';
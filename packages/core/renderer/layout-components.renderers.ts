@@ -0,0 +1,85 @@
+/**
+ * Layout component renderers
+ *
+ * Email-safe HTML renderers for the layout components (Row, Column)
+ */
+
+import type { BaseComponent, ColumnComponent, RowComponent } from '../types';
+import type { ComponentRenderContext, ComponentRenderer } from './renderer.types';
+import { boxStyles, closeTable, openTable, pixelValue, styleAttribute, styleString } from './utils';
+
+/**
+ * Email width used when the template does not define one
+ */
+const DEFAULT_EMAIL_WIDTH = 600;
+
+function renderChildren(children: BaseComponent[] | undefined, context: ComponentRenderContext): string {
+  return (children ?? []).map((child) => context.renderChild?.(child) ?? '').join('');
+}
+
+/**
+ * Renders a Row component as a hybrid ("ghost table") layout
+ *
+ * Columns are inline blocks with a pixel max-width, so they sit side by side
+ * on wide screens and wrap one below the other on narrow ones, without media
+ * queries. Outlook for Windows, which ignores `max-width`, gets the same
+ * columns as cells of a table hidden from other clients by conditional
+ * comments. Reverse stacking renders the columns in reverse order inside a
+ * right-to-left cell, which shows them in their original order side by side.
+ */
+export const renderRowComponent: ComponentRenderer<RowComponent> = (component, context) => {
+  const { content, styles } = component;
+  const columns = component.children ?? [];
+  const stacking = content.mobileStacking ?? 'stack';
+  const gutter = pixelValue(styles.gutter) ?? 0;
+  const rowWidth =
+    (context.template?.settings?.canvasDimensions?.width ?? DEFAULT_EMAIL_WIDTH) -
+    (pixelValue(styles.padding?.left) ?? 0) -
+    (pixelValue(styles.padding?.right) ?? 0);
+  const dir = stacking === 'reverse' ? ' dir="rtl"' : '';
+
+  const cells = columns.map((column, index) => {
+    const width = column.content?.width;
+    const percent = typeof width?.value === 'number' && width.unit === '%' ? width.value : 100 / columns.length;
+    const pixels = Math.floor((rowWidth * percent) / 100);
+    const align = column.styles?.verticalAlign ?? styles.verticalAlign ?? 'top';
+
+    const block = styleString({
+      display: 'inline-block',
+      width: stacking === 'none' ? `${percent}%` : '100%',
+      'max-width': stacking === 'none' ? undefined : `${pixels}px`,
+      'vertical-align': align,
+      direction: stacking === 'reverse' ? 'ltr' : undefined,
+    });
+    const gutterPadding = `0 ${index < columns.length - 1 ? gutter / 2 : 0}px 0 ${index > 0 ? gutter / 2 : 0}px`;
+
+    return (
+      `<!--[if mso]><td width="${pixels}" valign="${align}"><![endif]-->` +
+      `<div class="row-column" style="${block}">` +
+      `${openTable({ padding: gutterPadding })}` +
+      `${renderColumnComponent(column, context)}` +
+      `${closeTable()}</div>` +
+      '<!--[if mso]></td><![endif]-->'
+    );
+  });
+
+  if (stacking === 'reverse') {
+    cells.reverse();
+  }
+
+  return (
+    `<table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%">` +
+    `<tr><td${dir}${styleAttribute(boxStyles(styles))}>` +
+    `<!--[if mso]><table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%"${dir}><tr><![endif]-->` +
+    cells.join('') +
+    '<!--[if mso]></tr></table><![endif]-->' +
+    '</td></tr></table>'
+  );
+};
+
+/**
+ * Renders a Column component: its box and its children
+ */
+export const renderColumnComponent: ComponentRenderer<ColumnComponent> = (component, context) => {
+  return `${openTable(boxStyles(component.styles ?? {}))}${renderChildren(component.children, context)}${closeTable()}`;
+};
@@ -0,0 +1,182 @@
+/**
+ * MIME Message Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createMimeMessage,
+  resolveImages,
+  collectImageSources,
+  injectPreheader,
+  parseDataURI,
+  encodeQuotedPrintable,
+  encodeHeaderValue,
+  encodeAddress,
+  formatHeader,
+} from './mime';
+import { ExportError } from '../errors';
+
+const decodeBase64 = (value: string): string =>
+  new TextDecoder().decode(Uint8Array.from(atob(value), (char) => char.charCodeAt(0)));
+
+describe('encodeQuotedPrintable', () => {
+  it('should encode non-ASCII characters and equals signs', () => {
+    expect(encodeQuotedPrintable('a=b café')).toBe('a=3Db caf=C3=A9');
+  });
+
+  it('should use CRLF line endings and encode trailing whitespace', () => {
+    expect(encodeQuotedPrintable('one \ntwo')).toBe('one=20\r\ntwo');
+  });
+
+  it('should wrap long lines with soft line breaks', () => {
+    const lines = encodeQuotedPrintable('x'.repeat(200)).split('\r\n');
+
+    expect(lines.every((line) => line.length <= 76)).toBe(true);
+    expect(lines.slice(0, -1).every((line) => line.endsWith('='))).toBe(true);
+    expect(lines.join('').replace(/=/g, '')).toBe('x'.repeat(200));
+  });
+});
+
+describe('headers', () => {
+  it('should leave ASCII values as they are', () => {
+    expect(encodeHeaderValue('Hello world')).toBe('Hello world');
+  });
+
+  it('should encode non-ASCII values as encoded-words', () => {
+    const encoded = encodeHeaderValue('Olá, ✉ mundo');
+
+    expect(encoded).toMatch(/^=\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=$/);
+    expect(decodeBase64(encoded.slice(10, -2))).toBe('Olá, ✉ mundo');
+  });
+
+  it('should split long values into several encoded-words', () => {
+    const words = encodeHeaderValue('é'.repeat(60)).split(' ');
+
+    expect(words.length).toBeGreaterThan(1);
+    expect(words.every((word) => word.length <= 75)).toBe(true);
+    expect(words.map((word) => decodeBase64(word.slice(10, -2))).join('')).toBe('é'.repeat(60));
+  });
+
+  it('should encode only the display name of addresses', () => {
+    expect(encodeAddress('Acme <news@acme.com>')).toBe('Acme <news@acme.com>');
+    expect(encodeAddress('Acme, Inc. <news@acme.com>')).toBe('"Acme, Inc." <news@acme.com>');
+    expect(encodeAddress('Café <news@acme.com>')).toMatch(/^=\?UTF-8\?B\?\S+\?= <news@acme\.com>$/);
+    expect(encodeAddress('{{from}}')).toBe('{{from}}');
+  });
+
+  it('should not let values add headers', () => {
+    const message = createMimeMessage(
+      { html: '<p>Hi</p>', subject: 'Sale\r\nBcc: victim@example.com' },
+      {
+        from: 'news@acme.com\r\nBcc: spy@example.com',
+        replyTo: 'Acme <reply@acme.com>\r\nBcc: spy@example.com',
+        headers: { 'X-Campaign': 'spring\r\nBcc: spy@example.com' },
+      }
+    );
+    const headers = message.split('\r\n\r\n')[0]!.split('\r\n');
+
+    expect(headers.some((line) => line.startsWith('Bcc:'))).toBe(false);
+    expect(headers).toContain('From: news@acme.com Bcc: spy@example.com');
+    expect(() => formatHeader('X-Bad\r\nBcc', 'value')).toThrow(ExportError);
+  });
+
+  it('should fold long headers at whitespace', () => {
+    const header = formatHeader('Subject', 'word '.repeat(30).trim());
+
+    expect(header.split('\r\n').every((line) => line.length <= 78)).toBe(true);
+    expect(header.replace(/\r\n/g, '')).toBe(`Subject: ${'word '.repeat(30).trim()}`);
+  });
+});
+
+describe('images', () => {
+  it('should collect distinct image sources', () => {
+    const html =
+      '<img src="a.png"><img alt="" src=\'b.png\'><img src="a.png"><img data-src="c.png"><img src="cid:x">';
+
+    expect(collectImageSources(html)).toEqual(['a.png', 'b.png']);
+  });
+
+  it('should decode data URIs', () => {
+    expect(parseDataURI('data:image/gif;base64,R0lG')).toEqual({ contentType: 'image/gif', content: 'R0lG' });
+    expect(parseDataURI('data:text/plain,Hi%20there')).toEqual({
+      contentType: 'text/plain',
+      content: new TextEncoder().encode('Hi there'),
+    });
+    expect(parseDataURI('https://example.com/a.png')).toBeNull();
+  });
+
+  it('should resolve images missing from the provided ones', async () => {
+    const provided = { content: 'AAAA', contentType: 'image/png' };
+    const images = await resolveImages('<img src="a.png"><img src="b.png"><img src="data:image/png;base64,AA">', {
+      images: { 'a.png': provided },
+      resolveImage: async (src) => (src === 'b.png' ? { content: 'BBBB', contentType: 'image/png' } : null),
+    });
+
+    expect(images).toEqual({ 'a.png': provided, 'b.png': { content: 'BBBB', contentType: 'image/png' } });
+  });
+});
+
+describe('injectPreheader', () => {
+  it('should insert a hidden block at the start of the body', () => {
+    const html = injectPreheader('<html><body class="x"><p>Hi</p></body></html>', 'Sale <today>');
+
+    expect(html).toMatch(/<body class="x">\n {2}<div style="display: none;[^"]*"[^>]*>Sale &lt;today&gt;<\/div><p>/);
+  });
+
+  it('should prepend the block to fragments', () => {
+    expect(injectPreheader('<p>Hi</p>', 'Preview')).toMatch(/^<div[^>]*>Preview<\/div><p>Hi<\/p>$/);
+  });
+});
+
+describe('createMimeMessage', () => {
+  const date = new Date(Date.UTC(2024, 0, 2, 3, 4, 5));
+
+  it('should build a multipart/alternative message', () => {
+    const eml = createMimeMessage(
+      { html: '<p>Hi</p>', text: 'Hi', subject: 'Hello' },
+      { date, messageId: 'abc@example.com', to: 'Jane <jane@example.com>', headers: { 'X-Campaign': 'spring' } }
+    );
+    const [head = '', body = ''] = eml.split('\r\n\r\n');
+    const boundary = /boundary="([^"]+)"/.exec(head)?.[1];
+
+    expect(head.split('\r\n')).toEqual([
+      'From: {{from}}',
+      'To: Jane <jane@example.com>',
+      'Subject: Hello',
+      'Date: Tue, 02 Jan 2024 03:04:05 +0000',
+      'Message-ID: <abc@example.com>',
+      'X-Campaign: spring',
+      'MIME-Version: 1.0',
+      `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    ]);
+    expect(body).toBe(
+      `--${boundary}\r\nContent-Type: text/plain; charset=UTF-8\r\nContent-Transfer-Encoding: quoted-printable`
+    );
+    expect(eml.indexOf('text/plain')).toBeLessThan(eml.indexOf('text/html'));
+    expect(eml.endsWith(`--${boundary}--\r\n`)).toBe(true);
+  });
+
+  it('should build a single HTML part without plain text', () => {
+    const eml = createMimeMessage({ html: '<p>Hi</p>', subject: 'Hello' }, { date });
+
+    expect(eml).not.toContain('multipart');
+    expect(eml).toContain('MIME-Version: 1.0\r\nContent-Type: text/html; charset=UTF-8\r\n');
+  });
+
+  it('should embed provided images with Content-ID references', () => {
+    const eml = createMimeMessage(
+      { html: '<img src="https://cdn.example.com/logo.png?v=2" alt="">', text: '', subject: 'Hello' },
+      {
+        embedImages: true,
+        messageId: 'abc@example.com',
+        images: { 'https://cdn.example.com/logo.png?v=2': { content: new Uint8Array([1, 2, 3]), contentType: 'image/png' } },
+      }
+    );
+    const cid = /src=3D"cid:([^"]+)"/.exec(eml)?.[1];
+
+    expect(cid).toMatch(/@example\.com$/);
+    expect(eml).toContain(`Content-ID: <${cid}>`);
+    expect(eml).toContain('Content-Disposition: inline; filename="logo.png"');
+    expect(eml).toContain('\r\n\r\nAQID\r\n');
+  });
+});
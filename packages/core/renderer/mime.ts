@@ -0,0 +1,569 @@
+/**
+ * MIME Message
+ *
+ * Builds RFC 5322 / MIME messages (.eml) from the HTML and plain-text output
+ * of the exporter
+ */
+
+import { decodeEntities } from './plain-text';
+import { ExportError } from '../errors';
+
+/**
+ * Placeholder used for the From header when none is configured, for the
+ * sending tool or SMTP relay to replace
+ */
+export const DEFAULT_FROM_PLACEHOLDER = '{{from}}';
+
+const CRLF = '\r\n';
+const MAX_LINE_LENGTH = 76;
+
+/**
+ * Replaces control characters with spaces, so a value cannot end its header
+ * line and add headers of its own
+ */
+function stripControlCharacters(value: string): string {
+  return value.replace(/[\x00-\x1f\x7f]+/g, ' ');
+}
+
+/**
+ * Binary part of a message, such as an embedded image
+ */
+export interface MimeAttachment {
+  /**
+   * Raw bytes, or a base64 string
+   */
+  content: Uint8Array | string;
+
+  /**
+   * MIME type, e.g. `image/png`
+   */
+  contentType: string;
+
+  /**
+   * File name shown by mail clients
+   */
+  filename?: string;
+}
+
+/**
+ * Loads an image referenced by the HTML, for embedding
+ *
+ * Return `null` to leave the image as a remote reference.
+ */
+export type MimeImageResolver = (src: string) => Promise<MimeAttachment | null | undefined>;
+
+/**
+ * MIME message options
+ *
+ * Header values override the ones taken from the template metadata.
+ */
+export interface MimeMessageOptions {
+  /**
+   * Subject header (defaults to the template subject, then its name)
+   */
+  subject?: string;
+
+  /**
+   * Preview text shown by inbox listings, injected as a hidden block at the
+   * start of the HTML body
+   */
+  preheader?: string;
+
+  /**
+   * From header
+   *
+   * @default '{{from}}'
+   */
+  from?: string;
+
+  /**
+   * Reply-To header
+   */
+  replyTo?: string;
+
+  /**
+   * To header
+   */
+  to?: string;
+
+  /**
+   * Date header
+   *
+   * @default new Date()
+   */
+  date?: Date;
+
+  /**
+   * Message-ID header, with or without angle brackets
+   */
+  messageId?: string;
+
+  /**
+   * Extra headers
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Embed `<img>` sources as `multipart/related` attachments referenced by
+   * `cid:` URLs
+   *
+   * `data:` URIs are always embeddable; other sources need an entry in
+   * `images` or a `resolveImage` callback.
+   *
+   * @default false
+   */
+  embedImages?: boolean;
+
+  /**
+   * Image data by `src`, for images that are not `data:` URIs
+   */
+  images?: Record<string, MimeAttachment>;
+
+  /**
+   * Loads images missing from `images` (only used by asynchronous exports)
+   */
+  resolveImage?: MimeImageResolver;
+}
+
+/**
+ * Content of a MIME message
+ */
+export interface MimeMessageContent {
+  /**
+   * HTML part
+   */
+  html: string;
+
+  /**
+   * Plain-text part; without it the message has a single HTML part
+   */
+  text?: string;
+
+  /**
+   * Subject header
+   */
+  subject: string;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Encodes bytes as base64
+ */
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Splits a string into lines of at most `length` characters
+ */
+function chunk(text: string, length = MAX_LINE_LENGTH): string[] {
+  const lines: string[] = [];
+  for (let i = 0; i < text.length; i += length) {
+    lines.push(text.slice(i, i + length));
+  }
+  return lines;
+}
+
+/**
+ * Encodes content as base64, wrapped at 76 characters
+ *
+ * @param content - Raw bytes, text (UTF-8 encoded) or an already encoded base64 string
+ * @param isBase64 - Whether a string is already base64 encoded
+ */
+export function encodeBase64(content: Uint8Array | string, isBase64 = false): string {
+  let encoded: string;
+
+  if (typeof content !== 'string') {
+    encoded = toBase64(content);
+  } else if (isBase64) {
+    encoded = content.replace(/\s+/g, '');
+  } else {
+    encoded = toBase64(encoder.encode(content));
+  }
+
+  return chunk(encoded).join(CRLF);
+}
+
+/**
+ * Encodes text as quoted-printable (RFC 2045) with CRLF line endings
+ */
+export function encodeQuotedPrintable(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => {
+      const bytes = encoder.encode(line);
+      const tokens: string[] = [];
+
+      bytes.forEach((byte, index) => {
+        const isTrailingSpace = (byte === 0x20 || byte === 0x09) && index === bytes.length - 1;
+        const isLiteral = byte >= 0x21 && byte <= 0x7e && byte !== 0x3d;
+        tokens.push(
+          isLiteral || ((byte === 0x20 || byte === 0x09) && !isTrailingSpace)
+            ? String.fromCharCode(byte)
+            : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`
+        );
+      });
+
+      // Soft line breaks keep encoded lines within 76 characters
+      const lines: string[] = [];
+      let current = '';
+      tokens.forEach((token) => {
+        if (current.length + token.length > MAX_LINE_LENGTH - 1) {
+          lines.push(`${current}=`);
+          current = '';
+        }
+        current += token;
+      });
+      lines.push(current);
+
+      return lines.join(CRLF);
+    })
+    .join(CRLF);
+}
+
+/**
+ * Encodes a header value as RFC 2047 encoded-words when it is not plain ASCII
+ */
+export function encodeHeaderValue(value: string): string {
+  value = stripControlCharacters(value);
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return value;
+  }
+
+  // Each encoded-word holds whole characters and stays within 75 characters
+  const words: string[] = [];
+  let current = '';
+  for (const char of value) {
+    const next = current + char;
+    if (current && Math.ceil(encoder.encode(next).length / 3) * 4 > 75 - '=?UTF-8?B??='.length) {
+      words.push(current);
+      current = char;
+    } else {
+      current = next;
+    }
+  }
+  if (current) {
+    words.push(current);
+  }
+
+  return words.map((word) => `=?UTF-8?B?${toBase64(encoder.encode(word))}?=`).join(' ');
+}
+
+/**
+ * Encodes an address header value, encoding only the display name
+ *
+ * Placeholders such as `{{from}}` are kept as they are.
+ */
+export function encodeAddress(address: string): string {
+  address = stripControlCharacters(address);
+  const match = /^\s*(.*?)\s*<([^>]*)>\s*$/.exec(address);
+  if (!match) {
+    return address.trim();
+  }
+
+  const name = (match[1] ?? '').replace(/^"(.*)"$/, '$1');
+  const email = match[2] ?? '';
+
+  if (!name) {
+    return `<${email}>`;
+  }
+  if (/^[\x20-\x7e]*$/.test(name)) {
+    return /^[\w !#$%&'*+\-/=?^`{|}~]*$/.test(name)
+      ? `${name} <${email}>`
+      : `"${name.replace(/(["\\])/g, '\\$1')}" <${email}>`;
+  }
+  return `${encodeHeaderValue(name)} <${email}>`;
+}
+
+/**
+ * Formats a header line, folding long values at whitespace
+ *
+ * @throws {ExportError} If the name is not a valid header name
+ */
+export function formatHeader(name: string, value: string): string {
+  if (!/^[\x21-\x39\x3b-\x7e]+$/.test(name)) {
+    throw new ExportError(`Invalid header name: ${JSON.stringify(name)}`, 'eml', { name });
+  }
+  const words = stripControlCharacters(value).split(' ');
+  const lines: string[] = [];
+  let current = `${name}:`;
+
+  words.forEach((word) => {
+    if (current.length + word.length + 1 > 78 && current.length > name.length + 1) {
+      lines.push(current);
+      current = '';
+    }
+    current += ` ${word}`;
+  });
+  lines.push(current);
+
+  return lines.join(CRLF);
+}
+
+/**
+ * Formats a date for the Date header (RFC 5322)
+ */
+export function formatMessageDate(date: Date): string {
+  return date.toUTCString().replace(/GMT$/, '+0000');
+}
+
+/**
+ * Injects the preheader as a hidden block at the start of the HTML body
+ */
+export function injectPreheader(html: string, preheader: string): string {
+  const escaped = preheader
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+  const block =
+    '<div style="display: none; max-height: 0; overflow: hidden; mso-hide: all;" aria-hidden="true">' +
+    `${escaped}</div>`;
+  const body = /<body\b[^>]*>/i.exec(html);
+
+  if (!body) {
+    return block + html;
+  }
+
+  const index = body.index + body[0].length;
+  return `${html.slice(0, index)}\n  ${block}${html.slice(index)}`;
+}
+
+/**
+ * Lists the distinct `<img>` sources of an HTML document
+ */
+export function collectImageSources(html: string): string[] {
+  const sources = new Set<string>();
+  html.replace(/<img\b[^>]*?\ssrc\s*=\s*("([^"]*)"|'([^']*)')/gi, (tag, _quoted, double, single) => {
+    const src = decodeEntities(String(double ?? single ?? '')).trim();
+    if (src && !src.startsWith('cid:')) {
+      sources.add(src);
+    }
+    return tag;
+  });
+  return [...sources];
+}
+
+/**
+ * Decodes a `data:` URI into an attachment
+ */
+export function parseDataURI(uri: string): MimeAttachment | null {
+  const match = /^data:([^;,]*)((?:;[^;,]*)*?)(;base64)?,(.*)$/is.exec(uri);
+  if (!match) {
+    return null;
+  }
+
+  const contentType = match[1] || 'text/plain';
+  const data = match[4] ?? '';
+
+  return {
+    contentType,
+    content: match[3] ? data : encoder.encode(decodeURIComponent(data)),
+  };
+}
+
+/**
+ * Collects the images to embed: `data:` URIs and entries of `options.images`
+ */
+function findEmbeddableImages(
+  html: string,
+  options: MimeMessageOptions
+): Map<string, MimeAttachment> {
+  const images = new Map<string, MimeAttachment>();
+
+  collectImageSources(html).forEach((src) => {
+    const image = options.images?.[src] ?? (src.startsWith('data:') ? parseDataURI(src) : null);
+    if (image) {
+      images.set(src, image);
+    }
+  });
+
+  return images;
+}
+
+/**
+ * Loads the images of an HTML document with `options.resolveImage`
+ *
+ * @returns Images by `src`, merged with `options.images`
+ */
+export async function resolveImages(
+  html: string,
+  options: MimeMessageOptions
+): Promise<Record<string, MimeAttachment>> {
+  const images: Record<string, MimeAttachment> = { ...options.images };
+  const { resolveImage } = options;
+
+  if (!resolveImage) {
+    return images;
+  }
+
+  const pending = collectImageSources(html).filter((src) => !images[src] && !src.startsWith('data:'));
+  const resolved = await Promise.all(pending.map((src) => resolveImage(src)));
+
+  pending.forEach((src, index) => {
+    const image = resolved[index];
+    if (image) {
+      images[src] = image;
+    }
+  });
+
+  return images;
+}
+
+function randomToken(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+function extensionFor(contentType: string): string {
+  const subtype = contentType.split('/')[1]?.split('+')[0] ?? 'bin';
+  return subtype === 'jpeg' ? 'jpg' : subtype;
+}
+
+/**
+ * Derives a file name from an image source
+ */
+function filenameFor(src: string, image: MimeAttachment, index: number): string {
+  if (image.filename) {
+    return image.filename;
+  }
+  if (!src.startsWith('data:')) {
+    const name = src.split(/[?#]/)[0]?.split('/').pop();
+    if (name && /\.\w+$/.test(name)) {
+      return decodeURIComponent(name);
+    }
+  }
+  return `image-${index}.${extensionFor(image.contentType)}`;
+}
+
+/**
+ * Replaces embedded `<img>` sources with `cid:` references
+ */
+function replaceImageSources(html: string, contentIds: Map<string, string>): string {
+  return html.replace(/<img\b[^>]*>/gi, (tag) =>
+    tag.replace(/(\ssrc\s*=\s*)("([^"]*)"|'([^']*)')/i, (attr, prefix: string, _quoted, double, single) => {
+      const cid = contentIds.get(decodeEntities(String(double ?? single ?? '')).trim());
+      return cid ? `${prefix}"cid:${cid}"` : attr;
+    })
+  );
+}
+
+function renderPart(headers: string[], body: string): string {
+  return `${headers.join(CRLF)}${CRLF}${CRLF}${body}`;
+}
+
+function renderMultipart(type: string, parts: string[], extra = ''): { header: string; body: string } {
+  const boundary = `----=_Part_${randomToken()}${randomToken()}`;
+  const body = [
+    ...parts.map((part) => `--${boundary}${CRLF}${part}${CRLF}`),
+    `--${boundary}--`,
+  ].join('');
+
+  return { header: `Content-Type: ${type}; boundary="${boundary}"${extra}`, body };
+}
+
+function renderTextPart(subtype: 'plain' | 'html', content: string): string {
+  return renderPart(
+    [`Content-Type: text/${subtype}; charset=UTF-8`, 'Content-Transfer-Encoding: quoted-printable'],
+    encodeQuotedPrintable(content)
+  );
+}
+
+/**
+ * Builds an RFC 5322 message
+ *
+ * The message is `multipart/alternative` with a `text/plain` and a
+ * `text/html` part. With `embedImages`, the HTML part becomes
+ * `multipart/related` with the images attached inline and referenced by
+ * `cid:` URLs. Sources that cannot be loaded synchronously (remote URLs
+ * missing from `options.images`) stay remote; use {@link resolveImages} first
+ * to load them.
+ *
+ * @param content - HTML, plain text and subject
+ * @param options - Header and embedding options
+ * @returns Message with CRLF line endings
+ */
+export function createMimeMessage(content: MimeMessageContent, options: MimeMessageOptions = {}): string {
+  const date = options.date ?? new Date();
+  const messageId = (options.messageId ?? `${date.getTime().toString(36)}.${randomToken()}@email-builder`)
+    .replace(/^<|>$/g, '');
+  const domain = messageId.split('@')[1] ?? 'email-builder';
+
+  let html = content.html;
+  if (options.preheader) {
+    html = injectPreheader(html, options.preheader);
+  }
+
+  // HTML part, wrapped with its images when embedding
+  let htmlPart = renderTextPart('html', html);
+
+  if (options.embedImages) {
+    const images = findEmbeddableImages(html, options);
+
+    if (images.size > 0) {
+      const contentIds = new Map<string, string>();
+      const imageParts: string[] = [];
+      let index = 0;
+
+      images.forEach((image, src) => {
+        index += 1;
+        const cid = `image-${index}.${randomToken()}@${domain}`;
+        const filename = filenameFor(src, image, index).replace(/["\\]/g, '');
+        contentIds.set(src, cid);
+        imageParts.push(
+          renderPart(
+            [
+              `Content-Type: ${image.contentType}; name="${filename}"`,
+              'Content-Transfer-Encoding: base64',
+              `Content-ID: <${cid}>`,
+              `Content-Disposition: inline; filename="${filename}"`,
+            ],
+            encodeBase64(image.content, typeof image.content === 'string')
+          )
+        );
+      });
+
+      const related = renderMultipart(
+        'multipart/related',
+        [renderTextPart('html', replaceImageSources(html, contentIds)), ...imageParts],
+        '; type="text/html"'
+      );
+      htmlPart = renderPart([related.header], related.body);
+    }
+  }
+
+  // Top-level headers
+  const headers: string[] = [
+    formatHeader('From', encodeAddress(options.from ?? DEFAULT_FROM_PLACEHOLDER)),
+  ];
+  if (options.to) {
+    headers.push(formatHeader('To', encodeAddress(options.to)));
+  }
+  if (options.replyTo) {
+    headers.push(formatHeader('Reply-To', encodeAddress(options.replyTo)));
+  }
+  headers.push(
+    formatHeader('Subject', encodeHeaderValue(content.subject)),
+    formatHeader('Date', formatMessageDate(date)),
+    formatHeader('Message-ID', `<${messageId}>`)
+  );
+  Object.entries(options.headers ?? {}).forEach(([name, value]) => {
+    headers.push(formatHeader(name, encodeHeaderValue(value)));
+  });
+  headers.push('MIME-Version: 1.0');
+
+  if (content.text === undefined) {
+    return `${headers.join(CRLF)}${CRLF}${htmlPart}${CRLF}`;
+  }
+
+  const alternative = renderMultipart('multipart/alternative', [
+    renderTextPart('plain', content.text),
+    htmlPart,
+  ]);
+
+  return renderPart([...headers, alternative.header], alternative.body) + CRLF;
+}
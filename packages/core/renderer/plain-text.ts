@@ -0,0 +1,550 @@
+/**
+ * Plain-text rendering utilities
+ *
+ * Block writer and HTML-to-text conversion for the text/plain part of emails
+ */
+
+import type { DisplayRuleSyntax } from '../types';
+
+/**
+ * Plain-text rendering options
+ */
+export interface PlainTextOptions {
+  /**
+   * Maximum line length; words longer than the width (e.g. URLs) are not broken.
+   * Use 0 to disable wrapping.
+   *
+   * @default 78
+   */
+  wrapWidth?: number;
+
+  /**
+   * Wraps the text of components with a display rule in the conditional
+   * syntax of an ESP
+   */
+  displayRuleSyntax?: DisplayRuleSyntax;
+
+  /**
+   * Writes repeated components as `{{#each}}` loops, instead of once as
+   * designed
+   */
+  repeatLoops?: boolean;
+}
+
+/**
+ * Default line length, the RFC 5322 recommendation
+ */
+export const DEFAULT_WRAP_WIDTH = 78;
+
+/**
+ * Plain-Text Writer
+ *
+ * Collects blocks of text separated by blank lines, and the reference-style
+ * links listed at the end of the document.
+ */
+export class PlainTextWriter {
+  private blocks: string[] = [];
+  private references: string[] = [];
+  private wrapWidth: number;
+
+  constructor(options: PlainTextOptions = {}) {
+    this.wrapWidth = options.wrapWidth ?? DEFAULT_WRAP_WIDTH;
+  }
+
+  /**
+   * Writes a heading underlined with `=` (level 1) or `-` (other levels)
+   */
+  heading(text: string, level = 1): void {
+    const lines = this.wrap(normalizeWhitespace(text));
+    if (lines.length === 0) {
+      return;
+    }
+
+    const width = Math.max(...lines.map((line) => line.length));
+    this.blocks.push([...lines, (level === 1 ? '=' : '-').repeat(width)].join('\n'));
+  }
+
+  /**
+   * Writes a wrapped paragraph; line breaks in the text are kept
+   */
+  paragraph(text: string, indent = ''): void {
+    const lines = text
+      .split('\n')
+      .flatMap((line) => this.wrap(normalizeWhitespace(line), indent))
+      .filter((line, index, all) => line.trim() !== '' || (index > 0 && index < all.length - 1));
+
+    if (lines.length > 0) {
+      this.blocks.push(lines.join('\n'));
+    }
+  }
+
+  /**
+   * Writes a link on its own line as `Label: URL`, used for buttons
+   */
+  link(label: string, url: string | undefined): void {
+    const text = normalizeWhitespace(label);
+    const href = usableURL(url);
+
+    if (!href) {
+      this.paragraph(text);
+    } else if (!text || text === href) {
+      this.blocks.push(href);
+    } else {
+      this.blocks.push(`${text}: ${href}`);
+    }
+  }
+
+  /**
+   * Writes a list item
+   *
+   * @param text - Item text
+   * @param marker - Bullet (`*`) or number (`1.`)
+   * @param depth - Nesting depth
+   */
+  bullet(text: string, marker = '*', depth = 0): void {
+    const indent = '  '.repeat(depth);
+    const prefix = `${indent}${marker} `;
+    const lines = this.wrap(normalizeWhitespace(text), ' '.repeat(prefix.length));
+
+    if (lines.length === 0) {
+      return;
+    }
+
+    lines[0] = prefix + (lines[0] ?? '').trimStart();
+    this.blocks.push(lines.join('\n'));
+  }
+
+  /**
+   * Writes a horizontal rule
+   */
+  rule(): void {
+    this.blocks.push('-'.repeat(this.wrapWidth > 0 ? Math.min(this.wrapWidth, 40) : 40));
+  }
+
+  /**
+   * Writes text as is, without wrapping (e.g. ESP conditional tags)
+   */
+  raw(text: string): void {
+    this.blocks.push(text);
+  }
+
+  /**
+   * Registers a reference-style link
+   *
+   * @returns Label followed by the reference number, e.g. `Facebook [1]`
+   */
+  reference(label: string, url: string | undefined): string {
+    const text = normalizeWhitespace(label);
+    const href = usableURL(url);
+
+    if (!href) {
+      return text;
+    }
+
+    let index = this.references.indexOf(href);
+    if (index === -1) {
+      this.references.push(href);
+      index = this.references.length - 1;
+    }
+
+    return `${text || href} [${index + 1}]`;
+  }
+
+  /**
+   * Gets the text: blocks followed by the reference list
+   */
+  toString(): string {
+    const blocks = [...this.blocks];
+
+    if (this.references.length > 0) {
+      blocks.push(this.references.map((url, index) => `[${index + 1}] ${url}`).join('\n'));
+    }
+
+    return blocks.join('\n\n');
+  }
+
+  /**
+   * Wraps a line at the configured width
+   */
+  private wrap(text: string, indent = ''): string[] {
+    if (!text) {
+      return [];
+    }
+
+    if (this.wrapWidth <= 0) {
+      return [indent + text];
+    }
+
+    const lines: string[] = [];
+    let line = '';
+
+    text.split(' ').forEach((word) => {
+      if (line && indent.length + line.length + 1 + word.length > this.wrapWidth) {
+        lines.push(indent + line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    });
+
+    if (line) {
+      lines.push(indent + line);
+    }
+
+    return lines;
+  }
+}
+
+/**
+ * Parsed HTML node
+ */
+interface HTMLNode {
+  tag: string;
+  attrs: Record<string, string>;
+  children: Array<HTMLNode | string>;
+}
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'wbr']);
+const SKIPPED_TAGS = new Set(['head', 'style', 'script', 'title', 'noscript', 'template']);
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'center', 'dd', 'div', 'dl', 'dt', 'figure',
+  'figcaption', 'header', 'html', 'main', 'nav', 'p', 'pre', 'section', 'table', 'tbody', 'td',
+  'tfoot', 'th', 'thead', 'tr',
+]);
+
+/**
+ * Parses HTML into a lightweight node tree
+ *
+ * Tolerates unclosed and stray closing tags, which is enough for the
+ * markup produced by rich-text editors and the component renderers.
+ */
+function parseHTML(html: string): HTMLNode {
+  const root: HTMLNode = { tag: '#root', attrs: {}, children: [] };
+  const stack: HTMLNode[] = [root];
+  const tokenPattern = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\/?([a-zA-Z][\w:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>|[^<]+|</g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(html)) !== null) {
+    const [token, rawTag, rawAttrs = ''] = match;
+    const current = stack[stack.length - 1] as HTMLNode;
+
+    if (!rawTag) {
+      if (!token.startsWith('<!') || token === '<') {
+        current.children.push(token);
+      }
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+
+    if (token.startsWith('</')) {
+      const index = stack.map((node) => node.tag).lastIndexOf(tag);
+      if (index > 0) {
+        stack.length = index;
+      }
+      continue;
+    }
+
+    const node: HTMLNode = { tag, attrs: parseAttributes(rawAttrs), children: [] };
+    current.children.push(node);
+
+    if (!VOID_TAGS.has(tag) && !rawAttrs.trimEnd().endsWith('/')) {
+      stack.push(node);
+    }
+  }
+
+  return root;
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const attrPattern = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = attrPattern.exec(raw)) !== null) {
+    const name = (match[1] ?? '').toLowerCase();
+    attrs[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+
+  return attrs;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  laquo: '«',
+  raquo: '»',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+  zwnj: '',
+};
+
+/**
+ * Decodes HTML entities
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith('#x') || name.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(name.slice(2), 16));
+    }
+    if (name.startsWith('#')) {
+      return String.fromCodePoint(parseInt(name.slice(1), 10));
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/[ \t\r\n\f ]+/g, ' ').trim();
+}
+
+/**
+ * Returns the URL worth printing, or undefined for placeholders and anchors
+ */
+function usableURL(url: string | undefined): string | undefined {
+  const trimmed = url?.trim();
+  if (!trimmed || trimmed === '#' || trimmed.startsWith('#') || trimmed.startsWith('javascript:')) {
+    return undefined;
+  }
+  return trimmed;
+}
+
+/**
+ * Checks if a link is styled as a button
+ */
+function isButtonLink(node: HTMLNode): boolean {
+  const style = (node.attrs['style'] ?? '').toLowerCase().replace(/\s+/g, '');
+  const className = node.attrs['class'] ?? '';
+
+  return (
+    node.attrs['role'] === 'button' ||
+    /\b(btn|button)\b/i.test(className) ||
+    (style.includes('display:inline-block') && (style.includes('padding') || style.includes('background')))
+  );
+}
+
+/**
+ * Checks if an element starts the footer, whose links are written reference-style
+ */
+function isFooter(node: HTMLNode): boolean {
+  return node.tag === 'footer' || /\b(component-footer|footer)\b/.test(node.attrs['class'] ?? '');
+}
+
+interface ConversionState {
+  writer: PlainTextWriter;
+  buffer: string;
+  footer: boolean;
+}
+
+/**
+ * Writes HTML content to a plain-text writer
+ *
+ * - Headings become underlined lines
+ * - Links styled as buttons become `Label: URL` lines
+ * - List items become bullets
+ * - Links inside footers become reference-style links
+ * - Other links become `label (URL)`; images are dropped
+ *
+ * @param writer - Target writer
+ * @param html - HTML fragment or document
+ * @param options - Conversion options
+ */
+export function writeHTML(
+  writer: PlainTextWriter,
+  html: string,
+  options: { footer?: boolean } = {}
+): void {
+  const state: ConversionState = { writer, buffer: '', footer: options.footer ?? false };
+  walkChildren(parseHTML(html), state);
+  flush(state);
+}
+
+/**
+ * Converts HTML to plain text
+ *
+ * @param html - HTML fragment or document
+ * @param options - Plain-text options
+ * @returns Plain text
+ *
+ * @example
+ * ```ts
+ * htmlToPlainText('<h1>Welcome</h1><p>Thanks for joining.</p>');
+ * // Welcome
+ * // =======
+ * //
+ * // Thanks for joining.
+ * ```
+ */
+export function htmlToPlainText(html: string, options: PlainTextOptions = {}): string {
+  const writer = new PlainTextWriter(options);
+  writeHTML(writer, html);
+  return writer.toString();
+}
+
+function flush(state: ConversionState): void {
+  if (state.buffer.trim()) {
+    state.writer.paragraph(state.buffer);
+  }
+  state.buffer = '';
+}
+
+function walkChildren(node: HTMLNode, state: ConversionState): void {
+  node.children.forEach((child) => {
+    if (typeof child === 'string') {
+      state.buffer += decodeEntities(child);
+    } else {
+      walk(child, state);
+    }
+  });
+}
+
+function walk(node: HTMLNode, state: ConversionState): void {
+  const { tag } = node;
+
+  if (SKIPPED_TAGS.has(tag) || node.attrs['aria-hidden'] === 'true') {
+    return;
+  }
+
+  if (isFooter(node) && !state.footer) {
+    flush(state);
+    state.footer = true;
+    walkChildren(node, state);
+    flush(state);
+    state.footer = false;
+    return;
+  }
+
+  const heading = /^h([1-6])$/.exec(tag);
+  if (heading) {
+    flush(state);
+    state.writer.heading(inlineText(node, state), Number(heading[1]));
+    return;
+  }
+
+  switch (tag) {
+    case 'br':
+      state.buffer += '\n';
+      return;
+    case 'hr':
+      flush(state);
+      state.writer.rule();
+      return;
+    case 'img':
+      return;
+    case 'ul':
+    case 'ol':
+      flush(state);
+      writeList(node, state, 0);
+      return;
+    case 'a':
+      writeLink(node, state);
+      return;
+  }
+
+  if (BLOCK_TAGS.has(tag)) {
+    flush(state);
+    walkChildren(node, state);
+    flush(state);
+    return;
+  }
+
+  walkChildren(node, state);
+}
+
+function writeLink(node: HTMLNode, state: ConversionState): void {
+  const label = normalizeWhitespace(inlineText(node, state)) || imageAlt(node) || node.attrs['aria-label'] || '';
+  const href = node.attrs['href'];
+
+  if (state.footer) {
+    state.buffer += ` ${state.writer.reference(label, href)} `;
+    return;
+  }
+
+  if (isButtonLink(node)) {
+    flush(state);
+    state.writer.link(label, href);
+    return;
+  }
+
+  const url = usableURL(href);
+  if (!url || label === url || `mailto:${label}` === url) {
+    state.buffer += label || url || '';
+  } else {
+    state.buffer += label ? `${label} (${url})` : url;
+  }
+}
+
+function writeList(node: HTMLNode, state: ConversionState, depth: number): void {
+  let number = Number(node.attrs['start'] ?? 1);
+
+  node.children.forEach((child) => {
+    if (typeof child === 'string' || child.tag !== 'li') {
+      return;
+    }
+
+    const nested = child.children.filter(
+      (item): item is HTMLNode => typeof item !== 'string' && (item.tag === 'ul' || item.tag === 'ol')
+    );
+    const text = inlineText({ ...child, children: child.children.filter((item) => !nested.includes(item as HTMLNode)) }, state);
+
+    state.writer.bullet(text, node.tag === 'ol' ? `${number++}.` : '*', depth);
+    nested.forEach((list) => writeList(list, state, depth + 1));
+  });
+}
+
+/**
+ * Collects the text of an element, with links written inline
+ */
+function inlineText(node: HTMLNode, state: ConversionState): string {
+  const inner: ConversionState = { writer: state.writer, buffer: '', footer: state.footer };
+
+  node.children.forEach((child) => {
+    if (typeof child === 'string') {
+      inner.buffer += decodeEntities(child);
+    } else if (child.tag === 'br') {
+      inner.buffer += ' ';
+    } else if (child.tag === 'a' && node.tag !== 'a') {
+      const label = normalizeWhitespace(inlineText(child, inner)) || imageAlt(child);
+      const url = usableURL(child.attrs['href']);
+      inner.buffer += state.footer
+        ? state.writer.reference(label, url)
+        : url && label !== url
+          ? `${label} (${url})`
+          : label;
+    } else if (BLOCK_TAGS.has(child.tag)) {
+      inner.buffer += ` ${inlineText(child, inner)} `;
+    } else if (!SKIPPED_TAGS.has(child.tag)) {
+      inner.buffer += inlineText(child, inner);
+    }
+  });
+
+  return normalizeWhitespace(inner.buffer);
+}
+
+function imageAlt(node: HTMLNode): string {
+  for (const child of node.children) {
+    if (typeof child === 'string') {
+      continue;
+    }
+    if (child.tag === 'img' && child.attrs['alt']) {
+      return child.attrs['alt'];
+    }
+    const nested = imageAlt(child);
+    if (nested) {
+      return nested;
+    }
+  }
+  return '';
+}
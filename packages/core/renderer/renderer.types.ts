@@ -0,0 +1,38 @@
+/**
+ * Renderer type definitions
+ *
+ * Types for the pluggable component renderer registry
+ */
+
+import type { BaseComponent } from '../types/component.types';
+import type { Template } from '../types/template.types';
+
+/**
+ * Context passed to every component renderer
+ */
+export interface ComponentRenderContext {
+  /**
+   * Template being rendered (absent when rendering a component on its own)
+   */
+  template?: Template;
+
+  /**
+   * Renders a nested component the way the caller renders top-level ones
+   * (used by container components for their children)
+   */
+  renderChild?: (component: BaseComponent) => string;
+}
+
+/**
+ * Component renderer
+ *
+ * Receives a component and returns its email-safe HTML markup.
+ * The markup should not include the component wrapper element
+ * (`data-component-id`); callers add it.
+ *
+ * @template TComponent - Component type handled by the renderer
+ */
+export type ComponentRenderer<TComponent extends BaseComponent = BaseComponent> = (
+  component: TComponent,
+  context: ComponentRenderContext
+) => string;
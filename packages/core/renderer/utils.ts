@@ -0,0 +1,476 @@
+/**
+ * Renderer utilities
+ *
+ * Helpers shared by the built-in component renderers for producing
+ * email-safe, inline-styled HTML
+ */
+
+import type {
+  BaseStyles,
+  Border,
+  BorderRadius,
+  CSSValue,
+  Spacing,
+} from '../types/component.types';
+import type {
+  ButtonContent,
+  ImageContent,
+  LinkConfig,
+} from '../types/base-components.types';
+
+/**
+ * Default font stack used when a component does not define one
+ */
+export const DEFAULT_FONT_FAMILY = 'system-ui, -apple-system, sans-serif';
+
+/**
+ * Style declarations keyed by CSS property name
+ */
+export type StyleDeclarations = Record<string, string | number | undefined>;
+
+/**
+ * Escapes HTML special characters
+ *
+ * @param text - Text to escape
+ * @returns Escaped text
+ */
+export function escapeHTML(text: string): string {
+  const map: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#039;',
+  };
+
+  return text.replace(/[&<>"']/g, (char) => map[char] ?? char);
+}
+
+/**
+ * Converts a CSS value to its string representation
+ *
+ * @param value - CSS value object or raw string
+ * @returns CSS string or undefined if no value was given
+ */
+export function cssValue(value: CSSValue | string | undefined): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  if (value.value === 'auto' || value.unit === 'auto') {
+    return 'auto';
+  }
+
+  return `${value.value}${value.unit}`;
+}
+
+/**
+ * Parses a CSS length such as `16px` or `50%`
+ *
+ * Unitless numbers are read as pixels, the way HTML attributes use them.
+ *
+ * @param value - CSS string
+ * @returns CSS value or undefined if the string is not a single length
+ */
+export function parseCSSValue(value: string | undefined): CSSValue | undefined {
+  const match = /^\s*(-?\d*\.?\d+)\s*(px|rem|em|%|vh|vw|pt)?\s*$/.exec(value ?? '');
+  if (!match) {
+    return value?.trim() === 'auto' ? { value: 'auto', unit: 'auto' } : undefined;
+  }
+  return { value: Number(match[1]), unit: (match[2] as CSSValue['unit'] | undefined) ?? 'px' };
+}
+
+/**
+ * Converts a CSS value to a number of pixels, for HTML width/height attributes
+ *
+ * @param value - CSS value object
+ * @returns Pixel count or undefined if the value is not expressed in pixels
+ */
+export function pixelValue(value: CSSValue | undefined): number | undefined {
+  if (!value || value.unit !== 'px' || typeof value.value !== 'number') {
+    return undefined;
+  }
+
+  return value.value;
+}
+
+/**
+ * Converts spacing (padding/margin) to a CSS shorthand
+ *
+ * @param spacing - Spacing configuration
+ * @returns CSS shorthand or undefined
+ */
+export function spacingToCSS(spacing: Spacing | undefined): string | undefined {
+  if (!spacing) {
+    return undefined;
+  }
+
+  const { top, right, bottom, left } = spacing;
+  return [top, right, bottom, left].map((side) => cssValue(side) ?? '0').join(' ');
+}
+
+/**
+ * Parses a padding or margin shorthand with one to four values
+ *
+ * @param value - CSS shorthand
+ * @returns Spacing or undefined if a side is not a length
+ */
+export function parseSpacing(value: string | undefined): Spacing | undefined {
+  const values = (value ?? '').trim().split(/\s+/).map(parseCSSValue);
+  if (values.length === 0 || values.some((side) => side === undefined)) {
+    return undefined;
+  }
+
+  const [top, right = top, bottom = top, left = right] = values as CSSValue[];
+  return { top: top as CSSValue, right: right as CSSValue, bottom: bottom as CSSValue, left: left as CSSValue };
+}
+
+/**
+ * Converts a border configuration to a CSS shorthand
+ *
+ * @param border - Border configuration
+ * @returns CSS shorthand or undefined
+ */
+export function borderToCSS(border: Border | undefined): string | undefined {
+  if (!border || border.style === 'none') {
+    return undefined;
+  }
+
+  return `${cssValue(border.width) ?? '1px'} ${border.style} ${border.color}`;
+}
+
+/**
+ * Converts a border radius configuration to a CSS shorthand
+ *
+ * @param radius - Border radius configuration
+ * @returns CSS shorthand or undefined
+ */
+export function borderRadiusToCSS(radius: BorderRadius | undefined): string | undefined {
+  if (!radius) {
+    return undefined;
+  }
+
+  const { topLeft, topRight, bottomRight, bottomLeft } = radius;
+  return [topLeft, topRight, bottomRight, bottomLeft]
+    .map((corner) => cssValue(corner) ?? '0')
+    .join(' ');
+}
+
+/**
+ * Serializes style declarations into an inline style string
+ *
+ * Declarations with an undefined or empty value are skipped
+ *
+ * @param declarations - Style declarations
+ * @returns Inline style string
+ */
+export function styleString(declarations: StyleDeclarations): string {
+  return Object.entries(declarations)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([property, value]) => `${property}: ${value}`)
+    .join('; ');
+}
+
+/**
+ * Builds a ` style="..."` attribute, or an empty string when there is nothing to apply
+ *
+ * @param declarations - Style declarations
+ * @returns Style attribute (with leading space)
+ */
+export function styleAttribute(declarations: StyleDeclarations): string {
+  const style = styleString(declarations);
+  return style ? ` style="${escapeHTML(style)}"` : '';
+}
+
+/**
+ * Builds the container ("box") declarations of a component: background,
+ * padding, border and custom styles
+ *
+ * @param styles - Component styles
+ * @returns Style declarations
+ */
+export function boxStyles(styles: BaseStyles): StyleDeclarations {
+  const declarations: StyleDeclarations = {
+    'background-color': styles.backgroundColor,
+    'background-image': styles.backgroundImage ? `url(${styles.backgroundImage})` : undefined,
+    padding: spacingToCSS(styles.padding),
+    border: borderToCSS(styles.border),
+    'border-radius': borderRadiusToCSS(styles.border?.radius),
+  };
+
+  return { ...declarations, ...styles.customStyles };
+}
+
+/**
+ * Typography configuration accepted by {@link typographyStyles}
+ *
+ * Loose enough to take `TextStyles` as well as the heading/description/title
+ * style groups of `BaseStyles`
+ */
+export interface TypographyConfig {
+  fontFamily?: string | undefined;
+  fontSize?: CSSValue | string | undefined;
+  fontWeight?: number | string | undefined;
+  fontStyle?: string | undefined;
+  color?: string | undefined;
+  lineHeight?: CSSValue | string | undefined;
+  letterSpacing?: CSSValue | undefined;
+  textDecoration?: string | undefined;
+  textTransform?: string | undefined;
+  textAlign?: string | undefined;
+}
+
+/**
+ * Builds typography declarations from a text style configuration
+ *
+ * @param textStyles - Text styles
+ * @param defaults - Fallback declarations
+ * @returns Style declarations
+ */
+export function typographyStyles(
+  textStyles: TypographyConfig | undefined,
+  defaults: StyleDeclarations = {}
+): StyleDeclarations {
+  const declarations: StyleDeclarations = {
+    'font-family': textStyles?.fontFamily,
+    'font-size': cssValue(textStyles?.fontSize),
+    'font-weight': textStyles?.fontWeight,
+    'font-style': textStyles?.fontStyle,
+    color: textStyles?.color,
+    'line-height': cssValue(textStyles?.lineHeight),
+    'letter-spacing': cssValue(textStyles?.letterSpacing),
+    'text-decoration': textStyles?.textDecoration,
+    'text-transform': textStyles?.textTransform,
+    'text-align': textStyles?.textAlign,
+  };
+
+  const merged: StyleDeclarations = { ...defaults };
+  Object.entries(declarations).forEach(([property, value]) => {
+    if (value !== undefined) {
+      merged[property] = value;
+    }
+  });
+
+  return merged;
+}
+
+/**
+ * Builds link attributes (href, target, rel, title)
+ *
+ * @param link - Link configuration
+ * @returns Attribute string (with leading space)
+ */
+export function linkAttributes(link: LinkConfig | undefined): string {
+  const href = link?.href || '#';
+  let attrs = ` href="${escapeHTML(href)}"`;
+
+  if (link?.target) {
+    attrs += ` target="${link.target}"`;
+  }
+
+  const rel = link?.rel ?? (link?.target === '_blank' ? 'noopener noreferrer' : undefined);
+  if (rel) {
+    attrs += ` rel="${escapeHTML(rel)}"`;
+  }
+
+  if (link?.title) {
+    attrs += ` title="${escapeHTML(link.title)}"`;
+  }
+
+  return attrs;
+}
+
+/**
+ * Renders an image, wrapped in a link when one is configured
+ *
+ * @param image - Image content
+ * @param declarations - Inline style declarations for the image
+ * @param width - Optional width attribute (pixels)
+ * @returns Image HTML
+ */
+export function renderImage(
+  image: ImageContent,
+  declarations: StyleDeclarations = {},
+  width?: number
+): string {
+  const widthAttr = width !== undefined ? ` width="${width}"` : '';
+  const titleAttr = image.title ? ` title="${escapeHTML(image.title)}"` : '';
+  const img = `<img src="${escapeHTML(image.src)}" alt="${escapeHTML(image.alt ?? '')}"${titleAttr}${widthAttr}${styleAttribute({
+    display: 'block',
+    border: '0',
+    'max-width': '100%',
+    height: 'auto',
+    ...declarations,
+  })}>`;
+
+  if (!image.link?.href) {
+    return img;
+  }
+
+  return `<a${linkAttributes(image.link)}>${img}</a>`;
+}
+
+/**
+ * Options for {@link renderButton}
+ */
+export interface ButtonRenderOptions {
+  /**
+   * Visual variant
+   */
+  variant?: 'filled' | 'outlined' | 'text' | undefined;
+
+  /**
+   * Accent color (fill for filled buttons, border/text for the others)
+   */
+  accentColor?: string | undefined;
+
+  /**
+   * Text color (defaults to white on filled buttons, accent otherwise)
+   */
+  color?: string | undefined;
+
+  /**
+   * Border radius (CSS)
+   */
+  borderRadius?: string | undefined;
+
+  /**
+   * Padding (CSS)
+   */
+  padding?: string | undefined;
+
+  /**
+   * Border (CSS shorthand), overrides the variant border
+   */
+  border?: string | undefined;
+
+  /**
+   * Typography declarations
+   */
+  typography?: StyleDeclarations | undefined;
+
+  /**
+   * Adds a VML round rectangle shown instead of the button in Outlook for Windows
+   */
+  vmlFallback?: boolean | undefined;
+}
+
+/**
+ * Renders a "bulletproof" button: a table cell carrying the background so the
+ * button stays clickable and colored in clients that ignore padding on links
+ *
+ * @param button - Button content
+ * @param options - Render options
+ * @returns Button HTML
+ */
+export function renderButton(button: ButtonContent, options: ButtonRenderOptions = {}): string {
+  const variant = options.variant ?? 'filled';
+  const accent = options.accentColor ?? '#007bff';
+  const isFilled = variant === 'filled';
+  const radius = options.borderRadius ?? '4px';
+
+  const cellStyles: StyleDeclarations = {
+    'background-color': isFilled ? accent : undefined,
+    'border-radius': radius,
+  };
+
+  const linkStyles: StyleDeclarations = {
+    display: 'inline-block',
+    padding: options.padding ?? '12px 24px',
+    'font-family': DEFAULT_FONT_FAMILY,
+    'font-size': '16px',
+    'font-weight': 500,
+    ...options.typography,
+    color: options.color ?? (isFilled ? '#ffffff' : accent),
+    'background-color': isFilled ? accent : undefined,
+    border: options.border ?? (variant === 'outlined' ? `2px solid ${accent}` : undefined),
+    'border-radius': radius,
+    'text-decoration': 'none',
+  };
+
+  const html =
+    '<table role="presentation" border="0" cellpadding="0" cellspacing="0">' +
+    `<tr><td align="center"${styleAttribute(cellStyles)}>` +
+    `<a${linkAttributes(button.link)}${styleAttribute(linkStyles)}>${escapeHTML(button.text || 'Button')}</a>` +
+    '</td></tr></table>';
+
+  if (!options.vmlFallback) {
+    return html;
+  }
+
+  return `${renderVMLButton(button, linkStyles, isFilled ? accent : undefined, variant === 'outlined' ? accent : undefined)}<!--[if !mso]><!-->${html}<!--<![endif]-->`;
+}
+
+/**
+ * Renders the Outlook for Windows version of a button as a VML round rectangle
+ *
+ * VML shapes need explicit dimensions, estimated from the padding, font size
+ * and text length; the corner radius becomes an arc size relative to the
+ * height.
+ */
+function renderVMLButton(
+  button: ButtonContent,
+  linkStyles: StyleDeclarations,
+  fillColor: string | undefined,
+  strokeColor: string | undefined
+): string {
+  const text = button.text || 'Button';
+  const fontSize = pixelValue(parseCSSValue(String(linkStyles['font-size']))) ?? 16;
+  const padding = parseSpacing(String(linkStyles['padding']));
+  const side = (value: CSSValue | undefined) => pixelValue(value) ?? 0;
+  const height = Math.round(fontSize * 1.5 + side(padding?.top) + side(padding?.bottom));
+  const width = Math.round(text.length * fontSize * 0.6 + side(padding?.left) + side(padding?.right));
+  const radius = pixelValue(parseCSSValue(String(linkStyles['border-radius']).split(' ')[0])) ?? 0;
+  const arcSize = Math.min(50, Math.round((radius / height) * 100));
+
+  const attributes = [
+    'xmlns:v="urn:schemas-microsoft-com:vml"',
+    'xmlns:w="urn:schemas-microsoft-com:office:word"',
+    button.link?.href ? `href="${escapeHTML(button.link.href)}"` : undefined,
+    `style="height:${height}px;v-text-anchor:middle;width:${width}px;"`,
+    `arcsize="${arcSize}%"`,
+    fillColor ? `fillcolor="${fillColor}"` : 'filled="f"',
+    strokeColor ? `strokecolor="${strokeColor}" strokeweight="2px"` : 'stroke="f"',
+  ].filter(Boolean);
+
+  const textStyles = styleString({
+    color: linkStyles['color'],
+    'font-family': linkStyles['font-family'],
+    'font-size': `${fontSize}px`,
+    'font-weight': linkStyles['font-weight'],
+  });
+
+  return (
+    `<!--[if mso]><v:roundrect ${attributes.join(' ')}><w:anchorlock/>` +
+    `<center style="${escapeHTML(textStyles)}">${escapeHTML(text)}</center></v:roundrect><![endif]-->`
+  );
+}
+
+/**
+ * Opens a full-width presentation table, optionally with a single styled cell
+ *
+ * @param cellDeclarations - Declarations for the cell
+ * @param align - Horizontal alignment of the cell
+ * @returns Opening markup (close with {@link closeTable})
+ */
+export function openTable(
+  cellDeclarations: StyleDeclarations = {},
+  align?: string
+): string {
+  const alignAttr = align ? ` align="${align}"` : '';
+  return (
+    '<table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%">' +
+    `<tr><td${alignAttr}${styleAttribute(cellDeclarations)}>`
+  );
+}
+
+/**
+ * Closes a table opened with {@link openTable}
+ */
+export function closeTable(): string {
+  return '</td></tr></table>';
+}
@@ -0,0 +1,317 @@
+// @vitest-environment node
+/**
+ * API Storage Adapter Tests
+ *
+ * Runs the adapter against an in-process HTTP server
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { ApiStorageAdapter } from './ApiStorageAdapter';
+import { ApiStorageError, StorageConflictError } from '../errors';
+import { Builder } from '../builder/Builder';
+
+interface StoredEntry {
+  body: string;
+  version: number;
+}
+
+/**
+ * Minimal key/value REST server with ETags and scriptable failures
+ */
+function createMockServer() {
+  const store = new Map<string, StoredEntry>();
+  const requests: Array<{ method: string; url: string; headers: IncomingMessage['headers'] }> = [];
+  const failures: number[] = [];
+
+  const etagOf = (entry: StoredEntry) => `"v${entry.version}"`;
+
+  const handler = (req: IncomingMessage, res: ServerResponse) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      requests.push({ method: req.method ?? '', url: req.url ?? '', headers: req.headers });
+
+      const failure = failures.shift();
+      if (failure !== undefined) {
+        res.writeHead(failure).end();
+        return;
+      }
+
+      if (req.headers['authorization'] !== 'Bearer secret') {
+        res.writeHead(401).end();
+        return;
+      }
+
+      const key = decodeURIComponent((req.url ?? '').replace(/^\/storage\/?/, ''));
+      const entry = store.get(key);
+      const ifMatch = req.headers['if-match'];
+
+      if (!key && req.method === 'DELETE') {
+        store.clear();
+        res.writeHead(204).end();
+        return;
+      }
+
+      if (ifMatch && (!entry || ifMatch !== etagOf(entry))) {
+        res.writeHead(412).end();
+        return;
+      }
+
+      if (req.method === 'GET') {
+        if (!entry) {
+          res.writeHead(404).end();
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json', ETag: etagOf(entry) });
+        res.end(entry.body);
+        return;
+      }
+
+      if (req.method === 'PUT') {
+        const next = { body, version: (entry?.version ?? 0) + 1 };
+        store.set(key, next);
+        res.writeHead(entry ? 200 : 201, { ETag: etagOf(next) }).end();
+        return;
+      }
+
+      if (req.method === 'DELETE') {
+        if (!entry) {
+          res.writeHead(404).end();
+          return;
+        }
+        store.delete(key);
+        res.writeHead(204).end();
+        return;
+      }
+
+      res.writeHead(405).end();
+    });
+  };
+
+  return { server: createServer(handler), store, requests, failures };
+}
+
+describe('ApiStorageAdapter', () => {
+  let mock: ReturnType<typeof createMockServer>;
+  let server: Server;
+  let endpoint: string;
+  let adapter: ApiStorageAdapter;
+  let onError: ReturnType<typeof vi.fn>;
+
+  beforeAll(async () => {
+    mock = createMockServer();
+    server = mock.server;
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/storage`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    mock.store.clear();
+    mock.requests.length = 0;
+    mock.failures.length = 0;
+    onError = vi.fn();
+    adapter = new ApiStorageAdapter({
+      endpoint: `${endpoint}/`,
+      headers: { Authorization: 'Bearer secret' },
+      retryDelay: 1,
+      onError,
+    });
+  });
+
+  describe('get/set/remove/clear', () => {
+    it('should store and read JSON values', async () => {
+      await adapter.set('template:1', { name: 'Welcome' });
+
+      expect(await adapter.get('template:1')).toEqual({ name: 'Welcome' });
+      expect(mock.requests[0]?.url).toBe('/storage/template%3A1');
+      expect(mock.requests[0]?.headers['content-type']).toBe('application/json');
+    });
+
+    it('should return null for missing keys', async () => {
+      expect(await adapter.get('missing')).toBeNull();
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it('should remove values, ignoring missing keys', async () => {
+      await adapter.set('key', 1);
+      await adapter.remove('key');
+      await adapter.remove('key');
+
+      expect(mock.store.has('key')).toBe(false);
+    });
+
+    it('should clear the endpoint', async () => {
+      await adapter.set('a', 1);
+      await adapter.set('b', 2);
+      await adapter.clear();
+
+      expect(mock.store.size).toBe(0);
+      expect(adapter.getETag('a')).toBeUndefined();
+    });
+  });
+
+  describe('auth headers', () => {
+    it('should resolve header functions per request', async () => {
+      const headers = vi.fn(async () => ({ Authorization: 'Bearer secret' }));
+      adapter = new ApiStorageAdapter({ endpoint, headers, retryDelay: 1 });
+
+      await adapter.set('key', 'value');
+      await adapter.get('key');
+
+      expect(headers).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fail with the response status when unauthorized', async () => {
+      adapter = new ApiStorageAdapter({ endpoint, onError });
+
+      const error = await adapter.get('key').catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ApiStorageError);
+      expect((error as ApiStorageError).status).toBe(401);
+      expect((error as ApiStorageError).operation).toBe('read');
+      expect(onError).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('retries', () => {
+    it('should retry server errors with backoff', async () => {
+      mock.failures.push(503, 500);
+
+      await adapter.set('key', 'value');
+
+      expect(mock.requests).toHaveLength(3);
+      expect(mock.store.get('key')?.body).toBe('"value"');
+    });
+
+    it('should give up after maxRetries', async () => {
+      adapter = new ApiStorageAdapter({
+        endpoint,
+        headers: { Authorization: 'Bearer secret' },
+        maxRetries: 1,
+        retryDelay: 1,
+        onError,
+      });
+      mock.failures.push(502, 502, 502);
+
+      await expect(adapter.get('key')).rejects.toMatchObject({ status: 502 });
+      expect(mock.requests).toHaveLength(2);
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry client errors', async () => {
+      mock.failures.push(400);
+
+      await expect(adapter.set('key', 'value')).rejects.toBeInstanceOf(ApiStorageError);
+      expect(mock.requests).toHaveLength(1);
+    });
+
+    it('should retry network errors', async () => {
+      const fetchFn = vi
+        .fn<Parameters<typeof fetch>, ReturnType<typeof fetch>>()
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockImplementation((input, init) => fetch(input, init));
+      adapter = new ApiStorageAdapter({
+        endpoint,
+        headers: { Authorization: 'Bearer secret' },
+        retryDelay: 1,
+        fetch: fetchFn,
+      });
+
+      expect(await adapter.get('key')).toBeNull();
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('optimistic concurrency', () => {
+    it('should send the last known ETag as If-Match', async () => {
+      await adapter.set('key', 1);
+      const etag = adapter.getETag('key');
+      await adapter.set('key', 2);
+
+      expect(etag).toBe('"v1"');
+      expect(mock.requests[1]?.headers['if-match']).toBe('"v1"');
+      expect(adapter.getETag('key')).toBe('"v2"');
+    });
+
+    it('should reject writes when another client changed the value', async () => {
+      const other = new ApiStorageAdapter({
+        endpoint,
+        headers: { Authorization: 'Bearer secret' },
+      });
+
+      await adapter.set('key', 'mine');
+      await other.get('key');
+      await other.set('key', 'theirs');
+
+      const error = await adapter.set('key', 'mine again').catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(StorageConflictError);
+      expect((error as StorageConflictError).key).toBe('key');
+      expect(onError).toHaveBeenCalledWith(error);
+      expect(mock.store.get('key')?.body).toBe('"theirs"');
+    });
+
+    it('should allow writing again after re-reading a conflicting value', async () => {
+      const other = new ApiStorageAdapter({
+        endpoint,
+        headers: { Authorization: 'Bearer secret' },
+      });
+
+      await adapter.set('key', 'mine');
+      await other.get('key');
+      await other.set('key', 'theirs');
+      await adapter.set('key', 'stale').catch(() => undefined);
+
+      await adapter.get('key');
+      await adapter.set('key', 'merged');
+
+      expect(mock.store.get('key')?.body).toBe('"merged"');
+    });
+
+    it('should reject deletes of modified values', async () => {
+      const other = new ApiStorageAdapter({
+        endpoint,
+        headers: { Authorization: 'Bearer secret' },
+      });
+
+      await adapter.set('key', 'mine');
+      await other.get('key');
+      await other.set('key', 'theirs');
+
+      await expect(adapter.remove('key')).rejects.toBeInstanceOf(StorageConflictError);
+      expect(mock.store.has('key')).toBe(true);
+    });
+  });
+
+  describe('Builder integration', () => {
+    it('should use the API adapter for the api storage method', async () => {
+      const builderOnError = vi.fn();
+      const builder = new Builder({
+        target: 'email',
+        storage: {
+          method: 'api',
+          apiEndpoint: endpoint,
+          api: { headers: { Authorization: 'Bearer wrong' }, retryDelay: 1 },
+        },
+        callbacks: { onError: builderOnError },
+      });
+
+      await builder.getTemplateManager().list().catch(() => undefined);
+
+      expect(mock.requests[0]?.url).toBe('/storage/email-builder%3Atemplates%3Alist');
+      expect(builderOnError).toHaveBeenCalledWith(expect.any(ApiStorageError));
+    });
+
+    it('should require an endpoint', () => {
+      expect(
+        () => new Builder({ target: 'email', storage: { method: 'api' } })
+      ).toThrow('API endpoint not provided');
+    });
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * API Storage Adapter
+ *
+ * Implementation of StorageAdapter for a REST API
+ */
+
+import type { StorageAdapter } from '../types/config.types';
+import { ApiStorageError, StorageConflictError } from '../errors';
+import type { ApiStorageAdapterOptions, ApiStorageHeaders } from './api-storage.types';
+
+type StorageOperation = 'read' | 'write' | 'delete' | 'clear';
+
+/**
+ * Status codes worth retrying: timeouts, rate limiting and server errors
+ */
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * API Storage Adapter
+ *
+ * Maps storage operations onto a REST resource per key:
+ *
+ * - `get` → `GET <endpoint>/<key>` (404 resolves to `null`)
+ * - `set` → `PUT <endpoint>/<key>` with a JSON body
+ * - `remove` → `DELETE <endpoint>/<key>`
+ * - `clear` → `DELETE <endpoint>`
+ *
+ * ETags returned by the API are remembered per key and sent back as
+ * `If-Match` on writes and deletes, so a `412 Precondition Failed` response
+ * surfaces as a {@link StorageConflictError} instead of overwriting another
+ * client's changes.
+ *
+ * @example
+ * ```ts
+ * const adapter = new ApiStorageAdapter({
+ *   endpoint: 'https://api.example.com/storage',
+ *   headers: () => ({ Authorization: `Bearer ${getToken()}` }),
+ * });
+ * ```
+ */
+export class ApiStorageAdapter implements StorageAdapter {
+  private endpoint: string;
+  private headers: ApiStorageHeaders;
+  private maxRetries: number;
+  private retryDelay: number;
+  private maxRetryDelay: number;
+  private timeout: number;
+  private fetchFn: typeof fetch;
+  private onError: ((error: Error) => void) | undefined;
+  private etags: Map<string, string> = new Map();
+
+  constructor(options: ApiStorageAdapterOptions) {
+    this.endpoint = options.endpoint.replace(/\/+$/, '');
+    this.headers = options.headers ?? {};
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryDelay = options.retryDelay ?? 300;
+    this.maxRetryDelay = options.maxRetryDelay ?? 5000;
+    this.timeout = options.timeout ?? 10000;
+    this.fetchFn = options.fetch ?? ((input, init) => globalThis.fetch(input, init));
+    this.onError = options.onError;
+  }
+
+  /**
+   * Get value from the API
+   */
+  async get<T = unknown>(key: string): Promise<T | null> {
+    return this.execute('read', key, async () => {
+      const response = await this.request('read', key, this.getKeyURL(key), { method: 'GET' });
+
+      if (response.status === 404) {
+        this.etags.delete(key);
+        return null;
+      }
+
+      this.assertOk(response, 'read', key);
+      this.rememberETag(key, response);
+
+      const text = await response.text();
+      return text ? (JSON.parse(text) as T) : null;
+    });
+  }
+
+  /**
+   * Set value in the API
+   *
+   * @throws {StorageConflictError} If the value changed since it was last read or written
+   */
+  async set<T = unknown>(key: string, value: T): Promise<void> {
+    return this.execute('write', key, async () => {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      const etag = this.etags.get(key);
+      if (etag) {
+        headers['If-Match'] = etag;
+      }
+
+      const response = await this.request('write', key, this.getKeyURL(key), {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify(value),
+      });
+
+      if (response.status === 412) {
+        this.etags.delete(key);
+        throw new StorageConflictError(key, 'write', { url: this.getKeyURL(key) });
+      }
+
+      this.assertOk(response, 'write', key);
+      this.rememberETag(key, response);
+    });
+  }
+
+  /**
+   * Remove value from the API
+   *
+   * Removing a key that does not exist is not an error.
+   *
+   * @throws {StorageConflictError} If the value changed since it was last read or written
+   */
+  async remove(key: string): Promise<void> {
+    return this.execute('delete', key, async () => {
+      const headers: Record<string, string> = {};
+      const etag = this.etags.get(key);
+      if (etag) {
+        headers['If-Match'] = etag;
+      }
+
+      const response = await this.request('delete', key, this.getKeyURL(key), {
+        method: 'DELETE',
+        headers,
+      });
+
+      if (response.status === 412) {
+        this.etags.delete(key);
+        throw new StorageConflictError(key, 'delete', { url: this.getKeyURL(key) });
+      }
+
+      if (response.status !== 404) {
+        this.assertOk(response, 'delete', key);
+      }
+
+      this.etags.delete(key);
+    });
+  }
+
+  /**
+   * Clear all values stored under the endpoint
+   */
+  async clear(): Promise<void> {
+    return this.execute('clear', undefined, async () => {
+      const response = await this.request('clear', undefined, this.endpoint, { method: 'DELETE' });
+
+      this.assertOk(response, 'clear');
+      this.etags.clear();
+    });
+  }
+
+  /**
+   * Gets the last known ETag of a key
+   *
+   * @param key - Storage key
+   * @returns ETag or undefined if the key has not been read or written yet
+   */
+  getETag(key: string): string | undefined {
+    return this.etags.get(key);
+  }
+
+  /**
+   * Runs an operation, reporting failures through `onError` before rethrowing
+   */
+  private async execute<T>(
+    operation: StorageOperation,
+    key: string | undefined,
+    run: () => Promise<T>
+  ): Promise<T> {
+    try {
+      return await run();
+    } catch (error) {
+      const storageError =
+        error instanceof ApiStorageError
+          ? error
+          : new ApiStorageError(
+              `Failed to ${operation} ${key ?? 'storage'}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              operation,
+              key
+            );
+
+      this.onError?.(storageError);
+      throw storageError;
+    }
+  }
+
+  /**
+   * Sends a request, retrying network errors and retryable statuses with
+   * exponential backoff
+   */
+  private async request(
+    operation: StorageOperation,
+    key: string | undefined,
+    url: string,
+    init: RequestInit
+  ): Promise<Response> {
+    let attempt = 0;
+
+    while (true) {
+      const headers = {
+        Accept: 'application/json',
+        ...(await this.resolveHeaders()),
+        ...(init.headers as Record<string, string> | undefined),
+      };
+
+      let response: Response;
+      try {
+        response = await this.fetchWithTimeout(url, { ...init, headers });
+      } catch (error) {
+        if (attempt >= this.maxRetries) {
+          throw new ApiStorageError(
+            `Failed to ${operation} ${key ?? 'storage'}: ${error instanceof Error ? error.message : 'Network error'}`,
+            operation,
+            key,
+            undefined,
+            { url, attempts: attempt + 1 }
+          );
+        }
+
+        await this.wait(this.getRetryDelay(attempt));
+        attempt++;
+        continue;
+      }
+
+      if (!RETRYABLE_STATUSES.has(response.status) || attempt >= this.maxRetries) {
+        return response;
+      }
+
+      await this.wait(this.getRetryDelay(attempt, response.headers.get('Retry-After')));
+      attempt++;
+    }
+  }
+
+  /**
+   * Fetches with an abort timeout
+   */
+  private async fetchWithTimeout(url: string, init: RequestInit): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      return await this.fetchFn(url, { ...init, signal: controller.signal });
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Resolves the configured headers
+   */
+  private async resolveHeaders(): Promise<Record<string, string>> {
+    return typeof this.headers === 'function' ? this.headers() : this.headers;
+  }
+
+  /**
+   * Calculates the delay before a retry
+   *
+   * A `Retry-After` header (in seconds) takes precedence over the backoff,
+   * both capped at `maxRetryDelay`.
+   */
+  private getRetryDelay(attempt: number, retryAfter?: string | null): number {
+    const retryAfterSeconds = retryAfter ? Number(retryAfter) : NaN;
+    const delay = Number.isFinite(retryAfterSeconds)
+      ? retryAfterSeconds * 1000
+      : this.retryDelay * 2 ** attempt;
+
+    return Math.min(delay, this.maxRetryDelay);
+  }
+
+  /**
+   * Throws an ApiStorageError for unsuccessful responses
+   */
+  private assertOk(response: Response, operation: StorageOperation, key?: string): void {
+    if (response.ok) {
+      return;
+    }
+
+    throw new ApiStorageError(
+      `Failed to ${operation} ${key ?? 'storage'}: HTTP ${response.status}`,
+      operation,
+      key,
+      response.status,
+      { url: response.url }
+    );
+  }
+
+  /**
+   * Stores the ETag of a response, or forgets the key's ETag if none was sent
+   */
+  private rememberETag(key: string, response: Response): void {
+    const etag = response.headers.get('ETag');
+
+    if (etag) {
+      this.etags.set(key, etag);
+    } else {
+      this.etags.delete(key);
+    }
+  }
+
+  /**
+   * Builds the resource URL of a key
+   */
+  private getKeyURL(key: string): string {
+    return `${this.endpoint}/${encodeURIComponent(key)}`;
+  }
+
+  /**
+   * Waits for the given number of milliseconds
+   */
+  private wait(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
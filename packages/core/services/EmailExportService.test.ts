@@ -379,4 +379,82 @@ describe('EmailExportService', () => {
       expect(result.stats.outputSize).toBeGreaterThan(0);
     });
   });
+
+  describe('Plain-text alternative', () => {
+    it('should return the plain text next to the HTML', () => {
+      const result = service.export(
+        '<h1>Hello</h1><p>Welcome aboard.</p><div class="component component-footer"><a href="https://example.com/unsubscribe">Unsubscribe</a></div>'
+      );
+
+      expect(result.text).toBe(
+        'Hello\n=====\n\nWelcome aboard.\n\nUnsubscribe [1]\n\n[1] https://example.com/unsubscribe'
+      );
+    });
+
+    it('should wrap at the configured width', () => {
+      const service = new EmailExportService({ plainText: { wrapWidth: 10 } });
+      const result = service.export('<p>alpha beta gamma</p>');
+
+      expect(result.text).toBe('alpha beta\ngamma');
+    });
+
+    it('should skip the plain text when disabled', () => {
+      const service = new EmailExportService({ plainText: false });
+
+      expect(service.export('<p>Test</p>').text).toBeUndefined();
+    });
+  });
+
+  describe('Dark mode', () => {
+    const html =
+      '<style>.title { color: #333 } @media (prefers-color-scheme: dark) { .title { color: #fff !important; } }' +
+      ' [data-ogsc] .title { color: #fff !important; }</style><div class="title">Hi</div>';
+
+    it('should keep dark mode rules and add color scheme meta tags', () => {
+      const result = new EmailExportService({ darkMode: true }).export(html);
+
+      expect(result.html).toContain('<meta name="color-scheme" content="light dark">');
+      expect(result.html).toContain(':root { color-scheme: light dark; supported-color-schemes: light dark; }');
+      expect(result.html).toContain('@media (prefers-color-scheme: dark) { .title { color: #fff !important; } }');
+      expect(result.html).toContain('[data-ogsc] .title { color: #fff !important; }');
+      expect(result.html).toContain('style="color: #333"');
+    });
+
+    it('should drop dark mode rules when disabled', () => {
+      const result = service.export(html);
+
+      expect(result.html).not.toContain('color-scheme');
+      expect(result.html).not.toContain('[data-ogsc]');
+    });
+  });
+
+  describe('CSS parsing', () => {
+    it('should extract rules from style blocks', () => {
+      const rules = service.extractCSS(
+        '<style>/* brand */ .title { color: #333; font-size: 20px } @media (max-width: 600px) { }</style><p>Hi</p>'
+      );
+
+      expect(rules).toEqual([
+        { selector: '.title', properties: { color: '#333', 'font-size': '20px' }, specificity: 10 },
+      ]);
+    });
+
+    it('should skip the rules nested in at-rules', () => {
+      const rules = service.parseCSS(
+        '@media (prefers-color-scheme: dark) { .title { color: #fff } .body { color: #ccc } } .body { color: #333 }'
+      );
+
+      expect(rules.map((rule) => rule.selector)).toEqual(['.body']);
+      expect(rules[0]?.properties).toEqual({ color: '#333' });
+    });
+
+    it('should parse inline styles with colons in values', () => {
+      expect(
+        service.parseInlineStyle('Color: red; background-image: url(https://example.com/a.png);')
+      ).toEqual({
+        color: 'red',
+        'background-image': 'url(https://example.com/a.png)',
+      });
+    });
+  });
 });
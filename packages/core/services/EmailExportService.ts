@@ -7,6 +7,7 @@
  * - Outlook conditional comments
  * - Email-incompatible CSS removal
  * - Structure optimizations
+ * - Plain-text alternative generation
  */
 
 import type {
@@ -16,6 +17,8 @@ import type {
   CSSRule,
   CSSCompatibility,
 } from './email-export.types';
+import { htmlToPlainText } from '../renderer/plain-text';
+import { COLOR_SCHEME_META_TAGS } from '../renderer/dark-mode';
 
 /**
  * Default export options
@@ -36,6 +39,8 @@ const DEFAULT_OPTIONS: Required<EmailExportOptions> = {
     yahoo: true,
   },
   maxWidth: 600,
+  plainText: true,
+  darkMode: false,
   minify: false,
 };
 
@@ -172,6 +177,7 @@ export class EmailExportService {
 
     try {
       let processedHTML = html;
+      const darkModeCSS = this.options.darkMode ? this.extractDarkModeCSS(html) : '';
 
       // Step 1: Parse and extract CSS
       const cssRules = this.options.inlineCSS ? this.extractCSS(processedHTML) : [];
@@ -202,15 +208,20 @@ export class EmailExportService {
       }
 
       // Step 7: Wrap in email template
-      const finalHTML = this.wrapInEmailTemplate(processedHTML);
+      const finalHTML = this.wrapInEmailTemplate(processedHTML, darkModeCSS);
 
       // Step 8: Minify if requested
       const output = this.options.minify ? this.minifyHTML(finalHTML) : finalHTML;
 
       this.stats.outputSize = new Blob([output]).size;
 
+      const { plainText } = this.options;
+
       return {
         html: output,
+        ...(plainText !== false && {
+          text: htmlToPlainText(html, plainText === true ? {} : plainText),
+        }),
         warnings: this.warnings,
         stats: this.stats,
       };
@@ -230,9 +241,12 @@ export class EmailExportService {
   }
 
   /**
-   * Extract CSS rules from HTML
+   * Extract CSS rules from the `<style>` blocks of an HTML document
+   *
+   * @param html - HTML document
+   * @returns Parsed rules, in document order
    */
-  private extractCSS(html: string): CSSRule[] {
+  public extractCSS(html: string): CSSRule[] {
     const rules: CSSRule[] = [];
     const styleTagRegex = /<style[^>]*>([\s\S]*?)<\/style>/gi;
     let match;
@@ -250,45 +264,29 @@ export class EmailExportService {
 
   /**
    * Parse CSS text into rules
+   *
+   * At-rules (`@media`, `@font-face`, ...) are skipped, including the rules
+   * they contain.
+   *
+   * @param cssText - Style sheet text
+   * @returns Parsed rules with their specificity
    */
-  private parseCSS(cssText: string): CSSRule[] {
+  public parseCSS(cssText: string): CSSRule[] {
     const rules: CSSRule[] = [];
 
-    // Remove comments
-    cssText = cssText.replace(/\/\*[\s\S]*?\*\//g, '');
-
-    // Match CSS rules
-    const ruleRegex = /([^{]+)\{([^}]+)\}/g;
-    let match;
-
-    while ((match = ruleRegex.exec(cssText)) !== null) {
-      const selector = match[1]?.trim();
-      const propertiesText = match[2];
-
+    for (const { prelude: selector, body: propertiesText } of this.splitCSSBlocks(cssText)) {
       // Skip @media, @keyframes, etc., or invalid selectors
       if (!selector || selector.startsWith('@')) {
         continue;
       }
 
-      if (!propertiesText) {
+      if (!propertiesText.trim()) {
         continue;
       }
 
-      const properties: Record<string, string> = {};
-      const propertyRegex = /([^:]+):([^;]+)/g;
-      let propMatch;
-
-      while ((propMatch = propertyRegex.exec(propertiesText)) !== null) {
-        const property = propMatch[1]?.trim();
-        const value = propMatch[2]?.trim();
-        if (property && value) {
-          properties[property] = value;
-        }
-      }
-
       rules.push({
         selector,
-        properties,
+        properties: this.parseInlineStyle(propertiesText),
         specificity: this.calculateSpecificity(selector),
       });
     }
@@ -296,6 +294,69 @@ export class EmailExportService {
     return rules;
   }
 
+  /**
+   * Extract the dark mode rules from the `<style>` blocks of an HTML document
+   *
+   * Keeps `prefers-color-scheme: dark` media queries and rules scoped to the
+   * Outlook.com `[data-ogsc]`/`[data-ogsb]` attributes, which cannot be inlined.
+   *
+   * @param html - HTML document
+   * @returns Style sheet text, one block per line
+   */
+  public extractDarkModeCSS(html: string): string {
+    const blocks: string[] = [];
+    const styleTagRegex = /<style[^>]*>([\s\S]*?)<\/style>/gi;
+    let match;
+
+    while ((match = styleTagRegex.exec(html)) !== null) {
+      for (const { prelude, body } of this.splitCSSBlocks(match[1] ?? '')) {
+        if (/prefers-color-scheme\s*:\s*dark/i.test(prelude) || /\[data-ogs[cb]\]/i.test(prelude)) {
+          blocks.push(`${prelude} { ${body.replace(/\s+/g, ' ').trim()} }`);
+        }
+      }
+    }
+
+    return blocks.join('\n');
+  }
+
+  /**
+   * Split a style sheet into its top-level blocks
+   *
+   * The body of an at-rule block holds its nested rules as text.
+   */
+  private splitCSSBlocks(cssText: string): Array<{ prelude: string; body: string }> {
+    const blocks: Array<{ prelude: string; body: string }> = [];
+    const css = cssText.replace(/\/\*[\s\S]*?\*\//g, '');
+    let depth = 0;
+    let preludeStart = 0;
+    let bodyStart = 0;
+
+    for (let index = 0; index < css.length; index++) {
+      const char = css[index];
+
+      if (char === '{') {
+        if (depth === 0) {
+          bodyStart = index + 1;
+        }
+        depth++;
+      } else if (char === '}' && depth > 0) {
+        depth--;
+        if (depth === 0) {
+          blocks.push({
+            prelude: css.slice(preludeStart, bodyStart - 1).trim(),
+            body: css.slice(bodyStart, index),
+          });
+          preludeStart = index + 1;
+        }
+      } else if (char === ';' && depth === 0) {
+        // Statement at-rules such as @import
+        preludeStart = index + 1;
+      }
+    }
+
+    return blocks;
+  }
+
   /**
    * Calculate CSS specificity for a selector
    */
@@ -348,15 +409,21 @@ export class EmailExportService {
 
   /**
    * Parse inline style attribute into properties object
+   *
+   * @param styleText - Value of a `style` attribute
+   * @returns Declarations keyed by lowercase property name
    */
-  private parseInlineStyle(styleText: string): Record<string, string> {
+  public parseInlineStyle(styleText: string): Record<string, string> {
     const properties: Record<string, string> = {};
 
     if (!styleText) return properties;
 
     styleText.split(';').forEach((declaration) => {
-      const [property, value] = declaration.split(':').map((s) => s.trim());
-      if (property && value) {
+      // Split on the first colon only, values such as url(https://...) contain more
+      const separator = declaration.indexOf(':');
+      const property = declaration.slice(0, separator).trim().toLowerCase();
+      const value = declaration.slice(separator + 1).trim();
+      if (separator > 0 && property && value) {
         properties[property] = value;
       }
     });
@@ -543,11 +610,12 @@ ${html}
   /**
    * Wrap content in complete email template
    */
-  private wrapInEmailTemplate(bodyContent: string): string {
+  private wrapInEmailTemplate(bodyContent: string, darkModeCSS = ''): string {
     const metaTags: string[] = [
       `<meta charset="${this.options.charset}">`,
       '<meta name="viewport" content="width=device-width, initial-scale=1.0">',
       '<meta http-equiv="X-UA-Compatible" content="IE=edge">',
+      ...(this.options.darkMode ? COLOR_SCHEME_META_TAGS : []),
     ];
 
     // Add client-specific meta tags
@@ -560,8 +628,8 @@ ${html}
       );
     }
 
-    // Build style tag with resets
-    const resetStyles = this.buildResetStyles();
+    // Build style tag with resets, followed by the dark mode rules
+    const resetStyles = [this.buildResetStyles(), darkModeCSS].filter(Boolean).join('\n');
 
     // Build Outlook conditional comment if needed
     const outlookStyles = this.options.addOutlookFixes && this.options.clientOptimizations.outlook
@@ -614,6 +682,10 @@ ${bodyContent}
       'a { text-decoration: none; }',
     ];
 
+    if (this.options.darkMode) {
+      resets.push(':root { color-scheme: light dark; supported-color-schemes: light dark; }');
+    }
+
     // Gmail-specific resets
     if (this.options.clientOptimizations.gmail) {
       resets.push(
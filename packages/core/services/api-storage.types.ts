@@ -0,0 +1,77 @@
+/**
+ * API Storage Types
+ *
+ * Type definitions for the REST-backed storage adapter
+ */
+
+/**
+ * Request headers, or a function resolving them per request
+ *
+ * Use a function when auth tokens are refreshed during the session.
+ */
+export type ApiStorageHeaders =
+  | Record<string, string>
+  | (() => Record<string, string> | Promise<Record<string, string>>);
+
+/**
+ * API storage options
+ *
+ * Everything the adapter needs apart from the endpoint, which comes from
+ * `StorageConfig.apiEndpoint`
+ */
+export interface ApiStorageOptions {
+  /**
+   * Headers sent with every request (e.g. `Authorization`)
+   */
+  headers?: ApiStorageHeaders;
+
+  /**
+   * Number of retries for network errors, 408, 429 and 5xx responses
+   *
+   * @default 3
+   */
+  maxRetries?: number;
+
+  /**
+   * Delay before the first retry, in milliseconds. Doubles on each attempt.
+   *
+   * @default 300
+   */
+  retryDelay?: number;
+
+  /**
+   * Upper bound for the retry delay, in milliseconds
+   *
+   * @default 5000
+   */
+  maxRetryDelay?: number;
+
+  /**
+   * Request timeout, in milliseconds
+   *
+   * @default 10000
+   */
+  timeout?: number;
+
+  /**
+   * Fetch implementation
+   *
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * API storage adapter options
+ */
+export interface ApiStorageAdapterOptions extends ApiStorageOptions {
+  /**
+   * Base URL of the storage API. Values are stored at `<endpoint>/<key>`.
+   */
+  endpoint: string;
+
+  /**
+   * Called with the typed error before a failed operation rejects
+   */
+  onError?: (error: Error) => void;
+}
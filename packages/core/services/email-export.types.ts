@@ -4,6 +4,8 @@
  * Types for converting builder HTML to email-safe HTML
  */
 
+import type { PlainTextOptions } from '../renderer/plain-text';
+
 /**
  * Email export configuration options
  */
@@ -85,6 +87,20 @@ export interface EmailExportOptions {
    */
   maxWidth?: number;
 
+  /**
+   * Whether to generate the plain-text alternative, optionally with rendering options
+   * @default true
+   */
+  plainText?: boolean | PlainTextOptions;
+
+  /**
+   * Whether to mark the email as dark mode aware: adds the `color-scheme`
+   * meta tags and keeps the `prefers-color-scheme: dark` media queries and
+   * Outlook.com `[data-ogsc]`/`[data-ogsb]` rules of the source style sheets
+   * @default false
+   */
+  darkMode?: boolean;
+
   /**
    * Whether to minify the output HTML
    * @default false
@@ -121,6 +137,11 @@ export interface EmailExportResult {
    */
   html: string;
 
+  /**
+   * Plain-text alternative (text/plain part); absent when `plainText` is disabled
+   */
+  text?: string;
+
   /**
    * Warnings encountered during export
    */
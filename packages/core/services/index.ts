@@ -4,6 +4,7 @@
 
 export { EventEmitter } from './EventEmitter';
 export { LocalStorageAdapter } from './LocalStorageAdapter';
+export { ApiStorageAdapter } from './ApiStorageAdapter';
 export { EmailExportService } from './EmailExportService';
 
 /**
@@ -18,3 +19,12 @@ export type {
   CSSRule,
   TableConversionContext,
 } from './email-export.types';
+
+/**
+ * API storage types
+ */
+export type {
+  ApiStorageOptions,
+  ApiStorageAdapterOptions,
+  ApiStorageHeaders,
+} from './api-storage.types';
@@ -26,8 +26,11 @@ export * from '../builder';
 export * from '../commands';
 
 // Export services
-export { EventEmitter, LocalStorageAdapter, EmailExportService } from '../services';
+export { EventEmitter, LocalStorageAdapter, ApiStorageAdapter, EmailExportService } from '../services';
 export type {
+  ApiStorageOptions,
+  ApiStorageAdapterOptions,
+  ApiStorageHeaders,
   EmailExportOptions,
   EmailExportResult,
   EmailExportWarning,
@@ -40,6 +43,21 @@ export type {
 // Export template management
 export * from '../template';
 
+// Export component renderers
+export * from '../renderer';
+
+// Export themes
+export * from '../theme';
+
+// Export customization (themes, variants, recipes, profiles, blueprints)
+export * from '../customization';
+
+// Export MJML conversion
+export * from '../mjml';
+
+// Export HTML email import
+export * from '../html-import';
+
 // Export component registry and definitions
 export { ComponentRegistry, RegistryEvent, RegistryError } from '../components/ComponentRegistry';
 export type { ComponentFilter } from '../components/ComponentRegistry';
@@ -48,6 +66,9 @@ export * from '../components/definitions/registry-init';
 // Export email testing integration
 export * from '../email-testing';
 
+// Export test email sending
+export * from '../test-sender';
+
 // Export tips
 export * from '../tips';
 
@@ -0,0 +1,226 @@
+/**
+ * Auto-Save Manager Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AutoSaveManager, type AutoSaveStatus } from './AutoSaveManager';
+import { EventEmitter } from '../services/EventEmitter';
+import { BuilderEvent } from '../types';
+import type { Template } from '../types/template.types';
+import { StorageConflictError } from '../errors';
+import { TemplateStorageError } from './TemplateStorage';
+
+describe('AutoSaveManager', () => {
+  let eventEmitter: EventEmitter;
+  let template: Template;
+  let save: ReturnType<typeof vi.fn>;
+  let states: AutoSaveStatus[];
+  let manager: AutoSaveManager;
+
+  const createManager = (options: { maxRetries?: number } = {}) =>
+    new AutoSaveManager({
+      eventEmitter,
+      getTemplate: () => template,
+      save,
+      debounce: 100,
+      retryDelay: 50,
+      ...options,
+    });
+
+  // Builder events are delivered on the next tick
+  const flushEvents = () => vi.advanceTimersByTimeAsync(1);
+
+  const edit = async () => {
+    eventEmitter.emit(BuilderEvent.COMMAND_EXECUTED, {});
+    await flushEvents();
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    eventEmitter = new EventEmitter();
+    template = { metadata: { id: 'template-1' } } as Template;
+    save = vi.fn().mockResolvedValue(undefined);
+    states = [];
+    eventEmitter.on<AutoSaveStatus>(BuilderEvent.SAVE_STATE_CHANGED, (status) => {
+      states.push(status);
+    });
+    manager = createManager();
+  });
+
+  afterEach(() => {
+    manager.destroy();
+    vi.useRealTimers();
+  });
+
+  describe('debouncing', () => {
+    it('should save once edits settle', async () => {
+      await edit();
+      await vi.advanceTimersByTimeAsync(50);
+      await edit();
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(save).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(save).toHaveBeenCalledTimes(1);
+      expect(save).toHaveBeenCalledWith(template);
+    });
+
+    it('should emit dirty, saving and saved states', async () => {
+      await edit();
+      await vi.advanceTimersByTimeAsync(100);
+      await flushEvents();
+
+      expect(states.map((status) => status.state)).toEqual(['dirty', 'saving', 'saved']);
+      expect(manager.isDirty()).toBe(false);
+      expect(manager.getStatus().lastSavedAt).toBeDefined();
+    });
+
+    it('should react to undo and redo', async () => {
+      eventEmitter.emit(BuilderEvent.UNDO, {});
+      await vi.advanceTimersByTimeAsync(101);
+      eventEmitter.emit(BuilderEvent.REDO, {});
+      await vi.advanceTimersByTimeAsync(101);
+
+      expect(save).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('concurrent edits', () => {
+    it('should stay dirty and save again when edited during a save', async () => {
+      let resolveSave: () => void = () => undefined;
+      save.mockImplementationOnce(() => new Promise<void>((resolve) => (resolveSave = resolve)));
+
+      await edit();
+      await vi.advanceTimersByTimeAsync(100);
+      expect(manager.getStatus().state).toBe('saving');
+
+      await edit();
+      resolveSave();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(manager.getStatus().state).toBe('dirty');
+      expect(manager.isDirty()).toBe(true);
+
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(save).toHaveBeenCalledTimes(2);
+      expect(manager.getStatus().state).toBe('saved');
+    });
+  });
+
+  describe('failures', () => {
+    it('should retry failed saves with backoff', async () => {
+      save.mockRejectedValueOnce(new Error('offline')).mockRejectedValueOnce(new Error('offline'));
+
+      await edit();
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(manager.getStatus()).toMatchObject({ state: 'failed', willRetry: true, retryIn: 50 });
+
+      await vi.advanceTimersByTimeAsync(50);
+      expect(manager.getStatus()).toMatchObject({ state: 'failed', retryIn: 100 });
+
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(save).toHaveBeenCalledTimes(3);
+      expect(manager.getStatus().state).toBe('saved');
+    });
+
+    it('should stop retrying after maxRetries', async () => {
+      manager.destroy();
+      manager = createManager({ maxRetries: 1 });
+      save.mockRejectedValue(new Error('offline'));
+
+      await edit();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(save).toHaveBeenCalledTimes(2);
+      expect(manager.getStatus()).toMatchObject({ state: 'failed', willRetry: false });
+      expect(manager.isDirty()).toBe(true);
+    });
+
+    it('should not retry storage conflicts', async () => {
+      const conflict = new TemplateStorageError('Failed to save template', {
+        cause: new StorageConflictError('template-1', 'write'),
+      });
+      save.mockRejectedValue(conflict);
+
+      await edit();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(save).toHaveBeenCalledTimes(1);
+      expect(manager.getStatus()).toMatchObject({
+        state: 'failed',
+        conflict: true,
+        willRetry: false,
+        error: conflict,
+      });
+    });
+
+    it('should report failures through onError', async () => {
+      const onError = vi.fn();
+      manager.destroy();
+      manager = new AutoSaveManager({
+        eventEmitter,
+        getTemplate: () => template,
+        save,
+        onError,
+        debounce: 100,
+        maxRetries: 0,
+      });
+      save.mockRejectedValue(new Error('offline'));
+
+      await edit();
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'offline' }));
+    });
+  });
+
+  describe('flush', () => {
+    it('should save pending changes immediately', async () => {
+      await edit();
+      await manager.flush();
+
+      expect(save).toHaveBeenCalledTimes(1);
+      expect(manager.isDirty()).toBe(false);
+    });
+
+    it('should do nothing without pending changes', async () => {
+      await manager.flush();
+
+      expect(save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('markSaved/reset', () => {
+    it('should cancel the scheduled save after a manual save', async () => {
+      await edit();
+      manager.markSaved();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(save).not.toHaveBeenCalled();
+      expect(manager.getStatus().state).toBe('saved');
+    });
+
+    it('should return to idle on reset', async () => {
+      await edit();
+      manager.reset();
+
+      expect(manager.isDirty()).toBe(false);
+      expect(manager.getStatus().state).toBe('idle');
+    });
+  });
+
+  describe('destroy', () => {
+    it('should stop watching commands', async () => {
+      manager.destroy();
+      await edit();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(save).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,373 @@
+/**
+ * Auto-Save Manager
+ *
+ * Watches command execution and saves the current template after edits settle
+ */
+
+import type { Template } from '../types/template.types';
+import { BuilderEvent, type EventSubscription } from '../types';
+import type { EventEmitter } from '../services/EventEmitter';
+import { StorageConflictError } from '../errors';
+
+/**
+ * Save state of the current template
+ *
+ * - `idle`: nothing edited since the template was loaded
+ * - `dirty`: unsaved changes, a save is scheduled
+ * - `saving`: a save is in progress
+ * - `saved`: all changes are saved
+ * - `failed`: the last save failed (see `willRetry`)
+ */
+export type AutoSaveState = 'idle' | 'dirty' | 'saving' | 'saved' | 'failed';
+
+/**
+ * Payload of `BuilderEvent.SAVE_STATE_CHANGED`
+ */
+export interface AutoSaveStatus {
+  state: AutoSaveState;
+
+  /**
+   * Time of the last successful save
+   */
+  lastSavedAt?: number;
+
+  /**
+   * Error of the last failed save
+   */
+  error?: Error;
+
+  /**
+   * Whether the failure was a storage conflict (another client saved first).
+   * Conflicts are not retried.
+   */
+  conflict?: boolean;
+
+  /**
+   * Whether a retry is scheduled after a failure
+   */
+  willRetry?: boolean;
+
+  /**
+   * Delay before the scheduled retry, in milliseconds
+   */
+  retryIn?: number;
+}
+
+/**
+ * Auto-save manager options
+ */
+export interface AutoSaveManagerOptions {
+  /**
+   * Event emitter the builder commands run on
+   */
+  eventEmitter: EventEmitter;
+
+  /**
+   * Returns the template to save
+   */
+  getTemplate: () => Template | null;
+
+  /**
+   * Persists a template
+   */
+  save: (template: Template) => Promise<void>;
+
+  /**
+   * Called with every failed save
+   */
+  onError?: (error: Error) => void;
+
+  /**
+   * Quiet period after the last edit before saving, in milliseconds
+   *
+   * @default 1000
+   */
+  debounce?: number;
+
+  /**
+   * Number of retries after a failed save
+   *
+   * @default 3
+   */
+  maxRetries?: number;
+
+  /**
+   * Delay before the first retry, in milliseconds. Doubles on each attempt.
+   *
+   * @default 1000
+   */
+  retryDelay?: number;
+
+  /**
+   * Upper bound for the retry delay, in milliseconds
+   *
+   * @default 30000
+   */
+  maxRetryDelay?: number;
+}
+
+/**
+ * Events that change the template
+ */
+const EDIT_EVENTS = [BuilderEvent.COMMAND_EXECUTED, BuilderEvent.UNDO, BuilderEvent.REDO];
+
+/**
+ * Auto-Save Manager
+ *
+ * Marks the template dirty whenever a command is executed, undone or redone,
+ * and saves it once edits have paused for the debounce period. Edits made
+ * while a save is running keep the template dirty and trigger another save,
+ * so no change is reported as saved before it actually is.
+ *
+ * @example
+ * ```ts
+ * builder.on(BuilderEvent.SAVE_STATE_CHANGED, (status: AutoSaveStatus) => {
+ *   console.log(status.state);
+ * });
+ * ```
+ */
+export class AutoSaveManager {
+  private eventEmitter: EventEmitter;
+  private getTemplate: () => Template | null;
+  private save: (template: Template) => Promise<void>;
+  private onError: ((error: Error) => void) | undefined;
+  private debounce: number;
+  private maxRetries: number;
+  private retryDelay: number;
+  private maxRetryDelay: number;
+
+  private status: AutoSaveStatus = { state: 'idle' };
+  private subscriptions: EventSubscription[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private currentSave: Promise<void> | null = null;
+  private revision = 0;
+  private savedRevision = 0;
+  private attempt = 0;
+  private destroyed = false;
+
+  constructor(options: AutoSaveManagerOptions) {
+    this.eventEmitter = options.eventEmitter;
+    this.getTemplate = options.getTemplate;
+    this.save = options.save;
+    this.onError = options.onError;
+    this.debounce = options.debounce ?? 1000;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryDelay = options.retryDelay ?? 1000;
+    this.maxRetryDelay = options.maxRetryDelay ?? 30000;
+
+    this.subscriptions = EDIT_EVENTS.map((event) =>
+      this.eventEmitter.on(event, () => this.markDirty())
+    );
+  }
+
+  /**
+   * Sets where the template to save comes from
+   *
+   * UIs keeping the edited template in their own state use this to hand it
+   * to the auto-saver.
+   *
+   * @param source - Returns the template to save
+   */
+  setTemplateSource(source: () => Template | null): void {
+    this.getTemplate = source;
+  }
+
+  /**
+   * Gets the current save status
+   */
+  getStatus(): Readonly<AutoSaveStatus> {
+    return this.status;
+  }
+
+  /**
+   * Checks if there are unsaved changes
+   */
+  isDirty(): boolean {
+    return this.revision !== this.savedRevision;
+  }
+
+  /**
+   * Marks the template as changed and schedules a save
+   */
+  markDirty(): void {
+    if (this.destroyed) {
+      return;
+    }
+
+    this.revision++;
+    this.attempt = 0;
+
+    if (this.status.state !== 'saving') {
+      this.setStatus({ state: 'dirty' });
+    }
+
+    this.schedule(this.debounce);
+  }
+
+  /**
+   * Marks all changes as saved, e.g. after a manual save
+   */
+  markSaved(): void {
+    this.clearTimer();
+    this.savedRevision = this.revision;
+    this.attempt = 0;
+    this.setStatus({ state: 'saved', lastSavedAt: Date.now() });
+  }
+
+  /**
+   * Resets to a clean state, e.g. after loading another template
+   */
+  reset(): void {
+    this.clearTimer();
+    this.savedRevision = this.revision;
+    this.attempt = 0;
+    this.setStatus({ state: 'idle' });
+  }
+
+  /**
+   * Saves pending changes immediately
+   *
+   * @returns Promise resolving when pending changes are saved (or the save failed)
+   */
+  async flush(): Promise<void> {
+    this.clearTimer();
+
+    if (this.currentSave) {
+      await this.currentSave;
+    }
+
+    if (this.isDirty()) {
+      await this.run(false);
+    }
+  }
+
+  /**
+   * Stops watching commands and cancels scheduled saves
+   *
+   * A save already in progress still completes.
+   */
+  destroy(): void {
+    this.destroyed = true;
+    this.clearTimer();
+    this.subscriptions.forEach((subscription) => subscription.unsubscribe());
+    this.subscriptions = [];
+  }
+
+  /**
+   * Runs a save of the current revision
+   *
+   * @param retry - Whether to schedule a retry on failure
+   */
+  private run(retry: boolean): Promise<void> {
+    const template = this.getTemplate();
+
+    if (!template) {
+      return Promise.resolve();
+    }
+
+    const revision = this.revision;
+    this.setStatus({ state: 'saving', ...this.lastSavedAt() });
+
+    this.currentSave = this.save(template)
+      .then(() => {
+        this.savedRevision = Math.max(this.savedRevision, revision);
+        this.attempt = 0;
+
+        if (this.isDirty()) {
+          // Edited while saving: keep dirty, the edit already scheduled another save
+          this.setStatus({ state: 'dirty', lastSavedAt: Date.now() });
+        } else {
+          this.setStatus({ state: 'saved', lastSavedAt: Date.now() });
+        }
+      })
+      .catch((error: unknown) => {
+        this.handleFailure(error instanceof Error ? error : new Error(String(error)), retry);
+      })
+      .finally(() => {
+        this.currentSave = null;
+      });
+
+    return this.currentSave;
+  }
+
+  /**
+   * Reports a failed save and schedules a retry with exponential backoff
+   */
+  private handleFailure(error: Error, retry: boolean): void {
+    const conflict = isConflict(error);
+    const canRetry = retry && !conflict && !this.destroyed && this.attempt < this.maxRetries;
+    const retryIn = canRetry
+      ? Math.min(this.retryDelay * 2 ** this.attempt, this.maxRetryDelay)
+      : undefined;
+
+    this.setStatus({
+      state: 'failed',
+      error,
+      conflict,
+      willRetry: canRetry,
+      ...(retryIn !== undefined && { retryIn }),
+      ...this.lastSavedAt(),
+    });
+
+    this.onError?.(error);
+
+    if (retryIn !== undefined) {
+      this.attempt++;
+      this.schedule(retryIn);
+    }
+  }
+
+  /**
+   * Schedules a save, replacing any scheduled one
+   */
+  private schedule(delay: number): void {
+    this.clearTimer();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+
+      if (this.currentSave) {
+        // A save is running: try again once it has finished
+        void this.currentSave.then(() => {
+          if (this.isDirty() && !this.timer && !this.destroyed) {
+            this.schedule(0);
+          }
+        });
+        return;
+      }
+
+      void this.run(true);
+    }, delay);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private lastSavedAt(): Pick<AutoSaveStatus, 'lastSavedAt'> {
+    return this.status.lastSavedAt !== undefined ? { lastSavedAt: this.status.lastSavedAt } : {};
+  }
+
+  private setStatus(status: AutoSaveStatus): void {
+    this.status = status;
+    this.eventEmitter.emit(BuilderEvent.SAVE_STATE_CHANGED, status);
+  }
+}
+
+/**
+ * Checks whether an error, or one of its causes, is a storage conflict
+ */
+function isConflict(error: unknown): boolean {
+  let current: unknown = error;
+
+  while (current instanceof Error) {
+    if (current instanceof StorageConflictError) {
+      return true;
+    }
+    current = current.cause;
+  }
+
+  return false;
+}
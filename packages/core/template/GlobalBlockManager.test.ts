@@ -0,0 +1,139 @@
+/**
+ * Global Block Manager Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GlobalBlockManager, GlobalBlockManagerEvent } from './GlobalBlockManager';
+import { TemplateStorage } from './TemplateStorage';
+import { createEmptyEmailTemplate } from './TemplateComposer';
+import { createGlobalBlockReference, createText } from '../components/factories';
+import { GlobalBlockError } from '../errors';
+import type { StorageAdapter } from '../types/config.types';
+
+// Mock storage adapter for testing
+class MockStorageAdapter implements StorageAdapter {
+  private storage: Map<string, unknown> = new Map();
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    return (this.storage.get(key) as T) || null;
+  }
+
+  async set<T = unknown>(key: string, value: T): Promise<void> {
+    this.storage.set(key, value);
+  }
+
+  async remove(key: string): Promise<void> {
+    this.storage.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.storage.clear();
+  }
+}
+
+describe('GlobalBlockManager', () => {
+  let storage: TemplateStorage;
+  let manager: GlobalBlockManager;
+
+  const waitForEmit = () => new Promise(resolve => setTimeout(resolve, 10));
+
+  beforeEach(() => {
+    storage = new TemplateStorage(new MockStorageAdapter(), 'test');
+    manager = new GlobalBlockManager(storage);
+  });
+
+  describe('create', () => {
+    it('should save a copy of the components as version 1', async () => {
+      const text = createText();
+      const block = await manager.create({ name: 'Legal footer', tags: ['legal'], components: [text] });
+
+      expect(block.id).toMatch(/^blk_/);
+      expect(block.version).toBe(1);
+      expect(block.components[0]).not.toBe(text);
+      expect(manager.get(block.id)).toBe(block);
+      expect(await storage.loadBlock(block.id)).toEqual(block);
+    });
+
+    it('should reject empty blocks', async () => {
+      await expect(manager.create({ name: 'Empty', components: [] })).rejects.toThrow(GlobalBlockError);
+    });
+  });
+
+  describe('update', () => {
+    it('should bump the version and change what references resolve to', async () => {
+      const block = await manager.create({ name: 'Header', components: [createText()] });
+      const resolve = manager.getResolver();
+      const replacement = createText({ id: 'new-text' });
+
+      const updated = await manager.update(block.id, { components: [replacement] });
+
+      expect(updated.version).toBe(2);
+      expect(updated.name).toBe('Header');
+      expect(resolve(block.id)!.components[0]!.id).toBe('new-text');
+    });
+
+    it('should reject unknown blocks and blocks referencing themselves', async () => {
+      const block = await manager.create({ name: 'Header', components: [createText()] });
+
+      await expect(manager.update('missing', { name: 'Other' })).rejects.toThrow('Global block not found: missing');
+      await expect(
+        manager.update(block.id, { components: [createGlobalBlockReference(block.id)] })
+      ).rejects.toThrow('Global block cannot reference itself');
+    });
+  });
+
+  describe('delete', () => {
+    it('should remove the block from memory and storage', async () => {
+      const block = await manager.create({ name: 'Header', components: [createText()] });
+
+      await manager.delete(block.id);
+
+      expect(manager.get(block.id)).toBeUndefined();
+      expect(await manager.list()).toEqual([]);
+    });
+  });
+
+  describe('loadAllFromStorage', () => {
+    it('should load blocks saved by another manager', async () => {
+      const block = await manager.create({ name: 'Header', components: [createText()] });
+      const other = new GlobalBlockManager(storage);
+
+      await other.loadAllFromStorage();
+
+      expect(other.getAll()).toEqual([block]);
+    });
+  });
+
+  describe('findReferences', () => {
+    it('should list the stored templates using a block', async () => {
+      const block = await manager.create({ name: 'Footer', components: [createText()] });
+      const using = createEmptyEmailTemplate('Using');
+      using.components = [createGlobalBlockReference(block.id)];
+      const other = createEmptyEmailTemplate('Other');
+      await storage.save(using);
+      await storage.save(other);
+
+      expect(await manager.findReferences(block.id)).toEqual([using.metadata.id]);
+    });
+  });
+
+  describe('events', () => {
+    it('should emit block events', async () => {
+      const created = vi.fn();
+      const updated = vi.fn();
+      const deleted = vi.fn();
+      manager.on(GlobalBlockManagerEvent.BLOCK_CREATED, created);
+      manager.on(GlobalBlockManagerEvent.BLOCK_UPDATED, updated);
+      manager.on(GlobalBlockManagerEvent.BLOCK_DELETED, deleted);
+
+      const block = await manager.create({ name: 'Footer', components: [createText()] });
+      await manager.update(block.id, { name: 'Legal footer' });
+      await manager.delete(block.id);
+      await waitForEmit();
+
+      expect(created).toHaveBeenCalledWith({ block });
+      expect(updated).toHaveBeenCalledWith(expect.objectContaining({ previous: block }));
+      expect(deleted).toHaveBeenCalledWith({ blockId: block.id });
+    });
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Global Block Manager
+ *
+ * Core service for creating, editing and sharing global blocks across templates
+ */
+
+import type { BaseComponent } from '../types/component.types';
+import type { Template } from '../types/template.types';
+import type { GlobalBlock, GlobalBlockListItem, GlobalBlockResolver } from '../types/global-block.types';
+import { GlobalBlockError } from '../errors';
+import { EventEmitter } from '../services/EventEmitter';
+import type { TemplateStorage } from './TemplateStorage';
+import { collectGlobalBlockIds } from './global-blocks';
+
+/**
+ * Global Block Manager events
+ */
+export enum GlobalBlockManagerEvent {
+  BLOCK_CREATED = 'block:created',
+  BLOCK_UPDATED = 'block:updated',
+  BLOCK_DELETED = 'block:deleted',
+}
+
+/**
+ * Global block creation options
+ */
+export interface CreateGlobalBlockOptions {
+  name: string;
+  description?: string;
+  tags?: string[];
+  components: BaseComponent[];
+}
+
+/**
+ * Global block update options
+ */
+export interface UpdateGlobalBlockOptions {
+  name?: string;
+  description?: string;
+  tags?: string[];
+  components?: BaseComponent[];
+}
+
+/**
+ * Global Block Manager Service
+ *
+ * Blocks are persisted through {@link TemplateStorage} and kept in memory, so
+ * canvases and exporters can resolve references synchronously through
+ * {@link GlobalBlockManager.getResolver}. Templates only store the ID of the
+ * blocks they use: updating a block changes every template referencing it.
+ *
+ * @example
+ * ```ts
+ * const footer = await blocks.create({ name: 'Legal footer', components: [footerComponent] });
+ * template.components.push(createGlobalBlockReference(footer.id));
+ *
+ * // Later, in any template using it
+ * await blocks.update(footer.id, { components: [updatedFooter] });
+ * ```
+ */
+export class GlobalBlockManager {
+  private storage: TemplateStorage;
+  private eventEmitter: EventEmitter;
+  private blocks: Map<string, GlobalBlock> = new Map();
+
+  constructor(storage: TemplateStorage) {
+    this.storage = storage;
+    this.eventEmitter = new EventEmitter();
+  }
+
+  /**
+   * Load all global blocks from storage into memory
+   *
+   * @throws {GlobalBlockError} If loading fails
+   */
+  async loadAllFromStorage(): Promise<void> {
+    try {
+      const list = await this.storage.listBlocks();
+      const blocks = await Promise.all(list.map((item) => this.storage.loadBlock(item.id)));
+
+      this.blocks = new Map(blocks.map((block) => [block.id, block]));
+    } catch (error) {
+      throw new GlobalBlockError(
+        `Failed to load global blocks: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        undefined,
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Create a global block
+   *
+   * @param options - Block creation options
+   * @returns Created block
+   * @throws {GlobalBlockError} If the block is empty or cannot be saved
+   */
+  async create(options: CreateGlobalBlockOptions): Promise<GlobalBlock> {
+    if (options.components.length === 0) {
+      throw new GlobalBlockError('Global block must contain at least one component');
+    }
+
+    const now = Date.now();
+    const block: GlobalBlock = {
+      id: this.generateId(),
+      name: options.name,
+      ...(options.description !== undefined && { description: options.description }),
+      ...(options.tags !== undefined && { tags: options.tags }),
+      components: JSON.parse(JSON.stringify(options.components)),
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.save(block);
+    this.eventEmitter.emit(GlobalBlockManagerEvent.BLOCK_CREATED, { block });
+
+    return block;
+  }
+
+  /**
+   * Update a global block
+   *
+   * @param blockId - Block ID
+   * @param options - Block update options
+   * @returns Updated block
+   * @throws {GlobalBlockError} If the block is not found or cannot be saved
+   */
+  async update(blockId: string, options: UpdateGlobalBlockOptions): Promise<GlobalBlock> {
+    const current = this.require(blockId);
+
+    if (options.components?.length === 0) {
+      throw new GlobalBlockError('Global block must contain at least one component', { blockId });
+    }
+    if (options.components && collectGlobalBlockIds(options.components).includes(blockId)) {
+      throw new GlobalBlockError('Global block cannot reference itself', { blockId });
+    }
+
+    const block: GlobalBlock = {
+      ...current,
+      ...(options.name !== undefined && { name: options.name }),
+      ...(options.description !== undefined && { description: options.description }),
+      ...(options.tags !== undefined && { tags: options.tags }),
+      ...(options.components && { components: JSON.parse(JSON.stringify(options.components)) }),
+      version: current.version + 1,
+      updatedAt: Date.now(),
+    };
+
+    await this.save(block);
+    this.eventEmitter.emit(GlobalBlockManagerEvent.BLOCK_UPDATED, { block, previous: current });
+
+    return block;
+  }
+
+  /**
+   * Delete a global block
+   *
+   * Templates still referencing it export the reference as an HTML comment;
+   * detach their references first to keep the content.
+   *
+   * @param blockId - Block ID
+   * @throws {GlobalBlockError} If delete fails
+   */
+  async delete(blockId: string): Promise<void> {
+    try {
+      await this.storage.deleteBlock(blockId);
+      this.blocks.delete(blockId);
+      this.eventEmitter.emit(GlobalBlockManagerEvent.BLOCK_DELETED, { blockId });
+    } catch (error) {
+      throw new GlobalBlockError(
+        `Failed to delete global block ${blockId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { blockId },
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Get a loaded global block
+   *
+   * @param blockId - Block ID
+   * @returns Block or undefined if not found
+   */
+  get(blockId: string): GlobalBlock | undefined {
+    return this.blocks.get(blockId);
+  }
+
+  /**
+   * Get all loaded global blocks
+   */
+  getAll(): GlobalBlock[] {
+    return Array.from(this.blocks.values());
+  }
+
+  /**
+   * List global blocks from storage
+   */
+  async list(): Promise<GlobalBlockListItem[]> {
+    return this.storage.listBlocks();
+  }
+
+  /**
+   * Get a resolver looking up blocks in this manager, for
+   * {@link TemplateExporter.setGlobalBlockResolver} and canvases
+   */
+  getResolver(): GlobalBlockResolver {
+    return (blockId) => this.blocks.get(blockId);
+  }
+
+  /**
+   * Find the stored templates referencing a global block
+   *
+   * @param blockId - Block ID
+   * @returns IDs of the templates using the block
+   */
+  async findReferences(blockId: string): Promise<string[]> {
+    const list = await this.storage.list();
+    const templates = await Promise.all(
+      list.map((item) => this.storage.load(item.id).catch((): Template | null => null))
+    );
+
+    return templates
+      .filter((template): template is Template => template !== null)
+      .filter((template) => collectGlobalBlockIds(template.components).includes(blockId))
+      .map((template) => template.metadata.id);
+  }
+
+  /**
+   * Subscribe to global block events
+   *
+   * @param event - Event name
+   * @param callback - Event callback
+   */
+  on(event: GlobalBlockManagerEvent, callback: (data: unknown) => void): void {
+    this.eventEmitter.on(event, callback);
+  }
+
+  /**
+   * Unsubscribe from global block events
+   *
+   * @param event - Event name
+   * @param callback - Event callback
+   */
+  off(event: GlobalBlockManagerEvent, callback: (data: unknown) => void): void {
+    this.eventEmitter.off(event, callback);
+  }
+
+  private require(blockId: string): GlobalBlock {
+    const block = this.blocks.get(blockId);
+    if (!block) {
+      throw new GlobalBlockError(`Global block not found: ${blockId}`, { blockId });
+    }
+    return block;
+  }
+
+  private async save(block: GlobalBlock): Promise<void> {
+    try {
+      await this.storage.saveBlock(block);
+      this.blocks.set(block.id, block);
+    } catch (error) {
+      throw new GlobalBlockError(
+        `Failed to save global block ${block.id}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { blockId: block.id },
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Generate unique block ID using crypto.randomUUID for security
+   */
+  private generateId(): string {
+    const uuid = crypto.randomUUID().slice(0, 9);
+    return `blk_${Date.now()}_${uuid}`;
+  }
+}
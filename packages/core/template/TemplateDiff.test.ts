@@ -0,0 +1,281 @@
+/**
+ * Template Diff & Merge Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { diffTemplates, threeWayMerge } from './TemplateDiff';
+import type { Template } from '../types/template.types';
+import type { BaseComponent } from '../types/component.types';
+
+const component = (id: string, type = 'text', content: Record<string, unknown> = {}): BaseComponent =>
+  ({
+    id,
+    type,
+    metadata: { name: id, version: '1.0.0' },
+    styles: {},
+    content,
+  }) as unknown as BaseComponent;
+
+const clone = (template: Template): Template => JSON.parse(JSON.stringify(template)) as Template;
+
+const ids = (components: BaseComponent[]): string[] => components.map((item) => item.id);
+
+describe('TemplateDiff', () => {
+  let base: Template;
+
+  beforeEach(() => {
+    base = {
+      metadata: {
+        id: 'template-1',
+        name: 'Campaign',
+        version: '1.0.0',
+        createdAt: 0,
+        updatedAt: 0,
+      },
+      settings: {
+        target: 'email',
+        canvasDimensions: { width: 600 },
+        breakpoints: { mobile: 480, tablet: 768, desktop: 1024 },
+        responsive: true,
+        locale: 'en-US',
+      },
+      generalStyles: { canvasBackgroundColor: '#ffffff' },
+      components: [
+        component('header', 'header', { title: 'Hello' }),
+        {
+          ...component('section', 'container'),
+          children: [component('text-1', 'text', { html: 'One' }), component('text-2', 'text', { html: 'Two' })],
+        },
+        component('footer', 'footer', { text: 'Bye' }),
+      ],
+    };
+  });
+
+  describe('diffTemplates', () => {
+    it('should report identical templates', () => {
+      const diff = diffTemplates(base, clone(base));
+
+      expect(diff.identical).toBe(true);
+      expect(diff.components).toEqual([]);
+    });
+
+    it('should report added and removed components', () => {
+      const after = clone(base);
+      after.components.splice(2, 1, component('cta', 'cta'));
+
+      const diff = diffTemplates(base, after);
+
+      expect(diff.components).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ type: 'removed', componentId: 'footer' }),
+          expect.objectContaining({
+            type: 'added',
+            componentId: 'cta',
+            to: { parentId: null, index: 2 },
+          }),
+        ])
+      );
+      expect(diff.components).toHaveLength(2);
+    });
+
+    it('should not report siblings of an inserted component as moved', () => {
+      const after = clone(base);
+      after.components.unshift(component('preheader'));
+
+      const diff = diffTemplates(base, after);
+
+      expect(diff.components.map((change) => change.type)).toEqual(['added']);
+    });
+
+    it('should report moved components', () => {
+      const after = clone(base);
+      const section = after.components[1] as BaseComponent;
+      section.children = [...(section.children ?? [])].reverse();
+      const footer = after.components.pop() as BaseComponent;
+      section.children.push(footer);
+
+      const diff = diffTemplates(base, after);
+      const moved = diff.components.filter((change) => change.type === 'moved');
+
+      expect(moved.map((change) => change.componentId).sort()).toEqual(['footer', 'text-1']);
+      expect(moved.find((change) => change.componentId === 'footer')).toMatchObject({
+        from: { parentId: null, index: 2 },
+        to: { parentId: 'section', index: 2 },
+      });
+    });
+
+    it('should report modified properties', () => {
+      const after = clone(base);
+      (after.components[0] as BaseComponent).content = { title: 'Welcome' };
+
+      const diff = diffTemplates(base, after);
+
+      expect(diff.components).toEqual([
+        expect.objectContaining({
+          type: 'modified',
+          componentId: 'header',
+          changes: [{ path: 'content.title', type: 'changed', before: 'Hello', after: 'Welcome' }],
+        }),
+      ]);
+    });
+
+    it('should report settings and general styles changes', () => {
+      const after = clone(base);
+      after.settings.locale = 'pt-PT';
+      after.generalStyles.canvasBackgroundColor = '#000000';
+
+      const diff = diffTemplates(base, after);
+
+      expect(diff.settings).toEqual([
+        { path: 'settings.locale', type: 'changed', before: 'en-US', after: 'pt-PT' },
+      ]);
+      expect(diff.generalStyles).toEqual([
+        expect.objectContaining({ path: 'generalStyles.canvasBackgroundColor' }),
+      ]);
+      expect(diff.identical).toBe(false);
+    });
+  });
+
+  describe('threeWayMerge', () => {
+    it('should combine non-overlapping changes', () => {
+      const ours = clone(base);
+      const theirs = clone(base);
+      (ours.components[0] as BaseComponent).content = { title: 'Ours' };
+      ours.settings.locale = 'pt-PT';
+      theirs.components.push(component('legal'));
+      (theirs.components[2] as BaseComponent).content = { text: 'Theirs' };
+
+      const { template, conflicts } = threeWayMerge(base, ours, theirs);
+
+      expect(conflicts).toEqual([]);
+      expect(ids(template.components)).toEqual(['header', 'section', 'footer', 'legal']);
+      expect(template.components[0]?.content).toEqual({ title: 'Ours' });
+      expect(template.components[2]?.content).toEqual({ text: 'Theirs' });
+      expect(template.settings.locale).toBe('pt-PT');
+    });
+
+    it('should merge different properties of the same component', () => {
+      const ours = clone(base);
+      const theirs = clone(base);
+      (ours.components[0] as BaseComponent).content = { title: 'Hello', subtitle: 'Ours' };
+      (theirs.components[0] as BaseComponent).styles = { backgroundColor: '#ff0000' };
+
+      const { template, conflicts } = threeWayMerge(base, ours, theirs);
+
+      expect(conflicts).toEqual([]);
+      expect(template.components[0]).toMatchObject({
+        content: { title: 'Hello', subtitle: 'Ours' },
+        styles: { backgroundColor: '#ff0000' },
+      });
+    });
+
+    it('should report conflicting values and apply the preferred side', () => {
+      const ours = clone(base);
+      const theirs = clone(base);
+      (ours.components[0] as BaseComponent).content = { title: 'Ours' };
+      (theirs.components[0] as BaseComponent).content = { title: 'Theirs' };
+
+      const merged = threeWayMerge(base, ours, theirs);
+      const preferTheirs = threeWayMerge(base, ours, theirs, { prefer: 'theirs' });
+
+      expect(merged.conflicts).toEqual([
+        {
+          path: 'components[header].content.title',
+          componentId: 'header',
+          kind: 'value',
+          base: 'Hello',
+          ours: 'Ours',
+          theirs: 'Theirs',
+          resolution: 'ours',
+        },
+      ]);
+      expect(merged.template.components[0]?.content).toEqual({ title: 'Ours' });
+      expect(preferTheirs.template.components[0]?.content).toEqual({ title: 'Theirs' });
+    });
+
+    it('should report components removed on one side and modified on the other', () => {
+      const ours = clone(base);
+      const theirs = clone(base);
+      ours.components.pop();
+      (theirs.components[2] as BaseComponent).content = { text: 'Updated' };
+
+      const merged = threeWayMerge(base, ours, theirs);
+      const preferTheirs = threeWayMerge(base, ours, theirs, { prefer: 'theirs' });
+
+      expect(merged.conflicts).toEqual([
+        expect.objectContaining({ kind: 'delete-modify', componentId: 'footer' }),
+      ]);
+      expect(ids(merged.template.components)).toEqual(['header', 'section']);
+      expect(ids(preferTheirs.template.components)).toEqual(['header', 'section', 'footer']);
+    });
+
+    it('should drop components removed on one side and unchanged on the other', () => {
+      const theirs = clone(base);
+      theirs.components.shift();
+
+      const { template, conflicts } = threeWayMerge(base, clone(base), theirs);
+
+      expect(conflicts).toEqual([]);
+      expect(ids(template.components)).toEqual(['section', 'footer']);
+    });
+
+    it('should apply moves from either side', () => {
+      const ours = clone(base);
+      const theirs = clone(base);
+      const section = theirs.components[1] as BaseComponent;
+      section.children = [...(section.children ?? [])].reverse();
+      ours.components.unshift(component('preheader'));
+
+      const { template, conflicts } = threeWayMerge(base, ours, theirs);
+
+      expect(conflicts).toEqual([]);
+      expect(ids(template.components)).toEqual(['preheader', 'header', 'section', 'footer']);
+      expect(ids(template.components[2]?.children ?? [])).toEqual(['text-2', 'text-1']);
+    });
+
+    it('should report components moved to different parents on both sides', () => {
+      const ours = clone(base);
+      const theirs = clone(base);
+      const oursFooter = ours.components.pop() as BaseComponent;
+      (ours.components[1] as BaseComponent).children?.push(oursFooter);
+      const theirsFooter = theirs.components.pop() as BaseComponent;
+      (theirs.components[0] as BaseComponent).children = [theirsFooter];
+
+      const { template, conflicts } = threeWayMerge(base, ours, theirs);
+
+      expect(conflicts).toEqual([
+        expect.objectContaining({ kind: 'move', componentId: 'footer', ours: 'section', theirs: 'header' }),
+      ]);
+      expect(ids(template.components[1]?.children ?? [])).toEqual(['text-1', 'text-2', 'footer']);
+    });
+
+    it('should keep a removed container when the other side added children to it', () => {
+      const ours = clone(base);
+      const theirs = clone(base);
+      ours.components.splice(1, 1);
+      (theirs.components[1] as BaseComponent).children?.push(component('text-3'));
+
+      const { template, conflicts } = threeWayMerge(base, ours, theirs);
+
+      expect(conflicts).toEqual([
+        expect.objectContaining({ kind: 'parent-removed', componentId: 'section' }),
+      ]);
+      expect(ids(template.components)).toContain('section');
+      expect(ids(template.components.find((item) => item.id === 'section')?.children ?? [])).toContain(
+        'text-3'
+      );
+    });
+
+    it('should not treat metadata timestamps and versions as conflicts', () => {
+      const ours = clone(base);
+      const theirs = clone(base);
+      ours.metadata = { ...ours.metadata, updatedAt: 10, version: '1.0.1' };
+      theirs.metadata = { ...theirs.metadata, updatedAt: 20, version: '1.0.2', name: 'Renamed' };
+
+      const { template, conflicts } = threeWayMerge(base, ours, theirs);
+
+      expect(conflicts).toEqual([]);
+      expect(template.metadata).toMatchObject({ name: 'Renamed', updatedAt: 20, version: '1.0.2' });
+    });
+  });
+});
@@ -0,0 +1,721 @@
+/**
+ * Template Diff & Merge
+ *
+ * Structural comparison of templates and three-way merging of concurrent edits
+ */
+
+import type { Template, RevisionChange } from '../types/template.types';
+import type { BaseComponent } from '../types/component.types';
+import { diffValues } from './TemplateRevisionStore';
+import { ComponentTreeBuilder } from './ComponentTreeBuilder';
+import { TemplateVersionManager } from './TemplateVersioning';
+
+/**
+ * Position of a component in the component tree
+ */
+export interface ComponentLocation {
+  /**
+   * ID of the parent component, null for top-level components
+   */
+  parentId: string | null;
+
+  /**
+   * Index among the parent's children
+   */
+  index: number;
+}
+
+/**
+ * Kind of component change
+ *
+ * A component that was both moved and modified is reported twice.
+ */
+export type ComponentChangeType = 'added' | 'removed' | 'moved' | 'modified';
+
+/**
+ * Change to a single component
+ */
+export interface ComponentChange {
+  type: ComponentChangeType;
+  componentId: string;
+  componentType: string;
+
+  /**
+   * Location in the old template (removed, moved, modified)
+   */
+  from?: ComponentLocation;
+
+  /**
+   * Location in the new template (added, moved, modified)
+   */
+  to?: ComponentLocation;
+
+  /**
+   * Property changes, relative to the component (modified only)
+   */
+  changes?: RevisionChange[];
+}
+
+/**
+ * Structural diff of two templates
+ */
+export interface TemplateDiff {
+  components: ComponentChange[];
+  settings: RevisionChange[];
+  generalStyles: RevisionChange[];
+
+  /**
+   * Whether components, settings and general styles are all unchanged
+   */
+  identical: boolean;
+}
+
+/**
+ * Conflict found while merging
+ */
+export interface MergeConflict {
+  /**
+   * Path of the conflicting value, e.g. `settings.locale` or `components[hero-1].content.title`
+   */
+  path: string;
+
+  /**
+   * Component the conflict belongs to
+   */
+  componentId?: string;
+
+  /**
+   * - `value`: both sides changed the same value differently
+   * - `delete-modify`: one side removed a component the other side modified
+   * - `move`: both sides moved a component to different places
+   * - `parent-removed`: one side removed a component the other side added or moved children into
+   */
+  kind: 'value' | 'delete-modify' | 'move' | 'parent-removed';
+
+  base: unknown;
+  ours: unknown;
+  theirs: unknown;
+
+  /**
+   * Side that was applied to the merged template
+   */
+  resolution: 'ours' | 'theirs';
+}
+
+/**
+ * Three-way merge options
+ */
+export interface ThreeWayMergeOptions {
+  /**
+   * Side applied when both sides conflict
+   *
+   * @default 'ours'
+   */
+  prefer?: 'ours' | 'theirs';
+}
+
+/**
+ * Three-way merge result
+ */
+export interface TemplateMergeResult {
+  /**
+   * Merged template; conflicts are resolved with the preferred side
+   */
+  template: Template;
+  conflicts: MergeConflict[];
+}
+
+/**
+ * Component flattened out of the tree
+ */
+interface FlatComponent {
+  /**
+   * Component without its children
+   */
+  component: BaseComponent;
+  location: ComponentLocation;
+
+  /**
+   * Whether the component has a children array, even an empty one
+   */
+  hasChildren: boolean;
+}
+
+type FlatTemplate = Map<string, FlatComponent>;
+
+/**
+ * Template fields merged separately from the generic value merge
+ */
+const STRUCTURAL_KEYS = new Set(['metadata', 'components', 'componentTree']);
+
+/**
+ * Compares two templates
+ *
+ * Components are matched by id at any depth. A component counts as moved
+ * when its parent changed or when its order relative to its unchanged
+ * siblings changed, so inserting a component does not report its siblings
+ * as moved.
+ *
+ * @param before - Old template
+ * @param after - New template
+ * @returns Structural diff
+ *
+ * @example
+ * ```ts
+ * const diff = diffTemplates(original, edited);
+ * diff.components.filter((change) => change.type === 'modified');
+ * ```
+ */
+export function diffTemplates(before: Template, after: Template): TemplateDiff {
+  const beforeFlat = flattenComponents(before.components);
+  const afterFlat = flattenComponents(after.components);
+  const moved = findMoved(beforeFlat, afterFlat);
+  const components: ComponentChange[] = [];
+
+  beforeFlat.forEach((entry, id) => {
+    if (!afterFlat.has(id)) {
+      components.push({
+        type: 'removed',
+        componentId: id,
+        componentType: entry.component.type,
+        from: entry.location,
+      });
+    }
+  });
+
+  afterFlat.forEach((entry, id) => {
+    const previous = beforeFlat.get(id);
+
+    if (!previous) {
+      components.push({
+        type: 'added',
+        componentId: id,
+        componentType: entry.component.type,
+        to: entry.location,
+      });
+      return;
+    }
+
+    if (moved.has(id)) {
+      components.push({
+        type: 'moved',
+        componentId: id,
+        componentType: entry.component.type,
+        from: previous.location,
+        to: entry.location,
+      });
+    }
+
+    const changes = diffValues(previous.component, entry.component);
+    if (changes.length > 0) {
+      components.push({
+        type: 'modified',
+        componentId: id,
+        componentType: entry.component.type,
+        from: previous.location,
+        to: entry.location,
+        changes,
+      });
+    }
+  });
+
+  const settings = diffValues(before.settings, after.settings, 'settings');
+  const generalStyles = diffValues(before.generalStyles, after.generalStyles, 'generalStyles');
+
+  return {
+    components,
+    settings,
+    generalStyles,
+    identical: components.length === 0 && settings.length === 0 && generalStyles.length === 0,
+  };
+}
+
+/**
+ * Merges two templates derived from a common base
+ *
+ * Changes made on only one side are applied as they are. Changes made on
+ * both sides are merged property by property; when both sides changed the
+ * same value differently, the preferred side wins and a conflict is
+ * reported so the user can review it.
+ *
+ * @param base - Common ancestor
+ * @param ours - Our version
+ * @param theirs - Their version
+ * @param options - Merge options
+ * @returns Merged template and conflicts
+ *
+ * @example
+ * ```ts
+ * const { template, conflicts } = threeWayMerge(original, mine, colleagues);
+ * if (conflicts.length > 0) {
+ *   showConflicts(conflicts);
+ * }
+ * ```
+ */
+export function threeWayMerge(
+  base: Template,
+  ours: Template,
+  theirs: Template,
+  options: ThreeWayMergeOptions = {}
+): TemplateMergeResult {
+  const prefer = options.prefer ?? 'ours';
+  const conflicts: MergeConflict[] = [];
+  const merged: Record<string, unknown> = {};
+
+  const keys = new Set([...Object.keys(base), ...Object.keys(ours), ...Object.keys(theirs)]);
+  keys.forEach((key) => {
+    if (STRUCTURAL_KEYS.has(key)) {
+      return;
+    }
+
+    const value = mergeValues(
+      getField(base, key),
+      getField(ours, key),
+      getField(theirs, key),
+      key,
+      prefer,
+      conflicts
+    );
+    if (value !== undefined) {
+      merged[key] = value;
+    }
+  });
+
+  const template = merged as unknown as Template;
+  template.metadata = mergeMetadata(base, ours, theirs, prefer, conflicts);
+  template.components = mergeComponents(base, ours, theirs, prefer, conflicts);
+
+  if (ours.componentTree || theirs.componentTree) {
+    template.componentTree = new ComponentTreeBuilder().buildTree(template.components);
+  }
+
+  return { template, conflicts };
+}
+
+/**
+ * Merges metadata; `updatedAt` and `version` take the most recent value
+ * instead of conflicting
+ */
+function mergeMetadata(
+  base: Template,
+  ours: Template,
+  theirs: Template,
+  prefer: 'ours' | 'theirs',
+  conflicts: MergeConflict[]
+): Template['metadata'] {
+  const strip = ({ updatedAt: _updatedAt, version: _version, ...rest }: Template['metadata']) => rest;
+  const rest = mergeValues(
+    strip(base.metadata),
+    strip(ours.metadata),
+    strip(theirs.metadata),
+    'metadata',
+    prefer,
+    conflicts
+  ) as Omit<Template['metadata'], 'updatedAt' | 'version'>;
+
+  return {
+    ...rest,
+    version: TemplateVersionManager.isLessThan(ours.metadata.version, theirs.metadata.version)
+      ? theirs.metadata.version
+      : ours.metadata.version,
+    updatedAt: Math.max(ours.metadata.updatedAt, theirs.metadata.updatedAt),
+  };
+}
+
+/**
+ * Merges the component trees
+ */
+function mergeComponents(
+  base: Template,
+  ours: Template,
+  theirs: Template,
+  prefer: 'ours' | 'theirs',
+  conflicts: MergeConflict[]
+): BaseComponent[] {
+  const baseFlat = flattenComponents(base.components);
+  const oursFlat = flattenComponents(ours.components);
+  const theirsFlat = flattenComponents(theirs.components);
+  const oursMoved = findMoved(baseFlat, oursFlat);
+  const theirsMoved = findMoved(baseFlat, theirsFlat);
+
+  const components = new Map<string, BaseComponent>();
+  const parents = new Map<string, string | null>();
+  const ids = new Set([...baseFlat.keys(), ...oursFlat.keys(), ...theirsFlat.keys()]);
+
+  ids.forEach((id) => {
+    const inBase = baseFlat.get(id);
+    const inOurs = oursFlat.get(id);
+    const inTheirs = theirsFlat.get(id);
+    const path = `components[${id}]`;
+
+    if (inBase && (!inOurs || !inTheirs)) {
+      // Removed on at least one side
+      const kept = inOurs ?? inTheirs;
+      if (!kept || isEqual(inBase.component, kept.component)) {
+        return;
+      }
+
+      const keptSide = inOurs ? 'ours' : 'theirs';
+      conflicts.push({
+        path,
+        componentId: id,
+        kind: 'delete-modify',
+        base: inBase.component,
+        ours: inOurs?.component,
+        theirs: inTheirs?.component,
+        resolution: prefer,
+      });
+
+      if (prefer !== keptSide) {
+        return;
+      }
+
+      components.set(id, kept.component);
+      parents.set(id, kept.location.parentId);
+      return;
+    }
+
+    const component = mergeValues(
+      inBase?.component,
+      inOurs?.component,
+      inTheirs?.component,
+      path,
+      prefer,
+      conflicts,
+      id
+    ) as BaseComponent;
+    components.set(id, component);
+    parents.set(id, mergeParent(id, inBase, inOurs, inTheirs, prefer, conflicts));
+  });
+
+  restoreRemovedParents(components, parents, [baseFlat, oursFlat, theirsFlat], prefer, conflicts);
+
+  // Order children: start from our order, then replay their insertions and moves
+  const preferred = prefer === 'ours' ? oursFlat : theirsFlat;
+  const other = prefer === 'ours' ? theirsFlat : oursFlat;
+  const otherMoved = prefer === 'ours' ? theirsMoved : oursMoved;
+  const preferredMoved = prefer === 'ours' ? oursMoved : theirsMoved;
+  const children = new Map<string | null, string[]>();
+  const childrenOf = (parentId: string | null) => {
+    const list = children.get(parentId) ?? [];
+    children.set(parentId, list);
+    return list;
+  };
+
+  orderedIds(preferred).forEach((id) => {
+    const parentId = parents.get(id);
+    if (parentId !== undefined && components.has(id)) {
+      const movedElsewhere = otherMoved.has(id) && !preferredMoved.has(id);
+      if (!movedElsewhere) {
+        childrenOf(parentId).push(id);
+      }
+    }
+  });
+
+  orderedIds(other).forEach((id) => {
+    const parentId = parents.get(id);
+    if (parentId === undefined || !components.has(id)) {
+      return;
+    }
+
+    const list = childrenOf(parentId);
+    if (list.includes(id)) {
+      return;
+    }
+
+    // Insert after the closest preceding sibling of the other side
+    const siblings = orderedIds(other).filter((sibling) => other.get(sibling)?.location.parentId === parentId);
+    const position = siblings.indexOf(id);
+    let insertAt = 0;
+    for (let i = position - 1; i >= 0; i--) {
+      const index = list.indexOf(siblings[i] as string);
+      if (index !== -1) {
+        insertAt = index + 1;
+        break;
+      }
+    }
+    list.splice(insertAt, 0, id);
+  });
+
+  // Components only the base knows the place of
+  components.forEach((_component, id) => {
+    const parentId = parents.get(id) ?? null;
+    const list = childrenOf(parentId);
+    if (!list.includes(id)) {
+      list.push(id);
+    }
+  });
+
+  const build = (parentId: string | null): BaseComponent[] =>
+    (children.get(parentId) ?? []).map((id) => {
+      const component = { ...(components.get(id) as BaseComponent) };
+      const nested = build(id);
+      const hadChildren = [baseFlat, oursFlat, theirsFlat].some((flat) => flat.get(id)?.hasChildren);
+      if (nested.length > 0 || hadChildren) {
+        component.children = nested;
+      }
+      return component;
+    });
+
+  return build(null);
+}
+
+/**
+ * Picks the merged parent of a component
+ */
+function mergeParent(
+  id: string,
+  inBase: FlatComponent | undefined,
+  inOurs: FlatComponent | undefined,
+  inTheirs: FlatComponent | undefined,
+  prefer: 'ours' | 'theirs',
+  conflicts: MergeConflict[]
+): string | null {
+  const baseParent = inBase?.location.parentId;
+  const oursParent = inOurs?.location.parentId;
+  const theirsParent = inTheirs?.location.parentId;
+
+  if (oursParent === undefined) {
+    return theirsParent ?? null;
+  }
+  if (theirsParent === undefined || oursParent === theirsParent || theirsParent === baseParent) {
+    return oursParent;
+  }
+  if (oursParent === baseParent) {
+    return theirsParent;
+  }
+
+  conflicts.push({
+    path: `components[${id}]`,
+    componentId: id,
+    kind: 'move',
+    base: baseParent ?? null,
+    ours: oursParent,
+    theirs: theirsParent,
+    resolution: prefer,
+  });
+
+  return prefer === 'ours' ? oursParent : theirsParent;
+}
+
+/**
+ * Keeps removed components whose children survived the merge
+ */
+function restoreRemovedParents(
+  components: Map<string, BaseComponent>,
+  parents: Map<string, string | null>,
+  versions: FlatTemplate[],
+  prefer: 'ours' | 'theirs',
+  conflicts: MergeConflict[]
+): void {
+  const [baseFlat, oursFlat, theirsFlat] = versions as [FlatTemplate, FlatTemplate, FlatTemplate];
+  let restored = true;
+
+  while (restored) {
+    restored = false;
+
+    parents.forEach((parentId) => {
+      if (parentId === null || components.has(parentId)) {
+        return;
+      }
+
+      const source = oursFlat.get(parentId) ?? theirsFlat.get(parentId) ?? baseFlat.get(parentId);
+      if (!source) {
+        return;
+      }
+
+      conflicts.push({
+        path: `components[${parentId}]`,
+        componentId: parentId,
+        kind: 'parent-removed',
+        base: baseFlat.get(parentId)?.component,
+        ours: oursFlat.get(parentId)?.component,
+        theirs: theirsFlat.get(parentId)?.component,
+        resolution: prefer,
+      });
+      components.set(parentId, source.component);
+      parents.set(parentId, source.location.parentId);
+      restored = true;
+    });
+  }
+}
+
+/**
+ * Merges three versions of a value
+ *
+ * Plain objects are merged key by key; any other value is replaced as a whole.
+ */
+function mergeValues(
+  base: unknown,
+  ours: unknown,
+  theirs: unknown,
+  path: string,
+  prefer: 'ours' | 'theirs',
+  conflicts: MergeConflict[],
+  componentId?: string
+): unknown {
+  if (isEqual(ours, theirs) || isEqual(theirs, base)) {
+    return ours;
+  }
+
+  if (isEqual(ours, base)) {
+    return theirs;
+  }
+
+  if (isPlainObject(ours) && isPlainObject(theirs)) {
+    const baseObject = isPlainObject(base) ? base : {};
+    const result: Record<string, unknown> = {};
+    const keys = new Set([...Object.keys(baseObject), ...Object.keys(ours), ...Object.keys(theirs)]);
+
+    keys.forEach((key) => {
+      const value = mergeValues(
+        baseObject[key],
+        ours[key],
+        theirs[key],
+        `${path}.${key}`,
+        prefer,
+        conflicts,
+        componentId
+      );
+      if (value !== undefined) {
+        result[key] = value;
+      }
+    });
+
+    return result;
+  }
+
+  conflicts.push({
+    path,
+    ...(componentId !== undefined && { componentId }),
+    kind: 'value',
+    base,
+    ours,
+    theirs,
+    resolution: prefer,
+  });
+
+  return prefer === 'ours' ? ours : theirs;
+}
+
+/**
+ * Flattens a component tree into a map keyed by component id
+ */
+function flattenComponents(
+  components: BaseComponent[],
+  parentId: string | null = null,
+  result: FlatTemplate = new Map()
+): FlatTemplate {
+  components.forEach((component, index) => {
+    const { children, ...rest } = component;
+    result.set(component.id, {
+      component: rest as BaseComponent,
+      location: { parentId, index },
+      hasChildren: children !== undefined,
+    });
+
+    if (children) {
+      flattenComponents(children, component.id, result);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Finds components that changed parent or order among their common siblings
+ */
+function findMoved(before: FlatTemplate, after: FlatTemplate): Set<string> {
+  const moved = new Set<string>();
+  const siblingsBefore = groupByParent(before);
+  const siblingsAfter = groupByParent(after);
+
+  after.forEach((entry, id) => {
+    const previous = before.get(id);
+    if (previous && previous.location.parentId !== entry.location.parentId) {
+      moved.add(id);
+    }
+  });
+
+  siblingsAfter.forEach((afterIds, parentId) => {
+    const beforeIds = siblingsBefore.get(parentId) ?? [];
+    const common = new Set(afterIds.filter((id) => beforeIds.includes(id)));
+    const stable = longestCommonSubsequence(
+      beforeIds.filter((id) => common.has(id)),
+      afterIds.filter((id) => common.has(id))
+    );
+
+    common.forEach((id) => {
+      if (!stable.has(id)) {
+        moved.add(id);
+      }
+    });
+  });
+
+  return moved;
+}
+
+function groupByParent(flat: FlatTemplate): Map<string | null, string[]> {
+  const groups = new Map<string | null, string[]>();
+
+  orderedIds(flat).forEach((id) => {
+    const parentId = flat.get(id)?.location.parentId ?? null;
+    groups.set(parentId, [...(groups.get(parentId) ?? []), id]);
+  });
+
+  return groups;
+}
+
+/**
+ * IDs sorted by position within their parent
+ */
+function orderedIds(flat: FlatTemplate): string[] {
+  return [...flat.keys()].sort(
+    (a, b) => (flat.get(a)?.location.index ?? 0) - (flat.get(b)?.location.index ?? 0)
+  );
+}
+
+function longestCommonSubsequence(a: string[], b: string[]): Set<string> {
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      const row = lengths[i] as number[];
+      row[j] =
+        a[i] === b[j]
+          ? (lengths[i + 1]?.[j + 1] ?? 0) + 1
+          : Math.max(lengths[i + 1]?.[j] ?? 0, row[j + 1] ?? 0);
+    }
+  }
+
+  const result = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.add(a[i] as string);
+      i++;
+      j++;
+    } else if ((lengths[i + 1]?.[j] ?? 0) >= (lengths[i]?.[j + 1] ?? 0)) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return result;
+}
+
+function getField(template: Template, key: string): unknown {
+  return (template as unknown as Record<string, unknown>)[key];
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return diffValues(a, b).length === 0;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -2,9 +2,16 @@
  * Template Exporter Tests
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { TemplateExporter } from './TemplateExporter';
-import type { Template } from '../types/template.types';
+import type { Template, TemplateExportOptions } from '../types/template.types';
+import type { GlobalBlock } from '../types/global-block.types';
+import { createGlobalBlockReference, createRow, createText } from '../components/factories';
+import { setLocalizedTexts } from '../i18n/content-localization';
+import { DataProcessingService } from '../data-injection/DataProcessingService';
+import { RepeatBindingError } from '../errors';
+import { boldTheme, modernTheme } from '../theme/default-themes';
+import { bindStyleToken } from '../theme/theme-tokens';
 
 describe('TemplateExporter', () => {
   let exporter: TemplateExporter;
@@ -137,4 +144,502 @@ describe('TemplateExporter', () => {
       expect(result.html).toContain('&lt;script&gt;');
     });
   });
+
+  describe('plain text', () => {
+    const createTextTemplate = (): Template => ({
+      ...createTestTemplate(),
+      components: [
+        {
+          id: 'heading',
+          type: 'text',
+          content: { type: 'heading-1', html: 'Welcome' },
+          styles: {},
+        },
+        {
+          id: 'button',
+          type: 'button',
+          content: { text: 'Get started', link: { href: 'https://example.com/start' } },
+          styles: {},
+        },
+      ],
+    } as unknown as Template);
+
+    it('should export the plain-text alternative next to the HTML', () => {
+      const result = exporter.export(createTextTemplate(), { format: 'html' } as TemplateExportOptions);
+
+      expect(result.text).toBe('Welcome\n=======\n\nGet started: https://example.com/start');
+    });
+
+    it('should skip the plain-text alternative when disabled', () => {
+      const result = exporter.export(createTextTemplate(), {
+        format: 'html',
+        plainText: false,
+      } as TemplateExportOptions);
+
+      expect(result.text).toBeUndefined();
+    });
+
+    it('should not export plain text for JSON exports', () => {
+      const result = exporter.export(createTextTemplate(), { format: 'json' } as TemplateExportOptions);
+
+      expect(result.text).toBeUndefined();
+    });
+
+    it('should pass plain-text options through', () => {
+      const template = createTextTemplate();
+      template.components = [
+        {
+          id: 'paragraph',
+          type: 'text',
+          content: { type: 'paragraph', html: 'one two three four' },
+          styles: {},
+        } as unknown as Template['components'][number],
+      ];
+
+      const result = exporter.export(template, {
+        format: 'html',
+        plainText: { wrapWidth: 8 },
+      } as TemplateExportOptions);
+
+      expect(result.text).toBe('one two\nthree\nfour');
+    });
+  });
+
+  describe('eml', () => {
+    const PIXEL = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+    // Joins quoted-printable soft line breaks
+    const unfold = (eml = ''): string => eml.replace(/=\r\n/g, '');
+
+    const createMessageTemplate = (): Template => ({
+      ...createTestTemplate(),
+      metadata: {
+        ...createTestTemplate().metadata,
+        subject: 'Your weekly digest',
+        preheader: 'Top stories this week',
+        from: 'Acme <news@acme.com>',
+        replyTo: '{{replyTo}}',
+      },
+      components: [
+        {
+          id: 'heading',
+          type: 'text',
+          content: { type: 'heading-1', html: 'Welcome' },
+          styles: {},
+        },
+        {
+          id: 'logo',
+          type: 'image',
+          content: { src: `data:image/png;base64,${PIXEL}`, alt: 'Logo' },
+          styles: {},
+        },
+        {
+          id: 'photo',
+          type: 'image',
+          content: { src: 'https://cdn.example.com/photo.jpg', alt: 'Photo' },
+          styles: {},
+        },
+      ],
+    } as unknown as Template);
+
+    it('should export a multipart/alternative message with headers from the metadata', () => {
+      const result = exporter.export(createMessageTemplate(), { format: 'eml' } as TemplateExportOptions);
+
+      expect(result.format).toBe('eml');
+      expect(result.eml).toContain('From: Acme <news@acme.com>\r\n');
+      expect(result.eml).toContain('Reply-To: {{replyTo}}\r\n');
+      expect(result.eml).toContain('Subject: Your weekly digest\r\n');
+      expect(result.eml).toMatch(/Content-Type: multipart\/alternative; boundary="[^"]+"/);
+      expect(result.eml).toContain('Content-Type: text/plain; charset=UTF-8');
+      expect(result.eml).toContain('Content-Type: text/html; charset=UTF-8');
+      expect(result.text).toContain('Welcome');
+      expect(result.html).toContain('Top stories this week');
+    });
+
+    it('should fall back to the template name and a From placeholder', () => {
+      const result = exporter.export(createTestTemplate(), { format: 'eml' } as TemplateExportOptions);
+
+      expect(result.eml).toContain('From: {{from}}\r\n');
+      expect(result.eml).toContain('Subject: Test Template\r\n');
+      expect(result.eml).not.toContain('Reply-To:');
+    });
+
+    it('should let mime options override the metadata headers', () => {
+      const result = exporter.export(createMessageTemplate(), {
+        format: 'eml',
+        mime: { subject: 'Override', from: '{{sender}}' },
+      } as TemplateExportOptions);
+
+      expect(result.eml).toContain('Subject: Override\r\n');
+      expect(result.eml).toContain('From: {{sender}}\r\n');
+    });
+
+    it('should keep images remote unless embedding is enabled', () => {
+      const result = exporter.export(createMessageTemplate(), { format: 'eml' } as TemplateExportOptions);
+
+      expect(result.eml).not.toContain('multipart/related');
+      expect(result.eml).not.toContain('cid:');
+    });
+
+    it('should embed data URI images as related parts', () => {
+      const result = exporter.export(createMessageTemplate(), {
+        format: 'eml',
+        mime: { embedImages: true },
+      } as TemplateExportOptions);
+      const eml = unfold(result.eml);
+
+      expect(eml).toMatch(/Content-Type: multipart\/related; boundary="[^"]+"; type="text\/html"/);
+      expect(eml).toMatch(/src=3D"cid:image-1\.\w+@email-builder"/);
+      expect(eml).toContain('Content-Type: image/png; name="image-1.png"');
+      expect(eml).toContain(PIXEL.slice(0, 40));
+      // Remote images without data stay remote
+      expect(eml).toContain('src=3D"https://cdn.example.com/photo.jpg"');
+    });
+
+    it('should resolve remote images when exporting asynchronously', async () => {
+      const resolveImage = vi.fn(async () => ({ content: new Uint8Array([1, 2, 3]), contentType: 'image/jpeg' }));
+
+      const result = await exporter.exportMIME(createMessageTemplate(), {
+        mime: { embedImages: true, resolveImage },
+      } as TemplateExportOptions);
+
+      expect(resolveImage).toHaveBeenCalledTimes(1);
+      expect(resolveImage).toHaveBeenCalledWith('https://cdn.example.com/photo.jpg');
+      expect(result.eml).toContain('Content-Type: image/jpeg; name="photo.jpg"');
+      expect(unfold(result.eml)).not.toContain('src=3D"https://cdn.example.com/photo.jpg"');
+    });
+  });
+
+  describe('dark mode', () => {
+    const darkTemplate = (): Template => {
+      const template = createTestTemplate();
+      template.generalStyles = { darkPalette: { background: '#111111', text: '#eeeeee' } };
+      template.components.push({
+        id: 'logo-1',
+        type: 'image',
+        content: { src: 'https://cdn.example.com/logo.png', alt: 'Logo' },
+        styles: {},
+        darkStyles: { backgroundColor: '#222222', imageSrc: 'https://cdn.example.com/logo-dark.png' },
+        children: [],
+      } as unknown as Template['components'][number]);
+      return template;
+    };
+
+    it('should not add dark mode markup to templates without overrides', () => {
+      const result = exporter.export(createTestTemplate(), { format: 'html', inlineStyles: true });
+
+      expect(result.html).not.toContain('color-scheme');
+      expect(result.html).not.toContain('<style>');
+    });
+
+    it('should add color scheme meta tags and dark mode rules to inlined exports', () => {
+      const result = exporter.export(darkTemplate(), { format: 'html', inlineStyles: true });
+
+      expect(result.html).toContain('<meta name="color-scheme" content="light dark">');
+      expect(result.html).toContain('<meta name="supported-color-schemes" content="light dark">');
+      expect(result.html).toContain('@media (prefers-color-scheme: dark) {');
+      expect(result.html).toContain('body { background-color: #111111 !important; }');
+      expect(result.html).toContain('[data-ogsb] [data-component-id="logo-1"] [style*="background"]');
+    });
+
+    it('should swap images with a dark mode source', () => {
+      const html = exporter.renderComponents(darkTemplate());
+
+      expect(html).toContain('<div class="light-image"><table');
+      expect(html).toMatch(/<div class="dark-image" style="display: none; mso-hide: all;[^"]*">.*logo-dark\.png/);
+    });
+
+    it('should append dark mode rules to the generated style sheet', () => {
+      const result = exporter.export(darkTemplate(), { format: 'html', inlineStyles: false });
+      const css = result.html?.match(/<style>([\s\S]*)<\/style>/)?.[1] ?? '';
+
+      expect(css.indexOf('.email-canvas {')).toBeGreaterThan(-1);
+      expect(css.indexOf('@media (prefers-color-scheme: dark)')).toBeGreaterThan(css.indexOf('.email-canvas {'));
+    });
+  });
+
+  describe('renderers', () => {
+    it('should render components through registered renderers', () => {
+      const template = createTestTemplate();
+      template.components.push({
+        id: 'countdown-1',
+        type: 'countdown',
+        content: { endsAt: '2030-01-01' },
+        children: [],
+      } as unknown as Template['components'][number]);
+
+      exporter.registerRenderer('countdown', (component) => {
+        return `<p class="countdown">${component.content['endsAt']}</p>`;
+      });
+
+      const html = exporter.renderComponents(template);
+
+      expect(html).toContain('<p class="countdown">2030-01-01</p>');
+      expect(html).toContain('data-component-id="countdown-1"');
+    });
+
+    it('should render unregistered types as a comment', () => {
+      const template = createTestTemplate();
+      template.components[0]!.type = 'countdown';
+
+      const html = exporter.renderComponents(template);
+
+      expect(html).toContain('<!-- countdown component -->');
+    });
+
+    it('should render the components of row columns with their wrappers', () => {
+      const template = createTestTemplate();
+      const row = createRow({ id: 'row-1' });
+      row.children[1]!.children = [
+        createText({ id: 'nested-text', content: { type: 'paragraph', html: 'Right column', plainText: 'Right column' } }),
+      ];
+      template.components = [row];
+
+      const html = exporter.renderComponents(template);
+      const result = exporter.export(template, { format: 'html' } as TemplateExportOptions);
+
+      expect(html).toContain('data-component-id="row-1"');
+      expect(html).toContain('data-component-id="nested-text"');
+      expect(html).toContain('Right column');
+      expect(result.text).toBe('Right column');
+    });
+  });
+
+  describe('global blocks', () => {
+    const footer: GlobalBlock = {
+      id: 'footer',
+      name: 'Legal footer',
+      components: [createText({ id: 'legal', content: { type: 'paragraph', html: '<p>Unsubscribe anytime</p>' } })],
+      version: 1,
+      createdAt: 0,
+      updatedAt: 0,
+    };
+
+    it('should export the current components of referenced blocks', () => {
+      const template = createTestTemplate();
+      template.components.push(createGlobalBlockReference('footer', { id: 'ref-1' }));
+      exporter.setGlobalBlockResolver((id) => (id === 'footer' ? footer : undefined));
+
+      const result = exporter.export(template, { format: 'html', plainText: true });
+
+      expect(result.html).toContain('Unsubscribe anytime');
+      expect(result.html).toContain('data-component-id="ref-1-legal"');
+      expect(result.text).toContain('Unsubscribe anytime');
+      expect(template.components[1]!.type).toBe('global-block');
+    });
+
+    it('should export unresolved references as a comment', () => {
+      const template = createTestTemplate();
+      template.components.push(createGlobalBlockReference('footer'));
+
+      expect(exporter.renderComponents(template)).toContain('<!-- Global block not found: footer -->');
+    });
+  });
+
+  describe('localized content', () => {
+    it('should export one document per locale', () => {
+      const template = createTestTemplate();
+      template.components = [createText({ id: 'greeting', content: { type: 'paragraph', html: '<p>Hello</p>' } })];
+      template.metadata.subject = 'Hello';
+      const localized = setLocalizedTexts(template, 'es-ES', {
+        'greeting:content.html': '<p>Hola</p>',
+        'metadata:subject': 'Hola',
+      });
+
+      const results = exporter.exportLocales(localized, { format: 'html' });
+
+      expect(Object.keys(results)).toEqual(['en-US', 'es-ES']);
+      expect(results['en-US']!.html).toContain('Hello');
+      expect(results['es-ES']!.html).toContain('Hola');
+      expect(results['es-ES']!.html).toContain('lang="es-ES"');
+      expect(results['es-ES']!.html).not.toContain('Hello');
+    });
+  });
+
+  describe('display rules', () => {
+    const createRuleTemplate = (): Template => {
+      const template = createTestTemplate();
+      const row = createRow({ id: 'row' });
+      row.children![0]!.children = [
+        createText({
+          id: 'vip',
+          content: { type: 'paragraph', html: '<p>Gold perks</p>' },
+          displayRule: { match: 'all', conditions: [{ variable: 'customer.tier', operator: '==', value: 'gold' }] },
+        }),
+      ];
+      template.components = [
+        createText({ id: 'greeting', content: { type: 'paragraph', html: '<p>Hello</p>' } }),
+        createText({
+          id: 'offer',
+          content: { type: 'paragraph', html: '<p>Welcome offer</p>' },
+          displayRule: { match: 'all', conditions: [{ variable: 'orders', operator: '<', value: 1 }] },
+        }),
+        row,
+      ];
+      return template;
+    };
+
+    it('should export every component when rules are not exported', () => {
+      const result = exporter.export(createRuleTemplate(), { format: 'html', plainText: true });
+
+      expect(result.html).toContain('Welcome offer');
+      expect(result.html).toContain('Gold perks');
+    });
+
+    it('should leave out the components whose rule does not match the data', () => {
+      const result = exporter.export(createRuleTemplate(), {
+        format: 'html',
+        plainText: true,
+        displayRules: { mode: 'evaluate', data: { customer: { tier: 'silver' }, orders: 0 } },
+      });
+
+      expect(result.html).toContain('Hello');
+      expect(result.html).toContain('Welcome offer');
+      expect(result.html).not.toContain('Gold perks');
+      expect(result.text).toBe('Hello\n\nWelcome offer');
+    });
+
+    it('should not reuse the component tree of other data', () => {
+      const template = createRuleTemplate();
+      const silver = { mode: 'evaluate' as const, data: { customer: { tier: 'silver' }, orders: 0 } };
+
+      expect(exporter.renderComponents(template, { displayRules: silver })).not.toContain('Gold perks');
+      expect(exporter.renderComponents(template)).toContain('Gold perks');
+    });
+
+    it('should wrap the components with a rule in the ESP conditional syntax', () => {
+      const result = exporter.export(createRuleTemplate(), {
+        format: 'html',
+        plainText: true,
+        displayRules: { mode: 'esp', syntax: 'liquid' },
+      });
+
+      expect(result.html).toMatch(/\{% if orders < 1 %\}\n[\s\S]*Welcome offer[\s\S]*\{% endif %\}/);
+      expect(result.html).toMatch(/\{% if customer\.tier == "gold" %\}\n[\s\S]*Gold perks[\s\S]*\{% endif %\}/);
+      expect(result.text).toBe(
+        'Hello\n\n{% if orders < 1 %}\n\nWelcome offer\n\n{% endif %}\n\n{% if customer.tier == "gold" %}\n\nGold perks\n\n{% endif %}'
+      );
+    });
+  });
+
+  describe('repeated components', () => {
+    const products = [
+      { title: 'Lamp', url: 'https://example.com/lamp' },
+      { title: 'Desk & chair', url: 'https://example.com/desk' },
+    ];
+
+    const createRepeatTemplate = (emptyText?: string): Template => {
+      const template = createTestTemplate();
+      const row = createRow({ id: 'card' });
+      row.children![0]!.children = [
+        createText({ id: 'title', content: { type: 'paragraph', html: '<p>Product</p>' } }),
+      ];
+      row.repeat = {
+        source: 'products',
+        fields: [{ componentId: 'title', property: 'content.html', field: 'title' }],
+        ...(emptyText && { emptyText }),
+      };
+      template.components = [row];
+      return template;
+    };
+
+    it('should export repeated components once when repeats are not exported', () => {
+      const result = exporter.export(createRepeatTemplate(), { format: 'html', plainText: true });
+
+      expect(result.text).toBe('Product');
+    });
+
+    it('should expand repeated components with the data', () => {
+      const result = exporter.export(createRepeatTemplate(), {
+        format: 'html',
+        plainText: true,
+        repeats: { mode: 'expand', data: { products } },
+      });
+
+      expect(result.html).toContain('data-component-id="card-1"');
+      expect(result.html).toContain('data-component-id="title-2"');
+      expect(result.html).toContain('Desk &amp; chair');
+      expect(result.text).toBe('Lamp\n\nDesk & chair');
+    });
+
+    it('should export the empty state when the data has no items', () => {
+      const result = exporter.export(createRepeatTemplate('No recommendations yet'), {
+        format: 'html',
+        plainText: true,
+        repeats: { mode: 'expand', data: { products: [] } },
+      });
+
+      expect(result.text).toBe('No recommendations yet');
+    });
+
+    it('should write loops that expand when the data is injected', () => {
+      const result = exporter.export(createRepeatTemplate('No recommendations yet'), {
+        format: 'html',
+        plainText: true,
+        repeats: { mode: 'loop' },
+      });
+
+      expect(result.text).toBe('{{#each products}}\n\n{{title}}\n\n{{else}}\n\nNo recommendations yet\n\n{{/each}}');
+
+      const service = new DataProcessingService();
+      const text = service.process(result.text!, { products }).output;
+      expect(text).toMatch(/Lamp\s+Desk & chair/);
+      expect(text).not.toContain('{{');
+      expect(service.process(result.text!, { products: [] }).output.trim()).toBe('No recommendations yet');
+      expect(service.process(result.html!, { products }).output).toContain('>Lamp<');
+    });
+
+    it('should reject loops for filtered, sorted or limited items', () => {
+      const template = createRepeatTemplate();
+      template.components[0]!.repeat!.limit = 3;
+
+      expect(() => exporter.export(template, { format: 'html', repeats: { mode: 'loop' } })).toThrow(
+        RepeatBindingError
+      );
+    });
+  });
+
+  describe('theme tokens', () => {
+    const createThemedTemplate = (): Template => {
+      const template = createTestTemplate();
+      template.generalStyles = { themeId: 'bold' };
+      template.components = [
+        bindStyleToken(
+          createText({ id: 'title', content: { type: 'paragraph', html: '<p>Sale</p>' } }),
+          'color',
+          'colors.primary.500',
+          modernTheme
+        ),
+      ];
+      return template;
+    };
+
+    it('should export the last resolved values without a theme resolver', () => {
+      const html = exporter.renderComponents(createThemedTemplate());
+
+      expect(html).toContain('color: #3b82f6');
+    });
+
+    it('should resolve the tokens with the template theme', () => {
+      exporter.setThemeResolver((themeId) => (themeId === 'bold' ? boldTheme : undefined));
+
+      const html = exporter.renderComponents(createThemedTemplate());
+
+      expect(html).toContain('color: #f43f5e');
+      expect(html).not.toContain('#3b82f6');
+    });
+
+    it('should resolve the template once per export', async () => {
+      const resolver = vi.fn((themeId: string) => (themeId === 'bold' ? boldTheme : undefined));
+      exporter.setThemeResolver(resolver);
+
+      const result = exporter.export(createThemedTemplate(), { format: 'both', plainText: true });
+      expect(resolver).toHaveBeenCalledTimes(1);
+      expect(result.html).toContain('color: #f43f5e');
+
+      resolver.mockClear();
+      await exporter.exportMIME(createThemedTemplate(), {});
+      expect(resolver).toHaveBeenCalledTimes(1);
+    });
+  });
 });
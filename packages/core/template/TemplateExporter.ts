@@ -9,19 +9,49 @@ import type {
   TemplateExportOptions,
   ComponentTreeNode,
 } from '../types/template.types';
-import type { BaseComponent, BaseStyles } from '../types/component.types';
+import type { BaseComponent, BaseStyles, ComponentType } from '../types/component.types';
+import type { GlobalBlockResolver } from '../types/global-block.types';
+import type { ThemeResolver } from '../types/theme.types';
 import { ComponentTreeBuilder } from './ComponentTreeBuilder';
+import { resolveGlobalBlocks } from './global-blocks';
+import { applyDisplayRules, renderDisplayRuleTags } from './display-rules';
+import { applyThemeTokens } from '../theme/theme-tokens';
+import {
+  bindRepeatPlaceholders,
+  createRepeatEmptyState,
+  expandRepeats,
+  renderRepeatLoopTags,
+} from './repeat-bindings';
+import { getTemplateLocales, localizeTemplate } from '../i18n/content-localization';
 import { BreakpointManager } from '../responsive/BreakpointManager';
 import { DeviceType, BreakpointStrategy } from '../types/responsive.types';
 import type { ResponsiveStyles } from '../types/responsive.types';
+import type { ComponentRendererRegistry } from '../renderer/ComponentRendererRegistry';
+import { createDefaultRendererRegistry } from '../renderer/default-renderers';
+import type { ComponentRenderer } from '../renderer/renderer.types';
+import type { PlainTextOptions } from '../renderer/plain-text';
+import { spacingToCSS } from '../renderer/utils';
+import { PlainTextRenderer } from '../renderer/PlainTextRenderer';
+import { createMimeMessage, resolveImages, injectPreheader } from '../renderer/mime';
+import { COLOR_SCHEME_META_TAGS, renderDarkModeCSS, renderDarkModeImage } from '../renderer/dark-mode';
 
 /**
  * Export result
  */
 export interface ExportResult {
   html?: string;
+
+  /**
+   * Plain-text alternative of the HTML (text/plain part)
+   */
+  text?: string;
   json?: string;
-  format: 'html' | 'json' | 'both';
+
+  /**
+   * MIME message (.eml) with the HTML and plain-text parts
+   */
+  eml?: string;
+  format: 'html' | 'json' | 'both' | 'eml';
 }
 
 /**
@@ -33,10 +63,119 @@ export interface ExportResult {
 export class TemplateExporter {
   private treeBuilder: ComponentTreeBuilder;
   private breakpointManager: BreakpointManager;
+  private renderers: ComponentRendererRegistry;
+  private textRenderer: PlainTextRenderer;
+  private globalBlockResolver: GlobalBlockResolver | undefined;
+  private themeResolver: ThemeResolver | undefined;
 
-  constructor() {
+  /**
+   * @param renderers - Component renderers (defaults to the built-in renderers)
+   */
+  constructor(renderers: ComponentRendererRegistry = createDefaultRendererRegistry()) {
     this.treeBuilder = new ComponentTreeBuilder();
     this.breakpointManager = new BreakpointManager();
+    this.renderers = renderers;
+    this.textRenderer = new PlainTextRenderer(renderers);
+  }
+
+  /**
+   * Registers a renderer for a component type
+   *
+   * Use this to render custom component types, or to override a built-in renderer.
+   *
+   * @param type - Component type
+   * @param renderer - Renderer function
+   */
+  registerRenderer<TComponent extends BaseComponent>(
+    type: ComponentType | string,
+    renderer: ComponentRenderer<TComponent>
+  ): void {
+    this.renderers.register(type, renderer);
+  }
+
+  /**
+   * Gets the renderer registry used by this exporter
+   */
+  getRenderers(): ComponentRendererRegistry {
+    return this.renderers;
+  }
+
+  /**
+   * Sets how global block references are resolved
+   *
+   * Every export replaces the references of the template with the current
+   * components of their blocks, so an exported email is self-contained.
+   * Without a resolver, references render as HTML comments.
+   *
+   * @param resolver - Looks up a block by ID (e.g. {@link GlobalBlockManager.getResolver})
+   */
+  setGlobalBlockResolver(resolver: GlobalBlockResolver | undefined): void {
+    this.globalBlockResolver = resolver;
+  }
+
+  /**
+   * Sets how the template theme is looked up
+   *
+   * Every export resolves the style tokens of the components with the current
+   * tokens of the template theme. Without a resolver, or for an unknown
+   * theme, bound styles keep the value they were last resolved to.
+   *
+   * @param resolver - Looks up a theme by ID
+   */
+  setThemeResolver(resolver: ThemeResolver | undefined): void {
+    this.themeResolver = resolver;
+  }
+
+  /**
+   * Render the template components without the surrounding document
+   *
+   * @param template - Template to render
+   * @param options - Export options
+   * @returns Component HTML
+   */
+  renderComponents(template: Template, options: Partial<TemplateExportOptions> = {}): string {
+    return this.renderPreparedComponents(this.prepareTemplate(template, options), options);
+  }
+
+  /**
+   * Renders the components of a template already given to {@link prepareTemplate}
+   */
+  private renderPreparedComponents(template: Template, options: Partial<TemplateExportOptions>): string {
+    const tree = template.componentTree || this.treeBuilder.buildTree(template.components);
+
+    return this.generateHTMLContent(tree, template, {
+      format: 'html',
+      inlineStyles: true,
+      minify: false,
+      includeComments: false,
+      ...options,
+    });
+  }
+
+  /**
+   * Render the template as plain text, the text/plain alternative of the HTML
+   *
+   * @param template - Template to render
+   * @param options - Plain-text options
+   * @returns Plain text
+   */
+  renderText(template: Template, options: PlainTextOptions = {}): string {
+    return this.renderPreparedText(this.resolveTemplate(template), options);
+  }
+
+  /**
+   * Renders the plain text of a template already resolved
+   */
+  private renderPreparedText(template: Template, options: PlainTextOptions): string {
+    const tree = template.componentTree || this.treeBuilder.buildTree(template.components);
+    return this.textRenderer.render(tree, { template }, options);
+  }
+
+  /**
+   * Gets the plain-text renderer, to register text output for custom component types
+   */
+  getTextRenderer(): PlainTextRenderer {
+    return this.textRenderer;
   }
 
   /**
@@ -47,21 +186,232 @@ export class TemplateExporter {
    * @returns Export result
    */
   export(template: Template, options: TemplateExportOptions): ExportResult {
+    return this.exportPrepared(this.prepareTemplate(template, options), options);
+  }
+
+  /**
+   * Exports a template already given to {@link prepareTemplate}
+   */
+  private exportPrepared(template: Template, options: TemplateExportOptions): ExportResult {
     const result: ExportResult = {
       format: options.format,
     };
 
     if (options.format === 'html' || options.format === 'both') {
       result.html = this.exportHTML(template, options);
+
+      if (options.plainText !== false) {
+        result.text = this.renderPreparedText(template, this.getTextOptions(options));
+      }
     }
 
     if (options.format === 'json' || options.format === 'both') {
       result.json = this.exportJSON(template, options);
     }
 
+    if (options.format === 'eml') {
+      Object.assign(result, this.exportEML(template, options));
+    }
+
     return result;
   }
 
+  /**
+   * Export one file per locale of the template
+   *
+   * Each locale is exported from {@link localizeTemplate}: translated texts,
+   * subject and preheader replace the source content and `lang` is set to the
+   * locale.
+   *
+   * @param template - Template to export
+   * @param options - Export options
+   * @param locales - Locales to export (defaults to every locale of the template, source first)
+   * @returns Export result per locale
+   */
+  exportLocales(
+    template: Template,
+    options: TemplateExportOptions,
+    locales: string[] = getTemplateLocales(template)
+  ): Record<string, ExportResult> {
+    return Object.fromEntries(
+      locales.map((locale) => {
+        // Localized templates keep the component IDs the tree cache is keyed on
+        this.treeBuilder.clearCache();
+        return [locale, this.export(localizeTemplate(template, locale), options)];
+      })
+    );
+  }
+
+  /**
+   * Export template as a MIME message, loading images first
+   *
+   * Same as {@link export} with the `eml` format, except that remote images
+   * are loaded with `options.mime.resolveImage` so they can be embedded.
+   *
+   * @param template - Template to export
+   * @param options - Export options
+   * @returns Export result with the message, HTML and plain text
+   */
+  async exportMIME(
+    template: Template,
+    options: Omit<TemplateExportOptions, 'format'>
+  ): Promise<ExportResult> {
+    const mime = options.mime ?? {};
+    const eml: TemplateExportOptions = { ...options, format: 'eml' };
+    template = this.prepareTemplate(template, eml);
+
+    if (mime.embedImages && mime.resolveImage) {
+      const images = await resolveImages(this.exportHTML(template, eml), mime);
+      eml.mime = { ...mime, images };
+    }
+
+    return this.exportPrepared(template, eml);
+  }
+
+  /**
+   * Resolves a template and applies the data of an export, once per export:
+   * the private render and export methods expect a prepared template
+   */
+  private prepareTemplate(template: Template, options: Partial<TemplateExportOptions>): Template {
+    return this.applyData(this.resolveTemplate(template), options);
+  }
+
+  /**
+   * Replaces the global block references of a template and resolves its
+   * style tokens, when resolvers are set
+   */
+  private resolveTemplate(template: Template): Template {
+    const resolved = this.globalBlockResolver ? resolveGlobalBlocks(template, this.globalBlockResolver) : template;
+    const themeId = resolved.generalStyles?.themeId;
+    const theme = themeId !== undefined ? this.themeResolver?.(themeId) : undefined;
+    const themed = theme ? applyThemeTokens(resolved, theme) : resolved;
+    if (themed === resolved) {
+      return resolved;
+    }
+
+    // Built outside the shared tree cache, which is keyed on the root component IDs only
+    return { ...themed, componentTree: new ComponentTreeBuilder().buildTree(themed.components) };
+  }
+
+  /**
+   * Expands repeated components and leaves out the components whose display
+   * rule does not match the data, when the export is given data
+   */
+  private applyData(template: Template, options: Partial<TemplateExportOptions>): Template {
+    let result = template;
+    if (options.repeats?.mode === 'expand') {
+      result = expandRepeats(result, options.repeats.data);
+    }
+    if (options.displayRules?.mode === 'evaluate') {
+      result = applyDisplayRules(result, options.displayRules.data);
+    }
+    if (result === template) {
+      return template;
+    }
+
+    // Built outside the shared tree cache, which is keyed on the root component IDs only
+    return { ...result, componentTree: new ComponentTreeBuilder().buildTree(result.components) };
+  }
+
+  /**
+   * Renders a component, as a `{{#each}}` loop when it is repeated and
+   * repeats are exported as loops
+   *
+   * @param render - Renders the component, or its placeholder copy or empty
+   * state in a loop
+   */
+  private renderRepeated(
+    component: BaseComponent,
+    render: (component: BaseComponent) => string,
+    options: Partial<TemplateExportOptions>
+  ): string {
+    if (options.repeats?.mode !== 'loop' || !component.repeat) {
+      return this.wrapDisplayRule(component, render(component), options);
+    }
+
+    const tags = renderRepeatLoopTags(component.repeat);
+    const empty = createRepeatEmptyState(component);
+    const html = [
+      tags.open,
+      render(bindRepeatPlaceholders(component)),
+      ...(empty ? [tags.else, render(empty)] : []),
+      tags.close,
+    ].join('\n');
+
+    return this.wrapDisplayRule(component, html, options);
+  }
+
+  /**
+   * Wraps the HTML of a component with a display rule in ESP conditional tags,
+   * when rules are exported for an ESP
+   */
+  private wrapDisplayRule(
+    component: BaseComponent,
+    html: string,
+    options: Partial<TemplateExportOptions>
+  ): string {
+    const tags =
+      options.displayRules?.mode === 'esp' && component.displayRule
+        ? renderDisplayRuleTags(component.displayRule, options.displayRules.syntax)
+        : undefined;
+
+    return tags ? `${tags.open}\n${html}\n${tags.close}` : html;
+  }
+
+  /**
+   * Gets the plain-text options of an export
+   */
+  private getTextOptions(options: TemplateExportOptions): PlainTextOptions {
+    const textOptions = typeof options.plainText === 'object' ? options.plainText : {};
+    return {
+      ...textOptions,
+      ...(options.displayRules?.mode === 'esp' && { displayRuleSyntax: options.displayRules.syntax }),
+      ...(options.repeats?.mode === 'loop' && { repeatLoops: true }),
+    };
+  }
+
+  /**
+   * Export template as a MIME message
+   *
+   * Headers come from the template metadata (subject, preheader, from and
+   * reply-to), overridden by `options.mime`.
+   */
+  private exportEML(
+    template: Template,
+    options: TemplateExportOptions
+  ): Pick<ExportResult, 'eml' | 'html' | 'text'> {
+    const { metadata } = template;
+    const mime = options.mime ?? {};
+    const preheader = mime.preheader ?? metadata.preheader;
+    const from = mime.from ?? metadata.from;
+    const replyTo = mime.replyTo ?? metadata.replyTo;
+    const html = this.exportHTML(template, options);
+    const text =
+      options.plainText === false
+        ? undefined
+        : this.renderPreparedText(template, this.getTextOptions(options));
+
+    const eml = createMimeMessage(
+      {
+        html,
+        subject: mime.subject ?? metadata.subject ?? metadata.name,
+        ...(text !== undefined && { text }),
+      },
+      {
+        ...mime,
+        ...(preheader && { preheader }),
+        ...(from && { from }),
+        ...(replyTo && { replyTo }),
+      }
+    );
+
+    return {
+      eml,
+      html: preheader ? injectPreheader(html, preheader) : html,
+      ...(text !== undefined && { text }),
+    };
+  }
+
   /**
    * Export template as HTML
    *
@@ -73,14 +423,10 @@ export class TemplateExporter {
     template: Template,
     options: TemplateExportOptions
   ): string {
-    const { settings, components } = template;
-
-    // Build component tree if not present
-    const tree =
-      template.componentTree || this.treeBuilder.buildTree(components);
+    const { settings } = template;
 
     // Generate HTML parts
-    const htmlContent = this.generateHTMLContent(tree, template, options);
+    const htmlContent = this.renderPreparedComponents(template, options);
 
     // Build complete HTML document
     let html = '';
@@ -97,16 +443,26 @@ export class TemplateExporter {
     html += '  <meta charset="UTF-8">\n';
     html += '  <meta name="viewport" content="width=device-width, initial-scale=1.0">\n';
 
+    const darkModeCSS = renderDarkModeCSS(template, '    ');
+    if (darkModeCSS) {
+      COLOR_SCHEME_META_TAGS.forEach((tag) => {
+        html += `  ${tag}\n`;
+      });
+    }
+
     if (template.metadata.description) {
       html += `  <meta name="description" content="${this.escapeHTML(template.metadata.description)}">\n`;
     }
 
     html += `  <title>${this.escapeHTML(template.metadata.name)}</title>\n`;
 
-    // Add styles
-    if (!options.inlineStyles) {
+    // Add styles (dark mode rules cannot be inlined)
+    if (!options.inlineStyles || darkModeCSS) {
       html += '  <style>\n';
-      html += this.generateCSS(template, options);
+      if (!options.inlineStyles) {
+        html += this.generateCSS(template, options);
+      }
+      html += darkModeCSS;
       html += '  </style>\n';
     }
 
@@ -165,34 +521,38 @@ export class TemplateExporter {
     let html = '';
 
     const renderNode = (node: ComponentTreeNode, indent = 2): string => {
-      const { component } = node;
       const indentStr = ' '.repeat(indent);
-      let nodeHTML = '';
 
-      if (options.includeComments) {
-        nodeHTML += `${indentStr}<!-- Component: ${component.type} (${component.id}) -->\n`;
-      }
+      const renderComponent = (component: BaseComponent): string => {
+        let nodeHTML = '';
 
-      // Generate component HTML
-      const componentHTML = this.generateComponentHTML(
-        component,
-        template,
-        options
-      );
-
-      // Add indentation
-      const lines = componentHTML.split('\n');
-      nodeHTML += lines.map((line) => (line ? `${indentStr}${line}` : line)).join('\n');
-
-      // Render children
-      if (node.children.length > 0) {
-        nodeHTML += '\n';
-        node.children.forEach((child) => {
-          nodeHTML += renderNode(child, indent + 2);
-        });
-      }
+        if (options.includeComments) {
+          nodeHTML += `${indentStr}<!-- Component: ${component.type} (${component.id}) -->\n`;
+        }
+
+        // Generate component HTML
+        const componentHTML = this.generateComponentHTML(
+          component,
+          template,
+          options
+        );
+
+        // Add indentation
+        const lines = componentHTML.split('\n');
+        nodeHTML += lines.map((line) => (line ? `${indentStr}${line}` : line)).join('\n');
+
+        // Render children, except under the empty state of a repeat loop
+        if (component.id === node.component.id && node.children.length > 0) {
+          nodeHTML += '\n';
+          node.children.forEach((child) => {
+            nodeHTML += renderNode(child, indent + 2);
+          });
+        }
+
+        return nodeHTML;
+      };
 
-      return nodeHTML + '\n';
+      return this.renderRepeated(node.component, renderComponent, options) + '\n';
     };
 
     tree.forEach((node) => {
@@ -204,138 +564,65 @@ export class TemplateExporter {
 
   /**
    * Generate HTML for individual component
+   *
+   * The component markup comes from the renderer registry; the wrapper element
+   * carries the attributes the responsive, mobile and dark mode CSS target.
    */
   private generateComponentHTML(
     component: BaseComponent,
     template: Template,
     options: TemplateExportOptions
   ): string {
-    const { type, content, styles } = component;
+    const { type } = component;
+    const styles = component.styles ?? {};
 
     // Build component attributes
+    const classes = ['component', `component-${type}`, ...(styles.customClasses ?? [])];
     const attrs: string[] = [
-      `class="component component-${type}"`,
-      `data-component-id="${component.id}"`,
+      `class="${this.escapeHTML(classes.join(' '))}"`,
+      `data-component-id="${this.escapeHTML(component.id)}"`,
     ];
 
     // Add inline styles if requested
     if (options.inlineStyles) {
       const inlineStyles = this.buildInlineStyles(styles, template);
       if (inlineStyles) {
-        attrs.push(`style="${inlineStyles}"`);
+        attrs.push(`style="${this.escapeHTML(inlineStyles)}"`);
       }
     }
 
-    const attrString = attrs.join(' ');
-
-    // Generate component-specific HTML based on type
-    switch (type) {
-      case 'button':
-        return this.generateButtonHTML(content, attrString);
-
-      case 'text':
-        return this.generateTextHTML(content, attrString);
-
-      case 'image':
-        return this.generateImageHTML(content, attrString);
-
-      case 'separator':
-        return this.generateSeparatorHTML(attrString);
-
-      case 'spacer':
-        return this.generateSpacerHTML(content, attrString);
-
-      case 'header':
-      case 'footer':
-      case 'hero':
-      case 'cta':
-        return this.generateSectionHTML(type, content, attrString);
-
-      case 'list':
-        return this.generateListHTML(content, attrString);
-
-      default:
-        return this.generateGenericHTML(content, attrString);
-    }
-  }
-
-  /**
-   * Generate button HTML
-   */
-  private generateButtonHTML(content: Record<string, unknown>, attrs: string): string {
-    const text = content['text'] || 'Button';
-    const href = content['href'] || '#';
-    return `<a href="${this.escapeHTML(String(href))}" ${attrs}>${this.escapeHTML(String(text))}</a>`;
-  }
-
-  /**
-   * Generate text HTML
-   */
-  private generateTextHTML(content: Record<string, unknown>, attrs: string): string {
-    const text = content['text'] || '';
-    const tag = content['tag'] || 'p';
-    return `<${tag} ${attrs}>${this.escapeHTML(String(text))}</${tag}>`;
-  }
-
-  /**
-   * Generate image HTML
-   */
-  private generateImageHTML(content: Record<string, unknown>, attrs: string): string {
-    const src = content['src'] || '';
-    const alt = content['alt'] || '';
-    return `<img src="${this.escapeHTML(String(src))}" alt="${this.escapeHTML(String(alt))}" ${attrs}>`;
-  }
-
-  /**
-   * Generate separator HTML
-   */
-  private generateSeparatorHTML(attrs: string): string {
-    return `<hr ${attrs}>`;
-  }
-
-  /**
-   * Generate spacer HTML
-   */
-  private generateSpacerHTML(content: Record<string, unknown>, attrs: string): string {
-    const height = content['height'] || '20px';
-    return `<div ${attrs} style="height: ${height};"></div>`;
-  }
+    const componentHTML = this.renderDarkModeImage(
+      component,
+      template,
+      this.renderers.render(component, {
+        template,
+        renderChild: (child) =>
+          this.renderRepeated(
+            child,
+            (component) => this.generateComponentHTML(component, template, options),
+            options
+          ),
+      })
+    );
 
-  /**
-   * Generate section HTML (header, footer, hero, cta)
-   */
-  private generateSectionHTML(
-    _type: string,
-    content: Record<string, unknown>,
-    attrs: string
-  ): string {
-    const innerContent = content['html'] || content['text'] || '';
-    return `<section ${attrs}>\n  ${innerContent}\n</section>`;
+    return `<div ${attrs.join(' ')}>\n${componentHTML}\n</div>`;
   }
 
   /**
-   * Generate list HTML
+   * Adds the dark mode image of a component next to its light rendering
    */
-  private generateListHTML(content: Record<string, unknown>, attrs: string): string {
-    const items = (content['items'] as string[]) || [];
-    const ordered = content['ordered'] || false;
-    const tag = ordered ? 'ol' : 'ul';
+  private renderDarkModeImage(component: BaseComponent, template: Template, html: string): string {
+    const imageSrc = component.darkStyles?.imageSrc;
+    if (!imageSrc || typeof component.content['src'] !== 'string') {
+      return html;
+    }
 
-    let html = `<${tag} ${attrs}>\n`;
-    items.forEach((item) => {
-      html += `  <li>${this.escapeHTML(item)}</li>\n`;
-    });
-    html += `</${tag}>`;
+    const dark = this.renderers.render(
+      { ...component, content: { ...component.content, src: imageSrc } },
+      { template }
+    );
 
-    return html;
-  }
-
-  /**
-   * Generate generic HTML for unknown component types
-   */
-  private generateGenericHTML(content: Record<string, unknown>, attrs: string): string {
-    const text = JSON.stringify(content);
-    return `<div ${attrs}>${this.escapeHTML(text)}</div>`;
+    return renderDarkModeImage(html, dark);
   }
 
   /**
@@ -707,59 +994,17 @@ export class TemplateExporter {
   }
 
   /**
-   * Build inline styles from component styles
+   * Build inline styles for the component wrapper
+   *
+   * Renderers apply background, padding, border and typography to the markup
+   * they produce; only the outer margin belongs on the wrapper.
    */
   private buildInlineStyles(
     styles: BaseStyles,
     _template: Template
   ): string {
-    const cssProps: string[] = [];
-
-    if (styles.backgroundColor) {
-      cssProps.push(`background-color: ${styles.backgroundColor}`);
-    }
-
-    if (styles.padding) {
-      const { top, right, bottom, left } = styles.padding;
-      cssProps.push(
-        `padding: ${top.value}${top.unit} ${right.value}${right.unit} ${bottom.value}${bottom.unit} ${left.value}${left.unit}`
-      );
-    }
-
-    if (styles.margin) {
-      const { top, right, bottom, left } = styles.margin;
-      cssProps.push(
-        `margin: ${top.value}${top.unit} ${right.value}${right.unit} ${bottom.value}${bottom.unit} ${left.value}${left.unit}`
-      );
-    }
-
-    if (styles.width) {
-      cssProps.push(`width: ${styles.width.value}${styles.width.unit}`);
-    }
-
-    if (styles.height) {
-      cssProps.push(`height: ${styles.height.value}${styles.height.unit}`);
-    }
-
-    if (styles.border) {
-      const { width, style, color, radius } = styles.border;
-      cssProps.push(`border: ${width.value}${width.unit} ${style} ${color}`);
-
-      if (radius) {
-        const { topLeft, topRight, bottomRight, bottomLeft } = radius;
-        cssProps.push(
-          `border-radius: ${topLeft.value}${topLeft.unit} ${topRight.value}${topRight.unit} ${bottomRight.value}${bottomRight.unit} ${bottomLeft.value}${bottomLeft.unit}`
-        );
-      }
-    }
-
-    if (styles.customStyles) {
-      Object.entries(styles.customStyles).forEach(([key, value]) => {
-        cssProps.push(`${key}: ${value}`);
-      });
-    }
-
-    return cssProps.join('; ');
+    const margin = spacingToCSS(styles.margin);
+    return margin ? `margin: ${margin}` : '';
   }
 
   /**
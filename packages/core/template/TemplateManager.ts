@@ -7,6 +7,7 @@
 import {
   TemplateManagerError,
   ValidationError,
+  VersioningError,
 } from '../errors';
 import type {
   Template,
@@ -15,10 +16,15 @@ import type {
   GeneralStyles,
   TemplateListItem,
   TemplateValidationResult,
+  RevisionInfo,
+  RevisionDiff,
+  TemplateRevision,
+  TemplateRevisionSummary,
 } from '../types/template.types';
 import type { BaseComponent } from '../types/component.types';
 import type { ComponentRegistry } from '../components/ComponentRegistry';
 import { TemplateStorage } from './TemplateStorage';
+import type { TemplateRevisionStore } from './TemplateRevisionStore';
 import { TemplateValidator } from './TemplateValidator';
 import { ComponentTreeBuilder } from './ComponentTreeBuilder';
 import { EventEmitter } from '../services/EventEmitter';
@@ -186,12 +192,14 @@ export class TemplateManager {
    *
    * @param templateId - Template ID to update
    * @param options - Update options
+   * @param revision - Author and message recorded in the revision history
    * @returns Updated template
    * @throws {TemplateManagerError} If update fails
    */
   async update(
     templateId: string,
-    options: UpdateTemplateOptions
+    options: UpdateTemplateOptions,
+    revision?: RevisionInfo
   ): Promise<Template> {
     try {
       // Load existing template
@@ -247,7 +255,7 @@ export class TemplateManager {
       }
 
       // Save updated template
-      await this.storage.save(template);
+      await this.storage.save(template, revision);
 
       // Update current template if it's the same
       if (this.currentTemplate?.metadata.id === templateId) {
@@ -265,7 +273,9 @@ export class TemplateManager {
         throw error;
       }
       throw new TemplateManagerError(
-        `Failed to update template: ${error instanceof Error ? error.message : 'Unknown error'}`
+        `Failed to update template: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        undefined,
+        { cause: error }
       );
     }
   }
@@ -390,6 +400,93 @@ export class TemplateManager {
     }
   }
 
+  /**
+   * Check if revision history is enabled
+   */
+  hasRevisions(): boolean {
+    return this.storage.getRevisionStore() !== null;
+  }
+
+  /**
+   * List revisions of a template, most recent first
+   *
+   * @param templateId - Template ID
+   * @returns Revision summaries
+   * @throws {VersioningError} If revision history is disabled
+   */
+  async listRevisions(templateId: string): Promise<TemplateRevisionSummary[]> {
+    return this.getRevisionStore().list(templateId);
+  }
+
+  /**
+   * Get a revision of a template
+   *
+   * @param templateId - Template ID
+   * @param revision - Revision number
+   * @returns Revision with its template snapshot
+   * @throws {VersioningError} If revision history is disabled or the revision does not exist
+   */
+  async getRevision(templateId: string, revision: number): Promise<TemplateRevision> {
+    return this.getRevisionStore().load(templateId, revision);
+  }
+
+  /**
+   * Compare two revisions of a template
+   *
+   * @param templateId - Template ID
+   * @param from - Older revision number
+   * @param to - Newer revision number
+   * @returns Changes between the revisions
+   * @throws {VersioningError} If revision history is disabled or a revision does not exist
+   */
+  async diffRevisions(templateId: string, from: number, to: number): Promise<RevisionDiff> {
+    return this.getRevisionStore().diff(templateId, from, to);
+  }
+
+  /**
+   * Restore a revision of a template
+   *
+   * The snapshot is saved as the current template, which records a new
+   * revision; the history in between is kept.
+   *
+   * @param templateId - Template ID
+   * @param revision - Revision number to restore
+   * @param info - Author recorded with the restore
+   * @returns Restored template
+   * @throws {VersioningError} If revision history is disabled or the revision does not exist
+   */
+  async restoreRevision(
+    templateId: string,
+    revision: number,
+    info: Omit<RevisionInfo, 'message'> = {}
+  ): Promise<Template> {
+    const snapshot = await this.getRevisionStore().load(templateId, revision);
+    const template: Template = {
+      ...snapshot.template,
+      metadata: { ...snapshot.template.metadata, updatedAt: Date.now() },
+    };
+
+    try {
+      await this.storage.save(template, { ...info, message: `Restored revision ${revision}` });
+    } catch (error) {
+      throw new TemplateManagerError(
+        `Failed to restore revision: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { templateId, revision },
+        { cause: error }
+      );
+    }
+
+    if (this.currentTemplate?.metadata.id === templateId) {
+      this.currentTemplate = template;
+    }
+
+    this.eventEmitter.emit(TemplateManagerEvent.TEMPLATE_UPDATED, {
+      template,
+    });
+
+    return template;
+  }
+
   /**
    * Get current template
    *
@@ -435,6 +532,21 @@ export class TemplateManager {
     this.eventEmitter.off(event, callback);
   }
 
+  /**
+   * Get the revision store
+   *
+   * @throws {VersioningError} If revision history is disabled
+   */
+  private getRevisionStore(): TemplateRevisionStore {
+    const store = this.storage.getRevisionStore();
+
+    if (!store) {
+      throw new VersioningError('Template versioning is not enabled');
+    }
+
+    return store;
+  }
+
   /**
    * Generate unique template ID using crypto.randomUUID for security
    */
@@ -0,0 +1,223 @@
+/**
+ * Template Revision Store Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TemplateRevisionStore, selectRetained, diffValues } from './TemplateRevisionStore';
+import { TemplateStorage } from './TemplateStorage';
+import type { StorageAdapter } from '../types/config.types';
+import type { Template, TemplateRevisionSummary } from '../types/template.types';
+import { VersioningError } from '../errors';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('TemplateRevisionStore', () => {
+  let storageData: Map<string, unknown>;
+  let adapter: StorageAdapter;
+  let store: TemplateRevisionStore;
+
+  const createTestTemplate = (name = 'Test Template'): Template => ({
+    metadata: {
+      id: 'template-1',
+      name,
+      author: 'owner',
+      version: '1.0.0',
+      createdAt: 0,
+      updatedAt: 0,
+    },
+    settings: {
+      target: 'email',
+      canvasDimensions: { width: 600 },
+      breakpoints: { mobile: 480, tablet: 768, desktop: 1024 },
+      responsive: true,
+      locale: 'en-US',
+    },
+    generalStyles: {},
+    components: [
+      { id: 'a', type: 'text', content: { text: 'Hello' } },
+      { id: 'b', type: 'button', content: { text: 'Go' } },
+    ] as Template['components'],
+  });
+
+  beforeEach(() => {
+    storageData = new Map();
+    adapter = {
+      get: vi.fn(async (key: string) => storageData.get(key) ?? null),
+      set: vi.fn(async (key: string, value: unknown) => {
+        storageData.set(key, JSON.parse(JSON.stringify(value)));
+      }),
+      remove: vi.fn(async (key: string) => {
+        storageData.delete(key);
+      }),
+      clear: vi.fn(async () => storageData.clear()),
+    } as unknown as StorageAdapter;
+    store = new TemplateRevisionStore(adapter);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('record', () => {
+    it('should number revisions and keep author and message', async () => {
+      const first = await store.record(createTestTemplate(), { message: 'Initial' });
+      const second = await store.record(createTestTemplate(), { author: 'jane', message: 'Edit' });
+
+      expect(first).toMatchObject({ revision: 1, author: 'owner', message: 'Initial' });
+      expect(second).toMatchObject({ revision: 2, author: 'jane', message: 'Edit' });
+    });
+
+    it('should store an immutable snapshot', async () => {
+      const template = createTestTemplate();
+      await store.record(template);
+      template.metadata.name = 'Changed';
+
+      const revision = await store.load('template-1', 1);
+
+      expect(revision.template.metadata.name).toBe('Test Template');
+    });
+  });
+
+  describe('list/load/latest', () => {
+    it('should list revisions most recent first', async () => {
+      await store.record(createTestTemplate('One'));
+      await store.record(createTestTemplate('Two'));
+
+      const revisions = await store.list('template-1');
+
+      expect(revisions.map((summary) => summary.revision)).toEqual([2, 1]);
+      expect((await store.latest('template-1'))?.template.metadata.name).toBe('Two');
+    });
+
+    it('should throw VersioningError for unknown revisions', async () => {
+      await expect(store.load('template-1', 7)).rejects.toBeInstanceOf(VersioningError);
+    });
+
+    it('should return null as latest without history', async () => {
+      expect(await store.latest('template-1')).toBeNull();
+    });
+  });
+
+  describe('diff', () => {
+    it('should report changes between revisions by component id', async () => {
+      const template = createTestTemplate();
+      await store.record(template);
+
+      template.metadata.name = 'Renamed';
+      template.components = [
+        template.components[1]!,
+        { id: 'c', type: 'spacer', content: {} } as Template['components'][number],
+      ];
+      await store.record(template);
+
+      const diff = await store.diff('template-1', 1, 2);
+
+      expect(diff.changes).toEqual(
+        expect.arrayContaining([
+          { path: 'metadata.name', type: 'changed', before: 'Test Template', after: 'Renamed' },
+          expect.objectContaining({ path: 'components[a]', type: 'removed' }),
+          expect.objectContaining({ path: 'components[c]', type: 'added' }),
+        ])
+      );
+      expect(diff.changes.some((change) => change.path.startsWith('components[b]'))).toBe(false);
+    });
+  });
+
+  describe('retention', () => {
+    it('should keep the last N revisions', async () => {
+      store = new TemplateRevisionStore(adapter, 'email-builder', { strategy: 'keep-last', count: 2 });
+
+      await store.record(createTestTemplate());
+      await store.record(createTestTemplate());
+      await store.record(createTestTemplate());
+
+      expect((await store.list('template-1')).map((summary) => summary.revision)).toEqual([3, 2]);
+      await expect(store.load('template-1', 1)).rejects.toBeInstanceOf(VersioningError);
+    });
+
+    it('should keep numbering after revisions are dropped', async () => {
+      store = new TemplateRevisionStore(adapter, 'email-builder', { strategy: 'keep-last', count: 1 });
+
+      await store.record(createTestTemplate());
+      const summary = await store.record(createTestTemplate());
+
+      expect(summary.revision).toBe(2);
+    });
+
+    it('should keep one revision per day after the given age', () => {
+      const now = 10 * DAY;
+      const revisions: TemplateRevisionSummary[] = [
+        { templateId: 't', revision: 1, timestamp: 1 * DAY + 100, version: '1.0.0' },
+        { templateId: 't', revision: 2, timestamp: 1 * DAY + 200, version: '1.0.0' },
+        { templateId: 't', revision: 3, timestamp: 2 * DAY + 100, version: '1.0.0' },
+        { templateId: 't', revision: 4, timestamp: 9 * DAY + 100, version: '1.0.0' },
+        { templateId: 't', revision: 5, timestamp: 9 * DAY + 200, version: '1.0.0' },
+      ];
+
+      const kept = selectRetained(revisions, { strategy: 'daily', afterDays: 7 }, now);
+
+      expect(kept.map((summary) => summary.revision)).toEqual([2, 3, 4, 5]);
+    });
+
+    it('should keep the last auto-save revisions on top of the strategy', async () => {
+      store = new TemplateRevisionStore(adapter, 'email-builder', { strategy: 'keep-all', maxAutoSaves: 1 });
+
+      await store.record(createTestTemplate(), { autoSave: true });
+      await store.record(createTestTemplate(), { message: 'Manual' });
+      await store.record(createTestTemplate(), { autoSave: true });
+      await store.record(createTestTemplate(), { autoSave: true });
+
+      expect((await store.list('template-1')).map((summary) => summary.revision)).toEqual([4, 2]);
+    });
+
+    it('should always keep the most recent revision', () => {
+      const revisions: TemplateRevisionSummary[] = [
+        { templateId: 't', revision: 1, timestamp: 100, version: '1.0.0', autoSave: true },
+        { templateId: 't', revision: 2, timestamp: 200, version: '1.0.0', autoSave: true },
+      ];
+
+      const kept = selectRetained(revisions, { strategy: 'keep-all', maxAutoSaves: 0 }, 300);
+
+      expect(kept.map((summary) => summary.revision)).toEqual([2]);
+    });
+  });
+
+  describe('clear', () => {
+    it('should remove the whole history', async () => {
+      await store.record(createTestTemplate());
+      await store.record(createTestTemplate());
+
+      await store.clear('template-1');
+
+      expect(await store.list('template-1')).toEqual([]);
+      expect(storageData.size).toBe(0);
+    });
+  });
+
+  describe('TemplateStorage integration', () => {
+    it('should record a revision on every save and clear it on delete', async () => {
+      const storage = new TemplateStorage(adapter, 'email-builder', store);
+
+      await storage.save(createTestTemplate(), { message: 'First' });
+      await storage.save(createTestTemplate('Second'));
+
+      expect(await store.list('template-1')).toHaveLength(2);
+
+      await storage.delete('template-1');
+
+      expect(await store.list('template-1')).toEqual([]);
+    });
+  });
+});
+
+describe('diffValues', () => {
+  it('should return no changes for equal values', () => {
+    expect(diffValues({ a: [1, 2], b: { c: 'x' } }, { a: [1, 2], b: { c: 'x' } })).toEqual([]);
+  });
+
+  it('should address array items by index without ids', () => {
+    expect(diffValues({ tags: ['a', 'b'] }, { tags: ['a', 'c'] })).toEqual([
+      { path: 'tags.1', type: 'changed', before: 'b', after: 'c' },
+    ]);
+  });
+});
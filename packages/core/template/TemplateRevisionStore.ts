@@ -0,0 +1,364 @@
+/**
+ * Template Revision Store
+ *
+ * Keeps an immutable revision history of saved templates
+ */
+
+import type { StorageAdapter } from '../types/config.types';
+import type {
+  Template,
+  RevisionInfo,
+  RevisionChange,
+  RevisionDiff,
+  RevisionRetentionPolicy,
+  TemplateRevision,
+  TemplateRevisionSummary,
+} from '../types/template.types';
+import { VersioningError } from '../errors';
+
+/**
+ * Revision index stored per template
+ */
+interface RevisionIndex {
+  /**
+   * Highest revision number ever recorded
+   */
+  latest: number;
+
+  /**
+   * Retained revisions, oldest first
+   */
+  revisions: TemplateRevisionSummary[];
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Template Revision Store
+ *
+ * Records a snapshot of a template each time it is saved. Snapshots are
+ * written once under their revision number and never modified; the
+ * retention policy only decides which ones are dropped.
+ *
+ * @example
+ * ```ts
+ * const revisions = new TemplateRevisionStore(adapter, 'email-builder', {
+ *   strategy: 'daily',
+ *   afterDays: 7,
+ * });
+ *
+ * await revisions.record(template, { author: 'jane', message: 'New hero' });
+ * const history = await revisions.list(template.metadata.id);
+ * ```
+ */
+export class TemplateRevisionStore {
+  private adapter: StorageAdapter;
+  private keyPrefix: string;
+  private retention: RevisionRetentionPolicy;
+
+  constructor(
+    adapter: StorageAdapter,
+    keyPrefix = 'email-builder',
+    retention: RevisionRetentionPolicy = { strategy: 'keep-all' }
+  ) {
+    this.adapter = adapter;
+    this.keyPrefix = keyPrefix;
+    this.retention = retention;
+  }
+
+  /**
+   * Records a new revision of a template
+   *
+   * @param template - Template to snapshot
+   * @param info - Author, message and whether it is an auto-save
+   * @returns Summary of the recorded revision
+   */
+  async record(template: Template, info: RevisionInfo = {}): Promise<TemplateRevisionSummary> {
+    const templateId = template.metadata.id;
+    const index = await this.getIndex(templateId);
+    const author = info.author ?? template.metadata.author;
+
+    const summary: TemplateRevisionSummary = {
+      templateId,
+      revision: index.latest + 1,
+      timestamp: Date.now(),
+      version: template.metadata.version,
+      ...(author !== undefined && { author }),
+      ...(info.message !== undefined && { message: info.message }),
+      ...(info.autoSave && { autoSave: true }),
+    };
+
+    const revision: TemplateRevision = {
+      ...summary,
+      template: JSON.parse(JSON.stringify(template)) as Template,
+    };
+
+    await this.adapter.set(this.getRevisionKey(templateId, summary.revision), revision);
+
+    index.latest = summary.revision;
+    index.revisions.push(summary);
+    await this.applyRetention(templateId, index);
+    await this.adapter.set(this.getIndexKey(templateId), index);
+
+    return summary;
+  }
+
+  /**
+   * Lists the retained revisions of a template, most recent first
+   *
+   * @param templateId - Template ID
+   * @returns Revision summaries
+   */
+  async list(templateId: string): Promise<TemplateRevisionSummary[]> {
+    const index = await this.getIndex(templateId);
+    return [...index.revisions].reverse();
+  }
+
+  /**
+   * Loads a revision
+   *
+   * @param templateId - Template ID
+   * @param revision - Revision number
+   * @returns Revision with its template snapshot
+   * @throws {VersioningError} If the revision does not exist or was removed by retention
+   */
+  async load(templateId: string, revision: number): Promise<TemplateRevision> {
+    const data = await this.adapter.get<TemplateRevision>(this.getRevisionKey(templateId, revision));
+
+    if (!data) {
+      throw new VersioningError(
+        `Revision ${revision} of template ${templateId} not found`,
+        String(revision),
+        { templateId }
+      );
+    }
+
+    return data;
+  }
+
+  /**
+   * Loads the most recent revision
+   *
+   * @param templateId - Template ID
+   * @returns Latest revision or null if the template has no history
+   */
+  async latest(templateId: string): Promise<TemplateRevision | null> {
+    const index = await this.getIndex(templateId);
+    const last = index.revisions[index.revisions.length - 1];
+    return last ? this.load(templateId, last.revision) : null;
+  }
+
+  /**
+   * Compares two revisions
+   *
+   * @param templateId - Template ID
+   * @param from - Older revision number
+   * @param to - Newer revision number
+   * @returns Changes needed to go from `from` to `to`
+   */
+  async diff(templateId: string, from: number, to: number): Promise<RevisionDiff> {
+    const [before, after] = await Promise.all([
+      this.load(templateId, from),
+      this.load(templateId, to),
+    ]);
+
+    return {
+      templateId,
+      from,
+      to,
+      changes: diffValues(before.template, after.template),
+    };
+  }
+
+  /**
+   * Removes the whole history of a template
+   *
+   * @param templateId - Template ID
+   */
+  async clear(templateId: string): Promise<void> {
+    const index = await this.getIndex(templateId);
+
+    await Promise.all(
+      index.revisions.map((summary) =>
+        this.adapter.remove(this.getRevisionKey(templateId, summary.revision))
+      )
+    );
+    await this.adapter.remove(this.getIndexKey(templateId));
+  }
+
+  /**
+   * Gets the retention policy
+   */
+  getRetentionPolicy(): RevisionRetentionPolicy {
+    return this.retention;
+  }
+
+  /**
+   * Drops the revisions the retention policy does not keep
+   */
+  private async applyRetention(templateId: string, index: RevisionIndex): Promise<void> {
+    const kept = selectRetained(index.revisions, this.retention, Date.now());
+
+    if (kept.length === index.revisions.length) {
+      return;
+    }
+
+    const keptNumbers = new Set(kept.map((summary) => summary.revision));
+    const dropped = index.revisions.filter((summary) => !keptNumbers.has(summary.revision));
+
+    await Promise.all(
+      dropped.map((summary) => this.adapter.remove(this.getRevisionKey(templateId, summary.revision)))
+    );
+
+    index.revisions = kept;
+  }
+
+  private async getIndex(templateId: string): Promise<RevisionIndex> {
+    const index = await this.adapter.get<RevisionIndex>(this.getIndexKey(templateId));
+    return index ?? { latest: 0, revisions: [] };
+  }
+
+  private getIndexKey(templateId: string): string {
+    return `${this.keyPrefix}:revisions:${templateId}`;
+  }
+
+  private getRevisionKey(templateId: string, revision: number): string {
+    return `${this.keyPrefix}:revision:${templateId}:${revision}`;
+  }
+}
+
+/**
+ * Selects the revisions kept by a retention policy
+ *
+ * @param revisions - Revisions, oldest first
+ * @param policy - Retention policy
+ * @param now - Current time
+ * @returns Kept revisions, oldest first
+ */
+export function selectRetained(
+  revisions: TemplateRevisionSummary[],
+  policy: RevisionRetentionPolicy,
+  now: number
+): TemplateRevisionSummary[] {
+  const kept = selectByStrategy(revisions, policy, now);
+
+  if (policy.maxAutoSaves === undefined) {
+    return kept;
+  }
+
+  const autoSaves = kept.filter((summary) => summary.autoSave);
+  const dropped = new Set(
+    autoSaves.slice(0, Math.max(autoSaves.length - policy.maxAutoSaves, 0)).map((summary) => summary.revision)
+  );
+  const newest = kept[kept.length - 1]?.revision;
+
+  return kept.filter((summary) => summary.revision === newest || !dropped.has(summary.revision));
+}
+
+function selectByStrategy(
+  revisions: TemplateRevisionSummary[],
+  policy: RevisionRetentionPolicy,
+  now: number
+): TemplateRevisionSummary[] {
+  if (policy.strategy === 'keep-last') {
+    return revisions.slice(-Math.max(policy.count, 1));
+  }
+
+  if (policy.strategy === 'daily') {
+    const cutoff = now - policy.afterDays * DAY;
+    const lastOfDay = new Map<number, number>();
+
+    revisions.forEach((summary) => {
+      if (summary.timestamp < cutoff) {
+        lastOfDay.set(Math.floor(summary.timestamp / DAY), summary.revision);
+      }
+    });
+
+    const newest = revisions[revisions.length - 1]?.revision;
+
+    return revisions.filter(
+      (summary) =>
+        summary.timestamp >= cutoff ||
+        summary.revision === newest ||
+        lastOfDay.get(Math.floor(summary.timestamp / DAY)) === summary.revision
+    );
+  }
+
+  return revisions;
+}
+
+/**
+ * Computes the changes between two JSON-like values
+ *
+ * Arrays whose items all have an `id` are compared by id, so reordering or
+ * inserting components reports the affected components only.
+ *
+ * @param before - Old value
+ * @param after - New value
+ * @param path - Path of the values
+ * @returns Changes
+ */
+export function diffValues(before: unknown, after: unknown, path = ''): RevisionChange[] {
+  if (Object.is(before, after)) {
+    return [];
+  }
+
+  if (before === undefined) {
+    return [{ path, type: 'added', after }];
+  }
+
+  if (after === undefined) {
+    return [{ path, type: 'removed', before }];
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    if (isIdentifiedList(before) && isIdentifiedList(after)) {
+      return diffEntries(toEntries(before), toEntries(after), path, true);
+    }
+
+    return diffEntries(
+      before.map((item, i) => [String(i), item]),
+      after.map((item, i) => [String(i), item]),
+      path,
+      false
+    );
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    return diffEntries(Object.entries(before), Object.entries(after), path, false);
+  }
+
+  return [{ path, type: 'changed', before, after }];
+}
+
+function diffEntries(
+  before: Array<[string, unknown]>,
+  after: Array<[string, unknown]>,
+  path: string,
+  byId: boolean
+): RevisionChange[] {
+  const beforeMap = new Map(before);
+  const afterMap = new Map(after);
+  const keys = new Set([...beforeMap.keys(), ...afterMap.keys()]);
+  const changes: RevisionChange[] = [];
+
+  keys.forEach((key) => {
+    const segment = byId ? `[${key}]` : key;
+    const childPath = path ? (byId ? `${path}${segment}` : `${path}.${segment}`) : segment;
+    changes.push(...diffValues(beforeMap.get(key), afterMap.get(key), childPath));
+  });
+
+  return changes;
+}
+
+function isIdentifiedList(list: unknown[]): list is Array<{ id: string }> {
+  return list.every((item) => isPlainObject(item) && typeof item['id'] === 'string');
+}
+
+function toEntries(list: Array<{ id: string }>): Array<[string, unknown]> {
+  return list.map((item) => [item.id, item]);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -4,8 +4,10 @@
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { TemplateStorage } from './TemplateStorage';
+import { TemplateRevisionStore } from './TemplateRevisionStore';
 import type { StorageAdapter } from '../types/config.types';
 import type { Template } from '../types/template.types';
+import type { GlobalBlock } from '../types/global-block.types';
 
 describe('TemplateStorage', () => {
   let storage: TemplateStorage;
@@ -68,6 +70,32 @@ describe('TemplateStorage', () => {
       const savedData = storageData.get('email-builder:template:template-1');
       expect((savedData as any).savedAt).toBeGreaterThanOrEqual(beforeTime);
     });
+
+    it('should record a revision for each save', async () => {
+      const revisions = new TemplateRevisionStore(mockAdapter);
+      const versioned = new TemplateStorage(mockAdapter, 'email-builder', revisions);
+
+      await versioned.save(createTestTemplate(), { message: 'First' });
+      await versioned.save(createTestTemplate(), { autoSave: true });
+
+      expect(await revisions.list('template-1')).toEqual([
+        expect.objectContaining({ revision: 2, autoSave: true }),
+        expect.objectContaining({ revision: 1, message: 'First' }),
+      ]);
+    });
+
+    it('should save the template when its revision cannot be recorded', async () => {
+      const revisions = new TemplateRevisionStore(mockAdapter);
+      vi.spyOn(revisions, 'record').mockRejectedValue(new Error('Quota exceeded'));
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const versioned = new TemplateStorage(mockAdapter, 'email-builder', revisions);
+
+      await expect(versioned.save(createTestTemplate())).resolves.toBeUndefined();
+
+      expect(storageData.has('email-builder:template:template-1')).toBe(true);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Quota exceeded'));
+      warn.mockRestore();
+    });
   });
 
   describe('load', () => {
@@ -127,4 +155,48 @@ describe('TemplateStorage', () => {
       expect(list.length).toBeGreaterThanOrEqual(2);
     });
   });
+
+  describe('global blocks', () => {
+    const createTestBlock = (id: string, updatedAt: number): GlobalBlock => ({
+      id,
+      name: `Block ${id}`,
+      components: [],
+      version: 1,
+      createdAt: updatedAt,
+      updatedAt,
+    });
+
+    it('should save, list and load blocks apart from templates', async () => {
+      await storage.save(createTestTemplate());
+      await storage.saveBlock(createTestBlock('blk-1', 1));
+      await storage.saveBlock(createTestBlock('blk-2', 2));
+
+      const blocks = await storage.listBlocks();
+
+      expect(blocks.map((block) => block.id)).toEqual(['blk-2', 'blk-1']);
+      expect(blocks[0]).toMatchObject({ name: 'Block blk-2', componentCount: 0, version: 1 });
+      expect((await storage.loadBlock('blk-1')).name).toBe('Block blk-1');
+      expect(await storage.list()).toHaveLength(1);
+    });
+
+    it('should delete blocks', async () => {
+      await storage.saveBlock(createTestBlock('blk-1', 1));
+      await storage.deleteBlock('blk-1');
+
+      expect(await storage.listBlocks()).toEqual([]);
+      await expect(storage.loadBlock('blk-1')).rejects.toThrow('Global block not found: blk-1');
+    });
+
+    it('should not rewrite the block list when it cannot be read', async () => {
+      await storage.saveBlock(createTestBlock('blk-1', 1));
+      const get = mockAdapter.get as ReturnType<typeof vi.fn>;
+      get.mockRejectedValueOnce(new Error('Request timed out'));
+
+      await expect(storage.saveBlock(createTestBlock('blk-2', 2))).rejects.toThrow('Request timed out');
+      get.mockRejectedValueOnce(new Error('Request timed out'));
+      await expect(storage.deleteBlock('blk-2')).rejects.toThrow('Request timed out');
+
+      expect((await storage.listBlocks()).map((block) => block.id)).toEqual(['blk-1']);
+    });
+  });
 });
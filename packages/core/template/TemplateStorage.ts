@@ -8,15 +8,18 @@ import type {
   Template,
   TemplateSaveData,
   TemplateListItem,
+  RevisionInfo,
 } from '../types/template.types';
+import type { GlobalBlock, GlobalBlockListItem } from '../types/global-block.types';
 import type { StorageAdapter } from '../types/config.types';
+import type { TemplateRevisionStore } from './TemplateRevisionStore';
 
 /**
  * Storage error types
  */
 export class TemplateStorageError extends Error {
-  constructor(message: string) {
-    super(message);
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
     this.name = 'TemplateStorageError';
   }
 }
@@ -29,20 +32,44 @@ export class TemplateStorageError extends Error {
 export class TemplateStorage {
   private adapter: StorageAdapter;
   private keyPrefix: string;
+  private revisions: TemplateRevisionStore | null;
 
-  constructor(adapter: StorageAdapter, keyPrefix = 'email-builder') {
+  /**
+   * @param adapter - Storage adapter
+   * @param keyPrefix - Storage key prefix
+   * @param revisions - Revision store; when given, saves record a revision
+   */
+  constructor(
+    adapter: StorageAdapter,
+    keyPrefix = 'email-builder',
+    revisions: TemplateRevisionStore | null = null
+  ) {
     this.adapter = adapter;
     this.keyPrefix = keyPrefix;
+    this.revisions = revisions;
+  }
+
+  /**
+   * Get the revision store
+   *
+   * @returns Revision store or null when revision history is disabled
+   */
+  getRevisionStore(): TemplateRevisionStore | null {
+    return this.revisions;
   }
 
   /**
    * Save template to storage
    *
+   * The revision is recorded once the template is stored; failing to record
+   * it is reported as a warning, as the template itself was saved.
+   *
    * @param template - Template to save
+   * @param revision - Author and message recorded in the revision history
    * @returns Promise resolving when save is complete
    * @throws {TemplateStorageError} If save fails
    */
-  async save(template: Template): Promise<void> {
+  async save(template: Template, revision: RevisionInfo = {}): Promise<void> {
     try {
       const saveData: TemplateSaveData = {
         template,
@@ -58,9 +85,21 @@ export class TemplateStorage {
       await this.updateTemplateList(template);
     } catch (error) {
       throw new TemplateStorageError(
-        `Failed to save template ${template.metadata.id}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        `Failed to save template ${template.metadata.id}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { cause: error }
       );
     }
+
+    // Record revision
+    if (this.revisions) {
+      try {
+        await this.revisions.record(template, revision);
+      } catch (error) {
+        console.warn(
+          `Template ${template.metadata.id} was saved, but its revision was not recorded: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
   }
 
   /**
@@ -114,6 +153,11 @@ export class TemplateStorage {
 
       // Remove from template list
       await this.removeFromTemplateList(templateId);
+
+      // Remove revision history
+      if (this.revisions) {
+        await this.revisions.clear(templateId);
+      }
     } catch (error) {
       throw new TemplateStorageError(
         `Failed to delete template ${templateId}: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -287,6 +331,104 @@ export class TemplateStorage {
     }
   }
 
+  /**
+   * Save a global block to storage
+   *
+   * @param block - Global block to save
+   * @throws {TemplateStorageError} If save fails
+   */
+  async saveBlock(block: GlobalBlock): Promise<void> {
+    try {
+      await this.adapter.set(this.getBlockKey(block.id), block);
+
+      const list = (await this.readBlockList()).filter((item) => item.id !== block.id);
+      list.push({
+        id: block.id,
+        name: block.name,
+        ...(block.description !== undefined && { description: block.description }),
+        ...(block.tags !== undefined && { tags: block.tags }),
+        componentCount: block.components.length,
+        version: block.version,
+        updatedAt: block.updatedAt,
+      });
+      list.sort((a, b) => b.updatedAt - a.updatedAt);
+      await this.adapter.set(this.getBlockListKey(), list);
+    } catch (error) {
+      throw new TemplateStorageError(
+        `Failed to save global block ${block.id}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Load a global block from storage
+   *
+   * @param blockId - Global block ID
+   * @returns Global block
+   * @throws {TemplateStorageError} If the block is not found or load fails
+   */
+  async loadBlock(blockId: string): Promise<GlobalBlock> {
+    try {
+      const block = await this.adapter.get<GlobalBlock>(this.getBlockKey(blockId));
+      if (!block) {
+        throw new TemplateStorageError(`Global block not found: ${blockId}`);
+      }
+      return block;
+    } catch (error) {
+      if (error instanceof TemplateStorageError) {
+        throw error;
+      }
+      throw new TemplateStorageError(
+        `Failed to load global block ${blockId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Delete a global block from storage
+   *
+   * @param blockId - Global block ID
+   * @throws {TemplateStorageError} If delete fails
+   */
+  async deleteBlock(blockId: string): Promise<void> {
+    try {
+      await this.adapter.remove(this.getBlockKey(blockId));
+
+      const list = await this.readBlockList();
+      await this.adapter.set(
+        this.getBlockListKey(),
+        list.filter((item) => item.id !== blockId)
+      );
+    } catch (error) {
+      throw new TemplateStorageError(
+        `Failed to delete global block ${blockId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * List all global blocks
+   *
+   * @returns Global block list items, most recently updated first
+   */
+  async listBlocks(): Promise<GlobalBlockListItem[]> {
+    try {
+      return await this.readBlockList();
+    } catch (error) {
+      console.warn('Failed to load global block list:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Read the global block list, failing when it cannot be read, so a
+   * rewritten list never drops the blocks it could not read
+   */
+  private async readBlockList(): Promise<GlobalBlockListItem[]> {
+    return (await this.adapter.get<GlobalBlockListItem[]>(this.getBlockListKey())) || [];
+  }
+
   /**
    * Update template list metadata
    */
@@ -345,6 +487,20 @@ export class TemplateStorage {
     return `${this.keyPrefix}:templates:list`;
   }
 
+  /**
+   * Generate storage key for global block
+   */
+  private getBlockKey(blockId: string): string {
+    return `${this.keyPrefix}:block:${blockId}`;
+  }
+
+  /**
+   * Generate storage key for global block list
+   */
+  private getBlockListKey(): string {
+    return `${this.keyPrefix}:blocks:list`;
+  }
+
   /**
    * Generate checksum for template data integrity
    *
@@ -0,0 +1,81 @@
+/**
+ * Component Clipboard Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  COMPONENT_CLIPBOARD_TYPE,
+  cloneComponentsWithNewIds,
+  parseClipboardComponents,
+  serializeComponents,
+} from './component-clipboard';
+import { createButton, createGlobalBlockReference, createRow, createText } from '../components/factories';
+
+describe('serializeComponents', () => {
+  it('should serialize builder JSON, and HTML carrying it', () => {
+    const button = createButton({ id: 'cta', content: { text: 'Shop "now" & save', link: { href: '#' } } });
+
+    const { json, html } = serializeComponents([button], { sourceTemplateId: 'tpl-1' });
+
+    expect(JSON.parse(json)).toMatchObject({
+      type: COMPONENT_CLIPBOARD_TYPE,
+      version: 1,
+      sourceTemplateId: 'tpl-1',
+      components: [{ id: 'cta', type: 'button' }],
+    });
+    expect(html).toContain('Shop &quot;now&quot; &amp; save');
+    expect(html).toContain('data-email-builder-clipboard="{&quot;type&quot;');
+  });
+});
+
+describe('parseClipboardComponents', () => {
+  it('should read builder JSON with new IDs, keeping styles and bindings', () => {
+    const text = createText({ id: 'intro' });
+    text.styles = { ...text.styles, backgroundColor: '#fef3c7' };
+    text.styleTokens = { color: 'colors.neutral.900' };
+    const { json } = serializeComponents([text, createGlobalBlockReference('footer')]);
+
+    const [pasted, reference] = parseClipboardComponents({ json });
+
+    expect(pasted?.id).not.toBe('intro');
+    expect(pasted?.styles.backgroundColor).toBe('#fef3c7');
+    expect(pasted?.styleTokens).toEqual({ color: 'colors.neutral.900' });
+    expect(reference?.content['blockId']).toBe('footer');
+  });
+
+  it('should read the builder JSON from the HTML when the plain text is not builder JSON', () => {
+    const { html } = serializeComponents([createButton({ id: 'cta' })]);
+
+    const components = parseClipboardComponents({ json: 'Shop now', html });
+
+    expect(components.map((component) => component.type)).toEqual(['button']);
+    expect(components[0]?.id).not.toBe('cta');
+  });
+
+  it('should import other HTML as components', () => {
+    const components = parseClipboardComponents({ html: '<p>Copied from a web page</p>' });
+
+    expect(components.length).toBeGreaterThan(0);
+    expect(JSON.stringify(components)).toContain('Copied from a web page');
+  });
+
+  it('should return no components for plain text', () => {
+    expect(parseClipboardComponents({ json: 'Just text' })).toEqual([]);
+  });
+});
+
+describe('cloneComponentsWithNewIds', () => {
+  it('should give nested components new IDs and point them to their new parent', () => {
+    const row = createRow({ id: 'row' });
+    const column = row.children![0]!;
+    column.parentId = 'row';
+
+    const [copy] = cloneComponentsWithNewIds([{ ...row, parentId: 'section' }]);
+
+    expect(copy?.id).not.toBe('row');
+    expect(copy?.parentId).toBeUndefined();
+    expect(copy?.children?.[0]?.id).not.toBe(column.id);
+    expect(copy?.children?.[0]?.parentId).toBe(copy?.id);
+    expect(row.id).toBe('row');
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Component Clipboard
+ *
+ * Serialization of components for the system clipboard, so they can be copied
+ * across templates: builder JSON as plain text, and an HTML rendering for
+ * other applications that carries the same JSON
+ */
+
+import type { BaseComponent } from '../types';
+import type { HTMLNode } from '../html-import/html-import.types';
+import { generateId } from '../components/factories/utils';
+import type { ComponentRendererRegistry } from '../renderer/ComponentRendererRegistry';
+import { createDefaultRendererRegistry } from '../renderer/default-renderers';
+import { escapeHTML } from '../renderer/utils';
+import { parseHTML } from '../html-import/html-parser';
+import { HTMLImporter } from '../html-import/HTMLImporter';
+
+/**
+ * Type of the builder JSON on the clipboard
+ */
+export const COMPONENT_CLIPBOARD_TYPE = 'email-builder/components';
+
+/**
+ * Attribute of the HTML rendering carrying the builder JSON
+ */
+const CLIPBOARD_ATTRIBUTE = 'data-email-builder-clipboard';
+
+/**
+ * Builder JSON on the clipboard
+ */
+export interface ComponentClipboardData {
+  type: typeof COMPONENT_CLIPBOARD_TYPE;
+  version: 1;
+  /**
+   * Template the components were copied from
+   */
+  sourceTemplateId?: string;
+  components: BaseComponent[];
+}
+
+/**
+ * Clipboard representations of copied components
+ */
+export interface ComponentClipboardContent {
+  /**
+   * Builder JSON, for `text/plain`
+   */
+  json: string;
+  /**
+   * Rendered components carrying the builder JSON, for `text/html`
+   */
+  html: string;
+}
+
+export interface SerializeComponentsOptions {
+  sourceTemplateId?: string | undefined;
+  /**
+   * Renderers of the HTML rendering, defaults to the built-in ones
+   */
+  renderers?: ComponentRendererRegistry;
+}
+
+const isClipboardData = (value: unknown): value is ComponentClipboardData =>
+  typeof value === 'object' &&
+  value !== null &&
+  (value as ComponentClipboardData).type === COMPONENT_CLIPBOARD_TYPE &&
+  Array.isArray((value as ComponentClipboardData).components);
+
+const parseClipboardJSON = (json: string | undefined): BaseComponent[] | undefined => {
+  if (!json?.trim().startsWith('{')) {
+    return undefined;
+  }
+  try {
+    const data: unknown = JSON.parse(json);
+    return isClipboardData(data) ? data.components : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const findClipboardAttribute = (node: HTMLNode): string | undefined =>
+  node.attributes[CLIPBOARD_ATTRIBUTE] ??
+  node.children.reduce<string | undefined>((found, child) => found ?? findClipboardAttribute(child), undefined);
+
+/**
+ * Serializes components for the clipboard
+ *
+ * Components are copied as they are, with their preset and recipe styles,
+ * theme token bindings, display rules and global block references.
+ *
+ * @param components - Components to copy
+ * @param options - Serialization options
+ * @returns Plain text and HTML representations
+ */
+export function serializeComponents(
+  components: BaseComponent[],
+  options: SerializeComponentsOptions = {}
+): ComponentClipboardContent {
+  const data: ComponentClipboardData = {
+    type: COMPONENT_CLIPBOARD_TYPE,
+    version: 1,
+    ...(options.sourceTemplateId && { sourceTemplateId: options.sourceTemplateId }),
+    components: JSON.parse(JSON.stringify(components)),
+  };
+  const json = JSON.stringify(data);
+  const renderers = options.renderers ?? createDefaultRendererRegistry();
+  const rendered = components.map((component) => renderers.render(component)).join('\n');
+
+  return {
+    json,
+    html: `<div ${CLIPBOARD_ATTRIBUTE}="${escapeHTML(json)}">${rendered}</div>`,
+  };
+}
+
+/**
+ * Reads components from the clipboard
+ *
+ * Builder JSON is read from the plain text, or from the HTML of a builder
+ * copy; other HTML, e.g. copied from a web page, is imported as components.
+ *
+ * @param content - Plain text and HTML of the clipboard
+ * @param importer - Importer for other HTML
+ * @returns Copies of the components with new IDs; empty when there are none
+ */
+export function parseClipboardComponents(
+  content: { json?: string | undefined; html?: string | undefined },
+  importer: HTMLImporter = new HTMLImporter()
+): BaseComponent[] {
+  const html = content.html?.trim();
+  const components =
+    parseClipboardJSON(content.json) ??
+    (html ? parseClipboardJSON(findClipboardAttribute(parseHTML(html))) : undefined) ??
+    (html ? importer.import(html).template.components : []);
+
+  return cloneComponentsWithNewIds(components);
+}
+
+/**
+ * Copies components with new IDs, at any depth, e.g. to paste them
+ *
+ * @param components - Components to copy
+ * @returns Independent copies; top-level copies have no parent ID
+ */
+export function cloneComponentsWithNewIds(components: BaseComponent[]): BaseComponent[] {
+  const copy = (component: BaseComponent, parentId?: string): BaseComponent => {
+    const { parentId: previousParentId, ...rest } = component;
+    const id = generateId(component.type);
+    return {
+      ...rest,
+      id,
+      ...(previousParentId && parentId && { parentId }),
+      ...(component.children && { children: component.children.map((child) => copy(child, id)) }),
+    };
+  };
+
+  return (JSON.parse(JSON.stringify(components)) as BaseComponent[]).map((component) => copy(component));
+}
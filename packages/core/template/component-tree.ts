@@ -0,0 +1,136 @@
+/**
+ * Component Tree Helpers
+ *
+ * Immutable helpers for components nested through `BaseComponent.children`
+ * (e.g. the columns of a row and the components inside them)
+ */
+
+import type { BaseComponent } from '../types';
+
+/**
+ * Finds a component by ID, at any depth
+ *
+ * @param components - Top-level components
+ * @param id - Component ID
+ * @returns Component or undefined if not found
+ */
+export function findComponent(components: BaseComponent[], id: string): BaseComponent | undefined {
+  for (const component of components) {
+    if (component.id === id) {
+      return component;
+    }
+    const nested = component.children ? findComponent(component.children, id) : undefined;
+    if (nested) {
+      return nested;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Finds the parent of a nested component
+ *
+ * @param components - Top-level components
+ * @param id - Component ID
+ * @returns Parent component, or undefined for top-level and unknown components
+ */
+export function findParentComponent(components: BaseComponent[], id: string): BaseComponent | undefined {
+  for (const component of components) {
+    if (component.children?.some((child) => child.id === id)) {
+      return component;
+    }
+    const parent = component.children ? findParentComponent(component.children, id) : undefined;
+    if (parent) {
+      return parent;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Lists components and their nested children, depth first
+ *
+ * @param components - Top-level components
+ * @returns Every component of the tree
+ */
+export function flattenComponents(components: BaseComponent[]): BaseComponent[] {
+  return components.flatMap((component) => [component, ...flattenComponents(component.children ?? [])]);
+}
+
+/**
+ * Replaces a component, at any depth
+ *
+ * @param components - Top-level components
+ * @param id - Component ID
+ * @param update - Returns the replacement of the component
+ * @returns Updated copy of the components; unchanged branches are shared
+ */
+export function updateComponentInTree(
+  components: BaseComponent[],
+  id: string,
+  update: (component: BaseComponent) => BaseComponent
+): BaseComponent[] {
+  return components.map((component) => {
+    if (component.id === id) {
+      return update(component);
+    }
+    if (component.children && findComponent(component.children, id)) {
+      return { ...component, children: updateComponentInTree(component.children, id, update) };
+    }
+    return component;
+  });
+}
+
+/**
+ * Removes a component, at any depth
+ *
+ * @param components - Top-level components
+ * @param id - Component ID
+ * @returns Copy of the components without the component
+ */
+export function removeComponentFromTree(components: BaseComponent[], id: string): BaseComponent[] {
+  return components
+    .filter((component) => component.id !== id)
+    .map((component) =>
+      component.children && findComponent(component.children, id)
+        ? { ...component, children: removeComponentFromTree(component.children, id) }
+        : component
+    );
+}
+
+/**
+ * Inserts a component into the children of a component
+ *
+ * @param components - Top-level components
+ * @param parentId - ID of the component receiving the child
+ * @param child - Component to insert
+ * @param position - Index among the children; appended when omitted
+ * @returns Copy of the components with the child inserted
+ */
+export function insertComponentIntoTree(
+  components: BaseComponent[],
+  parentId: string,
+  child: BaseComponent,
+  position?: number
+): BaseComponent[] {
+  return updateComponentInTree(components, parentId, (parent) => {
+    const children = [...(parent.children ?? [])];
+    children.splice(position ?? children.length, 0, child);
+    return { ...parent, children };
+  });
+}
+
+/**
+ * Lists the selected components that are not nested in another selected
+ * component, so operations on a selection apply once to each branch
+ *
+ * @param components - Top-level components
+ * @param ids - Selected component IDs
+ * @returns Selected components, in document order
+ */
+export function getSelectionRoots(components: BaseComponent[], ids: string[]): BaseComponent[] {
+  const selected = new Set(ids);
+  return components.flatMap((component) =>
+    selected.has(component.id) ? [component] : getSelectionRoots(component.children ?? [], ids)
+  );
+}
@@ -0,0 +1,205 @@
+/**
+ * Display Rules Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyDisplayRules,
+  evaluateDisplayRule,
+  formatDisplayRule,
+  getDataPaths,
+  renderDisplayRuleTags,
+} from './display-rules';
+import { createEmptyEmailTemplate } from './TemplateComposer';
+import { createRow, createText } from '../components/factories';
+import { DisplayRuleError } from '../errors';
+import type { DisplayRule } from '../types';
+
+const data = {
+  customer: { tier: 'gold', firstName: 'Ada', tags: ['vip', 'beta'] },
+  orders: '4',
+  coupon: '',
+};
+
+const rule = (conditions: DisplayRule['conditions'], match: DisplayRule['match'] = 'all'): DisplayRule => ({
+  match,
+  conditions,
+});
+
+describe('evaluateDisplayRule', () => {
+  it('should show components without a rule or conditions', () => {
+    expect(evaluateDisplayRule(undefined, data)).toBe(true);
+    expect(evaluateDisplayRule(rule([]), data)).toBe(true);
+  });
+
+  it('should compare values as numbers when both are numeric', () => {
+    expect(evaluateDisplayRule(rule([{ variable: 'orders', operator: '>', value: 3 }]), data)).toBe(true);
+    expect(evaluateDisplayRule(rule([{ variable: 'orders', operator: '<=', value: '10' }]), data)).toBe(true);
+    expect(evaluateDisplayRule(rule([{ variable: 'orders', operator: '==', value: 4 }]), data)).toBe(true);
+    expect(evaluateDisplayRule(rule([{ variable: 'missing', operator: '<', value: 4 }]), data)).toBe(false);
+  });
+
+  it('should compare other values as strings', () => {
+    expect(evaluateDisplayRule(rule([{ variable: 'customer.tier', operator: '==', value: 'gold' }]), data)).toBe(true);
+    expect(evaluateDisplayRule(rule([{ variable: 'customer.tier', operator: '!=', value: 'gold' }]), data)).toBe(false);
+  });
+
+  it('should test whether strings and arrays contain a value', () => {
+    expect(evaluateDisplayRule(rule([{ variable: 'customer.tags', operator: 'contains', value: 'vip' }]), data)).toBe(true);
+    expect(evaluateDisplayRule(rule([{ variable: 'customer.firstName', operator: 'contains', value: 'd' }]), data)).toBe(true);
+    expect(evaluateDisplayRule(rule([{ variable: 'orders', operator: 'contains', value: 'x' }]), data)).toBe(false);
+  });
+
+  it('should treat empty values as missing', () => {
+    expect(evaluateDisplayRule(rule([{ variable: 'coupon', operator: 'exists' }]), data)).toBe(false);
+    expect(evaluateDisplayRule(rule([{ variable: 'coupon', operator: 'not-exists' }]), data)).toBe(true);
+    expect(evaluateDisplayRule(rule([{ variable: 'customer.firstName', operator: 'exists' }]), data)).toBe(true);
+  });
+
+  it('should match all or any condition', () => {
+    const conditions: DisplayRule['conditions'] = [
+      { variable: 'customer.tier', operator: '==', value: 'silver' },
+      { variable: 'orders', operator: '>', value: 1 },
+    ];
+
+    expect(evaluateDisplayRule(rule(conditions, 'all'), data)).toBe(false);
+    expect(evaluateDisplayRule(rule(conditions, 'any'), data)).toBe(true);
+  });
+});
+
+describe('applyDisplayRules', () => {
+  it('should leave out hidden components and their children at any depth', () => {
+    const template = createEmptyEmailTemplate();
+    const row = createRow({ id: 'row' });
+    row.children![0]!.children = [
+      createText({ id: 'vip', displayRule: rule([{ variable: 'customer.tier', operator: '==', value: 'silver' }]) }),
+      createText({ id: 'always' }),
+    ];
+    template.components = [
+      row,
+      createText({ id: 'promo', displayRule: rule([{ variable: 'coupon', operator: 'exists' }]) }),
+      createText({ id: 'promo-details', parentId: 'promo' }),
+    ];
+
+    const filtered = applyDisplayRules(template, data);
+
+    expect(filtered.components.map((component) => component.id)).toEqual(['row']);
+    expect(filtered.components[0]!.children![0]!.children!.map((component) => component.id)).toEqual(['always']);
+    expect(template.components).toHaveLength(3);
+  });
+
+  it('should return the template itself when every component is shown', () => {
+    const template = createEmptyEmailTemplate();
+    template.components = [createText({ displayRule: rule([{ variable: 'orders', operator: 'exists' }]) })];
+
+    expect(applyDisplayRules(template, data)).toBe(template);
+  });
+});
+
+describe('formatDisplayRule', () => {
+  it('should format the conditions as an expression', () => {
+    expect(
+      formatDisplayRule(
+        rule(
+          [
+            { variable: 'customer.tier', operator: '==', value: 'gold' },
+            { variable: 'orders', operator: '>', value: 3 },
+            { variable: 'coupon', operator: 'not-exists' },
+          ],
+          'any'
+        )
+      )
+    ).toBe('customer.tier == "gold" or orders > 3 or coupon not exists');
+  });
+});
+
+describe('getDataPaths', () => {
+  it('should list the paths of nested values', () => {
+    expect(getDataPaths(data)).toEqual([
+      'customer.tier',
+      'customer.firstName',
+      'customer.tags',
+      'orders',
+      'coupon',
+    ]);
+  });
+});
+
+describe('renderDisplayRuleTags', () => {
+  const conditions: DisplayRule['conditions'] = [
+    { variable: 'customer.tier', operator: '==', value: 'gold' },
+    { variable: 'orders', operator: '>=', value: 3 },
+    { variable: 'coupon', operator: 'exists' },
+  ];
+
+  it('should write Liquid tags', () => {
+    expect(renderDisplayRuleTags(rule(conditions), 'liquid')).toEqual({
+      open: '{% if customer.tier == "gold" and orders >= 3 and coupon != blank %}',
+      close: '{% endif %}',
+    });
+    expect(
+      renderDisplayRuleTags(rule([{ variable: 'customer.tags', operator: 'contains', value: 'vip' }], 'any'), 'liquid')
+    ).toEqual({ open: '{% if customer.tags contains "vip" %}', close: '{% endif %}' });
+  });
+
+  it('should write AMPscript blocks', () => {
+    expect(renderDisplayRuleTags(rule(conditions, 'any'), 'ampscript')).toEqual({
+      open: '%%[ IF AttributeValue("customer.tier") == "gold" OR AttributeValue("orders") >= 3 OR NOT Empty(AttributeValue("coupon")) THEN ]%%',
+      close: '%%[ ENDIF ]%%',
+    });
+    expect(
+      renderDisplayRuleTags(rule([{ variable: 'nickname', operator: '==', value: 'the "boss"' }]), 'ampscript')?.open
+    ).toBe('%%[ IF AttributeValue("nickname") == "the ""boss""" THEN ]%%');
+  });
+
+  it('should reject values that close AMPscript blocks', () => {
+    expect(() =>
+      renderDisplayRuleTags(
+        rule([{ variable: 'nickname', operator: '==', value: 'x" THEN ]%%%%[ SET @secret = 1 ]%%' }]),
+        'ampscript'
+      )
+    ).toThrow(DisplayRuleError);
+    expect(() =>
+      renderDisplayRuleTags(rule([{ variable: 'nickname', operator: '==', value: '%%[ Redirect() ]' }]), 'ampscript')
+    ).toThrow('AMPscript conditions cannot compare');
+  });
+
+  it('should nest Mailchimp conditionals', () => {
+    expect(renderDisplayRuleTags(rule(conditions), 'mailchimp')).toEqual({
+      open: '*|IF:CUSTOMER_TIER=gold|**|IF:ORDERS>=3|**|IF:COUPON|*',
+      close: '*|END:IF|**|END:IF|**|END:IF|*',
+    });
+  });
+
+  it('should reject rules Mailchimp conditionals cannot express', () => {
+    expect(() => renderDisplayRuleTags(rule(conditions, 'any'), 'mailchimp')).toThrow(DisplayRuleError);
+    expect(() =>
+      renderDisplayRuleTags(rule([{ variable: 'customer.tags', operator: 'contains', value: 'vip' }]), 'mailchimp')
+    ).toThrow('Mailchimp conditionals cannot test whether a merge field contains a value');
+    expect(() =>
+      renderDisplayRuleTags(rule([{ variable: 'customer.tier', operator: '==', value: 'gold|**|IF:ADMIN' }]), 'mailchimp')
+    ).toThrow('merge tag delimiters');
+  });
+
+  it('should reject values Liquid strings cannot hold', () => {
+    expect(
+      renderDisplayRuleTags(rule([{ variable: 'nickname', operator: '==', value: 'the "boss"' }]), 'liquid')?.open
+    ).toBe(`{% if nickname == 'the "boss"' %}`);
+    expect(() =>
+      renderDisplayRuleTags(rule([{ variable: 'nickname', operator: '==', value: `the "boss's"` }]), 'liquid')
+    ).toThrow(DisplayRuleError);
+    expect(() =>
+      renderDisplayRuleTags(rule([{ variable: 'nickname', operator: '==', value: 'x %}{{ secret }}{% if true' }]), 'liquid')
+    ).toThrow(DisplayRuleError);
+  });
+
+  it('should reject variables that are not paths', () => {
+    expect(() =>
+      renderDisplayRuleTags(rule([{ variable: 'orders %}{{ secret', operator: 'exists' }]), 'liquid')
+    ).toThrow('Invalid display rule variable');
+  });
+
+  it('should write nothing for rules without conditions', () => {
+    expect(renderDisplayRuleTags(rule([]), 'liquid')).toBeUndefined();
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * Display Rules
+ *
+ * Evaluation of the display rules of components with data, and their
+ * conversion to the conditional syntax of email service providers
+ */
+
+import type {
+  BaseComponent,
+  DisplayCondition,
+  DisplayRule,
+  DisplayRuleSyntax,
+  Template,
+} from '../types';
+import { DisplayRuleError } from '../errors';
+import { flattenComponents } from './component-tree';
+
+/**
+ * Conditional tags wrapping the content of a component
+ */
+export interface DisplayRuleTags {
+  open: string;
+  close: string;
+}
+
+const VARIABLE_PATTERN = /^[A-Za-z_][\w-]*(\.[\w-]+)*$/;
+
+/**
+ * Checks that a variable is a path in dot notation, safe to write in ESP syntax
+ */
+export function isDataPath(path: string): boolean {
+  return VARIABLE_PATTERN.test(path);
+}
+
+/**
+ * Gets a value from data by its path in dot notation (e.g. `customer.tier`)
+ */
+export function getDataValue(data: Record<string, unknown>, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+      data
+    );
+}
+
+/**
+ * Lists the paths of the values in data, e.g. to suggest rule variables
+ *
+ * Objects are listed through their properties; arrays are values.
+ *
+ * @param data - Data, e.g. the sample data of a data source
+ * @returns Paths in dot notation
+ */
+export function getDataPaths(data: Record<string, unknown>): string[] {
+  return Object.entries(data).flatMap(([key, value]) =>
+    value !== null && typeof value === 'object' && !Array.isArray(value)
+      ? getDataPaths(value as Record<string, unknown>).map((path) => `${key}.${path}`)
+      : [key]
+  );
+}
+
+function hasValue(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0);
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Compares values as numbers when both are numeric, as strings otherwise
+ */
+export function compareDataValues(actual: unknown, expected: unknown): number {
+  const a = toNumber(actual);
+  const b = toNumber(expected);
+  if (a !== undefined && b !== undefined) {
+    return a - b;
+  }
+
+  const left = String(actual ?? '');
+  const right = String(expected ?? '');
+  return left === right ? 0 : left < right ? -1 : 1;
+}
+
+/**
+ * Evaluates a condition with data
+ *
+ * Values are compared as numbers when both are numeric (`"3"` equals `3`),
+ * as strings otherwise. Ordering comparisons with a missing variable fail.
+ *
+ * @throws {DisplayRuleError} If the operator is unknown
+ */
+export function evaluateDisplayCondition(condition: DisplayCondition, data: Record<string, unknown>): boolean {
+  const actual = getDataValue(data, condition.variable);
+  const { value } = condition;
+
+  switch (condition.operator) {
+    case 'exists':
+      return hasValue(actual);
+    case 'not-exists':
+      return !hasValue(actual);
+    case '==':
+      return compareDataValues(actual, value) === 0;
+    case '!=':
+      return compareDataValues(actual, value) !== 0;
+    case '>':
+      return hasValue(actual) && compareDataValues(actual, value) > 0;
+    case '>=':
+      return hasValue(actual) && compareDataValues(actual, value) >= 0;
+    case '<':
+      return hasValue(actual) && compareDataValues(actual, value) < 0;
+    case '<=':
+      return hasValue(actual) && compareDataValues(actual, value) <= 0;
+    case 'contains':
+      if (Array.isArray(actual)) {
+        return actual.some((item) => compareDataValues(item, value) === 0);
+      }
+      return typeof actual === 'string' && actual.includes(String(value ?? ''));
+    default:
+      throw new DisplayRuleError(`Unknown display rule operator: ${String(condition.operator)}`, {
+        variable: condition.variable,
+      });
+  }
+}
+
+/**
+ * Evaluates a display rule with data
+ *
+ * @param rule - Display rule; components without one are always shown
+ * @param data - Data, e.g. the sample data of the active data source
+ * @returns Whether the component is shown
+ */
+export function evaluateDisplayRule(rule: DisplayRule | undefined, data: Record<string, unknown>): boolean {
+  if (!rule || rule.conditions.length === 0) {
+    return true;
+  }
+
+  const matches = (condition: DisplayCondition) => evaluateDisplayCondition(condition, data);
+  return rule.match === 'any' ? rule.conditions.some(matches) : rule.conditions.every(matches);
+}
+
+/**
+ * Removes the components whose display rule does not match the data, with
+ * their children
+ *
+ * @param template - Template to filter
+ * @param data - Data the rules are evaluated with
+ * @returns Filtered copy of the template, or the template itself when every
+ * component is shown
+ */
+export function applyDisplayRules(template: Template, data: Record<string, unknown>): Template {
+  const components = flattenComponents(template.components);
+  const hidden = new Set(
+    components.filter((component) => !evaluateDisplayRule(component.displayRule, data)).map((component) => component.id)
+  );
+  if (hidden.size === 0) {
+    return template;
+  }
+
+  // Components nested through `parentId` follow their parent
+  let size = 0;
+  while (size !== hidden.size) {
+    size = hidden.size;
+    components.forEach((component) => {
+      if (component.parentId && hidden.has(component.parentId)) {
+        hidden.add(component.id);
+      }
+    });
+  }
+
+  const filter = (items: BaseComponent[]): BaseComponent[] =>
+    items
+      .filter((component) => !hidden.has(component.id))
+      .map((component) => (component.children ? { ...component, children: filter(component.children) } : component));
+
+  const { componentTree: _componentTree, ...rest } = template;
+  return { ...rest, components: filter(template.components) };
+}
+
+/**
+ * Formats a display rule as an expression, e.g. for labels
+ *
+ * @example
+ * ```ts
+ * formatDisplayRule({ match: 'all', conditions: [{ variable: 'customer.tier', operator: '==', value: 'gold' }] });
+ * // 'customer.tier == "gold"'
+ * ```
+ */
+export function formatDisplayRule(rule: DisplayRule): string {
+  return rule.conditions
+    .map(({ variable, operator, value }) =>
+      operator === 'exists' || operator === 'not-exists'
+        ? `${variable} ${operator.replace('-', ' ')}`
+        : `${variable} ${operator} ${typeof value === 'string' ? JSON.stringify(value) : String(value)}`
+    )
+    .join(rule.match === 'any' ? ' or ' : ' and ');
+}
+
+function checkVariable(condition: DisplayCondition): void {
+  if (!isDataPath(condition.variable)) {
+    throw new DisplayRuleError(`Invalid display rule variable: "${condition.variable}"`, {
+      variable: condition.variable,
+    });
+  }
+}
+
+function renderLiquidCondition(condition: DisplayCondition): string {
+  const { variable, operator, value } = condition;
+  // Liquid strings have no escapes: a value can use one kind of quote, and
+  // must not close the tag
+  if (typeof value === 'string' && ((value.includes('"') && value.includes("'")) || value.includes('%}'))) {
+    throw new DisplayRuleError('Liquid conditions cannot compare with a value containing both quote kinds or "%}"', {
+      variable,
+    });
+  }
+  const literal =
+    typeof value === 'string' ? (value.includes('"') ? `'${value}'` : `"${value}"`) : String(value ?? 'nil');
+
+  switch (operator) {
+    case 'exists':
+      return `${variable} != blank`;
+    case 'not-exists':
+      return `${variable} == blank`;
+    default:
+      return `${variable} ${operator} ${literal}`;
+  }
+}
+
+function renderAMPscriptCondition(condition: DisplayCondition): string {
+  const { variable, operator, value } = condition;
+  // Quotes are escaped, but the block delimiters end the script wherever they are
+  if (typeof value === 'string' && (value.includes(']%%') || value.includes('%%['))) {
+    throw new DisplayRuleError('AMPscript conditions cannot compare with a value containing "]%%" or "%%["', {
+      variable,
+    });
+  }
+  const attribute = `AttributeValue("${variable}")`;
+  const literal = typeof value === 'string' ? `"${value.replace(/"/g, '""')}"` : String(value ?? '""');
+
+  switch (operator) {
+    case 'exists':
+      return `NOT Empty(${attribute})`;
+    case 'not-exists':
+      return `Empty(${attribute})`;
+    case 'contains':
+      return `IndexOf(${attribute}, ${literal}) > 0`;
+    default:
+      return `${attribute} ${operator} ${literal}`;
+  }
+}
+
+function renderMailchimpCondition(condition: DisplayCondition): string {
+  const { variable, operator, value } = condition;
+  const mergeTag = variable.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+
+  switch (operator) {
+    case 'exists':
+      return `*|IF:${mergeTag}|*`;
+    case 'not-exists':
+      return `*|IFNOT:${mergeTag}|*`;
+    case 'contains':
+      throw new DisplayRuleError('Mailchimp conditionals cannot test whether a merge field contains a value', {
+        variable,
+      });
+    default: {
+      const literal = String(value ?? '');
+      if (literal.includes('|*') || literal.includes('*|')) {
+        throw new DisplayRuleError('Mailchimp conditionals cannot compare with a value containing merge tag delimiters', {
+          variable,
+        });
+      }
+      return `*|IF:${mergeTag}${operator === '==' ? '=' : operator}${literal}|*`;
+    }
+  }
+}
+
+/**
+ * Writes a display rule in the conditional syntax of an ESP
+ *
+ * Liquid and AMPscript variables keep their path (`customer.tier`, read with
+ * `AttributeValue` in AMPscript); Mailchimp merge tags are the path in upper
+ * case, with underscores for other characters (`CUSTOMER_TIER`). Mailchimp
+ * conditionals cannot combine conditions with `any` nor test `contains`.
+ * Values are written as literals, so Liquid values cannot hold both kinds of
+ * quotes nor `%}`, AMPscript values no block delimiters, and Mailchimp values
+ * no merge tag delimiters.
+ *
+ * @param rule - Display rule
+ * @param syntax - Target syntax
+ * @returns Tags wrapping the component, or undefined when the rule has no
+ * conditions
+ * @throws {DisplayRuleError} If the rule cannot be written in the syntax
+ */
+export function renderDisplayRuleTags(rule: DisplayRule, syntax: DisplayRuleSyntax): DisplayRuleTags | undefined {
+  const { conditions } = rule;
+  if (conditions.length === 0) {
+    return undefined;
+  }
+  conditions.forEach(checkVariable);
+
+  const join = rule.match === 'any' ? 'or' : 'and';
+  switch (syntax) {
+    case 'liquid':
+      return {
+        open: `{% if ${conditions.map(renderLiquidCondition).join(` ${join} `)} %}`,
+        close: '{% endif %}',
+      };
+    case 'ampscript':
+      return {
+        open: `%%[ IF ${conditions.map(renderAMPscriptCondition).join(` ${join.toUpperCase()} `)} THEN ]%%`,
+        close: '%%[ ENDIF ]%%',
+      };
+    case 'mailchimp':
+      if (rule.match === 'any' && conditions.length > 1) {
+        throw new DisplayRuleError('Mailchimp conditionals cannot combine conditions with "any"');
+      }
+      // Nested conditionals, one per condition
+      return {
+        open: conditions.map(renderMailchimpCondition).join(''),
+        close: '*|END:IF|*'.repeat(conditions.length),
+      };
+    default:
+      throw new DisplayRuleError(`Unknown display rule syntax: ${String(syntax)}`);
+  }
+}
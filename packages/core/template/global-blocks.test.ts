@@ -0,0 +1,125 @@
+/**
+ * Global Blocks Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  collectGlobalBlockIds,
+  instantiateGlobalBlock,
+  resolveGlobalBlockComponents,
+  resolveGlobalBlocks,
+} from './global-blocks';
+import { createEmptyEmailTemplate } from './TemplateComposer';
+import { createButton, createGlobalBlockReference, createRow, createText } from '../components/factories';
+import type { BaseComponent, GlobalBlock } from '../types';
+
+const createBlock = (id: string, components: BaseComponent[]): GlobalBlock => ({
+  id,
+  name: `Block ${id}`,
+  components,
+  version: 1,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+describe('collectGlobalBlockIds', () => {
+  it('should list referenced blocks at any depth, once', () => {
+    const row = createRow();
+    row.children![0]!.children = [createGlobalBlockReference('footer')];
+
+    expect(
+      collectGlobalBlockIds([createGlobalBlockReference('header'), row, createGlobalBlockReference('header')])
+    ).toEqual(['header', 'footer']);
+  });
+});
+
+describe('resolveGlobalBlockComponents', () => {
+  it('should replace references with the block components, scoping their IDs', () => {
+    const footer = createBlock('footer', [
+      createText({ id: 'legal' }),
+      createButton({ id: 'unsubscribe' }),
+    ]);
+    const components = [
+      createText({ id: 'intro' }),
+      createGlobalBlockReference('footer', { id: 'ref-1' }),
+      createGlobalBlockReference('footer', { id: 'ref-2' }),
+    ];
+
+    const resolved = resolveGlobalBlockComponents(components, (id) => (id === 'footer' ? footer : undefined));
+
+    expect(resolved.map((component) => component.id)).toEqual([
+      'intro',
+      'ref-1-legal',
+      'ref-1-unsubscribe',
+      'ref-2-legal',
+      'ref-2-unsubscribe',
+    ]);
+    expect(resolved[1]!.type).toBe('text');
+  });
+
+  it('should resolve nested references and blocks containing rows', () => {
+    const row = createRow({ id: 'row' });
+    row.children![0]!.children = [createText({ id: 'logo' })];
+    const blocks: Record<string, GlobalBlock> = {
+      header: createBlock('header', [row]),
+      wrapper: createBlock('wrapper', [createGlobalBlockReference('header', { id: 'inner' })]),
+    };
+
+    const [resolved] = resolveGlobalBlockComponents([createGlobalBlockReference('wrapper', { id: 'outer' })], (id) => blocks[id]);
+
+    expect(resolved!.id).toBe('outer-inner-row');
+    expect(resolved!.children![0]!.children![0]!.id).toBe('outer-inner-logo');
+  });
+
+  it('should drop cyclic references and keep unknown ones', () => {
+    const blocks: Record<string, GlobalBlock> = {
+      loop: createBlock('loop', [createText({ id: 'text' }), createGlobalBlockReference('loop', { id: 'self' })]),
+    };
+
+    const resolved = resolveGlobalBlockComponents(
+      [createGlobalBlockReference('loop', { id: 'ref' }), createGlobalBlockReference('missing', { id: 'lost' })],
+      (id) => blocks[id]
+    );
+
+    expect(resolved.map((component) => component.id)).toEqual(['ref-text', 'lost']);
+    expect(resolved[1]!.type).toBe('global-block');
+  });
+});
+
+describe('resolveGlobalBlocks', () => {
+  it('should return templates without references unchanged', () => {
+    const template = createEmptyEmailTemplate('Plain');
+    template.components = [createText()];
+
+    expect(resolveGlobalBlocks(template, () => undefined)).toBe(template);
+  });
+
+  it('should drop the stale component tree of resolved templates', () => {
+    const template = createEmptyEmailTemplate('Shared footer');
+    template.components = [createGlobalBlockReference('footer', { id: 'ref' })];
+    template.componentTree = [];
+
+    const resolved = resolveGlobalBlocks(template, () => createBlock('footer', [createText({ id: 'legal' })]));
+
+    expect(resolved.componentTree).toBeUndefined();
+    expect(resolved.components.map((component) => component.id)).toEqual(['ref-legal']);
+    expect(template.components[0]!.id).toBe('ref');
+  });
+});
+
+describe('instantiateGlobalBlock', () => {
+  it('should copy the block components with new IDs', () => {
+    const row = createRow();
+    row.children![0]!.children = [createText()];
+    const block = createBlock('header', [row]);
+
+    const [copy] = instantiateGlobalBlock(block);
+
+    expect(copy!.id).not.toBe(row.id);
+    expect(copy!.children![0]!.id).not.toBe(row.children![0]!.id);
+    expect(copy!.children![0]!.children![0]!.id).not.toBe(row.children![0]!.children![0]!.id);
+
+    copy!.content['layout'] = '1';
+    expect(row.content.layout).toBe('1-1');
+  });
+});
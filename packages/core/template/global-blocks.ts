@@ -0,0 +1,112 @@
+/**
+ * Global Blocks
+ *
+ * Resolution of the global block references of a template into the
+ * components of the referenced blocks
+ */
+
+import { ComponentType } from '../types';
+import type { BaseComponent, GlobalBlock, GlobalBlockResolver, Template } from '../types';
+import { generateId } from '../components/factories/utils';
+
+/**
+ * Checks whether a component is a global block reference
+ */
+export function isGlobalBlockReference(component: BaseComponent): boolean {
+  return component.type === ComponentType.GLOBAL_BLOCK;
+}
+
+/**
+ * Lists the IDs of the global blocks a set of components references, at any depth
+ *
+ * @param components - Components to search
+ * @returns Block IDs, without duplicates
+ */
+export function collectGlobalBlockIds(components: BaseComponent[]): string[] {
+  const ids = new Set<string>();
+  const visit = (component: BaseComponent) => {
+    const blockId = component.content?.['blockId'];
+    if (isGlobalBlockReference(component) && typeof blockId === 'string') {
+      ids.add(blockId);
+    }
+    component.children?.forEach(visit);
+  };
+
+  components.forEach(visit);
+  return Array.from(ids);
+}
+
+/**
+ * Copies the components of a block with new IDs, e.g. to detach a reference
+ *
+ * @param block - Global block
+ * @returns Independent copies of the block components
+ */
+export function instantiateGlobalBlock(block: GlobalBlock): BaseComponent[] {
+  const copy = (component: BaseComponent): BaseComponent => ({
+    ...component,
+    id: generateId(component.type),
+    ...(component.children && { children: component.children.map(copy) }),
+  });
+
+  return (JSON.parse(JSON.stringify(block.components)) as BaseComponent[]).map(copy);
+}
+
+/**
+ * Replaces global block references with the components of their blocks
+ *
+ * Resolved components get IDs scoped to their reference
+ * (`<reference id>-<component id>`), so a block used twice in a template
+ * renders without duplicate IDs. Blocks referencing themselves, directly or
+ * through other blocks, are left out; references to unknown blocks are kept.
+ *
+ * @param components - Components to resolve
+ * @param resolve - Looks up a block by ID
+ * @returns Resolved copy of the components
+ */
+export function resolveGlobalBlockComponents(
+  components: BaseComponent[],
+  resolve: GlobalBlockResolver
+): BaseComponent[] {
+  const resolveAll = (items: BaseComponent[], scope: string, visiting: string[]): BaseComponent[] =>
+    items.flatMap((component) => {
+      const id = scope ? `${scope}-${component.id}` : component.id;
+      const blockId = component.content?.['blockId'];
+
+      if (isGlobalBlockReference(component) && typeof blockId === 'string') {
+        const block = resolve(blockId);
+        if (!block) {
+          return [{ ...component, id }];
+        }
+        return visiting.includes(blockId) ? [] : resolveAll(block.components, id, [...visiting, blockId]);
+      }
+
+      return [
+        {
+          ...component,
+          id,
+          ...(component.children && { children: resolveAll(component.children, scope, visiting) }),
+        },
+      ];
+    });
+
+  return resolveAll(components, '', []);
+}
+
+/**
+ * Replaces the global block references of a template with the components of
+ * their blocks
+ *
+ * @param template - Template to resolve
+ * @param resolve - Looks up a block by ID
+ * @returns Resolved copy of the template, or the template itself when it has
+ * no references
+ */
+export function resolveGlobalBlocks(template: Template, resolve: GlobalBlockResolver): Template {
+  if (collectGlobalBlockIds(template.components).length === 0) {
+    return template;
+  }
+
+  const { componentTree: _componentTree, ...rest } = template;
+  return { ...rest, components: resolveGlobalBlockComponents(template.components, resolve) };
+}
@@ -5,6 +5,50 @@
  */
 
 export { ComponentTreeBuilder } from './ComponentTreeBuilder';
+export {
+  findComponent,
+  findParentComponent,
+  flattenComponents,
+  updateComponentInTree,
+  removeComponentFromTree,
+  insertComponentIntoTree,
+  getSelectionRoots,
+} from './component-tree';
+export {
+  isGlobalBlockReference,
+  collectGlobalBlockIds,
+  instantiateGlobalBlock,
+  resolveGlobalBlockComponents,
+  resolveGlobalBlocks,
+} from './global-blocks';
+export {
+  getDataValue,
+  getDataPaths,
+  evaluateDisplayCondition,
+  evaluateDisplayRule,
+  applyDisplayRules,
+  formatDisplayRule,
+  renderDisplayRuleTags,
+  type DisplayRuleTags,
+} from './display-rules';
+export {
+  getRepeatItems,
+  bindRepeatItem,
+  createRepeatEmptyState,
+  expandRepeats,
+  bindRepeatPlaceholders,
+  renderRepeatLoopTags,
+  type RepeatLoopTags,
+} from './repeat-bindings';
+export {
+  COMPONENT_CLIPBOARD_TYPE,
+  serializeComponents,
+  parseClipboardComponents,
+  cloneComponentsWithNewIds,
+  type ComponentClipboardData,
+  type ComponentClipboardContent,
+  type SerializeComponentsOptions,
+} from './component-clipboard';
 export { TemplateValidator } from './TemplateValidator';
 export { TemplateStorage, TemplateStorageError } from './TemplateStorage';
 export { TemplateManagerError } from '../errors';
@@ -14,7 +58,20 @@ export {
   type CreateTemplateOptions,
   type UpdateTemplateOptions,
 } from './TemplateManager';
+export {
+  GlobalBlockManager,
+  GlobalBlockManagerEvent,
+  type CreateGlobalBlockOptions,
+  type UpdateGlobalBlockOptions,
+} from './GlobalBlockManager';
+export { TemplateRevisionStore, selectRetained, diffValues } from './TemplateRevisionStore';
 export { TemplateExporter, type ExportResult } from './TemplateExporter';
+export {
+  AutoSaveManager,
+  type AutoSaveState,
+  type AutoSaveStatus,
+  type AutoSaveManagerOptions,
+} from './AutoSaveManager';
 
 // Template Composition
 export {
@@ -27,6 +84,19 @@ export {
   type TemplateComposerOptions,
 } from './TemplateComposer';
 
+// Template Diff & Merge
+export {
+  diffTemplates,
+  threeWayMerge,
+  type ComponentLocation,
+  type ComponentChangeType,
+  type ComponentChange,
+  type TemplateDiff,
+  type MergeConflict,
+  type ThreeWayMergeOptions,
+  type TemplateMergeResult,
+} from './TemplateDiff';
+
 // Template Versioning & Migration
 export {
   TemplateVersionManager,
@@ -0,0 +1,181 @@
+/**
+ * Repeat Bindings Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  bindRepeatItem,
+  bindRepeatPlaceholders,
+  expandRepeats,
+  getRepeatItems,
+  renderRepeatLoopTags,
+} from './repeat-bindings';
+import { createEmptyEmailTemplate } from './TemplateComposer';
+import { createImage, createRow, createText } from '../components/factories';
+import { RepeatBindingError } from '../errors';
+import type { RepeatBinding } from '../types';
+
+const data = {
+  order: {
+    items: [
+      { name: 'Lamp', price: 40, image: 'https://example.com/lamp.png' },
+      { name: 'Desk', price: 250, image: 'https://example.com/desk.png' },
+      { name: '<Chair>', price: 90, image: 'https://example.com/chair.png' },
+    ],
+  },
+  tags: ['new', 'sale'],
+};
+
+const binding = (changes: Partial<RepeatBinding> = {}): RepeatBinding => ({
+  source: 'order.items',
+  fields: [],
+  ...changes,
+});
+
+describe('getRepeatItems', () => {
+  it('should return the items of the source array', () => {
+    expect(getRepeatItems(binding(), data)).toHaveLength(3);
+    expect(getRepeatItems(binding({ source: 'tags' }), data)).toEqual(['new', 'sale']);
+  });
+
+  it('should return no items when the source is not an array', () => {
+    expect(getRepeatItems(binding({ source: 'order' }), data)).toEqual([]);
+    expect(getRepeatItems(binding({ source: 'missing' }), data)).toEqual([]);
+  });
+
+  it('should filter, sort and limit the items', () => {
+    const items = getRepeatItems(
+      binding({
+        filter: { match: 'all', conditions: [{ variable: 'price', operator: '<', value: 200 }] },
+        sort: { field: 'price', direction: 'desc' },
+        limit: 1,
+      }),
+      data
+    );
+
+    expect(items).toEqual([data.order.items[2]]);
+  });
+
+  it('should filter primitive items as this', () => {
+    const items = getRepeatItems(
+      binding({
+        source: 'tags',
+        filter: { match: 'all', conditions: [{ variable: 'this', operator: '==', value: 'sale' }] },
+      }),
+      data
+    );
+
+    expect(items).toEqual(['sale']);
+  });
+});
+
+describe('bindRepeatItem', () => {
+  it('should set the bound properties of the component and its children', () => {
+    const row = createRow({ id: 'card' });
+    row.children![0]!.children = [
+      createImage({ id: 'photo' }),
+      createText({ id: 'name', content: { type: 'paragraph', html: '<p>Name</p>' } }),
+    ];
+    row.repeat = binding({
+      fields: [
+        { componentId: 'photo', property: 'content.src', field: 'image' },
+        { componentId: 'name', property: 'content.html', field: 'name' },
+      ],
+    });
+
+    const bound = bindRepeatItem(row, data.order.items[2]);
+    const [photo, name] = bound.children![0]!.children!;
+
+    expect(bound.repeat).toBeUndefined();
+    expect(photo!.content['src']).toBe('https://example.com/chair.png');
+    expect(name!.content['html']).toBe('&lt;Chair&gt;');
+    expect(row.children![0]!.children![1]!.content['html']).toBe('<p>Name</p>');
+  });
+
+  it('should write placeholders for loops', () => {
+    const text = createText({
+      repeat: binding({ fields: [{ property: 'content.html', field: 'name' }] }),
+    });
+
+    expect(bindRepeatPlaceholders(text).content['html']).toBe('{{name}}');
+  });
+});
+
+describe('expandRepeats', () => {
+  it('should repeat components with scoped IDs', () => {
+    const template = createEmptyEmailTemplate();
+    const row = createRow({ id: 'card' });
+    row.children![0]!.children = [createText({ id: 'name' })];
+    row.repeat = binding({ limit: 2, fields: [{ componentId: 'name', property: 'content.html', field: 'name' }] });
+    template.components = [createText({ id: 'intro' }), row];
+
+    const expanded = expandRepeats(template, data);
+
+    expect(expanded.components.map((component) => component.id)).toEqual(['intro', 'card-1', 'card-2']);
+    expect(expanded.components[2]!.children![0]!.children![0]).toMatchObject({
+      id: 'name-2',
+      content: { html: 'Desk' },
+    });
+    expect(template.components).toHaveLength(2);
+  });
+
+  it('should bind the fields of repeats nested in repeated components', () => {
+    const template = createEmptyEmailTemplate();
+    const tagRow = createRow({ id: 'tag-row' });
+    tagRow.children![0]!.children = [createText({ id: 'tag' })];
+    tagRow.repeat = binding({ source: 'tags', fields: [{ componentId: 'tag', property: 'content.html', field: 'this' }] });
+    const card = createRow({ id: 'card' });
+    card.children![0]!.children = [createText({ id: 'name' }), tagRow];
+    card.repeat = binding({ limit: 2, fields: [{ componentId: 'name', property: 'content.html', field: 'name' }] });
+    template.components = [card];
+
+    const expanded = expandRepeats(template, data);
+
+    const column = expanded.components[1]!.children![0]!;
+    expect(column.children!.map((component) => component.id)).toEqual(['name-2', 'tag-row-2-1', 'tag-row-2-2']);
+    expect(column.children![2]!.children![0]!.children![0]).toMatchObject({
+      id: 'tag-2-2',
+      content: { html: 'sale' },
+    });
+  });
+
+  it('should replace components without items by their empty state', () => {
+    const template = createEmptyEmailTemplate();
+    template.components = [
+      createText({ id: 'products', repeat: binding({ source: 'missing', emptyText: 'Nothing to show' }) }),
+      createText({ id: 'tags', repeat: binding({ source: 'missing' }) }),
+    ];
+
+    const expanded = expandRepeats(template, data);
+
+    expect(expanded.components).toHaveLength(1);
+    expect(expanded.components[0]).toMatchObject({
+      id: 'products-empty',
+      content: { html: '<p>Nothing to show</p>' },
+    });
+  });
+
+  it('should return the template itself when nothing is repeated', () => {
+    const template = createEmptyEmailTemplate();
+    template.components = [createText()];
+
+    expect(expandRepeats(template, data)).toBe(template);
+  });
+});
+
+describe('renderRepeatLoopTags', () => {
+  it('should write an each loop over the source', () => {
+    expect(renderRepeatLoopTags(binding())).toEqual({
+      open: '{{#each order.items}}',
+      else: '{{else}}',
+      close: '{{/each}}',
+    });
+  });
+
+  it('should reject bindings loops cannot express', () => {
+    expect(() => renderRepeatLoopTags(binding({ limit: 3 }))).toThrow(RepeatBindingError);
+    expect(() => renderRepeatLoopTags(binding({ source: 'items}}{{secret' }))).toThrow(
+      'Invalid repeat binding path'
+    );
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Repeat Bindings
+ *
+ * Repetition of components for the items of data arrays, either expanded
+ * with data or written as `{{#each}}` loops
+ */
+
+import type { BaseComponent, RepeatBinding, Template } from '../types';
+import { RepeatBindingError } from '../errors';
+import { createText } from '../components/factories';
+import { escapeHTML } from '../renderer/utils';
+import { findComponent, flattenComponents } from './component-tree';
+import { compareDataValues, evaluateDisplayRule, getDataValue, isDataPath } from './display-rules';
+
+/**
+ * Tags of the `{{#each}}` loop around a repeated component
+ */
+export interface RepeatLoopTags {
+  open: string;
+  /**
+   * Separates the items from the empty state
+   */
+  else: string;
+  close: string;
+}
+
+/**
+ * Data of an item, as seen by filters and field bindings; values that are
+ * not objects are available as `this`
+ */
+function toItemData(item: unknown): Record<string, unknown> {
+  return typeof item === 'object' && item !== null ? (item as Record<string, unknown>) : { this: item };
+}
+
+function setProperty(target: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  const last = keys.pop()!;
+  const parent = keys.reduce<Record<string, unknown>>((object, key) => {
+    if (typeof object[key] !== 'object' || object[key] === null) {
+      object[key] = {};
+    }
+    return object[key] as Record<string, unknown>;
+  }, target);
+  parent[last] = value;
+}
+
+/**
+ * Copies a repeated component, without its binding, and sets its bound
+ * properties
+ */
+function bindFields(component: BaseComponent, getValue: (field: string, property: string) => unknown): BaseComponent {
+  const copy = JSON.parse(JSON.stringify(component)) as BaseComponent;
+  const { repeat } = copy;
+  delete copy.repeat;
+
+  repeat?.fields.forEach(({ componentId, property, field }) => {
+    const target =
+      componentId && componentId !== copy.id ? findComponent(copy.children ?? [], componentId) : copy;
+    if (target) {
+      setProperty(target as unknown as Record<string, unknown>, property, getValue(field, property));
+    }
+  });
+
+  return copy;
+}
+
+/**
+ * Gets the items a component is repeated for: the source array, filtered,
+ * sorted and limited
+ *
+ * @param binding - Repeat binding
+ * @param data - Data, e.g. the sample data of the active data source
+ * @returns Items; none when the source is not an array
+ */
+export function getRepeatItems(binding: RepeatBinding, data: Record<string, unknown>): unknown[] {
+  const source = getDataValue(data, binding.source);
+  if (!Array.isArray(source)) {
+    return [];
+  }
+
+  const items = source.filter((item) => evaluateDisplayRule(binding.filter, toItemData(item)));
+
+  if (binding.sort) {
+    const { field, direction } = binding.sort;
+    const sign = direction === 'desc' ? -1 : 1;
+    items.sort(
+      (a, b) => sign * compareDataValues(getDataValue(toItemData(a), field), getDataValue(toItemData(b), field))
+    );
+  }
+
+  return binding.limit !== undefined ? items.slice(0, Math.max(0, binding.limit)) : items;
+}
+
+/**
+ * Copies a repeated component for one item, setting its bound properties
+ *
+ * The copy keeps the component IDs; bound HTML properties (e.g.
+ * `content.html`) get the escaped field value.
+ *
+ * @param component - Repeated component
+ * @param item - Item of the source array
+ * @returns Copy of the component, without its repeat binding
+ */
+export function bindRepeatItem(component: BaseComponent, item: unknown): BaseComponent {
+  const data = toItemData(item);
+
+  return bindFields(component, (field, property) => {
+    const value = getDataValue(data, field) ?? '';
+    return property.endsWith('html') ? escapeHTML(String(value)) : value;
+  });
+}
+
+/**
+ * Creates the component shown instead of the items when there are none
+ *
+ * @returns Text component, or undefined when the binding has no empty text
+ */
+export function createRepeatEmptyState(component: BaseComponent): BaseComponent | undefined {
+  const text = component.repeat?.emptyText;
+  if (!text) {
+    return undefined;
+  }
+
+  return createText({
+    id: `${component.id}-empty`,
+    content: { type: 'paragraph', html: `<p>${escapeHTML(text)}</p>` },
+  });
+}
+
+/**
+ * Replaces repeated components with one copy per item of their data
+ *
+ * Copies get IDs scoped to their position (`<component id>-<n>`), children
+ * included; components without items are replaced by their empty state.
+ *
+ * @param template - Template to expand
+ * @param data - Data the source arrays are read from
+ * @returns Expanded copy of the template, or the template itself when it has
+ * no repeated components
+ */
+export function expandRepeats(template: Template, data: Record<string, unknown>): Template {
+  if (!flattenComponents(template.components).some((component) => component.repeat)) {
+    return template;
+  }
+
+  // Nested repeat bindings target components of the copy, so their field
+  // component IDs are scoped along with the IDs
+  const scope = (component: BaseComponent, suffix: string): BaseComponent => ({
+    ...component,
+    id: `${component.id}-${suffix}`,
+    ...(component.repeat && {
+      repeat: {
+        ...component.repeat,
+        fields: component.repeat.fields.map((binding) =>
+          binding.componentId ? { ...binding, componentId: `${binding.componentId}-${suffix}` } : binding
+        ),
+      },
+    }),
+    ...(component.children && { children: component.children.map((child) => scope(child, suffix)) }),
+  });
+
+  const expand = (components: BaseComponent[]): BaseComponent[] =>
+    components.flatMap((component) => {
+      if (!component.repeat) {
+        return [component.children ? { ...component, children: expand(component.children) } : component];
+      }
+
+      const items = getRepeatItems(component.repeat, data);
+      if (items.length === 0) {
+        const empty = createRepeatEmptyState(component);
+        return empty ? [empty] : [];
+      }
+
+      return items.map((item, index) => {
+        const copy = scope(bindRepeatItem(component, item), String(index + 1));
+        return copy.children ? { ...copy, children: expand(copy.children) } : copy;
+      });
+    });
+
+  const { componentTree: _componentTree, ...rest } = template;
+  return { ...rest, components: expand(template.components) };
+}
+
+/**
+ * Copies a repeated component for a `{{#each}}` loop, with `{{field}}`
+ * placeholders in its bound properties
+ *
+ * @param component - Repeated component
+ * @returns Copy of the component, without its repeat binding
+ */
+export function bindRepeatPlaceholders(component: BaseComponent): BaseComponent {
+  return bindFields(component, (field) => `{{${field}}}`);
+}
+
+/**
+ * Writes the `{{#each}}` loop of a repeat binding
+ *
+ * Loops iterate the whole source array: filters, sorting and limits cannot be
+ * written in the loop syntax, so the data must be prepared when sending.
+ *
+ * @param binding - Repeat binding
+ * @returns Loop tags
+ * @throws {RepeatBindingError} If the binding filters, sorts or limits the
+ * items, or a path is not in dot notation
+ */
+export function renderRepeatLoopTags(binding: RepeatBinding): RepeatLoopTags {
+  const paths = [binding.source, ...binding.fields.map(({ field }) => field)];
+  const invalid = paths.find((path) => !isDataPath(path));
+  if (invalid !== undefined) {
+    throw new RepeatBindingError(`Invalid repeat binding path: "${invalid}"`, { source: binding.source });
+  }
+
+  if (binding.filter?.conditions.length || binding.sort || binding.limit !== undefined) {
+    throw new RepeatBindingError(
+      `Repeated items of "${binding.source}" are filtered, sorted or limited, which {{#each}} loops cannot express; expand them with data instead`,
+      { source: binding.source }
+    );
+  }
+
+  return { open: `{{#each ${binding.source}}}`, else: '{{else}}', close: '{{/each}}' };
+}
@@ -0,0 +1,339 @@
+// @vitest-environment node
+/**
+ * SMTP Test Sender Tests
+ *
+ * Runs the sender against an in-process SMTP server
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type AddressInfo, type Server, type Socket } from 'node:net';
+import { SMTPTestSender } from './SMTPTestSender';
+import type { SMTPConnector, SMTPSocket, TestEmail } from './test-sender.types';
+import { TestSendError } from '../errors';
+
+interface ReceivedMessage {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+const decode = (value: string): string => Buffer.from(value, 'base64').toString('utf8');
+
+/**
+ * Minimal SMTP relay with optional authentication and scriptable rejections
+ */
+function createMockServer() {
+  const commands: string[] = [];
+  const messages: ReceivedMessage[] = [];
+  const settings = {
+    auth: undefined as { user: string; pass: string } | undefined,
+    rejected: [] as string[],
+  };
+
+  const handler = (socket: Socket) => {
+    let buffer = '';
+    let mode: 'command' | 'data' | 'login-user' | 'login-pass' = 'command';
+    let authenticated = false;
+    let loginUser = '';
+    let envelope: ReceivedMessage = { from: '', to: [], data: '' };
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    const handle = (line: string) => {
+      if (mode === 'data') {
+        if (line === '.') {
+          messages.push(envelope);
+          mode = 'command';
+          reply('250 OK queued');
+        } else {
+          envelope.data += `${line.startsWith('.') ? line.slice(1) : line}\r\n`;
+        }
+        return;
+      }
+      if (mode === 'login-user') {
+        loginUser = decode(line);
+        mode = 'login-pass';
+        reply('334 UGFzc3dvcmQ6');
+        return;
+      }
+
+      commands.push(line);
+      const [verb = ''] = line.split(/[ :]/);
+
+      if (mode === 'login-pass') {
+        mode = 'command';
+        authenticated = loginUser === settings.auth?.user && decode(line) === settings.auth?.pass;
+        reply(authenticated ? '235 Authenticated' : '535 Invalid credentials');
+        return;
+      }
+
+      switch (verb.toUpperCase()) {
+        case 'EHLO':
+          reply('250-mock.local');
+          reply('250-AUTH PLAIN LOGIN');
+          reply('250 8BITMIME');
+          break;
+        case 'AUTH': {
+          const [, mechanism, credentials = ''] = line.split(' ');
+          if (mechanism === 'LOGIN') {
+            mode = 'login-user';
+            reply('334 VXNlcm5hbWU6');
+          } else {
+            const [, user, pass] = decode(credentials).split('\0');
+            authenticated = user === settings.auth?.user && pass === settings.auth?.pass;
+            reply(authenticated ? '235 Authenticated' : '535 Invalid credentials');
+          }
+          break;
+        }
+        case 'MAIL':
+          if (settings.auth && !authenticated) {
+            reply('530 Authentication required');
+          } else {
+            envelope = { from: line.slice(10).replace(/[<>]/g, ''), to: [], data: '' };
+            reply('250 OK');
+          }
+          break;
+        case 'RCPT': {
+          const recipient = line.slice(8).replace(/[<>]/g, '');
+          if (settings.rejected.includes(recipient)) {
+            reply('550 No such user');
+          } else {
+            envelope.to.push(recipient);
+            reply('250 OK');
+          }
+          break;
+        }
+        case 'DATA':
+          mode = 'data';
+          reply('354 End data with <CR><LF>.<CR><LF>');
+          break;
+        case 'RSET':
+          reply('250 OK');
+          break;
+        case 'QUIT':
+          reply('221 Bye');
+          socket.end();
+          break;
+        default:
+          reply('502 Command not implemented');
+      }
+    };
+
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      let end = buffer.indexOf('\r\n');
+      while (end !== -1) {
+        handle(buffer.slice(0, end));
+        buffer = buffer.slice(end + 2);
+        end = buffer.indexOf('\r\n');
+      }
+    });
+    socket.on('error', () => undefined);
+    reply('220 mock.local ESMTP');
+  };
+
+  return { handler, commands, messages, settings };
+}
+
+/**
+ * Connector replaying scripted replies, for protocol paths the mock server
+ * does not cover
+ */
+function createScriptedConnector(replies: Record<string, string[]>, greeting = ['220 scripted']) {
+  const written: string[] = [];
+  let upgrades = 0;
+
+  const createSocket = (): SMTPSocket => {
+    let listener: ((data: string) => void) | undefined;
+    return {
+      write: (data) => {
+        written.push(data.trim());
+        const verb = data.split(/[ \r]/)[0]!.toUpperCase();
+        const lines = replies[`${verb}#${upgrades}`] ?? replies[verb];
+        if (lines) {
+          setTimeout(() => listener?.(lines.map((line) => `${line}\r\n`).join('')), 0);
+        }
+      },
+      onData: (next) => {
+        listener = next;
+      },
+      onClose: () => undefined,
+      startTLS: async () => {
+        upgrades += 1;
+        return createSocket();
+      },
+      close: () => undefined,
+    };
+  };
+
+  const connector: SMTPConnector = async () => {
+    const socket = createSocket();
+    const connected = socket.onData.bind(socket);
+    socket.onData = (next) => {
+      connected(next);
+      setTimeout(() => next(greeting.map((line) => `${line}\r\n`).join('')), 0);
+    };
+    return socket;
+  };
+
+  return { connector, written, getUpgrades: () => upgrades };
+}
+
+const email: TestEmail = {
+  from: 'Builder <builder@example.com>',
+  recipients: ['qa@example.com', 'design@example.com'],
+  subject: 'October newsletter',
+  html: '<p>Hello</p>\n.<p>Dotted line</p>',
+  text: 'Hello',
+};
+
+describe('SMTPTestSender', () => {
+  let server: Server;
+  let port: number;
+  let mock: ReturnType<typeof createMockServer>;
+
+  beforeAll(async () => {
+    mock = createMockServer();
+    server = createServer(mock.handler);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    mock.commands.length = 0;
+    mock.messages.length = 0;
+    mock.settings.auth = undefined;
+    mock.settings.rejected = [];
+  });
+
+  const createSender = (config: Partial<ConstructorParameters<typeof SMTPTestSender>[0]> = {}) =>
+    new SMTPTestSender({ host: '127.0.0.1', port, startTLS: false, timeout: 2000, ...config });
+
+  it('should send the message to a local relay', async () => {
+    const sender = createSender();
+
+    const record = await sender.send(email);
+
+    expect(record.status).toBe('sent');
+    expect(mock.messages).toHaveLength(1);
+    const [message] = mock.messages;
+    expect(message!.from).toBe('builder@example.com');
+    expect(message!.to).toEqual(['qa@example.com', 'design@example.com']);
+    expect(message!.data).toContain('Subject: October newsletter\r\n');
+    expect(message!.data).toContain('Content-Type: text/plain; charset=UTF-8');
+    expect(message!.data).toContain('\r\n.<p>Dotted line</p>');
+    expect(mock.commands).toEqual([
+      'EHLO localhost',
+      'MAIL FROM:<builder@example.com>',
+      'RCPT TO:<qa@example.com>',
+      'RCPT TO:<design@example.com>',
+      'DATA',
+      'QUIT',
+    ]);
+  });
+
+  it('should send to the accepted recipients only', async () => {
+    mock.settings.rejected = ['design@example.com'];
+    const sender = createSender();
+
+    const record = await sender.send(email);
+
+    expect(record).toMatchObject({ status: 'partial', accepted: ['qa@example.com'], rejected: ['design@example.com'] });
+    expect(mock.messages[0]!.to).toEqual(['qa@example.com']);
+  });
+
+  it('should not send the message when every recipient is rejected', async () => {
+    mock.settings.rejected = ['qa@example.com', 'design@example.com'];
+    const sender = createSender();
+
+    await expect(sender.send(email)).rejects.toThrow('All recipients were rejected');
+    expect(mock.messages).toHaveLength(0);
+    expect(mock.commands).toContain('RSET');
+  });
+
+  it('should authenticate with AUTH PLAIN', async () => {
+    mock.settings.auth = { user: 'builder', pass: 'secret' };
+    const sender = createSender({ auth: { user: 'builder', pass: 'secret' } });
+
+    await sender.send(email);
+
+    expect(mock.commands[1]).toMatch(/^AUTH PLAIN /);
+    expect(mock.messages).toHaveLength(1);
+  });
+
+  it('should authenticate with AUTH LOGIN', async () => {
+    mock.settings.auth = { user: 'builder', pass: 'secret' };
+    const sender = createSender({ auth: { user: 'builder', pass: 'secret', method: 'LOGIN' } });
+
+    await sender.send(email);
+
+    expect(mock.commands[1]).toBe('AUTH LOGIN');
+    expect(mock.messages).toHaveLength(1);
+  });
+
+  it('should record authentication failures without exposing the credentials', async () => {
+    mock.settings.auth = { user: 'builder', pass: 'secret' };
+    const sender = createSender({ auth: { user: 'builder', pass: 'wrong', method: 'LOGIN' } });
+
+    const error = await sender.send(email).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(TestSendError);
+    expect((error as TestSendError).message).toBe('SMTP AUTH failed: 535 Invalid credentials');
+    expect(sender.getHistory()[0]).toMatchObject({ status: 'failed', error: 'SMTP AUTH failed: 535 Invalid credentials' });
+  });
+
+  it('should verify the connection', async () => {
+    const sender = createSender();
+
+    await expect(sender.verify()).resolves.toBeUndefined();
+    expect(mock.commands).toEqual(['EHLO localhost', 'QUIT']);
+  });
+
+  it('should fail when the server cannot be reached', async () => {
+    const closed = createServer();
+    await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+    const closedPort = (closed.address() as AddressInfo).port;
+    await new Promise<void>((resolve) => closed.close(() => resolve()));
+
+    const sender = createSender({ port: closedPort });
+
+    await expect(sender.send(email)).rejects.toThrow(`Failed to connect to SMTP server 127.0.0.1:${closedPort}`);
+  });
+
+  describe('with a scripted server', () => {
+    const replies = {
+      EHLO: ['250-scripted', '250-STARTTLS', '250 AUTH LOGIN'],
+      'EHLO#1': ['250-scripted', '250 AUTH LOGIN'],
+      STARTTLS: ['220 Ready to start TLS'],
+      QUIT: ['221 Bye'],
+    };
+
+    it('should upgrade the connection with STARTTLS', async () => {
+      const { connector, written, getUpgrades } = createScriptedConnector(replies);
+      const sender = new SMTPTestSender({ host: 'smtp.example.com' }, { connector });
+
+      await sender.verify();
+
+      expect(getUpgrades()).toBe(1);
+      expect(written).toEqual(['EHLO localhost', 'STARTTLS', 'EHLO localhost', 'QUIT']);
+    });
+
+    it('should fail when STARTTLS is required but not offered', async () => {
+      const { connector } = createScriptedConnector({ ...replies, EHLO: ['250 scripted'] });
+      const sender = new SMTPTestSender({ host: 'smtp.example.com', startTLS: 'required' }, { connector });
+
+      await expect(sender.verify()).rejects.toThrow('SMTP server does not support STARTTLS');
+    });
+
+    it('should time out when the server does not reply', async () => {
+      const { connector } = createScriptedConnector({}, []);
+      const sender = new SMTPTestSender({ host: 'smtp.example.com', timeout: 20 }, { connector });
+
+      await expect(sender.verify()).rejects.toThrow('SMTP server did not reply within 20ms');
+    });
+  });
+});
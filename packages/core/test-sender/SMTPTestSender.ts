@@ -0,0 +1,334 @@
+/**
+ * SMTP Test Sender
+ *
+ * Sends test emails through an SMTP server or a local relay (MailHog,
+ * Mailpit, smtp4dev...)
+ */
+
+import { TestSender, getMailbox } from './TestSender';
+import type {
+  SMTPConfig,
+  SMTPConnector,
+  SMTPSocket,
+  TestDelivery,
+  TestEmail,
+  TestSenderOptions,
+} from './test-sender.types';
+import { createNodeSMTPConnector } from './node-smtp-connector';
+import { TestSendError } from '../errors';
+
+const CRLF = '\r\n';
+const DEFAULT_TIMEOUT = 30000;
+
+/**
+ * SMTP sender options
+ */
+export interface SMTPTestSenderOptions extends TestSenderOptions {
+  /**
+   * Opens the connections (defaults to the Node.js connector)
+   */
+  connector?: SMTPConnector;
+}
+
+/**
+ * Server reply
+ */
+interface SMTPReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Encodes text as base64 (UTF-8)
+ */
+function toBase64(text: string): string {
+  return btoa(String.fromCharCode(...new TextEncoder().encode(text)));
+}
+
+/**
+ * SMTP conversation with a server
+ */
+class SMTPSession {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SMTPReply[] = [];
+  private waiting: { resolve: (reply: SMTPReply) => void; reject: (error: Error) => void } | undefined;
+  private closedError: Error | undefined;
+
+  constructor(
+    private socket: SMTPSocket,
+    private timeout: number
+  ) {
+    this.listen(socket);
+  }
+
+  /**
+   * Read the next reply
+   */
+  public read(): Promise<SMTPReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.closedError) {
+      return Promise.reject(this.closedError);
+    }
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiting = undefined;
+        reject(new TestSendError(`SMTP server did not reply within ${this.timeout}ms`));
+      }, this.timeout);
+
+      this.waiting = {
+        resolve: (next) => {
+          clearTimeout(timer);
+          resolve(next);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      };
+    });
+  }
+
+  /**
+   * Send a command and read its reply
+   *
+   * @param command - Command line, without line ending
+   * @param expected - Accepted reply codes; other codes throw
+   * @param name - Command name for errors (defaults to the first word)
+   */
+  public async command(
+    command: string,
+    expected: number[] = [],
+    name = command.split(' ')[0]!.toUpperCase()
+  ): Promise<SMTPReply> {
+    this.socket.write(command + CRLF);
+    const reply = await this.read();
+
+    if (expected.length > 0 && !expected.includes(reply.code)) {
+      throw new TestSendError(`SMTP ${name} failed: ${reply.code} ${reply.lines.join(' ')}`, {
+        command: name,
+        code: reply.code,
+      });
+    }
+    return reply;
+  }
+
+  /**
+   * Upgrade the connection to TLS
+   */
+  public async startTLS(): Promise<void> {
+    this.socket = await this.socket.startTLS();
+    this.buffer = '';
+    this.listen(this.socket);
+  }
+
+  public close(): void {
+    this.socket.close();
+  }
+
+  private listen(socket: SMTPSocket): void {
+    socket.onData((data) => this.receive(data));
+    socket.onClose((error) => {
+      this.closedError = new TestSendError(
+        error ? `SMTP connection failed: ${error.message}` : 'SMTP connection closed by the server',
+        undefined,
+        error && { cause: error }
+      );
+      this.waiting?.reject(this.closedError);
+      this.waiting = undefined;
+    });
+  }
+
+  private receive(data: string): void {
+    this.buffer += data;
+
+    let end = this.buffer.indexOf('\n');
+    while (end !== -1) {
+      const line = this.buffer.slice(0, end).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(end + 1);
+      this.lines.push(line.slice(4));
+
+      // "250-..." continues a reply, "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        const reply = { code: Number(line.slice(0, 3)), lines: this.lines };
+        this.lines = [];
+
+        if (this.waiting) {
+          this.waiting.resolve(reply);
+          this.waiting = undefined;
+        } else {
+          this.replies.push(reply);
+        }
+      }
+      end = this.buffer.indexOf('\n');
+    }
+  }
+}
+
+/**
+ * SMTP test sender
+ *
+ * Sends each test email over a new connection: EHLO, STARTTLS when
+ * available, AUTH PLAIN or LOGIN when credentials are set, then the
+ * envelope and message. Recipients rejected by the server are recorded; the
+ * message is sent to the others.
+ *
+ * Runs in Node.js by default. In other environments, pass a `connector`
+ * opening the connections.
+ *
+ * @example
+ * ```ts
+ * // MailHog, listening on localhost:1025
+ * const sender = new SMTPTestSender({ host: 'localhost', port: 1025, startTLS: false });
+ *
+ * await sender.send({
+ *   from: 'Builder <builder@example.com>',
+ *   recipients: ['qa@example.com', 'design@example.com'],
+ *   subject: 'October newsletter',
+ *   html,
+ *   text,
+ * });
+ * ```
+ */
+export class SMTPTestSender extends TestSender {
+  private config: SMTPConfig;
+  private connector: SMTPConnector;
+
+  constructor(config: SMTPConfig, options: SMTPTestSenderOptions = {}) {
+    super(options);
+    this.config = config;
+    this.connector = options.connector ?? createNodeSMTPConnector();
+  }
+
+  /**
+   * Check that the server accepts the connection and credentials
+   *
+   * @throws {TestSendError} If the connection or authentication fails
+   */
+  public async verify(): Promise<void> {
+    const session = await this.open();
+    try {
+      await session.command('QUIT');
+    } finally {
+      session.close();
+    }
+  }
+
+  /**
+   * Deliver a message over SMTP
+   */
+  protected async deliver(email: TestEmail, message: string): Promise<TestDelivery> {
+    const session = await this.open();
+
+    try {
+      await session.command(`MAIL FROM:<${getMailbox(email.from)}>`, [250]);
+
+      const accepted: string[] = [];
+      const rejected: string[] = [];
+      for (const recipient of email.recipients) {
+        const reply = await session.command(`RCPT TO:<${getMailbox(recipient)}>`);
+        (reply.code === 250 || reply.code === 251 ? accepted : rejected).push(recipient);
+      }
+
+      if (accepted.length === 0) {
+        await session.command('RSET');
+        await session.command('QUIT');
+        return { accepted, rejected };
+      }
+
+      await session.command('DATA', [354]);
+      // Lines starting with a dot are escaped with another dot
+      const data = message.replace(/(^|\r\n)\./g, '$1..');
+      const reply = await session.command(`${data.endsWith(CRLF) ? data : data + CRLF}.`, [250], 'DATA');
+      await session.command('QUIT');
+
+      return { accepted, rejected, response: `${reply.code} ${reply.lines.join(' ')}` };
+    } finally {
+      session.close();
+    }
+  }
+
+  /**
+   * Connect, greet and authenticate
+   */
+  private async open(): Promise<SMTPSession> {
+    const { host, secure = false, startTLS = true, auth } = this.config;
+    const port = this.config.port ?? (secure ? 465 : 587);
+
+    let socket: SMTPSocket;
+    try {
+      socket = await this.connector({ host, port, secure });
+    } catch (error) {
+      throw new TestSendError(
+        `Failed to connect to SMTP server ${host}:${port}: ${error instanceof Error ? error.message : String(error)}`,
+        { host, port },
+        { cause: error }
+      );
+    }
+
+    const session = new SMTPSession(socket, this.config.timeout ?? DEFAULT_TIMEOUT);
+    try {
+      const greeting = await session.read();
+      if (greeting.code !== 220) {
+        throw new TestSendError(`SMTP server refused the connection: ${greeting.code} ${greeting.lines.join(' ')}`, {
+          host,
+          port,
+        });
+      }
+
+      let capabilities = await this.hello(session);
+      if (!secure && startTLS !== false) {
+        if (capabilities.has('STARTTLS')) {
+          await session.command('STARTTLS', [220]);
+          await session.startTLS();
+          capabilities = await this.hello(session);
+        } else if (startTLS === 'required') {
+          throw new TestSendError('SMTP server does not support STARTTLS', { host, port });
+        }
+      }
+
+      if (auth) {
+        const mechanisms = capabilities.get('AUTH') ?? [];
+        const method = auth.method ?? (mechanisms.includes('LOGIN') && !mechanisms.includes('PLAIN') ? 'LOGIN' : 'PLAIN');
+
+        if (method === 'PLAIN') {
+          await session.command(`AUTH PLAIN ${toBase64(`\0${auth.user}\0${auth.pass}`)}`, [235]);
+        } else {
+          await session.command('AUTH LOGIN', [334]);
+          await session.command(toBase64(auth.user), [334], 'AUTH');
+          await session.command(toBase64(auth.pass), [235], 'AUTH');
+        }
+      }
+    } catch (error) {
+      session.close();
+      throw error;
+    }
+
+    return session;
+  }
+
+  /**
+   * Send EHLO and read the server capabilities
+   */
+  private async hello(session: SMTPSession): Promise<Map<string, string[]>> {
+    const clientName = this.config.clientName ?? 'localhost';
+    const reply = await session.command(`EHLO ${clientName}`);
+
+    if (reply.code !== 250) {
+      // Servers without ESMTP
+      await session.command(`HELO ${clientName}`, [250]);
+      return new Map();
+    }
+
+    return new Map(
+      reply.lines.slice(1).map((line) => {
+        const [keyword = '', ...params] = line.trim().toUpperCase().split(/\s+/);
+        return [keyword, params];
+      })
+    );
+  }
+}
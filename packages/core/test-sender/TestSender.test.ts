@@ -0,0 +1,216 @@
+/**
+ * Test Sender Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TestSender } from './TestSender';
+import type { TestDelivery, TestEmail, TestSenderOptions } from './test-sender.types';
+import type { Template } from '../types/template.types';
+import type { GlobalBlock } from '../types/global-block.types';
+import { createGlobalBlockReference } from '../components/factories';
+import { TestSendError } from '../errors';
+
+/**
+ * Sender recording the messages instead of delivering them
+ */
+class FakeSender extends TestSender {
+  public messages: Array<{ email: TestEmail; message: string }> = [];
+  public rejected: string[] = [];
+  public failure: Error | undefined;
+
+  constructor(options?: TestSenderOptions) {
+    super(options);
+  }
+
+  protected async deliver(email: TestEmail, message: string): Promise<TestDelivery> {
+    if (this.failure) {
+      throw this.failure;
+    }
+    this.messages.push({ email, message });
+    return {
+      accepted: email.recipients.filter((recipient) => !this.rejected.includes(recipient)),
+      rejected: email.recipients.filter((recipient) => this.rejected.includes(recipient)),
+    };
+  }
+}
+
+// Joins quoted-printable soft line breaks
+const unfold = (message = ''): string => message.replace(/=\r\n/g, '');
+
+const createTemplate = (): Template => ({
+  metadata: {
+    id: 'template-1',
+    name: 'Welcome',
+    subject: 'Hi {{firstName}}',
+    preheader: 'Your {{plan}} plan is ready',
+    from: 'Acme <news@acme.com>',
+    version: '1.0.0',
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  },
+  settings: {
+    target: 'email',
+    width: 600,
+  },
+  components: [
+    {
+      id: 'greeting',
+      type: 'text',
+      content: { type: 'paragraph', html: 'Hello {{firstName}}, your code is {{code}}' },
+      styles: {},
+    },
+  ],
+} as unknown as Template);
+
+const email: TestEmail = {
+  from: 'builder@example.com',
+  recipients: ['qa@example.com'],
+  subject: 'Test',
+  html: '<p>Test</p>',
+};
+
+describe('TestSender', () => {
+  let sender: FakeSender;
+
+  beforeEach(() => {
+    sender = new FakeSender();
+  });
+
+  describe('send', () => {
+    it('should deliver a MIME message and record the send', async () => {
+      const record = await sender.send({
+        ...email,
+        from: 'Builder <builder@example.com>',
+        recipients: ['QA <qa@example.com>', 'design@example.com'],
+        text: 'Test',
+        replyTo: 'support@example.com',
+      });
+
+      const { message } = sender.messages[0]!;
+      expect(message).toContain('From: Builder <builder@example.com>\r\n');
+      expect(message).toContain('To: qa@example.com, design@example.com\r\n');
+      expect(message).toContain('Reply-To: support@example.com\r\n');
+      expect(message).toContain(`Message-ID: <${record.messageId}>\r\n`);
+      expect(message).toContain('Content-Type: text/plain; charset=UTF-8');
+      expect(record.messageId).toMatch(/@example\.com$/);
+      expect(record).toMatchObject({
+        status: 'sent',
+        subject: 'Test',
+        accepted: ['QA <qa@example.com>', 'design@example.com'],
+        rejected: [],
+      });
+      expect(sender.getHistory()).toEqual([record]);
+    });
+
+    it('should record partially rejected sends', async () => {
+      sender.rejected = ['spam@example.com'];
+
+      const record = await sender.send({ ...email, recipients: ['qa@example.com', 'spam@example.com'] });
+
+      expect(record.status).toBe('partial');
+      expect(record.rejected).toEqual(['spam@example.com']);
+    });
+
+    it('should fail when every recipient is rejected', async () => {
+      sender.rejected = ['qa@example.com'];
+
+      await expect(sender.send(email)).rejects.toThrow('All recipients were rejected');
+      expect(sender.getHistory()[0]).toMatchObject({
+        status: 'failed',
+        rejected: ['qa@example.com'],
+        error: 'All recipients were rejected',
+      });
+    });
+
+    it('should record and wrap delivery failures', async () => {
+      sender.failure = new Error('Connection refused');
+
+      const error = await sender.send(email).catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(TestSendError);
+      expect((error as TestSendError).message).toBe('Failed to send test email: Connection refused');
+      expect(sender.getHistory()[0]).toMatchObject({ status: 'failed', error: 'Connection refused' });
+    });
+
+    it('should reject invalid addresses without recording them', async () => {
+      await expect(sender.send({ ...email, recipients: [] })).rejects.toThrow('at least one recipient');
+      await expect(sender.send({ ...email, recipients: ['qa@example.com', 'not-an-email'] })).rejects.toThrow(
+        'Invalid recipient address: not-an-email'
+      );
+      await expect(sender.send({ ...email, from: '{{from}}' })).rejects.toThrow(TestSendError);
+      expect(sender.getHistory()).toEqual([]);
+    });
+  });
+
+  describe('sendTemplate', () => {
+    it('should fill the variables with the data', async () => {
+      const record = await sender.sendTemplate(createTemplate(), {
+        recipients: ['qa@example.com'],
+        data: { firstName: 'Ada & Co', plan: 'Pro' },
+      });
+
+      const { email: sent, message } = sender.messages[0]!;
+      expect(sent.subject).toBe('Hi Ada & Co');
+      expect(sent.preheader).toBe('Your Pro plan is ready');
+      expect(sent.html).toContain('Hello Ada &amp; Co, your code is ');
+      expect(sent.text).toBe('Hello Ada & Co, your code is ');
+      expect(sent.from).toBe('Acme <news@acme.com>');
+      expect(unfold(message)).toContain('Your Pro plan is ready');
+      expect(record).toMatchObject({ templateId: 'template-1', missingVariables: ['code'] });
+    });
+
+    it('should prefer the sender and subject options', async () => {
+      await sender.sendTemplate(createTemplate(), {
+        recipients: ['qa@example.com'],
+        from: 'qa-bot@example.com',
+        subject: 'Proof for {{firstName}}',
+        data: { firstName: 'Ada' },
+      });
+
+      expect(sender.messages[0]!.email).toMatchObject({ from: 'qa-bot@example.com', subject: 'Proof for Ada' });
+    });
+
+    it('should resolve global blocks', async () => {
+      const block: GlobalBlock = {
+        id: 'footer',
+        name: 'Footer',
+        components: [{ id: 'legal', type: 'text', content: { type: 'paragraph', html: 'Legal notice' }, styles: {} }],
+        createdAt: 0,
+        updatedAt: 0,
+      } as unknown as GlobalBlock;
+      const template = createTemplate();
+      template.components.push(createGlobalBlockReference('footer'));
+
+      await sender.sendTemplate(template, {
+        recipients: ['qa@example.com'],
+        resolveGlobalBlock: (blockId) => (blockId === 'footer' ? block : undefined),
+      });
+
+      expect(sender.messages[0]!.email.html).toContain('Legal notice');
+    });
+
+    it('should require a sender address', async () => {
+      const template = createTemplate();
+      delete template.metadata.from;
+
+      await expect(sender.sendTemplate(template, { recipients: ['qa@example.com'] })).rejects.toThrow(
+        'Test email needs a sender address'
+      );
+    });
+  });
+
+  describe('history', () => {
+    it('should keep the most recent sends first, up to the limit', async () => {
+      sender = new FakeSender({ historyLimit: 2 });
+
+      await sender.send({ ...email, subject: 'First' });
+      await sender.send({ ...email, subject: 'Second' });
+      await sender.send({ ...email, subject: 'Third' });
+
+      expect(sender.getHistory().map((record) => record.subject)).toEqual(['Third', 'Second']);
+
+      sender.clearHistory();
+      expect(sender.getHistory()).toEqual([]);
+    });
+  });
+});
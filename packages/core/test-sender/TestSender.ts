@@ -0,0 +1,231 @@
+/**
+ * Test Sender
+ *
+ * Abstract base class for sending test emails to seed addresses
+ */
+
+import type { Template } from '../types/template.types';
+import type {
+  TestDelivery,
+  TestEmail,
+  TestSendRecord,
+  TestSenderOptions,
+  TestTemplateSendOptions,
+} from './test-sender.types';
+import { TemplateExporter } from '../template/TemplateExporter';
+import { DataProcessingService } from '../data-injection/DataProcessingService';
+import { createMimeMessage } from '../renderer/mime';
+import { TestSendError } from '../errors';
+
+const DEFAULT_HISTORY_LIMIT = 50;
+
+/**
+ * Gets the mailbox of an address, e.g. `news@example.com` for
+ * `Newsletter <news@example.com>`
+ */
+export function getMailbox(address: string): string {
+  const match = /<([^>]*)>\s*$/.exec(address);
+  return (match?.[1] ?? address).trim();
+}
+
+/**
+ * Whether an address has a valid mailbox
+ */
+function isValidAddress(address: string): boolean {
+  return /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/.test(getMailbox(address));
+}
+
+/**
+ * Abstract test sender
+ *
+ * Builds the MIME message of test emails and keeps a history of the sends;
+ * implementations deliver the message over their transport.
+ *
+ * @example
+ * ```ts
+ * const sender = new SMTPTestSender({ host: 'localhost', port: 1025, startTLS: false });
+ *
+ * await sender.sendTemplate(template, {
+ *   recipients: ['qa@example.com'],
+ *   data: dataSourceManager.getSampleData(),
+ * });
+ * console.log(sender.getHistory()[0].status); // 'sent'
+ * ```
+ */
+export abstract class TestSender {
+  protected exporter: TemplateExporter;
+  private history: TestSendRecord[] = [];
+  private historyLimit: number;
+
+  constructor(options: TestSenderOptions = {}) {
+    this.exporter = options.exporter ?? new TemplateExporter();
+    this.historyLimit = Math.max(1, options.historyLimit ?? DEFAULT_HISTORY_LIMIT);
+  }
+
+  /**
+   * Send a test email
+   *
+   * The send is recorded in the history, including when it fails.
+   *
+   * @param email - Test email
+   * @returns Send record
+   * @throws {TestSendError} If the email is invalid, the delivery fails or
+   * every recipient is rejected
+   */
+  public async send(email: TestEmail): Promise<TestSendRecord> {
+    this.validate(email);
+
+    const sentAt = new Date();
+    const domain = getMailbox(email.from).split('@')[1] ?? 'email-builder';
+    const messageId = `${sentAt.getTime().toString(36)}.${crypto.randomUUID()}@${domain}`;
+    const message = createMimeMessage(
+      {
+        html: email.html,
+        subject: email.subject,
+        ...(email.text !== undefined && { text: email.text }),
+      },
+      {
+        from: email.from,
+        to: email.recipients.map(getMailbox).join(', '),
+        date: sentAt,
+        messageId,
+        ...(email.replyTo && { replyTo: email.replyTo }),
+        ...(email.preheader && { preheader: email.preheader }),
+      }
+    );
+
+    const record: TestSendRecord = {
+      id: `send_${sentAt.getTime()}_${crypto.randomUUID().slice(0, 8)}`,
+      status: 'failed',
+      messageId,
+      subject: email.subject,
+      from: email.from,
+      recipients: [...email.recipients],
+      accepted: [],
+      rejected: [],
+      sentAt,
+      ...(email.templateId && { templateId: email.templateId }),
+      ...(email.missingVariables?.length && { missingVariables: [...email.missingVariables] }),
+    };
+
+    let delivery: TestDelivery;
+    try {
+      delivery = await this.deliver(email, message);
+    } catch (error) {
+      record.error = error instanceof Error ? error.message : String(error);
+      this.addToHistory(record);
+      throw error instanceof TestSendError
+        ? error
+        : new TestSendError(`Failed to send test email: ${record.error}`, { sendId: record.id }, { cause: error });
+    }
+
+    record.accepted = delivery.accepted;
+    record.rejected = delivery.rejected;
+    if (delivery.accepted.length === 0) {
+      record.error = 'All recipients were rejected';
+      this.addToHistory(record);
+      throw new TestSendError(record.error, { sendId: record.id, rejected: delivery.rejected });
+    }
+
+    record.status = delivery.rejected.length > 0 ? 'partial' : 'sent';
+    this.addToHistory(record);
+    return { ...record };
+  }
+
+  /**
+   * Send a template as a test email
+   *
+   * The template is exported to HTML and plain text, and its variables are
+   * filled with `data` by the {@link DataProcessingService} (values are
+   * HTML-escaped in the HTML part). Variables missing from the data are left
+   * empty and listed in the send record.
+   *
+   * @param template - Template to send
+   * @param options - Recipients, data and header overrides
+   * @returns Send record
+   * @throws {TestSendError} If there is no sender address, or the send fails
+   */
+  public async sendTemplate(template: Template, options: TestTemplateSendOptions): Promise<TestSendRecord> {
+    const { metadata } = template;
+    const from = options.from ?? metadata.from;
+    if (!from) {
+      throw new TestSendError('Test email needs a sender address: set `from` or the template sender', {
+        templateId: metadata.id,
+      });
+    }
+
+    this.exporter.setGlobalBlockResolver(options.resolveGlobalBlock);
+    this.exporter.setThemeResolver(options.resolveTheme);
+    const exported = this.exporter.export(template, {
+      inlineStyles: true,
+      minify: false,
+      includeComments: false,
+      ...options.exportOptions,
+      format: 'html',
+    });
+
+    const processing = options.dataProcessing ?? new DataProcessingService();
+    const data = options.data ?? {};
+    const missingVariables = new Set<string>();
+    const fill = (content: string, escapeHtml = false): string => {
+      const result = processing.process(content, data, { escapeHtml });
+      result.missingVariables.forEach((variable) => missingVariables.add(variable));
+      return result.output;
+    };
+
+    const preheader = metadata.preheader && fill(metadata.preheader);
+    return this.send({
+      from,
+      recipients: options.recipients,
+      subject: fill(options.subject ?? metadata.subject ?? metadata.name),
+      html: fill(exported.html ?? '', true),
+      ...(exported.text !== undefined && { text: fill(exported.text) }),
+      ...(preheader && { preheader }),
+      ...(metadata.replyTo && { replyTo: metadata.replyTo }),
+      templateId: metadata.id,
+      missingVariables: Array.from(missingVariables),
+    });
+  }
+
+  /**
+   * Get the send history, most recent first
+   */
+  public getHistory(): TestSendRecord[] {
+    return this.history.map((record) => ({ ...record }));
+  }
+
+  /**
+   * Clear the send history
+   */
+  public clearHistory(): void {
+    this.history = [];
+  }
+
+  /**
+   * Deliver a message to the recipients
+   *
+   * @param email - Test email
+   * @param message - MIME message of the email, with CRLF line endings
+   * @returns Recipients accepted and rejected by the server
+   */
+  protected abstract deliver(email: TestEmail, message: string): Promise<TestDelivery>;
+
+  private validate(email: TestEmail): void {
+    if (!isValidAddress(email.from)) {
+      throw new TestSendError(`Invalid sender address: ${email.from}`);
+    }
+    if (email.recipients.length === 0) {
+      throw new TestSendError('Test email needs at least one recipient');
+    }
+
+    const invalid = email.recipients.filter((recipient) => !isValidAddress(recipient));
+    if (invalid.length > 0) {
+      throw new TestSendError(`Invalid recipient address: ${invalid.join(', ')}`, { invalid });
+    }
+  }
+
+  private addToHistory(record: TestSendRecord): void {
+    this.history.unshift(record);
+    this.history.length = Math.min(this.history.length, this.historyLimit);
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Test Sender
+ *
+ * Sends test emails of templates to seed addresses, through SMTP servers or
+ * local relays, and keeps a history of the sends.
+ *
+ * @packageDocumentation
+ */
+
+// Export types
+export type {
+  TestEmail,
+  TestDelivery,
+  TestSendStatus,
+  TestSendRecord,
+  TestTemplateSendOptions,
+  TestSenderOptions,
+  SMTPConfig,
+  SMTPSocket,
+  SMTPConnector,
+} from './test-sender.types';
+
+// Export base sender
+export { TestSender } from './TestSender';
+
+// Export implementations
+export { SMTPTestSender } from './SMTPTestSender';
+export type { SMTPTestSenderOptions } from './SMTPTestSender';
+export { createNodeSMTPConnector } from './node-smtp-connector';
@@ -0,0 +1,100 @@
+/**
+ * Node SMTP Connector
+ *
+ * Opens SMTP connections with the Node.js `net` and `tls` modules
+ */
+
+import type { SMTPConnector, SMTPSocket } from './test-sender.types';
+
+/**
+ * Subset of the Node.js socket API used by the connector
+ */
+interface NodeSocket {
+  setEncoding(encoding: 'utf8'): void;
+  write(data: string): boolean;
+  on(event: 'data', listener: (data: string) => void): void;
+  on(event: 'error', listener: (error: Error) => void): void;
+  on(event: 'close', listener: () => void): void;
+  once(event: 'connect' | 'secureConnect', listener: () => void): void;
+  once(event: 'error', listener: (error: Error) => void): void;
+  removeAllListeners(event?: string): void;
+  end(): void;
+  destroy(): void;
+}
+
+interface NodeNetModule {
+  connect(options: { host: string; port: number }): NodeSocket;
+}
+
+interface NodeTLSModule {
+  connect(options: { host?: string; port?: number; socket?: NodeSocket; servername: string }): NodeSocket;
+}
+
+/**
+ * Loads a Node.js module at runtime, keeping it out of browser bundles
+ */
+function loadNodeModule<T>(name: string): Promise<T> {
+  return import(/* @vite-ignore */ name) as Promise<T>;
+}
+
+function waitFor(socket: NodeSocket, event: 'connect' | 'secureConnect'): Promise<NodeSocket> {
+  return new Promise((resolve, reject) => {
+    socket.once('error', reject);
+    socket.once(event, () => {
+      socket.removeAllListeners('error');
+      resolve(socket);
+    });
+  });
+}
+
+function wrap(socket: NodeSocket, host: string, tls: NodeTLSModule): SMTPSocket {
+  socket.setEncoding('utf8');
+  let closeListener: ((error?: Error) => void) | undefined;
+  let closeError: Error | undefined;
+
+  socket.on('error', (error) => {
+    closeError = error;
+  });
+  socket.on('close', () => closeListener?.(closeError));
+
+  return {
+    write: (data) => {
+      socket.write(data);
+    },
+    onData: (listener) => socket.on('data', listener),
+    onClose: (listener) => {
+      closeListener = listener;
+    },
+    startTLS: async () => {
+      // The TLS socket reads the raw socket from now on
+      socket.removeAllListeners('data');
+      closeListener = undefined;
+      const secure = await waitFor(tls.connect({ socket, servername: host }), 'secureConnect');
+      return wrap(secure, host, tls);
+    },
+    close: () => {
+      socket.end();
+      socket.destroy();
+    },
+  };
+}
+
+/**
+ * Create a connector opening SMTP connections in Node.js
+ *
+ * The `net` and `tls` modules are loaded on the first connection, so the
+ * connector can be created (but not used) in browsers.
+ */
+export function createNodeSMTPConnector(): SMTPConnector {
+  return async ({ host, port, secure }) => {
+    const [net, tls] = await Promise.all([
+      loadNodeModule<NodeNetModule>('node:net'),
+      loadNodeModule<NodeTLSModule>('node:tls'),
+    ]);
+
+    const socket = secure
+      ? await waitFor(tls.connect({ host, port, servername: host }), 'secureConnect')
+      : await waitFor(net.connect({ host, port }), 'connect');
+    return wrap(socket, host, tls);
+  };
+}
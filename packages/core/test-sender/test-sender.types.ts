@@ -0,0 +1,291 @@
+/**
+ * Test Sender Types
+ *
+ * Type definitions for sending test emails to seed addresses, over SMTP or
+ * other transports.
+ */
+
+import type { TemplateExportOptions } from '../types/template.types';
+import type { GlobalBlockResolver } from '../types/global-block.types';
+import type { ThemeResolver } from '../types/theme.types';
+import type { DataProcessingService } from '../data-injection/DataProcessingService';
+import type { TemplateExporter } from '../template/TemplateExporter';
+
+/**
+ * Test email, ready to send
+ */
+export interface TestEmail {
+  /**
+   * Sender address, e.g. `Newsletter <news@example.com>`
+   */
+  from: string;
+
+  /**
+   * Seed addresses receiving the email
+   */
+  recipients: string[];
+
+  subject: string;
+
+  html: string;
+
+  /**
+   * Plain-text alternative of the HTML
+   */
+  text?: string;
+
+  /**
+   * Preview text shown after the subject in inboxes
+   */
+  preheader?: string;
+
+  /**
+   * Reply-To address
+   */
+  replyTo?: string;
+
+  /**
+   * ID of the template the email was made from
+   */
+  templateId?: string;
+
+  /**
+   * Template variables the data had no value for
+   */
+  missingVariables?: string[];
+}
+
+/**
+ * Outcome of a delivery, reported by the transport
+ */
+export interface TestDelivery {
+  /**
+   * Recipients the server accepted
+   */
+  accepted: string[];
+
+  /**
+   * Recipients the server rejected
+   */
+  rejected: string[];
+
+  /**
+   * Server response to the message
+   */
+  response?: string;
+}
+
+/**
+ * Status of a test send
+ */
+export type TestSendStatus = 'sent' | 'partial' | 'failed';
+
+/**
+ * Record of a test send, kept in the sender history
+ */
+export interface TestSendRecord {
+  /**
+   * Unique send ID
+   */
+  id: string;
+
+  status: TestSendStatus;
+
+  /**
+   * Message-ID header of the email
+   */
+  messageId: string;
+
+  subject: string;
+
+  from: string;
+
+  /**
+   * Recipients the email was sent to
+   */
+  recipients: string[];
+
+  /**
+   * Recipients the server accepted
+   */
+  accepted: string[];
+
+  /**
+   * Recipients the server rejected
+   */
+  rejected: string[];
+
+  /**
+   * ID of the template the email was made from
+   */
+  templateId?: string;
+
+  /**
+   * Template variables the data had no value for
+   */
+  missingVariables?: string[];
+
+  /**
+   * Error message (if failed)
+   */
+  error?: string;
+
+  sentAt: Date;
+}
+
+/**
+ * Options for sending a template as a test email
+ */
+export interface TestTemplateSendOptions {
+  /**
+   * Seed addresses receiving the email
+   */
+  recipients: string[];
+
+  /**
+   * Sender address (defaults to the template sender)
+   */
+  from?: string;
+
+  /**
+   * Subject (defaults to the template subject, then its name)
+   */
+  subject?: string;
+
+  /**
+   * Values of the template variables, e.g. the sample data of the active
+   * data source
+   */
+  data?: Record<string, unknown>;
+
+  /**
+   * Service filling in the variables
+   */
+  dataProcessing?: DataProcessingService;
+
+  /**
+   * Looks up the global blocks referenced by the template
+   */
+  resolveGlobalBlock?: GlobalBlockResolver;
+
+  /**
+   * Looks up the theme the style tokens of the template are resolved with
+   */
+  resolveTheme?: ThemeResolver;
+
+  /**
+   * HTML export options
+   */
+  exportOptions?: Partial<Omit<TemplateExportOptions, 'format'>>;
+}
+
+/**
+ * SMTP server configuration
+ */
+export interface SMTPConfig {
+  host: string;
+
+  /**
+   * @default 465 when `secure`, 587 otherwise
+   */
+  port?: number;
+
+  /**
+   * Connect over TLS from the start (usually port 465)
+   *
+   * @default false
+   */
+  secure?: boolean;
+
+  /**
+   * Upgrade plain connections with STARTTLS: `true` when the server offers
+   * it, `'required'` to fail when it does not, `false` never (e.g. local
+   * relays like MailHog)
+   *
+   * @default true
+   */
+  startTLS?: boolean | 'required';
+
+  /**
+   * Credentials, when the server requires authentication
+   */
+  auth?: {
+    user: string;
+    pass: string;
+
+    /**
+     * SASL mechanism, chosen from the ones the server offers by default
+     */
+    method?: 'PLAIN' | 'LOGIN';
+  };
+
+  /**
+   * Host name sent with EHLO
+   *
+   * @default 'localhost'
+   */
+  clientName?: string;
+
+  /**
+   * Time to wait for each server reply, in milliseconds
+   *
+   * @default 30000
+   */
+  timeout?: number;
+}
+
+/**
+ * Bidirectional connection to an SMTP server
+ */
+export interface SMTPSocket {
+  /**
+   * Sends data to the server
+   */
+  write(data: string): void;
+
+  /**
+   * Registers the listener of data received from the server
+   */
+  onData(listener: (data: string) => void): void;
+
+  /**
+   * Registers the listener of connection errors and closing
+   */
+  onClose(listener: (error?: Error) => void): void;
+
+  /**
+   * Upgrades the connection to TLS, for STARTTLS
+   */
+  startTLS(): Promise<SMTPSocket>;
+
+  /**
+   * Closes the connection
+   */
+  close(): void;
+}
+
+/**
+ * Opens connections to SMTP servers
+ */
+export type SMTPConnector = (options: {
+  host: string;
+  port: number;
+  secure: boolean;
+}) => Promise<SMTPSocket>;
+
+/**
+ * Test sender options
+ */
+export interface TestSenderOptions {
+  /**
+   * Number of sends kept in the history
+   *
+   * @default 50
+   */
+  historyLimit?: number;
+
+  /**
+   * Exporter producing the HTML and plain text of templates
+   */
+  exporter?: TemplateExporter;
+}
@@ -15,12 +15,13 @@ import type {
   RadiusScale,
   ShadowScale,
 } from '../types/theme.types';
-import type { CSSValue } from '../types/component.types';
+import type { DarkModePalette } from '../types/template.types';
+import { createDarkModePalette } from '../renderer/dark-mode';
 import { EventEmitter } from '../services/EventEmitter';
 import { StorageAdapter } from '../types/config.types';
 
 export interface ThemeManagerConfig {
-  storage?: StorageAdapter;
+  storage?: StorageAdapter | undefined;
   defaultTheme?: Theme;
 }
 
@@ -28,7 +29,7 @@ export class ThemeManager extends EventEmitter {
   private themes: Map<string, Theme> = new Map();
   private variants: Map<string, ThemeVariant> = new Map();
   private currentTheme: Theme | null = null;
-  private storage?: StorageAdapter;
+  private storage: StorageAdapter | undefined;
 
   constructor(config: ThemeManagerConfig = {}) {
     super();
@@ -162,8 +163,8 @@ export class ThemeManager extends EventEmitter {
     const theme: Theme = {
       id: this.generateThemeId(),
       name: options.name,
-      description: options.description,
-      author: options.author,
+      ...(options.description !== undefined && { description: options.description }),
+      ...(options.author !== undefined && { author: options.author }),
       version: '1.0.0',
       colors: this.createDefaultColorPalette(),
       typography: this.createDefaultTypography(),
@@ -171,7 +172,7 @@ export class ThemeManager extends EventEmitter {
       radius: this.createDefaultRadius(),
       shadows: this.createDefaultShadows(),
       metadata: {
-        category: options.category,
+        ...(options.category && { category: options.category }),
         tags: [],
         createdAt: Date.now(),
         updatedAt: Date.now(),
@@ -262,10 +263,8 @@ export class ThemeManager extends EventEmitter {
       fontSize: (size: keyof FontSizeScale) => theme.typography.fontSizes[size],
       fontWeight: (weight: keyof FontWeightScale) => theme.typography.fontWeights[weight],
       spacing: (scale: keyof SpacingScale | number) => {
-        if (typeof scale === 'number') {
-          return theme.spacing[scale as keyof SpacingScale] || { value: scale, unit: 'px' };
-        }
-        return theme.spacing[scale];
+        const value = scale === 'custom' ? undefined : theme.spacing[scale as Exclude<keyof SpacingScale, 'custom'>];
+        return value ?? { value: typeof scale === 'number' ? scale : 0, unit: 'px' };
       },
       radius: (size: keyof RadiusScale) => theme.radius[size],
       shadow: (size: keyof ShadowScale) => theme.shadows[size],
@@ -273,6 +272,18 @@ export class ThemeManager extends EventEmitter {
     };
   }
 
+  /**
+   * Derive a template dark mode palette from a theme's colors
+   */
+  createDarkModePalette(themeId?: string): DarkModePalette {
+    const theme = themeId ? this.themes.get(themeId) : this.currentTheme;
+    if (!theme) {
+      throw new Error('No theme available for dark mode palette');
+    }
+
+    return createDarkModePalette(theme.colors);
+  }
+
   /**
    * Resolve a color token path (e.g., 'primary.500', 'semantic.success.600')
    */
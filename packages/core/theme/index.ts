@@ -0,0 +1,14 @@
+/**
+ * Theme exports
+ */
+
+export { defaultThemes, modernTheme, minimalTheme, boldTheme, elegantTheme, getDefaultTheme } from './default-themes';
+export {
+  getThemeTokenValue,
+  getStyleTokenGroup,
+  getThemeTokens,
+  formatThemeTokenValue,
+  bindStyleToken,
+  applyThemeTokens,
+  type ThemeTokenOption,
+} from './theme-tokens';
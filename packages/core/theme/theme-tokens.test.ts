@@ -0,0 +1,104 @@
+/**
+ * Theme Tokens Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyThemeTokens,
+  bindStyleToken,
+  formatThemeTokenValue,
+  getStyleTokenGroup,
+  getThemeTokens,
+  getThemeTokenValue,
+} from './theme-tokens';
+import { boldTheme, modernTheme } from './default-themes';
+import { createEmptyEmailTemplate } from '../template/TemplateComposer';
+import { createButton, createRow } from '../components/factories';
+import { ThemeTokenError } from '../errors';
+
+describe('getThemeTokenValue', () => {
+  it('should resolve token paths in the theme', () => {
+    expect(getThemeTokenValue(modernTheme, 'colors.primary.500')).toBe('#3b82f6');
+    expect(getThemeTokenValue(modernTheme, 'typography.fontSizes.lg')).toEqual({ value: 18, unit: 'px' });
+  });
+
+  it('should reject unknown tokens and token groups', () => {
+    expect(() => getThemeTokenValue(modernTheme, 'colors.brand.500')).toThrow(ThemeTokenError);
+    expect(() => getThemeTokenValue(modernTheme, 'colors.primary')).toThrow('Unknown theme token: "colors.primary"');
+  });
+});
+
+describe('getStyleTokenGroup', () => {
+  it('should map style properties to token groups', () => {
+    expect(getStyleTokenGroup('backgroundColor')).toBe('color');
+    expect(getStyleTokenGroup('linkStyles.color')).toBe('color');
+    expect(getStyleTokenGroup('fontSize')).toBe('fontSize');
+    expect(getStyleTokenGroup('padding.top')).toBe('spacing');
+    expect(getStyleTokenGroup('width')).toBeUndefined();
+  });
+});
+
+describe('getThemeTokens', () => {
+  it('should list the tokens of a group', () => {
+    const sizes = getThemeTokens(modernTheme, 'fontSize');
+
+    expect(sizes[0]).toEqual({ path: 'typography.fontSizes.xs', value: { value: 12, unit: 'px' } });
+    expect(getThemeTokens(modernTheme, 'color').map((token) => token.path)).toContain('colors.semantic.danger.600');
+    expect(formatThemeTokenValue(sizes[0]!.value)).toBe('12px');
+  });
+});
+
+describe('bindStyleToken', () => {
+  it('should bind a property and set it to the token value', () => {
+    const button = bindStyleToken(createButton(), 'backgroundColor', 'colors.primary.500', modernTheme);
+
+    expect(button.styleTokens).toEqual({ backgroundColor: 'colors.primary.500' });
+    expect(button.styles.backgroundColor).toBe('#3b82f6');
+  });
+
+  it('should unbind a property and keep its value', () => {
+    const bound = bindStyleToken(createButton(), 'backgroundColor', 'colors.primary.500', modernTheme);
+    const unbound = bindStyleToken(bound, 'backgroundColor', undefined, modernTheme);
+
+    expect(unbound.styleTokens).toBeUndefined();
+    expect(unbound.styles.backgroundColor).toBe('#3b82f6');
+  });
+
+  it('should reject tokens of another group', () => {
+    expect(() => bindStyleToken(createButton(), 'backgroundColor', 'typography.fontSizes.lg', modernTheme)).toThrow(
+      ThemeTokenError
+    );
+  });
+});
+
+describe('applyThemeTokens', () => {
+  it('should restyle bound components at any depth', () => {
+    const template = createEmptyEmailTemplate();
+    const row = createRow();
+    row.children![0]!.children = [
+      bindStyleToken(createButton({ id: 'cta' }), 'backgroundColor', 'colors.primary.500', modernTheme),
+    ];
+    template.components = [row];
+
+    const restyled = applyThemeTokens(template, boldTheme);
+
+    expect(restyled.components[0]!.children![0]!.children![0]!.styles.backgroundColor).toBe('#f43f5e');
+    expect(template.components[0]!.children![0]!.children![0]!.styles.backgroundColor).toBe('#3b82f6');
+  });
+
+  it('should keep the value of tokens the theme does not define', () => {
+    const template = createEmptyEmailTemplate();
+    const button = createButton({ styles: { backgroundColor: '#123456' } });
+    button.styleTokens = { backgroundColor: 'colors.custom.brand' };
+    template.components = [button];
+
+    expect(applyThemeTokens(template, modernTheme).components[0]!.styles.backgroundColor).toBe('#123456');
+  });
+
+  it('should return the template itself when no component is bound', () => {
+    const template = createEmptyEmailTemplate();
+    template.components = [createButton()];
+
+    expect(applyThemeTokens(template, modernTheme)).toBe(template);
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Theme Tokens
+ *
+ * Resolution of the theme tokens bound to component styles, e.g.
+ * `backgroundColor` bound to `colors.primary.500`
+ */
+
+import type { BaseComponent, Template } from '../types';
+import type { Theme, ThemeTokenGroup, ThemeTokenValue } from '../types/theme.types';
+import { ThemeTokenError } from '../errors';
+import { isCSSValue } from '../compatibility/CompatibilityFixer';
+import { cssValue } from '../renderer/utils';
+
+/**
+ * Token of a theme, as listed in a token picker
+ */
+export interface ThemeTokenOption {
+  /**
+   * Token path, e.g. `colors.primary.500`
+   */
+  path: string;
+  value: ThemeTokenValue;
+}
+
+/**
+ * Path of each token group in a theme
+ */
+const TOKEN_GROUP_PATHS: Record<ThemeTokenGroup, string> = {
+  color: 'colors',
+  fontFamily: 'typography.fontFamilies',
+  fontSize: 'typography.fontSizes',
+  fontWeight: 'typography.fontWeights',
+  lineHeight: 'typography.lineHeights',
+  spacing: 'spacing',
+};
+
+const isTokenValue = (value: unknown): value is ThemeTokenValue =>
+  typeof value === 'string' || typeof value === 'number' || isCSSValue(value);
+
+function getPath(object: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (current, key) =>
+        typeof current === 'object' && current !== null ? (current as Record<string, unknown>)[key] : undefined,
+      object
+    );
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  const last = keys.pop()!;
+  const parent = keys.reduce<Record<string, unknown>>((object, key) => {
+    if (typeof object[key] !== 'object' || object[key] === null) {
+      object[key] = {};
+    }
+    return object[key] as Record<string, unknown>;
+  }, target);
+  parent[last] = value;
+}
+
+/**
+ * Gets the value of a theme token
+ *
+ * @param theme - Theme
+ * @param path - Token path, e.g. `colors.primary.500` or `typography.fontSizes.lg`
+ * @returns Color, font, number or CSS value
+ * @throws {ThemeTokenError} If the theme has no such token
+ */
+export function getThemeTokenValue(theme: Theme, path: string): ThemeTokenValue {
+  const value = getPath(theme, path);
+  if (!isTokenValue(value)) {
+    throw new ThemeTokenError(`Unknown theme token: "${path}"`, { themeId: theme.id, path });
+  }
+  return value;
+}
+
+/**
+ * Gets the token group a style property can be bound to
+ *
+ * @param property - Style path, e.g. `color`, `linkStyles.color` or `padding.top`
+ * @returns Token group, or undefined when the property cannot be bound
+ */
+export function getStyleTokenGroup(property: string): ThemeTokenGroup | undefined {
+  const [first, ...rest] = property.split('.');
+  const last = rest.at(-1) ?? first!;
+
+  if (/color$/i.test(last)) {
+    return 'color';
+  }
+  if (last === 'fontFamily' || last === 'fontSize' || last === 'fontWeight' || last === 'lineHeight') {
+    return last;
+  }
+  return (first === 'padding' || first === 'margin') && rest.length === 1 ? 'spacing' : undefined;
+}
+
+/**
+ * Lists the tokens of a group, e.g. every color of the theme
+ *
+ * @param theme - Theme
+ * @param group - Token group
+ * @returns Tokens, in theme order
+ */
+export function getThemeTokens(theme: Theme, group: ThemeTokenGroup): ThemeTokenOption[] {
+  const collect = (value: unknown, path: string): ThemeTokenOption[] => {
+    if (isTokenValue(value)) {
+      return [{ path, value }];
+    }
+    if (typeof value !== 'object' || value === null) {
+      return [];
+    }
+    return Object.entries(value).flatMap(([key, child]) => collect(child, `${path}.${key}`));
+  };
+
+  const root = TOKEN_GROUP_PATHS[group];
+  return collect(getPath(theme, root), root);
+}
+
+/**
+ * Formats a token value for display, e.g. `18px`
+ */
+export function formatThemeTokenValue(value: ThemeTokenValue): string {
+  return typeof value === 'object' ? cssValue(value) ?? '' : String(value);
+}
+
+/**
+ * Copies a component with a token bound to a style property, or unbound
+ *
+ * @param component - Component
+ * @param property - Style path, e.g. `backgroundColor`
+ * @param path - Token path, or undefined to unbind the property and keep its
+ * current value
+ * @param theme - Theme the value of the property is resolved with
+ * @throws {ThemeTokenError} If the property cannot be bound to the token, or
+ * the theme has no such token
+ */
+export function bindStyleToken(
+  component: BaseComponent,
+  property: string,
+  path: string | undefined,
+  theme: Theme | undefined
+): BaseComponent {
+  const copy = JSON.parse(JSON.stringify(component)) as BaseComponent;
+  const { [property]: _previous, ...tokens } = copy.styleTokens ?? {};
+
+  if (path === undefined) {
+    if (Object.keys(tokens).length > 0) {
+      copy.styleTokens = tokens;
+    } else {
+      delete copy.styleTokens;
+    }
+    return copy;
+  }
+
+  const group = getStyleTokenGroup(property);
+  if (!group || !path.startsWith(`${TOKEN_GROUP_PATHS[group]}.`)) {
+    throw new ThemeTokenError(`Style property "${property}" cannot be bound to theme token "${path}"`, {
+      property,
+      path,
+    });
+  }
+  if (theme) {
+    copy.styles ??= {};
+    setPath(copy.styles as Record<string, unknown>, property, getThemeTokenValue(theme, path));
+  }
+  copy.styleTokens = { ...tokens, [property]: path };
+  return copy;
+}
+
+/**
+ * Sets the style properties bound to tokens to their values in a theme
+ *
+ * Tokens the theme does not define keep their last resolved value.
+ *
+ * @param template - Template
+ * @param theme - Theme the tokens are resolved with
+ * @returns Restyled copy of the template, or the template itself when no
+ * component is bound to a token
+ */
+export function applyThemeTokens(template: Template, theme: Theme): Template {
+  let bound = false;
+
+  const restyle = (components: BaseComponent[]): BaseComponent[] =>
+    components.map((component) => {
+      const children = component.children && restyle(component.children);
+      const tokens = Object.entries(component.styleTokens ?? {});
+      if (tokens.length === 0) {
+        return children === component.children ? component : { ...component, ...(children && { children }) };
+      }
+
+      bound = true;
+      const styles = JSON.parse(JSON.stringify(component.styles ?? {})) as Record<string, unknown>;
+      tokens.forEach(([property, path]) => {
+        const value = getPath(theme, path);
+        if (isTokenValue(value)) {
+          setPath(styles, property, value);
+        }
+      });
+      return { ...component, styles: styles as BaseComponent['styles'], ...(children && { children }) };
+    });
+
+  const components = restyle(template.components);
+  if (!bound) {
+    return template;
+  }
+
+  const { componentTree: _componentTree, ...rest } = template;
+  return { ...rest, components };
+}
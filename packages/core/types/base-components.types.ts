@@ -1,7 +1,7 @@
 /**
  * Base component type definitions
  *
- * Specific types for base components (Button, Text, Image, Separator, Spacer)
+ * Specific types for base components (Button, Text, Image, Separator, Spacer, HTML)
  */
 
 import type { BaseComponent, ComponentType, CSSValue, BaseStyles } from './component.types';
@@ -109,6 +109,12 @@ export interface ButtonStyles extends TextStyles {
    * Hover border color
    */
   hoverBorderColor?: string;
+
+  /**
+   * Render a VML round rectangle for Outlook for Windows, which ignores
+   * border-radius
+   */
+  vmlFallback?: boolean;
 }
 
 /**
@@ -317,6 +323,34 @@ export interface SpacerComponent extends BaseComponent<SpacerContent> {
   type: ComponentType.SPACER;
 }
 
+// ============================================================================
+// HTML COMPONENT
+// ============================================================================
+
+/**
+ * HTML block content
+ */
+export interface HTMLContent {
+  /**
+   * Markup written to the email as is
+   */
+  html: string;
+
+  /**
+   * Allow additional properties for extensibility
+   */
+  [key: string]: unknown;
+}
+
+/**
+ * HTML block component
+ *
+ * Holds hand-written or imported markup that has no typed component
+ */
+export interface HTMLComponent extends BaseComponent<HTMLContent> {
+  type: ComponentType.HTML;
+}
+
 // ============================================================================
 // UNION TYPE
 // ============================================================================
@@ -329,4 +363,5 @@ export type AnyBaseComponent =
   | TextComponent
   | ImageComponent
   | SeparatorComponent
-  | SpacerComponent;
+  | SpacerComponent
+  | HTMLComponent;
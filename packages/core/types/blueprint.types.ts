@@ -235,6 +235,33 @@ export interface BlueprintCustomization {
   custom?: Record<string, unknown>;
 }
 
+/**
+ * Options for saving a template as a blueprint
+ */
+export interface BlueprintFromTemplateOptions {
+  name: string;
+  description?: string;
+  category?: BlueprintCategory;
+  tags?: string[];
+
+  /** Top-level components to turn into slots, by component ID */
+  slots?: Record<string, TemplateSlotMarker>;
+}
+
+/**
+ * A component of a template marked as a slot
+ */
+export interface TemplateSlotMarker {
+  name: string;
+  description?: string;
+
+  /** Defaults to a type matching the component, e.g. `image` */
+  type?: SlotType;
+
+  /** Whether the slot must be filled when instantiating the blueprint */
+  required?: boolean;
+}
+
 /**
  * Result of blueprint instantiation
  */
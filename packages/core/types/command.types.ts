@@ -26,6 +26,19 @@ export enum CommandType {
   UNDO = 'UNDO',
   REDO = 'REDO',
   PREVIEW = 'PREVIEW',
+  FIX_COMPATIBILITY_ISSUES = 'FIX_COMPATIBILITY_ISSUES',
+  SET_ROW_LAYOUT = 'SET_ROW_LAYOUT',
+  LINK_GLOBAL_BLOCK = 'LINK_GLOBAL_BLOCK',
+  DETACH_GLOBAL_BLOCK = 'DETACH_GLOBAL_BLOCK',
+  SET_LOCALIZED_TEXT = 'SET_LOCALIZED_TEXT',
+  SET_TEMPLATE_LOCALES = 'SET_TEMPLATE_LOCALES',
+  SET_STYLE_TOKEN = 'SET_STYLE_TOKEN',
+  SET_TEMPLATE_THEME = 'SET_TEMPLATE_THEME',
+  APPLY_VARIANT = 'APPLY_VARIANT',
+  APPLY_RECIPE = 'APPLY_RECIPE',
+  BULK_UPDATE_COMPONENTS = 'BULK_UPDATE_COMPONENTS',
+  PASTE_COMPONENTS = 'PASTE_COMPONENTS',
+  BATCH = 'BATCH',
 
   // Mobile Development Mode commands
   SET_MOBILE_OVERRIDE = 'SET_MOBILE_OVERRIDE',
@@ -143,6 +156,11 @@ export interface CommandHistoryEntry {
    */
   newState?: unknown;
 
+  /**
+   * Label of a group of commands, undone and redone as one step
+   */
+  label?: string;
+
   /**
    * Timestamp
    */
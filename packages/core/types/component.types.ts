@@ -11,6 +11,7 @@ export enum ComponentCategory {
   BASE = 'base',
   NAVIGATION = 'navigation',
   CONTENT = 'content',
+  LAYOUT = 'layout',
   CUSTOM = 'custom',
 }
 
@@ -24,6 +25,7 @@ export enum ComponentType {
   IMAGE = 'image',
   SEPARATOR = 'separator',
   SPACER = 'spacer',
+  HTML = 'html',
 
   // Email/Navigation components
   HEADER = 'header',
@@ -34,6 +36,13 @@ export enum ComponentType {
   LIST = 'list',
   CALL_TO_ACTION = 'cta',
 
+  // Layout components
+  ROW = 'row',
+  COLUMN = 'column',
+
+  // Reference to a global block
+  GLOBAL_BLOCK = 'global-block',
+
   // Custom
   CUSTOM = 'custom',
 }
@@ -346,6 +355,39 @@ export interface BaseStyles {
   imageMaxHeight?: CSSValue;
 }
 
+/**
+ * Dark mode overrides of a component
+ *
+ * Applied by email clients that honor `prefers-color-scheme: dark` (and by
+ * Outlook.com through its `[data-ogsc]`/`[data-ogsb]` attributes)
+ */
+export interface DarkModeStyles {
+  /**
+   * Background color
+   */
+  backgroundColor?: string;
+
+  /**
+   * Text color
+   */
+  color?: string;
+
+  /**
+   * Link color
+   */
+  linkColor?: string;
+
+  /**
+   * Border color
+   */
+  borderColor?: string;
+
+  /**
+   * Image shown instead of `content.src` (e.g. a logo for dark backgrounds)
+   */
+  imageSrc?: string;
+}
+
 /**
  * Component visibility per device
  * @deprecated Use ResponsiveVisibility from responsive.types.ts instead
@@ -461,6 +503,22 @@ export interface BaseComponent<
    */
   mobileStyles?: Partial<TStyles>;
 
+  /**
+   * Dark mode overrides
+   *
+   * Colors used when the email is displayed in dark mode.
+   * Properties not specified keep their light value.
+   */
+  darkStyles?: DarkModeStyles;
+
+  /**
+   * Theme tokens bound to style properties
+   *
+   * Bound properties keep their last resolved value in `styles`, and are
+   * resolved again with the template theme at render and export time.
+   */
+  styleTokens?: import('./theme.types').StyleTokenBindings;
+
   /**
    * Component-specific content
    */
@@ -481,6 +539,16 @@ export interface BaseComponent<
    */
   visibility?: import('../mobile').ComponentVisibility;
 
+  /**
+   * Data conditions the component is shown for
+   */
+  displayRule?: import('./display-rule.types').DisplayRule;
+
+  /**
+   * Data array the component is repeated for
+   */
+  repeat?: import('./repeat.types').RepeatBinding;
+
   /**
    * Responsive configuration (legacy system)
    * @deprecated Use Mobile Dev Mode (mobileStyles, visibility) instead
@@ -3,6 +3,8 @@
  */
 
 import type { TranslationConfig } from '../i18n/types';
+import type { ApiStorageOptions } from '../services/api-storage.types';
+import type { RevisionRetentionPolicy } from './template.types';
 
 /**
  * Rendering target for the builder
@@ -72,6 +74,18 @@ export interface StorageConfig {
    */
   apiEndpoint?: string;
 
+  /**
+   * API storage options (auth headers, retries, timeout) used when method is 'api'
+   */
+  api?: ApiStorageOptions;
+
+  /**
+   * Which template revisions to keep when template versioning is enabled
+   *
+   * @default { strategy: 'keep-all' }
+   */
+  revisionRetention?: RevisionRetentionPolicy;
+
   /**
    * Storage key prefix
    *
@@ -99,7 +113,8 @@ export interface FeatureFlags {
   dataInjection?: boolean;
 
   /**
-   * Enable template versioning
+   * Enable template versioning: every save records a revision that can be
+   * listed, compared and restored through the template manager
    *
    * @default false
    */
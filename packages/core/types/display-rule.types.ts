@@ -0,0 +1,76 @@
+/**
+ * Display rule type definitions
+ *
+ * Display rules show a component only when the data the email is sent with
+ * matches conditions, e.g. `customer.tier == "gold"`.
+ */
+
+/**
+ * Comparison of a condition
+ *
+ * `exists` and `not-exists` test whether the variable has a value (not
+ * empty); the other operators compare the variable with the condition value.
+ */
+export type DisplayConditionOperator =
+  | '=='
+  | '!='
+  | '>'
+  | '>='
+  | '<'
+  | '<='
+  | 'contains'
+  | 'exists'
+  | 'not-exists';
+
+/**
+ * Condition on a data variable
+ */
+export interface DisplayCondition {
+  /**
+   * Variable path, in dot notation (e.g. `customer.tier`)
+   */
+  variable: string;
+
+  operator: DisplayConditionOperator;
+
+  /**
+   * Value compared with the variable (unused by `exists` and `not-exists`)
+   */
+  value?: string | number | boolean;
+}
+
+/**
+ * Display rule of a component
+ */
+export interface DisplayRule {
+  /**
+   * Whether every condition (`all`) or at least one (`any`) must match
+   */
+  match: 'all' | 'any';
+
+  /**
+   * Conditions; a rule without conditions always matches
+   */
+  conditions: DisplayCondition[];
+}
+
+/**
+ * Conditional syntax of an email service provider
+ *
+ * - `liquid`: Liquid tags (Braze, Klaviyo, Customer.io, Iterable...)
+ * - `mailchimp`: Mailchimp merge tag conditionals
+ * - `ampscript`: Salesforce Marketing Cloud AMPscript
+ */
+export type DisplayRuleSyntax = 'liquid' | 'mailchimp' | 'ampscript';
+
+/**
+ * How display rules are exported
+ *
+ * - `evaluate`: rules are evaluated with `data`, and the components whose
+ *   rule does not match are left out
+ * - `esp`: components with a rule are wrapped in the conditional syntax of
+ *   an ESP, which evaluates the rules when sending
+ */
+export type DisplayRuleExportOptions =
+  | { mode: 'evaluate'; data: Record<string, unknown> }
+  | { mode: 'esp'; syntax: DisplayRuleSyntax };
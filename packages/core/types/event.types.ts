@@ -18,8 +18,10 @@ export enum BuilderEvent {
   PRESET_SAVED = 'builder:preset-saved',
   PRESET_DELETED = 'builder:preset-deleted',
   DATA_INJECTED = 'builder:data-injected',
+  COMMAND_EXECUTED = 'builder:command-executed',
   UNDO = 'builder:undo',
   REDO = 'builder:redo',
+  SAVE_STATE_CHANGED = 'builder:save-state-changed',
   ERROR = 'builder:error',
 }
 
@@ -0,0 +1,90 @@
+/**
+ * Global block type definitions
+ *
+ * Types for global blocks: groups of components stored once and referenced
+ * by ID from any number of templates
+ */
+
+import type { BaseComponent, BaseStyles, ComponentType } from './component.types';
+
+/**
+ * Global block
+ */
+export interface GlobalBlock {
+  /**
+   * Block ID
+   */
+  id: string;
+
+  /**
+   * Block name
+   */
+  name: string;
+
+  /**
+   * Description
+   */
+  description?: string;
+
+  /**
+   * Tags
+   */
+  tags?: string[];
+
+  /**
+   * Components of the block, rendered in place of every reference
+   */
+  components: BaseComponent[];
+
+  /**
+   * Revision number, incremented on every update
+   */
+  version: number;
+
+  /**
+   * Creation timestamp
+   */
+  createdAt: number;
+
+  /**
+   * Last update timestamp
+   */
+  updatedAt: number;
+}
+
+/**
+ * Global block list item (for the block library)
+ */
+export interface GlobalBlockListItem {
+  id: string;
+  name: string;
+  description?: string;
+  tags?: string[];
+  componentCount: number;
+  version: number;
+  updatedAt: number;
+}
+
+/**
+ * Looks up a global block by ID
+ */
+export type GlobalBlockResolver = (blockId: string) => GlobalBlock | undefined;
+
+/**
+ * Global block reference content
+ */
+export interface GlobalBlockReferenceContent {
+  /**
+   * ID of the referenced block
+   */
+  blockId: string;
+
+  [key: string]: unknown;
+}
+
+/**
+ * Component standing for a global block in a template
+ */
+export interface GlobalBlockReferenceComponent extends BaseComponent<GlobalBlockReferenceContent, BaseStyles> {
+  type: ComponentType.GLOBAL_BLOCK;
+}
@@ -11,9 +11,17 @@ export * from './event.types';
 export * from './component.types';
 export * from './base-components.types';
 export * from './email-components.types';
+export * from './layout-components.types';
+export * from './global-block.types';
+export * from './display-rule.types';
+export * from './repeat.types';
 
 // Template types
 export * from './template.types';
+export * from './localization.types';
+
+// Theme types
+export * from './theme.types';
 
 // Responsive types (exclude ResponsiveVisibility to avoid conflict with component.types)
 export {
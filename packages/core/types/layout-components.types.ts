@@ -0,0 +1,116 @@
+/**
+ * Layout component type definitions
+ *
+ * Specific types for layout components (Row, Column)
+ */
+
+import type { BaseComponent, ComponentType, CSSValue, BaseStyles } from './component.types';
+
+// ============================================================================
+// ROW COMPONENT
+// ============================================================================
+
+/**
+ * Row column layout, as the relative widths of its columns
+ */
+export type RowLayoutPreset = '1' | '1-1' | '2-1' | '1-2' | '1-1-1' | '1-1-1-1';
+
+/**
+ * Column widths (percentages) of each row layout
+ */
+export const ROW_LAYOUT_PRESETS: Record<RowLayoutPreset, number[]> = {
+  '1': [100],
+  '1-1': [50, 50],
+  '2-1': [66.67, 33.33],
+  '1-2': [33.33, 66.67],
+  '1-1-1': [33.33, 33.33, 33.34],
+  '1-1-1-1': [25, 25, 25, 25],
+};
+
+/**
+ * How the columns of a row are laid out on mobile
+ * - `stack`: one below the other, in order
+ * - `reverse`: one below the other, last column first
+ * - `none`: side by side, as on desktop
+ */
+export type RowMobileStacking = 'stack' | 'reverse' | 'none';
+
+/**
+ * Row content
+ */
+export interface RowContent {
+  /**
+   * Column layout (`custom` when the column widths were edited)
+   */
+  layout: RowLayoutPreset | 'custom';
+
+  /**
+   * Column order on mobile
+   */
+  mobileStacking: RowMobileStacking;
+
+  /**
+   * Allow additional properties for extensibility
+   */
+  [key: string]: unknown;
+}
+
+/**
+ * Row styles
+ *
+ * `verticalAlign` aligns the columns against each other.
+ */
+export interface RowStyles {
+  /**
+   * Space between columns
+   */
+  gutter?: CSSValue;
+}
+
+/**
+ * Row component
+ *
+ * Lays its column children out side by side.
+ */
+export interface RowComponent extends BaseComponent<RowContent, RowStyles & BaseStyles> {
+  type: ComponentType.ROW;
+  children: ColumnComponent[];
+}
+
+// ============================================================================
+// COLUMN COMPONENT
+// ============================================================================
+
+/**
+ * Column content
+ */
+export interface ColumnContent {
+  /**
+   * Width, as a percentage of the row
+   */
+  width: CSSValue;
+
+  /**
+   * Allow additional properties for extensibility
+   */
+  [key: string]: unknown;
+}
+
+/**
+ * Column component
+ *
+ * Holds the components of one column of a row; `verticalAlign` overrides the
+ * row alignment.
+ */
+export interface ColumnComponent extends BaseComponent<ColumnContent, BaseStyles> {
+  type: ComponentType.COLUMN;
+}
+
+// ============================================================================
+// UNION TYPE
+// ============================================================================
+
+/**
+ * Union of all layout component types
+ */
+export type AnyLayoutComponent = RowComponent | ColumnComponent;
@@ -0,0 +1,165 @@
+/**
+ * Localization types
+ *
+ * Types for per-locale variants of the content of a template
+ */
+
+/**
+ * Translation of one text of a template
+ */
+export interface LocalizedText {
+  /**
+   * Translated text (HTML for rich text fields)
+   */
+  value: string;
+
+  /**
+   * Source text the translation was made from, to detect outdated translations
+   */
+  source?: string;
+
+  /**
+   * Draft translations (e.g. pre-filled by an auto-translation plugin) still
+   * need a review
+   */
+  draft?: boolean;
+}
+
+/**
+ * Per-locale content of a template
+ *
+ * Translations are keyed by `<component id>:<field path>` (e.g.
+ * `text-1:content.html`) for component fields, and by `metadata:subject` and
+ * `metadata:preheader` for the message metadata. Fields without a translation
+ * fall back to the source content.
+ */
+export interface TemplateLocalization {
+  /**
+   * Locale of the template content itself
+   */
+  sourceLocale: string;
+
+  /**
+   * Locales the template is translated to, without the source locale
+   */
+  locales: string[];
+
+  /**
+   * Translations per locale, then per key
+   */
+  translations: Record<string, Record<string, LocalizedText>>;
+}
+
+/**
+ * Text of a template that can be translated
+ */
+export interface LocalizableEntry {
+  /**
+   * Translation key
+   */
+  key: string;
+
+  /**
+   * Component the text belongs to (undefined for metadata)
+   */
+  componentId?: string;
+
+  /**
+   * Field path of the text, relative to the component or the metadata
+   */
+  path: string;
+
+  /**
+   * Source text
+   */
+  text: string;
+}
+
+/**
+ * Translation state of one locale
+ */
+export interface LocaleTranslationStatus {
+  locale: string;
+
+  /**
+   * Texts without a translation
+   */
+  missing: LocalizableEntry[];
+
+  /**
+   * Texts whose translation is still a draft
+   */
+  drafts: LocalizableEntry[];
+
+  /**
+   * Texts whose source changed since they were translated
+   */
+  outdated: LocalizableEntry[];
+
+  /**
+   * Share of the texts with a translation, from 0 to 1
+   */
+  coverage: number;
+}
+
+/**
+ * Missing-translation report of a template
+ */
+export interface MissingTranslationReport {
+  sourceLocale: string;
+
+  /**
+   * Number of translatable texts in the template
+   */
+  total: number;
+
+  locales: LocaleTranslationStatus[];
+}
+
+/**
+ * File formats for exchanging translations with translators
+ *
+ * - `xliff`: XLIFF 2.0 document, one unit per text
+ * - `json`: flat JSON object of texts by translation key
+ */
+export type TranslationFileFormat = 'xliff' | 'json';
+
+/**
+ * Problem found in a translation imported from a file
+ */
+export interface TranslationIssue {
+  /**
+   * Translation key (unit ID in XLIFF files)
+   */
+  key: string;
+
+  /**
+   * - `unknown-key`: no text of the template has this key
+   * - `missing-placeholder`: a `{{variable}}` of the source is not in the translation
+   * - `extra-placeholder`: the translation uses a `{{variable}}` the source does not
+   * - `markup-mismatch`: the translation does not have the same HTML tags as the source
+   */
+  type: 'unknown-key' | 'missing-placeholder' | 'extra-placeholder' | 'markup-mismatch';
+
+  message: string;
+}
+
+/**
+ * Translations read from a translation file
+ */
+export interface TranslationImportResult {
+  /**
+   * Locale of the translations
+   */
+  locale: string;
+
+  /**
+   * Valid translations by key, ready for `setLocalizedTexts`
+   */
+  texts: Record<string, string>;
+
+  /**
+   * Translations left out of `texts`, and why
+   */
+  issues: TranslationIssue[];
+}
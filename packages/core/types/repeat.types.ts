@@ -0,0 +1,82 @@
+/**
+ * Repeat binding type definitions
+ *
+ * A repeat binding renders a component, with its children, once per item of
+ * a data array, e.g. product recommendations or order line items.
+ */
+
+import type { DisplayRule } from './display-rule.types';
+
+/**
+ * Binding of a component property to a field of the current item
+ */
+export interface RepeatFieldBinding {
+  /**
+   * Component the property belongs to: the repeated component (default) or
+   * one of its children
+   */
+  componentId?: string;
+
+  /**
+   * Property path in the component, e.g. `content.src` or `content.link.href`
+   */
+  property: string;
+
+  /**
+   * Field path in the item, in dot notation (e.g. `price.formatted`)
+   */
+  field: string;
+}
+
+/**
+ * Order of the repeated items
+ */
+export interface RepeatSort {
+  /**
+   * Field path in the item
+   */
+  field: string;
+
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * Repeat binding of a component
+ */
+export interface RepeatBinding {
+  /**
+   * Path of the array in the data, in dot notation (e.g. `order.items`)
+   */
+  source: string;
+
+  /**
+   * Properties set from each item
+   */
+  fields: RepeatFieldBinding[];
+
+  /**
+   * Conditions an item must match to be repeated; variables are item fields
+   */
+  filter?: DisplayRule;
+
+  sort?: RepeatSort;
+
+  /**
+   * Maximum number of items
+   */
+  limit?: number;
+
+  /**
+   * Text shown instead of the items when there are none
+   */
+  emptyText?: string;
+}
+
+/**
+ * How repeated components are exported
+ *
+ * - `expand`: one copy of the component per item of `data`
+ * - `loop`: a `{{#each}}` loop around the component, with `{{field}}`
+ *   placeholders for the bound properties, expanded when sending
+ */
+export type RepeatExportOptions = { mode: 'expand'; data: Record<string, unknown> } | { mode: 'loop' };
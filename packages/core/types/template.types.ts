@@ -7,6 +7,11 @@
 import type { BaseComponent } from './component.types';
 import type { TextStyles } from './base-components.types';
 import type { BuilderTarget } from './config.types';
+import type { PlainTextOptions } from '../renderer/plain-text';
+import type { MimeMessageOptions } from '../renderer/mime';
+import type { TemplateLocalization } from './localization.types';
+import type { DisplayRuleExportOptions } from './display-rule.types';
+import type { RepeatExportOptions } from './repeat.types';
 
 /**
  * Template metadata
@@ -47,6 +52,26 @@ export interface TemplateMetadata {
    */
   category?: string;
 
+  /**
+   * Email subject line (defaults to the template name when exporting messages)
+   */
+  subject?: string;
+
+  /**
+   * Email preheader, the preview text shown after the subject in inboxes
+   */
+  preheader?: string;
+
+  /**
+   * Sender address or placeholder, e.g. `Acme <news@acme.com>` or `{{from}}`
+   */
+  from?: string;
+
+  /**
+   * Reply-To address or placeholder
+   */
+  replyTo?: string;
+
   /**
    * Template version
    */
@@ -123,6 +148,38 @@ export interface TypographyPreset {
   styles: TextStyles;
 }
 
+/**
+ * Template colors in dark mode
+ *
+ * Fallbacks for components without their own dark mode overrides
+ */
+export interface DarkModePalette {
+  /**
+   * Background around the email
+   */
+  background?: string;
+
+  /**
+   * Canvas background
+   */
+  surface?: string;
+
+  /**
+   * Text color of text and list components
+   */
+  text?: string;
+
+  /**
+   * Link color of text and list components
+   */
+  link?: string;
+
+  /**
+   * Separator and border color
+   */
+  border?: string;
+}
+
 /**
  * General template styles
  *
@@ -187,6 +244,19 @@ export interface GeneralStyles {
     padding?: string;
     borderRadius?: string;
   };
+
+  /**
+   * Dark mode palette
+   *
+   * Setting it makes the export dark mode aware; see `createDarkModePalette`
+   * to derive one from a theme.
+   */
+  darkPalette?: DarkModePalette;
+
+  /**
+   * Theme the style tokens of the components are resolved with
+   */
+  themeId?: string;
 }
 
 /**
@@ -325,13 +395,40 @@ export interface TemplateExportOptions {
 
   /**
    * Target format
+   *
+   * `eml` produces a complete MIME message with HTML and plain-text parts.
    */
-  format: 'html' | 'json' | 'both';
+  format: 'html' | 'json' | 'both' | 'eml';
 
   /**
    * Pretty print
    */
   prettyPrint?: boolean;
+
+  /**
+   * Generate the plain-text alternative next to the HTML, optionally with
+   * rendering options
+   *
+   * @default true
+   */
+  plainText?: boolean | PlainTextOptions;
+
+  /**
+   * MIME message options, used by the `eml` format
+   */
+  mime?: MimeMessageOptions;
+
+  /**
+   * How component display rules are exported; without it, every component is
+   * exported and the rules are ignored
+   */
+  displayRules?: DisplayRuleExportOptions;
+
+  /**
+   * How repeated components are exported; without it, they are exported once,
+   * as designed
+   */
+  repeats?: RepeatExportOptions;
 }
 
 /**
@@ -378,6 +475,11 @@ export interface Template {
    */
   dataInjection?: DataInjectionConfig;
 
+  /**
+   * Translated content, one variant per locale
+   */
+  localization?: TemplateLocalization;
+
   /**
    * Mobile development mode metadata
    *
@@ -485,3 +587,110 @@ export interface TemplateListItem {
    */
   isCustom?: boolean;
 }
+
+/**
+ * Author and message recorded with a template revision
+ */
+export interface RevisionInfo {
+  /**
+   * Who made the change (defaults to the template author)
+   */
+  author?: string;
+
+  /**
+   * Description of the change
+   */
+  message?: string;
+
+  /**
+   * Whether the revision was recorded by an auto-save
+   */
+  autoSave?: boolean;
+}
+
+/**
+ * Template revision summary (without the snapshot)
+ */
+export interface TemplateRevisionSummary extends RevisionInfo {
+  /**
+   * Template ID
+   */
+  templateId: string;
+
+  /**
+   * Revision number, starting at 1. Numbers are never reused.
+   */
+  revision: number;
+
+  /**
+   * When the revision was recorded
+   */
+  timestamp: number;
+
+  /**
+   * Template version at the time of the revision
+   */
+  version: string;
+}
+
+/**
+ * Immutable template revision
+ */
+export interface TemplateRevision extends TemplateRevisionSummary {
+  /**
+   * Template snapshot
+   */
+  template: Template;
+}
+
+/**
+ * Retention policy for template revisions
+ *
+ * - `keep-last`: keep the `count` most recent revisions
+ * - `daily`: keep every revision younger than `afterDays`, and only the last
+ *   revision of each day for older ones
+ *
+ * On top of the strategy, only the `maxAutoSaves` most recent auto-save
+ * revisions are kept (all of them when omitted). The most recent revision is
+ * always kept.
+ */
+export type RevisionRetentionPolicy = (
+  | { strategy: 'keep-all' }
+  | { strategy: 'keep-last'; count: number }
+  | { strategy: 'daily'; afterDays: number }
+) & { maxAutoSaves?: number };
+
+/**
+ * Single change between two revisions
+ */
+export interface RevisionChange {
+  /**
+   * Dot path of the changed value (array items are addressed by `id` when they have one)
+   */
+  path: string;
+
+  /**
+   * Kind of change
+   */
+  type: 'added' | 'removed' | 'changed';
+
+  /**
+   * Value before the change
+   */
+  before?: unknown;
+
+  /**
+   * Value after the change
+   */
+  after?: unknown;
+}
+
+/**
+ * Differences between two revisions
+ */
+export interface RevisionDiff {
+  templateId: string;
+  from: number;
+  to: number;
+  changes: RevisionChange[];
+}
@@ -232,7 +232,7 @@ export interface Theme {
 }
 
 export interface ThemeMetadata {
-  category?: 'business' | 'ecommerce' | 'newsletter' | 'transactional' | 'custom';
+  category?: 'business' | 'ecommerce' | 'marketing' | 'newsletter' | 'transactional' | 'custom';
   tags?: string[];
   thumbnail?: string;
   createdAt: number;
@@ -256,6 +256,30 @@ export interface ThemeTokens {
   textStyle: (name: string) => TextStyle | undefined;
 }
 
+/**
+ * Groups of theme tokens style properties can be bound to
+ */
+export type ThemeTokenGroup = 'color' | 'fontFamily' | 'fontSize' | 'fontWeight' | 'lineHeight' | 'spacing';
+
+/**
+ * Value of a theme token
+ */
+export type ThemeTokenValue = string | number | CSSValue;
+
+/**
+ * Theme tokens bound to the style properties of a component
+ *
+ * Keys are style paths (e.g. `backgroundColor`, `padding.top`), values are
+ * token paths in the theme (e.g. `colors.primary.500`,
+ * `typography.fontSizes.lg`).
+ */
+export type StyleTokenBindings = Record<string, string>;
+
+/**
+ * Looks up a theme by ID, e.g. from a `ThemeManager`
+ */
+export type ThemeResolver = (themeId: string) => Theme | undefined;
+
 // ============================================================================
 // THEME OVERRIDES
 // ============================================================================
@@ -15,14 +15,14 @@ import { EventEmitter } from '../services/EventEmitter';
 import { StorageAdapter } from '../types/config.types';
 
 export interface VariantManagerConfig {
-  storage?: StorageAdapter;
+  storage?: StorageAdapter | undefined;
 }
 
 export class VariantManager extends EventEmitter {
   private variants: Map<string, ComponentVariant> = new Map();
   private collections: Map<string, VariantCollection> = new Map();
   private compositions: Map<string, VariantComposition> = new Map();
-  private storage?: StorageAdapter;
+  private storage: StorageAdapter | undefined;
 
   constructor(config: VariantManagerConfig = {}) {
     super();
@@ -135,10 +135,10 @@ export class VariantManager extends EventEmitter {
     const variant: ComponentVariant = {
       id: this.generateVariantId(),
       name: options.name,
-      description: options.description,
+      ...(options.description !== undefined && { description: options.description }),
       category: options.category,
       styles: options.styles,
-      content: options.content,
+      ...(options.content && { content: options.content }),
       metadata: {
         createdAt: Date.now(),
       },
@@ -160,10 +160,11 @@ export class VariantManager extends EventEmitter {
    * Create or update a variant collection for a component type
    */
   createCollection(componentType: string, variants: ComponentVariant[] = []): VariantCollection {
+    const defaultVariantId = variants.find((v) => v.metadata?.isDefault)?.id;
     const collection: VariantCollection = {
       componentType,
       variants,
-      defaultVariantId: variants.find((v) => v.metadata?.isDefault)?.id,
+      ...(defaultVariantId && { defaultVariantId }),
     };
 
     this.collections.set(componentType, collection);
@@ -326,22 +327,22 @@ export class VariantManager extends EventEmitter {
    * Deep merge multiple style objects
    */
   private deepMergeStyles(styleArray: Partial<BaseStyles>[]): Partial<BaseStyles> {
-    return styleArray.reduce((acc, styles) => {
-      const merged = { ...acc };
+    return styleArray.reduce<Partial<BaseStyles>>((acc, styles) => {
+      const merged: Record<string, unknown> = { ...acc };
 
       for (const key in styles) {
         const value = styles[key as keyof BaseStyles];
         if (value && typeof value === 'object' && !Array.isArray(value)) {
-          merged[key as keyof BaseStyles] = {
+          merged[key] = {
             ...(acc[key as keyof BaseStyles] as any),
             ...(value as any),
           };
         } else {
-          merged[key as keyof BaseStyles] = value as any;
+          merged[key] = value;
         }
       }
 
-      return merged;
+      return merged as Partial<BaseStyles>;
     }, {});
   }
 
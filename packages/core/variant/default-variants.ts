@@ -4,7 +4,15 @@
  */
 
 import type { ComponentVariant } from '../types/variant.types';
-import { ComponentType } from '../types/component.types';
+import { ComponentType, type BorderRadius, type CSSUnit } from '../types/component.types';
+
+/**
+ * Same radius on every corner
+ */
+const radius = (value: number, unit: CSSUnit): BorderRadius => {
+  const corner = { value, unit };
+  return { topLeft: corner, topRight: corner, bottomRight: corner, bottomLeft: corner };
+};
 
 // ============================================================================
 // BUTTON VARIANTS
@@ -22,7 +30,7 @@ export const buttonVariants: ComponentVariant[] = [
         width: { value: 0, unit: 'px' },
         style: 'solid',
         color: '#3b82f6',
-        radius: { value: 0.375, unit: 'rem' },
+        radius: radius(0.375, 'rem'),
       },
       padding: {
         top: { value: 12, unit: 'px' },
@@ -44,7 +52,7 @@ export const buttonVariants: ComponentVariant[] = [
         width: { value: 0, unit: 'px' },
         style: 'solid',
         color: '#6b7280',
-        radius: { value: 0.375, unit: 'rem' },
+        radius: radius(0.375, 'rem'),
       },
       padding: {
         top: { value: 12, unit: 'px' },
@@ -66,7 +74,7 @@ export const buttonVariants: ComponentVariant[] = [
         width: { value: 2, unit: 'px' },
         style: 'solid',
         color: '#3b82f6',
-        radius: { value: 0.375, unit: 'rem' },
+        radius: radius(0.375, 'rem'),
       },
       padding: {
         top: { value: 10, unit: 'px' },
@@ -88,7 +96,7 @@ export const buttonVariants: ComponentVariant[] = [
         width: { value: 0, unit: 'px' },
         style: 'solid',
         color: 'transparent',
-        radius: { value: 0.375, unit: 'rem' },
+        radius: radius(0.375, 'rem'),
       },
       padding: {
         top: { value: 12, unit: 'px' },
@@ -110,7 +118,7 @@ export const buttonVariants: ComponentVariant[] = [
         width: { value: 0, unit: 'px' },
         style: 'solid',
         color: 'transparent',
-        radius: { value: 0.5, unit: 'rem' },
+        radius: radius(0.5, 'rem'),
       },
       padding: {
         top: { value: 14, unit: 'px' },
@@ -179,7 +187,7 @@ export const buttonVariants: ComponentVariant[] = [
         width: { value: 0, unit: 'px' },
         style: 'solid',
         color: '#10b981',
-        radius: { value: 0.375, unit: 'rem' },
+        radius: radius(0.375, 'rem'),
       },
     },
     metadata: { group: 'intent' },
@@ -195,7 +203,7 @@ export const buttonVariants: ComponentVariant[] = [
         width: { value: 0, unit: 'px' },
         style: 'solid',
         color: '#f59e0b',
-        radius: { value: 0.375, unit: 'rem' },
+        radius: radius(0.375, 'rem'),
       },
     },
     metadata: { group: 'intent' },
@@ -211,7 +219,7 @@ export const buttonVariants: ComponentVariant[] = [
         width: { value: 0, unit: 'px' },
         style: 'solid',
         color: '#ef4444',
-        radius: { value: 0.375, unit: 'rem' },
+        radius: radius(0.375, 'rem'),
       },
     },
     metadata: { group: 'intent' },
@@ -333,7 +341,7 @@ export const imageVariants: ComponentVariant[] = [
         width: { value: 0, unit: 'px' },
         style: 'solid',
         color: 'transparent',
-        radius: { value: 0, unit: 'px' },
+        radius: radius(0, 'px'),
       },
     },
     metadata: { isDefault: true },
@@ -348,7 +356,7 @@ export const imageVariants: ComponentVariant[] = [
         width: { value: 0, unit: 'px' },
         style: 'solid',
         color: 'transparent',
-        radius: { value: 0.5, unit: 'rem' },
+        radius: radius(0.5, 'rem'),
       },
     },
     metadata: {},
@@ -363,7 +371,7 @@ export const imageVariants: ComponentVariant[] = [
         width: { value: 0, unit: 'px' },
         style: 'solid',
         color: 'transparent',
-        radius: { value: 9999, unit: 'px' },
+        radius: radius(9999, 'px'),
       },
     },
     metadata: {},
@@ -378,7 +386,7 @@ export const imageVariants: ComponentVariant[] = [
         width: { value: 2, unit: 'px' },
         style: 'solid',
         color: '#e5e7eb',
-        radius: { value: 0.25, unit: 'rem' },
+        radius: radius(0.25, 'rem'),
       },
       padding: {
         top: { value: 4, unit: 'px' },
@@ -422,7 +430,7 @@ export const containerVariants: ComponentVariant[] = [
         width: { value: 1, unit: 'px' },
         style: 'solid',
         color: '#e5e7eb',
-        radius: { value: 0.5, unit: 'rem' },
+        radius: radius(0.5, 'rem'),
       },
       padding: {
         top: { value: 24, unit: 'px' },
@@ -444,7 +452,7 @@ export const containerVariants: ComponentVariant[] = [
         width: { value: 0, unit: 'px' },
         style: 'solid',
         color: 'transparent',
-        radius: { value: 0.375, unit: 'rem' },
+        radius: radius(0.375, 'rem'),
       },
       padding: {
         top: { value: 20, unit: 'px' },
@@ -466,7 +474,7 @@ export const containerVariants: ComponentVariant[] = [
         width: { value: 2, unit: 'px' },
         style: 'solid',
         color: '#3b82f6',
-        radius: { value: 0.5, unit: 'rem' },
+        radius: radius(0.5, 'rem'),
       },
       padding: {
         top: { value: 24, unit: 'px' },
@@ -40,6 +40,9 @@ export default defineConfig({
         'components/**/*',
         'services/**/*',
         'template/**/*',
+        'renderer/**/*',
+        'html-import/**/*',
+        'mjml/**/*',
         'types/**/*',
         'compatibility/**/*',
         'tips/**/*',
@@ -49,11 +52,17 @@ export default defineConfig({
         'i18n/**/*',
         'data-injection/**/*',
         'email-testing/**/*',
+        'test-sender/**/*',
         'responsive/**/*',
         'errors/**/*',
         'constants/**/*',
         'preset/**/*',
         'mobile/**/*',
+        'theme/**/*',
+        'customization/**/*',
+        'variant/**/*',
+        'recipe/**/*',
+        'blueprint/**/*',
         'vite-env.d.ts',
       ],
       exclude: ['**/*.test.ts', '**/*.test.tsx'],
@@ -4,7 +4,7 @@
  * Renders components as actual HTML instead of JSON preview
  */
 
-import { type Component, Match, Switch, For } from 'solid-js';
+import { type Component, type JSX, Match, Switch, For, Show } from 'solid-js';
 import type {
   BaseComponent,
   ButtonComponent,
@@ -12,17 +12,30 @@ import type {
   ImageComponent,
   SeparatorComponent,
   SpacerComponent,
+  HTMLComponent,
   HeaderComponent,
   FooterComponent,
   HeroComponent,
   ListComponent,
   CTAComponent,
+  RowComponent,
+  ColumnComponent,
+  GlobalBlockReferenceComponent,
+  GlobalBlockResolver,
 } from '@email-builder/core';
 import { ComponentType } from '@email-builder/core';
 import styles from './ComponentRenderer.module.scss';
 
 export interface ComponentRendererProps {
   component: BaseComponent;
+  /**
+   * Renders the contents of a row column; defaults to a static preview of its children
+   */
+  renderColumn?: (column: ColumnComponent) => JSX.Element;
+  /**
+   * Looks up global blocks, to render the live contents of their references
+   */
+  resolveGlobalBlock?: GlobalBlockResolver | undefined;
 }
 
 /**
@@ -46,6 +59,9 @@ export const ComponentRenderer: Component<ComponentRendererProps> = (props) => {
       <Match when={props.component.type === ComponentType.SPACER}>
         <SpacerRenderer component={props.component as unknown as SpacerComponent} />
       </Match>
+      <Match when={props.component.type === ComponentType.HTML}>
+        <HTMLRenderer component={props.component as unknown as HTMLComponent} />
+      </Match>
       <Match when={props.component.type === ComponentType.HEADER}>
         <HeaderRenderer component={props.component as unknown as HeaderComponent} />
       </Match>
@@ -61,6 +77,22 @@ export const ComponentRenderer: Component<ComponentRendererProps> = (props) => {
       <Match when={props.component.type === ComponentType.CALL_TO_ACTION}>
         <CTARenderer component={props.component as unknown as CTAComponent} />
       </Match>
+      <Match when={props.component.type === ComponentType.ROW}>
+        <RowRenderer
+          component={props.component as unknown as RowComponent}
+          renderColumn={props.renderColumn}
+          resolveGlobalBlock={props.resolveGlobalBlock}
+        />
+      </Match>
+      <Match when={props.component.type === ComponentType.COLUMN}>
+        <ColumnContents column={props.component as unknown as ColumnComponent} resolveGlobalBlock={props.resolveGlobalBlock} />
+      </Match>
+      <Match when={props.component.type === ComponentType.GLOBAL_BLOCK}>
+        <GlobalBlockRenderer
+          component={props.component as unknown as GlobalBlockReferenceComponent}
+          resolveGlobalBlock={props.resolveGlobalBlock}
+        />
+      </Match>
     </Switch>
   );
 };
@@ -214,6 +246,18 @@ const SpacerRenderer: Component<{ component: SpacerComponent }> = (props) => {
   );
 };
 
+/**
+ * HTML block renderer
+ */
+const HTMLRenderer: Component<{ component: HTMLComponent }> = (props) => {
+  return (
+    <div
+      class={styles.html}
+      innerHTML={props.component.content?.html || ''}
+    />
+  );
+};
+
 /**
  * Header component renderer
  */
@@ -647,3 +691,102 @@ const CTARenderer: Component<{ component: CTAComponent }> = (props) => {
     </section>
   );
 };
+
+const cssValue = (value: { value: number | string; unit: string } | undefined, fallback: string) =>
+  value ? `${value.value}${value.unit}` : fallback;
+
+const FLEX_ALIGN = { top: 'flex-start', middle: 'center', bottom: 'flex-end' } as const;
+
+/**
+ * Row component renderer - columns side by side
+ */
+const RowRenderer: Component<{
+  component: RowComponent;
+  renderColumn?: ((column: ColumnComponent) => JSX.Element) | undefined;
+  resolveGlobalBlock?: GlobalBlockResolver | undefined;
+}> = (props) => {
+  const getRowStyles = () => {
+    const s = props.component.styles || {};
+    const p = s.padding;
+
+    return {
+      'display': 'flex',
+      'gap': cssValue(s.gutter, '0px'),
+      'background-color': s.backgroundColor || 'transparent',
+      'padding': p ? `${cssValue(p.top, '0px')} ${cssValue(p.right, '0px')} ${cssValue(p.bottom, '0px')} ${cssValue(p.left, '0px')}` : '0',
+    };
+  };
+
+  const getColumnStyles = (column: ColumnComponent) => {
+    const s = column.styles || {};
+    const p = s.padding;
+    const align = s.verticalAlign || props.component.styles?.verticalAlign || 'top';
+
+    return {
+      'flex': `0 1 ${cssValue(column.content?.width, 'auto')}`,
+      'min-width': '0',
+      'align-self': FLEX_ALIGN[align],
+      'background-color': s.backgroundColor || 'transparent',
+      'padding': p ? `${cssValue(p.top, '0px')} ${cssValue(p.right, '0px')} ${cssValue(p.bottom, '0px')} ${cssValue(p.left, '0px')}` : '0',
+    };
+  };
+
+  return (
+    <div class={styles.row} style={getRowStyles()}>
+      <For each={props.component.children}>
+        {(column) => (
+          <div class={styles.rowColumn} style={getColumnStyles(column)}>
+            {props.renderColumn ? props.renderColumn(column) : <ColumnContents column={column} resolveGlobalBlock={props.resolveGlobalBlock} />}
+          </div>
+        )}
+      </For>
+    </div>
+  );
+};
+
+/**
+ * Static preview of the components of a column
+ */
+const ColumnContents: Component<{
+  column: ColumnComponent;
+  resolveGlobalBlock?: GlobalBlockResolver | undefined;
+}> = (props) => {
+  return (
+    <For each={props.column.children}>
+      {(child) => <ComponentRenderer component={child} resolveGlobalBlock={props.resolveGlobalBlock} />}
+    </For>
+  );
+};
+
+/**
+ * Global Block Renderer
+ *
+ * Renders the current components of the referenced block, so edits of the
+ * block show up in every template using it
+ */
+const GlobalBlockRenderer: Component<{
+  component: GlobalBlockReferenceComponent;
+  resolveGlobalBlock?: GlobalBlockResolver | undefined;
+}> = (props) => {
+  const block = () => props.resolveGlobalBlock?.(props.component.content?.blockId);
+
+  return (
+    <div class={styles.globalBlock} data-global-block-id={props.component.content?.blockId}>
+      <Show
+        when={block()}
+        fallback={<div class={styles.globalBlockMissing}>Global block not found: {props.component.content?.blockId}</div>}
+      >
+        {(resolved) => (
+          <>
+            <span class={styles.globalBlockBadge}>
+              <i class="ri-links-line" /> {resolved().name}
+            </span>
+            <For each={resolved().components}>
+              {(child) => <ComponentRenderer component={child} resolveGlobalBlock={props.resolveGlobalBlock} />}
+            </For>
+          </>
+        )}
+      </Show>
+    </div>
+  );
+};
@@ -4,28 +4,113 @@
  * Renders the template and allows for component selection and interaction
  */
 
-import { type Component, For, Show, createSignal, onMount, onCleanup, createMemo } from 'solid-js';
-import type { Template, BaseComponent } from '@email-builder/core';
-import { getTestId, getTestAction, getTestState, DeviceMode } from '@email-builder/core';
+import { type Component, type JSX, For, Show, createSignal, onMount, onCleanup, createMemo } from 'solid-js';
+import type { Template, BaseComponent, ColumnComponent } from '@email-builder/core';
+import {
+  getTestId,
+  getTestAction,
+  getTestState,
+  DeviceMode,
+  applyDarkModeStyles,
+  getMissingTranslations,
+  getSourceLocale,
+  localizeTemplate,
+  evaluateDisplayRule,
+  formatDisplayRule,
+  getRepeatItems,
+  bindRepeatItem,
+  applyThemeTokens,
+} from '@email-builder/core';
+import type { DarkModePalette, GlobalBlockResolver, Theme } from '@email-builder/core';
 import { ComponentRenderer } from './ComponentRenderer';
 import styles from './TemplateCanvas.module.scss';
 
 export interface TemplateCanvasProps {
   template: Template | null;
   selectedComponentId: string | null;
+  /**
+   * Components selected together with shift or cmd/ctrl-click, or a marquee
+   */
+  selectedComponentIds?: string[];
   deviceMode?: DeviceMode;
+  /**
+   * Preview the template with its dark mode colors
+   */
+  darkPreview?: boolean;
+  /**
+   * Sample data the template is previewed with: components whose display rule
+   * does not match are dimmed, and repeated components show once per item.
+   * Without it, components show as designed.
+   */
+  previewData?: Record<string, unknown> | undefined;
+  /**
+   * Theme of the template, the style tokens of the components are resolved with
+   */
+  theme?: Theme | undefined;
   onComponentSelect?: (id: string | null) => void;
+  /**
+   * Called with the selected components on shift or cmd/ctrl-click and marquee
+   * selection; without it, only single selection is available
+   */
+  onSelectionChange?: (ids: string[]) => void;
+  onDuplicateSelection?: () => void;
+  onDeleteSelection?: () => void;
+  /**
+   * Moves the selected components up or down by one
+   */
+  onMoveSelection?: (direction: -1 | 1) => void;
   onComponentAdd?: (component: BaseComponent, index?: number) => void;
   onDrop?: (event: DragEvent) => void;
+  /**
+   * Called when a component from the palette is dropped into a row column
+   */
+  onComponentDropInto?: (event: DragEvent, parentId: string) => void;
+  /**
+   * Looks up global blocks, so their references render the current block contents
+   */
+  resolveGlobalBlock?: GlobalBlockResolver;
+  /**
+   * Content locales of the template, source first; shows a locale switcher when there are several
+   */
+  locales?: string[];
+  /**
+   * Locale the content is shown in, defaults to the source locale
+   */
+  locale?: string;
+  onLocaleChange?: (locale: string) => void;
   onComponentReorder?: (componentId: string, newIndex: number) => void;
   onCanvasRef?: (element: HTMLElement | null) => void;
 }
 
+/**
+ * Marquee selection area, in viewport coordinates; width and height are
+ * negative when dragging up or left
+ */
+interface Marquee {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const MARQUEE_THRESHOLD = 4;
+
 export const TemplateCanvas: Component<TemplateCanvasProps> = (props) => {
   let canvasRef: HTMLDivElement | undefined;
   const [isDraggingOver, setIsDraggingOver] = createSignal(false);
   const [draggedComponentId, setDraggedComponentId] = createSignal<string | null>(null);
   const [dropIndicatorIndex, setDropIndicatorIndex] = createSignal<number | null>(null);
+  const [marquee, setMarquee] = createSignal<Marquee | null>(null);
+  // A marquee ends with a click on the canvas, which would clear the selection
+  let suppressCanvasClick = false;
+
+  const selectedIds = (): string[] =>
+    props.selectedComponentIds?.length
+      ? props.selectedComponentIds
+      : props.selectedComponentId
+        ? [props.selectedComponentId]
+        : [];
+  const isSelected = (id: string) => props.selectedComponentId === id || selectedIds().includes(id);
 
   // Check if component is visible in current mode
   const isComponentVisible = (component: BaseComponent): boolean => {
@@ -38,11 +123,55 @@ export const TemplateCanvas: Component<TemplateCanvasProps> = (props) => {
     return component.visibility.desktop;
   };
 
+  // Check if component is left out for the sample data
+  const isHiddenByRule = (component: BaseComponent): boolean =>
+    props.previewData !== undefined && !evaluateDisplayRule(component.displayRule, props.previewData);
+
+  // Copies of a repeated component for the items of the sample data
+  const getRepeatPreview = (component: BaseComponent): BaseComponent[] | undefined =>
+    props.previewData !== undefined && component.repeat
+      ? getRepeatItems(component.repeat, props.previewData).map((item) => bindRepeatItem(component, item))
+      : undefined;
+
   // Check if component has mobile customizations
   const hasMobileCustomizations = (component: BaseComponent): boolean => {
     return !!(component.mobileStyles || (component.visibility && component.visibility.mobile !== undefined));
   };
 
+  // Template as seen in the selected locale, styled with its theme
+  const template = createMemo((): Template | null => {
+    if (!props.template) {
+      return null;
+    }
+    const themed = props.theme ? applyThemeTokens(props.template, props.theme) : props.template;
+    if (!props.locale || props.locale === getSourceLocale(themed)) {
+      return themed;
+    }
+    return localizeTemplate(themed, props.locale);
+  });
+
+  const missingTranslations = createMemo(() => {
+    const counts = new Map<string, number>();
+    if (props.template && (props.locales?.length ?? 0) > 1) {
+      getMissingTranslations(props.template).locales.forEach((status) => {
+        counts.set(status.locale, status.missing.length);
+      });
+    }
+    return counts;
+  });
+
+  const localeLabel = (locale: string) => {
+    const missing = missingTranslations().get(locale);
+    return missing ? `${locale} (${missing} missing)` : locale;
+  };
+
+  const darkPalette = (): DarkModePalette => template()?.generalStyles.darkPalette ?? {};
+
+  const canvasBackground = () => {
+    const light = template()?.generalStyles.canvasBackgroundColor || '#ffffff';
+    return props.darkPreview ? darkPalette().surface ?? light : light;
+  };
+
   // Notify parent when canvas element is mounted
   onMount(() => {
     if (canvasRef) {
@@ -57,14 +186,84 @@ export const TemplateCanvas: Component<TemplateCanvasProps> = (props) => {
 
   const handleComponentClick = (component: BaseComponent, event: MouseEvent) => {
     event.stopPropagation();
+
+    // Shift or cmd/ctrl-click adds the component to the selection, or removes it
+    if ((event.shiftKey || event.metaKey || event.ctrlKey) && props.onSelectionChange) {
+      const ids = selectedIds();
+      props.onSelectionChange(
+        ids.includes(component.id) ? ids.filter((id) => id !== component.id) : [...ids, component.id]
+      );
+      return;
+    }
+
     props.onComponentSelect?.(component.id);
   };
 
   const handleCanvasClick = () => {
+    if (suppressCanvasClick) {
+      suppressCanvasClick = false;
+      return;
+    }
+
     // Deselect when clicking on empty canvas
     props.onComponentSelect?.(null);
   };
 
+  // Marquee selection, started on the canvas around the components
+  const handleMouseDown = (event: MouseEvent) => {
+    const target = event.target as HTMLElement;
+    if (
+      event.button !== 0 ||
+      !props.onSelectionChange ||
+      target.closest('[data-component-id], select, input, button, label')
+    ) {
+      return;
+    }
+
+    const start = { x: event.clientX, y: event.clientY };
+    const additive = event.shiftKey || event.metaKey || event.ctrlKey;
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      setMarquee({ ...start, width: moveEvent.clientX - start.x, height: moveEvent.clientY - start.y });
+    };
+
+    const handleMouseUp = () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+
+      const area = marquee();
+      setMarquee(null);
+      // Tiny marquees are clicks
+      if (!area || Math.abs(area.width) + Math.abs(area.height) < MARQUEE_THRESHOLD) {
+        return;
+      }
+
+      const ids = getMarqueeComponentIds(area);
+      props.onSelectionChange?.(additive ? [...new Set([...selectedIds(), ...ids])] : ids);
+      suppressCanvasClick = true;
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  // Top-level components the marquee touches
+  const getMarqueeComponentIds = (area: Marquee): string[] => {
+    const left = Math.min(area.x, area.x + area.width);
+    const top = Math.min(area.y, area.y + area.height);
+    const right = Math.max(area.x, area.x + area.width);
+    const bottom = Math.max(area.y, area.y + area.height);
+
+    return Array.from(canvasRef?.querySelectorAll<HTMLElement>('[data-component-id]') ?? [])
+      .filter((element) => !element.parentElement?.closest('[data-component-id]'))
+      .filter((element) => {
+        const rect = element.getBoundingClientRect();
+        return rect.left < right && rect.right > left && rect.top < bottom && rect.bottom > top;
+      })
+      .map((element) => element.dataset['componentId']!)
+      .filter(Boolean);
+  };
+
   const handleDragOver = (event: DragEvent) => {
     event.preventDefault();
     const dataType = event.dataTransfer?.types[0];
@@ -139,11 +338,15 @@ export const TemplateCanvas: Component<TemplateCanvasProps> = (props) => {
         hasTemplate: !!props.template,
         componentCount: props.template?.components?.length || 0,
         isDraggingOver: isDraggingOver(),
-        hasSelection: !!props.selectedComponentId
+        hasSelection: selectedIds().length > 0,
+        selectionCount: selectedIds().length,
+        darkPreview: props.darkPreview || false,
+        dataPreview: props.previewData !== undefined
       })}
       ref={canvasRef}
-      class={`${styles.canvas} ${isDraggingOver() ? styles.draggingOver : ''}`}
+      class={`${styles.canvas} ${isDraggingOver() ? styles.draggingOver : ''} ${props.darkPreview ? styles.darkPreview : ''}`}
       onClick={handleCanvasClick}
+      onMouseDown={handleMouseDown}
       onDragOver={handleDragOver}
       onDragLeave={handleDragLeave}
       onDrop={handleDrop}
@@ -151,24 +354,37 @@ export const TemplateCanvas: Component<TemplateCanvasProps> = (props) => {
       aria-label="Template canvas"
     >
       <Show when={props.template} fallback={<EmptyState />}>
+        <Show when={(props.locales?.length ?? 0) > 1}>
+          <div class={styles.localeSwitcher} onClick={(event) => event.stopPropagation()}>
+            <label for="canvas-locale">Content language</label>
+            <select
+              {...getTestId('select-canvas-locale')}
+              id="canvas-locale"
+              value={props.locale ?? props.locales![0]}
+              onChange={(event) => props.onLocaleChange?.(event.currentTarget.value)}
+            >
+              <For each={props.locales}>{(locale) => <option value={locale}>{localeLabel(locale)}</option>}</For>
+            </select>
+          </div>
+        </Show>
         <div
           {...getTestId('container-template')}
           class={styles.templateContainer}
           style={{
-            width: props.template?.settings.canvasDimensions.width
-              ? `${props.template.settings.canvasDimensions.width}px`
+            width: template()?.settings.canvasDimensions.width
+              ? `${template()!.settings.canvasDimensions.width}px`
               : '100%',
-            'max-width': props.template?.settings.canvasDimensions.maxWidth
-              ? `${props.template.settings.canvasDimensions.maxWidth}px`
+            'max-width': template()?.settings.canvasDimensions.maxWidth
+              ? `${template()!.settings.canvasDimensions.maxWidth}px`
               : 'none',
-            'background-color': props.template?.generalStyles.canvasBackgroundColor || '#ffffff',
+            'background-color': canvasBackground(),
           }}
         >
           <Show
-            when={props.template?.components && props.template.components.length > 0}
+            when={template()?.components && template()!.components.length > 0}
             fallback={<DropZone />}
           >
-            <For each={props.template?.components}>
+            <For each={template()?.components}>
               {(component, index) => (
                 <>
                   <Show when={dropIndicatorIndex() === index()}>
@@ -176,17 +392,26 @@ export const TemplateCanvas: Component<TemplateCanvasProps> = (props) => {
                   </Show>
                   <ComponentItem
                     component={component}
-                    isSelected={props.selectedComponentId === component.id}
+                    isSelected={isSelected(component.id)}
                     isDragging={draggedComponentId() === component.id}
                     isHidden={!isComponentVisible(component)}
+                    isHiddenByRule={isHiddenByRule(component)}
+                    isChildHiddenByRule={isHiddenByRule}
+                    repeatItems={getRepeatPreview(component)}
+                    getRepeatPreview={getRepeatPreview}
                     hasMobileOverrides={hasMobileCustomizations(component)}
                     isMobileMode={props.deviceMode === DeviceMode.MOBILE}
+                    darkPalette={props.darkPreview ? darkPalette() : undefined}
+                    resolveGlobalBlock={props.resolveGlobalBlock}
+                    isComponentSelected={isSelected}
+                    onSelect={(child, event) => handleComponentClick(child, event)}
+                    onDropInto={props.onComponentDropInto}
                     onClick={(event) => handleComponentClick(component, event)}
                     onDragStart={(event) => handleComponentDragStart(component, event)}
                     onDragOver={(event) => handleComponentDragOver(index(), event)}
                     onDragEnd={handleComponentDragEnd}
                   />
-                  <Show when={dropIndicatorIndex() === props.template!.components.length && index() === props.template!.components.length - 1}>
+                  <Show when={dropIndicatorIndex() === template()!.components.length && index() === template()!.components.length - 1}>
                     <div class={styles.dropIndicator}>Drop here</div>
                   </Show>
                 </>
@@ -194,11 +419,79 @@ export const TemplateCanvas: Component<TemplateCanvasProps> = (props) => {
             </For>
           </Show>
         </div>
+        <Show when={selectedIds().length > 1}>
+          <SelectionToolbar
+            count={selectedIds().length}
+            onDuplicate={props.onDuplicateSelection}
+            onMove={props.onMoveSelection}
+            onDelete={props.onDeleteSelection}
+            onClear={() => props.onComponentSelect?.(null)}
+          />
+        </Show>
+      </Show>
+      <Show when={marquee()}>
+        {(area) => (
+          <div
+            {...getTestId('canvas-marquee')}
+            class={styles.marquee}
+            style={{
+              left: `${Math.min(area().x, area().x + area().width)}px`,
+              top: `${Math.min(area().y, area().y + area().height)}px`,
+              width: `${Math.abs(area().width)}px`,
+              height: `${Math.abs(area().height)}px`,
+            }}
+          />
+        )}
       </Show>
     </div>
   );
 };
 
+interface SelectionToolbarProps {
+  count: number;
+  onDuplicate?: (() => void) | undefined;
+  onMove?: ((direction: -1 | 1) => void) | undefined;
+  onDelete?: (() => void) | undefined;
+  onClear: () => void;
+}
+
+/**
+ * Actions on the components selected together
+ */
+const SelectionToolbar: Component<SelectionToolbarProps> = (props) => (
+  <div
+    {...getTestId('toolbar-selection')}
+    {...getTestState({ count: props.count })}
+    class={styles.selectionToolbar}
+    role="toolbar"
+    aria-label="Selected components"
+    onClick={(event) => event.stopPropagation()}
+  >
+    <span class={styles.selectionCount}>{props.count} selected</span>
+    <Show when={props.onDuplicate}>
+      <button {...getTestId('button-selection-duplicate')} type="button" onClick={() => props.onDuplicate?.()}>
+        Duplicate
+      </button>
+    </Show>
+    <Show when={props.onMove}>
+      <button {...getTestId('button-selection-move-up')} type="button" onClick={() => props.onMove?.(-1)}>
+        Move up
+      </button>
+      <button {...getTestId('button-selection-move-down')} type="button" onClick={() => props.onMove?.(1)}>
+        Move down
+      </button>
+    </Show>
+    <Show when={props.onDelete}>
+      <button {...getTestId('button-selection-delete')} type="button" onClick={() => props.onDelete?.()}>
+        Delete
+      </button>
+    </Show>
+    <button {...getTestId('button-selection-clear')} type="button" onClick={() => props.onClear()}>
+      Clear
+    </button>
+  </div>
+);
+
 const EmptyState: Component = () => {
   return (
     <div class={styles.emptyState}>
@@ -223,8 +516,20 @@ interface ComponentItemProps {
   isSelected: boolean;
   isDragging: boolean;
   isHidden?: boolean;
+  isHiddenByRule?: boolean;
+  isChildHiddenByRule?: (component: BaseComponent) => boolean;
+  /**
+   * Copies of a repeated component for the sample data items
+   */
+  repeatItems?: BaseComponent[] | undefined;
+  getRepeatPreview?: (component: BaseComponent) => BaseComponent[] | undefined;
   hasMobileOverrides?: boolean;
   isMobileMode?: boolean;
+  darkPalette?: DarkModePalette | undefined;
+  resolveGlobalBlock?: GlobalBlockResolver | undefined;
+  isComponentSelected?: (id: string) => boolean;
+  onSelect?: (component: BaseComponent, event: MouseEvent) => void;
+  onDropInto?: ((event: DragEvent, parentId: string) => void) | undefined;
   onClick: (event: MouseEvent) => void;
   onDragStart: (event: DragEvent) => void;
   onDragOver: (event: DragEvent) => void;
@@ -237,11 +542,44 @@ const ComponentItem: Component<ComponentItemProps> = (props) => {
 
     if (props.isSelected) classes.push(styles.selected);
     if (props.isDragging) classes.push(styles.dragging);
-    if (props.isHidden) classes.push(styles.hidden);
+    if (props.isHidden || props.isHiddenByRule) classes.push(styles.hidden);
 
     return classes.join(' ');
   };
 
+  const ruleLabel = () =>
+    props.component.displayRule?.conditions.length
+      ? `Shown when ${formatDisplayRule(props.component.displayRule)}`
+      : undefined;
+
+  const repeatLabel = () =>
+    props.component.repeat ? `Repeated for each item of ${props.component.repeat.source}` : undefined;
+
+  const title = () => {
+    if (props.isHiddenByRule) return `Not shown for the sample data: ${ruleLabel()}`;
+    return props.isHidden ? `Hidden on ${props.isMobileMode ? 'mobile' : 'desktop'}` : undefined;
+  };
+
+  const preview = (component: BaseComponent) => (
+    <ComponentPreview
+      component={component}
+      darkPalette={props.darkPalette}
+      resolveGlobalBlock={props.resolveGlobalBlock}
+      renderColumn={(column) => (
+        <ColumnDropZone
+          column={column}
+          isComponentSelected={props.isComponentSelected ?? (() => false)}
+          darkPalette={props.darkPalette}
+          resolveGlobalBlock={props.resolveGlobalBlock}
+          isHiddenByRule={props.isChildHiddenByRule}
+          getRepeatPreview={props.getRepeatPreview}
+          onSelect={(component, event) => props.onSelect?.(component, event)}
+          onDropInto={props.onDropInto}
+        />
+      )}
+    />
+  );
+
   return (
     <div
       {...getTestId(`canvas-component-${props.component.type.toLowerCase()}-${props.component.id}`)}
@@ -250,6 +588,8 @@ const ComponentItem: Component<ComponentItemProps> = (props) => {
         selected: props.isSelected,
         dragging: props.isDragging,
         hidden: props.isHidden || false,
+        hiddenByRule: props.isHiddenByRule || false,
+        repeatCount: props.repeatItems?.length ?? null,
         hasMobileOverrides: props.hasMobileOverrides || false,
         type: props.component.type
       })}
@@ -265,7 +605,7 @@ const ComponentItem: Component<ComponentItemProps> = (props) => {
       aria-label={`${props.component.type} component${props.isHidden ? ' (hidden on mobile)' : ''}`}
       aria-selected={props.isSelected}
       tabindex={0}
-      title={props.isHidden ? `Hidden on ${props.isMobileMode ? 'mobile' : 'desktop'}` : undefined}
+      title={title()}
     >
       <div class={styles.componentOverlay}>
         <span class={styles.dragHandle} title="Drag to reorder">
@@ -283,24 +623,176 @@ const ComponentItem: Component<ComponentItemProps> = (props) => {
               👁️‍🗨️
             </span>
           </Show>
+          <Show when={ruleLabel()}>
+            <span {...getTestId('badge-display-rule')} class={styles.ruleBadge} title={ruleLabel()}>
+              🔀
+            </span>
+          </Show>
+          <Show when={repeatLabel()}>
+            <span {...getTestId('badge-repeat')} class={styles.ruleBadge} title={repeatLabel()}>
+              🔁
+            </span>
+          </Show>
         </span>
       </div>
       <div class={styles.componentContent}>
         {/* Component preview will be rendered here */}
-        <ComponentPreview component={props.component} />
+        <Show when={props.repeatItems} fallback={preview(props.component)}>
+          {(items) => (
+            <RepeatPreview component={props.component} items={items()}>
+              {(item) => preview(item)}
+            </RepeatPreview>
+          )}
+        </Show>
       </div>
     </div>
   );
 };
 
+interface ColumnDropZoneProps {
+  column: ColumnComponent;
+  isComponentSelected: (id: string) => boolean;
+  darkPalette?: DarkModePalette | undefined;
+  resolveGlobalBlock?: GlobalBlockResolver | undefined;
+  isHiddenByRule?: ((component: BaseComponent) => boolean) | undefined;
+  getRepeatPreview?: ((component: BaseComponent) => BaseComponent[] | undefined) | undefined;
+  onSelect: (component: BaseComponent, event: MouseEvent) => void;
+  onDropInto?: ((event: DragEvent, parentId: string) => void) | undefined;
+}
+
+/**
+ * Column of a row: selectable, and a drop target for palette components
+ */
+const ColumnDropZone: Component<ColumnDropZoneProps> = (props) => {
+  const [isDraggingOver, setIsDraggingOver] = createSignal(false);
+
+  const isPaletteDrag = (event: DragEvent) => event.dataTransfer?.types[0] !== 'component/reorder';
+
+  const handleDragOver = (event: DragEvent) => {
+    if (!isPaletteDrag(event)) return;
+
+    event.preventDefault();
+    event.stopPropagation();
+    event.dataTransfer!.dropEffect = 'copy';
+    setIsDraggingOver(true);
+  };
+
+  const handleDrop = (event: DragEvent) => {
+    if (!isPaletteDrag(event)) return;
+
+    event.preventDefault();
+    event.stopPropagation();
+    setIsDraggingOver(false);
+    props.onDropInto?.(event, props.column.id);
+  };
+
+  const classes = () =>
+    [
+      styles.column,
+      props.isComponentSelected(props.column.id) ? styles.selected : '',
+      isDraggingOver() ? styles.draggingOver : '',
+    ].join(' ');
+
+  return (
+    <div
+      {...getTestId(`canvas-column-${props.column.id}`)}
+      {...getTestState({ selected: props.isComponentSelected(props.column.id), isDraggingOver: isDraggingOver() })}
+      class={classes()}
+      onClick={(event) => props.onSelect(props.column, event)}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDraggingOver(false)}
+      onDrop={handleDrop}
+      data-component-id={props.column.id}
+      role="group"
+      aria-label="Column"
+    >
+      <Show when={props.column.children?.length} fallback={<p class={styles.columnPlaceholder}>Drop components here</p>}>
+        <For each={props.column.children}>
+          {(child) => (
+            <div
+              {...getTestId(`canvas-component-${child.type.toLowerCase()}-${child.id}`)}
+              {...getTestAction('select-component')}
+              {...getTestState({ hiddenByRule: props.isHiddenByRule?.(child) || false })}
+              class={`${styles.nestedComponent} ${props.isComponentSelected(child.id) ? styles.selected : ''} ${props.isHiddenByRule?.(child) ? styles.hiddenByRule : ''}`}
+              onClick={(event) => props.onSelect(child, event)}
+              data-component-id={child.id}
+              data-component-type={child.type}
+              role="button"
+              aria-label={`${child.type} component`}
+              aria-selected={props.isComponentSelected(child.id)}
+              tabindex={0}
+              title={child.displayRule?.conditions.length ? `Shown when ${formatDisplayRule(child.displayRule)}` : undefined}
+            >
+              <Show
+                when={props.getRepeatPreview?.(child)}
+                fallback={
+                  <ComponentPreview
+                    component={child}
+                    darkPalette={props.darkPalette}
+                    resolveGlobalBlock={props.resolveGlobalBlock}
+                  />
+                }
+              >
+                {(items) => (
+                  <RepeatPreview component={child} items={items()}>
+                    {(item) => (
+                      <ComponentPreview
+                        component={item}
+                        darkPalette={props.darkPalette}
+                        resolveGlobalBlock={props.resolveGlobalBlock}
+                      />
+                    )}
+                  </RepeatPreview>
+                )}
+              </Show>
+            </div>
+          )}
+        </For>
+      </Show>
+    </div>
+  );
+};
+
+interface RepeatPreviewProps {
+  component: BaseComponent;
+  items: BaseComponent[];
+  children: (item: BaseComponent) => JSX.Element;
+}
+
+/**
+ * Previews the copies of a repeated component, or its empty state
+ */
+const RepeatPreview: Component<RepeatPreviewProps> = (props) => (
+  <Show
+    when={props.items.length > 0}
+    fallback={
+      <p {...getTestId(`text-repeat-empty-${props.component.id}`)} class={styles.repeatEmpty}>
+        {props.component.repeat?.emptyText || `No items in ${props.component.repeat?.source} for the sample data`}
+      </p>
+    }
+  >
+    <For each={props.items}>{(item) => props.children(item)}</For>
+  </Show>
+);
+
 interface ComponentPreviewProps {
   component: BaseComponent;
+  darkPalette?: DarkModePalette | undefined;
+  resolveGlobalBlock?: GlobalBlockResolver | undefined;
+  renderColumn?: (column: ColumnComponent) => JSX.Element;
 }
 
 const ComponentPreview: Component<ComponentPreviewProps> = (props) => {
+  const component = () =>
+    props.darkPalette ? applyDarkModeStyles(props.component, props.darkPalette) : props.component;
+
   return (
     <div class={styles.preview}>
-      <ComponentRenderer component={props.component} />
+      <ComponentRenderer
+        component={component()}
+        {...(props.renderColumn && { renderColumn: props.renderColumn })}
+        resolveGlobalBlock={props.resolveGlobalBlock}
+      />
     </div>
   );
 };
@@ -6,6 +6,7 @@
 
 import { Component, Show, For, createMemo } from 'solid-js';
 import type { CanvasSettingsProps, CanvasSettingDefinition } from './CanvasSettings.types';
+import { ThemeSwitcher } from './ThemeSwitcher';
 import styles from './CanvasSettings.module.scss';
 
 /**
@@ -232,6 +233,21 @@ export const CanvasSettings: Component<CanvasSettingsProps> = (props) => {
         </div>
 
         <div class={styles.canvasSettingsContent}>
+          {/* Theme Section */}
+          <Show when={props.themes && props.onThemeChange}>
+            <div class={styles.settingSection}>
+              <h4 class={styles.settingSectionTitle}>Theme</h4>
+              <ThemeSwitcher
+                themes={props.themes!}
+                themeId={props.template?.generalStyles?.themeId}
+                onChange={(themeId) => props.onThemeChange!(themeId)}
+              />
+              <span class={styles.settingDescription}>
+                Style properties bound to tokens are restyled when the theme changes
+              </span>
+            </div>
+          </Show>
+
           {/* Dimensions Section */}
           <Show when={groupedSettings().dimensions.length > 0}>
             <div class={styles.settingSection}>
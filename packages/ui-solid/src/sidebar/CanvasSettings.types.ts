@@ -2,11 +2,20 @@
  * Canvas Settings Types
  */
 
-import type { Template } from '@email-builder/core';
+import type { Template, Theme } from '@email-builder/core';
 
 export interface CanvasSettingsProps {
   template: Template | null;
   onSettingChange: (path: string, value: any) => void;
+  /**
+   * Themes the template can switch to, shown with onThemeChange
+   */
+  themes?: Theme[];
+  /**
+   * Called with the theme the style tokens of the template are resolved
+   * with, or undefined for no theme
+   */
+  onThemeChange?: (themeId: string | undefined) => void;
   class?: string;
 }
 
@@ -0,0 +1,186 @@
+/**
+ * Display Rule Editor
+ *
+ * Edits the data conditions a component is shown for, e.g.
+ * `customer.tier == "gold"`
+ */
+
+import { type Component, For, Show, createUniqueId } from 'solid-js';
+import type { DisplayCondition, DisplayConditionOperator, DisplayRule } from '@email-builder/core';
+import { formatDisplayRule } from '@email-builder/core';
+import { getTestId, getTestAction, getTestState } from '@email-builder/core/utils';
+import styles from './DisplayRuleEditor.module.scss';
+
+export interface DisplayRuleEditorProps {
+  rule: DisplayRule | undefined;
+  /**
+   * Variables suggested for conditions, e.g. the paths of the sample data
+   */
+  variables?: string[] | undefined;
+  /**
+   * Shown while there are no conditions, instead of the component hint
+   */
+  hint?: string;
+  /**
+   * Called with the edited rule, or undefined when the last condition is removed
+   */
+  onChange: (rule: DisplayRule | undefined) => void;
+}
+
+const OPERATORS: Array<{ value: DisplayConditionOperator; label: string }> = [
+  { value: '==', label: 'equals' },
+  { value: '!=', label: 'does not equal' },
+  { value: '>', label: 'is greater than' },
+  { value: '>=', label: 'is at least' },
+  { value: '<', label: 'is less than' },
+  { value: '<=', label: 'is at most' },
+  { value: 'contains', label: 'contains' },
+  { value: 'exists', label: 'has a value' },
+  { value: 'not-exists', label: 'is empty' },
+];
+
+const hasValue = (operator: DisplayConditionOperator) => operator !== 'exists' && operator !== 'not-exists';
+
+/**
+ * Reads numbers and booleans typed in the value field
+ */
+const parseValue = (text: string): string | number | boolean => {
+  if (text === 'true' || text === 'false') {
+    return text === 'true';
+  }
+  return text.trim() !== '' && Number.isFinite(Number(text)) ? Number(text) : text;
+};
+
+export const DisplayRuleEditor: Component<DisplayRuleEditorProps> = (props) => {
+  const variablesId = createUniqueId();
+  const conditions = () => props.rule?.conditions ?? [];
+
+  const update = (next: DisplayCondition[], match = props.rule?.match ?? 'all') => {
+    props.onChange(next.length > 0 ? { match, conditions: next } : undefined);
+  };
+
+  const updateCondition = (index: number, changes: Partial<DisplayCondition>) => {
+    update(
+      conditions().map((condition, i) => {
+        if (i !== index) {
+          return condition;
+        }
+        const { value, ...rest } = { ...condition, ...changes };
+        return hasValue(rest.operator) ? { ...rest, value: value ?? '' } : rest;
+      })
+    );
+  };
+
+  const addCondition = () => {
+    update([...conditions(), { variable: props.variables?.[0] ?? '', operator: '==', value: '' }]);
+  };
+
+  return (
+    <div
+      {...getTestId('editor-display-rule')}
+      {...getTestState({ conditionCount: conditions().length })}
+      class={styles.editor}
+    >
+      <Show
+        when={conditions().length > 0}
+        fallback={
+          <p class={styles.hint}>
+            {props.hint ?? 'Always shown. Add a condition to show this component only for matching data.'}
+          </p>
+        }
+      >
+        <div class={styles.match}>
+          <span>Show when</span>
+          <select
+            {...getTestId('select-display-rule-match')}
+            value={props.rule!.match}
+            onChange={(e) => update(conditions(), e.currentTarget.value as DisplayRule['match'])}
+            aria-label="Conditions to match"
+          >
+            <option value="all">all</option>
+            <option value="any">any</option>
+          </select>
+          <span>of these conditions match</span>
+        </div>
+
+        <ul class={styles.conditions}>
+          <For each={conditions()}>
+            {(condition, index) => (
+              <li class={styles.condition}>
+                <input
+                  {...getTestId(`input-display-rule-variable-${index()}`)}
+                  type="text"
+                  class={styles.variable}
+                  list={variablesId}
+                  placeholder="customer.tier"
+                  value={condition.variable}
+                  onChange={(e) => updateCondition(index(), { variable: e.currentTarget.value.trim() })}
+                  aria-label="Variable"
+                />
+                <select
+                  {...getTestId(`select-display-rule-operator-${index()}`)}
+                  value={condition.operator}
+                  onChange={(e) =>
+                    updateCondition(index(), { operator: e.currentTarget.value as DisplayConditionOperator })
+                  }
+                  aria-label="Comparison"
+                >
+                  <For each={OPERATORS}>{(operator) => <option value={operator.value}>{operator.label}</option>}</For>
+                </select>
+                <Show when={hasValue(condition.operator)}>
+                  <input
+                    {...getTestId(`input-display-rule-value-${index()}`)}
+                    type="text"
+                    class={styles.value}
+                    value={String(condition.value ?? '')}
+                    onChange={(e) => updateCondition(index(), { value: parseValue(e.currentTarget.value) })}
+                    aria-label="Value"
+                  />
+                </Show>
+                <button
+                  {...getTestId(`button-remove-display-condition-${index()}`)}
+                  {...getTestAction('remove-display-condition')}
+                  class={styles.remove}
+                  onClick={() => update(conditions().filter((_, i) => i !== index()))}
+                  title="Remove condition"
+                  aria-label="Remove condition"
+                >
+                  ×
+                </button>
+              </li>
+            )}
+          </For>
+        </ul>
+
+        <p {...getTestId('text-display-rule')} class={styles.summary}>
+          {formatDisplayRule(props.rule!)}
+        </p>
+      </Show>
+
+      <datalist id={variablesId}>
+        <For each={props.variables ?? []}>{(variable) => <option value={variable} />}</For>
+      </datalist>
+
+      <div class={styles.actions}>
+        <button
+          {...getTestId('button-add-display-condition')}
+          {...getTestAction('add-display-condition')}
+          class={styles.action}
+          onClick={addCondition}
+        >
+          + Add condition
+        </button>
+        <Show when={conditions().length > 0}>
+          <button
+            {...getTestId('button-clear-display-rule')}
+            {...getTestAction('clear-display-rule')}
+            class={styles.clear}
+            onClick={() => props.onChange(undefined)}
+          >
+            Always show
+          </button>
+        </Show>
+      </div>
+    </div>
+  );
+};
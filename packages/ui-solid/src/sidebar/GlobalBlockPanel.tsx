@@ -0,0 +1,170 @@
+/**
+ * Global Block Panel
+ *
+ * Lists the global blocks shared across templates, and turns the selected
+ * component into a block or a block reference back into local components
+ */
+
+import { type Component, For, Show, createSignal } from 'solid-js';
+import type { BaseComponent, GlobalBlock } from '@email-builder/core';
+import { getTestId, getTestAction, getTestState } from '@email-builder/core/utils';
+import styles from './GlobalBlockPanel.module.scss';
+
+export interface GlobalBlockPanelProps {
+  blocks: GlobalBlock[];
+  selectedComponent: BaseComponent | null;
+  /**
+   * Saves the selected component as a new block and replaces it with a reference
+   */
+  onCreateFromSelection?: (componentId: string, name: string) => void;
+  /**
+   * Replaces the components of a block with the selected component
+   */
+  onUpdateFromSelection?: (blockId: string, componentId: string) => void;
+  /**
+   * Replaces a block reference with a local copy of the block
+   */
+  onDetach?: (componentId: string) => void;
+  onDelete?: (blockId: string) => void;
+}
+
+export const GlobalBlockPanel: Component<GlobalBlockPanelProps> = (props) => {
+  const [name, setName] = createSignal('');
+
+  const selectedReference = () =>
+    props.selectedComponent?.type === 'global-block' ? props.selectedComponent : null;
+  const selectedLocal = () =>
+    props.selectedComponent && props.selectedComponent.type !== 'global-block' ? props.selectedComponent : null;
+
+  const handleCreate = () => {
+    const component = selectedLocal();
+    if (component && name().trim()) {
+      props.onCreateFromSelection?.(component.id, name().trim());
+      setName('');
+    }
+  };
+
+  return (
+    <div
+      {...getTestId('panel-global-blocks')}
+      {...getTestState({ blockCount: props.blocks.length, hasSelection: !!props.selectedComponent })}
+      class={styles.panel}
+    >
+      <Show when={selectedReference()}>
+        {(reference) => (
+          <button
+            {...getTestId('button-detach-global-block')}
+            {...getTestAction('detach-global-block')}
+            class={styles.action}
+            onClick={() => props.onDetach?.(reference().id)}
+          >
+            Detach local copy
+          </button>
+        )}
+      </Show>
+
+      <Show when={selectedLocal()}>
+        <div class={styles.createForm}>
+          <input
+            {...getTestId('input-global-block-name')}
+            type="text"
+            class={styles.nameInput}
+            placeholder="Block name"
+            value={name()}
+            onInput={(e) => setName(e.currentTarget.value)}
+            aria-label="Global block name"
+          />
+          <button
+            {...getTestId('button-create-global-block')}
+            {...getTestAction('create-global-block')}
+            class={styles.action}
+            disabled={!name().trim()}
+            onClick={handleCreate}
+          >
+            Save as global block
+          </button>
+        </div>
+      </Show>
+
+      <Show
+        when={props.blocks.length > 0}
+        fallback={<p class={styles.emptyState}>No global blocks yet</p>}
+      >
+        <ul class={styles.blockList}>
+          <For each={props.blocks}>
+            {(block) => (
+              <GlobalBlockItem
+                block={block}
+                canUpdate={!!selectedLocal()}
+                onUpdate={() => {
+                  const component = selectedLocal();
+                  if (component) {
+                    props.onUpdateFromSelection?.(block.id, component.id);
+                  }
+                }}
+                onDelete={() => props.onDelete?.(block.id)}
+              />
+            )}
+          </For>
+        </ul>
+      </Show>
+    </div>
+  );
+};
+
+interface GlobalBlockItemProps {
+  block: GlobalBlock;
+  canUpdate: boolean;
+  onUpdate: () => void;
+  onDelete: () => void;
+}
+
+const GlobalBlockItem: Component<GlobalBlockItemProps> = (props) => {
+  const handleDragStart = (event: DragEvent) => {
+    event.dataTransfer!.effectAllowed = 'copy';
+    event.dataTransfer!.setData('application/json', JSON.stringify({
+      type: 'global-block',
+      blockId: props.block.id,
+    }));
+  };
+
+  return (
+    <li
+      {...getTestId(`global-block-${props.block.id}`)}
+      {...getTestAction('drag-global-block')}
+      class={styles.blockItem}
+      draggable={true}
+      onDragStart={handleDragStart}
+      aria-label={`Drag global block ${props.block.name} to canvas`}
+      tabindex={0}
+    >
+      <i class={`ri-links-line ${styles.blockIcon}`} />
+      <div class={styles.blockInfo}>
+        <div class={styles.blockName}>{props.block.name}</div>
+        <div class={styles.blockMeta}>
+          {props.block.components.length} component{props.block.components.length === 1 ? '' : 's'} · v{props.block.version}
+        </div>
+      </div>
+      <Show when={props.canUpdate}>
+        <button
+          {...getTestAction('update-global-block')}
+          class={styles.iconButton}
+          onClick={props.onUpdate}
+          title="Replace with selected component"
+          aria-label={`Replace ${props.block.name} with selected component`}
+        >
+          <i class="ri-upload-2-line" />
+        </button>
+      </Show>
+      <button
+        {...getTestAction('delete-global-block')}
+        class={styles.iconButton}
+        onClick={props.onDelete}
+        title="Delete global block"
+        aria-label={`Delete ${props.block.name}`}
+      >
+        <i class="ri-delete-bin-line" />
+      </button>
+    </li>
+  );
+};
@@ -0,0 +1,263 @@
+/**
+ * Localization Panel
+ *
+ * Manages the content languages of the template, reports per language the
+ * texts that are not translated yet, and exchanges translation files
+ */
+
+import { type Component, For, Show, createSignal } from 'solid-js';
+import type { LocaleTranslationStatus, LocalizableEntry, MissingTranslationReport } from '@email-builder/core';
+import { getTestId, getTestAction, getTestState } from '@email-builder/core/utils';
+import styles from './LocalizationPanel.module.scss';
+
+export interface LocalizationPanelProps {
+  report: MissingTranslationReport | null;
+  /**
+   * Locale shown in the canvas
+   */
+  currentLocale: string;
+  onSelectLocale?: (locale: string) => void;
+  onAddLocale?: (locale: string) => void;
+  onRemoveLocale?: (locale: string) => void;
+  /**
+   * Pre-fills draft translations of the missing texts; hidden when not set
+   */
+  onPrefill?: (locale: string) => void;
+  /**
+   * Selects the component of a missing text
+   */
+  onSelectEntry?: (entry: LocalizableEntry) => void;
+  /**
+   * Exports one file per locale
+   */
+  onExport?: () => void;
+  /**
+   * Downloads the texts of the template as an XLIFF file to translate to a locale
+   */
+  onExportXLIFF?: (locale: string) => void;
+  /**
+   * Downloads the source texts as a flat JSON file
+   */
+  onExportJSON?: () => void;
+  /**
+   * Imports a translated XLIFF or JSON file
+   */
+  onImportFile?: (file: File) => void;
+}
+
+export const LocalizationPanel: Component<LocalizationPanelProps> = (props) => {
+  const [locale, setLocale] = createSignal('');
+
+  const currentStatus = () => props.report?.locales.find((status) => status.locale === props.currentLocale);
+
+  const handleAdd = () => {
+    if (locale().trim()) {
+      props.onAddLocale?.(locale().trim());
+      setLocale('');
+    }
+  };
+
+  return (
+    <div
+      {...getTestId('panel-localization')}
+      {...getTestState({ localeCount: props.report?.locales.length ?? 0, currentLocale: props.currentLocale })}
+      class={styles.panel}
+    >
+      <div class={styles.addForm}>
+        <input
+          {...getTestId('input-content-locale')}
+          type="text"
+          class={styles.localeInput}
+          placeholder="Locale, e.g. fr-FR"
+          value={locale()}
+          onInput={(e) => setLocale(e.currentTarget.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          aria-label="Content locale"
+        />
+        <button
+          {...getTestId('button-add-content-locale')}
+          {...getTestAction('add-content-locale')}
+          class={styles.action}
+          disabled={!locale().trim()}
+          onClick={handleAdd}
+        >
+          Add
+        </button>
+      </div>
+
+      <Show when={props.report}>
+        {(report) => (
+          <ul class={styles.localeList}>
+            <li
+              class={`${styles.localeItem} ${props.currentLocale === report().sourceLocale ? styles.current : ''}`}
+              onClick={() => props.onSelectLocale?.(report().sourceLocale)}
+            >
+              <div class={styles.localeInfo}>
+                <div class={styles.localeName}>{report().sourceLocale}</div>
+                <div class={styles.localeMeta}>Source · {report().total} texts</div>
+              </div>
+            </li>
+            <For each={report().locales}>
+              {(status) => (
+                <LocaleItem
+                  status={status}
+                  isCurrent={props.currentLocale === status.locale}
+                  canPrefill={!!props.onPrefill}
+                  canExport={!!props.onExportXLIFF}
+                  onSelect={() => props.onSelectLocale?.(status.locale)}
+                  onPrefill={() => props.onPrefill?.(status.locale)}
+                  onExport={() => props.onExportXLIFF?.(status.locale)}
+                  onRemove={() => props.onRemoveLocale?.(status.locale)}
+                />
+              )}
+            </For>
+          </ul>
+        )}
+      </Show>
+
+      <Show when={currentStatus()?.missing.length}>
+        <div {...getTestId('list-missing-translations')} class={styles.missing}>
+          <h3>Missing in {props.currentLocale}</h3>
+          <ul>
+            <For each={currentStatus()!.missing}>
+              {(entry) => (
+                <li>
+                  <button
+                    {...getTestAction('select-missing-translation')}
+                    class={styles.missingEntry}
+                    onClick={() => props.onSelectEntry?.(entry)}
+                    title={entry.key}
+                  >
+                    {entry.text.replace(/<[^>]*>/g, ' ').trim()}
+                  </button>
+                </li>
+              )}
+            </For>
+          </ul>
+        </div>
+      </Show>
+
+      <div class={styles.fileActions}>
+        <Show when={props.onExportJSON}>
+          <button
+            {...getTestId('button-export-translation-json')}
+            {...getTestAction('export-translation-json')}
+            class={styles.secondaryAction}
+            onClick={() => props.onExportJSON?.()}
+          >
+            Source texts (JSON)
+          </button>
+        </Show>
+        <Show when={props.onImportFile}>
+          <label
+            {...getTestId('button-import-translations')}
+            {...getTestAction('import-translations')}
+            class={styles.secondaryAction}
+          >
+            Import translations
+            <input
+              type="file"
+              accept=".xlf,.xliff,.json"
+              style={{ display: 'none' }}
+              onChange={(e) => {
+                const file = e.currentTarget.files?.[0];
+                if (file) {
+                  props.onImportFile?.(file);
+                }
+                e.currentTarget.value = '';
+              }}
+            />
+          </label>
+        </Show>
+      </div>
+
+      <Show when={props.onExport && (props.report?.locales.length ?? 0) > 0}>
+        <button
+          {...getTestId('button-export-locales')}
+          {...getTestAction('export-locales')}
+          class={styles.action}
+          onClick={() => props.onExport?.()}
+        >
+          Export all languages
+        </button>
+      </Show>
+    </div>
+  );
+};
+
+interface LocaleItemProps {
+  status: LocaleTranslationStatus;
+  isCurrent: boolean;
+  canPrefill: boolean;
+  canExport: boolean;
+  onSelect: () => void;
+  onPrefill: () => void;
+  onExport: () => void;
+  onRemove: () => void;
+}
+
+const LocaleItem: Component<LocaleItemProps> = (props) => {
+  const details = () =>
+    [
+      `${Math.round(props.status.coverage * 100)}% translated`,
+      props.status.missing.length && `${props.status.missing.length} missing`,
+      props.status.drafts.length && `${props.status.drafts.length} drafts`,
+      props.status.outdated.length && `${props.status.outdated.length} outdated`,
+    ]
+      .filter(Boolean)
+      .join(' · ');
+
+  return (
+    <li
+      {...getTestId(`content-locale-${props.status.locale}`)}
+      {...getTestAction('select-content-locale')}
+      class={`${styles.localeItem} ${props.isCurrent ? styles.current : ''}`}
+      onClick={props.onSelect}
+    >
+      <div class={styles.localeInfo}>
+        <div class={styles.localeName}>{props.status.locale}</div>
+        <div class={styles.localeMeta}>{details()}</div>
+      </div>
+      <Show when={props.canPrefill && props.status.missing.length > 0}>
+        <button
+          {...getTestAction('prefill-content-locale')}
+          class={styles.iconButton}
+          onClick={(event) => {
+            event.stopPropagation();
+            props.onPrefill();
+          }}
+          title="Pre-fill drafts with auto-translation"
+          aria-label={`Pre-fill ${props.status.locale} with auto-translation`}
+        >
+          <i class="ri-translate-2" />
+        </button>
+      </Show>
+      <Show when={props.canExport}>
+        <button
+          {...getTestAction('export-content-locale-xliff')}
+          class={styles.iconButton}
+          onClick={(event) => {
+            event.stopPropagation();
+            props.onExport();
+          }}
+          title="Download XLIFF for translators"
+          aria-label={`Download XLIFF for ${props.status.locale}`}
+        >
+          <i class="ri-file-download-line" />
+        </button>
+      </Show>
+      <button
+        {...getTestAction('remove-content-locale')}
+        class={styles.iconButton}
+        onClick={(event) => {
+          event.stopPropagation();
+          props.onRemove();
+        }}
+        title="Remove language"
+        aria-label={`Remove ${props.status.locale}`}
+      >
+        <i class="ri-delete-bin-line" />
+      </button>
+    </li>
+  );
+};
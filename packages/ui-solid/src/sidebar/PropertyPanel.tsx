@@ -6,11 +6,15 @@ import type {
 } from './PropertyPanel.types';
 import type { ComponentPreset, VisualFeedbackEvent } from '@email-builder/core';
 import { getTestId, getTestAction, getTestState } from '@email-builder/core/utils';
-import { visualFeedbackEventBus, DeviceMode } from '@email-builder/core';
+import { visualFeedbackEventBus, DeviceMode, getDataPaths, getStyleTokenGroup } from '@email-builder/core';
 import { PresetPreview, PresetManager } from '../modals';
 import { RichTextEditor } from '../editors';
 import { CompatibilityIcon, CompatibilityModal } from '../compatibility';
 import { CSSValueInput, BorderEditor, SpacingEditor, DisplayToggle, ImageUpload } from '../molecules';
+import { DisplayRuleEditor } from './DisplayRuleEditor';
+import { RepeatBindingEditor } from './RepeatBindingEditor';
+import { VariantRecipePicker } from './VariantRecipePicker';
+import { StyleTokenPicker } from './StyleTokenPicker';
 import type { ImageData } from '../molecules/ImageUpload/ImageUpload';
 import type { CSSValue, Border, BorderRadius, Spacing } from '@email-builder/core';
 import styles from './PropertyPanel.module.scss';
@@ -260,8 +264,81 @@ const GENERAL_STYLES_DEFINITIONS: PropertyDefinition[] = [
     section: 'styles',
     placeholder: '12px 24px',
   },
+  // Dark Mode
+  {
+    key: 'generalStyles.darkPalette.background',
+    label: 'Dark Background',
+    type: 'color',
+    section: 'styles',
+  },
+  {
+    key: 'generalStyles.darkPalette.surface',
+    label: 'Dark Canvas Background',
+    type: 'color',
+    section: 'styles',
+  },
+  {
+    key: 'generalStyles.darkPalette.text',
+    label: 'Dark Text Color',
+    type: 'color',
+    section: 'styles',
+  },
+  {
+    key: 'generalStyles.darkPalette.link',
+    label: 'Dark Link Color',
+    type: 'color',
+    section: 'styles',
+  },
+  {
+    key: 'generalStyles.darkPalette.border',
+    label: 'Dark Border Color',
+    type: 'color',
+    section: 'styles',
+  },
 ];
 
+/**
+ * Dark mode overrides, available on every component type
+ */
+const DARK_MODE_DEFINITIONS: PropertyDefinition[] = [
+  {
+    key: 'darkStyles.backgroundColor',
+    label: 'Dark Mode Background',
+    type: 'color',
+    section: 'styles',
+  },
+  {
+    key: 'darkStyles.color',
+    label: 'Dark Mode Text Color',
+    type: 'color',
+    section: 'styles',
+  },
+  {
+    key: 'darkStyles.linkColor',
+    label: 'Dark Mode Link Color',
+    type: 'color',
+    section: 'styles',
+  },
+  {
+    key: 'darkStyles.borderColor',
+    label: 'Dark Mode Border Color',
+    type: 'color',
+    section: 'styles',
+  },
+];
+
+/**
+ * Dark mode image, for image components
+ */
+const DARK_MODE_IMAGE_DEFINITION: PropertyDefinition = {
+  key: 'darkStyles.imageSrc',
+  label: 'Dark Mode Image URL',
+  type: 'url',
+  section: 'styles',
+  placeholder: 'https://example.com/logo-dark.png',
+  description: 'Shown instead of the image in dark mode',
+};
+
 /**
  * Property definitions for each component type
  */
@@ -447,6 +524,27 @@ const PROPERTY_DEFINITIONS: ComponentPropertyMap = {
       max: 200,
     },
   ],
+  html: [
+    {
+      key: 'content.html',
+      label: 'HTML',
+      type: 'textarea',
+      section: 'content',
+      placeholder: '<table>...</table>',
+    },
+    {
+      key: 'styles.padding',
+      label: 'Padding',
+      type: 'spacing',
+      section: 'styles',
+    },
+    {
+      key: 'styles.backgroundColor',
+      label: 'Background Color',
+      type: 'color',
+      section: 'styles',
+    },
+  ],
   header: [
     {
       key: 'content.layout',
@@ -837,6 +935,97 @@ const PROPERTY_DEFINITIONS: ComponentPropertyMap = {
       section: 'styles',
     },
   ],
+  row: [
+    {
+      key: 'content.layout',
+      label: 'Columns',
+      type: 'select',
+      section: 'content',
+      options: [
+        { label: '1 column', value: '1' },
+        { label: '2 columns (50/50)', value: '1-1' },
+        { label: '2 columns (66/33)', value: '2-1' },
+        { label: '2 columns (33/66)', value: '1-2' },
+        { label: '3 columns', value: '1-1-1' },
+        { label: '4 columns', value: '1-1-1-1' },
+      ],
+    },
+    {
+      key: 'content.mobileStacking',
+      label: 'Mobile Stacking',
+      type: 'select',
+      section: 'content',
+      options: [
+        { label: 'Stack', value: 'stack' },
+        { label: 'Stack in reverse', value: 'reverse' },
+        { label: 'Keep side by side', value: 'none' },
+      ],
+    },
+    {
+      key: 'styles.gutter',
+      label: 'Gutter',
+      type: 'cssvalue',
+      section: 'styles',
+      min: 0,
+      max: 80,
+    },
+    {
+      key: 'styles.verticalAlign',
+      label: 'Vertical Align',
+      type: 'radio',
+      section: 'styles',
+      options: [
+        { label: 'Top', value: 'top' },
+        { label: 'Middle', value: 'middle' },
+        { label: 'Bottom', value: 'bottom' },
+      ],
+    },
+    {
+      key: 'styles.backgroundColor',
+      label: 'Background Color',
+      type: 'color',
+      section: 'styles',
+    },
+    {
+      key: 'styles.padding',
+      label: 'Padding',
+      type: 'spacing',
+      section: 'styles',
+    },
+  ],
+  column: [
+    {
+      key: 'content.width',
+      label: 'Width',
+      type: 'cssvalue',
+      section: 'content',
+      min: 0,
+      max: 100,
+    },
+    {
+      key: 'styles.verticalAlign',
+      label: 'Vertical Align',
+      type: 'radio',
+      section: 'styles',
+      options: [
+        { label: 'Top', value: 'top' },
+        { label: 'Middle', value: 'middle' },
+        { label: 'Bottom', value: 'bottom' },
+      ],
+    },
+    {
+      key: 'styles.backgroundColor',
+      label: 'Background Color',
+      type: 'color',
+      section: 'styles',
+    },
+    {
+      key: 'styles.padding',
+      label: 'Padding',
+      type: 'spacing',
+      section: 'styles',
+    },
+  ],
 };
 
 /**
@@ -962,7 +1151,12 @@ export const PropertyPanel: Component<PropertyPanelProps> = (props) => {
     const type = componentType();
     if (!type) return [];
     const definitions = PROPERTY_DEFINITIONS[type];
-    return definitions || [];
+    if (!definitions) return [];
+    return [
+      ...definitions,
+      ...DARK_MODE_DEFINITIONS,
+      ...(type === 'image' ? [DARK_MODE_IMAGE_DEFINITION] : []),
+    ];
   });
 
   const groupedProperties = createMemo(() => {
@@ -988,6 +1182,7 @@ export const PropertyPanel: Component<PropertyPanelProps> = (props) => {
       typography: PropertyDefinition[];
       links: PropertyDefinition[];
       buttons: PropertyDefinition[];
+      darkMode: PropertyDefinition[];
     } = {
       dimensions: [],
       canvasAppearance: [],
@@ -995,6 +1190,7 @@ export const PropertyPanel: Component<PropertyPanelProps> = (props) => {
       typography: [],
       links: [],
       buttons: [],
+      darkMode: [],
     };
 
     GENERAL_STYLES_DEFINITIONS.forEach((prop) => {
@@ -1010,6 +1206,8 @@ export const PropertyPanel: Component<PropertyPanelProps> = (props) => {
         grouped.links.push(prop);
       } else if (prop.key.includes('buttonStyles')) {
         grouped.buttons.push(prop);
+      } else if (prop.key.includes('darkPalette')) {
+        grouped.darkMode.push(prop);
       }
     });
 
@@ -1410,6 +1608,39 @@ export const PropertyPanel: Component<PropertyPanelProps> = (props) => {
     );
   };
 
+  /**
+   * Style path of a property that can be bound to a theme token, e.g.
+   * `backgroundColor` for `styles.backgroundColor`
+   */
+  const getTokenProperty = (property: PropertyDefinition): string | undefined => {
+    if (!props.theme || !props.onStyleTokenChange || !property.key.startsWith('styles.')) {
+      return undefined;
+    }
+    const styleProperty = property.key.slice('styles.'.length);
+    return getStyleTokenGroup(styleProperty) ? styleProperty : undefined;
+  };
+
+  // Bound properties are set from the theme, so their value is not edited directly
+  const isTokenBound = (property: PropertyDefinition): boolean => {
+    const styleProperty = getTokenProperty(property);
+    return !!styleProperty && !!props.selectedComponent?.styleTokens?.[styleProperty];
+  };
+
+  const renderStyleTokenPicker = (property: PropertyDefinition) => {
+    const styleProperty = getTokenProperty(property);
+    if (!styleProperty || !props.selectedComponent) return null;
+
+    return (
+      <StyleTokenPicker
+        property={styleProperty}
+        group={getStyleTokenGroup(styleProperty)!}
+        theme={props.theme!}
+        token={props.selectedComponent.styleTokens?.[styleProperty]}
+        onChange={(token) => props.onStyleTokenChange!(props.selectedComponent!.id, styleProperty, token)}
+      />
+    );
+  };
+
   const renderPropertyEditor = (property: PropertyDefinition) => {
     if (!props.selectedComponent) return null;
 
@@ -1501,6 +1732,7 @@ export const PropertyPanel: Component<PropertyPanelProps> = (props) => {
               value={currentValue || property.min || 0}
               min={property.min}
               max={property.max}
+              disabled={isTokenBound(property)}
               onInput={(e) => {
                 const numValue = Number(e.currentTarget.value);
                 handlePropertyChange(property, isNaN(numValue) ? 0 : numValue);
@@ -1510,6 +1742,7 @@ export const PropertyPanel: Component<PropertyPanelProps> = (props) => {
               onFocus={() => handlePropertyEditStart(property)}
               onBlur={() => handlePropertyEditEnd(property)}
             />
+            {renderStyleTokenPicker(property)}
             {renderInheritedValue(property)}
             <Show when={property.description}>
               <span class={styles.propertyDescription}>{property.description}</span>
@@ -1527,6 +1760,7 @@ export const PropertyPanel: Component<PropertyPanelProps> = (props) => {
               type="color"
               class={styles.propertyColorInput}
               value={currentValue || '#000000'}
+              disabled={isTokenBound(property)}
               onInput={(e) => handlePropertyChange(property, e.currentTarget.value)}
               onMouseEnter={() => handlePropertyHover(property)}
               onMouseLeave={() => handlePropertyUnhover(property)}
@@ -1537,12 +1771,14 @@ export const PropertyPanel: Component<PropertyPanelProps> = (props) => {
               type="text"
               class={styles.propertyInput}
               value={currentValue || '#000000'}
+              disabled={isTokenBound(property)}
               onInput={(e) => handlePropertyChange(property, e.currentTarget.value)}
               onMouseEnter={() => handlePropertyHover(property)}
               onMouseLeave={() => handlePropertyUnhover(property)}
               onFocus={() => handlePropertyEditStart(property)}
               onBlur={() => handlePropertyEditEnd(property)}
             />
+            {renderStyleTokenPicker(property)}
             {renderInheritedValue(property)}
             <Show when={property.description}>
               <span class={styles.propertyDescription}>{property.description}</span>
@@ -1559,6 +1795,7 @@ export const PropertyPanel: Component<PropertyPanelProps> = (props) => {
               id={inputId}
               class={styles.propertySelect}
               value={currentValue}
+              disabled={isTokenBound(property)}
               onChange={(e) => handlePropertyChange(property, e.currentTarget.value)}
               onMouseEnter={() => handlePropertyHover(property)}
               onMouseLeave={() => handlePropertyUnhover(property)}
@@ -1571,6 +1808,7 @@ export const PropertyPanel: Component<PropertyPanelProps> = (props) => {
                 )}
               </For>
             </select>
+            {renderStyleTokenPicker(property)}
             {renderInheritedValue(property)}
             <Show when={property.description}>
               <span class={styles.propertyDescription}>{property.description}</span>
@@ -1988,6 +2226,36 @@ export const PropertyPanel: Component<PropertyPanelProps> = (props) => {
                     </div>
                   }
                 >
+                  {/* Theme */}
+                  <Show when={props.themes && props.onThemeChange}>
+                    <div
+                      {...getTestId('section-theme')}
+                      class={styles.propertySection}
+                    >
+                      <h4 class={styles.propertySectionTitle}>Theme</h4>
+                      <div class={styles.propertyField}>
+                        <label for="general-theme" class={styles.propertyLabel}>
+                          Style Tokens
+                        </label>
+                        <select
+                          {...getTestId('select-template-theme')}
+                          id="general-theme"
+                          class={styles.propertySelect}
+                          value={props.template?.generalStyles?.themeId ?? ''}
+                          onChange={(e) => props.onThemeChange!(e.currentTarget.value || undefined)}
+                        >
+                          <option value="">No theme</option>
+                          <For each={props.themes}>
+                            {(theme) => <option value={theme.id}>{theme.name}</option>}
+                          </For>
+                        </select>
+                        <span class={styles.propertyDescription}>
+                          Style properties bound to tokens are restyled when the theme changes
+                        </span>
+                      </div>
+                    </div>
+                  </Show>
+
                   {/* Canvas Dimensions */}
                   <Show when={groupedGeneralStyles().dimensions?.length > 0}>
                     <div class={styles.propertySection}>
@@ -2047,6 +2315,16 @@ export const PropertyPanel: Component<PropertyPanelProps> = (props) => {
                       </For>
                     </div>
                   </Show>
+
+                  {/* Dark Mode */}
+                  <Show when={groupedGeneralStyles().darkMode?.length > 0}>
+                    <div class={styles.propertySection}>
+                      <h4 class={styles.propertySectionTitle}>Dark Mode Palette</h4>
+                      <For each={groupedGeneralStyles().darkMode || []}>
+                        {(property) => renderGeneralStyleEditor(property)}
+                      </For>
+                    </div>
+                  </Show>
                 </Show>
               </Show>
             </div>
@@ -2275,6 +2553,26 @@ export const PropertyPanel: Component<PropertyPanelProps> = (props) => {
             </div>
           </Show>
 
+          {/* Variants and Recipes Section - Only show in Style tab */}
+          <Show when={activeComponentTab() === 'style' && props.customizationActions}>
+            {(actions) => (
+              <div
+                {...getTestId('section-variants-recipes')}
+                class={styles.propertySection}
+              >
+                <h4 class={styles.propertySectionTitle}>Apply Variant or Recipe</h4>
+                <VariantRecipePicker
+                  variants={actions().getVariants(props.selectedComponent!.type)}
+                  recipes={actions().recipes}
+                  onApplyVariants={(variantIds) => actions().applyVariants(props.selectedComponent!.id, variantIds)}
+                  onApplyRecipe={(recipeId, variant) =>
+                    actions().applyRecipe(props.selectedComponent!.id, recipeId, variant)
+                  }
+                />
+              </div>
+            )}
+          </Show>
+
           {/* Settings Section */}
           <Show when={groupedProperties().settings.length > 0}>
             <div class={styles.propertySection}>
@@ -2284,6 +2582,36 @@ export const PropertyPanel: Component<PropertyPanelProps> = (props) => {
               </For>
             </div>
           </Show>
+
+          {/* Display Rule Section - Only show in Content tab */}
+          <Show when={activeComponentTab() === 'content'}>
+            <div
+              {...getTestId('section-display-rule')}
+              class={styles.propertySection}
+            >
+              <h4 class={styles.propertySectionTitle}>Display Rule</h4>
+              <DisplayRuleEditor
+                rule={props.selectedComponent?.displayRule}
+                variables={getDataPaths(props.sampleData ?? {})}
+                onChange={(rule) => props.onPropertyChange(props.selectedComponent!.id, 'displayRule', rule)}
+              />
+            </div>
+          </Show>
+
+          {/* Repeat Section - Only show in Content tab */}
+          <Show when={activeComponentTab() === 'content'}>
+            <div
+              {...getTestId('section-repeat-binding')}
+              class={styles.propertySection}
+            >
+              <h4 class={styles.propertySectionTitle}>Repeat</h4>
+              <RepeatBindingEditor
+                component={props.selectedComponent!}
+                sampleData={props.sampleData}
+                onChange={(binding) => props.onPropertyChange(props.selectedComponent!.id, 'repeat', binding)}
+              />
+            </div>
+          </Show>
         </div>
 
         {/* Mobile Behavior Section - Always visible at bottom */}
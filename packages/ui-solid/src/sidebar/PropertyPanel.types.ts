@@ -2,8 +2,11 @@ import type {
   BaseComponent,
   ComponentPreset,
   ComponentType,
+  ComponentVariant,
+  StyleRecipe,
   Template,
   DeviceMode,
+  Theme,
 } from '@email-builder/core';
 
 /**
@@ -88,6 +91,43 @@ export interface PropertyPanelProps {
    * Callback to set component visibility per device
    */
   onSetVisibility?: (componentId: string, desktop: boolean, mobile: boolean) => void;
+
+  /**
+   * Sample data of the active data source; its paths are suggested for display
+   * rules and repeat bindings
+   */
+  sampleData?: Record<string, unknown>;
+
+  /**
+   * Theme of the template; style properties can be bound to its tokens
+   */
+  theme?: Theme | undefined;
+
+  /**
+   * Themes the template can be styled with
+   */
+  themes?: Theme[];
+
+  /**
+   * Callback when a style property is bound to a theme token, or unbound
+   * (`token` undefined). `property` is the style path, e.g. `backgroundColor`
+   */
+  onStyleTokenChange?: (componentId: string, property: string, token: string | undefined) => void;
+
+  /**
+   * Callback when the theme of the template changes
+   */
+  onThemeChange?: (themeId: string | undefined) => void;
+
+  /**
+   * Variant and recipe actions; their styles are applied over the component styles
+   */
+  customizationActions?: {
+    getVariants: (componentType: string) => ComponentVariant[];
+    recipes: StyleRecipe[];
+    applyVariants: (componentId: string, variantIds: string[]) => Promise<void>;
+    applyRecipe: (componentId: string, recipeId: string, variant?: string) => Promise<void>;
+  };
 }
 
 /**
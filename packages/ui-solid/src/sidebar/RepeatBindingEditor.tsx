@@ -0,0 +1,309 @@
+/**
+ * Repeat Binding Editor
+ *
+ * Binds a component to a data array, e.g. product recommendations, so it is
+ * repeated for each item with its properties set from the item fields
+ */
+
+import { type Component, For, Show, createMemo, createUniqueId } from 'solid-js';
+import type { BaseComponent, RepeatBinding, RepeatFieldBinding } from '@email-builder/core';
+import { flattenComponents, getDataPaths, getDataValue, getRepeatItems } from '@email-builder/core';
+import { getTestId, getTestAction, getTestState } from '@email-builder/core/utils';
+import { DisplayRuleEditor } from './DisplayRuleEditor';
+import styles from './RepeatBindingEditor.module.scss';
+
+export interface RepeatBindingEditorProps {
+  component: BaseComponent;
+  /**
+   * Sample data the source arrays and item fields are suggested from
+   */
+  sampleData?: Record<string, unknown> | undefined;
+  /**
+   * Called with the edited binding, or undefined when the component stops repeating
+   */
+  onChange: (binding: RepeatBinding | undefined) => void;
+}
+
+/**
+ * Properties bindable on top of the current content, e.g. the link of an image without one
+ */
+const EXTRA_PROPERTIES: Partial<Record<string, string[]>> = {
+  image: ['content.link.href'],
+};
+
+type OptionalSetting = 'filter' | 'sort' | 'limit' | 'emptyText';
+
+/**
+ * Changes to a binding; optional settings are removed when set to undefined
+ */
+type RepeatBindingChanges = Partial<Omit<RepeatBinding, OptionalSetting>> & {
+  [K in OptionalSetting]?: RepeatBinding[K] | undefined;
+};
+
+export const RepeatBindingEditor: Component<RepeatBindingEditorProps> = (props) => {
+  const sourcesId = createUniqueId();
+  const fieldsId = createUniqueId();
+  const binding = () => props.component.repeat;
+  const data = () => props.sampleData ?? {};
+
+  const arrayPaths = createMemo(() => getDataPaths(data()).filter((path) => Array.isArray(getDataValue(data(), path))));
+
+  const items = createMemo(() => {
+    const current = binding();
+    return current ? getRepeatItems(current, data()) : [];
+  });
+
+  // Fields of the first item of the source, as the data does not describe its item type
+  const itemFields = createMemo(() => {
+    const current = binding();
+    const source = current ? getDataValue(data(), current.source) : undefined;
+    const first: unknown = Array.isArray(source) ? source[0] : undefined;
+    if (first === undefined) {
+      return [];
+    }
+    return typeof first === 'object' && first !== null ? getDataPaths(first as Record<string, unknown>) : ['this'];
+  });
+
+  // The repeated component and its children, whose properties can be bound
+  const targets = createMemo(() => [props.component, ...flattenComponents(props.component.children ?? [])]);
+
+  const propertyPaths = (componentId: string | undefined) => {
+    const target = targets().find((component) => component.id === (componentId ?? props.component.id));
+    if (!target) {
+      return [];
+    }
+    const paths = getDataPaths(target.content).map((path) => `content.${path}`);
+    return [...new Set([...paths, ...(EXTRA_PROPERTIES[target.type] ?? [])])];
+  };
+
+  const update = (changes: RepeatBindingChanges) => {
+    const { filter, sort, limit, emptyText, ...rest } = { ...binding()!, ...changes };
+    props.onChange({
+      ...rest,
+      ...(filter && { filter }),
+      ...(sort && { sort }),
+      ...(limit !== undefined && { limit }),
+      ...(emptyText && { emptyText }),
+    });
+  };
+
+  const fields = () => binding()?.fields ?? [];
+
+  const updateField = (index: number, changes: Partial<RepeatFieldBinding>) => {
+    update({
+      fields: fields().map((field, i) => {
+        if (i !== index) {
+          return field;
+        }
+        const { componentId, ...rest } = { ...field, ...changes };
+        return componentId && componentId !== props.component.id ? { ...rest, componentId } : rest;
+      }),
+    });
+  };
+
+  const addField = () => {
+    update({
+      fields: [...fields(), { property: propertyPaths(undefined)[0] ?? 'content.html', field: itemFields()[0] ?? '' }],
+    });
+  };
+
+  const parseLimit = (text: string): number | undefined => {
+    const limit = Number.parseInt(text, 10);
+    return Number.isFinite(limit) && limit >= 0 ? limit : undefined;
+  };
+
+  return (
+    <div
+      {...getTestId('editor-repeat-binding')}
+      {...getTestState({ repeated: !!binding(), itemCount: items().length })}
+      class={styles.editor}
+    >
+      <Show
+        when={binding()}
+        fallback={
+          <>
+            <p class={styles.hint}>Shown once. Repeat it for each item of a data array, e.g. product recommendations.</p>
+            <div class={styles.actions}>
+              <button
+                {...getTestId('button-add-repeat-binding')}
+                {...getTestAction('add-repeat-binding')}
+                class={styles.action}
+                onClick={() => props.onChange({ source: arrayPaths()[0] ?? '', fields: [] })}
+              >
+                Repeat for data
+              </button>
+            </div>
+          </>
+        }
+      >
+        {(current) => (
+          <>
+            <label class={styles.field}>
+              <span>Repeat for each item of</span>
+              <input
+                {...getTestId('input-repeat-source')}
+                type="text"
+                list={sourcesId}
+                placeholder="order.items"
+                value={current().source}
+                onChange={(e) => update({ source: e.currentTarget.value.trim() })}
+              />
+            </label>
+            <p {...getTestId('text-repeat-item-count')} class={styles.hint}>
+              {items().length === 1 ? '1 item' : `${items().length} items`} in the sample data
+            </p>
+
+            <div class={styles.group}>
+              <span class={styles.groupTitle}>Fields</span>
+              <ul class={styles.bindings}>
+                <For each={fields()}>
+                  {(field, index) => (
+                    <li class={styles.binding}>
+                      <Show when={targets().length > 1}>
+                        <select
+                          {...getTestId(`select-repeat-field-component-${index()}`)}
+                          value={field.componentId ?? props.component.id}
+                          onChange={(e) => updateField(index(), { componentId: e.currentTarget.value })}
+                          aria-label="Component"
+                        >
+                          <For each={targets()}>
+                            {(target) => (
+                              <option value={target.id}>
+                                {target.id === props.component.id ? `${target.type} (this)` : `${target.type} (${target.id})`}
+                              </option>
+                            )}
+                          </For>
+                        </select>
+                      </Show>
+                      <select
+                        {...getTestId(`select-repeat-field-property-${index()}`)}
+                        value={field.property}
+                        onChange={(e) => updateField(index(), { property: e.currentTarget.value })}
+                        aria-label="Property"
+                      >
+                        <For each={[...new Set([field.property, ...propertyPaths(field.componentId)])]}>
+                          {(property) => <option value={property}>{property}</option>}
+                        </For>
+                      </select>
+                      <span class={styles.arrow}>←</span>
+                      <input
+                        {...getTestId(`input-repeat-field-${index()}`)}
+                        type="text"
+                        class={styles.itemField}
+                        list={fieldsId}
+                        placeholder="title"
+                        value={field.field}
+                        onChange={(e) => updateField(index(), { field: e.currentTarget.value.trim() })}
+                        aria-label="Item field"
+                      />
+                      <button
+                        {...getTestId(`button-remove-repeat-field-${index()}`)}
+                        {...getTestAction('remove-repeat-field')}
+                        class={styles.remove}
+                        onClick={() => update({ fields: fields().filter((_, i) => i !== index()) })}
+                        title="Remove field"
+                        aria-label="Remove field"
+                      >
+                        ×
+                      </button>
+                    </li>
+                  )}
+                </For>
+              </ul>
+              <div class={styles.actions}>
+                <button
+                  {...getTestId('button-add-repeat-field')}
+                  {...getTestAction('add-repeat-field')}
+                  class={styles.clear}
+                  onClick={addField}
+                >
+                  + Add field
+                </button>
+              </div>
+            </div>
+
+            <div class={styles.group}>
+              <span class={styles.groupTitle}>Items</span>
+              <DisplayRuleEditor
+                rule={current().filter}
+                variables={itemFields()}
+                hint="All items are repeated. Add a condition to repeat only matching items."
+                onChange={(filter) => update({ filter })}
+              />
+              <div class={styles.row}>
+                <label class={styles.field}>
+                  <span>Sort by</span>
+                  <input
+                    {...getTestId('input-repeat-sort')}
+                    type="text"
+                    list={fieldsId}
+                    placeholder="Data order"
+                    value={current().sort?.field ?? ''}
+                    onChange={(e) => {
+                      const field = e.currentTarget.value.trim();
+                      update({ sort: field ? { field, direction: current().sort?.direction ?? 'asc' } : undefined });
+                    }}
+                  />
+                </label>
+                <Show when={current().sort}>
+                  {(sort) => (
+                    <select
+                      {...getTestId('select-repeat-sort-direction')}
+                      value={sort().direction}
+                      onChange={(e) =>
+                        update({ sort: { ...sort(), direction: e.currentTarget.value as 'asc' | 'desc' } })
+                      }
+                      aria-label="Sort direction"
+                    >
+                      <option value="asc">ascending</option>
+                      <option value="desc">descending</option>
+                    </select>
+                  )}
+                </Show>
+              </div>
+              <label class={styles.field}>
+                <span>Show at most</span>
+                <input
+                  {...getTestId('input-repeat-limit')}
+                  type="number"
+                  min="0"
+                  placeholder="All items"
+                  value={current().limit ?? ''}
+                  onChange={(e) => update({ limit: parseLimit(e.currentTarget.value) })}
+                />
+              </label>
+              <label class={styles.field}>
+                <span>When there are no items, show</span>
+                <input
+                  {...getTestId('input-repeat-empty-text')}
+                  type="text"
+                  placeholder="Nothing"
+                  value={current().emptyText ?? ''}
+                  onChange={(e) => update({ emptyText: e.currentTarget.value.trim() })}
+                />
+              </label>
+            </div>
+
+            <div class={styles.actions}>
+              <button
+                {...getTestId('button-remove-repeat-binding')}
+                {...getTestAction('remove-repeat-binding')}
+                class={styles.clear}
+                onClick={() => props.onChange(undefined)}
+              >
+                Show once
+              </button>
+            </div>
+          </>
+        )}
+      </Show>
+
+      <datalist id={sourcesId}>
+        <For each={arrayPaths()}>{(path) => <option value={path} />}</For>
+      </datalist>
+      <datalist id={fieldsId}>
+        <For each={itemFields()}>{(field) => <option value={field} />}</For>
+      </datalist>
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+/**
+ * Style Token Picker
+ *
+ * Binds a style property to a token of the template theme, e.g. a background
+ * color to `colors.primary.500`, so it follows theme changes
+ */
+
+import { type Component, For, Show, createMemo } from 'solid-js';
+import type { Theme, ThemeTokenGroup } from '@email-builder/core';
+import { formatThemeTokenValue, getThemeTokens } from '@email-builder/core';
+import { getTestId, getTestState } from '@email-builder/core/utils';
+import styles from './StyleTokenPicker.module.scss';
+
+export interface StyleTokenPickerProps {
+  /**
+   * Style path, e.g. `backgroundColor`
+   */
+  property: string;
+  group: ThemeTokenGroup;
+  theme: Theme;
+  /**
+   * Bound token path, if any
+   */
+  token: string | undefined;
+  /**
+   * Called with the selected token, or undefined for a custom value
+   */
+  onChange: (token: string | undefined) => void;
+}
+
+export const StyleTokenPicker: Component<StyleTokenPickerProps> = (props) => {
+  const tokens = createMemo(() => getThemeTokens(props.theme, props.group));
+
+  // A bound token the theme does not define keeps its last value
+  const missing = () => props.token !== undefined && !tokens().some((token) => token.path === props.token);
+
+  const swatch = () => {
+    const token = tokens().find(({ path }) => path === props.token);
+    return props.group === 'color' && typeof token?.value === 'string' ? token.value : undefined;
+  };
+
+  return (
+    <div
+      {...getTestId(`picker-style-token-${props.property}`)}
+      {...getTestState({ bound: props.token !== undefined, token: props.token ?? null })}
+      class={styles.picker}
+    >
+      <Show when={swatch()}>
+        {(color) => <span class={styles.swatch} style={{ 'background-color': color() }} />}
+      </Show>
+      <select
+        {...getTestId(`select-style-token-${props.property}`)}
+        class={styles.select}
+        value={props.token ?? ''}
+        onChange={(e) => props.onChange(e.currentTarget.value || undefined)}
+        aria-label="Theme token"
+      >
+        <option value="">Custom value</option>
+        <Show when={missing()}>
+          <option value={props.token}>{props.token} (not in {props.theme.name})</option>
+        </Show>
+        <For each={tokens()}>
+          {(token) => (
+            <option value={token.path}>
+              {token.path} ({formatThemeTokenValue(token.value)})
+            </option>
+          )}
+        </For>
+      </select>
+    </div>
+  );
+};
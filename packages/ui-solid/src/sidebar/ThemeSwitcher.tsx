@@ -0,0 +1,77 @@
+/**
+ * Theme Switcher
+ *
+ * Lists the available themes with a preview of their brand colors, and
+ * switches the theme the style tokens of the template are resolved with
+ */
+
+import { type Component, For, Show } from 'solid-js';
+import type { Theme } from '@email-builder/core';
+import { getTestId, getTestState } from '@email-builder/core/utils';
+import styles from './ThemeSwitcher.module.scss';
+
+export interface ThemeSwitcherProps {
+  themes: Theme[];
+  /**
+   * Selected theme, if any
+   */
+  themeId: string | undefined;
+  /**
+   * Called with the selected theme, or undefined for no theme
+   */
+  onChange: (themeId: string | undefined) => void;
+}
+
+const getPreviewColors = (theme: Theme): string[] => [
+  theme.colors.primary[500],
+  theme.colors.secondary[500],
+  theme.colors.accent[500],
+];
+
+export const ThemeSwitcher: Component<ThemeSwitcherProps> = (props) => {
+  return (
+    <div
+      {...getTestId('theme-switcher')}
+      {...getTestState({ themeId: props.themeId ?? null })}
+      class={styles.switcher}
+      role="radiogroup"
+      aria-label="Theme"
+    >
+      <button
+        {...getTestId('button-theme-none')}
+        type="button"
+        role="radio"
+        aria-checked={props.themeId === undefined}
+        class={styles.option}
+        classList={{ [styles.selected ?? '']: props.themeId === undefined }}
+        onClick={() => props.onChange(undefined)}
+      >
+        <span class={styles.name}>No theme</span>
+      </button>
+      <For each={props.themes}>
+        {(theme) => (
+          <button
+            {...getTestId(`button-theme-${theme.id}`)}
+            type="button"
+            role="radio"
+            aria-checked={props.themeId === theme.id}
+            class={styles.option}
+            classList={{ [styles.selected ?? '']: props.themeId === theme.id }}
+            title={theme.description}
+            onClick={() => props.onChange(theme.id)}
+          >
+            <span class={styles.swatches}>
+              <For each={getPreviewColors(theme)}>
+                {(color) => <span class={styles.swatch} style={{ 'background-color': color }} />}
+              </For>
+            </span>
+            <span class={styles.name}>{theme.name}</span>
+          </button>
+        )}
+      </For>
+      <Show when={props.themeId !== undefined && !props.themes.some((theme) => theme.id === props.themeId)}>
+        <span class={styles.missing}>Theme "{props.themeId}" is not available, tokens keep their last values</span>
+      </Show>
+    </div>
+  );
+};
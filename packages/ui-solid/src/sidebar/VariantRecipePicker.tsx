@@ -0,0 +1,177 @@
+/**
+ * Variant Recipe Picker
+ *
+ * Applies the styles of component variants, e.g. a secondary large button,
+ * or of a style recipe, e.g. an elevated card, to a component
+ */
+
+import { type Component, For, Show, createMemo, createSignal } from 'solid-js';
+import type { ComponentVariant, StyleRecipe } from '@email-builder/core';
+import { getTestId, getTestAction, getTestState } from '@email-builder/core/utils';
+import styles from './VariantRecipePicker.module.scss';
+
+export interface VariantRecipePickerProps {
+  /**
+   * Variants of the component type
+   */
+  variants: ComponentVariant[];
+  recipes: StyleRecipe[];
+  /**
+   * Called with the variants to apply, later ones over earlier ones
+   */
+  onApplyVariants: (variantIds: string[]) => void;
+  /**
+   * Called with the recipe to apply, and its variant if any
+   */
+  onApplyRecipe: (recipeId: string, variant: string | undefined) => void;
+}
+
+interface VariantGroup {
+  name: string;
+  variants: ComponentVariant[];
+}
+
+export const VariantRecipePicker: Component<VariantRecipePickerProps> = (props) => {
+  // One variant per group, e.g. a style and a size
+  const [selectedVariants, setSelectedVariants] = createSignal<Record<string, string>>({});
+  const [recipeId, setRecipeId] = createSignal('');
+  const [recipeVariant, setRecipeVariant] = createSignal('');
+
+  const groups = createMemo(() => {
+    const grouped = new Map<string, ComponentVariant[]>();
+    [...props.variants]
+      .sort((a, b) => (a.metadata?.order ?? 0) - (b.metadata?.order ?? 0))
+      .forEach((variant) => {
+        const name = variant.metadata?.group ?? variant.category;
+        grouped.set(name, [...(grouped.get(name) ?? []), variant]);
+      });
+    return [...grouped].map(([name, variants]): VariantGroup => ({ name, variants }));
+  });
+
+  const variantIds = () =>
+    groups().flatMap((group) => {
+      const variantId = selectedVariants()[group.name];
+      return variantId && group.variants.some((variant) => variant.id === variantId) ? [variantId] : [];
+    });
+
+  const toggleVariant = (group: string, variantId: string) => {
+    const { [group]: current, ...rest } = selectedVariants();
+    setSelectedVariants(current === variantId ? rest : { ...rest, [group]: variantId });
+  };
+
+  const recipe = () => props.recipes.find((candidate) => candidate.id === recipeId());
+  const recipeVariants = () => Object.keys(recipe()?.variants ?? {});
+
+  const selectRecipe = (id: string) => {
+    setRecipeId(id);
+    setRecipeVariant('');
+  };
+
+  const applyVariants = () => {
+    props.onApplyVariants(variantIds());
+    setSelectedVariants({});
+  };
+
+  const applyRecipe = () => {
+    props.onApplyRecipe(recipeId(), recipeVariant() || undefined);
+  };
+
+  return (
+    <div
+      {...getTestId('picker-variant-recipe')}
+      {...getTestState({ variantIds: variantIds(), recipeId: recipeId() || null })}
+      class={styles.picker}
+    >
+      <div class={styles.group}>
+        <span class={styles.groupTitle}>Variants</span>
+        <Show
+          when={groups().length > 0}
+          fallback={<p class={styles.hint}>No variants for this component type.</p>}
+        >
+          <For each={groups()}>
+            {(group) => (
+              <div class={styles.variantGroup}>
+                <span class={styles.variantGroupName}>{group.name}</span>
+                <div class={styles.variants}>
+                  <For each={group.variants}>
+                    {(variant) => (
+                      <button
+                        {...getTestId(`button-variant-${variant.id}`)}
+                        type="button"
+                        class={styles.variant}
+                        classList={{ [styles.selected ?? '']: selectedVariants()[group.name] === variant.id }}
+                        aria-pressed={selectedVariants()[group.name] === variant.id}
+                        title={variant.description}
+                        onClick={() => toggleVariant(group.name, variant.id)}
+                      >
+                        {variant.name}
+                      </button>
+                    )}
+                  </For>
+                </div>
+              </div>
+            )}
+          </For>
+          <div class={styles.actions}>
+            <button
+              {...getTestId('button-apply-variants')}
+              {...getTestAction('apply-variants')}
+              class={styles.action}
+              disabled={variantIds().length === 0}
+              onClick={applyVariants}
+            >
+              Apply variants
+            </button>
+          </div>
+        </Show>
+      </div>
+
+      <div class={styles.group}>
+        <span class={styles.groupTitle}>Recipe</span>
+        <Show
+          when={props.recipes.length > 0}
+          fallback={<p class={styles.hint}>No recipes available.</p>}
+        >
+          <div class={styles.row}>
+            <select
+              {...getTestId('select-recipe')}
+              value={recipeId()}
+              onChange={(e) => selectRecipe(e.currentTarget.value)}
+              aria-label="Recipe"
+            >
+              <option value="">Choose a recipe…</option>
+              <For each={props.recipes}>
+                {(candidate) => <option value={candidate.id}>{candidate.name}</option>}
+              </For>
+            </select>
+            <Show when={recipeVariants().length > 0}>
+              <select
+                {...getTestId('select-recipe-variant')}
+                value={recipeVariant()}
+                onChange={(e) => setRecipeVariant(e.currentTarget.value)}
+                aria-label="Recipe variant"
+              >
+                <option value="">Default</option>
+                <For each={recipeVariants()}>{(variant) => <option value={variant}>{variant}</option>}</For>
+              </select>
+            </Show>
+          </div>
+          <Show when={recipe()?.description}>
+            {(description) => <p class={styles.hint}>{description()}</p>}
+          </Show>
+          <div class={styles.actions}>
+            <button
+              {...getTestId('button-apply-recipe')}
+              {...getTestAction('apply-recipe')}
+              class={styles.action}
+              disabled={!recipe()}
+              onClick={applyRecipe}
+            >
+              Apply recipe
+            </button>
+          </div>
+        </Show>
+      </div>
+    </div>
+  );
+};
@@ -7,3 +7,24 @@ export type { PropertyPanelProps } from './PropertyPanel.types';
 
 export { CanvasSettings } from './CanvasSettings';
 export type { CanvasSettingsProps } from './CanvasSettings.types';
+
+export { GlobalBlockPanel } from './GlobalBlockPanel';
+export type { GlobalBlockPanelProps } from './GlobalBlockPanel';
+
+export { LocalizationPanel } from './LocalizationPanel';
+export type { LocalizationPanelProps } from './LocalizationPanel';
+
+export { DisplayRuleEditor } from './DisplayRuleEditor';
+export type { DisplayRuleEditorProps } from './DisplayRuleEditor';
+
+export { RepeatBindingEditor } from './RepeatBindingEditor';
+export type { RepeatBindingEditorProps } from './RepeatBindingEditor';
+
+export { StyleTokenPicker } from './StyleTokenPicker';
+export type { StyleTokenPickerProps } from './StyleTokenPicker';
+
+export { ThemeSwitcher } from './ThemeSwitcher';
+export type { ThemeSwitcherProps } from './ThemeSwitcher';
+
+export { VariantRecipePicker } from './VariantRecipePicker';
+export type { VariantRecipePickerProps } from './VariantRecipePicker';
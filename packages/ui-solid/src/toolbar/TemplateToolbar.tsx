@@ -5,12 +5,21 @@
  */
 
 import { type Component, Show, createSignal } from 'solid-js';
+import type { AutoSaveState } from '@email-builder/core';
 import styles from './TemplateToolbar.module.scss';
 import type { TemplateToolbarProps } from './TemplateToolbar.types';
 import { TestMode } from '@email-builder/core/config';
 import { getTestId, getTestAction } from '@email-builder/core/utils';
 import { Button } from '../atoms/Button/Button';
 
+const SAVE_STATE_LABELS: Record<AutoSaveState, string> = {
+  idle: '',
+  dirty: 'Unsaved changes',
+  saving: 'Saving…',
+  saved: 'Saved',
+  failed: 'Save failed',
+};
+
 export const TemplateToolbar: Component<TemplateToolbarProps> = (props) => {
   const [testModeEnabled, setTestModeEnabled] = createSignal(TestMode.isEnabled());
 
@@ -54,6 +63,19 @@ export const TemplateToolbar: Component<TemplateToolbarProps> = (props) => {
     props.onCheckCompatibility?.();
   };
 
+  const handleToggleDarkPreview = () => {
+    props.onToggleDarkPreview?.();
+  };
+
+  const handleToggleDataPreview = () => {
+    props.onToggleDataPreview?.();
+  };
+
+  const saveStateLabel = () => (props.saveState ? SAVE_STATE_LABELS[props.saveState] : '');
+
+  const saveStateTitle = () =>
+    props.lastSavedAt ? `Last saved at ${new Date(props.lastSavedAt).toLocaleTimeString()}` : undefined;
+
   const toggleTestMode = () => {
     TestMode.toggle();
     setTestModeEnabled(TestMode.isEnabled());
@@ -177,6 +199,38 @@ export const TemplateToolbar: Component<TemplateToolbarProps> = (props) => {
         >
           Preview
         </Button>
+
+        <Button
+          {...getTestId('button-toggle-dark-preview')}
+          {...getTestAction('toggle-dark-preview')}
+          class={`${styles.toolbar__button} ${props.darkPreview ? styles['toolbar__button--active'] : ''}`}
+          onClick={handleToggleDarkPreview}
+          disabled={!props.hasTemplate}
+          title="Preview the canvas in dark mode"
+          aria-label="Toggle Dark Mode Preview"
+          aria-pressed={props.darkPreview ?? false}
+          variant="secondary"
+          icon={props.darkPreview ? 'sun-line' : 'moon-line'}
+          iconPosition="left"
+        >
+          Dark
+        </Button>
+
+        <Button
+          {...getTestId('button-toggle-data-preview')}
+          {...getTestAction('toggle-data-preview')}
+          class={`${styles.toolbar__button} ${props.dataPreview ? styles['toolbar__button--active'] : ''}`}
+          onClick={handleToggleDataPreview}
+          disabled={!props.hasTemplate}
+          title="Preview display rules and repeated components with the sample data"
+          aria-label="Toggle Data Preview"
+          aria-pressed={props.dataPreview ?? false}
+          variant="secondary"
+          icon="database-2-line"
+          iconPosition="left"
+        >
+          Data
+        </Button>
       </div>
 
       <div class={styles.toolbar__separator} />
@@ -248,6 +302,17 @@ export const TemplateToolbar: Component<TemplateToolbarProps> = (props) => {
 
       <Show when={props.templateName}>
         <div class={styles.toolbar__info}>
+          <Show when={saveStateLabel()}>
+            <span
+              {...getTestId('toolbar-save-state')}
+              class={`${styles.toolbar__saveState} ${styles[`toolbar__saveState--${props.saveState}`] ?? ''}`}
+              title={saveStateTitle()}
+              role="status"
+              aria-live="polite"
+            >
+              {saveStateLabel()}
+            </span>
+          </Show>
           <span class={styles.toolbar__templateName}>{props.templateName}</span>
         </div>
       </Show>
@@ -2,6 +2,8 @@
  * Template Toolbar Types
  */
 
+import type { AutoSaveState } from '@email-builder/core';
+
 export interface TemplateToolbarProps {
   /**
    * Whether a template is currently loaded
@@ -23,6 +25,26 @@ export interface TemplateToolbarProps {
    */
   templateName?: string;
 
+  /**
+   * Auto-save state of the current template (displayed next to the name)
+   */
+  saveState?: AutoSaveState;
+
+  /**
+   * Time of the last successful save
+   */
+  lastSavedAt?: number | null;
+
+  /**
+   * Whether the canvas shows the dark mode preview
+   */
+  darkPreview?: boolean;
+
+  /**
+   * Whether the canvas previews the template with the sample data
+   */
+  dataPreview?: boolean;
+
   /**
    * Callback when New Template button is clicked
    */
@@ -58,6 +80,16 @@ export interface TemplateToolbarProps {
    */
   onPreview?: () => void;
 
+  /**
+   * Callback when Dark Mode Preview button is clicked
+   */
+  onToggleDarkPreview?: () => void;
+
+  /**
+   * Callback when Data Preview button is clicked
+   */
+  onToggleDataPreview?: () => void;
+
   /**
    * Callback when Test in Email Clients button is clicked
    */